@@ -12,6 +12,7 @@ import SyncStatusIndicator from './components/SyncStatusIndicator';
 import { initializeNotificationListeners } from './services/notificationService';
 import DesktopLayout from './components/desktop/DesktopLayout';
 import { preloadMLModules } from './services/ml';
+import { llmClient } from './services/ai/llm';
 
 // Lazy load pages for better performance
 const Dashboard = lazy(() => import('./pages/Dashboard'));
@@ -29,6 +30,7 @@ const ProgramDetail = lazy(() => import('./pages/ProgramDetail'));
 const Analytics = lazy(() => import('./pages/Analytics'));
 const Achievements = lazy(() => import('./pages/Achievements'));
 const Login = lazy(() => import('./pages/Login'));
+const Coach = lazy(() => import('./pages/Coach'));
 
 // Desktop Dashboard Pages
 const DesktopOverview = lazy(() => import('./pages/desktop/Overview'));
@@ -230,6 +232,8 @@ const AppContent = () => {
             <Route path="/analytics" element={<ProtectedRoute><Analytics /></ProtectedRoute>} />
             <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
             <Route path="/achievements" element={<ProtectedRoute><Achievements /></ProtectedRoute>} />
+            <Route path="/coach" element={<ProtectedRoute><Coach /></ProtectedRoute>} />
+            <Route path="/coach/athlete/:athleteId/history/:id" element={<ProtectedRoute><HistoryDetail /></ProtectedRoute>} />
             <Route path="*" element={<Navigate to="/" />} />
             </Routes>
           </Suspense>
@@ -241,8 +245,14 @@ const AppContent = () => {
 
 const App = () => {
   const { loadVisuals, ensureInitialization } = useStore();
+  const localLLM = useStore(state => state.settings.localLLM);
   const { checkAuth } = useAuthStore();
 
+  // Route offline / over-budget AI requests to the user's local model server
+  useEffect(() => {
+    llmClient.configureLocal(localLLM);
+  }, [localLLM]);
+
   useEffect(() => {
     // Hide Capacitor splash screen
     const hideSplash = async () => {
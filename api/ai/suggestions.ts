@@ -44,6 +44,12 @@ export default async function handler(
       return res.status(500).json({ error: 'AI service not configured' });
     }
 
+    // Function-calling turn for the coaching agent (different request/response shape)
+    if (type === 'tool_chat') {
+      const result = await runToolChat(data, GEMINI_API_KEY);
+      return res.status(200).json({ success: true, ...result });
+    }
+
     // Route based on request type
     let prompt = '';
     switch (type) {
@@ -132,3 +138,85 @@ function generateExerciseVisualPrompt(data: any): string {
 
   return `Describe the proper form for ${exerciseName} exercise targeting ${muscleGroups.join(', ')} in 2-3 concise bullet points. Focus on key cues and common mistakes to avoid.`;
 }
+
+// Tool calling (coaching agent)
+// Client messages: { role: 'user' | 'model' | 'tool', ... } - see ToolChatMessage in services/ai/types.ts
+function toGeminiContents(messages: any[]): any[] {
+  const contents: any[] = [];
+
+  messages.forEach((message) => {
+    if (message.role === 'tool') {
+      const part = {
+        functionResponse: { name: message.name, response: { content: message.content } },
+      };
+      // Results of parallel calls go back in a single turn
+      const last = contents[contents.length - 1];
+      if (last?.role === 'function') {
+        last.parts.push(part);
+      } else {
+        contents.push({ role: 'function', parts: [part] });
+      }
+      return;
+    }
+
+    if (message.role === 'model') {
+      contents.push({
+        role: 'model',
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...(message.toolCalls || []).map((call: any) => ({
+            functionCall: { name: call.name, args: call.arguments || {} },
+          })),
+        ],
+      });
+      return;
+    }
+
+    contents.push({ role: 'user', parts: [{ text: message.content }] });
+  });
+
+  return contents;
+}
+
+async function runToolChat(data: any, apiKey: string): Promise<{ result: string; toolCalls: any[] }> {
+  const { systemPrompt, messages, tools, maxTokens, temperature } = data;
+
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new Error('Missing messages for tool_chat request');
+  }
+
+  const geminiResponse = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        systemInstruction: systemPrompt ? { parts: [{ text: systemPrompt }] } : undefined,
+        contents: toGeminiContents(messages),
+        tools: tools?.length ? [{ functionDeclarations: tools }] : undefined,
+        generationConfig: { maxOutputTokens: maxTokens, temperature },
+      })
+    }
+  );
+
+  if (!geminiResponse.ok) {
+    throw new Error(`Gemini API error: ${geminiResponse.statusText}`);
+  }
+
+  const geminiData = await geminiResponse.json();
+  const parts: any[] = geminiData.candidates?.[0]?.content?.parts || [];
+  const turnId = Date.now().toString(36);
+
+  return {
+    result: parts.filter((part) => part.text).map((part) => part.text).join(''),
+    toolCalls: parts
+      .filter((part) => part.functionCall)
+      .map((part, i) => ({
+        id: `${turnId}_${i}`,
+        name: part.functionCall.name,
+        arguments: part.functionCall.args || {},
+      })),
+  };
+}
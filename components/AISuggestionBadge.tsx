@@ -11,6 +11,7 @@
 import React, { useState } from 'react';
 import { Sparkles, Info, TrendingUp, AlertCircle, ChevronDown } from 'lucide-react';
 import { ProgressiveSuggestion } from '../services/progressiveOverload';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface AISuggestionBadgeProps {
   suggestion: ProgressiveSuggestion;
@@ -25,10 +26,13 @@ export const AISuggestionBadge: React.FC<AISuggestionBadgeProps> = ({
   onApply,
   showApplyButton = true,
   compact = false,
-  units = 'lbs'
+  units = 'lbs' as const
 }) => {
   const [showTooltip, setShowTooltip] = useState(false);
 
+  // Suggestions are in kg; shown in whole units like the weight they apply
+  const weight = Math.round(toDisplayWeight(suggestion.weight, units));
+
   const confidenceColor = {
     high: 'text-[#ccff00] border-[#ccff00]',
     medium: 'text-blue-400 border-blue-400',
@@ -45,7 +49,7 @@ export const AISuggestionBadge: React.FC<AISuggestionBadgeProps> = ({
     return (
       <div className={`inline-flex items-center gap-1.5 px-2 py-1 bg-black/50 border ${confidenceColor} text-[10px] font-bold uppercase tracking-wider`}>
         <Sparkles size={10} className="shrink-0" />
-        <span>{suggestion.weight}{units} × {suggestion.reps[0]}-{suggestion.reps[1]}</span>
+        <span>{weight}{units} × {suggestion.reps[0]}-{suggestion.reps[1]}</span>
         <button
           onClick={(e) => {
             e.stopPropagation();
@@ -84,7 +88,7 @@ export const AISuggestionBadge: React.FC<AISuggestionBadgeProps> = ({
               AI Suggests
             </span>
             <span className="text-lg font-black italic">
-              {suggestion.weight} <span className="text-xs font-normal">{units.toUpperCase()}</span> × {suggestion.reps[0]}-{suggestion.reps[1]} <span className="text-xs font-normal">REPS</span>
+              {weight} <span className="text-xs font-normal">{units.toUpperCase()}</span> × {suggestion.reps[0]}-{suggestion.reps[1]} <span className="text-xs font-normal">REPS</span>
             </span>
           </div>
         </div>
@@ -157,7 +161,7 @@ export const AISuggestionBadge: React.FC<AISuggestionBadgeProps> = ({
               <div className="flex items-center justify-between">
                 <span className="text-xs text-[#999] uppercase">Est. 1RM</span>
                 <span className="font-bold text-white">
-                  {suggestion.estimated1RM}{units}
+                  {Math.round(toDisplayWeight(suggestion.estimated1RM, units))}{units}
                 </span>
               </div>
             )}
@@ -2,7 +2,8 @@ import React from 'react';
 import { TrendingUp, Activity, Zap, Target } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { EXERCISE_LIBRARY } from '../constants';
-import { calculate1RM } from '../services/strengthScore';
+import { estimateSet1RM } from '../services/strengthEstimation';
+import { toDisplayWeight } from '../utils/conversions';
 
 export const BodyLiftCorrelation: React.FC = () => {
   const { dailyLogs, history, settings } = useStore();
@@ -13,7 +14,7 @@ export const BodyLiftCorrelation: React.FC = () => {
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
     .map(log => ({
       date: log.date,
-      weight: log.bodyweight!,
+      weight: toDisplayWeight(log.bodyweight!, settings.units),
       timestamp: new Date(log.date).getTime()
     }));
 
@@ -60,7 +61,7 @@ export const BodyLiftCorrelation: React.FC = () => {
       const validSets = log.sets.filter((s: any) => s.completed && s.type !== 'W');
       if (validSets.length === 0) return 0;
 
-      const best1RMs = validSets.map((s: any) => calculate1RM(s.weight, s.reps).estimated1RM);
+      const best1RMs = validSets.map((s: any) => estimateSet1RM(s, settings.e1rmFormula).estimated1RM);
       return Math.max(...best1RMs);
     };
 
@@ -198,7 +199,7 @@ export const BodyLiftCorrelation: React.FC = () => {
                   </div>
                   <div className="text-right">
                     <div className={`text-lg font-black italic ${lift.strengthChange >= 0 ? 'text-primary' : 'text-red-500'}`}>
-                      {lift.strengthChange >= 0 ? '+' : ''}{lift.strengthChange.toFixed(0)} {settings.units}
+                      {lift.strengthChange >= 0 ? '+' : ''}{toDisplayWeight(lift.strengthChange, settings.units).toFixed(0)} {settings.units}
                     </div>
                     <div className="text-[10px] text-[#666] font-mono">
                       {lift.strengthChangePercent >= 0 ? '+' : ''}{lift.strengthChangePercent.toFixed(1)}%
@@ -216,7 +217,7 @@ export const BodyLiftCorrelation: React.FC = () => {
 
                 {/* 1RM Estimates */}
                 <div className="flex justify-between mt-2 text-[10px] text-[#666] font-mono">
-                  <span>Est. 1RM: {lift.first1RM.toFixed(0)} → {lift.last1RM.toFixed(0)} {settings.units}</span>
+                  <span>Est. 1RM: {toDisplayWeight(lift.first1RM, settings.units).toFixed(0)} → {toDisplayWeight(lift.last1RM, settings.units).toFixed(0)} {settings.units}</span>
                 </div>
               </div>
             ))}
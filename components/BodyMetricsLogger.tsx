@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Scale, Ruler, TrendingDown, TrendingUp, Minus } from 'lucide-react';
 import { useStore } from '../store/useStore';
+import { fromDisplayWeight, toDisplayWeight } from '../utils/conversions';
 
 export const BodyMetricsLogger: React.FC = () => {
   const { settings, dailyLogs, updateBodyweight, updateMeasurements, getBodyweightTrend, getLatestMeasurements } = useStore();
@@ -9,7 +10,9 @@ export const BodyMetricsLogger: React.FC = () => {
   const todayLog = dailyLogs[today];
   const latestMeasurements = getLatestMeasurements();
 
-  const [bodyweight, setBodyweight] = useState(todayLog?.bodyweight?.toString() || settings.bodyweight?.toString() || '');
+  // Bodyweight is stored in kg
+  const storedBodyweight = todayLog?.bodyweight ?? settings.bodyweight;
+  const [bodyweight, setBodyweight] = useState(storedBodyweight ? toDisplayWeight(storedBodyweight, settings.units).toString() : '');
   const [showMeasurements, setShowMeasurements] = useState(false);
 
   // Measurement states
@@ -24,7 +27,7 @@ export const BodyMetricsLogger: React.FC = () => {
   const handleSaveBodyweight = () => {
     const weight = parseFloat(bodyweight);
     if (!isNaN(weight) && weight > 0) {
-      updateBodyweight(today, weight);
+      updateBodyweight(today, fromDisplayWeight(weight, settings.units));
     }
   };
 
@@ -46,7 +49,7 @@ export const BodyMetricsLogger: React.FC = () => {
   // Calculate trend from last 7 days
   const trend = getBodyweightTrend(7);
   const trendDirection = trend.length >= 2
-    ? trend[trend.length - 1].weight - trend[0].weight
+    ? toDisplayWeight(trend[trend.length - 1].weight - trend[0].weight, settings.units)
     : 0;
 
   const getTrendIcon = () => {
@@ -76,7 +79,7 @@ export const BodyMetricsLogger: React.FC = () => {
                 value={bodyweight}
                 onChange={(e) => setBodyweight(e.target.value)}
                 onBlur={handleSaveBodyweight}
-                placeholder={settings.bodyweight?.toString() || '0'}
+                placeholder={settings.bodyweight ? toDisplayWeight(settings.bodyweight, settings.units).toString() : '0'}
                 className="flex-1 bg-black border border-[#333] px-3 py-2 text-white font-mono text-lg focus:border-primary outline-none"
               />
               <button
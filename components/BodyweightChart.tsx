@@ -1,6 +1,7 @@
 import React from 'react';
 import { TrendingUp } from 'lucide-react';
 import { useStore } from '../store/useStore';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface BodyweightChartProps {
   days?: number;
@@ -8,7 +9,7 @@ interface BodyweightChartProps {
 
 export const BodyweightChart: React.FC<BodyweightChartProps> = ({ days = 30 }) => {
   const { getBodyweightTrend, settings } = useStore();
-  const trend = getBodyweightTrend(days);
+  const trend = getBodyweightTrend(days).map(t => ({ ...t, weight: toDisplayWeight(t.weight, settings.units) }));
 
   if (trend.length === 0) {
     return (
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Users, Link2, Unlink, Check, X, ChevronRight } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { backend } from '../services/backend';
+import { normalizeInviteCode } from '../services/coaching';
+import { parseProgramPackage } from '../services/programPackage';
+import { haptic } from '../services/haptics';
+import type { CoachLink, ProgramAssignment } from '../types';
+
+/**
+ * Athlete side of coach mode: link to a coach with an invite code, unlink,
+ * and accept or decline programs the coach assigned
+ */
+export const CoachingPanel: React.FC = () => {
+  const navigate = useNavigate();
+  const importProgramPackage = useStore((state) => state.importProgramPackage);
+  const activateProgram = useStore((state) => state.activateProgram);
+  const userId = backend.auth.user?.id;
+
+  const [links, setLinks] = useState<CoachLink[]>([]);
+  const [assignments, setAssignments] = useState<ProgramAssignment[]>([]);
+  const [code, setCode] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!backend.auth.isLoggedIn) return;
+    Promise.all([backend.coaching.getLinks(), backend.coaching.getAssignments()])
+      .then(([allLinks, allAssignments]) => {
+        setLinks(allLinks);
+        setAssignments(allAssignments);
+      })
+      .catch(error => console.error('Failed to load coaches:', error));
+  }, []);
+
+  if (!backend.auth.isLoggedIn) {
+    return (
+      <p className="text-xs text-[#666] font-mono uppercase tracking-wider">
+        Sign in to link with a coach.
+      </p>
+    );
+  }
+
+  const coaches = links.filter(l => l.athleteId === userId);
+  const pending = assignments.filter(a => a.athleteId === userId && a.status === 'pending');
+
+  const handleLink = async () => {
+    try {
+      const link = await backend.coaching.acceptInvite(normalizeInviteCode(code));
+      setLinks([...links.filter(l => l.id !== link.id), link]);
+      setCode('');
+      setStatus(`Linked with ${link.coachName || 'your coach'}`);
+      haptic('success');
+    } catch (error) {
+      haptic('error');
+      setStatus(error instanceof Error ? error.message : 'Could not link with coach');
+    }
+  };
+
+  const handleUnlink = async (link: CoachLink) => {
+    if (!confirm(`Unlink from ${link.coachName || 'this coach'}? They will lose access to your training data.`)) return;
+    try {
+      await backend.coaching.unlink(link.id);
+      setLinks(links.filter(l => l.id !== link.id));
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Could not unlink');
+    }
+  };
+
+  const handleAssignment = async (assignment: ProgramAssignment, accept: boolean) => {
+    try {
+      if (accept) {
+        activateProgram(importProgramPackage(parseProgramPackage(assignment.payload)));
+      }
+      const next = accept ? 'accepted' : 'declined';
+      await backend.coaching.updateAssignment(assignment.id, next);
+      setAssignments(assignments.map(a => (a.id === assignment.id ? { ...a, status: next } : a)));
+      setStatus(accept ? `${assignment.programName} is now your active program` : null);
+      haptic(accept ? 'success' : 'light');
+    } catch (error) {
+      haptic('error');
+      setStatus(error instanceof Error ? error.message : 'Could not update assignment');
+    }
+  };
+
+  return (
+    <div className="bg-[#0a0a0a] border border-[#1a1a1a] p-6 space-y-6">
+      {/* Assigned programs */}
+      {pending.length > 0 && (
+        <div className="space-y-2">
+          <span className="text-[10px] text-[#666] font-bold uppercase tracking-widest">Assigned Programs</span>
+          {pending.map(assignment => (
+            <div key={assignment.id} className="bg-black border border-primary/40 p-3 flex items-center justify-between gap-3">
+              <div>
+                <div className="text-sm font-bold text-white">{assignment.programName}</div>
+                <div className="text-[10px] text-[#666] font-mono uppercase">From {assignment.coachName || 'your coach'}</div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleAssignment(assignment, false)}
+                  aria-label={`Decline ${assignment.programName}`}
+                  className="w-9 h-9 border border-[#333] flex items-center justify-center text-[#666] hover:text-white transition-colors"
+                >
+                  <X size={14} />
+                </button>
+                <button
+                  onClick={() => handleAssignment(assignment, true)}
+                  aria-label={`Accept ${assignment.programName}`}
+                  className="w-9 h-9 bg-primary text-black flex items-center justify-center hover:bg-white transition-colors"
+                >
+                  <Check size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Linked coaches */}
+      <div className="space-y-2">
+        <span className="text-[10px] text-[#666] font-bold uppercase tracking-widest">Your Coaches</span>
+        {coaches.length === 0 && (
+          <p className="text-xs text-[#666] font-mono">No coach linked. Enter the invite code your coach gave you.</p>
+        )}
+        {coaches.map(link => (
+          <div key={link.id} className="flex items-center justify-between border-b border-[#1a1a1a] pb-2">
+            <span className="text-sm font-bold text-white flex items-center gap-2">
+              <Users size={14} className="text-primary" /> {link.coachName || 'Coach'}
+            </span>
+            <button
+              onClick={() => handleUnlink(link)}
+              aria-label={`Unlink from ${link.coachName || 'coach'}`}
+              className="text-[#666] hover:text-red-500 transition-colors"
+            >
+              <Unlink size={14} />
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2 pt-2">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="xxxxx-xxxxx-xxxxx"
+            className="flex-1 bg-black border border-[#333] px-3 py-2 text-white font-mono text-sm focus:border-primary outline-none"
+          />
+          <button
+            onClick={handleLink}
+            disabled={!code.trim()}
+            className="px-4 border-2 border-[#222] hover:border-primary text-xs font-black italic uppercase tracking-wider text-white hover:text-primary transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            <Link2 size={14} /> Link
+          </button>
+        </div>
+      </div>
+
+      {status && <p className="text-[10px] text-primary font-mono uppercase tracking-wider">{status}</p>}
+
+      <button
+        onClick={() => navigate('/coach')}
+        className="w-full py-3 border-2 border-[#222] hover:border-primary text-xs font-black italic uppercase tracking-[0.15em] text-white hover:text-primary transition-all flex items-center justify-center gap-2 min-h-[48px]"
+      >
+        Coach Dashboard <ChevronRight size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default CoachingPanel;
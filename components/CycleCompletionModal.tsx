@@ -9,6 +9,7 @@ import React, { useState, useEffect } from 'react';
 import { X, Trophy, Calendar, TrendingUp, Brain, AlertTriangle, CheckCircle2 } from 'lucide-react';
 import { getDeloadRecommendation } from '../services/gnCoachingService';
 import { WorkoutSession } from '../types';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface CycleCompletionModalProps {
   isOpen: boolean;
@@ -53,7 +54,7 @@ const CycleCompletionModal: React.FC<CycleCompletionModalProps> = ({
   const totalVolume = recentSessions.reduce((sum, session) =>
     sum + session.logs.reduce((logSum, log) =>
       logSum + log.sets.reduce((setSum, set) =>
-        setSum + (set.weight * set.reps), 0
+        setSum + (toDisplayWeight(set.weight, 'lbs') * set.reps), 0
       ), 0
     ), 0
   );
@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
-import { Download, FileText, Database, Calendar, Check, Loader2 } from 'lucide-react';
-import { useStore } from '../store/useStore';
+import React, { useState, useRef } from 'react';
+import { Download, Upload, FileText, Database, Calendar, Check, Loader2, AlertTriangle, X } from 'lucide-react';
+import { useStore, STORE_VERSION } from '../store/useStore';
 import {
   downloadWorkoutsCSV,
   downloadPRsCSV,
@@ -8,15 +8,152 @@ import {
   downloadFullBackup,
   generateSummaryStats,
 } from '../services/dataExport';
+import {
+  parseImportFile,
+  buildImportedWorkouts,
+  guessCustomExercise,
+  ImportPreview,
+  WeightUnit,
+} from '../services/workoutImport';
+import { STORAGE_UNIT } from '../utils/conversions';
+import { parseBackup, ParsedBackup, RestoreMode } from '../services/backupRestore';
 import { haptic } from '../services/haptics';
 
 type ExportType = 'workouts' | 'prs' | 'body' | 'backup';
 
+const SOURCE_LABELS: Record<ImportPreview['source'], string> = {
+  strong: 'Strong',
+  hevy: 'Hevy',
+  fitnotes: 'FitNotes',
+};
+
+const CUSTOM_EXERCISE = '__custom__';
+
 export const DataExport: React.FC = () => {
-  const { history, templates, settings, dailyLogs } = useStore();
+  const { history, templates, programs, settings, dailyLogs, customExercises, getAllExercises, createCustomExercise, importWorkouts, restoreBackup } = useStore();
   const [exporting, setExporting] = useState<ExportType | null>(null);
   const [exported, setExported] = useState<ExportType | null>(null);
 
+  // Import state
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importText, setImportText] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [sourceUnits, setSourceUnits] = useState<WeightUnit>(settings.units);
+  const [exerciseChoices, setExerciseChoices] = useState<Record<string, string>>({});
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<string | null>(null);
+
+  // Backup restore state
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [backupPreview, setBackupPreview] = useState<ParsedBackup | null>(null);
+
+  const allExercises = getAllExercises();
+
+  const buildPreview = (text: string, units: WeightUnit) => {
+    try {
+      const preview = parseImportFile(text, {
+        exercises: allExercises,
+        targetUnits: STORAGE_UNIT,
+        sourceUnits: units,
+      });
+      setImportPreview(preview);
+      setExerciseChoices(Object.fromEntries(
+        preview.mappings.map(m => [m.sourceName, m.exerciseId || CUSTOM_EXERCISE])
+      ));
+      setImportError(null);
+    } catch (error) {
+      setImportPreview(null);
+      setImportError(error instanceof Error ? error.message : 'Could not read file');
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow selecting the same file again
+    if (!file) return;
+
+    haptic('light');
+    setImportResult(null);
+    const text = await file.text();
+    setImportText(text);
+    buildPreview(text, sourceUnits);
+  };
+
+  const handleSourceUnitsChange = (units: WeightUnit) => {
+    setSourceUnits(units);
+    if (importText) buildPreview(importText, units);
+  };
+
+  const handleBackupSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    haptic('light');
+    setImportResult(null);
+    try {
+      setBackupPreview(parseBackup(await file.text(), STORE_VERSION));
+      setImportError(null);
+    } catch (error) {
+      setBackupPreview(null);
+      setImportError(error instanceof Error ? error.message : 'Could not read backup');
+    }
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!backupPreview) return;
+    if (mode === 'replace' && !confirm('Replace all workouts, templates, programs, body metrics and settings with this backup?')) {
+      return;
+    }
+    haptic('medium');
+
+    const result = restoreBackup(backupPreview, mode);
+    const restored = result.changed.workouts.length + result.changed.templates.length +
+      result.changed.programs.length + result.changed.dailyLogs.length;
+
+    setImportResult(
+      mode === 'replace'
+        ? `Restored ${restored} records from backup`
+        : `Merged ${restored} new or updated records from backup`
+    );
+    setBackupPreview(null);
+  };
+
+  const handleCancelImport = () => {
+    setImportText(null);
+    setImportPreview(null);
+    setImportError(null);
+  };
+
+  const handleConfirmImport = () => {
+    if (!importPreview) return;
+    haptic('medium');
+
+    // Create custom exercises for names the user did not map
+    const exerciseIds: Record<string, string> = {};
+    let createdCount = 0;
+    for (const mapping of importPreview.mappings) {
+      const choice = exerciseChoices[mapping.sourceName];
+      if (choice === CUSTOM_EXERCISE) {
+        const existing = allExercises.find(e => e.name.toLowerCase() === mapping.sourceName.toLowerCase());
+        exerciseIds[mapping.sourceName] = existing?.id || createCustomExercise(guessCustomExercise(mapping.sourceName));
+        if (!existing) createdCount++;
+      } else if (choice) {
+        exerciseIds[mapping.sourceName] = choice;
+      }
+    }
+
+    const added = importWorkouts(buildImportedWorkouts(importPreview, exerciseIds));
+    const duplicates = importPreview.workouts.length - added;
+
+    setImportResult(
+      `Imported ${added} workout${added === 1 ? '' : 's'}` +
+      (createdCount > 0 ? `, created ${createdCount} custom exercise${createdCount === 1 ? '' : 's'}` : '') +
+      (duplicates > 0 ? ` (${duplicates} already in history)` : '')
+    );
+    handleCancelImport();
+  };
+
   const handleExport = async (type: ExportType) => {
     haptic('medium');
     setExporting(type);
@@ -27,16 +164,16 @@ export const DataExport: React.FC = () => {
     try {
       switch (type) {
         case 'workouts':
-          downloadWorkoutsCSV(history);
+          downloadWorkoutsCSV(history, settings.units, customExercises);
           break;
         case 'prs':
-          downloadPRsCSV(settings.personalRecords);
+          downloadPRsCSV(settings.personalRecords, settings.units);
           break;
         case 'body':
-          downloadBodyMetricsCSV(dailyLogs);
+          downloadBodyMetricsCSV(dailyLogs, settings.units);
           break;
         case 'backup':
-          downloadFullBackup({ workouts: history, templates, settings, dailyLogs });
+          downloadFullBackup({ workouts: history, templates, programs, settings, dailyLogs, storeVersion: STORE_VERSION });
           break;
       }
 
@@ -50,7 +187,7 @@ export const DataExport: React.FC = () => {
   };
 
   // Get summary stats
-  const stats = generateSummaryStats(history);
+  const stats = generateSummaryStats(history, undefined, customExercises);
 
   const exportOptions = [
     {
@@ -78,7 +215,7 @@ export const DataExport: React.FC = () => {
       type: 'backup' as ExportType,
       icon: Database,
       title: 'Full Backup',
-      description: 'All data including templates',
+      description: 'All data including templates and programs',
       format: 'JSON',
     },
   ];
@@ -130,6 +267,187 @@ export const DataExport: React.FC = () => {
       <p className="text-[10px] text-[#444] font-mono mt-3 text-center">
         Data is exported to your device's Downloads folder
       </p>
+
+      {/* Import from other apps */}
+      <div className="border-t border-[#222] mt-4 pt-4">
+        <div className="flex items-center gap-2 mb-3">
+          <Upload size={18} className="text-primary" />
+          <h3 className="text-sm font-bold uppercase text-white">Import Data</h3>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+
+        <input
+          ref={backupInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleBackupSelected}
+          className="hidden"
+        />
+
+        {!importPreview && !backupPreview && (
+          <button
+            onClick={() => backupInputRef.current?.click()}
+            className="w-full flex items-center justify-between p-3 mb-2 bg-black border border-[#222] hover:border-[#333] transition-colors active-scale"
+          >
+            <div className="text-left">
+              <div className="text-sm font-bold text-white">Restore Backup</div>
+              <div className="text-[10px] text-[#666] font-mono">VoltLift full backup file</div>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-[#444] font-bold uppercase">JSON</span>
+              <Upload size={16} className="text-[#666]" />
+            </div>
+          </button>
+        )}
+
+        {!importPreview && !backupPreview && (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-between p-3 bg-black border border-[#222] hover:border-[#333] transition-colors active-scale"
+          >
+            <div className="text-left">
+              <div className="text-sm font-bold text-white">Workout History</div>
+              <div className="text-[10px] text-[#666] font-mono">Strong, Hevy or FitNotes export</div>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-[#444] font-bold uppercase">CSV</span>
+              <Upload size={16} className="text-[#666]" />
+            </div>
+          </button>
+        )}
+
+        {importError && (
+          <div className="flex items-start gap-2 mt-2 p-2 border border-red-500/30 bg-red-500/10">
+            <AlertTriangle size={14} className="text-red-500 shrink-0 mt-0.5" />
+            <span className="text-[10px] text-red-400 font-mono">{importError}</span>
+          </div>
+        )}
+
+        {importResult && (
+          <div className="flex items-center gap-2 mt-2 p-2 border border-green-500/30 bg-green-500/10">
+            <Check size={14} className="text-green-500 shrink-0" />
+            <span className="text-[10px] text-green-400 font-mono">{importResult}</span>
+          </div>
+        )}
+
+        {backupPreview && (
+          <div className="bg-black border border-[#222] p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-black italic uppercase tracking-wider text-white">Restore Backup</span>
+              <button onClick={() => setBackupPreview(null)} aria-label="Cancel restore" className="text-[#666] hover:text-white">
+                <X size={16} />
+              </button>
+            </div>
+
+            <div className="text-[10px] text-[#666] font-mono mb-3 space-y-0.5">
+              {backupPreview.exportDate && <div>Created {new Date(backupPreview.exportDate).toLocaleString()}</div>}
+              <div>
+                {backupPreview.data.history.length} workouts · {backupPreview.data.templates.length} templates
+                {backupPreview.data.programs && <> · {backupPreview.data.programs.length} programs</>}
+                {' '}· {Object.keys(backupPreview.data.dailyLogs).length} days logged
+              </div>
+              {backupPreview.invalidRecords > 0 && (
+                <div className="text-yellow-500">{backupPreview.invalidRecords} invalid records will be skipped</div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => handleRestore('merge')}
+                className="py-3 bg-primary text-black text-xs font-black italic uppercase tracking-wider active-scale"
+              >
+                Merge by ID
+              </button>
+              <button
+                onClick={() => handleRestore('replace')}
+                className="py-3 border border-red-500/50 text-red-400 text-xs font-black italic uppercase tracking-wider active-scale"
+              >
+                Replace All
+              </button>
+            </div>
+            <p className="text-[10px] text-[#444] font-mono mt-2">
+              Merge keeps the newer copy of each record. Replace discards data not in the backup.
+            </p>
+          </div>
+        )}
+
+        {importPreview && (
+          <div className="bg-black border border-[#222] p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-black italic uppercase tracking-wider text-white">
+                {SOURCE_LABELS[importPreview.source]} Import
+              </span>
+              <button onClick={handleCancelImport} aria-label="Cancel import" className="text-[#666] hover:text-white">
+                <X size={16} />
+              </button>
+            </div>
+
+            <div className="text-[10px] text-[#666] font-mono mb-3">
+              {importPreview.workouts.length} workouts, {importPreview.totalSets} sets
+              {importPreview.dateRange && (
+                <> · {new Date(importPreview.dateRange.start).toLocaleDateString()} – {new Date(importPreview.dateRange.end).toLocaleDateString()}</>
+              )}
+              {importPreview.skippedRows > 0 && <> · {importPreview.skippedRows} rows skipped</>}
+            </div>
+
+            {/* Strong doesn't record units in its export */}
+            {!importPreview.detectedUnits && (
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-[10px] text-[#888] font-bold uppercase">Weights in file</span>
+                <div className="flex gap-1">
+                  {(['kg', 'lbs'] as WeightUnit[]).map(unit => (
+                    <button
+                      key={unit}
+                      onClick={() => handleSourceUnitsChange(unit)}
+                      className={`px-3 py-1 text-[10px] font-bold uppercase border ${
+                        sourceUnits === unit ? 'border-primary text-primary' : 'border-[#333] text-[#666]'
+                      }`}
+                    >
+                      {unit}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="text-[10px] text-[#888] font-bold uppercase mb-2">Exercise Mapping</div>
+            <div className="space-y-2 max-h-72 overflow-y-auto mb-3">
+              {importPreview.mappings.map(mapping => (
+                <div key={mapping.sourceName} className="border border-[#1a1a1a] p-2">
+                  <div className="flex justify-between items-baseline mb-1">
+                    <span className="text-xs font-bold text-white truncate">{mapping.sourceName}</span>
+                    <span className="text-[10px] text-[#666] font-mono shrink-0 ml-2">{mapping.setCount} sets</span>
+                  </div>
+                  <select
+                    value={exerciseChoices[mapping.sourceName] || CUSTOM_EXERCISE}
+                    onChange={(e) => setExerciseChoices(prev => ({ ...prev, [mapping.sourceName]: e.target.value }))}
+                    className="w-full bg-[#111] border border-[#333] text-xs text-white p-1.5 font-mono"
+                  >
+                    <option value={CUSTOM_EXERCISE}>+ Create custom exercise</option>
+                    {allExercises.map(exercise => (
+                      <option key={exercise.id} value={exercise.id}>{exercise.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={handleConfirmImport}
+              className="w-full py-3 bg-primary text-black text-xs font-black italic uppercase tracking-wider active-scale"
+            >
+              Import {importPreview.workouts.length} Workouts
+            </button>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -3,6 +3,7 @@ import { AlertTriangle, Shield, ChevronDown, ChevronUp, Clock, TrendingDown, Zap
 import { useStore } from '../store/useStore';
 import { analyzeDeloadNeed, DeloadRecommendation, DeloadUrgency } from '../services/autoDeload';
 import { haptic } from '../services/haptics';
+import { formatDisplayWeight } from '../utils/conversions';
 
 const URGENCY_STYLES: Record<DeloadUrgency, { bg: string; border: string; text: string; badge: string }> = {
   critical: {
@@ -186,7 +187,7 @@ export const DeloadAlert: React.FC<{ compact?: boolean }> = ({ compact = false }
                       {stall.exerciseName}
                     </div>
                     <div className="text-[10px] text-[#666] font-mono mt-1">
-                      Stalled {stall.stallDuration}w at {stall.stalledAt}lbs
+                      Stalled {stall.stallDuration}w at {formatDisplayWeight(stall.stalledAt, settings.units)}
                     </div>
                   </div>
                 ))}
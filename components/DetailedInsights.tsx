@@ -6,9 +6,10 @@
  * - Recovery metrics display
  * - Plateau detection
  * - Form degradation detection (RPE-based)
+ * - Fatigue model explanation (once the ML model is trained)
  */
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   TrendingUp,
   TrendingDown,
@@ -22,8 +23,9 @@ import {
   Moon,
   Activity,
   ChevronRight,
+  Brain,
 } from 'lucide-react';
-import { WorkoutSession, DailyLog, ExperienceLevel, MuscleGroup } from '../types';
+import { WorkoutSession, DailyLog, ExperienceLevel, MuscleGroup, FatigueAttribution } from '../types';
 import { EXERCISE_LIBRARY } from '../constants';
 import {
   getAllVolumeRecommendations,
@@ -39,12 +41,17 @@ import {
   extractExerciseTimeSeries,
   detectPlateau,
 } from '../services/analytics';
+import { getFatiguePrediction, hasTrainedModel } from '../services/ml/lazyLoader';
+import { toDisplayWeight, WeightUnit } from '../utils/conversions';
+import { toAnalysisExperienceLevel } from '../utils/experienceLevel';
+import FatigueAttributionChart from './FatigueAttributionChart';
 
 interface DetailedInsightsProps {
   history: WorkoutSession[];
   dailyLogs: DailyLog[];
   experienceLevel: ExperienceLevel;
   selectedExerciseId?: string;
+  units: WeightUnit;
 }
 
 /**
@@ -315,7 +322,8 @@ const PlateauDetectionPanel: React.FC<{
   exerciseId: string;
   exerciseName: string;
   history: WorkoutSession[];
-}> = ({ exerciseId, exerciseName, history }) => {
+  units: WeightUnit;
+}> = ({ exerciseId, exerciseName, history, units }) => {
   const plateauResult = useMemo(() => {
     const timeSeries = extractExerciseTimeSeries(exerciseId, history);
     if (!timeSeries || timeSeries.dataPoints.length < 4) return null;
@@ -358,8 +366,8 @@ const PlateauDetectionPanel: React.FC<{
         <div className="text-right">
           <p className="text-[10px] text-[#666] uppercase">Current PR</p>
           <p className="text-lg font-black text-white">
-            {plateauResult.currentPR}
-            <span className="text-xs text-[#666] ml-1">lbs</span>
+            {toDisplayWeight(plateauResult.currentPR, units)}
+            <span className="text-xs text-[#666] ml-1">{units}</span>
           </p>
         </div>
       </div>
@@ -542,6 +550,43 @@ const FormDegradationPanel: React.FC<{
   );
 };
 
+/**
+ * Fatigue Model Explanation
+ * Loads the GRU model lazily and only once it has been trained on the user's data
+ */
+const FatigueExplanationPanel: React.FC<{
+  history: WorkoutSession[];
+  dailyLogs: DailyLog[];
+}> = ({ history, dailyLogs }) => {
+  const [attribution, setAttribution] = useState<FatigueAttribution | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      if (!(await hasTrainedModel())) return;
+      const logsByDate = Object.fromEntries(dailyLogs.map((log) => [log.date, log]));
+      const result = await getFatiguePrediction(history, logsByDate);
+      if (!cancelled && result?.attribution) setAttribution(result.attribution);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [history, dailyLogs]);
+
+  if (!attribution) return null;
+
+  return (
+    <div>
+      <h3 className="text-xs font-bold text-[#666] uppercase tracking-widest mb-4 flex items-center gap-2">
+        <Brain size={14} /> Why This Fatigue Prediction
+      </h3>
+      <FatigueAttributionChart attribution={attribution} />
+    </div>
+  );
+};
+
 /**
  * Main DetailedInsights Component
  */
@@ -550,6 +595,7 @@ const DetailedInsights: React.FC<DetailedInsightsProps> = ({
   dailyLogs,
   experienceLevel,
   selectedExerciseId,
+  units,
 }) => {
   // Get volume recommendations
   const volumeRecs = useMemo(() => {
@@ -560,7 +606,7 @@ const DetailedInsights: React.FC<DetailedInsightsProps> = ({
   // Get recovery assessment
   const recoveryAssessment = useMemo(() => {
     if (history.length < 2 || dailyLogs.length < 2) return null;
-    return getRecoveryAssessment(history, dailyLogs, experienceLevel);
+    return getRecoveryAssessment(history, dailyLogs, toAnalysisExperienceLevel(experienceLevel));
   }, [history, dailyLogs, experienceLevel]);
 
   // Get selected exercise info
@@ -596,6 +642,9 @@ const DetailedInsights: React.FC<DetailedInsightsProps> = ({
         </div>
       )}
 
+      {/* Fatigue Model Explanation */}
+      <FatigueExplanationPanel history={history} dailyLogs={dailyLogs} />
+
       {/* Volume Recommendations */}
       {volumeRecs.length > 0 && (
         <div>
@@ -618,6 +667,7 @@ const DetailedInsights: React.FC<DetailedInsightsProps> = ({
               exerciseId={selectedExercise.id}
               exerciseName={selectedExercise.name}
               history={history}
+              units={units}
             />
           </div>
 
@@ -0,0 +1,134 @@
+/**
+ * Fatigue Attribution Chart
+ *
+ * Shows why the ML fatigue model predicted its score:
+ * - Features: which inputs (sleep, ACWR, RPE, ...) raised or lowered it
+ * - Days: which days of the input window mattered most
+ *
+ * Red bars pushed predicted fatigue up, green bars pulled it down.
+ */
+
+import React from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { FatigueAttribution } from '../types';
+
+interface FatigueAttributionChartProps {
+  attribution: FatigueAttribution;
+  maxFeatures?: number;
+}
+
+const RAISES_COLOR = '#ef4444';
+const LOWERS_COLOR = '#22c55e';
+
+const formatShare = (share: number) => `${share > 0 ? '+' : ''}${Math.round(share * 100)}%`;
+
+export const FatigueAttributionChart: React.FC<FatigueAttributionChartProps> = ({
+  attribution,
+  maxFeatures = 6
+}) => {
+  const features = attribution.features.slice(0, maxFeatures).map(f => ({
+    name: f.label,
+    share: f.share,
+    impact: f.impact
+  }));
+
+  const days = attribution.days.map(d => ({
+    name: d.date.slice(5), // MM-DD
+    date: d.date,
+    share: d.share,
+    impact: d.impact
+  }));
+
+  if (features.every(f => f.impact === 0)) {
+    return (
+      <div className="bg-[#111] border border-[#222] p-4">
+        <p className="text-xs text-[#666] font-mono">
+          No single input moved this prediction.
+        </p>
+      </div>
+    );
+  }
+
+  // Custom tooltip
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      return (
+        <div className="bg-[#0a0a0a] border border-primary p-3">
+          <p className="text-xs font-bold text-white uppercase mb-1">{data.date || data.name}</p>
+          <p className="text-sm font-mono" style={{ color: data.impact > 0 ? RAISES_COLOR : LOWERS_COLOR }}>
+            {formatShare(data.share)} of the explanation
+          </p>
+          <p className="text-[10px] font-mono text-[#888] mt-1">
+            {data.impact > 0 ? 'Raised' : 'Lowered'} fatigue by {Math.abs(data.impact * 100).toFixed(1)} pts
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="bg-[#111] border border-[#222] p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-[#666] font-mono uppercase">Predicted fatigue</span>
+        <span className="text-sm font-black text-white font-mono">{Math.round(attribution.score * 100)}%</span>
+      </div>
+
+      {/* Features */}
+      <div>
+        <p className="text-[10px] font-bold text-[#666] uppercase tracking-wide mb-2">Top Factors</p>
+        <ResponsiveContainer width="100%" height={features.length * 28 + 20}>
+          <BarChart data={features} layout="vertical" margin={{ top: 0, right: 10, bottom: 0, left: 10 }}>
+            <XAxis type="number" hide domain={[-1, 1]} />
+            <YAxis
+              type="category"
+              dataKey="name"
+              width={100}
+              tick={{ fill: '#888', fontSize: 10, fontFamily: 'monospace' }}
+              axisLine={false}
+              tickLine={false}
+            />
+            <ReferenceLine x={0} stroke="#333" />
+            <Tooltip content={<CustomTooltip />} cursor={{ fill: '#ffffff08' }} />
+            <Bar dataKey="share" barSize={12}>
+              {features.map((f, i) => (
+                <Cell key={`feature-${i}`} fill={f.impact > 0 ? RAISES_COLOR : LOWERS_COLOR} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Days */}
+      <div>
+        <p className="text-[10px] font-bold text-[#666] uppercase tracking-wide mb-2">Day by Day</p>
+        <ResponsiveContainer width="100%" height={120}>
+          <BarChart data={days} margin={{ top: 0, right: 0, bottom: 0, left: 0 }}>
+            <XAxis
+              dataKey="name"
+              tick={{ fill: '#666', fontSize: 8, fontFamily: 'monospace' }}
+              interval={6}
+              axisLine={{ stroke: '#333' }}
+              tickLine={false}
+            />
+            <YAxis hide domain={['auto', 'auto']} />
+            <ReferenceLine y={0} stroke="#333" />
+            <Tooltip content={<CustomTooltip />} cursor={{ fill: '#ffffff08' }} />
+            <Bar dataKey="share">
+              {days.map((d, i) => (
+                <Cell key={`day-${i}`} fill={d.impact > 0 ? RAISES_COLOR : LOWERS_COLOR} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-[9px] text-[#555] font-mono">
+        Each input is compared against a well-rested, moderate training day.
+      </p>
+    </div>
+  );
+};
+
+export default FatigueAttributionChart;
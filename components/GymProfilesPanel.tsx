@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { MapPin, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { createGymProfile, getGymProfile, getGymProfiles, validateGymProfile } from '../services/gymProfiles';
+import { haptic } from '../services/haptics';
+import type { GymProfile } from '../types';
+
+const EQUIPMENT_TYPES = ['Barbell', 'Dumbbell', 'Machine', 'Bodyweight', 'Cable', 'Kettlebell'];
+
+// Editable text for the numeric list fields
+interface Draft {
+  profile: GymProfile;
+  bars: string;
+  plates: string;
+  microplates: string;
+}
+
+const toDraft = (profile: GymProfile): Draft => ({
+  profile,
+  bars: profile.bars.join(', '),
+  plates: profile.plates.join(', '),
+  microplates: (profile.microplates || []).join(', '),
+});
+
+const parseList = (text: string): number[] =>
+  text.split(',').map(s => s.trim()).filter(Boolean).map(Number);
+
+/**
+ * Gym profiles: named locations with their own equipment, bars and plates.
+ * Workouts start at the active gym (chosen on the Lift screen).
+ */
+export const GymProfilesPanel: React.FC = () => {
+  const settings = useStore((state) => state.settings);
+  const saveGymProfile = useStore((state) => state.saveGymProfile);
+  const deleteGymProfile = useStore((state) => state.deleteGymProfile);
+  const updateSettings = useStore((state) => state.updateSettings);
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const profiles = getGymProfiles(settings);
+  const activeId = getGymProfile(settings).id;
+
+  const edit = (profile: GymProfile) => {
+    setDraft(toDraft(profile));
+    setErrors([]);
+  };
+
+  const updateDraft = (updates: Partial<GymProfile>) => {
+    if (draft) setDraft({ ...draft, profile: { ...draft.profile, ...updates } });
+  };
+
+  const toggleEquipment = (eq: string) => {
+    if (!draft) return;
+    const current = draft.profile.equipment;
+    updateDraft({ equipment: current.includes(eq) ? current.filter(e => e !== eq) : [...current, eq] });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const microplates = parseList(draft.microplates);
+    const profile: GymProfile = {
+      ...draft.profile,
+      name: draft.profile.name.trim(),
+      bars: parseList(draft.bars),
+      plates: parseList(draft.plates),
+      microplates: microplates.length > 0 ? microplates : undefined,
+    };
+
+    const problems = validateGymProfile(profile);
+    if (problems.length > 0) {
+      haptic('error');
+      setErrors(problems);
+      return;
+    }
+    saveGymProfile(profile);
+    haptic('success');
+    setDraft(null);
+  };
+
+  const handleDelete = (profile: GymProfile) => {
+    if (!confirm(`Delete ${profile.name}? Past workouts keep their history.`)) return;
+    deleteGymProfile(profile.id);
+  };
+
+  if (draft) {
+    const { profile } = draft;
+    const numberField = (label: string, value: number, key: 'dumbbellIncrement' | 'machineStackStep') => (
+      <label className="block">
+        <span className="text-[10px] text-[#666] font-bold uppercase tracking-widest">{label} ({profile.units})</span>
+        <input
+          type="number"
+          inputMode="decimal"
+          value={value}
+          onChange={(e) => updateDraft({ [key]: parseFloat(e.target.value) || 0 })}
+          className="w-full mt-1 bg-black border border-[#333] px-3 py-2 text-white font-mono text-sm focus:border-primary outline-none"
+        />
+      </label>
+    );
+    const listField = (label: string, key: 'bars' | 'plates' | 'microplates', placeholder: string) => (
+      <label className="block">
+        <span className="text-[10px] text-[#666] font-bold uppercase tracking-widest">{label} ({profile.units})</span>
+        <input
+          type="text"
+          value={draft[key]}
+          onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+          placeholder={placeholder}
+          className="w-full mt-1 bg-black border border-[#333] px-3 py-2 text-white font-mono text-sm focus:border-primary outline-none"
+        />
+      </label>
+    );
+
+    return (
+      <div className="bg-[#0a0a0a] border border-[#1a1a1a] p-6 space-y-4">
+        <label className="block">
+          <span className="text-[10px] text-[#666] font-bold uppercase tracking-widest">Name</span>
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="Home Garage"
+            className="w-full mt-1 bg-black border border-[#333] px-3 py-2 text-white font-mono text-sm focus:border-primary outline-none"
+          />
+        </label>
+
+        <div className="flex bg-black border border-[#333]" role="radiogroup" aria-label="Gym units">
+          {(['kg', 'lbs'] as const).map(units => (
+            <button
+              key={units}
+              role="radio"
+              aria-checked={profile.units === units}
+              onClick={() => {
+                // Switching units resets the kit to that unit's standard sizes
+                if (profile.units !== units) {
+                  const defaults = createGymProfile(profile.name, units, profile.equipment, profile.id);
+                  setDraft(toDraft(defaults));
+                }
+              }}
+              className={`flex-1 py-2 text-xs font-black italic uppercase tracking-wider ${profile.units === units ? 'bg-primary text-black' : 'text-[#666] hover:text-white'}`}
+            >
+              {units}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {EQUIPMENT_TYPES.map(eq => (
+            <button
+              key={eq}
+              onClick={() => toggleEquipment(eq)}
+              aria-pressed={profile.equipment.includes(eq)}
+              className={`p-3 border text-xs font-black italic uppercase tracking-[0.1em] flex items-center justify-between transition-all ${
+                profile.equipment.includes(eq)
+                  ? 'border-primary text-white bg-primary/5'
+                  : 'border-[#222] text-[#666] hover:border-[#333]'
+              }`}
+            >
+              {eq}
+              {profile.equipment.includes(eq) && <Check size={14} className="text-primary" />}
+            </button>
+          ))}
+        </div>
+
+        {listField('Bars, default first', 'bars', '20, 15')}
+        {listField('Plates', 'plates', '25, 20, 15, 10, 5, 2.5')}
+        {listField('Microplates', 'microplates', '1, 0.5')}
+        <div className="grid grid-cols-2 gap-3">
+          {numberField('Dumbbell step', profile.dumbbellIncrement, 'dumbbellIncrement')}
+          {numberField('Stack step', profile.machineStackStep, 'machineStackStep')}
+        </div>
+
+        {errors.map(error => (
+          <p key={error} className="text-[10px] text-red-500 font-mono uppercase tracking-wider">{error}</p>
+        ))}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => setDraft(null)}
+            className="flex-1 py-3 border-2 border-[#222] hover:border-[#444] text-xs font-black italic uppercase tracking-wider text-[#888] flex items-center justify-center gap-2"
+          >
+            <X size={14} /> Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 py-3 bg-primary text-black text-xs font-black italic uppercase tracking-wider hover:bg-white transition-colors flex items-center justify-center gap-2"
+          >
+            <Check size={14} /> Save Gym
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#0a0a0a] border border-[#1a1a1a] p-6 space-y-3">
+      {profiles.map(profile => (
+        <div key={profile.id} className="flex items-center justify-between gap-3 border-b border-[#1a1a1a] pb-3">
+          <button
+            onClick={() => updateSettings({ activeGymProfileId: profile.id })}
+            aria-pressed={profile.id === activeId}
+            className="flex-1 text-left"
+          >
+            <span className={`text-sm font-bold flex items-center gap-2 ${profile.id === activeId ? 'text-primary' : 'text-white'}`}>
+              <MapPin size={14} /> {profile.name}
+            </span>
+            <span className="text-[10px] text-[#666] font-mono uppercase">
+              {profile.bars[0]}{profile.units} bar • {profile.equipment.length} equipment types
+            </span>
+          </button>
+          <button onClick={() => edit(profile)} aria-label={`Edit ${profile.name}`} className="text-[#666] hover:text-white transition-colors">
+            <Pencil size={14} />
+          </button>
+          {profiles.length > 1 && (
+            <button onClick={() => handleDelete(profile)} aria-label={`Delete ${profile.name}`} className="text-[#666] hover:text-red-500 transition-colors">
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={() => edit(createGymProfile('', settings.units))}
+        className="w-full py-3 border-2 border-[#222] hover:border-primary text-xs font-black italic uppercase tracking-[0.15em] text-white hover:text-primary transition-all flex items-center justify-center gap-2 min-h-[48px]"
+      >
+        <Plus size={14} /> Add Gym
+      </button>
+    </div>
+  );
+};
+
+export default GymProfilesPanel;
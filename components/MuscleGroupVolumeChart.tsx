@@ -2,10 +2,12 @@ import React from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 import { MuscleGroupVolume, VolumeBalanceScore } from '../services/progressionData';
 import { TrendingUp, AlertCircle, CheckCircle } from 'lucide-react';
+import { toDisplayWeight, WeightUnit } from '../utils/conversions';
 
 interface MuscleGroupVolumeChartProps {
   distribution: MuscleGroupVolume[];
   balanceScore?: VolumeBalanceScore;
+  units: WeightUnit;
   height?: number;
 }
 
@@ -27,6 +29,7 @@ const getColorForMuscle = (muscle: string): string => {
 export const MuscleGroupVolumeChart: React.FC<MuscleGroupVolumeChartProps> = ({
   distribution,
   balanceScore,
+  units,
   height = 300
 }) => {
   if (distribution.length === 0) {
@@ -53,7 +56,7 @@ export const MuscleGroupVolumeChart: React.FC<MuscleGroupVolumeChartProps> = ({
         <div className="bg-[#0a0a0a] border border-primary p-3">
           <p className="text-xs font-bold text-white uppercase mb-2">{data.name}</p>
           <p className="text-sm font-mono text-primary">
-            Volume: <span className="font-black">{(data.value / 1000).toFixed(1)}K LBS</span>
+            Volume: <span className="font-black">{(toDisplayWeight(data.value, units) / 1000).toFixed(1)}K {units.toUpperCase()}</span>
           </p>
           <p className="text-xs font-mono text-[#888] mt-1">
             {data.percentage.toFixed(1)}% • {data.workouts} workouts
@@ -95,7 +98,7 @@ export const MuscleGroupVolumeChart: React.FC<MuscleGroupVolumeChartProps> = ({
             </span>
             <span className="text-[10px] text-[#444]">•</span>
             <span className="text-[10px] text-[#666] font-mono uppercase">
-              TOTAL: {(distribution.reduce((sum, d) => sum + d.totalVolume, 0) / 1000).toFixed(1)}K LBS
+              TOTAL: {(toDisplayWeight(distribution.reduce((sum, d) => sum + d.totalVolume, 0), units) / 1000).toFixed(1)}K {units.toUpperCase()}
             </span>
           </div>
         </div>
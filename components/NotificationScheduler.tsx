@@ -6,6 +6,7 @@ import {
   sendWorkoutReminder,
   sendWeeklySummary,
 } from '../services/notificationService';
+import { toDisplayWeight } from '../utils/conversions';
 
 /**
  * NotificationScheduler
@@ -95,11 +96,11 @@ export default function NotificationScheduler() {
         (session) => session.status === 'completed' && session.endTime && session.endTime >= oneWeekAgo
       );
 
-      const totalVolume = weeklyWorkouts.reduce((acc, sess) => {
+      const totalVolume = toDisplayWeight(weeklyWorkouts.reduce((acc, sess) => {
         let vol = 0;
         sess.logs.forEach((l) => l.sets.forEach((s) => { if (s.completed) vol += s.weight * s.reps; }));
         return acc + vol;
-      }, 0);
+      }, 0), settings.units);
 
       // Count PRs this week (simplified - assumes PRs in personalRecords)
       const prsThisWeek = Object.values(settings.personalRecords).reduce((count, prHistory) => {
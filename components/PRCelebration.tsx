@@ -1,7 +1,10 @@
 import React, { useEffect, useState } from 'react';
-import { Trophy, TrendingUp, Zap, Target, Share2, X } from 'lucide-react';
+import { Trophy, TrendingUp, Zap, Target, Share2, X, Timer, Route } from 'lucide-react';
 import { Confetti } from './Confetti';
 import { PRDetection } from '../services/strengthScore';
+import { formatPRValue } from '../services/setMetrics';
+import { useStore } from '../store/useStore';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface PRCelebrationProps {
   prs: PRDetection[];
@@ -17,6 +20,7 @@ export const PRCelebration: React.FC<PRCelebrationProps> = ({
   autoCloseDuration = 5000
 }) => {
   const [showConfetti, setShowConfetti] = useState(true);
+  const units = useStore(state => state.settings.units);
 
   useEffect(() => {
     // Trigger haptic feedback celebration pattern
@@ -45,6 +49,9 @@ export const PRCelebration: React.FC<PRCelebrationProps> = ({
       case 'reps': return <Zap size={32} className="text-blue-400" />;
       case 'volume': return <TrendingUp size={32} className="text-purple-400" />;
       case '1rm': return <Target size={32} className="text-orange-400" />;
+      case 'duration':
+      case 'pace': return <Timer size={32} className="text-cyan-400" />;
+      case 'distance': return <Route size={32} className="text-cyan-400" />;
       default: return <Trophy size={32} className="text-primary" />;
     }
   };
@@ -55,16 +62,27 @@ export const PRCelebration: React.FC<PRCelebrationProps> = ({
       case 'reps': return 'text-blue-400 border-blue-400';
       case 'volume': return 'text-purple-400 border-purple-400';
       case '1rm': return 'text-orange-400 border-orange-400';
+      case 'duration':
+      case 'distance':
+      case 'pace': return 'text-cyan-400 border-cyan-400';
       default: return 'text-primary border-primary';
     }
   };
 
+  const isTimedPR = (type: string) => type === 'duration' || type === 'distance' || type === 'pace';
+
+  // Previous best and improvement: timed values formatted, loads converted from kg, reps as-is
+  const formatDelta = (type: PRDetection['type'], value: number) => {
+    if (isTimedPR(type)) return formatPRValue(type === 'pace' ? 'duration' : type, value);
+    return type === 'reps' ? value : toDisplayWeight(value, units);
+  };
+
   const handleShare = async () => {
     // Generate share text
     const prTypes = prs.map(pr => pr.type.toUpperCase()).join(' + ');
     const shareText = prs.length > 1
       ? `🔥 Just hit a MULTI-PR (${prTypes}) on ${exerciseName}! #VoltLift #ProgressiveOverload`
-      : `🏆 New ${prs[0].type.toUpperCase()} PR on ${exerciseName}: ${prs[0].value} ${prs[0].type === 'reps' ? 'reps' : 'LBS'}! #VoltLift`;
+      : `🏆 New ${prs[0].type.toUpperCase()} PR on ${exerciseName}: ${formatPRValue(prs[0].type, prs[0].value, units)}! #VoltLift`;
 
     // Use Web Share API if available
     if (navigator.share) {
@@ -155,16 +173,16 @@ export const PRCelebration: React.FC<PRCelebrationProps> = ({
                     </span>
                   </div>
                   <span className={`text-2xl font-black italic ${getPRColor(pr.type).split(' ')[0]}`}>
-                    {pr.value} {pr.type === 'reps' ? 'REPS' : 'LBS'}
+                    {formatPRValue(pr.type, pr.value, units)}
                   </span>
                 </div>
 
                 {/* Improvement Stats */}
                 {pr.previousBest > 0 && (
                   <div className="flex justify-between text-xs font-mono text-[#666]">
-                    <span>Previous: {pr.previousBest}</span>
+                    <span>Previous: {isTimedPR(pr.type) ? formatPRValue(pr.type, pr.previousBest) : formatDelta(pr.type, pr.previousBest)}</span>
                     <span className="text-green-400">
-                      +{pr.improvement} ({pr.improvementPercent.toFixed(1)}%)
+                      {pr.type === 'pace' ? '-' : '+'}{formatDelta(pr.type, pr.improvement)} ({pr.improvementPercent.toFixed(1)}%)
                     </span>
                   </div>
                 )}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { ExercisePRHistory, PRType } from '../types';
 import { Trophy, TrendingUp, Zap, Calendar } from 'lucide-react';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface PRHistoryTimelineProps {
   prHistory: ExercisePRHistory | undefined;
@@ -57,11 +58,11 @@ const PRHistoryTimeline: React.FC<PRHistoryTimelineProps> = ({ prHistory, exerci
   const formatPRValue = (pr: ExercisePRHistory['records'][0]) => {
     switch (pr.type) {
       case 'weight':
-        return `${pr.value} ${units} × ${pr.reps} reps`;
+        return `${toDisplayWeight(pr.value, units)} ${units} × ${pr.reps} reps`;
       case 'volume':
-        return `${pr.value} ${units} total`;
+        return `${toDisplayWeight(pr.value, units)} ${units} total`;
       case 'reps':
-        return `${pr.value} reps @ ${pr.weight} ${units}`;
+        return `${pr.value} reps @ ${toDisplayWeight(pr.weight ?? 0, units)} ${units}`;
     }
   };
 
@@ -119,7 +120,7 @@ const PRHistoryTimeline: React.FC<PRHistoryTimelineProps> = ({ prHistory, exerci
                 {/* Additional details for volume PRs */}
                 {pr.type === 'volume' && pr.setDetails && (
                   <div className="text-[9px] text-[#666] font-mono mt-2">
-                    {pr.setDetails.length} sets: {pr.setDetails.map(s => `${s.weight}×${s.reps}`).join(', ')}
+                    {pr.setDetails.length} sets: {pr.setDetails.map(s => `${toDisplayWeight(s.weight, units)}×${s.reps}`).join(', ')}
                   </div>
                 )}
 
@@ -9,6 +9,8 @@ import React, { useState, useEffect } from 'react';
 import { TrendingUp, TrendingDown, Minus, Brain, Zap, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { analyzePerformanceTrend } from '../services/gnCoachingService';
 import { WorkoutSession, TrainingMax } from '../types';
+import { useStore } from '../store/useStore';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface PerformanceInsightsProps {
   exerciseId: string;
@@ -23,6 +25,8 @@ const PerformanceInsights: React.FC<PerformanceInsightsProps> = ({
   trainingMax,
   recentSessions
 }) => {
+  const units = useStore(state => state.settings.units);
+  const display = (kg: number) => Math.round(toDisplayWeight(kg, units) * 10) / 10;
   const [loading, setLoading] = useState(false);
   const [insight, setInsight] = useState<{
     trend: 'improving' | 'plateauing' | 'declining';
@@ -105,7 +109,7 @@ const PerformanceInsights: React.FC<PerformanceInsightsProps> = ({
           <div className="text-left">
             <h3 className="text-sm font-bold text-white uppercase tracking-wider">{exerciseName} Insights</h3>
             <p className="text-xs text-[#666] font-mono mt-0.5">
-              {trainingMax.history.length} cycles • {totalGain > 0 ? '+' : ''}{totalGain} lbs total
+              {trainingMax.history.length} cycles • {totalGain > 0 ? '+' : ''}{display(totalGain)} {units} total
             </p>
           </div>
         </div>
@@ -137,11 +141,11 @@ const PerformanceInsights: React.FC<PerformanceInsightsProps> = ({
                     </span>
                     <div className="flex items-center gap-3">
                       <span className={isLatest ? 'text-primary font-bold' : 'text-white'}>
-                        {tm.value} lbs
+                        {display(tm.value)} {units}
                       </span>
                       {change !== 0 && (
                         <span className={`text-xs ${change > 0 ? 'text-green-400' : 'text-red-400'}`}>
-                          {change > 0 ? '+' : ''}{change}
+                          {change > 0 ? '+' : ''}{display(change)}
                         </span>
                       )}
                     </div>
@@ -152,7 +156,7 @@ const PerformanceInsights: React.FC<PerformanceInsightsProps> = ({
             <div className="mt-3 pt-3 border-t border-[#222] flex items-center justify-between text-sm">
               <span className="text-[#888]">Avg Gain/Cycle</span>
               <span className={`font-bold ${avgGainPerCycle > 0 ? 'text-green-400' : 'text-red-400'}`}>
-                {avgGainPerCycle > 0 ? '+' : ''}{avgGainPerCycle.toFixed(1)} lbs
+                {avgGainPerCycle > 0 ? '+' : ''}{toDisplayWeight(avgGainPerCycle, units).toFixed(1)} {units}
               </span>
             </div>
           </div>
@@ -9,24 +9,29 @@ import {
   type Plate,
   type PlateLoadout
 } from '../services/plateCalculator';
+import { getProfilePlates } from '../services/gymProfiles';
+import type { GymProfile } from '../types';
 
 interface PlateCalculatorProps {
   units?: 'lbs' | 'kg';
   barWeight?: number;
+  gym?: GymProfile; // Loads with this gym's bars and plates, in its units
   onClose?: () => void;
 }
 
 export const PlateCalculator: React.FC<PlateCalculatorProps> = ({
-  units = 'lbs' as const,
+  units: unitsProp = 'lbs' as const,
   barWeight: initialBarWeight,
+  gym,
   onClose
 }) => {
-  const defaultBarWeight = initialBarWeight || getStandardBarWeight(units);
+  const units = gym?.units ?? unitsProp;
+  const defaultBarWeight = initialBarWeight || gym?.bars[0] || getStandardBarWeight(units);
   const [targetWeight, setTargetWeight] = useState<string>('135');
   const [barWeight, setBarWeight] = useState<number>(defaultBarWeight);
   const [loadout, setLoadout] = useState<PlateLoadout | null>(null);
 
-  const availablePlates = units === 'lbs' ? STANDARD_PLATES_LBS : STANDARD_PLATES_KG;
+  const availablePlates = gym ? getProfilePlates(gym) : units === 'lbs' ? STANDARD_PLATES_LBS : STANDARD_PLATES_KG;
 
   // Calculate loadout whenever inputs change
   useEffect(() => {
@@ -37,7 +42,7 @@ export const PlateCalculator: React.FC<PlateCalculatorProps> = ({
     } else {
       setLoadout(null);
     }
-  }, [targetWeight, barWeight, units]);
+  }, [targetWeight, barWeight, units, gym]);
 
   const increment = units === 'lbs' ? 5 : 2.5;
 
@@ -178,6 +183,19 @@ export const PlateCalculator: React.FC<PlateCalculatorProps> = ({
             Bar Weight
           </label>
           <div className="flex gap-2">
+            {gym ? gym.bars.map(bar => (
+              <button
+                key={bar}
+                onClick={() => setBarWeight(bar)}
+                className={`flex-1 py-2 text-xs font-bold uppercase ${
+                  barWeight === bar
+                    ? 'bg-primary text-black'
+                    : 'bg-[#222] text-[#666] border border-[#333] hover:border-primary'
+                }`}
+              >
+                {bar} {units}
+              </button>
+            )) : (<>
             <button
               onClick={() => setBarWeight(units === 'lbs' ? 45 : 20)}
               className={`flex-1 py-2 text-xs font-bold uppercase ${
@@ -198,6 +216,7 @@ export const PlateCalculator: React.FC<PlateCalculatorProps> = ({
             >
               Women's ({units === 'lbs' ? '35' : '15'} {units})
             </button>
+            </>)}
             <button
               onClick={handleReset}
               className="p-2 bg-[#222] border border-[#333] hover:border-primary transition-colors"
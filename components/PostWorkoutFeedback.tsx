@@ -23,6 +23,7 @@ import {
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { WorkoutSession } from '../types';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface PostWorkoutFeedbackProps {
   workout: WorkoutSession;
@@ -64,7 +65,7 @@ export function PostWorkoutFeedback({ workout, isOpen, onClose, onComplete }: Po
   const [painNotes, setPainNotes] = useState('');
   const [generalNotes, setGeneralNotes] = useState('');
 
-  const { dailyLogs, updateDailyLog, addDailyLog } = useStore();
+  const { dailyLogs, updateDailyLog, addDailyLog, settings } = useStore();
 
   const today = new Date().toISOString().split('T')[0];
 
@@ -264,8 +265,8 @@ export function PostWorkoutFeedback({ workout, isOpen, onClose, onComplete }: Po
             <div className="text-xs text-gray-500">Sets</div>
           </div>
           <div>
-            <div className="text-2xl font-bold text-[#ccff00]">{Math.round(totalVolume).toLocaleString()}</div>
-            <div className="text-xs text-gray-500">Total lbs</div>
+            <div className="text-2xl font-bold text-[#ccff00]">{Math.round(toDisplayWeight(totalVolume, settings.units)).toLocaleString()}</div>
+            <div className="text-xs text-gray-500">Total {settings.units}</div>
           </div>
           <div>
             <div className="text-2xl font-bold text-[#ccff00]">{avgRPE ? avgRPE.toFixed(1) : '--'}</div>
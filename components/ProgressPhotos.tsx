@@ -3,6 +3,7 @@ import { Camera, Image as ImageIcon, X, Calendar, TrendingUp, GitCompare, ArrowR
 import { useStore } from '../store/useStore';
 import { backend } from '../services/backend';
 import { saveImageToDB, getImageFromDB } from '../utils/db';
+import { toDisplayWeight } from '../utils/conversions';
 
 export const ProgressPhotos: React.FC = () => {
   const { dailyLogs, logDailyBio, settings } = useStore();
@@ -92,8 +93,8 @@ export const ProgressPhotos: React.FC = () => {
   // Calculate weight change between comparison photos
   const weightChange = useMemo(() => {
     if (!beforePhoto?.bodyweight || !afterPhoto?.bodyweight) return null;
-    return afterPhoto.bodyweight - beforePhoto.bodyweight;
-  }, [beforePhoto, afterPhoto]);
+    return toDisplayWeight(afterPhoto.bodyweight - beforePhoto.bodyweight, settings.units);
+  }, [beforePhoto, afterPhoto, settings.units]);
 
   // Calculate days between photos
   const daysBetween = useMemo(() => {
@@ -264,7 +265,7 @@ export const ProgressPhotos: React.FC = () => {
                       {new Date(beforePhoto.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
                     </div>
                     {beforePhoto.bodyweight && (
-                      <div className="text-[10px] text-[#666] font-mono">{beforePhoto.bodyweight.toFixed(1)} {settings.units}</div>
+                      <div className="text-[10px] text-[#666] font-mono">{toDisplayWeight(beforePhoto.bodyweight, settings.units).toFixed(1)} {settings.units}</div>
                     )}
                   </div>
                   <button
@@ -304,7 +305,7 @@ export const ProgressPhotos: React.FC = () => {
                       {new Date(afterPhoto.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
                     </div>
                     {afterPhoto.bodyweight && (
-                      <div className="text-[10px] text-primary font-mono">{afterPhoto.bodyweight.toFixed(1)} {settings.units}</div>
+                      <div className="text-[10px] text-primary font-mono">{toDisplayWeight(afterPhoto.bodyweight, settings.units).toFixed(1)} {settings.units}</div>
                     )}
                   </div>
                   <button
@@ -464,7 +465,7 @@ export const ProgressPhotos: React.FC = () => {
                       </p>
                       {log.bodyweight && (
                         <p className="text-[10px] text-primary font-mono">
-                          {log.bodyweight.toFixed(1)} lbs
+                          {toDisplayWeight(log.bodyweight, settings.units).toFixed(1)} {settings.units}
                         </p>
                       )}
                     </div>
@@ -2,23 +2,30 @@ import React from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import { ProgressionDataPoint, ExerciseProgression } from '../services/progressionData';
+import { E1RM_FORMULAS } from '../services/strengthEstimation';
+import { toDisplayWeight, WeightUnit } from '../utils/conversions';
 
 interface ProgressionChartProps {
   progression: ExerciseProgression;
+  units: WeightUnit;
   color?: string;
   height?: number;
 }
 
 export const ProgressionChart: React.FC<ProgressionChartProps> = ({
   progression,
+  units,
   color = '#ccff00',
   height = 300
 }) => {
+  const display = (kg: number) => Math.round(toDisplayWeight(kg, units));
+  const formulaLabel = E1RM_FORMULAS.find(f => f.id === progression.formula)?.label ?? 'Auto';
+
   // Format data for Recharts
   const chartData = progression.dataPoints.map(point => ({
     date: new Date(point.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-    '1RM': point.value,
-    weight: point.weight,
+    '1RM': display(point.value),
+    weight: toDisplayWeight(point.weight, units),
     reps: point.reps,
     fullDate: point.date
   }));
@@ -47,10 +54,10 @@ export const ProgressionChart: React.FC<ProgressionChartProps> = ({
         <div className="bg-[#0a0a0a] border border-primary p-3">
           <p className="text-xs font-bold text-white uppercase mb-2">{data.fullDate}</p>
           <p className="text-sm font-mono text-primary">
-            Est. 1RM: <span className="font-black">{data['1RM']} LBS</span>
+            Est. 1RM: <span className="font-black">{data['1RM']} {units.toUpperCase()}</span>
           </p>
           <p className="text-[10px] font-mono text-[#888] mt-1">
-            Set: {data.weight} lbs × {data.reps} reps
+            Set: {data.weight} {units} × {data.reps} reps
           </p>
         </div>
       );
@@ -78,7 +85,11 @@ export const ProgressionChart: React.FC<ProgressionChartProps> = ({
             </span>
             <span className="text-[10px] text-[#444]">•</span>
             <span className="text-[10px] text-[#666] font-mono uppercase">
-              BEST: {progression.best1RM} LBS
+              BEST: {display(progression.best1RM)} {units.toUpperCase()}
+            </span>
+            <span className="text-[10px] text-[#444]">•</span>
+            <span className="text-[10px] text-[#666] font-mono uppercase">
+              {formulaLabel}
             </span>
           </div>
         </div>
@@ -106,7 +117,7 @@ export const ProgressionChart: React.FC<ProgressionChartProps> = ({
             stroke="#666"
             tick={{ fill: '#666', fontSize: 10, fontFamily: 'monospace' }}
             tickLine={{ stroke: '#333' }}
-            label={{ value: 'Est. 1RM (LBS)', angle: -90, position: 'insideLeft', fill: '#666', fontSize: 10 }}
+            label={{ value: `Est. 1RM (${units.toUpperCase()})`, angle: -90, position: 'insideLeft', fill: '#666', fontSize: 10 }}
           />
           <Tooltip content={<CustomTooltip />} />
           <Line
@@ -125,19 +136,19 @@ export const ProgressionChart: React.FC<ProgressionChartProps> = ({
         <div className="text-center">
           <div className="text-[10px] text-[#666] uppercase font-mono mb-1">First</div>
           <div className="text-lg font-black italic text-white">
-            {progression.dataPoints[0]?.value || 0}
+            {display(progression.dataPoints[0]?.value || 0)}
           </div>
         </div>
         <div className="text-center">
           <div className="text-[10px] text-[#666] uppercase font-mono mb-1">Current</div>
           <div className="text-lg font-black italic text-primary">
-            {progression.dataPoints[progression.dataPoints.length - 1]?.value || 0}
+            {display(progression.dataPoints[progression.dataPoints.length - 1]?.value || 0)}
           </div>
         </div>
         <div className="text-center">
           <div className="text-[10px] text-[#666] uppercase font-mono mb-1">Best</div>
           <div className="text-lg font-black italic text-green-400">
-            {progression.best1RM}
+            {display(progression.best1RM)}
           </div>
         </div>
       </div>
@@ -149,6 +160,7 @@ export const ProgressionChart: React.FC<ProgressionChartProps> = ({
 interface VolumeChartProps {
   data: ProgressionDataPoint[];
   title: string;
+  units: WeightUnit;
   color?: string;
   height?: number;
 }
@@ -156,12 +168,13 @@ interface VolumeChartProps {
 export const VolumeChart: React.FC<VolumeChartProps> = ({
   data,
   title,
+  units,
   color = '#00d9ff',
   height = 250
 }) => {
   const chartData = data.map(point => ({
     date: new Date(point.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-    volume: Math.round(point.volume),
+    volume: Math.round(toDisplayWeight(point.volume, units)),
     fullDate: point.date
   }));
 
@@ -172,7 +185,7 @@ export const VolumeChart: React.FC<VolumeChartProps> = ({
         <div className="bg-[#0a0a0a] border border-[#00d9ff] p-3">
           <p className="text-xs font-bold text-white uppercase mb-2">{data.fullDate}</p>
           <p className="text-sm font-mono text-[#00d9ff]">
-            Volume: <span className="font-black">{(data.volume / 1000).toFixed(1)}K LBS</span>
+            Volume: <span className="font-black">{(data.volume / 1000).toFixed(1)}K {units.toUpperCase()}</span>
           </p>
         </div>
       );
@@ -188,7 +201,7 @@ export const VolumeChart: React.FC<VolumeChartProps> = ({
     );
   }
 
-  const totalVolume = data.reduce((sum, d) => sum + d.volume, 0);
+  const totalVolume = chartData.reduce((sum, d) => sum + d.volume, 0);
   const avgVolume = totalVolume / data.length;
 
   return (
@@ -203,7 +216,7 @@ export const VolumeChart: React.FC<VolumeChartProps> = ({
             </span>
             <span className="text-[10px] text-[#444]">•</span>
             <span className="text-[10px] text-[#666] font-mono uppercase">
-              AVG: {(avgVolume / 1000).toFixed(1)}K LBS
+              AVG: {(avgVolume / 1000).toFixed(1)}K {units.toUpperCase()}
             </span>
           </div>
         </div>
@@ -223,7 +236,7 @@ export const VolumeChart: React.FC<VolumeChartProps> = ({
             stroke="#666"
             tick={{ fill: '#666', fontSize: 10, fontFamily: 'monospace' }}
             tickLine={{ stroke: '#333' }}
-            label={{ value: 'Volume (LBS)', angle: -90, position: 'insideLeft', fill: '#666', fontSize: 10 }}
+            label={{ value: `Volume (${units.toUpperCase()})`, angle: -90, position: 'insideLeft', fill: '#666', fontSize: 10 }}
           />
           <Tooltip content={<CustomTooltip />} />
           <Line
@@ -9,6 +9,7 @@ import React, { useState } from 'react';
 import { Zap, Brain, HelpCircle, CheckCircle, AlertTriangle } from 'lucide-react';
 import { ProgressiveSuggestion } from '../services/suggestionService';
 import { getAngularClipPath } from '../utils/achievementUtils';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface ProgressionSuggestionBadgeProps {
   suggestion: ProgressiveSuggestion;
@@ -57,6 +58,7 @@ export function ProgressionSuggestionBadge({
   const recoveryColor = getRecoveryColor(suggestion.recoveryScore);
   const isWarning = suggestion.shouldDeload || suggestion.confidence === 'low' || suggestion.recoveryScore < 5;
 
+  const weight = Math.round(toDisplayWeight(suggestion.weight, units));
   const [minReps, maxReps] = suggestion.reps;
   const repsText = minReps === maxReps ? `${minReps}` : `${minReps}-${maxReps}`;
 
@@ -74,7 +76,7 @@ export function ProgressionSuggestionBadge({
         <div className="flex-1">
           <span className="text-xs text-zinc-400 uppercase font-bold">AI:</span>
           <span className="ml-2 text-sm font-black text-white">
-            {suggestion.weight} {units}
+            {weight} {units}
           </span>
           <span className="ml-1 text-xs text-zinc-500">× {repsText}</span>
         </div>
@@ -143,7 +145,7 @@ export function ProgressionSuggestionBadge({
       {/* Suggested Weight/Reps */}
       <div className="flex items-baseline gap-2 mb-3">
         <span className="text-3xl font-black font-mono text-white italic">
-          {suggestion.weight}
+          {weight}
         </span>
         <span className="text-lg text-zinc-400 font-bold">{units}</span>
         <span className="text-zinc-600">×</span>
@@ -241,7 +243,7 @@ export function ProgressionSuggestionBadge({
         <div className="mt-3 flex items-center justify-between text-[10px] text-zinc-600">
           <span>EST. 1RM</span>
           <span className="font-mono font-bold">
-            {suggestion.estimated1RM} {units}
+            {Math.round(toDisplayWeight(suggestion.estimated1RM, units))} {units}
           </span>
         </div>
       )}
@@ -5,7 +5,7 @@
  * Features: corner brackets, power bar, scan lines, sharp angular containers
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   Activity,
   TrendingUp,
@@ -25,12 +25,13 @@ import {
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import {
+  actionToVolumeChange,
+  deserializeBanditState,
   extractBanditContext,
   extractFeatureSequence,
-  getVolumeRecommendation,
-  initializeBanditState
+  getVolumeRecommendation
 } from '../services/ml';
-import { MuscleGroup, BanditState } from '../types';
+import { MuscleGroup } from '../types';
 
 interface RecoveryScoreCardProps {
   onOpenWellnessCheckin?: () => void;
@@ -47,9 +48,19 @@ interface RecoveryMetrics {
 
 export function RecoveryScoreCard({ onOpenWellnessCheckin, compact = false }: RecoveryScoreCardProps) {
   const [isExpanded, setIsExpanded] = useState(!compact);
-  const [banditState] = useState<BanditState>(initializeBanditState());
-
-  const { workoutHistory, dailyLogs } = useStore();
+  const {
+    history: workoutHistory,
+    dailyLogs,
+    volumeBanditState,
+    recordVolumeRecommendation,
+    settleVolumeRecommendations
+  } = useStore();
+  const banditState = useMemo(() => deserializeBanditState(volumeBanditState), [volumeBanditState]);
+
+  // Learn from recommendations whose outcome window has closed
+  useEffect(() => {
+    settleVolumeRecommendations();
+  }, [settleVolumeRecommendations]);
 
   // Calculate recovery metrics from data
   const metrics = useMemo((): RecoveryMetrics => {
@@ -111,11 +122,25 @@ export function RecoveryScoreCard({ onOpenWellnessCheckin, compact = false }: Re
   }, [workoutHistory, dailyLogs]);
 
   // Get volume recommendation
-  const volumeRec = useMemo(() => {
-    const today = Date.now();
-    const context = extractBanditContext(workoutHistory, dailyLogs, today);
-    return getVolumeRecommendation(context, banditState, 'chest' as MuscleGroup);
-  }, [workoutHistory, dailyLogs, banditState]);
+  const volumeContext = useMemo(
+    () => extractBanditContext(workoutHistory, dailyLogs, Date.now()),
+    [workoutHistory, dailyLogs]
+  );
+  const volumeRec = useMemo(
+    () => getVolumeRecommendation(volumeContext, banditState, 'chest' as MuscleGroup),
+    [volumeContext, banditState]
+  );
+
+  // Record what was shown so its reward can be collected in 1-2 weeks
+  useEffect(() => {
+    const muscleGroup = 'chest' as MuscleGroup;
+    const currentVolume = volumeContext.currentVolume[muscleGroup] ?? 0;
+    const { newSets } = actionToVolumeChange(volumeRec.action, currentVolume, volumeContext);
+    recordVolumeRecommendation(
+      { action: volumeRec.action, muscleGroup, currentVolume, recommendedVolume: newSets },
+      volumeContext
+    );
+  }, [volumeRec, volumeContext, recordVolumeRecommendation]);
 
   // Determine color based on score
   const getScoreColor = (score: number) => {
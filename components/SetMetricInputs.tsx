@@ -0,0 +1,188 @@
+import React from 'react';
+import { ExerciseMetric, SetLog } from '../types';
+import { calculatePace, formatDuration, formatPace } from '../services/setMetrics';
+import { fromDisplayWeight, toDisplayWeight, WeightUnit } from '../utils/conversions';
+
+interface SetMetricInputsProps {
+  set: SetLog;
+  previousSet?: SetLog;
+  metric: Exclude<ExerciseMetric, 'weight_reps'>;
+  units: WeightUnit;
+  exerciseName: string;
+  setNumber: number;
+  onChange: (updates: Partial<SetLog>) => void;
+  onFocus: (input: HTMLInputElement) => void;
+}
+
+const inputClass = 'w-full bg-black border-b-2 border-[#333] p-2 text-center text-lg font-bold text-white focus:border-primary outline-none placeholder-[#333]';
+
+/**
+ * Column headers matching the input cells rendered by SetMetricInputs
+ * (one col-span-6 cell for duration, otherwise two col-span-3 cells)
+ */
+export function getMetricColumnLabels(metric: Exclude<ExerciseMetric, 'weight_reps'>, units: string): string[] {
+  switch (metric) {
+    case 'duration':
+      return ['TIME'];
+    case 'distance_duration':
+      return ['METERS', 'TIME'];
+    case 'weight_distance':
+      return [units.toUpperCase(), 'METERS'];
+  }
+}
+
+/**
+ * Minutes + seconds pair (two number inputs so the keyboard toolbar can step through them)
+ */
+const DurationFields: React.FC<{
+  value?: number;
+  placeholder?: number;
+  label: string;
+  disabled: boolean;
+  onChange: (seconds: number) => void;
+  onFocus: (input: HTMLInputElement) => void;
+}> = ({ value, placeholder, label, disabled, onChange, onFocus }) => {
+  const mins = value !== undefined ? Math.floor(value / 60) : undefined;
+  const secs = value !== undefined ? value % 60 : undefined;
+
+  const parse = (raw: string) => {
+    const n = parseInt(raw, 10);
+    return isNaN(n) || n < 0 ? 0 : n;
+  };
+
+  return (
+    <div className="flex items-center gap-0.5">
+      <input
+        type="number"
+        value={mins || ''}
+        onChange={(e) => onChange(parse(e.target.value) * 60 + (secs || 0))}
+        onFocus={(e) => onFocus(e.currentTarget)}
+        placeholder={placeholder !== undefined ? `${Math.floor(placeholder / 60)}` : '0'}
+        aria-label={`${label} minutes`}
+        inputMode="numeric"
+        min="0"
+        step="1"
+        className={inputClass}
+        onClick={(e) => e.stopPropagation()}
+        disabled={disabled}
+      />
+      <span className="text-[#444] font-bold">:</span>
+      <input
+        type="number"
+        value={secs || ''}
+        onChange={(e) => onChange((mins || 0) * 60 + Math.min(59, parse(e.target.value)))}
+        onFocus={(e) => onFocus(e.currentTarget)}
+        placeholder={placeholder !== undefined ? `${placeholder % 60}`.padStart(2, '0') : '00'}
+        aria-label={`${label} seconds`}
+        inputMode="numeric"
+        min="0"
+        max="59"
+        step="1"
+        className={inputClass}
+        onClick={(e) => e.stopPropagation()}
+        disabled={disabled}
+      />
+    </div>
+  );
+};
+
+/**
+ * Inputs for time / distance sets, rendered in place of the weight + reps cells
+ * of the WorkoutLogger set grid (six columns)
+ */
+export const SetMetricInputs: React.FC<SetMetricInputsProps> = ({
+  set,
+  previousSet,
+  metric,
+  units,
+  exerciseName,
+  setNumber,
+  onChange,
+  onFocus,
+}) => {
+  const label = `set ${setNumber} of ${exerciseName}`;
+
+  // Weights are stored in kg, distances in meters
+  const shown = (field: 'weight' | 'distance', value: number = 0) =>
+    field === 'weight' ? toDisplayWeight(value, units) : value;
+
+  const numberInput = (field: 'weight' | 'distance', ariaLabel: string, step: string) => (
+    <input
+      type="number"
+      value={shown(field, set[field]) || ''}
+      onChange={(e) => {
+        const value = parseFloat(e.target.value);
+        if (!isNaN(value) && value >= 0) {
+          onChange({ [field]: field === 'weight' ? fromDisplayWeight(value, units) : value });
+        } else if (e.target.value === '') {
+          onChange({ [field]: 0 });
+        }
+      }}
+      onFocus={(e) => onFocus(e.currentTarget)}
+      placeholder={previousSet?.[field] ? `${shown(field, previousSet[field])}` : '0'}
+      aria-label={ariaLabel}
+      inputMode="decimal"
+      min="0"
+      step={step}
+      className={inputClass}
+      onClick={(e) => e.stopPropagation()}
+      disabled={set.completed}
+    />
+  );
+
+  if (metric === 'duration') {
+    return (
+      <div className="col-span-6">
+        <DurationFields
+          value={set.duration}
+          placeholder={previousSet?.duration}
+          label={`Duration for ${label}`}
+          disabled={set.completed}
+          onChange={(duration) => onChange({ duration })}
+          onFocus={onFocus}
+        />
+        {!!previousSet?.duration && !set.duration && (
+          <div className="text-[9px] text-[#444] text-center mt-1 font-mono">{formatDuration(previousSet.duration)}</div>
+        )}
+      </div>
+    );
+  }
+
+  if (metric === 'distance_duration') {
+    const pace = calculatePace(set.distance, set.duration);
+    return (
+      <>
+        <div className="col-span-3">
+          {numberInput('distance', `Distance in meters for ${label}`, '1')}
+        </div>
+        <div className="col-span-3">
+          <DurationFields
+            value={set.duration}
+            placeholder={previousSet?.duration}
+            label={`Time for ${label}`}
+            disabled={set.completed}
+            onChange={(duration) => onChange({ duration })}
+            onFocus={onFocus}
+          />
+          {pace !== null && (
+            <div className="text-[9px] text-primary/80 text-center mt-1 font-mono">{formatPace(pace)}</div>
+          )}
+        </div>
+      </>
+    );
+  }
+
+  // weight_distance (carries, sled work)
+  return (
+    <>
+      <div className="col-span-3">
+        {numberInput('weight', `Weight in ${units} for ${label}`, '0.25')}
+      </div>
+      <div className="col-span-3">
+        {numberInput('distance', `Distance in meters for ${label}`, '1')}
+      </div>
+    </>
+  );
+};
+
+export default SetMetricInputs;
@@ -32,6 +32,7 @@ import {
   getFatigueLevelColor,
 } from '../services/fatigueAnalysis';
 import { BodyMetricsGoals } from '../types';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface SmartInsightsPanelProps {
   onSetWeightGoal?: () => void;
@@ -105,7 +106,7 @@ export const SmartInsightsPanel: React.FC<SmartInsightsPanelProps> = ({
     const target = parseFloat(targetWeight);
     if (isNaN(target) || target <= 0) return;
 
-    const currentWeight = settings.bodyweight || 0;
+    const currentWeight = toDisplayWeight(settings.bodyweight || 0, settings.units);
 
     setBodyMetricsGoal({
       targetWeight: {
@@ -216,7 +217,7 @@ export const SmartInsightsPanel: React.FC<SmartInsightsPanelProps> = ({
             {/* Current Weight Display */}
             {settings.bodyweight && (
               <p className="text-[10px] text-[#444] font-mono">
-                Current: {settings.bodyweight} {settings.units}
+                Current: {toDisplayWeight(settings.bodyweight, settings.units)} {settings.units}
               </p>
             )}
 
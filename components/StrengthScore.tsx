@@ -1,24 +1,31 @@
 import React from 'react';
 import { Trophy, TrendingUp, Award, Target } from 'lucide-react';
 import { calculateOverallStrengthScore, classifyStrengthLevel, calculate1RM, getBest1RM } from '../services/strengthScore';
-import type { ExercisePRHistory } from '../types';
+import type { ExercisePRHistory, E1RMFormula } from '../types';
+import { fromDisplayWeight, toDisplayWeight, WeightUnit } from '../utils/conversions';
 
 interface StrengthScoreProps {
   personalRecords: Record<string, ExercisePRHistory>;
   bodyweight?: number;
   gender?: 'male' | 'female';
+  units?: WeightUnit;
+  formula?: E1RMFormula;
   compact?: boolean;
 }
 
 export const StrengthScore: React.FC<StrengthScoreProps> = ({
   personalRecords,
-  bodyweight = 180, // Default fallback
+  bodyweight = fromDisplayWeight(180, 'lbs'), // Default fallback
   gender = 'male' as const,
+  units = 'lbs' as const,
+  formula = 'auto' as const,
   compact = false
 }) => {
+  const display = (kg: number) => `${Math.round(toDisplayWeight(kg, units))} ${units.toUpperCase()}`;
+
   // Handle undefined or null personalRecords
   const safePersonalRecords = personalRecords || {};
-  const overallScore = calculateOverallStrengthScore(safePersonalRecords, bodyweight, gender);
+  const overallScore = calculateOverallStrengthScore(safePersonalRecords, bodyweight, gender, formula);
 
   // Major lifts to display
   const majorLifts = [
@@ -33,7 +40,7 @@ export const StrengthScore: React.FC<StrengthScoreProps> = ({
     const prHistory = safePersonalRecords[lift.id];
     if (!prHistory?.bestWeight) return null;
 
-    const oneRM = calculate1RM(prHistory.bestWeight.value, prHistory.bestWeight.reps || 1);
+    const oneRM = calculate1RM(prHistory.bestWeight.value, prHistory.bestWeight.reps || 1, formula);
     const classification = classifyStrengthLevel(lift.id, oneRM.estimated1RM, bodyweight, gender);
 
     return {
@@ -137,7 +144,7 @@ export const StrengthScore: React.FC<StrengthScoreProps> = ({
                       {lift.name}
                     </div>
                     <div className="text-[10px] text-[#666] font-mono">
-                      Est. 1RM: {lift.oneRM} LBS
+                      Est. 1RM: {display(lift.oneRM)}
                     </div>
                   </div>
                 </div>
@@ -153,7 +160,7 @@ export const StrengthScore: React.FC<StrengthScoreProps> = ({
                 <div className="mt-2">
                   <div className="flex justify-between text-[9px] text-[#666] font-mono mb-1">
                     <span>{lift.classification.level}</span>
-                    <span>Next: {lift.classification.nextLevelTarget} LBS ({lift.classification.percentToNextLevel}%)</span>
+                    <span>Next: {display(lift.classification.nextLevelTarget)} ({lift.classification.percentToNextLevel}%)</span>
                   </div>
                   <div className="h-1 bg-[#222] overflow-hidden">
                     <div
@@ -185,7 +192,7 @@ export const StrengthScore: React.FC<StrengthScoreProps> = ({
       {bodyweight && (
         <div className="mt-4 pt-4 border-t border-[#222]">
           <div className="text-[9px] text-[#555] font-mono uppercase text-center">
-            Bodyweight: {bodyweight} LBS · {gender === 'male' ? 'Male' : 'Female'} Standards
+            Bodyweight: {display(bodyweight)} · {gender === 'male' ? 'Male' : 'Female'} Standards
           </div>
         </div>
       )}
@@ -0,0 +1,78 @@
+import React from 'react';
+import { AlertTriangle, Smartphone, Cloud } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import type { SyncConflict } from '../types';
+
+const KIND_LABELS: Record<SyncConflict['kind'], string> = {
+  workout: 'Workout',
+  template: 'Template',
+  program: 'Program',
+  dailyLog: 'Daily Log',
+  settings: 'Settings',
+};
+
+function formatStamp(timestamp?: number): string {
+  if (!timestamp) return 'Unknown';
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Lists records edited on this device and another device since the last sync
+ * and lets the user pick which copy to keep.
+ */
+export const SyncConflictsPanel: React.FC = () => {
+  const syncConflicts = useStore((state) => state.syncConflicts);
+  const resolveSyncConflict = useStore((state) => state.resolveSyncConflict);
+
+  if (syncConflicts.length === 0) return null;
+
+  return (
+    <div className="border-t border-[#1a1a1a] pt-4 mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <AlertTriangle size={14} className="text-yellow-500" />
+        <span className="text-xs font-black italic uppercase tracking-wider text-yellow-500">
+          {syncConflicts.length} Sync Conflict{syncConflicts.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      <p className="text-[10px] text-[#666] font-mono uppercase tracking-wider mb-3">
+        Edited on another device since last sync. Choose which copy to keep.
+      </p>
+
+      <div className="space-y-2">
+        {syncConflicts.map((conflict) => (
+          <div key={conflict.id} className="bg-black border border-[#222] p-3">
+            <div className="flex justify-between items-baseline mb-2">
+              <span className="text-sm font-bold text-white truncate">{conflict.name}</span>
+              <span className="text-[10px] text-[#666] font-mono uppercase">{KIND_LABELS[conflict.kind]}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => resolveSyncConflict(conflict.id, 'local')}
+                className="py-2 border border-[#333] hover:border-primary text-[10px] font-black italic uppercase tracking-wider text-white hover:text-primary transition-all flex flex-col items-center gap-1 min-h-[48px]"
+                aria-label={`Keep this device's copy of ${conflict.name}`}
+              >
+                <span className="flex items-center gap-1"><Smartphone size={12} /> Keep This Device</span>
+                <span className="text-[#666] font-mono normal-case not-italic">{formatStamp(conflict.localUpdatedAt)}</span>
+              </button>
+              <button
+                onClick={() => resolveSyncConflict(conflict.id, 'remote')}
+                className="py-2 border border-[#333] hover:border-primary text-[10px] font-black italic uppercase tracking-wider text-white hover:text-primary transition-all flex flex-col items-center gap-1 min-h-[48px]"
+                aria-label={`Keep the cloud copy of ${conflict.name}`}
+              >
+                <span className="flex items-center gap-1"><Cloud size={12} /> Keep Cloud</span>
+                <span className="text-[#666] font-mono normal-case not-italic">{formatStamp(conflict.remoteUpdatedAt)}</span>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictsPanel;
@@ -1,20 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import { WorkoutSession } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { WorkoutBlock, WorkoutBlockType, WorkoutSession } from '../types';
 import { EXERCISE_LIBRARY } from '../constants';
-import { X, Plus, Trash2, Search } from 'lucide-react';
+import { X, Plus, Trash2, Search, Link as LinkIcon, Unlink } from 'lucide-react';
 import { useStore } from '../store/useStore';
+import { BLOCK_TYPE_LABELS, createBlock, upsertBlock } from '../services/workoutBlocks';
 
 interface TemplateEditorProps {
   template: WorkoutSession;
   onClose: () => void;
 }
 
+interface TemplateItem {
+  exerciseId: string;
+  blockId?: string; // Shared by consecutive exercises run as a block
+}
+
+/**
+ * Only runs of two or more consecutive exercises form a block
+ */
+const normalizeBlocks = (items: TemplateItem[]): TemplateItem[] =>
+  items.map((item, i) =>
+    item.blockId && (items[i - 1]?.blockId === item.blockId || items[i + 1]?.blockId === item.blockId)
+      ? item
+      : { exerciseId: item.exerciseId }
+  );
+
 const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onClose }) => {
   const { updateTemplate } = useStore();
   const [templateName, setTemplateName] = useState(template.name);
-  const [selectedExerciseIds, setSelectedExerciseIds] = useState<string[]>(
-    template.logs.map(log => log.exerciseId)
+  const [items, setItems] = useState<TemplateItem[]>(
+    template.logs.map(log => ({ exerciseId: log.exerciseId, blockId: log.supersetId }))
   );
+  const [blocks, setBlocks] = useState<WorkoutBlock[]>(template.blocks || []);
+  const selectedExerciseIds = items.map(item => item.exerciseId);
   const [searchTerm, setSearchTerm] = useState('');
   const [showExercisePicker, setShowExercisePicker] = useState(false);
 
@@ -24,25 +43,61 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onClose }) =>
   );
 
   const handleAddExercise = (exerciseId: string) => {
-    setSelectedExerciseIds([...selectedExerciseIds, exerciseId]);
+    setItems([...items, { exerciseId }]);
     setSearchTerm('');
     setShowExercisePicker(false);
   };
 
   const handleRemoveExercise = (index: number) => {
-    setSelectedExerciseIds(selectedExerciseIds.filter((_, i) => i !== index));
+    setItems(normalizeBlocks(items.filter((_, i) => i !== index)));
   };
 
   const handleMoveExercise = (from: number, to: number) => {
-    const newList = [...selectedExerciseIds];
+    const newList = [...items];
     const [removed] = newList.splice(from, 1);
-    newList.splice(to, 0, removed);
-    setSelectedExerciseIds(newList);
+    // A moved exercise leaves its block
+    newList.splice(to, 0, { exerciseId: removed.exerciseId });
+    setItems(normalizeBlocks(newList));
+  };
+
+  const handleToggleLink = (index: number) => {
+    const current = items[index];
+    const next = items[index + 1];
+    const newList = [...items];
+
+    if (current.blockId && current.blockId === next.blockId) {
+      // Split the block after this exercise
+      const splitId = uuidv4();
+      for (let i = index + 1; newList[i]?.blockId === current.blockId; i++) {
+        newList[i] = { ...newList[i], blockId: splitId };
+      }
+    } else {
+      const blockId = current.blockId || next.blockId || uuidv4();
+      newList[index] = { ...current, blockId };
+      newList[index + 1] = { ...next, blockId };
+    }
+    setItems(normalizeBlocks(newList));
+  };
+
+  const getBlockSettings = (blockId: string): WorkoutBlock => {
+    const saved = blocks.find(b => b.id === blockId);
+    if (saved) return saved;
+    const size = items.filter(item => item.blockId === blockId).length;
+    return createBlock(blockId, size > 2 ? 'giant_set' : 'superset');
+  };
+
+  const handleBlockChange = (blockId: string, updates: Partial<Omit<WorkoutBlock, 'id'>>) => {
+    setBlocks(upsertBlock(blocks, getBlockSettings(blockId), updates));
   };
 
   const handleSave = () => {
     if (templateName.trim() && selectedExerciseIds.length > 0) {
-      updateTemplate(template.id, templateName, selectedExerciseIds);
+      const blockIds = items.map(item => item.blockId);
+      const usedIds = Array.from(new Set(blockIds.filter((id): id is string => !!id)));
+      updateTemplate(template.id, templateName, selectedExerciseIds, {
+        blockIds,
+        blocks: usedIds.map(getBlockSettings)
+      });
       onClose();
     }
   };
@@ -124,10 +179,52 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onClose }) =>
               const exercise = EXERCISE_LIBRARY.find(e => e.id === exId);
               if (!exercise) return null;
 
+              const { blockId } = items[index];
+              const isBlockStart = blockId && items[index - 1]?.blockId !== blockId;
+              const isLinkedToNext = blockId && items[index + 1]?.blockId === blockId;
+              const block = blockId && isBlockStart ? getBlockSettings(blockId) : null;
+
               return (
+                <React.Fragment key={`${exId}-${index}`}>
+                {block && (
+                  <div className="flex flex-wrap items-center gap-2 pt-2">
+                    <select
+                      value={block.type}
+                      onChange={(e) => handleBlockChange(block.id, { type: e.target.value as WorkoutBlockType })}
+                      aria-label="Block type"
+                      className="bg-[#222] text-primary text-[10px] font-bold uppercase px-2 py-1 border border-[#333] focus:border-primary outline-none"
+                    >
+                      {(Object.keys(BLOCK_TYPE_LABELS) as WorkoutBlockType[]).map(type => (
+                        <option key={type} value={type}>{BLOCK_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    {block.type === 'amrap' ? (
+                      <label className="flex items-center gap-1 text-[10px] text-[#666] font-mono uppercase">
+                        Cap (min)
+                        <input
+                          type="number"
+                          inputMode="numeric"
+                          value={block.timeCapSeconds ? block.timeCapSeconds / 60 : ''}
+                          onChange={(e) => handleBlockChange(block.id, { timeCapSeconds: (parseInt(e.target.value) || 0) * 60 || undefined })}
+                          className="w-14 bg-black border border-[#333] px-1 py-1 text-white text-xs text-center focus:border-primary outline-none"
+                        />
+                      </label>
+                    ) : (
+                      <label className="flex items-center gap-1 text-[10px] text-[#666] font-mono uppercase">
+                        {block.type === 'emom' ? 'Min' : 'Rounds'}
+                        <input
+                          type="number"
+                          inputMode="numeric"
+                          value={block.rounds ?? ''}
+                          onChange={(e) => handleBlockChange(block.id, { rounds: parseInt(e.target.value) || undefined })}
+                          className="w-14 bg-black border border-[#333] px-1 py-1 text-white text-xs text-center focus:border-primary outline-none"
+                        />
+                      </label>
+                    )}
+                  </div>
+                )}
                 <div
-                  key={`${exId}-${index}`}
-                  className="bg-[#0a0a0a] border-l-4 border-primary p-3 flex justify-between items-center group"
+                  className={`bg-[#0a0a0a] border-l-4 p-3 flex justify-between items-center group ${blockId ? 'border-[#666]' : 'border-primary'}`}
                 >
                   <div className="flex-1">
                     <h4 className="text-white font-bold uppercase text-sm">{exercise.name}</h4>
@@ -158,6 +255,17 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onClose }) =>
                       </button>
                     )}
 
+                    {/* Link with the next exercise into a block */}
+                    {index < selectedExerciseIds.length - 1 && (
+                      <button
+                        onClick={() => handleToggleLink(index)}
+                        aria-label={isLinkedToNext ? 'Unlink from next exercise' : 'Link with next exercise'}
+                        className={`w-8 h-8 flex items-center justify-center hover:bg-[#1a1a1a] rounded transition-colors ${isLinkedToNext ? 'text-primary' : 'text-[#444] hover:text-primary'}`}
+                      >
+                        {isLinkedToNext ? <Unlink size={16} /> : <LinkIcon size={16} />}
+                      </button>
+                    )}
+
                     {/* Remove */}
                     <button
                       onClick={() => handleRemoveExercise(index)}
@@ -167,6 +275,7 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onClose }) =>
                     </button>
                   </div>
                 </div>
+                </React.Fragment>
               );
             })}
 
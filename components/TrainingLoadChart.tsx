@@ -0,0 +1,341 @@
+/**
+ * Training Load Chart
+ *
+ * Three views over the training-load service:
+ * - ACWR: EWMA and rolling acute:chronic ratios against the 0.8-1.3 sweet spot
+ * - Strain: Foster weekly strain with monotony against its threshold of 2
+ * - Form: fitness (CTL) and fatigue (ATL), with TSB as a share of fitness
+ *
+ * Detected deload weeks and weight PRs are marked on every view.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Gauge } from 'lucide-react';
+import {
+  ComposedChart, Line, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceArea, ReferenceLine, CartesianGrid
+} from 'recharts';
+import { useStore } from '../store/useStore';
+import { convertWeight } from '../utils/conversions';
+import {
+  analyzeTrainingLoad,
+  AcwrZone,
+  FormZone,
+  LoadMetric,
+  ACWR_ZONES,
+  FORM_ZONES,
+  HIGH_MONOTONY,
+} from '../services/trainingLoad';
+
+interface TrainingLoadChartProps {
+  height?: number;
+}
+
+type LoadView = 'acwr' | 'strain' | 'form';
+
+const VIEWS: { id: LoadView; label: string }[] = [
+  { id: 'acwr', label: 'ACWR' },
+  { id: 'strain', label: 'Strain' },
+  { id: 'form', label: 'Form' },
+];
+
+const ACWR_MAX = 2.5;
+const FORM_RANGE = [-60, 40];
+
+const ZONE_COLORS = {
+  blue: '#3b82f6',
+  green: '#22c55e',
+  yellow: '#eab308',
+  red: '#ef4444',
+};
+
+const ACWR_ZONE_STYLE: Record<AcwrZone, { label: string; color: string }> = {
+  undertraining: { label: 'Undertraining', color: ZONE_COLORS.blue },
+  optimal: { label: 'Sweet Spot', color: ZONE_COLORS.green },
+  caution: { label: 'Caution', color: ZONE_COLORS.yellow },
+  danger: { label: 'Danger', color: ZONE_COLORS.red },
+};
+
+const FORM_ZONE_STYLE: Record<FormZone, { label: string; color: string }> = {
+  fresh: { label: 'Fresh', color: ZONE_COLORS.blue },
+  neutral: { label: 'Neutral', color: ZONE_COLORS.yellow },
+  productive: { label: 'Productive', color: ZONE_COLORS.green },
+  overreaching: { label: 'Overreaching', color: ZONE_COLORS.red },
+};
+
+// Shaded band behind a chart zone
+const zoneFill = (color: string, opacity: number) => ({ fill: color, fillOpacity: opacity });
+
+const round = (value: number | null, decimals = 0) =>
+  value === null ? null : Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export const TrainingLoadChart: React.FC<TrainingLoadChartProps> = ({ height = 220 }) => {
+  const { history, settings, customExercises } = useStore();
+  const [view, setView] = useState<LoadView>('acwr');
+  const [metric, setMetric] = useState<LoadMetric>('srpe');
+  const [timeRange, setTimeRange] = useState<30 | 60 | 90>(90);
+
+  const report = useMemo(
+    () => analyzeTrainingLoad(history, {
+      metric,
+      days: timeRange,
+      personalRecords: settings.personalRecords,
+      customExercises,
+    }),
+    [history, metric, timeRange, settings.personalRecords, customExercises]
+  );
+
+  // Tonnage is stored in kg; sRPE is unitless
+  const loadUnit = metric === 'volume' ? settings.units : 'AU';
+  const toUnits = (value: number) => metric === 'volume' ? convertWeight(value, 'kg', settings.units) : value;
+
+  const chartData = useMemo(() => report.days.map(d => ({
+    date: d.date,
+    load: round(toUnits(d.load)),
+    acwrEwma: round(d.acwrEwma, 2),
+    acwrRolling: round(d.acwrRolling, 2),
+    monotony: round(d.monotony, 2),
+    strain: round(d.strain === null ? null : toUnits(d.strain)),
+    ctl: round(toUnits(d.ctl)),
+    atl: round(toUnits(d.atl)),
+    form: d.ctl > 0 ? round((d.tsb / d.ctl) * 100) : null,
+  })), [report, metric, settings.units]);
+
+  const today = report.days[report.days.length - 1];
+  const hasLoad = report.days.some(d => d.load > 0);
+
+  if (!today || !hasLoad) {
+    return (
+      <div className="bg-[#111] border border-[#222] p-4">
+        <div className="flex items-center gap-2 mb-4">
+          <Gauge size={18} className="text-primary" />
+          <h3 className="text-sm font-bold uppercase text-white">Training Load</h3>
+        </div>
+        <div className="text-center py-8">
+          <Gauge size={32} className="text-[#333] mx-auto mb-2" />
+          <p className="text-sm text-[#666]">No training load yet</p>
+          <p className="text-[10px] text-[#444]">Complete a few workouts to see your acute and chronic load</p>
+        </div>
+      </div>
+    );
+  }
+
+  const acwrZone = today.acwrZone ? ACWR_ZONE_STYLE[today.acwrZone] : null;
+  const formZone = today.formZone ? FORM_ZONE_STYLE[today.formZone] : null;
+  const highMonotony = today.monotony !== null && today.monotony > HIGH_MONOTONY;
+
+  // Custom tooltip
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      const notes = report.annotations.filter(a => a.date === data.date);
+      return (
+        <div className="bg-[#0a0a0a] border border-primary p-3">
+          <p className="text-xs font-bold text-white uppercase mb-1">{data.date}</p>
+          <p className="text-[10px] font-mono text-[#888]">Load: {data.load} {loadUnit}</p>
+          {view === 'acwr' && (
+            <>
+              <p className="text-sm font-mono text-primary">EWMA: {data.acwrEwma ?? '—'}</p>
+              <p className="text-[10px] font-mono text-[#888]">Rolling: {data.acwrRolling ?? '—'}</p>
+            </>
+          )}
+          {view === 'strain' && (
+            <>
+              <p className="text-sm font-mono text-primary">Strain: {data.strain ?? '—'}</p>
+              <p className="text-[10px] font-mono text-[#888]">Monotony: {data.monotony ?? '—'}</p>
+            </>
+          )}
+          {view === 'form' && (
+            <>
+              <p className="text-sm font-mono text-primary">Form: {data.form === null ? '—' : `${data.form}%`}</p>
+              <p className="text-[10px] font-mono text-[#888]">Fitness {data.ctl} · Fatigue {data.atl}</p>
+            </>
+          )}
+          {notes.map(note => (
+            <p key={note.label} className="text-[10px] font-bold uppercase mt-1" style={{ color: note.type === 'pr' ? '#ccff00' : ZONE_COLORS.blue }}>
+              {note.label}
+            </p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const annotationLines = report.annotations.map(a => (
+    <ReferenceLine
+      key={`${a.type}-${a.date}-${a.label}`}
+      x={a.date}
+      yAxisId="left"
+      stroke={a.type === 'pr' ? '#ccff00' : ZONE_COLORS.blue}
+      strokeDasharray={a.type === 'pr' ? '2 2' : '4 4'}
+      strokeOpacity={0.6}
+    />
+  ));
+
+  const tick = { fill: '#666', fontSize: 10, fontFamily: 'monospace' };
+
+  return (
+    <div className="bg-[#111] border border-[#222] p-4">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Gauge size={18} className="text-primary" />
+          <h3 className="text-sm font-bold uppercase text-white">Training Load</h3>
+        </div>
+        <div className="flex gap-1">
+          {[30, 60, 90].map(days => (
+            <button
+              key={days}
+              onClick={() => setTimeRange(days as 30 | 60 | 90)}
+              className={`px-2 py-1 text-[10px] font-bold uppercase transition-colors ${
+                timeRange === days
+                  ? 'bg-primary text-black'
+                  : 'bg-[#222] text-[#666] hover:text-white'
+              }`}
+            >
+              {days}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        <div className="bg-black border border-[#222] p-3 text-center">
+          <div className="text-2xl font-black italic" style={{ color: acwrZone?.color || '#666' }}>
+            {today.acwrEwma === null ? '—' : today.acwrEwma.toFixed(2)}
+          </div>
+          <div className="text-[9px] text-[#666] uppercase font-bold">ACWR · {acwrZone?.label || 'No base'}</div>
+        </div>
+        <div className="bg-black border border-[#222] p-3 text-center">
+          <div className={`text-2xl font-black italic ${highMonotony ? 'text-red-500' : 'text-white'}`}>
+            {today.monotony === null ? '—' : today.monotony.toFixed(1)}
+          </div>
+          <div className="text-[9px] text-[#666] uppercase font-bold">Monotony</div>
+        </div>
+        <div className="bg-black border border-[#222] p-3 text-center">
+          <div className="text-2xl font-black italic" style={{ color: formZone?.color || '#666' }}>
+            {Math.round(toUnits(today.tsb))}
+          </div>
+          <div className="text-[9px] text-[#666] uppercase font-bold">TSB · {formZone?.label || 'No base'}</div>
+        </div>
+      </div>
+
+      {/* View + Metric Toggles */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex gap-1">
+          {VIEWS.map(v => (
+            <button
+              key={v.id}
+              onClick={() => setView(v.id)}
+              className={`px-2 py-1 text-[10px] font-bold uppercase transition-colors ${
+                view === v.id
+                  ? 'bg-primary text-black'
+                  : 'bg-[#222] text-[#666] hover:text-white'
+              }`}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(['srpe', 'volume'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-2 py-1 text-[10px] font-bold uppercase transition-colors ${
+                metric === m
+                  ? 'bg-white text-black'
+                  : 'bg-[#222] text-[#666] hover:text-white'
+              }`}
+            >
+              {m === 'srpe' ? 'sRPE' : 'Tonnage'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Chart */}
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#222" />
+          <XAxis
+            dataKey="date"
+            tick={tick}
+            tickFormatter={(date: string) => date.slice(5)}
+            axisLine={{ stroke: '#333' }}
+            tickLine={false}
+            minTickGap={20}
+          />
+
+          {view === 'acwr' && (
+            <>
+              <YAxis yAxisId="left" domain={[0, ACWR_MAX]} allowDataOverflow tick={tick} axisLine={false} tickLine={false} />
+              <ReferenceArea yAxisId="left" y1={0} y2={ACWR_ZONES.undertraining} {...zoneFill(ZONE_COLORS.blue, 0.08)} />
+              <ReferenceArea yAxisId="left" y1={ACWR_ZONES.undertraining} y2={ACWR_ZONES.optimal} {...zoneFill(ZONE_COLORS.green, 0.1)} />
+              <ReferenceArea yAxisId="left" y1={ACWR_ZONES.optimal} y2={ACWR_ZONES.caution} {...zoneFill(ZONE_COLORS.yellow, 0.1)} />
+              <ReferenceArea yAxisId="left" y1={ACWR_ZONES.caution} y2={ACWR_MAX} {...zoneFill(ZONE_COLORS.red, 0.08)} />
+              {annotationLines}
+              <Line yAxisId="left" type="monotone" dataKey="acwrRolling" stroke="#666" strokeWidth={1} strokeDasharray="4 4" dot={false} connectNulls />
+              <Line yAxisId="left" type="monotone" dataKey="acwrEwma" stroke="#ccff00" strokeWidth={2} dot={false} connectNulls />
+            </>
+          )}
+
+          {view === 'strain' && (
+            <>
+              <YAxis yAxisId="left" tick={tick} axisLine={false} tickLine={false} />
+              <YAxis yAxisId="right" orientation="right" domain={[0, 'auto']} tick={tick} axisLine={false} tickLine={false} />
+              <ReferenceLine yAxisId="right" y={HIGH_MONOTONY} stroke={ZONE_COLORS.red} strokeDasharray="3 3" />
+              {annotationLines}
+              <Bar yAxisId="left" dataKey="strain" fill="#333" />
+              <Line yAxisId="right" type="monotone" dataKey="monotony" stroke="#ccff00" strokeWidth={2} dot={false} connectNulls />
+            </>
+          )}
+
+          {view === 'form' && (
+            <>
+              <YAxis yAxisId="left" tick={tick} axisLine={false} tickLine={false} />
+              <YAxis yAxisId="right" orientation="right" domain={FORM_RANGE} allowDataOverflow tick={tick} axisLine={false} tickLine={false} unit="%" />
+              <ReferenceArea yAxisId="right" y1={FORM_ZONES.fresh * 100} y2={FORM_RANGE[1]} {...zoneFill(ZONE_COLORS.blue, 0.08)} />
+              <ReferenceArea yAxisId="right" y1={FORM_ZONES.productive * 100} y2={FORM_ZONES.neutral * 100} {...zoneFill(ZONE_COLORS.green, 0.1)} />
+              <ReferenceArea yAxisId="right" y1={FORM_RANGE[0]} y2={FORM_ZONES.productive * 100} {...zoneFill(ZONE_COLORS.red, 0.08)} />
+              {annotationLines}
+              <Line yAxisId="left" type="monotone" dataKey="ctl" stroke={ZONE_COLORS.blue} strokeWidth={2} dot={false} />
+              <Line yAxisId="left" type="monotone" dataKey="atl" stroke={ZONE_COLORS.red} strokeWidth={1} dot={false} />
+              <Line yAxisId="right" type="monotone" dataKey="form" stroke="#ccff00" strokeWidth={2} dot={false} connectNulls />
+            </>
+          )}
+
+          <Tooltip content={<CustomTooltip />} />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 mt-3 text-[9px] font-mono uppercase text-[#666]">
+        {view === 'acwr' && (
+          <>
+            <span><span className="text-primary">—</span> EWMA</span>
+            <span><span className="text-[#888]">- -</span> Rolling 7:28</span>
+          </>
+        )}
+        {view === 'strain' && (
+          <>
+            <span><span className="text-[#888]">■</span> Strain ({loadUnit})</span>
+            <span><span className="text-primary">—</span> Monotony</span>
+          </>
+        )}
+        {view === 'form' && (
+          <>
+            <span><span style={{ color: ZONE_COLORS.blue }}>—</span> Fitness</span>
+            <span><span style={{ color: ZONE_COLORS.red }}>—</span> Fatigue</span>
+            <span><span className="text-primary">—</span> Form %</span>
+          </>
+        )}
+        <span><span style={{ color: ZONE_COLORS.blue }}>┆</span> Deload</span>
+        <span><span className="text-primary">┆</span> PR</span>
+      </div>
+    </div>
+  );
+};
+
+export default TrainingLoadChart;
@@ -1,16 +1,21 @@
 import React from 'react';
 import { WeeklyVolumeData } from '../services/progressionData';
 import { Calendar, TrendingUp, TrendingDown } from 'lucide-react';
+import { toDisplayWeight, WeightUnit } from '../utils/conversions';
 
 interface VolumeBreakdownTableProps {
   weeklyData: WeeklyVolumeData[];
+  units: WeightUnit;
   title?: string;
 }
 
 export const VolumeBreakdownTable: React.FC<VolumeBreakdownTableProps> = ({
   weeklyData,
+  units,
   title = 'Weekly Volume Breakdown'
 }) => {
+  const inThousands = (kg: number) => (toDisplayWeight(kg, units) / 1000).toFixed(1);
+
   if (weeklyData.length === 0) {
     return (
       <div className="bg-[#111] border border-[#222] p-6 text-center">
@@ -54,7 +59,7 @@ export const VolumeBreakdownTable: React.FC<VolumeBreakdownTableProps> = ({
             </span>
             <span className="text-[10px] text-[#444]">•</span>
             <span className="text-[10px] text-[#666] font-mono uppercase">
-              AVG: {(avgVolume / 1000).toFixed(1)}K LBS/WEEK
+              AVG: {inThousands(avgVolume)}K {units.toUpperCase()}/WEEK
             </span>
           </div>
         </div>
@@ -112,9 +117,9 @@ export const VolumeBreakdownTable: React.FC<VolumeBreakdownTableProps> = ({
                   {/* Total Volume */}
                   <td className="py-3 pr-4 text-right">
                     <div className="text-sm font-bold font-mono text-white">
-                      {(week.totalVolume / 1000).toFixed(1)}K
+                      {inThousands(week.totalVolume)}K
                     </div>
-                    <div className="text-[9px] font-mono text-[#444]">LBS</div>
+                    <div className="text-[9px] font-mono text-[#444]">{units.toUpperCase()}</div>
                   </td>
 
                   {/* Workout Count */}
@@ -177,19 +182,19 @@ export const VolumeBreakdownTable: React.FC<VolumeBreakdownTableProps> = ({
         <div className="text-center">
           <div className="text-[10px] text-[#666] uppercase font-mono mb-1">Peak Week</div>
           <div className="text-lg font-black italic text-green-400">
-            {(Math.max(...weeklyData.map(w => w.totalVolume)) / 1000).toFixed(1)}K
+            {inThousands(Math.max(...weeklyData.map(w => w.totalVolume)))}K
           </div>
         </div>
         <div className="text-center">
           <div className="text-[10px] text-[#666] uppercase font-mono mb-1">Average</div>
           <div className="text-lg font-black italic text-white">
-            {(avgVolume / 1000).toFixed(1)}K
+            {inThousands(avgVolume)}K
           </div>
         </div>
         <div className="text-center">
           <div className="text-[10px] text-[#666] uppercase font-mono mb-1">Current Week</div>
           <div className="text-lg font-black italic text-primary">
-            {(weeklyData[weeklyData.length - 1]?.totalVolume / 1000).toFixed(1)}K
+            {inThousands(weeklyData[weeklyData.length - 1]?.totalVolume ?? 0)}K
           </div>
         </div>
       </div>
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { X, Plus, Trash2, Flame } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { generateWarmupSets, getDefaultWarmupScheme } from '../services/warmupGenerator';
+import type { LoadRounding } from '../services/loadRounding';
+import { toDisplayWeight } from '../utils/conversions';
+import type { ExerciseCategory, WarmupScheme } from '../types';
+
+interface WarmupSchemeEditorProps {
+  exerciseId: string;
+  exerciseName: string;
+  category: ExerciseCategory;
+  workingWeight: number; // kg, for the preview
+  load?: LoadRounding;
+  onClose: () => void;
+}
+
+/**
+ * Edit the warm-up ladder for one exercise, with a preview against the
+ * current working weight
+ */
+export const WarmupSchemeEditor: React.FC<WarmupSchemeEditorProps> = ({
+  exerciseId,
+  exerciseName,
+  category,
+  workingWeight,
+  load,
+  onClose
+}) => {
+  const settings = useStore((state) => state.settings);
+  const updateSettings = useStore((state) => state.updateSettings);
+
+  const custom = settings.warmupSchemes?.[exerciseId];
+  const [scheme, setScheme] = useState<WarmupScheme>(custom || getDefaultWarmupScheme(category));
+
+  const preview = useMemo(
+    () => (load ? generateWarmupSets(workingWeight, scheme, load) : []),
+    [workingWeight, scheme, load]
+  );
+
+  const updateStep = (index: number, updates: Partial<WarmupScheme['steps'][number]>) => {
+    setScheme({ ...scheme, steps: scheme.steps.map((s, i) => (i === index ? { ...s, ...updates } : s)) });
+  };
+
+  const handleSave = () => {
+    const steps = [...scheme.steps].sort((a, b) => a.percent - b.percent);
+    updateSettings({ warmupSchemes: { ...settings.warmupSchemes, [exerciseId]: { ...scheme, steps } } });
+    onClose();
+  };
+
+  const handleReset = () => {
+    const { [exerciseId]: _, ...rest } = settings.warmupSchemes || {};
+    updateSettings({ warmupSchemes: rest });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="bg-[#111] border border-[#333] p-6 max-w-sm w-full mx-4 relative max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-[#666] hover:text-white" aria-label="Close warm-up settings"><X size={24} /></button>
+        <h3 className="volt-header text-2xl text-white mb-1">WARM-UP</h3>
+        <p className="text-[10px] text-[#666] font-mono uppercase mb-6">{exerciseName}</p>
+
+        {load?.loadingType === 'barbell' && (
+          <label className="flex items-center justify-between mb-4 text-xs font-bold uppercase text-[#ccc]">
+            Start with empty bar
+            <input
+              type="checkbox"
+              checked={scheme.emptyBar}
+              onChange={(e) => setScheme({ ...scheme, emptyBar: e.target.checked })}
+              className="accent-primary w-4 h-4"
+            />
+          </label>
+        )}
+
+        <div className="space-y-2 mb-4">
+          {scheme.steps.map((step, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                type="number"
+                inputMode="numeric"
+                value={Math.round(step.percent * 100)}
+                onChange={(e) => updateStep(i, { percent: (parseFloat(e.target.value) || 0) / 100 })}
+                aria-label={`Step ${i + 1} percent`}
+                className="w-20 bg-black border border-[#333] px-2 py-2 text-white font-mono text-sm text-center focus:border-primary outline-none"
+              />
+              <span className="text-[10px] text-[#666] font-mono">% ×</span>
+              <input
+                type="number"
+                inputMode="numeric"
+                value={step.reps}
+                onChange={(e) => updateStep(i, { reps: parseInt(e.target.value) || 0 })}
+                aria-label={`Step ${i + 1} reps`}
+                className="w-16 bg-black border border-[#333] px-2 py-2 text-white font-mono text-sm text-center focus:border-primary outline-none"
+              />
+              <span className="text-[10px] text-[#666] font-mono flex-1">REPS</span>
+              <button
+                onClick={() => setScheme({ ...scheme, steps: scheme.steps.filter((_, j) => j !== i) })}
+                aria-label={`Remove step ${i + 1}`}
+                className="text-[#666] hover:text-red-500"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setScheme({ ...scheme, steps: [...scheme.steps, { percent: 0.9, reps: 1 }] })}
+            className="text-primary text-[10px] font-bold uppercase flex items-center gap-1"
+          >
+            <Plus size={12} /> Add Step
+          </button>
+        </div>
+
+        {/* Preview */}
+        {workingWeight > 0 && (
+          <div className="border-t border-[#333] pt-4 mb-6 space-y-1">
+            <span className="text-[10px] text-[#666] font-bold uppercase tracking-widest">
+              Before {toDisplayWeight(workingWeight, settings.units)}{settings.units}
+            </span>
+            {preview.length === 0 && <p className="text-xs text-[#444] font-mono">No warm-up sets</p>}
+            {preview.map((set, i) => (
+              <div key={i} className="flex justify-between text-xs font-mono text-[#ccc]">
+                <span className="flex items-center gap-1"><Flame size={10} className="text-orange-500" /> {toDisplayWeight(set.weight, settings.units)}{settings.units} × {set.reps}</span>
+                {set.platesAdded && <span className="text-[#666]">+{set.platesAdded.join(' +')} / side</span>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {custom && (
+            <button
+              onClick={handleReset}
+              className="flex-1 py-3 border-2 border-[#222] hover:border-[#444] text-xs font-black italic uppercase tracking-wider text-[#888]"
+            >
+              Default
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex-1 py-3 bg-primary text-black text-xs font-black italic uppercase tracking-wider hover:bg-white transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WarmupSchemeEditor;
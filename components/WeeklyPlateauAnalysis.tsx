@@ -20,6 +20,8 @@ import { useStore } from '../store/useStore';
 import { extractExerciseTimeSeries, detectPlateau, calculateTrend } from '../services/analytics';
 import { analyzeWeakPoints } from '../services/workoutIntelligence';
 import { EXERCISE_LIBRARY } from '../constants';
+import { toDisplayWeight } from '../utils/conversions';
+import { toAnalysisExperienceLevel } from '../utils/experienceLevel';
 
 interface WeeklyPlateauAnalysisProps {
   className?: string;
@@ -57,15 +59,15 @@ export function WeeklyPlateauAnalysis({ className = '' }: WeeklyPlateauAnalysisP
       };
     });
 
-    // Analyze weak points (exercises with no progress in 8+ weeks)
-    const weakPoints = analyzeWeakPoints(completedWorkouts, 8);
+    // Analyze weak points against the volume landmarks for the user's level
+    const weakPoints = analyzeWeakPoints(completedWorkouts, toAnalysisExperienceLevel(settings.experienceLevel));
 
     return {
       exercises: exercises.filter(e => e.timeSeries.totalWorkouts >= 3), // Only show if 3+ workouts
       weakPoints,
       hasData: exercises.length > 0
     };
-  }, [history]);
+  }, [history, settings.experienceLevel]);
 
   if (!analysisData.hasData) {
     return (
@@ -149,7 +151,7 @@ export function WeeklyPlateauAnalysis({ className = '' }: WeeklyPlateauAnalysisP
                   <div className="text-right">
                     <p className="text-xs text-gray-400">Current PR</p>
                     <p className="text-sm font-bold text-[#ccff00]">
-                      {Math.round(exercise.plateau.currentPR)} {settings.units}
+                      {Math.round(toDisplayWeight(exercise.plateau.currentPR, settings.units))} {settings.units}
                     </p>
                   </div>
                 </div>
@@ -191,7 +193,7 @@ export function WeeklyPlateauAnalysis({ className = '' }: WeeklyPlateauAnalysisP
                 <div className="flex-1">
                   <h4 className="text-sm font-bold text-white">{exercise.exerciseName}</h4>
                   <p className="text-xs text-green-400 mt-1">
-                    +{exercise.trend.slopePerWeek.toFixed(1)} {settings.units}/week progress
+                    +{toDisplayWeight(exercise.trend.slopePerWeek, settings.units).toFixed(1)} {settings.units}/week progress
                   </p>
                 </div>
                 <div className="flex items-center gap-2">
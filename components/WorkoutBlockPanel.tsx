@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layers, Play, SkipForward, RotateCcw } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { BLOCK_TYPE_LABELS, getBlock, getBlockLogs, getBlockTimerState } from '../services/workoutBlocks';
+import { formatTime } from '../utils/formatters';
+import { playBoxingBell } from '../utils/audioAlerts';
+import type { WorkoutBlock, WorkoutBlockType } from '../types';
+
+interface WorkoutBlockPanelProps {
+  blockId: string;
+}
+
+const BLOCK_TYPES = Object.keys(BLOCK_TYPE_LABELS) as WorkoutBlockType[];
+
+/**
+ * Block header shown above the first exercise of a linked group: block type,
+ * rounds/interval/cap settings and the block timer
+ */
+export const WorkoutBlockPanel: React.FC<WorkoutBlockPanelProps> = ({ blockId }) => {
+  const activeWorkout = useStore((state) => state.activeWorkout);
+  const getAllExercises = useStore((state) => state.getAllExercises);
+  const updateBlock = useStore((state) => state.updateBlock);
+  const startBlock = useStore((state) => state.startBlock);
+  const advanceBlock = useStore((state) => state.advanceBlock);
+  const resetBlock = useStore((state) => state.resetBlock);
+  const startRestTimer = useStore((state) => state.startRestTimer);
+
+  const [now, setNow] = useState(Date.now());
+
+  const block = activeWorkout ? getBlock(activeWorkout, blockId) : null;
+  const logs = activeWorkout ? getBlockLogs(activeWorkout, blockId) : [];
+  const timer = block ? getBlockTimerState(block, logs.length, now) : null;
+  const isTimed = block?.type === 'emom' || block?.type === 'amrap';
+
+  // Tick while a timed block is running
+  useEffect(() => {
+    if (!timer?.running || !isTimed) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer?.running, isTimed]);
+
+  // Bell on each new EMOM interval and when the clock runs out
+  const lastCue = useRef<string | null>(null);
+  useEffect(() => {
+    if (!timer || !block?.progress || !isTimed) return;
+    const cue = timer.finished ? 'done' : `${timer.round}`;
+    if (lastCue.current !== null && lastCue.current !== cue && (block.type === 'emom' || timer.finished)) {
+      playBoxingBell();
+    }
+    lastCue.current = cue;
+  }, [timer?.round, timer?.finished, block?.progress, isTimed]);
+
+  if (!block || !timer) return null;
+
+  const exerciseName = (index: number) =>
+    getAllExercises().find(e => e.id === logs[index]?.exerciseId)?.name || 'Unknown Exercise';
+
+  const setNumber = (key: keyof WorkoutBlock, value: string) => {
+    const n = parseInt(value);
+    updateBlock(blockId, { [key]: n > 0 ? n : undefined });
+  };
+
+  const handleStart = () => {
+    setNow(Date.now());
+    startBlock(blockId);
+  };
+
+  const handleNext = () => {
+    const endsRound = timer.exerciseIndex === logs.length - 1;
+    advanceBlock(blockId);
+    setNow(Date.now());
+    // Rest between rounds, not between exercises
+    if (endsRound && !isTimed && block.restSeconds) startRestTimer(block.restSeconds);
+  };
+
+  const inputClass = 'w-14 bg-black border border-[#333] px-1 py-1 text-white font-mono text-xs text-center focus:border-primary outline-none';
+
+  return (
+    <div className="p-3 border-b border-[#222] bg-black/40 rounded-t-xl space-y-2">
+      <div className="flex items-center gap-2 overflow-x-auto no-scrollbar">
+        <Layers size={14} className="text-primary shrink-0" />
+        <div role="radiogroup" aria-label="Block type" className="flex gap-1">
+          {BLOCK_TYPES.map(type => (
+            <button
+              key={type}
+              role="radio"
+              aria-checked={block.type === type}
+              onClick={() => updateBlock(blockId, { type })}
+              className={`px-2 py-1 text-[10px] font-bold uppercase border whitespace-nowrap transition-colors ${
+                block.type === type ? 'border-primary bg-primary text-black' : 'border-[#333] text-[#888] hover:border-[#666]'
+              }`}
+            >
+              {BLOCK_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 text-[10px] text-[#666] font-mono uppercase">
+        {block.type !== 'amrap' && (
+          <label className="flex items-center gap-1">
+            {block.type === 'emom' ? 'Min' : 'Rounds'}
+            <input type="number" inputMode="numeric" value={block.rounds ?? ''} onChange={(e) => setNumber('rounds', e.target.value)} className={inputClass} />
+          </label>
+        )}
+        {block.type === 'emom' && (
+          <label className="flex items-center gap-1">
+            Every (s)
+            <input type="number" inputMode="numeric" value={block.intervalSeconds ?? ''} onChange={(e) => setNumber('intervalSeconds', e.target.value)} className={inputClass} />
+          </label>
+        )}
+        {block.type === 'amrap' && (
+          <label className="flex items-center gap-1">
+            Cap (min)
+            <input
+              type="number"
+              inputMode="numeric"
+              value={block.timeCapSeconds ? block.timeCapSeconds / 60 : ''}
+              onChange={(e) => updateBlock(blockId, { timeCapSeconds: (parseInt(e.target.value) || 0) * 60 || undefined })}
+              className={inputClass}
+            />
+          </label>
+        )}
+        {!isTimed && (
+          <label className="flex items-center gap-1">
+            Rest (s)
+            <input type="number" inputMode="numeric" value={block.restSeconds ?? ''} onChange={(e) => setNumber('restSeconds', e.target.value)} className={inputClass} />
+          </label>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0" aria-live="polite">
+          {timer.finished ? (
+            <p className="text-xs font-bold uppercase text-primary">
+              Block complete{block.type === 'amrap' && ` · ${block.progress?.round ?? 0} rounds`}
+            </p>
+          ) : block.progress ? (
+            <>
+              <p className="text-xs font-bold uppercase text-white truncate">Now: {exerciseName(timer.exerciseIndex)}</p>
+              <p className="text-[10px] font-mono text-[#888]">
+                Round {timer.round}{timer.totalRounds ? `/${timer.totalRounds}` : ''}
+                {timer.secondsLeft !== undefined && ` · ${formatTime(timer.secondsLeft)} left`}
+              </p>
+            </>
+          ) : (
+            <p className="text-[10px] font-mono text-[#666] uppercase">{logs.length} exercises · not started</p>
+          )}
+        </div>
+
+        {!block.progress ? (
+          <button onClick={handleStart} aria-label="Start block" className="p-2 bg-primary text-black hover:bg-white transition-colors">
+            <Play size={14} />
+          </button>
+        ) : (
+          <>
+            {!timer.finished && block.type !== 'emom' && (
+              <button onClick={handleNext} aria-label="Next exercise" className="p-2 border border-primary text-primary hover:bg-primary hover:text-black transition-colors">
+                <SkipForward size={14} />
+              </button>
+            )}
+            <button onClick={() => resetBlock(blockId)} aria-label="Reset block" className="p-2 border border-[#333] text-[#888] hover:text-white transition-colors">
+              <RotateCcw size={14} />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkoutBlockPanel;
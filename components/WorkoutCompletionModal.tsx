@@ -6,6 +6,7 @@ import { WorkoutSummaryResponse } from '../services/ai/types';
 import { getAngularClipPath } from '../utils/achievementUtils';
 import { useFocusTrap } from '../hooks/useFocusTrap';
 import { CornerBrackets } from './ui/CornerBrackets';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface WorkoutCompletionModalProps {
   workout: WorkoutSession;
@@ -184,7 +185,7 @@ export const WorkoutCompletionModal: React.FC<WorkoutCompletionModalProps> = ({
               <span className="text-[10px] text-zinc-500 uppercase font-bold">Volume</span>
             </div>
             <div className="text-lg font-black font-mono text-white">
-              {Math.round(totalVolume).toLocaleString()} {settings.units}
+              {Math.round(toDisplayWeight(totalVolume, settings.units)).toLocaleString()} {settings.units}
             </div>
           </div>
 
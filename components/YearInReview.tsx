@@ -3,6 +3,7 @@ import { X, Calendar, Dumbbell, Trophy, Flame, TrendingUp, Zap, Target, ChevronL
 import { useStore } from '../store/useStore';
 import { EXERCISE_LIBRARY } from '../constants';
 import { haptic } from '../services/haptics';
+import { toDisplayWeight } from '../utils/conversions';
 
 interface YearStats {
   totalWorkouts: number;
@@ -36,6 +37,7 @@ const SLIDE_COLORS = [
 
 export const YearInReview: React.FC<{ year?: number; onClose: () => void }> = ({ year = new Date().getFullYear(), onClose }) => {
   const { history, settings } = useStore();
+  const display = (kg: number) => toDisplayWeight(kg, settings.units);
   const [currentSlide, setCurrentSlide] = useState(0);
 
   // Calculate year stats
@@ -217,9 +219,9 @@ export const YearInReview: React.FC<{ year?: number; onClose: () => void }> = ({
         content: (
           <div className="text-center">
             <div className="text-6xl font-black italic text-white mb-2 animate-scale-in">
-              {(stats.totalVolume / 1000000).toFixed(1)}M
+              {(display(stats.totalVolume) / 1000000).toFixed(1)}M
             </div>
-            <p className="text-lg font-bold text-primary uppercase">Pounds Lifted</p>
+            <p className="text-lg font-bold text-primary uppercase">{settings.units === 'kg' ? 'Kilograms' : 'Pounds'} Lifted</p>
             <div className="grid grid-cols-2 gap-4 mt-8">
               <div className="bg-black/50 p-4 border border-[#333]">
                 <div className="text-2xl font-black italic text-white">{stats.totalSets}</div>
@@ -274,8 +276,8 @@ export const YearInReview: React.FC<{ year?: number; onClose: () => void }> = ({
               {stats.strongestLift.name}
             </div>
             <div className="text-5xl font-black italic text-primary">
-              {stats.strongestLift.weight}
-              <span className="text-lg text-white ml-2">LBS</span>
+              {display(stats.strongestLift.weight)}
+              <span className="text-lg text-white ml-2">{settings.units.toUpperCase()}</span>
             </div>
             <p className="text-sm text-[#666] mt-2">x{stats.strongestLift.reps} reps</p>
           </div>
@@ -312,7 +314,7 @@ export const YearInReview: React.FC<{ year?: number; onClose: () => void }> = ({
                   </div>
                   <div className="flex-1">
                     <div className="text-sm font-bold text-white uppercase">{ex.name}</div>
-                    <div className="text-[10px] text-[#666]">{ex.sessions} sessions • {(ex.volume / 1000).toFixed(0)}K lbs</div>
+                    <div className="text-[10px] text-[#666]">{ex.sessions} sessions • {(display(ex.volume) / 1000).toFixed(0)}K {settings.units}</div>
                   </div>
                 </div>
               ))}
@@ -359,7 +361,7 @@ export const YearInReview: React.FC<{ year?: number; onClose: () => void }> = ({
                 <div className="text-[8px] text-[#666] uppercase">Workouts</div>
               </div>
               <div className="bg-black/50 p-3 border border-primary/30">
-                <div className="text-xl font-black italic text-primary">{(stats.totalVolume / 1000000).toFixed(1)}M</div>
+                <div className="text-xl font-black italic text-primary">{(display(stats.totalVolume) / 1000000).toFixed(1)}M</div>
                 <div className="text-[8px] text-[#666] uppercase">Volume</div>
               </div>
               <div className="bg-black/50 p-3 border border-primary/30">
@@ -0,0 +1,79 @@
+/**
+ * WeeklyChallengeCard Component
+ *
+ * Dashboard card for this week's challenge: target, progress bar,
+ * XP reward and time left. Starts a new challenge when the last one expired.
+ */
+
+import React, { useEffect } from 'react';
+import { Target, CheckCircle2, Zap } from 'lucide-react';
+import { useStore } from '../../store/useStore';
+import { toDisplayWeight } from '../../utils/conversions';
+
+const formatTimeLeft = (ms: number): string => {
+  const hours = Math.max(0, Math.floor(ms / (60 * 60 * 1000)));
+  if (hours >= 24) return `${Math.floor(hours / 24)}D LEFT`;
+  return `${hours}H LEFT`;
+};
+
+export const WeeklyChallengeCard: React.FC = () => {
+  const challenge = useStore(state => state.gamification.weeklyChallenge);
+  const refreshWeeklyChallenge = useStore(state => state.refreshWeeklyChallenge);
+  const units = useStore(state => state.settings.units);
+
+  useEffect(() => {
+    refreshWeeklyChallenge();
+  }, [refreshWeeklyChallenge]);
+
+  if (!challenge?.metric) return null;
+
+  const isComplete = !!challenge.completedAt;
+  const percent = Math.min(100, Math.round((challenge.progress / challenge.target) * 100));
+  // Volume is tracked in kg
+  const display = (value: number) =>
+    Math.round(challenge.metric === 'volume' ? toDisplayWeight(value, units) : value).toLocaleString();
+
+  return (
+    <div className={`bg-[#111] border p-4 ${isComplete ? 'border-primary/50' : 'border-[#222]'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          {isComplete ? (
+            <CheckCircle2 size={16} className="text-primary" />
+          ) : (
+            <Target size={16} className="text-[#666]" />
+          )}
+          <span className="text-[10px] font-bold text-[#666] uppercase tracking-widest">Weekly Challenge</span>
+        </div>
+        <span className="text-[10px] font-mono text-[#666] uppercase">
+          {isComplete ? 'COMPLETE' : formatTimeLeft(challenge.expiresAt - Date.now())}
+        </span>
+      </div>
+
+      <div className="text-white font-black italic text-lg uppercase leading-tight">{challenge.name}</div>
+      <p className="text-[10px] text-[#888] font-mono uppercase mt-1">{challenge.description}</p>
+
+      <div className="mt-3 h-2 bg-zinc-900 border border-zinc-800">
+        <div
+          className="h-full bg-primary transition-all duration-500"
+          style={{ width: `${percent}%` }}
+          role="progressbar"
+          aria-valuenow={challenge.progress}
+          aria-valuemin={0}
+          aria-valuemax={challenge.target}
+          aria-label={`${challenge.name} progress`}
+        />
+      </div>
+
+      <div className="flex justify-between items-center mt-2">
+        <span className="text-xs text-white font-mono font-bold">
+          {display(challenge.progress)}
+          <span className="text-zinc-600"> / {display(challenge.target)}</span>
+        </span>
+        <span className={`flex items-center gap-1 text-xs font-mono font-bold ${isComplete ? 'text-primary' : 'text-zinc-500'}`}>
+          <Zap size={12} fill="currentColor" />
+          {isComplete ? `+${challenge.xpReward}` : challenge.xpReward} XP
+        </span>
+      </div>
+    </div>
+  );
+};
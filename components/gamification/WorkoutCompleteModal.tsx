@@ -305,6 +305,7 @@ export const WorkoutCompleteModal: React.FC<WorkoutCompleteModalProps> = ({
           totalXP={totalXP}
           streak={streakCurrent}
           prsHit={prsHit}
+          units={settings.units}
         />
       )}
     </div>
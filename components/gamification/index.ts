@@ -8,3 +8,4 @@ export { RankBadge } from './RankBadge';
 export { XPBar } from './XPBar';
 export { StreakDisplay } from './StreakDisplay';
 export { WorkoutCompleteModal } from './WorkoutCompleteModal';
+export { WeeklyChallengeCard } from './WeeklyChallengeCard';
@@ -11,6 +11,7 @@ import { WorkoutSession } from '../../types';
 import { WorkoutXPResult } from '../../services/gamification';
 import ShareableWorkoutCard from './ShareableWorkoutCard';
 import { useShare } from './useShare';
+import { WeightUnit } from '../../utils/conversions';
 
 interface ShareModalProps {
   isOpen: boolean;
@@ -21,6 +22,7 @@ interface ShareModalProps {
   totalXP?: number;
   streak?: number;
   prsHit?: number;
+  units?: WeightUnit;
 }
 
 type CardVariant = 'dark' | 'neon' | 'minimal';
@@ -34,6 +36,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
   totalXP = 0,
   streak = 0,
   prsHit = 0,
+  units = 'lbs',
 }) => {
   const cardRef = useRef<HTMLDivElement>(null);
   const [variant, setVariant] = useState<CardVariant>('neon');
@@ -139,6 +142,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
               streak={streak}
               prsHit={prsHit}
               variant={variant}
+              units={units}
             />
           </div>
         </div>
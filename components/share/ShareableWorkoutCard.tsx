@@ -10,6 +10,7 @@ import { Zap, Trophy, Clock, Dumbbell, Target, Flame } from 'lucide-react';
 import { WorkoutSession } from '../../types';
 import { WorkoutXPResult, getRankForXP } from '../../services/gamification';
 import { EXERCISE_LIBRARY } from '../../constants';
+import { toDisplayWeight, WeightUnit } from '../../utils/conversions';
 
 interface ShareableWorkoutCardProps {
   workout: WorkoutSession;
@@ -19,10 +20,11 @@ interface ShareableWorkoutCardProps {
   streak?: number;
   prsHit?: number;
   variant?: 'dark' | 'neon' | 'minimal';
+  units?: WeightUnit;
 }
 
 export const ShareableWorkoutCard = forwardRef<HTMLDivElement, ShareableWorkoutCardProps>(
-  ({ workout, xpResult, userName = 'Athlete', totalXP = 0, streak = 0, prsHit = 0, variant = 'neon' }, ref) => {
+  ({ workout, xpResult, userName = 'Athlete', totalXP = 0, streak = 0, prsHit = 0, variant = 'neon', units = 'lbs' as const }, ref) => {
     // Calculate workout stats
     const duration = workout.endTime && workout.startTime
       ? Math.floor((workout.endTime - workout.startTime) / 1000 / 60)
@@ -35,11 +37,11 @@ export const ShareableWorkoutCard = forwardRef<HTMLDivElement, ShareableWorkoutC
       0
     );
 
-    const totalVolume = workout.logs.reduce((total, log) => {
+    const totalVolume = Math.round(toDisplayWeight(workout.logs.reduce((total, log) => {
       return total + log.sets
         .filter(s => s.completed && s.type !== 'W')
         .reduce((sum, set) => sum + (set.weight * set.reps), 0);
-    }, 0);
+    }, 0), units));
 
     // Get exercise names for display (top 3)
     const exerciseNames = workout.logs.slice(0, 3).map(log => {
@@ -197,7 +199,7 @@ export const ShareableWorkoutCard = forwardRef<HTMLDivElement, ShareableWorkoutC
             icon={<Zap size={14} color={colors.highlight} />}
             label="VOLUME"
             value={totalVolume >= 1000 ? `${(totalVolume / 1000).toFixed(1)}K` : `${totalVolume}`}
-            unit="LBS"
+            unit={units.toUpperCase()}
             colors={colors}
           />
         </div>
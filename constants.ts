@@ -1,5 +1,5 @@
 
-import { Exercise, WorkoutSession, Program } from './types';
+import { Exercise, WorkoutSession, Program, ExerciseProgressionRule, ProgressionRule, UnitLoad } from './types';
 
 export const EXERCISE_LIBRARY: Exercise[] = [
   {
@@ -240,6 +240,7 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     equipment: 'Bodyweight', 
     category: 'Bodyweight',
     difficulty: 'Beginner',
+    metric: 'duration',
     formGuide: [
       "Assume push-up position but on forearms.",
       "Keep body in straight line from head to heels.",
@@ -865,7 +866,7 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     tips: ["Ultimate single leg test", "Requires flexibility"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=PISTOL+SQUAT" },
 
-  { id: 'e90', name: 'Wall Sit', muscleGroup: 'Legs', secondaryMuscles: [], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Beginner',
+  { id: 'e90', name: 'Wall Sit', muscleGroup: 'Legs', secondaryMuscles: [], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Beginner', metric: 'duration',
     formGuide: ["Back against wall", "Squat to 90 degrees", "Hold position", "Maintain tension"],
     commonMistakes: ["Not deep enough", "Feet too close", "Giving up too early"],
     tips: ["Quad endurance", "Timed holds"],
@@ -950,7 +951,7 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     tips: ["Core stability", "Deceptively hard"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=DEAD+BUG" },
 
-  { id: 'e104', name: 'L-Sit', muscleGroup: 'Core', secondaryMuscles: ['Shoulders'], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Advanced',
+  { id: 'e104', name: 'L-Sit', muscleGroup: 'Core', secondaryMuscles: ['Shoulders'], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Advanced', metric: 'duration',
     formGuide: ["Support on hands", "Legs straight out", "Hold position", "Keep shoulders down"],
     commonMistakes: ["Bending legs", "Rounding shoulders", "Not holding long enough"],
     tips: ["Gymnastic hold", "Incredible core strength"],
@@ -986,19 +987,19 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     tips: ["Balance and stability", "Rehab exercise"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=BIRD+DOG" },
 
-  { id: 'e110', name: 'Side Plank', muscleGroup: 'Core', secondaryMuscles: [], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Beginner',
+  { id: 'e110', name: 'Side Plank', muscleGroup: 'Core', secondaryMuscles: [], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Beginner', metric: 'duration',
     formGuide: ["Lie on side", "Prop on elbow", "Lift hips", "Hold straight line"],
     commonMistakes: ["Sagging hips", "Not stacking feet", "Rolling forward/back"],
     tips: ["Oblique strength", "Timed holds"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=SIDE+PLANK" },
 
-  { id: 'e111', name: 'Plank', muscleGroup: 'Core', secondaryMuscles: ['Shoulders'], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Beginner',
+  { id: 'e111', name: 'Plank', muscleGroup: 'Core', secondaryMuscles: ['Shoulders'], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Beginner', metric: 'duration',
     formGuide: ["Forearms on ground", "Straight body", "Squeeze glutes", "Hold position"],
     commonMistakes: ["Sagging hips", "Butt too high", "Not breathing"],
     tips: ["Core foundation", "Time under tension"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=PLANK" },
 
-  { id: 'e112', name: 'Hollow Body Hold', muscleGroup: 'Core', secondaryMuscles: [], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Intermediate',
+  { id: 'e112', name: 'Hollow Body Hold', muscleGroup: 'Core', secondaryMuscles: [], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Intermediate', metric: 'duration',
     formGuide: ["Lie on back", "Arms overhead", "Legs straight", "Lift shoulders and legs"],
     commonMistakes: ["Arching back", "Bending knees", "Not holding long enough"],
     tips: ["Gymnastic fundamental", "Press lower back down"],
@@ -1214,25 +1215,25 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     tips: ["Full body cardio", "CrossFit staple"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=BURPEE" },
 
-  { id: 'e147', name: 'Rowing Machine', muscleGroup: 'Cardio', secondaryMuscles: ['Back', 'Legs'], equipment: 'Machine', category: 'Compound', difficulty: 'Beginner',
+  { id: 'e147', name: 'Rowing Machine', muscleGroup: 'Cardio', secondaryMuscles: ['Back', 'Legs'], equipment: 'Machine', category: 'Compound', difficulty: 'Beginner', metric: 'distance_duration',
     formGuide: ["Drive with legs", "Pull to chest", "Extend arms first", "Then bend knees"],
     commonMistakes: ["Arms then legs", "Not using legs enough", "Hunched back"],
     tips: ["Full body cardio", "Low impact"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=ROWER" },
 
-  { id: 'e148', name: 'Assault Bike', muscleGroup: 'Cardio', secondaryMuscles: ['Arms', 'Legs'], equipment: 'Machine', category: 'Compound', difficulty: 'Intermediate',
+  { id: 'e148', name: 'Assault Bike', muscleGroup: 'Cardio', secondaryMuscles: ['Arms', 'Legs'], equipment: 'Machine', category: 'Compound', difficulty: 'Intermediate', metric: 'distance_duration',
     formGuide: ["Push and pull handles", "Pedal hard", "Full body effort", "Pace yourself"],
     commonMistakes: ["Not using arms", "Starting too fast", "Poor breathing"],
     tips: ["Brutal cardio", "Scales with effort"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=ASSAULT+BIKE" },
 
-  { id: 'e149', name: 'Jump Rope', muscleGroup: 'Cardio', secondaryMuscles: ['Legs'], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Beginner',
+  { id: 'e149', name: 'Jump Rope', muscleGroup: 'Cardio', secondaryMuscles: ['Legs'], equipment: 'Bodyweight', category: 'Isolation', difficulty: 'Beginner', metric: 'duration',
     formGuide: ["Stay on toes", "Small jumps", "Wrist rotation", "Rhythm important"],
     commonMistakes: ["Jumping too high", "Arm movement too big", "Poor rhythm"],
     tips: ["Great warm-up", "Coordination builder"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=JUMP+ROPE" },
 
-  { id: 'e150', name: 'Battle Ropes', muscleGroup: 'Cardio', secondaryMuscles: ['Shoulders', 'Core'], equipment: 'Bodyweight', category: 'Compound', difficulty: 'Intermediate',
+  { id: 'e150', name: 'Battle Ropes', muscleGroup: 'Cardio', secondaryMuscles: ['Shoulders', 'Core'], equipment: 'Bodyweight', category: 'Compound', difficulty: 'Intermediate', metric: 'duration',
     formGuide: ["Grip rope ends", "Create waves", "Maintain intensity", "Various patterns"],
     commonMistakes: ["Too much arm", "Not using hips", "Stopping too early"],
     tips: ["Conditioning and power", "Timed intervals"],
@@ -1288,13 +1289,13 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=TURKISH+GETUP" },
 
   // === FUNCTIONAL & ATHLETIC (10) ===
-  { id: 'e159', name: 'Farmers Walk', muscleGroup: 'Core', secondaryMuscles: ['Arms', 'Legs', 'Back'], equipment: 'Dumbbell', category: 'Compound', difficulty: 'Beginner',
+  { id: 'e159', name: 'Farmers Walk', muscleGroup: 'Core', secondaryMuscles: ['Arms', 'Legs', 'Back'], equipment: 'Dumbbell', category: 'Compound', difficulty: 'Beginner', metric: 'weight_distance',
     formGuide: ["Hold heavy weights at sides", "Walk with good posture", "Squeeze grip", "Keep shoulders back"],
     commonMistakes: ["Leaning forward", "Shrugging shoulders", "Short strides"],
     tips: ["Grip and core strength", "Functional movement"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=FARMERS+WALK" },
 
-  { id: 'e160', name: 'Sled Push', muscleGroup: 'Legs', secondaryMuscles: ['Core'], equipment: 'Machine', category: 'Compound', difficulty: 'Beginner',
+  { id: 'e160', name: 'Sled Push', muscleGroup: 'Legs', secondaryMuscles: ['Core'], equipment: 'Machine', category: 'Compound', difficulty: 'Beginner', metric: 'weight_distance',
     formGuide: ["Low body position", "Drive through legs", "Push hard", "Maintain pace"],
     commonMistakes: ["Standing too upright", "Not using full leg drive", "Inconsistent pace"],
     tips: ["No eccentric damage", "Great for conditioning"],
@@ -1312,7 +1313,7 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     tips: ["Strongman training", "Total body power"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=TIRE+FLIP" },
 
-  { id: 'e163', name: 'Prowler Sprint', muscleGroup: 'Cardio', secondaryMuscles: ['Legs'], equipment: 'Machine', category: 'Compound', difficulty: 'Intermediate',
+  { id: 'e163', name: 'Prowler Sprint', muscleGroup: 'Cardio', secondaryMuscles: ['Legs'], equipment: 'Machine', category: 'Compound', difficulty: 'Intermediate', metric: 'weight_distance',
     formGuide: ["Load sled", "Sprint hard", "Drive through legs", "Short distances"],
     commonMistakes: ["Too much weight", "Too long distance", "Poor recovery"],
     tips: ["Explosive conditioning", "Speed development"],
@@ -1336,7 +1337,7 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     tips: ["Stress relief", "Explosive power"],
     gifUrl: "https://placehold.co/600x400/000000/ccff00?text=BALL+SLAM" },
 
-  { id: 'e167', name: 'Sandbag Carry', muscleGroup: 'Core', secondaryMuscles: ['Legs', 'Back'], equipment: 'Bodyweight', category: 'Compound', difficulty: 'Intermediate',
+  { id: 'e167', name: 'Sandbag Carry', muscleGroup: 'Core', secondaryMuscles: ['Legs', 'Back'], equipment: 'Bodyweight', category: 'Compound', difficulty: 'Intermediate', metric: 'weight_distance',
     formGuide: ["Pick up sandbag", "Hold at chest or shoulder", "Walk distance", "Maintain posture"],
     commonMistakes: ["Leaning too far", "Dropping bag", "Not engaging core"],
     tips: ["Functional strength", "Odd object training"],
@@ -1586,9 +1587,9 @@ export const MOCK_HISTORY: WorkoutSession[] = [
         id: 'l1',
         exerciseId: 'e1',
         sets: [
-          { id: 's1', reps: 8, weight: 135, completed: true, rpe: 7, type: 'N' },
-          { id: 's2', reps: 8, weight: 135, completed: true, rpe: 8, type: 'N' },
-          { id: 's3', reps: 8, weight: 135, completed: true, rpe: 9, type: 'N' },
+          { id: 's1', reps: 8, weight: 60, completed: true, rpe: 7, type: 'N' },
+          { id: 's2', reps: 8, weight: 60, completed: true, rpe: 8, type: 'N' },
+          { id: 's3', reps: 8, weight: 60, completed: true, rpe: 9, type: 'N' },
         ]
       }
     ]
@@ -2155,6 +2156,122 @@ export const INITIAL_TEMPLATES: WorkoutSession[] = [
   }
 ];
 
+// --- PROGRESSION RULES ---
+// Attached to the programs below and evaluated after each session (services/programProgression.ts)
+
+const UPPER_JUMP: UnitLoad = { kg: 2.5, lbs: 5 };
+const LOWER_JUMP: UnitLoad = { kg: 5, lbs: 10 };
+const PLATE_ROUNDING: UnitLoad = { kg: 2.5, lbs: 5 };
+
+const linear = (sets: number, reps: number, increment: UnitLoad, failuresBeforeReset = 3, resetPercent = 0.9): ProgressionRule =>
+    ({ type: 'linear', sets, reps, increment, failuresBeforeReset, resetPercent });
+
+const double = (sets: number, minReps: number, maxReps: number, increment: UnitLoad = UPPER_JUMP): ProgressionRule =>
+    ({ type: 'double', sets, minReps, maxReps, increment });
+
+const rpe = (sets: number, reps: number, targetRPE = 8): ProgressionRule =>
+    ({ type: 'rpe', sets, reps, targetRPE, loadPerRPE: 0.04, rounding: PLATE_ROUNDING });
+
+// StrongLifts: +2.5kg every session (deadlift +5kg), deload 10% after 3 failed sessions
+const STRONGLIFTS_RULES: ExerciseProgressionRule[] = [
+    { id: 'sl_squat', exerciseId: 'e4', rule: linear(5, 5, UPPER_JUMP) },
+    { id: 'sl_bench', exerciseId: 'e1', rule: linear(5, 5, UPPER_JUMP) },
+    { id: 'sl_row', exerciseId: 'e19', rule: linear(5, 5, UPPER_JUMP) },
+    { id: 'sl_ohp', exerciseId: 'e16', rule: linear(5, 5, UPPER_JUMP) },
+    { id: 'sl_deadlift', exerciseId: 'e5', rule: linear(1, 5, LOWER_JUMP) },
+];
+
+// Reddit PPL: linear main lifts, 3x8-12 double progression accessories
+const PPL_RULES: ExerciseProgressionRule[] = [
+    { id: 'ppl_bench', exerciseId: 'e1', rule: linear(5, 5, UPPER_JUMP) },
+    { id: 'ppl_squat', exerciseId: 'e4', rule: linear(3, 5, UPPER_JUMP) },
+    { id: 'ppl_deadlift', exerciseId: 'e5', rule: linear(1, 5, LOWER_JUMP) },
+    { id: 'ppl_ohp', exerciseId: 'e16', rule: double(3, 8, 12) },
+    { id: 'ppl_incline', exerciseId: 'e2', rule: double(3, 8, 12) },
+    { id: 'ppl_lateral', exerciseId: 'e12', rule: double(3, 15, 20) },
+    { id: 'ppl_triceps', exerciseId: 'e7', rule: double(3, 8, 12) },
+    { id: 'ppl_pulldown', exerciseId: 'e18', rule: double(3, 8, 12) },
+    { id: 'ppl_row', exerciseId: 'e19', rule: double(3, 8, 12) },
+    { id: 'ppl_face_pull', exerciseId: 'e14', rule: double(3, 15, 20) },
+    { id: 'ppl_hammer_curl', exerciseId: 'e15', rule: double(3, 8, 12) },
+    { id: 'ppl_rdl', exerciseId: 'e11', rule: double(3, 8, 12) },
+    { id: 'ppl_leg_press', exerciseId: 'e13', rule: double(3, 8, 12, LOWER_JUMP) },
+    { id: 'ppl_leg_extension', exerciseId: 'e9', rule: double(3, 8, 12) },
+    { id: 'ppl_calf', exerciseId: 'e20', rule: double(3, 8, 12) },
+];
+
+// Arnold Golden Six: add weight only once every set reaches 12 reps
+const ARNOLD_RULES: ExerciseProgressionRule[] = [
+    { id: 'arnold_squat', exerciseId: 'e4', rule: double(4, 8, 12, LOWER_JUMP) },
+    { id: 'arnold_bench', exerciseId: 'e1', rule: double(3, 8, 12) },
+    { id: 'arnold_ohp', exerciseId: 'e16', rule: double(4, 8, 12) },
+    { id: 'arnold_curl', exerciseId: 'e8', rule: double(3, 8, 12) },
+];
+
+// GZCLP tiers: T1 5x3 -> 6x2 -> 10x1, T2 3x10 -> 3x8 -> 3x6, then restart at 85%; T3 3x15-25
+const gzclpT1 = (increment: UnitLoad): ProgressionRule => ({
+    type: 'linear', sets: 5, reps: 3, increment, failuresBeforeReset: 1, resetPercent: 0.85,
+    failureStages: [{ sets: 6, reps: 2 }, { sets: 10, reps: 1 }],
+});
+const gzclpT2 = (increment: UnitLoad): ProgressionRule => ({
+    type: 'linear', sets: 3, reps: 10, increment, failuresBeforeReset: 1, resetPercent: 0.85,
+    failureStages: [{ sets: 3, reps: 8 }, { sets: 3, reps: 6 }],
+});
+const GZCLP_RULES: ExerciseProgressionRule[] = [
+    { id: 'gzclp_t1_squat', exerciseId: 'e4', templateIds: ['gzclp_day1'], rule: gzclpT1(LOWER_JUMP) },
+    { id: 'gzclp_t1_ohp', exerciseId: 'e16', templateIds: ['gzclp_day2'], rule: gzclpT1(UPPER_JUMP) },
+    { id: 'gzclp_t1_bench', exerciseId: 'e1', templateIds: ['gzclp_day3'], rule: gzclpT1(UPPER_JUMP) },
+    { id: 'gzclp_t1_deadlift', exerciseId: 'e5', templateIds: ['gzclp_day4'], rule: gzclpT1(LOWER_JUMP) },
+    { id: 'gzclp_t2_bench', exerciseId: 'e1', templateIds: ['gzclp_day1'], rule: gzclpT2(UPPER_JUMP) },
+    { id: 'gzclp_t2_deadlift', exerciseId: 'e5', templateIds: ['gzclp_day2'], rule: gzclpT2(LOWER_JUMP) },
+    { id: 'gzclp_t2_squat', exerciseId: 'e4', templateIds: ['gzclp_day3'], rule: gzclpT2(LOWER_JUMP) },
+    { id: 'gzclp_t2_ohp', exerciseId: 'e16', templateIds: ['gzclp_day4'], rule: gzclpT2(UPPER_JUMP) },
+    { id: 'gzclp_t3_pulldown', exerciseId: 'e18', rule: double(3, 15, 25) },
+    { id: 'gzclp_t3_row', exerciseId: 'e19', rule: double(3, 15, 25) },
+];
+
+// Evidence-Based Hypertrophy: compounds autoregulated at RPE 8, accessories double progression
+// Deload templates have no rules so their light sessions don't move the loads
+const EBH_TEMPLATES = ['ebh_upper_a', 'ebh_lower_a', 'ebh_upper_b', 'ebh_lower_b'];
+const ebh = (id: string, exerciseId: string, rule: ProgressionRule): ExerciseProgressionRule =>
+    ({ id, exerciseId, templateIds: EBH_TEMPLATES, rule });
+const EVIDENCE_HYPERTROPHY_RULES: ExerciseProgressionRule[] = [
+    ebh('ebh_bench', 'e1', rpe(3, 10)),
+    ebh('ebh_row', 'e19', rpe(3, 10)),
+    ebh('ebh_ohp', 'e16', rpe(3, 8)),
+    ebh('ebh_squat', 'e4', rpe(4, 8)),
+    ebh('ebh_rdl', 'e11', rpe(3, 10)),
+    ebh('ebh_incline', 'e2', double(3, 8, 12)),
+    ebh('ebh_pulldown', 'e18', double(3, 8, 12)),
+    ebh('ebh_db_press', 'e6', double(3, 8, 12)),
+    ebh('ebh_lateral', 'e12', double(3, 12, 15)),
+    ebh('ebh_curl', 'e8', double(2, 10, 15)),
+    ebh('ebh_leg_press', 'e13', double(3, 10, 15, LOWER_JUMP)),
+    ebh('ebh_leg_extension', 'e9', double(3, 12, 15)),
+    ebh('ebh_calf', 'e20', double(3, 12, 15)),
+    ebh('ebh_fly', 'e24', double(3, 10, 15)),
+    ebh('ebh_face_pull', 'e14', double(3, 12, 15)),
+    ebh('ebh_triceps', 'e7', double(3, 10, 15)),
+];
+
+// 5/3/1 wave: 5s, 3s, 5/3/1 at 65-95% of the training max, last set AMRAP
+const WAVE_531 = [
+    { reps: [5, 5, 5], percentages: [0.65, 0.75, 0.85] },
+    { reps: [3, 3, 3], percentages: [0.70, 0.80, 0.90] },
+    { reps: [5, 3, 1], percentages: [0.75, 0.85, 0.95] },
+];
+const wave531 = (weeks: typeof WAVE_531, trainingMaxIncrement: UnitLoad): ProgressionRule =>
+    ({ type: 'wave', weeks, trainingMaxIncrement, resetPercent: 0.9, rounding: PLATE_ROUNDING });
+const wendlerRules = (prefix: string, weeks: typeof WAVE_531): ExerciseProgressionRule[] => [
+    { id: `${prefix}_squat`, exerciseId: 'e4', rule: wave531(weeks, LOWER_JUMP) },
+    { id: `${prefix}_bench`, exerciseId: 'e1', rule: wave531(weeks, UPPER_JUMP) },
+    { id: `${prefix}_deadlift`, exerciseId: 'e5', rule: wave531(weeks, LOWER_JUMP) },
+    { id: `${prefix}_ohp`, exerciseId: 'e16', rule: wave531(weeks, UPPER_JUMP) },
+];
+// Beginners train each lift twice a week, so every week of the wave covers two sessions
+const WENDLER_BEGINNER_RULES = wendlerRules('531b', WAVE_531.flatMap(week => [week, week]));
+const WENDLER_BBB_RULES = wendlerRules('531bbb', WAVE_531);
+
 // --- FULL PROGRAMS ---
 export const INITIAL_PROGRAMS: Program[] = [
     {
@@ -2166,6 +2283,7 @@ export const INITIAL_PROGRAMS: Program[] = [
         splitType: 'PPL',
         difficulty: 'Intermediate',
         frequency: 6,
+        progressionRules: PPL_RULES,
         sessions: [
             // Week 1
             { templateId: 'ppl_push', week: 1, day: 1 },
@@ -2192,6 +2310,7 @@ export const INITIAL_PROGRAMS: Program[] = [
         splitType: 'Full Body',
         difficulty: 'Beginner',
         frequency: 3,
+        progressionRules: STRONGLIFTS_RULES,
         sessions: [
             // Week 1 (A-B-A)
             { templateId: 'sl5x5_a', week: 1, day: 1 },
@@ -2212,6 +2331,7 @@ export const INITIAL_PROGRAMS: Program[] = [
         splitType: 'Full Body',
         difficulty: 'Beginner',
         frequency: 3,
+        progressionRules: ARNOLD_RULES,
         sessions: [
             { templateId: 'arnold_a', week: 1, day: 1 },
             { templateId: 'arnold_a', week: 1, day: 3 },
@@ -2374,6 +2494,7 @@ export const INITIAL_PROGRAMS: Program[] = [
         splitType: 'Upper/Lower',
         difficulty: 'Intermediate',
         frequency: 4,
+        progressionRules: EVIDENCE_HYPERTROPHY_RULES,
         sessions: [
             // MESOCYCLE 1: WEEKS 1-4 (MEV → MAV → MAV+ → DELOAD)
             // Week 1: MEV (Minimum Effective Volume)
@@ -2443,6 +2564,7 @@ export const INITIAL_PROGRAMS: Program[] = [
         splitType: 'Full Body',
         difficulty: 'Beginner',
         frequency: 4,
+        progressionRules: GZCLP_RULES,
         supportedFrequencies: [3, 4],
         frequencyVariants: {
             3: {
@@ -2714,6 +2836,7 @@ export const INITIAL_PROGRAMS: Program[] = [
         splitType: 'Full Body',
         difficulty: 'Beginner',
         frequency: 3,
+        progressionRules: WENDLER_BEGINNER_RULES,
         sessions: [
             // Week 1
             { templateId: '531_day1', week: 1, day: 1 },
@@ -2802,6 +2925,7 @@ export const INITIAL_PROGRAMS: Program[] = [
         splitType: 'Upper/Lower',
         difficulty: 'Intermediate',
         frequency: 4,
+        progressionRules: WENDLER_BBB_RULES,
         sessions: [
             // Week 1 - 5's Week (65%, 75%, 85%)
             { templateId: '531_squat_day', week: 1, day: 1 },
@@ -0,0 +1,27 @@
+/**
+ * useHeartRateMonitor Hook
+ *
+ * Exposes the shared Bluetooth heart rate monitor state to components
+ * and re-renders on connection changes and new readings.
+ */
+
+import { useEffect, useState } from 'react';
+import { heartRateMonitor, HeartRateState } from '../services/heartRateService';
+
+/**
+ * Usage:
+ * ```tsx
+ * const { state, connect, disconnect } = useHeartRateMonitor();
+ * ```
+ */
+export function useHeartRateMonitor() {
+  const [state, setState] = useState<HeartRateState>(heartRateMonitor.state);
+
+  useEffect(() => heartRateMonitor.subscribe(setState), []);
+
+  return {
+    state,
+    connect: () => heartRateMonitor.connect(),
+    disconnect: () => heartRateMonitor.disconnect(),
+  };
+}
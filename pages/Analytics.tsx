@@ -11,6 +11,7 @@ import MuscleGroupVolumeChart from '../components/MuscleGroupVolumeChart';
 import VolumeBreakdownTable from '../components/VolumeBreakdownTable';
 import DetailedInsights from '../components/DetailedInsights';
 import RPETrendsChart from '../components/RPETrendsChart';
+import TrainingLoadChart from '../components/TrainingLoadChart';
 import WeeklyPlateauAnalysis from '../components/WeeklyPlateauAnalysis';
 import { ErrorBoundary } from '../components/ErrorBoundary';
 import {
@@ -22,6 +23,7 @@ import {
 } from '../services/progressionData';
 import { assessInjuryRisk, RiskLevel } from '../services/injuryRisk';
 import { forecastPR } from '../services/prForecasting';
+import { toAnalysisExperienceLevel } from '../utils/experienceLevel';
 
 const Analytics = () => {
   const { history, settings, dailyLogs } = useStore();
@@ -38,9 +40,10 @@ const Analytics = () => {
       selectedExerciseId,
       selectedExercise.name,
       history,
-      dateRange
+      dateRange,
+      settings.e1rmFormula
     );
-  }, [history, selectedExerciseId, dateRange]);
+  }, [history, selectedExerciseId, dateRange, settings.e1rmFormula]);
 
   // Get volume progression data
   const volumeData = useMemo(() => {
@@ -75,6 +78,8 @@ const Analytics = () => {
     }));
   }, [dailyLogs]);
 
+  const dailyLogList = useMemo(() => Object.values(dailyLogs), [dailyLogs]);
+
   // Injury risk assessment
   const injuryRiskAssessment = useMemo(() => {
     if (history.length < 3) return null;
@@ -90,10 +95,12 @@ const Analytics = () => {
       selectedExerciseId,
       selectedExercise.name,
       history,
-      settings.experienceLevel || 'intermediate',
-      8
+      toAnalysisExperienceLevel(settings.experienceLevel),
+      8,
+      settings.units,
+      settings.e1rmFormula
     );
-  }, [history, selectedExerciseId, settings.experienceLevel]);
+  }, [history, selectedExerciseId, settings.experienceLevel, settings.units, settings.e1rmFormula]);
 
   // 2. Prepare Data for Heatmap (Last 7 Days)
   const muscleIntensity = useMemo(() => {
@@ -378,6 +385,7 @@ const Analytics = () => {
           {progressionData && (
             <ProgressionChart
               progression={progressionData}
+              units={settings.units}
               color="#ccff00"
               height={300}
             />
@@ -388,6 +396,7 @@ const Analytics = () => {
             <VolumeChart
               data={volumeData}
               title="Total Volume Trend"
+              units={settings.units}
               color="#00d9ff"
               height={250}
             />
@@ -521,13 +530,14 @@ const Analytics = () => {
             <MuscleGroupVolumeChart
               distribution={muscleGroupDistribution}
               balanceScore={volumeBalance}
+              units={settings.units}
               height={300}
             />
           </div>
 
           {/* Weekly Volume Breakdown */}
           <div>
-            <VolumeBreakdownTable weeklyData={weeklyVolumeData} />
+            <VolumeBreakdownTable weeklyData={weeklyVolumeData} units={settings.units} />
           </div>
       </div>
 
@@ -536,13 +546,19 @@ const Analytics = () => {
         <RPETrendsChart />
       </div>
 
+      {/* Training Load Section */}
+      <div className="mb-8 border-t border-[#222] pt-8">
+        <TrainingLoadChart />
+      </div>
+
       {/* Detailed Insights Section */}
       <div className="mb-8 border-t border-[#222] pt-8">
         <DetailedInsights
           history={history}
-          dailyLogs={Object.values(dailyLogs)}
+          dailyLogs={dailyLogList}
           experienceLevel={settings.experienceLevel || 'intermediate'}
           selectedExerciseId={selectedExerciseId}
+          units={settings.units}
         />
       </div>
 
@@ -0,0 +1,345 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useStore } from '../store/useStore';
+import { ArrowLeft, Users, UserPlus, Copy, Check, Calendar, Send, Unlink, X, HeartPulse } from 'lucide-react';
+import { backend } from '../services/backend';
+import { createProgramPackage, serializeProgramPackage } from '../services/programPackage';
+import { AthleteSummary, formatInviteCode, summarizeAthlete } from '../services/coaching';
+import { haptic } from '../services/haptics';
+import { CoachInvite, CoachLink, ProgramAssignment, WorkoutSession } from '../types';
+import { toDisplayWeight } from '../utils/conversions';
+
+const READINESS_COLORS = {
+  green: 'text-green-500 border-green-500/40',
+  yellow: 'text-yellow-500 border-yellow-500/40',
+  red: 'text-red-500 border-red-500/40',
+};
+
+const ASSIGNMENT_LABELS: Record<ProgramAssignment['status'], string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+};
+
+/**
+ * Coach dashboard: invite athletes, review their sessions and readiness,
+ * and assign programs
+ */
+const Coach = () => {
+  const navigate = useNavigate();
+  const { programs, templates, customExercises, settings } = useStore();
+  const userId = backend.auth.user?.id;
+
+  const [links, setLinks] = useState<CoachLink[]>([]);
+  const [assignments, setAssignments] = useState<ProgramAssignment[]>([]);
+  const [histories, setHistories] = useState<Record<string, WorkoutSession[]>>({});
+  const [summaries, setSummaries] = useState<Record<string, AthleteSummary>>({});
+  const [selectedAthleteId, setSelectedAthleteId] = useState<string | null>(null);
+  const [invite, setInvite] = useState<CoachInvite | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [programId, setProgramId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const athletes = useMemo(() => links.filter(l => l.coachId === userId), [links, userId]);
+  const selected = athletes.find(a => a.athleteId === selectedAthleteId);
+
+  useEffect(() => {
+    if (!backend.auth.isLoggedIn) {
+      setLoading(false);
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const [allLinks, allAssignments] = await Promise.all([
+          backend.coaching.getLinks(),
+          backend.coaching.getAssignments(),
+        ]);
+        setLinks(allLinks);
+        setAssignments(allAssignments);
+
+        const coached = allLinks.filter(l => l.coachId === backend.auth.user?.id);
+        const data = await Promise.all(coached.map(async link => {
+          const [history, dailyLogs] = await Promise.all([
+            backend.coaching.getAthleteHistory(link.athleteId),
+            backend.coaching.getAthleteDailyLogs(link.athleteId),
+          ]);
+          return { athleteId: link.athleteId, history, summary: summarizeAthlete(history, dailyLogs) };
+        }));
+        setHistories(Object.fromEntries(data.map(d => [d.athleteId, d.history])));
+        setSummaries(Object.fromEntries(data.map(d => [d.athleteId, d.summary])));
+      } catch (err) {
+        console.error('Failed to load coaching data:', err);
+        setError('Could not load your athletes. Check your connection and try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const handleCreateInvite = async () => {
+    try {
+      setInvite(await backend.coaching.createInvite());
+      setCopied(false);
+      haptic('success');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create invite');
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    if (!invite) return;
+    await navigator.clipboard.writeText(formatInviteCode(invite.code));
+    setCopied(true);
+  };
+
+  const handleAssign = async () => {
+    const program = programs.find(p => p.id === programId);
+    if (!selected || !program) return;
+
+    try {
+      const pkg = createProgramPackage(program, { templates, customExercises });
+      const assignment = await backend.coaching.assignProgram(
+        selected.athleteId,
+        program.name,
+        serializeProgramPackage(pkg)
+      );
+      setAssignments([assignment, ...assignments]);
+      setProgramId('');
+      haptic('success');
+    } catch (err) {
+      haptic('error');
+      setError(err instanceof Error ? err.message : 'Could not assign program');
+    }
+  };
+
+  const handleUnlink = async (link: CoachLink) => {
+    if (!confirm(`Stop coaching ${link.athleteName || 'this athlete'}?`)) return;
+    try {
+      await backend.coaching.unlink(link.id);
+      setLinks(links.filter(l => l.id !== link.id));
+      setSelectedAthleteId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlink athlete');
+    }
+  };
+
+  if (!backend.auth.isLoggedIn) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen bg-black p-6 text-center">
+        <h1 className="text-white volt-header mb-4">COACH MODE</h1>
+        <p className="text-[#666] text-sm font-mono mb-6">Sign in to link athletes and review their training.</p>
+        <button onClick={() => navigate('/login')} className="text-primary underline">Sign In</button>
+      </div>
+    );
+  }
+
+  const athleteAssignments = assignments.filter(a => a.athleteId === selected?.athleteId);
+  const recentSessions = (selected && histories[selected.athleteId]?.slice(0, 10)) || [];
+  const summary = selected && summaries[selected.athleteId];
+
+  return (
+    <div className="min-h-screen bg-black p-6 pb-24 font-sans text-white">
+      {/* Nav */}
+      <div className="flex items-center gap-4 mb-8">
+        <button
+          onClick={() => (selected ? setSelectedAthleteId(null) : navigate('/profile'))}
+          className="w-10 h-10 border border-[#333] flex items-center justify-center hover:bg-[#111] transition-colors"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <span className="text-[10px] text-[#666] font-mono uppercase block">Coach</span>
+          <span className="text-xs font-bold uppercase tracking-widest text-primary">
+            {selected ? selected.athleteName || 'Athlete' : 'Athletes'}
+          </span>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-500/10 border border-red-500/30 p-3 flex items-start justify-between gap-3">
+          <p className="text-xs text-red-400 font-mono">{error}</p>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-white">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {!selected && (
+        <>
+          <div className="mb-6">
+            <h1 className="text-3xl volt-header uppercase italic leading-none mb-2">COACH MODE</h1>
+            <p className="text-[#888] text-sm font-mono">
+              {athletes.length} {athletes.length === 1 ? 'athlete' : 'athletes'} linked
+            </p>
+          </div>
+
+          {/* Invite */}
+          <div className="bg-[#111] border border-[#222] p-4 mb-6">
+            <div className="flex items-center gap-2 text-[#666] mb-3 text-[10px] uppercase font-bold tracking-widest">
+              <UserPlus size={12} /> Invite Athlete
+            </div>
+            {invite ? (
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-mono text-lg text-primary tracking-wider">{formatInviteCode(invite.code)}</span>
+                <button
+                  onClick={handleCopyInvite}
+                  className={`flex items-center gap-2 transition-colors ${copied ? 'text-green-500' : 'text-[#666] hover:text-primary'}`}
+                >
+                  {copied ? <Check size={16} /> : <Copy size={16} />}
+                  <span className="text-xs font-bold uppercase">{copied ? 'Copied' : 'Copy'}</span>
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleCreateInvite}
+                className="w-full py-3 border-2 border-[#222] hover:border-primary text-xs font-black italic uppercase tracking-[0.15em] text-white hover:text-primary transition-all min-h-[48px]"
+              >
+                Create Invite Code
+              </button>
+            )}
+            <p className="text-[10px] text-[#666] font-mono mt-3">
+              Athletes enter the code under Profile → Data → Coach. Linking gives you read access to their completed workouts and daily check-ins.
+            </p>
+          </div>
+
+          {/* Athletes */}
+          <h3 className="text-xs font-bold text-[#666] uppercase tracking-widest border-b border-[#222] pb-2 mb-4 flex items-center gap-2">
+            <Users size={14} /> Athletes
+          </h3>
+          {loading && <p className="text-[#666] text-xs font-mono uppercase animate-pulse">Loading...</p>}
+          {!loading && athletes.length === 0 && (
+            <p className="text-[#666] text-sm font-mono">No athletes yet. Share an invite code to get started.</p>
+          )}
+          <div className="space-y-2">
+            {athletes.map(link => {
+              const athleteSummary = summaries[link.athleteId];
+              const readiness = athleteSummary?.readiness;
+              return (
+                <button
+                  key={link.id}
+                  onClick={() => setSelectedAthleteId(link.athleteId)}
+                  className="w-full bg-[#111] border border-[#222] hover:border-primary p-4 flex items-center justify-between text-left transition-colors"
+                >
+                  <div>
+                    <div className="font-bold uppercase">{link.athleteName || 'Athlete'}</div>
+                    <div className="text-[10px] text-[#666] font-mono uppercase mt-1">
+                      {athleteSummary?.lastWorkoutAt
+                        ? `Last session ${new Date(athleteSummary.lastWorkoutAt).toLocaleDateString()}`
+                        : 'No sessions yet'}
+                      {' · '}
+                      {athleteSummary?.sessionsLast7Days ?? 0} this week
+                    </div>
+                  </div>
+                  {readiness && (
+                    <div className={`border px-2 py-1 text-xs font-black ${READINESS_COLORS[readiness.category]}`}>
+                      {readiness.score}
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {selected && (
+        <>
+          {/* Overview */}
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="bg-[#111] p-4 border border-[#222]">
+              <div className="flex items-center gap-2 text-[#666] mb-2 text-[10px] uppercase font-bold tracking-widest">
+                <Calendar size={12} /> Last 7 Days
+              </div>
+              <div className="text-2xl font-black italic">{summary?.sessionsLast7Days ?? 0} <span className="text-sm not-italic font-medium text-[#444]">SESSIONS</span></div>
+              <div className="text-[10px] text-[#666] font-mono mt-1">{Math.round(toDisplayWeight(summary?.volumeLast7Days ?? 0, settings.units) / 100) / 10}K {settings.units} volume</div>
+            </div>
+            <div className="bg-[#111] p-4 border border-[#222]">
+              <div className="flex items-center gap-2 text-[#666] mb-2 text-[10px] uppercase font-bold tracking-widest">
+                <HeartPulse size={12} /> Readiness
+              </div>
+              {summary?.readiness ? (
+                <>
+                  <div className={`text-2xl font-black italic ${READINESS_COLORS[summary.readiness.category].split(' ')[0]}`}>
+                    {summary.readiness.score}
+                  </div>
+                  <div className="text-[10px] text-[#666] font-mono mt-1">{summary.readiness.date}</div>
+                </>
+              ) : (
+                <div className="text-sm text-[#666] font-mono">No recent check-in</div>
+              )}
+            </div>
+          </div>
+          {summary?.readiness && (
+            <p className="text-xs text-[#888] font-mono mb-6">{summary.readiness.recommendation}</p>
+          )}
+
+          {/* Assign Program */}
+          <div className="bg-[#111] border border-[#222] p-4 mb-6">
+            <div className="flex items-center gap-2 text-[#666] mb-3 text-[10px] uppercase font-bold tracking-widest">
+              <Send size={12} /> Assign Program
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={programId}
+                onChange={(e) => setProgramId(e.target.value)}
+                className="flex-1 bg-black border border-[#333] px-3 py-2 text-white text-sm focus:border-primary outline-none"
+              >
+                <option value="">Select a program</option>
+                {programs.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAssign}
+                disabled={!programId}
+                className="px-4 bg-primary text-black font-bold uppercase text-xs hover:bg-white transition-colors disabled:opacity-50"
+              >
+                Send
+              </button>
+            </div>
+            {athleteAssignments.length > 0 && (
+              <div className="mt-3 space-y-1">
+                {athleteAssignments.map(a => (
+                  <div key={a.id} className="flex justify-between text-xs font-mono">
+                    <span className="text-[#ccc]">{a.programName}</span>
+                    <span className={a.status === 'accepted' ? 'text-primary' : 'text-[#666]'}>{ASSIGNMENT_LABELS[a.status]}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Sessions */}
+          <h3 className="text-xs font-bold text-[#666] uppercase tracking-widest border-b border-[#222] pb-2 mb-4">Recent Sessions</h3>
+          {recentSessions.length === 0 && <p className="text-[#666] text-sm font-mono mb-6">No completed sessions yet.</p>}
+          <div className="space-y-2 mb-8">
+            {recentSessions.map(session => (
+              <button
+                key={session.id}
+                onClick={() => navigate(`/coach/athlete/${selected.athleteId}/history/${session.id}`)}
+                className="w-full bg-[#0a0a0a] border-l-2 border-[#333] hover:border-primary pl-4 py-3 flex justify-between items-center text-left transition-colors"
+              >
+                <span className="font-bold uppercase italic">{session.name}</span>
+                <span className="text-[10px] text-[#666] font-mono uppercase pr-3">
+                  {new Date(session.startTime).toLocaleDateString()}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={() => handleUnlink(selected)}
+            className="w-full py-3 border border-red-900/50 text-red-500 text-xs font-bold uppercase tracking-wider flex items-center justify-center gap-2 hover:bg-red-500/10 transition-colors"
+          >
+            <Unlink size={14} /> Stop Coaching
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Coach;
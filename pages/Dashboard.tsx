@@ -13,14 +13,15 @@ import ResumeWorkoutBanner from '../components/ResumeWorkoutBanner';
 import { getPeriodizationStatus } from '../services/periodization';
 import { getQuickRecoveryStatus } from '../services/adaptiveRecovery';
 import { getTopWeakPoint } from '../services/workoutIntelligence';
+import { toAnalysisExperienceLevel } from '../utils/experienceLevel';
 import SmartInsightsPanel from '../components/SmartInsightsPanel';
 import DeloadAlert from '../components/DeloadAlert';
 import { RecoveryScoreCard } from '../components/RecoveryScoreCard';
 import { DailyWellnessCheckin } from '../components/DailyWellnessCheckin';
-import { RankBadge, XPBar, StreakDisplay } from '../components/gamification';
+import { RankBadge, XPBar, StreakDisplay, WeeklyChallengeCard } from '../components/gamification';
 
 const Dashboard = () => {
-  const { settings, history, activeWorkout, restTimerStart, restDuration, stopRestTimer, getFatigueStatus, programs, templates, startWorkout, resumeWorkout, syncStatus, logDailyBio, dailyLogs, getVolumeWarning } = useStore();
+  const { settings, history, activeWorkout, restTimerStart, restDuration, stopRestTimer, getFatigueStatus, programs, templates, startWorkout, resumeWorkout, deleteWorkout, syncStatus, logDailyBio, dailyLogs, getVolumeWarning } = useStore();
   const navigate = useNavigate();
   const [motivation, setMotivation] = useState("LOADING PROTOCOL...");
   const [elapsedTime, setElapsedTime] = useState(0);
@@ -57,8 +58,7 @@ const Dashboard = () => {
 
   const handleDiscardDraft = () => {
     if (draftWorkout && confirm('Discard this draft workout?')) {
-      const newHistory = history.filter(h => h.id !== draftWorkout.id);
-      // This will need a method in the store, but for now just using history filter
+      deleteWorkout(draftWorkout.id);
     }
   };
 
@@ -135,7 +135,7 @@ const Dashboard = () => {
       notes: log.notes || '',
       waterLitres: log.waterLitres
     }));
-    return getPeriodizationStatus(history, dailyLogsArray, settings.experienceLevel);
+    return getPeriodizationStatus(history, dailyLogsArray, toAnalysisExperienceLevel(settings.experienceLevel));
   }, [history, dailyLogs, settings.experienceLevel]);
 
   // Phase 3: Recovery Status
@@ -150,13 +150,13 @@ const Dashboard = () => {
       notes: log.notes || '',
       waterLitres: log.waterLitres
     }));
-    return getQuickRecoveryStatus(history, dailyLogsArray, settings.experienceLevel);
+    return getQuickRecoveryStatus(history, dailyLogsArray, toAnalysisExperienceLevel(settings.experienceLevel));
   }, [history, dailyLogs, settings.experienceLevel]);
 
   // Phase 3: Weak Point
   const topWeakPoint = useMemo(() => {
     if (history.length < 5) return null;
-    return getTopWeakPoint(history, settings.experienceLevel);
+    return getTopWeakPoint(history, toAnalysisExperienceLevel(settings.experienceLevel));
   }, [history, settings.experienceLevel]);
 
   useEffect(() => {
@@ -303,6 +303,8 @@ const Dashboard = () => {
         <XPBar showNumbers compact={false} />
       </div>
 
+      <WeeklyChallengeCard />
+
       {/* Stats Overview */}
       <div className="grid grid-cols-2 gap-2">
         {/* Primary Metric - Sessions This Week */}
@@ -538,6 +540,8 @@ const Dashboard = () => {
           personalRecords={settings.personalRecords}
           bodyweight={settings.bodyweight}
           gender={settings.gender}
+          units={settings.units}
+          formula={settings.e1rmFormula}
       />
 
       {/* Active Workout Banner */}
@@ -7,9 +7,11 @@ import EmptyState from '../components/EmptyState';
 import WorkoutCalendar from '../components/WorkoutCalendar';
 import { WorkoutSession } from '../types';
 import { formatDate, getDuration } from '../utils/formatters';
+import { fromDisplayWeight, toDisplayWeight } from '../utils/conversions';
 
 const History = () => {
-  const { history, templates } = useStore();
+  const { history, templates, settings } = useStore();
+  const unitLabel = settings.units.toUpperCase();
   const navigate = useNavigate();
 
   // Filter state
@@ -33,7 +35,7 @@ const History = () => {
     const volume = getTotalVolume(session);
     const totalSets = session.logs.reduce((sum, log) => sum + log.sets.filter(s => s.completed).length, 0);
     // Normalize: 50K lbs = 100%, 5 sets per exercise = bonus
-    const volumeScore = Math.min(volume / 50000 * 70, 70);
+    const volumeScore = Math.min(volume / fromDisplayWeight(50000, 'lbs') * 70, 70);
     const setsScore = Math.min(totalSets / session.logs.length * 5 * 30, 30);
     return Math.round(volumeScore + setsScore);
   };
@@ -166,8 +168,8 @@ const History = () => {
           <div className="bg-gradient-to-br from-[#111] to-black border-2 border-[#222] p-4 relative overflow-hidden group hover:border-primary/50 transition-all">
             <div className="absolute top-0 right-0 w-20 h-20 bg-primary/5 rounded-full -mr-10 -mt-10 group-hover:bg-primary/10 transition-all" />
             <Target className="text-primary/50 mb-2" size={18} strokeWidth={3} />
-            <div className="text-3xl font-black italic text-white">{(totalVolume / 1000).toFixed(0)}K</div>
-            <div className="text-[9px] font-bold text-[#666] uppercase tracking-widest mt-1">LBS MOVED</div>
+            <div className="text-3xl font-black italic text-white">{(toDisplayWeight(totalVolume, settings.units) / 1000).toFixed(0)}K</div>
+            <div className="text-[9px] font-bold text-[#666] uppercase tracking-widest mt-1">{unitLabel} MOVED</div>
           </div>
 
           {/* Current Streak */}
@@ -414,7 +416,7 @@ const History = () => {
                       </div>
                       <div className="flex items-center gap-1 text-[10px] font-bold text-[#666] uppercase tracking-wider">
                         <Box size={10} strokeWidth={3} />
-                        {(volume / 1000).toFixed(1)}K LBS
+                        {(toDisplayWeight(volume, settings.units) / 1000).toFixed(1)}K {unitLabel}
                       </div>
                       <div className="flex items-center gap-1 text-[10px] font-bold text-[#666] uppercase tracking-wider">
                         <Zap size={10} strokeWidth={3} />
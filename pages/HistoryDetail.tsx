@@ -1,29 +1,96 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useStore } from '../store/useStore';
-import { ArrowLeft, Calendar, Clock, Box, Dumbbell, Share2, X, Activity, StickyNote, Copy, Check } from 'lucide-react';
+import { ArrowLeft, Calendar, Clock, Box, Dumbbell, Share2, X, Activity, StickyNote, Copy, Check, MessageSquare, Trash2 } from 'lucide-react';
 import { EXERCISE_LIBRARY } from '../constants';
 import { SetTypeBadge } from '../components/SetTypeBadge';
 import { ShareModal } from '../components/share';
+import { backend } from '../services/backend';
+import { getCommentKey, groupComments } from '../services/coaching';
+import { SetComment, WorkoutSession } from '../types';
+import { toDisplayWeight } from '../utils/conversions';
 
 const HistoryDetail = () => {
-  const { id } = useParams();
+  // athleteId is set when a coach reviews a linked athlete's session
+  const { id, athleteId } = useParams();
   const navigate = useNavigate();
   const { history, settings, saveWorkoutAsTemplate, gamification } = useStore();
+  const unitLabel = settings.units.toUpperCase();
   const [showReceipt, setShowReceipt] = useState(false);
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [templateName, setTemplateName] = useState('');
   const [savedSuccess, setSavedSuccess] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [athleteSession, setAthleteSession] = useState<WorkoutSession | null | undefined>(undefined);
+  const [comments, setComments] = useState<SetComment[]>([]);
+  const [commentTarget, setCommentTarget] = useState<{ logId: string; setId: string } | null>(null);
+  const [commentText, setCommentText] = useState('');
 
-  const session = history.find(h => h.id === id);
+  const session = athleteId ? athleteSession : history.find(h => h.id === id);
+  const ownerId = athleteId || backend.auth.user?.id;
+  const canComment = backend.auth.isLoggedIn && !!ownerId;
+  const threads = useMemo(() => groupComments(comments), [comments]);
+
+  useEffect(() => {
+    if (!athleteId) return;
+    backend.coaching.getAthleteHistory(athleteId)
+      .then(workouts => setAthleteSession(workouts.find(w => w.id === id) || null))
+      .catch(error => {
+        console.error('Failed to load athlete session:', error);
+        setAthleteSession(null);
+      });
+  }, [athleteId, id]);
+
+  useEffect(() => {
+    if (!id || !ownerId || !backend.auth.isLoggedIn) return;
+    backend.coaching.getComments(ownerId, id)
+      .then(setComments)
+      .catch(error => console.error('Failed to load comments:', error));
+  }, [id, ownerId]);
+
+  const handleAddComment = async () => {
+    if (!commentTarget || !commentText.trim() || !id || !ownerId) return;
+    try {
+      const comment = await backend.coaching.addComment({
+        athleteId: ownerId,
+        workoutId: id,
+        logId: commentTarget.logId,
+        setId: commentTarget.setId,
+        text: commentText.trim(),
+      });
+      setComments([...comments, comment]);
+      setCommentText('');
+      setCommentTarget(null);
+    } catch (error) {
+      console.error('Failed to add comment:', error);
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    try {
+      await backend.coaching.deleteComment(commentId);
+      setComments(comments.filter(c => c.id !== commentId));
+    } catch (error) {
+      console.error('Failed to delete comment:', error);
+    }
+  };
+
+  const backPath = athleteId ? '/coach' : '/history';
+
+  if (athleteId && athleteSession === undefined) {
+    return (
+        <div className="flex flex-col items-center justify-center h-screen bg-black">
+            <p className="text-[#666] text-xs font-mono uppercase animate-pulse">Loading session...</p>
+        </div>
+    );
+  }
 
   if (!session) {
     return (
         <div className="flex flex-col items-center justify-center h-screen bg-black">
             <h1 className="text-white volt-header mb-4">LOG NOT FOUND</h1>
-            <button onClick={() => navigate('/history')} className="text-primary underline">Return</button>
+            <button onClick={() => navigate(backPath)} className="text-primary underline">Return</button>
         </div>
     );
   }
@@ -107,7 +174,7 @@ const HistoryDetail = () => {
                                         <div className="text-xs">{sets.length} SETS</div>
                                     </div>
                                     <div className="font-bold">
-                                        TOP: {topSet.weight}x{topSet.reps}
+                                        TOP: {toDisplayWeight(topSet.weight, settings.units)}x{topSet.reps}
                                     </div>
                                 </div>
                             )
@@ -116,7 +183,7 @@ const HistoryDetail = () => {
 
                     <div className="border-t-2 border-dashed border-black pt-4 flex justify-between font-bold text-lg">
                         <span>TOTAL VOL</span>
-                        <span>{(totalVolume/1000).toFixed(1)}K LBS</span>
+                        <span>{(toDisplayWeight(totalVolume, settings.units)/1000).toFixed(1)}K {unitLabel}</span>
                     </div>
                     
                     <div className="mt-8 text-center text-[10px] uppercase text-gray-500">
@@ -199,7 +266,7 @@ const HistoryDetail = () => {
        {/* Nav */}
        <div className="flex items-center justify-between mb-8">
             <div className="flex items-center gap-4">
-                <button onClick={() => navigate('/history')} className="w-10 h-10 border border-[#333] flex items-center justify-center hover:bg-[#111] transition-colors">
+                <button onClick={() => navigate(backPath)} className="w-10 h-10 border border-[#333] flex items-center justify-center hover:bg-[#111] transition-colors">
                     <ArrowLeft size={20} />
                 </button>
                 <div>
@@ -207,6 +274,7 @@ const HistoryDetail = () => {
                     <span className="text-xs font-bold uppercase tracking-widest text-primary">{id?.slice(0, 8)}</span>
                 </div>
             </div>
+            {!athleteId && (
             <div className="flex items-center gap-3">
                 <button
                   onClick={() => setShowSaveModal(true)}
@@ -219,6 +287,7 @@ const HistoryDetail = () => {
                     <Share2 size={20} /> <span className="text-xs font-bold uppercase">Share</span>
                 </button>
             </div>
+            )}
        </div>
 
        {/* Header */}
@@ -242,7 +311,7 @@ const HistoryDetail = () => {
                <div className="flex items-center gap-2 text-[#666] mb-2 text-[10px] uppercase font-bold tracking-widest">
                    <Box size={12} /> Volume
                </div>
-               <div className="text-2xl font-black italic">{(totalVolume / 1000).toFixed(1)}K <span className="text-sm not-italic font-medium text-[#444]">LBS</span></div>
+               <div className="text-2xl font-black italic">{(toDisplayWeight(totalVolume, settings.units) / 1000).toFixed(1)}K <span className="text-sm not-italic font-medium text-[#444]">{unitLabel}</span></div>
            </div>
        </div>
 
@@ -299,19 +368,78 @@ const HistoryDetail = () => {
                            {ex?.name || 'Unknown'}
                        </h4>
                        <div className="space-y-1">
-                           {log.sets.map((set, i) => (
-                               <div key={set.id} className={`grid grid-cols-5 text-sm py-1 border-b border-[#111] ${set.completed ? 'text-[#ccc]' : 'text-[#444]'}`}>
+                           {log.sets.map((set, i) => {
+                               const thread = threads[getCommentKey(log.id, set.id)] || [];
+                               const isCommenting = commentTarget?.logId === log.id && commentTarget.setId === set.id;
+                               return (
+                               <React.Fragment key={set.id}>
+                               <div className={`grid grid-cols-5 text-sm py-1 border-b border-[#111] ${set.completed ? 'text-[#ccc]' : 'text-[#444]'}`}>
                                    <div className="font-mono text-[#444] text-[10px] flex items-center gap-1">
                                        {i + 1}
                                        <SetTypeBadge type={set.type} size="sm" />
                                    </div>
-                                   <div className="text-right font-bold col-span-2">{set.weight} <span className="text-[10px] text-[#444]">LBS</span></div>
+                                   <div className="text-right font-bold col-span-2">{toDisplayWeight(set.weight, settings.units)} <span className="text-[10px] text-[#444]">{unitLabel}</span></div>
                                    <div className="text-right font-bold">{set.reps} <span className="text-[10px] text-[#444]">REPS</span></div>
-                                   <div className="text-right flex justify-end">
+                                   <div className="text-right flex justify-end items-center gap-2">
                                        {set.completed ? <span className="text-primary text-[10px] font-black uppercase">Done</span> : <span className="text-red-900 text-[10px] uppercase">Miss</span>}
+                                       {canComment && (
+                                           <button
+                                             onClick={() => {
+                                               setCommentTarget(isCommenting ? null : { logId: log.id, setId: set.id });
+                                               setCommentText('');
+                                             }}
+                                             aria-label={`Comment on set ${i + 1}`}
+                                             className={`transition-colors ${thread.length > 0 || isCommenting ? 'text-primary' : 'text-[#444] hover:text-white'}`}
+                                           >
+                                               <MessageSquare size={12} />
+                                           </button>
+                                       )}
                                    </div>
                                </div>
-                           ))}
+
+                               {/* Set comments (coach review) */}
+                               {thread.map(comment => (
+                                   <div key={comment.id} className="flex items-start justify-between gap-2 bg-[#111] border-l-2 border-primary/50 px-3 py-2 my-1">
+                                       <div>
+                                           <span className="text-[10px] font-bold uppercase tracking-widest text-primary">
+                                               {comment.authorId === ownerId ? 'Athlete' : 'Coach'}{comment.authorName && ` · ${comment.authorName}`}
+                                           </span>
+                                           <p className="text-xs text-[#ccc] font-mono whitespace-pre-wrap">{comment.text}</p>
+                                       </div>
+                                       {comment.authorId === backend.auth.user?.id && (
+                                           <button
+                                             onClick={() => handleDeleteComment(comment.id)}
+                                             aria-label="Delete comment"
+                                             className="text-[#444] hover:text-red-500 transition-colors"
+                                           >
+                                               <Trash2 size={12} />
+                                           </button>
+                                       )}
+                                   </div>
+                               ))}
+                               {isCommenting && (
+                                   <div className="flex gap-2 my-2">
+                                       <input
+                                         type="text"
+                                         autoFocus
+                                         value={commentText}
+                                         onChange={(e) => setCommentText(e.target.value)}
+                                         onKeyDown={(e) => e.key === 'Enter' && handleAddComment()}
+                                         placeholder={`Comment on set ${i + 1}`}
+                                         className="flex-1 bg-black border border-[#333] px-3 py-2 text-white text-xs font-mono focus:border-primary outline-none"
+                                       />
+                                       <button
+                                         onClick={handleAddComment}
+                                         disabled={!commentText.trim()}
+                                         className="px-3 bg-primary text-black font-bold uppercase text-[10px] hover:bg-white transition-colors disabled:opacity-50"
+                                       >
+                                           Post
+                                       </button>
+                                   </div>
+                               )}
+                               </React.Fragment>
+                               );
+                           })}
                        </div>
                    </div>
                )
@@ -326,6 +454,7 @@ const HistoryDetail = () => {
          userName={settings.name}
          totalXP={gamification.totalXP}
          streak={gamification.streak.current}
+         units={settings.units}
        />
 
     </div>
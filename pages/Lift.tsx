@@ -2,22 +2,27 @@
 import React, { useState, lazy, Suspense } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useStore } from '../store/useStore';
-import { Plus, ChevronRight, Dumbbell, PenTool, Trash2, Play, CalendarRange, X, Edit, Copy, FileText, Zap } from 'lucide-react';
+import { Plus, ChevronRight, Dumbbell, PenTool, Trash2, Play, CalendarRange, X, Edit, Copy, FileText, Zap, MapPin } from 'lucide-react';
 import { Program, WorkoutSession } from '../types';
 import { EXERCISE_LIBRARY } from '../constants';
 import EmptyState from '../components/EmptyState';
 import { ReadinessCheckModal } from '../components/ReadinessCheckModal';
 import { ReadinessInputs, ReadinessResult } from '../services/readinessScore';
+import { getGymProfile, getGymProfiles } from '../services/gymProfiles';
 
 // Lazy load heavy components
 const TemplateEditor = lazy(() => import('../components/TemplateEditor'));
 
 const Lift = () => {
   const navigate = useNavigate();
-  const { templates, programs, startWorkout, deleteTemplate, duplicateTemplate, activateProgram, settings, logDailyBio } = useStore();
+  const { templates, programs, startWorkout, deleteTemplate, duplicateTemplate, activateProgram, settings, updateSettings, logDailyBio } = useStore();
   const [selectedProgram, setSelectedProgram] = useState<Program | null>(null);
   const [editingTemplate, setEditingTemplate] = useState<WorkoutSession | null>(null);
 
+  // Workouts start at the active gym
+  const gymProfiles = getGymProfiles(settings);
+  const activeGym = getGymProfile(settings);
+
   // Readiness check state
   const [showReadinessCheck, setShowReadinessCheck] = useState(false);
   const [pendingWorkoutTemplate, setPendingWorkoutTemplate] = useState<string | null>(null);
@@ -92,6 +97,33 @@ const Lift = () => {
         </h1>
       </header>
 
+      {/* Gym Selector - only when there is more than one location */}
+      {gymProfiles.length > 1 && (
+        <div className="mb-6">
+          <div className="flex items-center gap-2 mb-2">
+            <MapPin size={14} className="text-[#666]" aria-hidden="true" />
+            <span className="text-[10px] text-[#666] font-mono uppercase">Training At</span>
+          </div>
+          <div className="flex gap-2 overflow-x-auto" role="radiogroup" aria-label="Gym">
+            {gymProfiles.map(gym => (
+              <button
+                key={gym.id}
+                role="radio"
+                aria-checked={gym.id === activeGym.id}
+                onClick={() => updateSettings({ activeGymProfileId: gym.id })}
+                className={`px-4 py-2 border text-xs font-bold uppercase whitespace-nowrap transition-colors ${
+                  gym.id === activeGym.id
+                    ? 'bg-primary text-black border-primary'
+                    : 'bg-[#111] text-[#888] border-[#222] hover:border-primary'
+                }`}
+              >
+                {gym.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Primary Action: Quick Start - Contextual sizing based on active program */}
       {settings.activeProgram ? (
         /* Compact version when program is active */
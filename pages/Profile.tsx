@@ -31,6 +31,8 @@ import {
   Brain,
   Heart,
   Trophy,
+  Users,
+  MapPin,
   X
 } from 'lucide-react';
 import { saveImageToDB, getImageFromDB } from '../utils/db';
@@ -38,7 +40,13 @@ import { EXERCISE_LIBRARY } from '../constants';
 import { generateExerciseVisual } from '../services/geminiService';
 import { backend } from '../services/backend';
 import NotificationSettings from '../components/NotificationSettings';
+import { LocalLLMProvider, DEFAULT_LOCAL_LLM_SETTINGS } from '../services/ai/localLLM';
+import { E1RM_FORMULAS } from '../services/strengthEstimation';
+import type { E1RMFormula } from '../types';
 import DataExport from '../components/DataExport';
+import SyncConflictsPanel from '../components/SyncConflictsPanel';
+import CoachingPanel from '../components/CoachingPanel';
+import GymProfilesPanel from '../components/GymProfilesPanel';
 import BodyMetricsLogger from '../components/BodyMetricsLogger';
 import BodyweightChart from '../components/BodyweightChart';
 import ProgressPhotos from '../components/ProgressPhotos';
@@ -51,6 +59,7 @@ import QuickSettings from '../components/QuickSettings';
 import WeeklyGoalTracker from '../components/WeeklyGoalTracker';
 import { DailyWellnessCheckin } from '../components/DailyWellnessCheckin';
 import { isHealthKitAvailable, requestHealthPermissions, getSleepData, getHRVData, getRestingHRData } from '../services/healthKitService';
+import { fromDisplayWeight, toDisplayWeight } from '../utils/conversions';
 
 // Tactical Section Header Component
 const TacticalHeader = ({ title, statusLabel, statusActive }: { title: string; statusLabel: string; statusActive: boolean }) => (
@@ -132,6 +141,8 @@ const MilitaryToggle = ({ enabled, onToggle, label }: { enabled: boolean; onTogg
 const Profile = () => {
   const navigate = useNavigate();
   const { settings, updateSettings, history, customExerciseVisuals, saveExerciseVisual, syncStatus, syncData, resetAllData, dailyLogs } = useStore();
+  const display = (kg: number) => toDisplayWeight(kg, settings.units);
+  const fromDisplay = (value: number) => fromDisplayWeight(value, settings.units);
   const { isAuthenticated, user, logout } = useAuthStore();
 
   // State
@@ -148,6 +159,7 @@ const Profile = () => {
   const [showWellnessCheckin, setShowWellnessCheckin] = useState(false);
   const [healthKitAvailable, setHealthKitAvailable] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'training' | 'biometrics' | 'ai' | 'data'>('overview');
+  const [localLLMStatus, setLocalLLMStatus] = useState<{ ok: boolean; message: string } | null>(null);
 
   // Settings search index - map section titles to keywords for search
   const searchableSettings = useMemo(() => [
@@ -158,8 +170,10 @@ const Profile = () => {
     { title: 'AI Coach Settings', keywords: ['ai', 'coach', 'suggestions', 'automation', 'smart', 'assistant'], tab: 'ai' },
     { title: 'Units & Measurements', keywords: ['units', 'kg', 'lbs', 'pounds', 'kilograms', 'weight', 'measurement'], tab: 'training' },
     { title: 'Cloud Sync', keywords: ['cloud', 'sync', 'iron', 'backup', 'firebase', 'online'], tab: 'data' },
+    { title: 'Coach', keywords: ['coach', 'athlete', 'trainer', 'invite', 'assign', 'comments', 'review'], tab: 'data' },
     { title: 'Import/Export', keywords: ['import', 'export', 'backup', 'restore', 'data', 'transfer'], tab: 'data' },
     { title: 'Reset Data', keywords: ['reset', 'delete', 'clear', 'remove', 'data', 'factory'], tab: 'data' },
+    { title: '1RM Formula', keywords: ['1rm', 'one rep max', 'e1rm', 'epley', 'brzycki', 'lombardi', 'wathan', 'rpe', 'estimate'], tab: 'training' },
     { title: 'Plate Calculator', keywords: ['plate', 'calculator', 'barbell', 'loading', 'weights'], tab: 'training' },
     { title: 'Experience Level', keywords: ['experience', 'level', 'beginner', 'intermediate', 'advanced', 'skill'], tab: 'overview' },
     { title: 'Available Equipment', keywords: ['equipment', 'barbell', 'dumbbell', 'machine', 'cable', 'gym'], tab: 'training' },
@@ -585,7 +599,7 @@ const Profile = () => {
               </div>
               <div className="bg-[#000] border border-[#1a1a1a] p-3">
                 <div className="text-[9px] font-mono text-[#666] uppercase tracking-wider mb-1">Volume</div>
-                <div className="text-xl font-black italic text-primary tabular-nums">{(totalVolume / 1000).toFixed(0)}K</div>
+                <div className="text-xl font-black italic text-primary tabular-nums">{(display(totalVolume) / 1000).toFixed(0)}K</div>
               </div>
             </div>
           </div>
@@ -745,8 +759,8 @@ const Profile = () => {
             onClick={() => updateSettings({
               autoProgression: {
                 enabled: !settings.autoProgression?.enabled,
-                upperBodyIncrement: settings.autoProgression?.upperBodyIncrement || (settings.units === 'kg' ? 2.5 : 5),
-                lowerBodyIncrement: settings.autoProgression?.lowerBodyIncrement || (settings.units === 'kg' ? 5 : 10)
+                upperBodyIncrement: settings.autoProgression?.upperBodyIncrement || fromDisplay(settings.units === 'kg' ? 2.5 : 5),
+                lowerBodyIncrement: settings.autoProgression?.lowerBodyIncrement || fromDisplay(settings.units === 'kg' ? 5 : 10)
               }
             })}
             className="bg-[#0a0a0a] border-l-2 border-primary p-4 hover:bg-[#111] transition-colors relative"
@@ -1041,7 +1055,7 @@ const Profile = () => {
               />
               <TacticalStatCard
                 icon={<div className="text-primary font-black italic text-xl">{settings.units.toUpperCase()}</div>}
-                value={`${(totalVolume / 1000).toFixed(0)}K`}
+                value={`${(display(totalVolume) / 1000).toFixed(0)}K`}
                 label="TOTAL ORDNANCE"
                 trend="+24%"
               />
@@ -1272,6 +1286,7 @@ const Profile = () => {
                     : 'NEVER'
                 }</span>
               </div>
+              <SyncConflictsPanel />
               <button
                 onClick={() => syncData()}
                 disabled={syncStatus === 'syncing'}
@@ -1285,6 +1300,17 @@ const Profile = () => {
           )}
         </div>
       </CollapsibleSection>
+
+      {/* Coach Link */}
+      <CollapsibleSection
+        title="Coach"
+        icon={<Users size={18} className="text-[#666]" />}
+        defaultExpanded={false}
+        summary="Link & Assignments"
+        tier="low"
+      >
+        <CoachingPanel />
+      </CollapsibleSection>
         </>
       )}
 
@@ -1308,7 +1334,7 @@ const Profile = () => {
         title="Hardware Config"
         icon={<Settings size={18} className="text-[#666]" />}
         defaultExpanded={false}
-        summary={`${settings.units.toUpperCase()} • ${settings.defaultRestTimer}s • ${settings.barWeight}${settings.units}`}
+        summary={`${settings.units.toUpperCase()} • ${settings.defaultRestTimer}s • ${display(settings.barWeight)}${settings.units}`}
         tier="low"
       >
         <div className="bg-[#0a0a0a] border border-[#1a1a1a] divide-y divide-[#1a1a1a]">
@@ -1328,18 +1354,18 @@ const Profile = () => {
             <span className="font-black uppercase text-sm text-white tracking-wider">Bar Mass</span>
             <div className="flex bg-[#000] p-1 border border-[#222]">
               <button
-                onClick={() => updateSettings({ barWeight: settings.units === 'kg' ? 20 : 45 })}
-                className={`px-4 py-2 text-xs font-black italic uppercase tracking-wider transition-all ${settings.barWeight === (settings.units === 'kg' ? 20 : 45) ? 'bg-primary text-black' : 'text-[#666] hover:text-white'}`}
+                onClick={() => updateSettings({ barWeight: fromDisplay(settings.units === 'kg' ? 20 : 45) })}
+                className={`px-4 py-2 text-xs font-black italic uppercase tracking-wider transition-all ${display(settings.barWeight) === (settings.units === 'kg' ? 20 : 45) ? 'bg-primary text-black' : 'text-[#666] hover:text-white'}`}
                 aria-label={`Set bar weight to ${settings.units === 'kg' ? '20kg' : '45lbs'}`}
-                aria-pressed={settings.barWeight === (settings.units === 'kg' ? 20 : 45)}
+                aria-pressed={display(settings.barWeight) === (settings.units === 'kg' ? 20 : 45)}
               >
                 {settings.units === 'kg' ? '20KG' : '45LB'}
               </button>
               <button
-                onClick={() => updateSettings({ barWeight: settings.units === 'kg' ? 15 : 35 })}
-                className={`px-4 py-2 text-xs font-black italic uppercase tracking-wider transition-all ${settings.barWeight === (settings.units === 'kg' ? 15 : 35) ? 'bg-primary text-black' : 'text-[#666] hover:text-white'}`}
+                onClick={() => updateSettings({ barWeight: fromDisplay(settings.units === 'kg' ? 15 : 35) })}
+                className={`px-4 py-2 text-xs font-black italic uppercase tracking-wider transition-all ${display(settings.barWeight) === (settings.units === 'kg' ? 15 : 35) ? 'bg-primary text-black' : 'text-[#666] hover:text-white'}`}
                 aria-label={`Set bar weight to ${settings.units === 'kg' ? '15kg' : '35lbs'}`}
-                aria-pressed={settings.barWeight === (settings.units === 'kg' ? 15 : 35)}
+                aria-pressed={display(settings.barWeight) === (settings.units === 'kg' ? 15 : 35)}
               >
                 {settings.units === 'kg' ? '15KG' : '35LB'}
               </button>
@@ -1429,6 +1455,26 @@ const Profile = () => {
             </select>
           </div>
 
+          {/* 1RM Formula */}
+          <div className="p-5 min-h-[56px]">
+            <div className="flex justify-between items-center">
+              <span className="font-black uppercase text-sm text-white tracking-wider">1RM Formula</span>
+              <select
+                value={settings.e1rmFormula || 'auto'}
+                onChange={(e) => updateSettings({ e1rmFormula: e.target.value as E1RMFormula })}
+                className="bg-[#000] text-primary font-mono px-3 py-2 outline-none text-sm uppercase border-2 border-[#222] focus:border-primary min-h-[44px] tracking-wider"
+                aria-label="Estimated 1RM formula"
+              >
+                {E1RM_FORMULAS.map(f => (
+                  <option key={f.id} value={f.id}>{f.label.toUpperCase()}</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-[10px] text-[#666] font-mono mt-2 uppercase tracking-wider">
+              {E1RM_FORMULAS.find(f => f.id === (settings.e1rmFormula || 'auto'))?.description}
+            </p>
+          </div>
+
           {/* Gender */}
           <div className="p-5 flex justify-between items-center min-h-[56px]">
             <span className="font-black uppercase text-sm text-white tracking-wider">Operator Class</span>
@@ -1473,8 +1519,8 @@ const Profile = () => {
               onToggle={() => updateSettings({
                 autoProgression: {
                   enabled: !settings.autoProgression?.enabled,
-                  upperBodyIncrement: settings.autoProgression?.upperBodyIncrement || (settings.units === 'kg' ? 2.5 : 5),
-                  lowerBodyIncrement: settings.autoProgression?.lowerBodyIncrement || (settings.units === 'kg' ? 5 : 10)
+                  upperBodyIncrement: settings.autoProgression?.upperBodyIncrement || fromDisplay(settings.units === 'kg' ? 2.5 : 5),
+                  lowerBodyIncrement: settings.autoProgression?.lowerBodyIncrement || fromDisplay(settings.units === 'kg' ? 5 : 10)
                 }
               })}
               label={settings.autoProgression?.enabled ? 'Disable auto-progression' : 'Enable auto-progression'}
@@ -1486,11 +1532,11 @@ const Profile = () => {
               <div className="flex justify-between items-center">
                 <span className="text-xs font-black uppercase text-white tracking-wider">Upper Body</span>
                 <select
-                  value={settings.autoProgression.upperBodyIncrement}
+                  value={display(settings.autoProgression.upperBodyIncrement)}
                   onChange={(e) => updateSettings({
                     autoProgression: {
                       ...settings.autoProgression!,
-                      upperBodyIncrement: parseFloat(e.target.value)
+                      upperBodyIncrement: fromDisplay(parseFloat(e.target.value))
                     }
                   })}
                   className="bg-[#000] text-primary font-mono px-2 py-1 outline-none text-xs border border-[#222] focus:border-primary"
@@ -1515,11 +1561,11 @@ const Profile = () => {
               <div className="flex justify-between items-center">
                 <span className="text-xs font-black uppercase text-white tracking-wider">Lower Body</span>
                 <select
-                  value={settings.autoProgression.lowerBodyIncrement}
+                  value={display(settings.autoProgression.lowerBodyIncrement)}
                   onChange={(e) => updateSettings({
                     autoProgression: {
                       ...settings.autoProgression!,
-                      lowerBodyIncrement: parseFloat(e.target.value)
+                      lowerBodyIncrement: fromDisplay(parseFloat(e.target.value))
                     }
                   })}
                   className="bg-[#000] text-primary font-mono px-2 py-1 outline-none text-xs border border-[#222] focus:border-primary"
@@ -1632,6 +1678,17 @@ const Profile = () => {
           ))}
         </div>
       </CollapsibleSection>
+
+      {/* Gym Profiles */}
+      <CollapsibleSection
+        title="Gym Profiles"
+        icon={<MapPin size={18} className="text-[#666]" />}
+        defaultExpanded={false}
+        summary={`${settings.gymProfiles?.length || 1} locations`}
+        tier="low"
+      >
+        <GymProfilesPanel />
+      </CollapsibleSection>
         </>
       )}
 
@@ -1895,7 +1952,8 @@ const Profile = () => {
                 llmFeatures: {
                   enabled: !(settings.llmFeatures?.enabled ?? true),
                   enhanceSuggestions: settings.llmFeatures?.enhanceSuggestions ?? true,
-                  generateSummaries: settings.llmFeatures?.generateSummaries ?? true
+                  generateSummaries: settings.llmFeatures?.generateSummaries ?? true,
+                  sharePersonalHistory: settings.llmFeatures?.sharePersonalHistory ?? false
                 }
               })}
               label={settings.llmFeatures?.enabled ? 'Disable LLM features' : 'Enable LLM features'}
@@ -1957,9 +2015,93 @@ const Profile = () => {
                   label="Toggle workout summaries"
                 />
               </div>
+
+              {/* Share Personal History Toggle */}
+              <div className="flex justify-between items-center p-4 bg-[#000] border border-[#1a1a1a]">
+                <div>
+                  <span className="text-xs font-bold text-white uppercase">Share Training Log</span>
+                  <p className="text-[10px] text-[#666] mt-1">Let Gemini see relevant notes, PRs and daily logs. Off keeps them on this device</p>
+                </div>
+                <MilitaryToggle
+                  enabled={settings.llmFeatures?.sharePersonalHistory ?? false}
+                  onToggle={() => updateSettings({
+                    llmFeatures: {
+                      ...settings.llmFeatures!,
+                      sharePersonalHistory: !(settings.llmFeatures?.sharePersonalHistory ?? false)
+                    }
+                  })}
+                  label="Toggle sharing training log"
+                />
+              </div>
             </div>
           )}
 
+          {/* Local Model (offline coaching) */}
+          <div className="mt-6 space-y-3 border-t border-[#1a1a1a] pt-6">
+            <div className="flex justify-between items-center p-4 bg-[#000] border border-[#1a1a1a]">
+              <div>
+                <span className="text-xs font-bold text-white uppercase">Local Model</span>
+                <p className="text-[10px] text-[#666] mt-1">Ollama / llama.cpp server, used offline or when the cloud budget runs out</p>
+              </div>
+              <MilitaryToggle
+                enabled={settings.localLLM?.enabled ?? false}
+                onToggle={() => {
+                  setLocalLLMStatus(null);
+                  updateSettings({
+                    localLLM: {
+                      ...DEFAULT_LOCAL_LLM_SETTINGS,
+                      ...settings.localLLM,
+                      enabled: !settings.localLLM?.enabled
+                    }
+                  });
+                }}
+                label="Toggle local model"
+              />
+            </div>
+
+            {settings.localLLM?.enabled && (
+              <div className="p-4 bg-[#000] border border-[#1a1a1a] space-y-3">
+                <label className="block">
+                  <span className="text-[10px] text-[#666] font-mono uppercase tracking-wider">Server URL</span>
+                  <input
+                    className="mt-1 w-full bg-[#0a0a0a] border-2 border-[#222] px-3 py-2 outline-none text-primary focus:border-primary font-mono text-xs min-h-[44px]"
+                    value={settings.localLLM.baseUrl}
+                    placeholder={DEFAULT_LOCAL_LLM_SETTINGS.baseUrl}
+                    onChange={(e) => updateSettings({ localLLM: { ...settings.localLLM!, baseUrl: e.target.value.trim() } })}
+                    aria-label="Local model server URL"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-[10px] text-[#666] font-mono uppercase tracking-wider">Model</span>
+                  <input
+                    className="mt-1 w-full bg-[#0a0a0a] border-2 border-[#222] px-3 py-2 outline-none text-primary focus:border-primary font-mono text-xs min-h-[44px]"
+                    value={settings.localLLM.model}
+                    placeholder={DEFAULT_LOCAL_LLM_SETTINGS.model}
+                    onChange={(e) => updateSettings({ localLLM: { ...settings.localLLM!, model: e.target.value.trim() } })}
+                    aria-label="Local model name"
+                  />
+                </label>
+                <button
+                  onClick={async () => {
+                    setLocalLLMStatus({ ok: true, message: 'Connecting...' });
+                    const health = await new LocalLLMProvider(settings.localLLM!).checkHealth();
+                    setLocalLLMStatus(health.ok
+                      ? { ok: true, message: `Connected - ${settings.localLLM!.model} ready` }
+                      : { ok: false, message: health.error || 'Connection failed' });
+                  }}
+                  className="w-full py-3 text-[10px] font-black italic uppercase tracking-wider border border-[#222] text-[#666] hover:border-primary/50 hover:text-white transition-all min-h-[44px]"
+                >
+                  Test Connection
+                </button>
+                {localLLMStatus && (
+                  <p className={`text-[10px] font-mono uppercase tracking-wider ${localLLMStatus.ok ? 'text-primary' : 'text-red-400'}`}>
+                    {localLLMStatus.message}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
           {!import.meta.env.VITE_GEMINI_API_KEY && (
             <div className="mt-4 p-3 bg-red-900/20 border border-red-900/30">
               <p className="text-[10px] text-red-400 font-mono uppercase tracking-wider">
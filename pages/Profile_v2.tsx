@@ -40,10 +40,13 @@ import YearInReview from '../components/YearInReview';
 import CollapsibleSection from '../components/CollapsibleSection';
 import QuickSettings from '../components/QuickSettings';
 import WeeklyGoalTracker from '../components/WeeklyGoalTracker';
+import { fromDisplayWeight, toDisplayWeight } from '../utils/conversions';
 
 const Profile = () => {
   const navigate = useNavigate();
   const { settings, updateSettings, history, customExerciseVisuals, saveExerciseVisual, syncStatus, syncData, resetAllData, dailyLogs } = useStore();
+  const display = (kg: number) => toDisplayWeight(kg, settings.units);
+  const fromDisplay = (value: number) => fromDisplayWeight(value, settings.units);
   const { isAuthenticated, user, logout } = useAuthStore();
 
   // State
@@ -298,7 +301,7 @@ const Profile = () => {
               </div>
               <div className="bg-[#111] p-6 border border-[#222]">
                 <div className="text-primary mb-2 font-black italic text-xl">{(settings.units || 'lbs').toUpperCase()}</div>
-                <div className="text-4xl font-black italic text-white leading-none">{(totalVolume / 1000).toFixed(0)}K</div>
+                <div className="text-4xl font-black italic text-white leading-none">{(display(totalVolume) / 1000).toFixed(0)}K</div>
                 <div className="text-[10px] text-[#999] uppercase tracking-widest mt-1">Total Volume</div>
               </div>
             </div>
@@ -458,7 +461,7 @@ const Profile = () => {
         title="Rig Setup"
         icon={<Settings size={18} className="text-[#999]" />}
         defaultExpanded={false}
-        summary={`${settings.units.toUpperCase()} • ${settings.defaultRestTimer}s rest • ${settings.barWeight}${settings.units} bar`}
+        summary={`${settings.units.toUpperCase()} • ${settings.defaultRestTimer}s rest • ${display(settings.barWeight)}${settings.units} bar`}
         tier="low"
       >
         <div className="bg-[#111] border border-[#222] divide-y divide-[#222]">
@@ -478,18 +481,18 @@ const Profile = () => {
             <span className="font-bold uppercase text-sm text-white">Bar Weight</span>
             <div className="flex bg-[#222] p-1">
               <button
-                onClick={() => updateSettings({ barWeight: settings.units === 'kg' ? 20 : 45 })}
-                className={`px-3 py-2 text-xs font-bold uppercase ${settings.barWeight === (settings.units === 'kg' ? 20 : 45) ? 'bg-primary text-black' : 'text-[#999]'}`}
+                onClick={() => updateSettings({ barWeight: fromDisplay(settings.units === 'kg' ? 20 : 45) })}
+                className={`px-3 py-2 text-xs font-bold uppercase ${display(settings.barWeight) === (settings.units === 'kg' ? 20 : 45) ? 'bg-primary text-black' : 'text-[#999]'}`}
                 aria-label={`Set bar weight to ${settings.units === 'kg' ? '20kg' : '45lbs'}`}
-                aria-pressed={settings.barWeight === (settings.units === 'kg' ? 20 : 45)}
+                aria-pressed={display(settings.barWeight) === (settings.units === 'kg' ? 20 : 45)}
               >
                 {settings.units === 'kg' ? '20KG' : '45LBS'}
               </button>
               <button
-                onClick={() => updateSettings({ barWeight: settings.units === 'kg' ? 15 : 35 })}
-                className={`px-3 py-2 text-xs font-bold uppercase ${settings.barWeight === (settings.units === 'kg' ? 15 : 35) ? 'bg-primary text-black' : 'text-[#999]'}`}
+                onClick={() => updateSettings({ barWeight: fromDisplay(settings.units === 'kg' ? 15 : 35) })}
+                className={`px-3 py-2 text-xs font-bold uppercase ${display(settings.barWeight) === (settings.units === 'kg' ? 15 : 35) ? 'bg-primary text-black' : 'text-[#999]'}`}
                 aria-label={`Set bar weight to ${settings.units === 'kg' ? '15kg' : '35lbs'}`}
-                aria-pressed={settings.barWeight === (settings.units === 'kg' ? 15 : 35)}
+                aria-pressed={display(settings.barWeight) === (settings.units === 'kg' ? 15 : 35)}
               >
                 {settings.units === 'kg' ? '15KG' : '35LBS'}
               </button>
@@ -625,8 +628,8 @@ const Profile = () => {
               onClick={() => updateSettings({
                 autoProgression: {
                   enabled: !settings.autoProgression?.enabled,
-                  upperBodyIncrement: settings.autoProgression?.upperBodyIncrement || (settings.units === 'kg' ? 2.5 : 5),
-                  lowerBodyIncrement: settings.autoProgression?.lowerBodyIncrement || (settings.units === 'kg' ? 5 : 10)
+                  upperBodyIncrement: settings.autoProgression?.upperBodyIncrement || fromDisplay(settings.units === 'kg' ? 2.5 : 5),
+                  lowerBodyIncrement: settings.autoProgression?.lowerBodyIncrement || fromDisplay(settings.units === 'kg' ? 5 : 10)
                 }
               })}
               className={`relative w-12 h-6 rounded-full transition-colors ${
@@ -648,11 +651,11 @@ const Profile = () => {
               <div className="flex justify-between items-center">
                 <span className="text-xs font-bold uppercase text-white">Upper Body Increment</span>
                 <select
-                  value={settings.autoProgression.upperBodyIncrement}
+                  value={display(settings.autoProgression.upperBodyIncrement)}
                   onChange={(e) => updateSettings({
                     autoProgression: {
                       ...settings.autoProgression!,
-                      upperBodyIncrement: parseFloat(e.target.value)
+                      upperBodyIncrement: fromDisplay(parseFloat(e.target.value))
                     }
                   })}
                   className="bg-[#222] text-white font-mono px-2 py-1 outline-none text-xs border border-[#333] focus:border-primary"
@@ -677,11 +680,11 @@ const Profile = () => {
               <div className="flex justify-between items-center">
                 <span className="text-xs font-bold uppercase text-white">Lower Body Increment</span>
                 <select
-                  value={settings.autoProgression.lowerBodyIncrement}
+                  value={display(settings.autoProgression.lowerBodyIncrement)}
                   onChange={(e) => updateSettings({
                     autoProgression: {
                       ...settings.autoProgression!,
-                      lowerBodyIncrement: parseFloat(e.target.value)
+                      lowerBodyIncrement: fromDisplay(parseFloat(e.target.value))
                     }
                   })}
                   className="bg-[#222] text-white font-mono px-2 py-1 outline-none text-xs border border-[#333] focus:border-primary"
@@ -1,15 +1,53 @@
-import React, { useState, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useStore } from '../store/useStore';
-import { ArrowLeft, Calendar, Zap, Target, CheckCircle2, Info, ChevronDown, ChevronUp, Filter, X } from 'lucide-react';
+import { ArrowLeft, Calendar, Zap, Target, CheckCircle2, Info, ChevronDown, ChevronUp, Filter, X, Upload } from 'lucide-react';
 import { Program, ProgramGoal, ProgramSplitType, ProgramDifficulty } from '../types';
+import { parseProgramPackage, PACKAGE_LINK_PARAM } from '../services/programPackage';
+import { haptic } from '../services/haptics';
 
 const ProgramBrowser = () => {
   const navigate = useNavigate();
-  const { programs, settings } = useStore();
+  const { programs, settings, importProgramPackage } = useStore();
   const [selectedProgram, setSelectedProgram] = useState<Program | null>(null);
   const [showFilters, setShowFilters] = useState(false);
 
+  // Program package import (file or share link)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const packageInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handlePackage = (text: string) => {
+    try {
+      const pkg = parseProgramPackage(text);
+      const templateCount = pkg.templates.length;
+      if (!confirm(`Import "${pkg.program.name}" with ${templateCount} workout template${templateCount === 1 ? '' : 's'}?`)) {
+        return;
+      }
+      haptic('success');
+      setImportError(null);
+      navigate(`/program/${importProgramPackage(pkg)}`);
+    } catch (error) {
+      haptic('error');
+      setImportError(error instanceof Error ? error.message : 'Could not import program');
+    }
+  };
+
+  const handlePackageSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow selecting the same file again
+    if (!file) return;
+    handlePackage(await file.text());
+  };
+
+  // Share links open this page with the package in the query string
+  useEffect(() => {
+    const payload = searchParams.get(PACKAGE_LINK_PARAM);
+    if (!payload) return;
+    setSearchParams({}, { replace: true });
+    handlePackage(payload);
+  }, [searchParams]);
+
   // Filter state
   const [selectedGoals, setSelectedGoals] = useState<ProgramGoal[]>([]);
   const [selectedSplits, setSelectedSplits] = useState<ProgramSplitType[]>([]);
@@ -122,22 +160,48 @@ const ProgramBrowser = () => {
           </div>
         </div>
 
-        {/* Filter Toggle Button */}
-        <button
-          onClick={() => setShowFilters(!showFilters)}
-          className="flex items-center gap-2 px-4 py-2 border border-[#333] hover:border-primary transition-colors relative"
-        >
-          <Filter size={16} />
-          <span className="text-xs font-bold uppercase tracking-widest">Filter</span>
-          {activeFilterCount > 0 && (
-            <span className="absolute -top-2 -right-2 w-5 h-5 bg-primary text-black text-[10px] font-black rounded-full flex items-center justify-center">
-              {activeFilterCount}
-            </span>
-          )}
-          {showFilters ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => packageInputRef.current?.click()}
+            aria-label="Import program"
+            className="w-10 h-10 border border-[#333] flex items-center justify-center hover:border-primary transition-colors"
+          >
+            <Upload size={16} />
+          </button>
+          <input
+            ref={packageInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handlePackageSelected}
+            className="hidden"
+          />
+
+          {/* Filter Toggle Button */}
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className="flex items-center gap-2 px-4 py-2 border border-[#333] hover:border-primary transition-colors relative"
+          >
+            <Filter size={16} />
+            <span className="text-xs font-bold uppercase tracking-widest">Filter</span>
+            {activeFilterCount > 0 && (
+              <span className="absolute -top-2 -right-2 w-5 h-5 bg-primary text-black text-[10px] font-black rounded-full flex items-center justify-center">
+                {activeFilterCount}
+              </span>
+            )}
+            {showFilters ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+        </div>
       </div>
 
+      {importError && (
+        <div className="mb-6 bg-red-500/10 border border-red-500/30 p-3 flex items-start justify-between gap-3">
+          <p className="text-xs text-red-400 font-mono">{importError}</p>
+          <button onClick={() => setImportError(null)} className="text-red-400 hover:text-white">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
       {/* Title */}
       <div className="mb-6">
         <h1 className="text-3xl volt-header uppercase italic leading-none mb-2">PROGRAM LIBRARY</h1>
@@ -17,9 +17,10 @@ import {
   Target,
   BarChart2,
   Zap,
-  AlertTriangle
+  AlertTriangle,
+  SlidersHorizontal
 } from 'lucide-react';
-import { Program, ProgramSession, ProgramGoal, ProgramSplitType, ProgramDifficulty, WorkoutSession } from '../types';
+import { Program, ProgramSession, ProgramGoal, ProgramSplitType, ProgramDifficulty, WorkoutSession, ExercisePrescription } from '../types';
 import { haptic } from '../services/haptics';
 
 interface WeekData {
@@ -32,6 +33,23 @@ const GOALS: ProgramGoal[] = ['Hypertrophy', 'Strength', 'Powerlifting', 'Power-
 const SPLIT_TYPES: ProgramSplitType[] = ['PPL', 'Upper/Lower', 'Full Body', 'Body Part Split'];
 const DIFFICULTIES: ProgramDifficulty[] = ['Beginner', 'Intermediate', 'Advanced'];
 
+// Editable prescription fields, in column order
+const PRESCRIPTION_FIELDS: { key: keyof Omit<ExercisePrescription, 'exerciseId'>; label: string; step: number }[] = [
+  { key: 'sets', label: 'Sets', step: 1 },
+  { key: 'reps', label: 'Reps', step: 1 },
+  { key: 'repsMax', label: 'Max', step: 1 },
+  { key: 'rpe', label: 'RPE', step: 0.5 },
+  { key: 'percentage', label: '%TM', step: 2.5 },
+  { key: 'rest', label: 'Rest', step: 15 },
+];
+
+const formatPrescription = (p: ExercisePrescription) => {
+  const reps = p.repsMax ? `${p.reps}-${p.repsMax}` : `${p.reps}`;
+  const load = p.percentage ? ` @ ${p.percentage}%` : '';
+  const rpe = p.rpe ? ` RPE ${p.rpe}` : '';
+  return `${p.sets}x${reps}${load}${rpe}`;
+};
+
 const ProgramBuilder = () => {
   const navigate = useNavigate();
   const { templates, programs, saveProgram, saveTemplate } = useStore();
@@ -55,6 +73,7 @@ const ProgramBuilder = () => {
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
   const [showQuickTemplateBuilder, setShowQuickTemplateBuilder] = useState(false);
   const [pendingSessionDay, setPendingSessionDay] = useState<number>(1);
+  const [editingDay, setEditingDay] = useState<number | null>(null);
 
   // Quick template builder state
   const [quickTemplateName, setQuickTemplateName] = useState('');
@@ -128,6 +147,59 @@ const ProgramBuilder = () => {
     }));
   };
 
+  // Update one session of a week
+  const updateSession = (weekNumber: number, day: number, update: (session: ProgramSession) => ProgramSession) => {
+    setWeekData(weekData.map(week => week.weekNumber === weekNumber
+      ? { ...week, sessions: week.sessions.map(s => s.day === day ? update(s) : s) }
+      : week
+    ));
+  };
+
+  // Open the prescription editor, starting from the template's sets
+  const editPrescription = (weekNumber: number, session: ProgramSession) => {
+    haptic('selection');
+    if (editingDay === session.day) {
+      setEditingDay(null);
+      return;
+    }
+    setEditingDay(session.day);
+    if (session.exercises) return;
+
+    const template = getTemplate(session.templateId);
+    updateSession(weekNumber, session.day, s => ({
+      ...s,
+      exercises: (template?.logs || []).map(log => ({
+        exerciseId: log.exerciseId,
+        sets: log.sets.length || 3,
+        reps: log.sets[0]?.reps || 8,
+      })),
+    }));
+  };
+
+  const updatePrescription = (
+    weekNumber: number,
+    day: number,
+    exerciseIndex: number,
+    key: keyof ExercisePrescription,
+    value: string
+  ) => {
+    const parsed = value === '' ? undefined : Number(value);
+    // Sets and reps are required
+    if ((key === 'sets' || key === 'reps') && (parsed === undefined || parsed < 1)) return;
+
+    updateSession(weekNumber, day, s => ({
+      ...s,
+      exercises: s.exercises?.map((p, i) => i === exerciseIndex ? { ...p, [key]: parsed } : p),
+    }));
+  };
+
+  // Drop the prescription, going back to the template's sets
+  const clearPrescription = (weekNumber: number, day: number) => {
+    haptic('light');
+    updateSession(weekNumber, day, ({ exercises, ...s }) => s);
+    setEditingDay(null);
+  };
+
   // Toggle week expansion
   const toggleWeek = (weekNumber: number) => {
     setWeekData(weekData.map(week => ({
@@ -356,6 +428,7 @@ const ProgramBuilder = () => {
               key={week.weekNumber}
               onClick={() => {
                 setActiveWeek(week.weekNumber);
+                setEditingDay(null);
                 toggleWeek(week.weekNumber);
               }}
               className={`px-4 py-2 text-xs font-bold uppercase whitespace-nowrap transition-colors ${
@@ -424,12 +497,26 @@ const ProgramBuilder = () => {
                       </div>
                       <div className="flex items-center gap-2">
                         {daySession ? (
-                          <button
-                            onClick={() => removeSession(week.weekNumber, week.sessions.indexOf(daySession))}
-                            className="w-8 h-8 flex items-center justify-center text-[#666] hover:text-red-500 transition-colors"
-                          >
-                            <Trash2 size={16} />
-                          </button>
+                          <>
+                            <button
+                              onClick={() => editPrescription(week.weekNumber, daySession)}
+                              aria-label="Edit sets and reps"
+                              className={`w-8 h-8 flex items-center justify-center transition-colors ${
+                                daySession.exercises ? 'text-primary' : 'text-[#666] hover:text-white'
+                              }`}
+                            >
+                              <SlidersHorizontal size={16} />
+                            </button>
+                            <button
+                              onClick={() => {
+                                setEditingDay(null);
+                                removeSession(week.weekNumber, week.sessions.indexOf(daySession));
+                              }}
+                              className="w-8 h-8 flex items-center justify-center text-[#666] hover:text-red-500 transition-colors"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </>
                         ) : (
                           <button
                             onClick={() => {
@@ -443,6 +530,55 @@ const ProgramBuilder = () => {
                         )}
                       </div>
                     </div>
+
+                    {/* Prescription summary */}
+                    {daySession?.exercises && editingDay !== day && (
+                      <div className="mt-2 pl-11 space-y-0.5">
+                        {daySession.exercises.map((p, i) => (
+                          <p key={i} className="text-[10px] text-[#888] font-mono uppercase">
+                            {EXERCISE_LIBRARY.find(e => e.id === p.exerciseId)?.name || p.exerciseId}: {formatPrescription(p)}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Prescription editor */}
+                    {daySession?.exercises && editingDay === day && (
+                      <div className="mt-3 space-y-3">
+                        {daySession.exercises.map((p, i) => (
+                          <div key={i} className="border border-[#222] bg-black p-2">
+                            <div className="text-xs font-bold uppercase text-white mb-2">
+                              {EXERCISE_LIBRARY.find(e => e.id === p.exerciseId)?.name || p.exerciseId}
+                            </div>
+                            <div className="grid grid-cols-6 gap-1">
+                              {PRESCRIPTION_FIELDS.map(field => (
+                                <label key={field.key} className="block">
+                                  <span className="text-[9px] text-[#666] uppercase font-bold block mb-1">{field.label}</span>
+                                  <input
+                                    type="number"
+                                    inputMode="decimal"
+                                    min={0}
+                                    step={field.step}
+                                    value={p[field.key] ?? ''}
+                                    onChange={(e) => updatePrescription(week.weekNumber, day, i, field.key, e.target.value)}
+                                    className="w-full bg-[#111] border border-[#333] px-1 py-1 text-white text-xs font-mono text-center focus:border-primary outline-none"
+                                  />
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                        <div className="flex justify-between items-center">
+                          <span className="text-[9px] text-[#666] font-mono uppercase">%TM uses your training maxes. Rest in seconds.</span>
+                          <button
+                            onClick={() => clearPrescription(week.weekNumber, day)}
+                            className="px-3 py-1 text-[10px] font-bold uppercase text-[#666] border border-[#333] hover:text-white transition-colors"
+                          >
+                            Use Template
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -3,6 +3,9 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { useStore } from '../store/useStore';
 import { EXERCISE_LIBRARY } from '../constants';
 import { getProgramMethodology } from '../utils/programMethodologies';
+import { createProgramPackage, serializeProgramPackage, getProgramPackageLink } from '../services/programPackage';
+import { downloadFile } from '../services/dataExport';
+import { haptic } from '../services/haptics';
 import {
   ArrowLeft,
   Calendar,
@@ -16,13 +19,15 @@ import {
   Dumbbell,
   ExternalLink,
   AlertCircle,
-  Info
+  Info,
+  Download,
+  Link2
 } from 'lucide-react';
 
 const ProgramDetail = () => {
   const { programId } = useParams<{ programId: string }>();
   const navigate = useNavigate();
-  const { programs, settings, templates, activateProgram, startWorkout } = useStore();
+  const { programs, settings, templates, customExercises, activateProgram, startWorkout } = useStore();
 
   // State
   const [activeTab, setActiveTab] = useState<'overview' | 'workouts'>('workouts');
@@ -31,6 +36,8 @@ const ProgramDetail = () => {
   const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
   const [acknowledged, setAcknowledged] = useState(false);
   const [selectedFrequency, setSelectedFrequency] = useState<number | null>(null);
+  const [showShareMenu, setShowShareMenu] = useState(false);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
 
   // Find the program
   const program = useMemo(() => {
@@ -151,6 +158,27 @@ const ProgramDetail = () => {
     return endDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
   };
 
+  // Share the program with its templates and custom exercises
+  const handleShare = async (target: 'file' | 'link') => {
+    if (!program) return;
+    haptic('light');
+    setShowShareMenu(false);
+
+    try {
+      const pkg = createProgramPackage(program, { templates, customExercises });
+      if (target === 'file') {
+        const slug = program.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+        downloadFile(serializeProgramPackage(pkg), `voltlift-program-${slug}.json`, 'application/json');
+        setShareStatus('Program file downloaded');
+      } else {
+        await navigator.clipboard.writeText(getProgramPackageLink(pkg, window.location.origin + window.location.pathname));
+        setShareStatus('Share link copied');
+      }
+    } catch (error) {
+      setShareStatus(error instanceof Error ? error.message : 'Could not share program');
+    }
+  };
+
   // Handle start workout
   const handleStartWorkout = (templateId: string, week: number, day: number) => {
     startWorkout(templateId);
@@ -186,7 +214,7 @@ const ProgramDetail = () => {
   const difficulty = getDifficulty(program);
 
   // Get program-specific methodology
-  const methodology = getProgramMethodology(program.id);
+  const methodology = getProgramMethodology(program.id, program.methodology);
 
   // Get sessions grouped by week
   const sessionsByWeek = useMemo(() => {
@@ -233,11 +261,42 @@ const ProgramDetail = () => {
             </button>
           </div>
 
-          <button className="text-[#888] hover:text-white transition-colors">
-            <ExternalLink size={20} />
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowShareMenu(!showShareMenu)}
+              aria-label="Share program"
+              className="text-[#888] hover:text-white transition-colors"
+            >
+              <ExternalLink size={20} />
+            </button>
+            {showShareMenu && (
+              <div className="absolute right-0 top-8 w-44 bg-[#111] border border-[#333] z-30">
+                <button
+                  onClick={() => handleShare('file')}
+                  className="w-full px-4 py-3 text-left text-xs font-bold uppercase text-white hover:bg-[#222] flex items-center gap-2"
+                >
+                  <Download size={14} /> Export File
+                </button>
+                <button
+                  onClick={() => handleShare('link')}
+                  className="w-full px-4 py-3 text-left text-xs font-bold uppercase text-white hover:bg-[#222] flex items-center gap-2 border-t border-[#222]"
+                >
+                  <Link2 size={14} /> Copy Link
+                </button>
+              </div>
+            )}
+          </div>
         </div>
 
+        {shareStatus && (
+          <button
+            onClick={() => setShareStatus(null)}
+            className="w-full px-4 pb-3 text-left text-[10px] font-mono uppercase text-primary"
+          >
+            {shareStatus}
+          </button>
+        )}
+
         {/* Week Tabs - Only show in Workouts tab */}
         {activeTab === 'workouts' && (
           <div className="px-4 pb-3">
@@ -3,12 +3,12 @@ import React, { useState, useEffect, useRef, useMemo, useCallback, lazy, Suspens
 import { useStore } from '../store/useStore';
 import { useNavigate } from 'react-router-dom';
 import { EXERCISE_LIBRARY } from '../constants';
-import { Check, Plus, MoreHorizontal, Timer, Sparkles, X, AlertTriangle, RefreshCw, Trash2, StickyNote, Trophy, ArrowRight, Calculator, ChevronDown, ChevronUp, Link as LinkIcon, Unlink, Heart, Copy, Play, Search } from 'lucide-react';
+import { Check, Plus, MoreHorizontal, Timer, Sparkles, X, AlertTriangle, RefreshCw, Trash2, StickyNote, Trophy, ArrowRight, Calculator, ChevronDown, ChevronUp, Link as LinkIcon, Unlink, Heart, Copy, Play, Search, Flame, SlidersHorizontal } from 'lucide-react';
 import { getProgressiveOverloadTip } from '../services/geminiService';
 import { sendRestTimerAlert, sendPRCelebration } from '../services/notificationService';
 import { SetType } from '../types';
 import { formatTime } from '../utils/formatters';
-import { calculatePlateLoading, formatWeight } from '../utils/conversions';
+import { formatWeight, fromDisplayWeight, roundToDisplayStep, toDisplayWeight } from '../utils/conversions';
 import { playBoxingBell } from '../utils/audioAlerts';
 import { AISuggestionBadge, VolumeWarningBadge, RecoveryScore } from '../components/AISuggestionBadge';
 import { checkAllPRs, PRDetection } from '../services/strengthScore';
@@ -21,8 +21,16 @@ import { Skeleton } from '../components/Skeleton';
 import KeyboardToolbar from '../components/KeyboardToolbar';
 import { InAppVideoPlayer } from '../components/InAppVideoPlayer';
 import { SmartSwapModal } from '../components/SmartSwapModal';
+import { WarmupSchemeEditor } from '../components/WarmupSchemeEditor';
+import { WorkoutBlockPanel } from '../components/WorkoutBlockPanel';
 import { findSubstitutes as findExerciseSubstitutes } from '../services/exerciseRecommendation';
+import { getGymProfile, hasEquipment as gymHasEquipment } from '../services/gymProfiles';
+import { getLoadBreakdown, getLoadRounding } from '../services/loadRounding';
 import { WorkoutCompleteModal as XPCelebrationModal } from '../components/gamification';
+import { heartRateMonitor } from '../services/heartRateService';
+import { useHeartRateMonitor } from '../hooks/useHeartRateMonitor';
+import { SetMetricInputs, getMetricColumnLabels } from '../components/SetMetricInputs';
+import { getExerciseMetric, isSetLoggable, formatPRValue } from '../services/setMetrics';
 
 // Lazy load heavy components
 const PRCelebration = lazy(() => import('../components/PRCelebration'));
@@ -34,7 +42,7 @@ const PostWorkoutFeedback = lazy(() => import('../components/PostWorkoutFeedback
 const AchievementCelebrationModal = lazy(() => import('../components/achievements/AchievementCelebrationModal'));
 
 const WorkoutLogger = () => {
-  const { activeWorkout, finishWorkout, saveDraft, cancelWorkout, updateSet, addSet, duplicateSet, removeSet, addExerciseToActive, settings, history, swapExercise, updateExerciseLog, removeExerciseLog, getExerciseHistory, restTimerStart, restDuration, startRestTimer, stopRestTimer, getRestTimerForExercise, toggleSuperset, updateActiveWorkout, addBiometricPoint, getProgressiveSuggestion, getVolumeWarning, undoStack, restoreLastDeleted, clearUndoStack, toggleFavoriteExercise, getAllExercises, createCustomExercise, customExercises, gamification, updateGamification } = useStore();
+  const { activeWorkout, finishWorkout, saveDraft, cancelWorkout, updateSet, addSet, duplicateSet, removeSet, addExerciseToActive, settings, history, swapExercise, updateExerciseLog, removeExerciseLog, getExerciseHistory, restTimerStart, restDuration, startRestTimer, stopRestTimer, getRestTimerForExercise, toggleSuperset, updateActiveWorkout, addBiometricPoint, getProgressiveSuggestion, getVolumeWarning, undoStack, restoreLastDeleted, clearUndoStack, toggleFavoriteExercise, getAllExercises, createCustomExercise, customExercises, gamification, updateGamification, addWarmupSets } = useStore();
   const navigate = useNavigate();
   const [showExerciseSelector, setShowExerciseSelector] = useState(false);
   const [showCreateExercise, setShowCreateExercise] = useState(false);
@@ -90,6 +98,8 @@ const WorkoutLogger = () => {
   const [loadingAi, setLoadingAi] = useState<string | null>(null);
 
   const [activeMenuId, setActiveMenuId] = useState<string | null>(null);
+  const [warmupEditorIndex, setWarmupEditorIndex] = useState<number | null>(null);
+  const [warmupNotice, setWarmupNotice] = useState<string | null>(null);
   const [showNotesId, setShowNotesId] = useState<string | null>(null);
 
   // Set Context Menu State
@@ -97,7 +107,7 @@ const WorkoutLogger = () => {
   const longPressTimer = useRef<NodeJS.Timeout | null>(null);
 
   // Plate Calculator State
-  const [calculatorTarget, setCalculatorTarget] = useState<number | null>(null);
+  const [calculatorTarget, setCalculatorTarget] = useState<{ kg: number; exerciseId: string } | null>(null);
 
   // Timer Local State (synced with global)
   const [timeLeft, setTimeLeft] = useState(0);
@@ -125,8 +135,9 @@ const WorkoutLogger = () => {
   // XP Celebration Modal State
   const [showXPCelebration, setShowXPCelebration] = useState(false);
 
-  // Live Heart Rate Simulation State
-  const [bpm, setBpm] = useState(70);
+  // Live Heart Rate (Bluetooth strap)
+  const { state: heartRate, connect: connectHeartRate } = useHeartRateMonitor();
+  const lastBiometricRef = useRef(0);
 
   // Track if notification was sent for current rest timer session
   const [notificationSent, setNotificationSent] = useState(false);
@@ -237,37 +248,17 @@ const WorkoutLogger = () => {
       return () => clearInterval(interval);
   }, [restTimerStart, restDuration, stopRestTimer, notificationSent, settings.notifications]);
 
-  // Heart Rate Simulation Logic
+  // Stream strap readings into the session (sensors notify ~1/s, keep one point every 2s)
+  const hasActiveWorkout = !!activeWorkout;
   useEffect(() => {
-      if (!activeWorkout) return;
+      if (!hasActiveWorkout) return;
 
-      const interval = setInterval(() => {
-          setBpm(prev => {
-              let target = 70; // Resting base
-              if (restTimerStart) {
-                  target = 110; // Recovering
-              } else {
-                  target = 150; // Lifting active
-              }
-
-              // Random fluctuation + drift towards target
-              const noise = Math.random() * 4 - 2;
-              const diff = target - prev;
-              const drift = diff * 0.1;
-              const newBpm = Math.round(prev + drift + noise);
-
-              return newBpm;
-          });
-      }, 2000); // Update every 2s
-
-      return () => clearInterval(interval);
-  }, [activeWorkout, restTimerStart]);
-
-  // Save biometric data separately to avoid state update during render
-  useEffect(() => {
-      if (!activeWorkout) return;
-      addBiometricPoint({ timestamp: Date.now(), heartRate: bpm });
-  }, [bpm, activeWorkout, addBiometricPoint]);
+      return heartRateMonitor.onReading(point => {
+          if (point.timestamp - lastBiometricRef.current < 2000) return;
+          lastBiometricRef.current = point.timestamp;
+          addBiometricPoint(point);
+      });
+  }, [hasActiveWorkout, addBiometricPoint]);
 
   const handleFinish = () => {
     setShowCompletionModal(true);
@@ -311,8 +302,10 @@ const WorkoutLogger = () => {
   };
 
   // Phase 5: AMAP Modal Handlers
-  const handleAmapConfirm = (newTM: number) => {
+  // The AMAP and cycle modals work in pounds; training maxes are stored in kg
+  const handleAmapConfirm = (newTMLbs: number) => {
     if (!amapModalData) return;
+    const newTM = fromDisplayWeight(newTMLbs, 'lbs');
 
     // Update Training Max in settings
     useStore.getState().updateSettings({
@@ -367,16 +360,17 @@ const WorkoutLogger = () => {
       updateSet(exerciseIndex, setIndex, { completed });
 
       if (completed) {
-          // Trigger Per-Exercise Rest Timer (uses category-specific defaults)
-          const restTime = getRestTimerForExercise(exerciseId);
+          // Trigger Per-Exercise Rest Timer (program prescription, then category-specific defaults)
+          const restTime = activeWorkout?.logs[exerciseIndex]?.restSeconds ?? getRestTimerForExercise(exerciseId);
           startRestTimer(restTime);
 
           // Enhanced Multi-PR Detection (Alpha Progression strategy)
           const prHistory = settings.personalRecords[exerciseId];
           const currentSet = activeWorkout?.logs[exerciseIndex]?.sets[setIndex];
+          const metric = getExerciseMetric(exerciseId, customExercises);
 
-          if (currentSet && weight > 0 && reps > 0) {
-              const detectedPRs = checkAllPRs(currentSet, prHistory);
+          if (currentSet && isSetLoggable(currentSet, metric)) {
+              const detectedPRs = checkAllPRs(currentSet, prHistory, metric, settings.units, settings.e1rmFormula);
 
               if (detectedPRs.length > 0) {
                   // Filter out PRs that have already been celebrated in this workout session
@@ -402,11 +396,13 @@ const WorkoutLogger = () => {
                       if (settings.notifications?.enabled && settings.notifications?.prCelebrations) {
                           // Send notification for the most significant PR
                           const primaryPR = newPRs[0];
-                          const achievement = primaryPR.type === 'weight'
-                              ? `${primaryPR.value}${settings.units} x ${reps}`
+                          const achievement = metric !== 'weight_reps'
+                              ? formatPRValue(primaryPR.type, primaryPR.value, settings.units)
+                              : primaryPR.type === 'weight'
+                              ? `${toDisplayWeight(primaryPR.value, settings.units)}${settings.units} x ${reps}`
                               : primaryPR.type === 'reps'
-                              ? `${reps} reps @ ${weight}${settings.units}`
-                              : `${primaryPR.value}${settings.units} volume`;
+                              ? `${reps} reps @ ${toDisplayWeight(weight, settings.units)}${settings.units}`
+                              : `${toDisplayWeight(primaryPR.value, settings.units)}${settings.units} volume`;
 
                           sendPRCelebration(
                               newPRs.length > 1 ? `${newPRs.length} PRs` : primaryPR.type,
@@ -561,12 +557,19 @@ const WorkoutLogger = () => {
       }
   };
 
-  // Plate Calc Logic using unit-aware conversion utility (Memoized)
-  const getPlates = useCallback((target: number) => {
-      const bar = settings.barWeight || (settings.units === 'kg' ? 20 : 45);
-      const customPlates = settings.availablePlates?.[settings.units];
-      return calculatePlateLoading(target, bar, settings.units, customPlates);
-  }, [settings.barWeight, settings.units, settings.availablePlates]);
+  // Weights are stored in kg - inputs and labels use the user's units
+  const displayWeight = useCallback((kg: number) => toDisplayWeight(kg, settings.units), [settings.units]);
+
+  // Bars, plates and equipment come from the gym this workout was started at
+  const gym = useMemo(() => getGymProfile(settings, activeWorkout?.gymProfileId), [settings, activeWorkout?.gymProfileId]);
+
+  // Plate Calc Logic - plates, dumbbells or pin for the exercise's loading type (Memoized)
+  const calculatorLoad = useMemo(() => {
+      if (!calculatorTarget) return null;
+      const load = getLoadRounding(calculatorTarget.exerciseId, settings, customExercises, activeWorkout?.gymProfileId)
+        || { loadingType: 'barbell' as const, gym };
+      return getLoadBreakdown(calculatorTarget.kg, load);
+  }, [calculatorTarget, settings, customExercises, activeWorkout?.gymProfileId, gym]);
 
   // Rest Timer Progress Percentage (Memoized)
   const timerProgress = useMemo(() =>
@@ -742,20 +745,37 @@ const WorkoutLogger = () => {
       )}
 
       {/* Plate Calculator Modal */}
-      {calculatorTarget !== null && (
+      {calculatorTarget !== null && calculatorLoad && (
           <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-sm animate-fade-in" onClick={() => setCalculatorTarget(null)}>
               <div className="bg-[#111] border border-[#333] p-8 max-w-sm w-full mx-4 relative" onClick={e => e.stopPropagation()}>
                   <button onClick={() => setCalculatorTarget(null)} className="absolute top-4 right-4 text-[#666] hover:text-white" aria-label="Close calculator"><X size={24} /></button>
-                  <h3 className="volt-header text-2xl text-white mb-6">LOAD BAR</h3>
+                  <h3 className="volt-header text-2xl text-white mb-6">
+                      {calculatorLoad.loadingType === 'barbell' ? 'LOAD BAR'
+                        : calculatorLoad.dumbbellCount ? 'GRAB DUMBBELLS'
+                        : calculatorLoad.pin !== undefined ? 'SET PIN'
+                        : calculatorLoad.beltPlates ? 'LOAD BELT' : 'LOAD MACHINE'}
+                  </h3>
 
                   <div className="flex justify-between items-end border-b border-[#333] pb-4 mb-6">
                       <span className="text-[#888] font-mono text-sm uppercase">TARGET</span>
-                      <span className="text-4xl font-black italic text-primary">{calculatorTarget} <span className="text-lg text-white">{(settings.units || 'lbs').toUpperCase()}</span></span>
+                      <span className="text-4xl font-black italic text-primary">{displayWeight(calculatorTarget.kg)} <span className="text-lg text-white">{(settings.units || 'lbs').toUpperCase()}</span></span>
                   </div>
 
+                  {(calculatorLoad.dumbbell !== undefined || calculatorLoad.pin !== undefined) ? (
+                      <div className="text-center mb-8">
+                          <span className="text-5xl font-black italic text-white">
+                              {calculatorLoad.dumbbellCount === 2 && <span className="text-2xl text-[#666]">2 × </span>}
+                              {calculatorLoad.total}
+                          </span>
+                          <span className="text-lg text-white ml-2">{calculatorLoad.units.toUpperCase()}</span>
+                          <div className="text-[#666] font-mono text-[10px] uppercase mt-2">
+                              {calculatorLoad.pin !== undefined ? 'Pin Position' : calculatorLoad.dumbbellCount === 2 ? 'One In Each Hand' : 'Single Dumbbell'}
+                          </div>
+                      </div>
+                  ) : (
                   <div className="flex justify-center items-center gap-2 mb-8 flex-wrap">
                       <div className="h-24 w-4 bg-[#444] rounded-sm"></div> {/* Bar End */}
-                      {getPlates(calculatorTarget).map((p, i) => {
+                      {(calculatorLoad.platesPerSide || calculatorLoad.beltPlates || []).map((p, i) => {
                           const height = p >= 45 ? 96 : p >= 25 ? 80 : p >= 10 ? 64 : 48;
                           return (
                               <div
@@ -767,11 +787,18 @@ const WorkoutLogger = () => {
                               </div>
                           );
                       })}
-                      {getPlates(calculatorTarget).length === 0 && <span className="text-[#444] font-mono text-xs uppercase">BAR ONLY</span>}
+                      {(calculatorLoad.platesPerSide || calculatorLoad.beltPlates || []).length === 0 && (
+                          <span className="text-[#444] font-mono text-xs uppercase">{calculatorLoad.barWeight ? 'BAR ONLY' : 'NO PLATES'}</span>
+                      )}
                   </div>
+                  )}
 
                   <div className="text-center text-[#666] font-mono text-[10px] uppercase">
-                      Based on {settings.barWeight}{(settings.units || 'lbs').toUpperCase()} Bar • Per Side Shown
+                      {calculatorLoad.barWeight !== undefined && <>Based on {calculatorLoad.barWeight}{calculatorLoad.units.toUpperCase()} Bar • Per Side Shown</>}
+                      {calculatorLoad.loadingType === 'plate_loaded' && <>Per Side Shown</>}
+                      {calculatorLoad.beltPlates && <>On The Belt</>}
+                      {calculatorLoad.total !== toDisplayWeight(calculatorTarget.kg, calculatorLoad.units) && <> • Nearest Loadable {calculatorLoad.total}{calculatorLoad.units.toUpperCase()}</>}
+                      {settings.gymProfiles?.length ? ` • ${gym.name}` : ''}
                   </div>
               </div>
           </div>
@@ -860,10 +887,32 @@ const WorkoutLogger = () => {
       <div className="sticky top-0 z-40 bg-black/95 border-b border-[#333] p-4 flex justify-between items-center safe-area-top" role="banner">
         <div className="flex items-center gap-4">
             {/* Live HR Monitor */}
-            <div className="flex items-center gap-2 bg-[#111] px-2 py-1 rounded border border-[#222]" role="status" aria-live="polite" aria-label={`Heart rate: ${bpm} beats per minute`}>
-                <Heart size={12} className="text-red-500 animate-pulse" fill="currentColor" aria-hidden="true" />
-                <span className="text-xs font-mono font-bold text-white w-8 text-right">{bpm}</span>
-            </div>
+            {heartRate.status === 'connected' || heartRate.status === 'reconnecting' ? (
+                <div
+                    className="flex items-center gap-2 bg-[#111] px-2 py-1 rounded border border-[#222]"
+                    role="status"
+                    aria-live="polite"
+                    aria-label={heartRate.heartRate ? `Heart rate: ${heartRate.heartRate} beats per minute` : 'Heart rate sensor reconnecting'}
+                    title={heartRate.batteryLevel !== null ? `${heartRate.deviceName} · Battery ${heartRate.batteryLevel}%` : heartRate.deviceName || undefined}
+                >
+                    <Heart size={12} className={heartRate.heartRate ? 'text-red-500 animate-pulse' : 'text-[#666]'} fill="currentColor" aria-hidden="true" />
+                    <span className="text-xs font-mono font-bold text-white w-8 text-right">{heartRate.heartRate ?? '--'}</span>
+                    {heartRate.batteryLevel !== null && heartRate.batteryLevel <= 15 && (
+                        <span className="text-[9px] font-mono text-yellow-500">{heartRate.batteryLevel}%</span>
+                    )}
+                </div>
+            ) : (
+                <button
+                    onClick={connectHeartRate}
+                    disabled={heartRate.status === 'connecting' || heartRate.status === 'unavailable'}
+                    className="flex items-center gap-1 bg-[#111] px-2 py-1 rounded border border-[#222] text-[10px] font-mono font-bold uppercase text-[#666] hover:text-white disabled:opacity-50"
+                    aria-label="Connect Bluetooth heart rate sensor"
+                    title={heartRate.error || undefined}
+                >
+                    <Heart size={12} aria-hidden="true" />
+                    {heartRate.status === 'connecting' ? '...' : heartRate.status === 'unavailable' ? 'N/A' : 'HR'}
+                </button>
+            )}
         </div>
 
         <div className="flex flex-col items-center">
@@ -904,7 +953,8 @@ const WorkoutLogger = () => {
       <div className="p-4 space-y-4">
         {activeWorkout.logs.map((log, exerciseIndex) => {
           const exerciseDef = EXERCISE_LIBRARY.find(e => e.id === log.exerciseId);
-          const hasEquipment = exerciseDef && settings.availableEquipment.includes(exerciseDef.equipment);
+          const metric = getExerciseMetric(log.exerciseId, customExercises);
+          const hasEquipment = exerciseDef && gymHasEquipment(gym, exerciseDef.equipment);
           const canSubstitute = exerciseDef && !hasEquipment;
           const showNotes = showNotesId === log.id || (log.notes && log.notes.length > 0);
 
@@ -953,6 +1003,9 @@ const WorkoutLogger = () => {
                   </div>
               )}
 
+              {/* Block type and timer for the group */}
+              {isSupersetStart && <WorkoutBlockPanel blockId={log.supersetId!} />}
+
               {/* Exercise Header */}
               <div className="p-4 flex justify-between items-start border-b border-[#222]">
                 <div className="flex-1">
@@ -984,7 +1037,7 @@ const WorkoutLogger = () => {
                     )}
                     {prevBestSet && (
                         <p className="text-[10px] text-[#666] font-mono mt-1 uppercase">
-                            Prev Best: {prevBestSet.weight}lbs x {prevBestSet.reps}
+                            Prev Best: {displayWeight(prevBestSet.weight)}{settings.units} x {prevBestSet.reps}
                         </p>
                     )}
                     {!hasEquipment && (
@@ -1029,6 +1082,23 @@ const WorkoutLogger = () => {
                                 {isLinkedToNext ? <Unlink size={14} /> : <LinkIcon size={14} />}
                                 {isLinkedToNext ? 'Unlink from Next' : 'Link with Next (Superset)'}
                             </button>
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    const added = addWarmupSets(exerciseIndex);
+                                    setWarmupNotice(added > 0 ? `${added} warm-up sets added` : 'Enter a working weight first');
+                                    setActiveMenuId(null);
+                                }}
+                                className="px-4 py-3 text-left text-xs font-bold uppercase tracking-wider text-[#ccc] hover:bg-[#333] hover:text-white flex items-center gap-2"
+                            >
+                                <Flame size={14} /> Add Warm-Ups
+                            </button>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setWarmupEditorIndex(exerciseIndex); setActiveMenuId(null); }}
+                                className="px-4 py-3 text-left text-xs font-bold uppercase tracking-wider text-[#ccc] hover:bg-[#333] hover:text-white flex items-center gap-2"
+                            >
+                                <SlidersHorizontal size={14} /> Warm-Up Settings
+                            </button>
                             <button
                                 onClick={(e) => { e.stopPropagation(); initiateManualSwap(log.id); }}
                                 className="px-4 py-3 text-left text-xs font-bold uppercase tracking-wider text-[#ccc] hover:bg-[#333] hover:text-white flex items-center gap-2"
@@ -1054,9 +1124,11 @@ const WorkoutLogger = () => {
                    const handleApplySuggestion = () => {
                      // Find first uncompleted set
                      const firstUncompletedIndex = log.sets.findIndex(s => !s.completed);
+                     // Suggestions for known exercises are already achievable loads
+                     const isRounded = !!getLoadRounding(log.exerciseId, settings, customExercises);
                      if (firstUncompletedIndex !== -1) {
                        updateSet(exerciseIndex, firstUncompletedIndex, {
-                         weight: suggestion.weight,
+                         weight: isRounded ? suggestion.weight : roundToDisplayStep(suggestion.weight, settings.units, 1),
                          reps: suggestion.reps[1] // Use upper bound of range
                        });
                      }
@@ -1111,14 +1183,22 @@ const WorkoutLogger = () => {
               {/* Sets Header */}
               <div className="grid grid-cols-12 gap-2 p-3 text-[10px] font-bold text-[#666] uppercase tracking-widest text-center mt-2">
                 <div className="col-span-1">TAG</div>
-                <div className="col-span-3">
-                  {isBodyweightExercise(log.exerciseId) ? (
-                    <span className="text-primary">+{(settings.units || 'lbs').toUpperCase()}</span>
-                  ) : (
-                    (settings.units || 'lbs').toUpperCase()
-                  )}
-                </div>
-                <div className="col-span-3">REPS</div>
+                {metric !== 'weight_reps' ? (
+                  getMetricColumnLabels(metric, settings.units || 'lbs').map((label, i, labels) => (
+                    <div key={i} className={labels.length === 1 ? 'col-span-6' : 'col-span-3'}>{label}</div>
+                  ))
+                ) : (
+                  <>
+                    <div className="col-span-3">
+                      {isBodyweightExercise(log.exerciseId) ? (
+                        <span className="text-primary">+{(settings.units || 'lbs').toUpperCase()}</span>
+                      ) : (
+                        (settings.units || 'lbs').toUpperCase()
+                      )}
+                    </div>
+                    <div className="col-span-3">REPS</div>
+                  </>
+                )}
                 <div className="col-span-2">
                   RPE
                   {parseRPETarget(activeWorkout.notes) && (
@@ -1158,162 +1238,180 @@ const WorkoutLogger = () => {
                       </Suspense>
                     </div>
 
-                    {/* Weight Input */}
-                    <div className="col-span-3 relative">
-                      {isBW ? (
-                        // Bodyweight exercise: weight field is for ADDITIONAL weight only (vest, belt, etc.)
-                        // Like Hevy/Strong: "Weighted Bodyweight" type - user enters extra weight, not their bodyweight
-                        <div className="relative">
-                          <input
-                            type="number"
-                            value={set.weight || ''}
-                            onChange={(e) => {
-                              const value = parseFloat(e.target.value);
-                              if (!isNaN(value) && value >= 0) {
-                                updateSet(exerciseIndex, setIndex, { weight: value });
-                              } else if (e.target.value === '') {
-                                updateSet(exerciseIndex, setIndex, { weight: 0 });
-                              }
-                            }}
-                            onFocus={(e) => {
-                              // Track focused input for keyboard toolbar
-                              setFocusedInput(e.currentTarget);
-                              // Scroll input into view above keyboard
-                              scrollInputIntoView(e.currentTarget);
-                            }}
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') {
-                                e.preventDefault();
-                                const repsInput = e.currentTarget.parentElement?.parentElement?.nextElementSibling?.querySelector('input');
-                                if (repsInput) {
-                                  (repsInput as HTMLInputElement).focus();
-                                  e.currentTarget.blur();
+                    {metric !== 'weight_reps' ? (
+                      <SetMetricInputs
+                        set={set}
+                        previousSet={previousSet}
+                        metric={metric}
+                        units={settings.units || 'lbs'}
+                        exerciseName={exerciseDef?.name || 'exercise'}
+                        setNumber={setIndex + 1}
+                        onChange={(updates) => updateSet(exerciseIndex, setIndex, updates)}
+                        onFocus={(input) => {
+                          setFocusedInput(input);
+                          scrollInputIntoView(input);
+                        }}
+                      />
+                    ) : (
+                    <>
+                      {/* Weight Input */}
+                      <div className="col-span-3 relative">
+                        {isBW ? (
+                          // Bodyweight exercise: weight field is for ADDITIONAL weight only (vest, belt, etc.)
+                          // Like Hevy/Strong: "Weighted Bodyweight" type - user enters extra weight, not their bodyweight
+                          <div className="relative">
+                            <input
+                              type="number"
+                              value={displayWeight(set.weight) || ''}
+                              onChange={(e) => {
+                                const value = parseFloat(e.target.value);
+                                if (!isNaN(value) && value >= 0) {
+                                  updateSet(exerciseIndex, setIndex, { weight: fromDisplayWeight(value, settings.units) });
+                                } else if (e.target.value === '') {
+                                  updateSet(exerciseIndex, setIndex, { weight: 0 });
                                 }
-                              }
-                            }}
-                            placeholder="+0"
-                            aria-label={`Added weight for set ${setIndex + 1} of ${exerciseDef?.name || 'exercise'} (bodyweight exercise - enter extra weight only)`}
-                            inputMode="decimal"
-                            enterKeyHint="next"
-                            min="0"
-                            step="0.25"
-                            className="w-full bg-black border-b-2 border-primary/30 p-2 text-center text-lg font-bold text-white focus:border-primary outline-none placeholder-primary/50"
-                            onClick={(e) => e.stopPropagation()}
-                            disabled={set.completed}
-                          />
-                          <div className="text-[9px] text-primary/80 text-center mt-1 font-mono">
-                            {set.weight > 0 ? `BW +${set.weight}` : 'BW only'}
+                              }}
+                              onFocus={(e) => {
+                                // Track focused input for keyboard toolbar
+                                setFocusedInput(e.currentTarget);
+                                // Scroll input into view above keyboard
+                                scrollInputIntoView(e.currentTarget);
+                              }}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                  e.preventDefault();
+                                  const repsInput = e.currentTarget.parentElement?.parentElement?.nextElementSibling?.querySelector('input');
+                                  if (repsInput) {
+                                    (repsInput as HTMLInputElement).focus();
+                                    e.currentTarget.blur();
+                                  }
+                                }
+                              }}
+                              placeholder="+0"
+                              aria-label={`Added weight for set ${setIndex + 1} of ${exerciseDef?.name || 'exercise'} (bodyweight exercise - enter extra weight only)`}
+                              inputMode="decimal"
+                              enterKeyHint="next"
+                              min="0"
+                              step="0.25"
+                              className="w-full bg-black border-b-2 border-primary/30 p-2 text-center text-lg font-bold text-white focus:border-primary outline-none placeholder-primary/50"
+                              onClick={(e) => e.stopPropagation()}
+                              disabled={set.completed}
+                            />
+                            <div className="text-[9px] text-primary/80 text-center mt-1 font-mono">
+                              {set.weight > 0 ? `BW +${displayWeight(set.weight)}` : 'BW only'}
+                            </div>
                           </div>
-                        </div>
-                      ) : (
-                        // Regular weighted exercise
-                        <>
-                          <input
-                            type="number"
-                            value={set.weight || ''}
-                            onChange={(e) => {
-                              const value = parseFloat(e.target.value);
-                              // Prevent negative weights
-                              if (!isNaN(value) && value >= 0) {
-                                updateSet(exerciseIndex, setIndex, { weight: value });
-                              } else if (e.target.value === '') {
-                                updateSet(exerciseIndex, setIndex, { weight: 0 });
-                              }
-                            }}
-                            onFocus={(e) => {
-                              // Track focused input for keyboard toolbar
-                              setFocusedInput(e.currentTarget);
-                              // Scroll input into view above keyboard
-                              scrollInputIntoView(e.currentTarget);
-                            }}
-                            onKeyDown={(e) => {
-                              // Enter key: move to reps input and dismiss keyboard
-                              if (e.key === 'Enter') {
-                                e.preventDefault();
-                                const repsInput = e.currentTarget.parentElement?.nextElementSibling?.querySelector('input');
-                                if (repsInput) {
-                                  (repsInput as HTMLInputElement).focus();
-                                  // Blur current input to dismiss keyboard
-                                  e.currentTarget.blur();
+                        ) : (
+                          // Regular weighted exercise
+                          <>
+                            <input
+                              type="number"
+                              value={displayWeight(set.weight) || ''}
+                              onChange={(e) => {
+                                const value = parseFloat(e.target.value);
+                                // Prevent negative weights
+                                if (!isNaN(value) && value >= 0) {
+                                  updateSet(exerciseIndex, setIndex, { weight: fromDisplayWeight(value, settings.units) });
+                                } else if (e.target.value === '') {
+                                  updateSet(exerciseIndex, setIndex, { weight: 0 });
                                 }
-                              }
-                            }}
-                            placeholder={previousSet ? `${previousSet.weight}` : "0"}
-                            aria-label={`Weight for set ${setIndex + 1} of ${exerciseDef?.name || 'exercise'}`}
-                            inputMode="decimal"
-                            enterKeyHint="next"
-                            min="0"
-                            step="0.25"
-                            className="w-full bg-black border-b-2 border-[#333] p-2 text-center text-lg font-bold text-white focus:border-primary outline-none placeholder-[#333]"
-                            onClick={(e) => e.stopPropagation()}
-                            disabled={set.completed}
-                          />
-                          {/* Calculator Button */}
-                          {set.weight > 0 && !set.completed && (
-                              <button
-                                onClick={(e) => { e.stopPropagation(); setCalculatorTarget(set.weight); }}
-                                className="absolute right-1 top-1/2 -translate-y-1/2 text-primary hover:text-white transition-colors bg-black/50 p-1 rounded"
-                                aria-label="Open plate calculator"
-                              >
-                                  <Calculator size={16} />
-                              </button>
-                          )}
-
-                          {previousSet && !set.weight && (
-                              <div className="text-[9px] text-[#444] text-center mt-1 font-mono">{previousSet.weight}</div>
-                          )}
-                        </>
-                      )}
-                    </div>
+                              }}
+                              onFocus={(e) => {
+                                // Track focused input for keyboard toolbar
+                                setFocusedInput(e.currentTarget);
+                                // Scroll input into view above keyboard
+                                scrollInputIntoView(e.currentTarget);
+                              }}
+                              onKeyDown={(e) => {
+                                // Enter key: move to reps input and dismiss keyboard
+                                if (e.key === 'Enter') {
+                                  e.preventDefault();
+                                  const repsInput = e.currentTarget.parentElement?.nextElementSibling?.querySelector('input');
+                                  if (repsInput) {
+                                    (repsInput as HTMLInputElement).focus();
+                                    // Blur current input to dismiss keyboard
+                                    e.currentTarget.blur();
+                                  }
+                                }
+                              }}
+                              placeholder={previousSet ? `${displayWeight(previousSet.weight)}` : "0"}
+                              aria-label={`Weight for set ${setIndex + 1} of ${exerciseDef?.name || 'exercise'}`}
+                              inputMode="decimal"
+                              enterKeyHint="next"
+                              min="0"
+                              step="0.25"
+                              className="w-full bg-black border-b-2 border-[#333] p-2 text-center text-lg font-bold text-white focus:border-primary outline-none placeholder-[#333]"
+                              onClick={(e) => e.stopPropagation()}
+                              disabled={set.completed}
+                            />
+                            {/* Calculator Button */}
+                            {set.weight > 0 && !set.completed && (
+                                <button
+                                  onClick={(e) => { e.stopPropagation(); setCalculatorTarget({ kg: set.weight, exerciseId: log.exerciseId }); }}
+                                  className="absolute right-1 top-1/2 -translate-y-1/2 text-primary hover:text-white transition-colors bg-black/50 p-1 rounded"
+                                  aria-label="Open plate calculator"
+                                >
+                                    <Calculator size={16} />
+                                </button>
+                            )}
 
-                    {/* Reps Input */}
-                    <div className="col-span-3">
-                      <input
-                        type="number"
-                        value={set.reps || ''}
-                        onChange={(e) => {
-                          const value = parseFloat(e.target.value);
-                          // Prevent negative reps and enforce minimum of 1
-                          if (!isNaN(value) && value >= 0) {
-                            updateSet(exerciseIndex, setIndex, { reps: value });
-                          } else if (e.target.value === '') {
-                            updateSet(exerciseIndex, setIndex, { reps: 0 });
-                          }
-                        }}
-                        onFocus={(e) => {
-                          // Track focused input for keyboard toolbar
-                          setFocusedInput(e.currentTarget);
-                          // Scroll input into view above keyboard
-                          scrollInputIntoView(e.currentTarget);
-                        }}
-                        onKeyDown={(e) => {
-                          // Enter key: complete the set (if weight and reps are valid) and dismiss keyboard
-                          if (e.key === 'Enter') {
-                            e.preventDefault();
-                            if (set.weight > 0 && set.reps > 0 && !set.completed) {
-                              handleSetComplete(exerciseIndex, setIndex, true, set.weight, set.reps, log.exerciseId);
-                              // Blur input to dismiss keyboard after completing set
-                              e.currentTarget.blur();
-                            } else {
-                              // If set can't be completed, still dismiss keyboard
-                              e.currentTarget.blur();
+                            {previousSet && !set.weight && (
+                                <div className="text-[9px] text-[#444] text-center mt-1 font-mono">{displayWeight(previousSet.weight)}</div>
+                            )}
+                          </>
+                        )}
+                      </div>
+
+                      {/* Reps Input */}
+                      <div className="col-span-3">
+                        <input
+                          type="number"
+                          value={set.reps || ''}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            // Prevent negative reps and enforce minimum of 1
+                            if (!isNaN(value) && value >= 0) {
+                              updateSet(exerciseIndex, setIndex, { reps: value });
+                            } else if (e.target.value === '') {
+                              updateSet(exerciseIndex, setIndex, { reps: 0 });
                             }
-                          }
-                        }}
-                        placeholder={previousSet ? `${previousSet.reps}` : "0"}
-                        aria-label={`Repetitions for set ${setIndex + 1} of ${exerciseDef?.name || 'exercise'}`}
-                        inputMode="numeric"
-                        enterKeyHint="done"
-                        min="1"
-                        step="1"
-                        className="w-full bg-black border-b-2 border-[#333] p-2 text-center text-lg font-bold text-white focus:border-primary outline-none placeholder-[#333]"
-                        onClick={(e) => e.stopPropagation()}
-                        disabled={set.completed}
-                      />
-                       {previousSet && !set.reps && (
-                          <div className="text-[9px] text-[#444] text-center mt-1 font-mono">{previousSet.reps}</div>
-                      )}
-                    </div>
+                          }}
+                          onFocus={(e) => {
+                            // Track focused input for keyboard toolbar
+                            setFocusedInput(e.currentTarget);
+                            // Scroll input into view above keyboard
+                            scrollInputIntoView(e.currentTarget);
+                          }}
+                          onKeyDown={(e) => {
+                            // Enter key: complete the set (if weight and reps are valid) and dismiss keyboard
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              if (set.weight > 0 && set.reps > 0 && !set.completed) {
+                                handleSetComplete(exerciseIndex, setIndex, true, set.weight, set.reps, log.exerciseId);
+                                // Blur input to dismiss keyboard after completing set
+                                e.currentTarget.blur();
+                              } else {
+                                // If set can't be completed, still dismiss keyboard
+                                e.currentTarget.blur();
+                              }
+                            }
+                          }}
+                          placeholder={previousSet ? `${previousSet.reps}` : "0"}
+                          aria-label={`Repetitions for set ${setIndex + 1} of ${exerciseDef?.name || 'exercise'}`}
+                          inputMode="numeric"
+                          enterKeyHint="done"
+                          min="1"
+                          step="1"
+                          className="w-full bg-black border-b-2 border-[#333] p-2 text-center text-lg font-bold text-white focus:border-primary outline-none placeholder-[#333]"
+                          onClick={(e) => e.stopPropagation()}
+                          disabled={set.completed}
+                        />
+                         {previousSet && !set.reps && (
+                            <div className="text-[9px] text-[#444] text-center mt-1 font-mono">{previousSet.reps}</div>
+                        )}
+                      </div>
+                    </>
+                    )}
 
                     {/* RPE Input - Pre-populated with target from template notes */}
                     <div className="col-span-2">
@@ -1630,7 +1728,7 @@ const WorkoutLogger = () => {
             onConfirm={handleAmapConfirm}
             exerciseId={amapModalData.exerciseId}
             exerciseName={amapModalData.exerciseName}
-            currentTM={amapModalData.currentTM}
+            currentTM={toDisplayWeight(amapModalData.currentTM, 'lbs')}
             amapReps={amapModalData.amapReps}
             setData={amapModalData.setData}
           />
@@ -1708,6 +1806,27 @@ const WorkoutLogger = () => {
         />
       )}
 
+      {/* Warm-Up Settings */}
+      {warmupEditorIndex !== null && (() => {
+          const log = activeWorkout.logs[warmupEditorIndex];
+          const exercise = log && getAllExercises().find(e => e.id === log.exerciseId);
+          if (!exercise) return null;
+          return (
+              <WarmupSchemeEditor
+                  exerciseId={exercise.id}
+                  exerciseName={exercise.name}
+                  category={exercise.category}
+                  workingWeight={log.sets.find(s => s.type !== 'W' && s.weight > 0)?.weight || 0}
+                  load={getLoadRounding(exercise.id, settings, customExercises, activeWorkout.gymProfileId)}
+                  onClose={() => setWarmupEditorIndex(null)}
+              />
+          );
+      })()}
+
+      {warmupNotice && (
+        <Toast message={warmupNotice} onClose={() => setWarmupNotice(null)} duration={3000} />
+      )}
+
       {/* Undo Toast */}
       {undoStack && (
         <Toast
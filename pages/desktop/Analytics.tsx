@@ -1,15 +1,16 @@
 import React, { useState } from 'react';
-import { TrendingUp, Activity, Calendar as CalendarIcon, Zap } from 'lucide-react';
+import { TrendingUp, Activity, Calendar as CalendarIcon, Zap, Gauge } from 'lucide-react';
 import { useStore } from '../../store/useStore';
 import { BodyweightChart } from '../../components/BodyweightChart';
 import { BodyLiftCorrelation } from '../../components/BodyLiftCorrelation';
 import { MeasurementTrends } from '../../components/MeasurementTrends';
 import { ProgressPhotos } from '../../components/ProgressPhotos';
+import { TrainingLoadChart } from '../../components/TrainingLoadChart';
 import { EXERCISE_LIBRARY } from '../../constants';
 
 export const DesktopAnalytics: React.FC = () => {
   const { history, settings } = useStore();
-  const [selectedTab, setSelectedTab] = useState<'overview' | 'body' | 'strength' | 'photos'>('overview');
+  const [selectedTab, setSelectedTab] = useState<'overview' | 'body' | 'strength' | 'load' | 'photos'>('overview');
 
   const completedWorkouts = history.filter(w => w.status === 'completed');
 
@@ -72,6 +73,7 @@ export const DesktopAnalytics: React.FC = () => {
     { id: 'overview' as const, label: 'Overview', icon: Activity },
     { id: 'body' as const, label: 'Body Metrics', icon: TrendingUp },
     { id: 'strength' as const, label: 'Strength Analysis', icon: Zap },
+    { id: 'load' as const, label: 'Training Load', icon: Gauge },
     { id: 'photos' as const, label: 'Progress Photos', icon: CalendarIcon },
   ];
 
@@ -214,6 +216,12 @@ export const DesktopAnalytics: React.FC = () => {
         </div>
       )}
 
+      {selectedTab === 'load' && (
+        <div className="space-y-8">
+          <TrainingLoadChart height={360} />
+        </div>
+      )}
+
       {selectedTab === 'photos' && (
         <div>
           <ProgressPhotos />
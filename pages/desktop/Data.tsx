@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Download, Upload, Database, FileJson, Printer, AlertTriangle } from 'lucide-react';
 import { useStore } from '../../store/useStore';
+import { toDisplayWeight } from '../../utils/conversions';
 
 export const DesktopData: React.FC = () => {
   const { history, templates, programs, dailyLogs, settings, resetAllData } = useStore();
@@ -33,7 +34,7 @@ export const DesktopData: React.FC = () => {
 
   // Export workout history as CSV
   const handleExportWorkouts = () => {
-    const csvHeader = 'Date,Workout,Duration (min),Exercises,Sets,Total Volume\n';
+    const csvHeader = `Date,Workout,Duration (min),Exercises,Sets,Total Volume (${settings.units})\n`;
     const csvRows = history
       .filter(w => w.status === 'completed')
       .map(w => {
@@ -46,7 +47,7 @@ export const DesktopData: React.FC = () => {
             .filter(s => s.completed && s.type !== 'W')
             .reduce((setSum, s) => setSum + (s.weight * s.reps), 0);
         }, 0);
-        return `${date},"${w.name}",${duration},${exercises},${sets},${volume}`;
+        return `${date},"${w.name}",${duration},${exercises},${sets},${toDisplayWeight(volume, settings.units)}`;
       })
       .join('\n');
 
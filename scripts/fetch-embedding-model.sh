@@ -0,0 +1,65 @@
+#!/bin/bash
+
+# Fetch the on-device RAG embedding model
+# Usage: npm run models:fetch
+#
+# Downloads all-MiniLM-L6-v2 from Hugging Face and converts it to a TF.js graph
+# model in public/models/minilm (see DEFAULT_EMBEDDING_MODEL in services/ai/embeddings.ts).
+# Without these files the app falls back to the hashing embeddings.
+#
+# Requires Python 3 with: pip install tensorflow tensorflowjs transformers
+
+set -e  # Exit on error
+
+# Colors for output
+GREEN='\033[0;32m'
+YELLOW='\033[1;33m'
+RED='\033[0;31m'
+NC='\033[0m' # No Color
+
+MODEL_ID="sentence-transformers/all-MiniLM-L6-v2"
+OUT_DIR="public/models/minilm"
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+
+if ! python3 -c "import tensorflow, tensorflowjs, transformers" 2>/dev/null; then
+  echo -e "${RED}❌ Error: missing Python packages${NC}"
+  echo "Run: pip install tensorflow tensorflowjs transformers"
+  exit 1
+fi
+
+mkdir -p "$OUT_DIR"
+
+# Step 1: Vocabulary
+echo -e "${YELLOW}📖 Downloading vocab.txt...${NC}"
+curl -fsSL "https://huggingface.co/${MODEL_ID}/resolve/main/vocab.txt" -o "$OUT_DIR/vocab.txt"
+
+# Step 2: Export a SavedModel whose inputs match the names the app feeds
+echo -e "\n${YELLOW}🧠 Exporting ${MODEL_ID}...${NC}"
+python3 - "$MODEL_ID" "$WORK_DIR/saved_model" <<'PY'
+import sys
+import tensorflow as tf
+from transformers import TFAutoModel
+
+model_id, out = sys.argv[1], sys.argv[2]
+model = TFAutoModel.from_pretrained(model_id)
+
+spec = lambda name: tf.TensorSpec([None, None], tf.int32, name=name)
+
+@tf.function(input_signature=[spec('input_ids'), spec('attention_mask'), spec('token_type_ids')])
+def serve(input_ids, attention_mask, token_type_ids):
+    output = model(input_ids=input_ids, attention_mask=attention_mask, token_type_ids=token_type_ids)
+    return {'last_hidden_state': output.last_hidden_state}
+
+tf.saved_model.save(model, out, signatures={'serving_default': serve})
+PY
+
+# Step 3: Convert to a TF.js graph model
+echo -e "\n${YELLOW}🔁 Converting to TF.js...${NC}"
+tensorflowjs_converter \
+  --input_format=tf_saved_model \
+  --output_format=tfjs_graph_model \
+  --signature_name=serving_default \
+  "$WORK_DIR/saved_model" "$OUT_DIR"
+
+echo -e "\n${GREEN}✅ Embedding model ready in ${OUT_DIR}${NC}"
@@ -0,0 +1,227 @@
+/**
+ * Backup Restore Tests
+ *
+ * Tests for backup validation and merge/replace restore modes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseBackup, restoreBackup, migrateBackup, BackupData, LocalData } from '../backupRestore';
+import { exportAllToJSON } from '../dataExport';
+import type { WorkoutSession, UserSettings, Program, Exercise } from '../../types';
+
+function workout(id: string, startTime: number, weight: number, updatedAt?: number): WorkoutSession {
+  return {
+    id,
+    name: `Workout ${id}`,
+    startTime,
+    status: 'completed',
+    updatedAt,
+    logs: [{ id: `log-${id}`, exerciseId: 'e1', sets: [{ id: `set-${id}`, weight, reps: 5, type: 'N', completed: true }] }],
+  };
+}
+
+const settings: UserSettings = {
+  name: 'Athlete',
+  units: 'kg',
+  goal: { type: 'Build Muscle', targetPerWeek: 4 },
+  experienceLevel: 'Beginner',
+  availableEquipment: [],
+  onboardingCompleted: true,
+  personalRecords: {},
+  defaultRestTimer: 90,
+  barWeight: 20,
+  ironCloud: { enabled: true, lastSync: 1_000 },
+  updatedAt: 1_000,
+};
+
+const program: Program = {
+  id: 'p1',
+  name: 'My Program',
+  description: '',
+  weeks: 4,
+  sessions: [{ templateId: 't1', week: 1, day: 1 }],
+  goal: 'Strength',
+  splitType: 'Full Body',
+  difficulty: 'Beginner',
+  frequency: 3,
+};
+
+const local = (): LocalData => ({
+  history: [workout('a', 1_000, 100, 500), workout('b', 2_000, 100, 500)],
+  templates: [],
+  programs: [],
+  dailyLogs: { '2024-01-01': { date: '2024-01-01', bodyweight: 80 } },
+  settings,
+});
+
+describe('backupRestore', () => {
+  describe('parseBackup', () => {
+    it('round-trips a current backup', () => {
+      const json = exportAllToJSON({
+        workouts: [workout('a', 1_000, 100)],
+        templates: [],
+        programs: [program],
+        settings,
+        dailyLogs: {},
+        storeVersion: 7,
+      });
+      const backup = parseBackup(json, 7);
+
+      expect(backup.formatVersion).toBe('2.0');
+      expect(backup.storeVersion).toBe(7);
+      expect(backup.data.history).toHaveLength(1);
+      expect(backup.data.programs).toEqual([program]);
+      expect(backup.data.settings).not.toHaveProperty('ironCloud');
+      expect(backup.invalidRecords).toBe(0);
+    });
+
+    it('reads 1.0 backups without programs', () => {
+      const json = JSON.stringify({
+        version: '1.0',
+        data: {
+          workouts: [workout('a', 1_000, 100)],
+          templates: [],
+          personalRecords: { e1: { exerciseId: 'e1', records: [] } },
+          bodyMetrics: { '2024-01-02': { bodyweight: 81 } },
+          userSettings: { name: 'Old', units: 'lbs' },
+        },
+      });
+      const backup = parseBackup(json, 7);
+
+      expect(backup.data.programs).toBeUndefined();
+      expect(backup.data.settings).toMatchObject({ name: 'Old', units: 'lbs' });
+      expect(backup.data.dailyLogs['2024-01-02']).toEqual({ date: '2024-01-02', bodyweight: 81 });
+    });
+
+    it('drops records that do not match the schema', () => {
+      const json = JSON.stringify({
+        version: '2.0',
+        data: {
+          workouts: [workout('a', 1_000, 100), { id: 'broken', logs: 'nope' }],
+          templates: [],
+          bodyMetrics: { 'not-a-date': {}, '2024-01-03': { bodyweight: 'heavy' } },
+          settings: { units: 'stone', name: 'Valid' },
+        },
+      });
+      const backup = parseBackup(json, 7);
+
+      expect(backup.data.history.map(w => w.id)).toEqual(['a']);
+      expect(backup.invalidRecords).toBe(3);
+      expect(backup.data.settings).toEqual({ name: 'Valid' });
+    });
+
+    it('rejects invalid files and backups from newer versions', () => {
+      expect(() => parseBackup('not json', 7)).toThrow(/invalid JSON/);
+      expect(() => parseBackup('{"data":{}}', 7)).toThrow(/Not a VoltLift backup/);
+      expect(() => parseBackup(JSON.stringify({ storeVersion: 9, data: { workouts: [] } }), 7)).toThrow(/newer version/);
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('merges by id, keeping the newer copy', () => {
+      const result = restoreBackup(
+        local(),
+        {
+          history: [workout('a', 1_000, 120, 900), workout('b', 2_000, 90, 100), workout('c', 3_000, 130)],
+          templates: [],
+          programs: [program],
+          dailyLogs: {},
+          settings: { name: 'Older', updatedAt: 10 },
+        },
+        'merge',
+        5_000
+      );
+
+      expect(result.changed.workouts.sort()).toEqual(['a', 'c']);
+      expect(result.data.history.map(w => w.id)).toEqual(['c', 'b', 'a']);
+      expect(result.data.history.find(w => w.id === 'b')?.logs[0].sets[0].weight).toBe(100);
+      expect(result.data.history.find(w => w.id === 'a')?.updatedAt).toBe(5_000);
+      expect(result.data.programs).toEqual([{ ...program, updatedAt: 5_000 }]);
+      expect(result.data.dailyLogs['2024-01-01']).toBeDefined();
+      expect(result.settingsChanged).toBe(false);
+      expect(result.data.settings.name).toBe('Athlete');
+      expect(result.removed.workouts).toEqual([]);
+    });
+
+    it('replaces collections and reports removed records', () => {
+      const result = restoreBackup(
+        local(),
+        {
+          history: [workout('c', 3_000, 130)],
+          templates: [],
+          dailyLogs: {},
+          settings: { name: 'Restored' },
+        },
+        'replace',
+        5_000
+      );
+
+      expect(result.data.history.map(w => w.id)).toEqual(['c']);
+      expect(result.removed.workouts.sort()).toEqual(['a', 'b']);
+      expect(result.removed.dailyLogs).toEqual(['2024-01-01']);
+      expect(result.data.settings.name).toBe('Restored');
+      expect(result.data.settings.ironCloud).toEqual(settings.ironCloud);
+    });
+
+    it('keeps local programs when replacing from a 1.0 backup', () => {
+      const backup = parseBackup(JSON.stringify({
+        version: '1.0',
+        data: { workouts: [workout('c', 3_000, 130)], templates: [] },
+      }), 9);
+      // Like the store's v7/v8 steps, which fill in built-in programs when none exist
+      const builtIn: Program = { ...program, id: 'built-in' };
+      const migrate = (state: BackupData): BackupData => ({ ...state, programs: state.programs || [builtIn] });
+
+      const migrated = migrateBackup(backup, migrate);
+      expect(migrated.programs).toBeUndefined();
+
+      const result = restoreBackup({ ...local(), programs: [program] }, migrated, 'replace', 5_000);
+      expect(result.data.programs.map(p => p.id)).toEqual(['p1']);
+      expect(result.removed.programs).toEqual([]);
+      expect(result.changed.programs).toEqual([]);
+    });
+
+    it('migrates the programs a backup does contain', () => {
+      const backup = parseBackup(JSON.stringify({
+        version: '2.0',
+        storeVersion: 7,
+        data: { workouts: [], templates: [], programs: [program] },
+      }), 9);
+      const migrate = (state: BackupData): BackupData => ({
+        ...state,
+        programs: state.programs?.map(p => ({ ...p, name: 'Migrated' })),
+      });
+
+      expect(migrateBackup(backup, migrate).programs?.[0].name).toBe('Migrated');
+    });
+
+    it('rebuilds personal records from the restored history', () => {
+      const result = restoreBackup(
+        local(),
+        { history: [workout('c', 3_000, 130)], templates: [], dailyLogs: {}, settings: {} },
+        'merge'
+      );
+
+      expect(result.data.settings.personalRecords.e1.bestWeight?.value).toBe(130);
+    });
+
+    it('rebuilds personal records for custom exercises with their own metric', () => {
+      const hold: Exercise = {
+        id: 'custom-hold', name: 'Towel Hang', muscleGroup: 'Back', equipment: 'Bodyweight', category: 'Isolation',
+        difficulty: 'Beginner', metric: 'duration', formGuide: [], commonMistakes: [], tips: [],
+      };
+      const held: WorkoutSession = {
+        ...workout('c', 3_000, 0),
+        logs: [{ id: 'log-c', exerciseId: hold.id, sets: [{ id: 'set-c', weight: 0, reps: 0, duration: 45, type: 'N', completed: true }] }],
+      };
+
+      const result = restoreBackup(
+        { ...local(), customExercises: [hold] },
+        { history: [held], templates: [], dailyLogs: {}, settings: {} },
+        'merge'
+      );
+
+      expect(result.data.settings.personalRecords[hold.id].bestDuration?.value).toBe(45);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Coaching Tests
+ *
+ * Invite codes, the athlete overview (recent training and readiness)
+ * and grouping of per-set comments
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createInviteCode,
+  formatInviteCode,
+  getCommentKey,
+  getLogReadiness,
+  groupComments,
+  INVITE_CODE_LENGTH,
+  normalizeInviteCode,
+  summarizeAthlete,
+} from '../coaching';
+import type { DailyLog, SetComment, WorkoutSession } from '../../types';
+
+const NOW = new Date(2024, 5, 12, 12).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+const dateOf = (time: number) => new Date(time).toLocaleDateString('en-CA');
+
+const workout = (time: number, status: WorkoutSession['status'] = 'completed'): WorkoutSession => ({
+  id: `w-${time}`,
+  name: 'Session',
+  startTime: time,
+  status,
+  logs: [
+    {
+      id: 'l1',
+      exerciseId: 'e1',
+      sets: [
+        { id: 's1', weight: 60, reps: 10, type: 'W', completed: true },
+        { id: 's2', weight: 100, reps: 5, type: 'N', completed: true },
+      ],
+    },
+  ],
+});
+
+const checkIn = (date: string, values: Partial<DailyLog> = {}): DailyLog => ({
+  date,
+  sleepQuality: 5,
+  perceivedRecovery: 5,
+  muscleSoreness: 5,
+  stressLevel: 5,
+  ...values,
+});
+
+const comment = (id: string, logId: string, setId: string | undefined, createdAt: number): SetComment => ({
+  id,
+  athleteId: 'athlete',
+  workoutId: 'w1',
+  logId,
+  setId,
+  authorId: 'coach',
+  authorName: 'Coach',
+  text: id,
+  createdAt,
+});
+
+describe('coaching', () => {
+  describe('invite codes', () => {
+    it('creates PocketBase-compatible ids', () => {
+      const code = createInviteCode();
+      expect(code).toMatch(new RegExp(`^[a-z0-9]{${INVITE_CODE_LENGTH}}$`));
+      expect(createInviteCode()).not.toBe(code);
+    });
+
+    it('draws codes from the random source without modulo bias', () => {
+      // 252+ would favour the first characters, so those bytes are skipped
+      const bytes = [255, 252, 0, 35, 36, 251, ...Array(20).fill(1)];
+      const source = (array: Uint8Array) => {
+        array.set(bytes.splice(0, array.length));
+        return array;
+      };
+
+      expect(createInviteCode(source)).toBe('a9a9bbbbbbbbbbb');
+    });
+
+    it('formats and normalizes codes as typed', () => {
+      const code = 'abcde12345fghij';
+      expect(formatInviteCode(code)).toBe('abcde-12345-fghij');
+      expect(normalizeInviteCode(' ABCDE-12345-fghij ')).toBe(code);
+      expect(() => normalizeInviteCode('abc-123')).toThrow(/15 letters and numbers/);
+    });
+  });
+
+  describe('summarizeAthlete', () => {
+    it('counts completed sessions and working volume from the last 7 days', () => {
+      const history = [workout(NOW - DAY), workout(NOW - 3 * DAY), workout(NOW - 10 * DAY), workout(NOW, 'template')];
+
+      const summary = summarizeAthlete(history, {}, NOW);
+
+      expect(summary.lastWorkoutAt).toBe(NOW - DAY);
+      expect(summary.sessionsLast7Days).toBe(2);
+      expect(summary.volumeLast7Days).toBe(1000); // warm-ups excluded
+      expect(summary.readiness).toBeNull();
+    });
+
+    it('uses the most recent complete check-in from the last 2 days', () => {
+      const today = dateOf(NOW);
+      const yesterday = dateOf(NOW - DAY);
+      const logs = {
+        [yesterday]: checkIn(yesterday, { sleepQuality: 1, perceivedRecovery: 1 }),
+        [today]: { date: today, bodyweight: 80 },
+      };
+
+      const summary = summarizeAthlete([], logs, NOW);
+
+      expect(summary.readiness).toMatchObject({ date: yesterday, category: 'red' });
+    });
+
+    it('ignores stale check-ins', () => {
+      const old = dateOf(NOW - 5 * DAY);
+      expect(summarizeAthlete([], { [old]: checkIn(old) }, NOW).readiness).toBeNull();
+    });
+  });
+
+  describe('getLogReadiness', () => {
+    it('needs all four check-in answers', () => {
+      expect(getLogReadiness(checkIn('2024-06-12'))?.score).toBe(100);
+      expect(getLogReadiness(checkIn('2024-06-12', { stressLevel: undefined }))).toBeNull();
+    });
+  });
+
+  describe('groupComments', () => {
+    it('groups comments per set and per exercise, oldest first', () => {
+      const threads = groupComments([
+        comment('b', 'l1', 's1', 2),
+        comment('a', 'l1', 's1', 1),
+        comment('c', 'l1', undefined, 3),
+        comment('d', 'l2', 's1', 4),
+      ]);
+
+      expect(threads[getCommentKey('l1', 's1')].map(c => c.id)).toEqual(['a', 'b']);
+      expect(threads[getCommentKey('l1')].map(c => c.id)).toEqual(['c']);
+      expect(threads[getCommentKey('l2', 's1')].map(c => c.id)).toEqual(['d']);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Data Export Tests
+ *
+ * CSV rows and summary stats for workouts with custom exercises
+ */
+
+import { describe, it, expect } from 'vitest';
+import { exportWorkoutsToCSV, generateSummaryStats } from '../dataExport';
+import type { WorkoutSession, Exercise } from '../../types';
+
+const hang: Exercise = {
+  id: 'custom-hang', name: 'Weighted Dead Hang', muscleGroup: 'Back', equipment: 'Bodyweight', category: 'Isolation',
+  difficulty: 'Beginner', metric: 'duration', formGuide: [], commonMistakes: [], tips: [],
+};
+
+const workout: WorkoutSession = {
+  id: 'w1',
+  name: 'Grip Day',
+  startTime: Date.UTC(2026, 0, 5),
+  endTime: Date.UTC(2026, 0, 5) + 30 * 60_000,
+  status: 'completed',
+  logs: [{ id: 'l1', exerciseId: hang.id, sets: [{ id: 's1', weight: 20, reps: 3, duration: 45, type: 'N', completed: true }] }],
+};
+
+describe('dataExport', () => {
+  it('names custom exercises and moves no tonnage for their timed sets', () => {
+    const [, row] = exportWorkoutsToCSV([workout], { customExercises: [hang] }).split('\n');
+
+    expect(row).toContain('"Weighted Dead Hang"');
+    expect(row.split(',').at(-1)).toBe('0');
+  });
+
+  it('uses custom exercise metrics in the summary stats', () => {
+    const stats = generateSummaryStats([workout], undefined, [hang]);
+
+    expect(stats.totalVolume).toBe(0);
+    expect(stats.mostFrequentExercise).toBe('Weighted Dead Hang');
+  });
+});
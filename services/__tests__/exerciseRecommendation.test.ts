@@ -4,6 +4,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { findSubstitutes, suggestExercisesForWorkout } from '../exerciseRecommendation';
+import { createGymProfile } from '../gymProfiles';
 import { Exercise, WorkoutSession, UserSettings } from '../../types';
 
 // Mock exercises for testing
@@ -289,4 +290,31 @@ describe('suggestExercisesForWorkout', () => {
       expect(ex.muscleGroup).toBe('Legs');
     });
   });
+
+  it('should use the equipment of the gym the workout started at', () => {
+    const gymSettings: UserSettings = {
+      ...mockSettings,
+      gymProfiles: [
+        createGymProfile('Commercial', 'lbs', ['Barbell', 'Dumbbell', 'Cable', 'Machine'], 'gym-a'),
+        createGymProfile('Hotel', 'lbs', ['Dumbbell'], 'gym-b'),
+      ],
+      activeGymProfileId: 'gym-a',
+    };
+
+    const suggestions = suggestExercisesForWorkout({
+      currentWorkout: { ...mockWorkout, gymProfileId: 'gym-b' },
+      settings: gymSettings,
+      allExercises: mockExercises,
+    });
+    const substitutes = findSubstitutes({
+      exerciseId: 'e1',
+      currentWorkout: { ...mockWorkout, logs: [{ id: 'log-1', exerciseId: 'e1', sets: [] }], gymProfileId: 'gym-b' },
+      settings: gymSettings,
+      allExercises: mockExercises,
+    });
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    suggestions.forEach(ex => expect(ex.equipment).toBe('Dumbbell'));
+    expect(substitutes.exercises.map(e => e.id)).toEqual(['e2', 'e4']);
+  });
 });
@@ -0,0 +1,90 @@
+/**
+ * Fatigue Attribution Tests
+ *
+ * Occlusion attribution against a hand-built linear model whose answer is
+ * known: fatigue = 1 - (last night's sleep hours / 10)
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { explainFatigue } from '../ml/fatiguePredictor';
+import { DailyMLFeatures, MuscleGroup } from '../../types';
+
+const DAYS = 7;
+const FEATURE_COUNT = 13;
+const SLEEP_HOURS = 6; // Index in the model's feature vector
+
+const day = (i: number, overrides: Partial<DailyMLFeatures> = {}): DailyMLFeatures => ({
+  date: `2024-03-0${i + 1}`,
+  volumeTotal: 15,
+  volumePerMuscle: {} as Record<MuscleGroup, number>,
+  avgRPE: 7,
+  maxRPE: 8,
+  avgIntensity: 70,
+  sleepHours: 8,
+  sleepQuality: 4,
+  stressLevel: 2,
+  sorenessLevel: 2,
+  perceivedRecovery: 4,
+  perceivedEnergy: 4,
+  acwr: 1,
+  daysSinceRest: 1,
+  daysSinceDeload: 20,
+  weeklyVolumeChange: 0,
+  rpeTrend: 0,
+  dayOfWeek: 3,
+  isRestDay: false,
+  trainingPhase: 'accumulation',
+  ...overrides,
+});
+
+function lastNightSleepModel(): tf.LayersModel {
+  const model = tf.sequential();
+  model.add(tf.layers.flatten({ inputShape: [DAYS, FEATURE_COUNT] }));
+  model.add(tf.layers.dense({ units: 14 }));
+
+  const kernel = new Array(DAYS * FEATURE_COUNT).fill(0).map(() => new Array(14).fill(0));
+  kernel[(DAYS - 1) * FEATURE_COUNT + SLEEP_HOURS].fill(-1);
+  model.layers[1].setWeights([tf.tensor2d(kernel), tf.ones([14])]);
+  return model;
+}
+
+describe('explainFatigue', () => {
+  const model = lastNightSleepModel();
+
+  it('attributes the score to the feature and day the model reads', async () => {
+    const sequence = Array.from({ length: DAYS }, (_, i) => day(i, i === DAYS - 1 ? { sleepHours: 5 } : {}));
+    const attribution = await explainFatigue(model, sequence);
+
+    expect(attribution.method).toBe('occlusion');
+    expect(attribution.score).toBeCloseTo(0.5);
+
+    // Short sleep raised fatigue by 0.3 against the 8h reference
+    expect(attribution.features).toHaveLength(FEATURE_COUNT);
+    expect(attribution.features[0]).toMatchObject({ feature: 'sleepHours', label: 'Sleep Hours' });
+    expect(attribution.features[0].impact).toBeCloseTo(0.3);
+    expect(attribution.features[0].share).toBeCloseTo(1);
+    attribution.features.slice(1).forEach(f => expect(f.impact).toBeCloseTo(0));
+
+    expect(attribution.days.map(d => d.date)).toEqual(sequence.map(d => d.date));
+    expect(attribution.days[DAYS - 1].impact).toBeCloseTo(0.3);
+    attribution.days.slice(0, -1).forEach(d => expect(d.share).toBeCloseTo(0));
+  });
+
+  it('signs inputs that lowered fatigue as negative', async () => {
+    const sequence = Array.from({ length: DAYS }, (_, i) => day(i, i === DAYS - 1 ? { sleepHours: 10 } : {}));
+    const attribution = await explainFatigue(model, sequence);
+
+    expect(attribution.features[0].feature).toBe('sleepHours');
+    expect(attribution.features[0].impact).toBeCloseTo(-0.2);
+    expect(attribution.features[0].share).toBeCloseTo(-1);
+  });
+
+  it('returns zero shares when nothing differs from the reference day', async () => {
+    const attribution = await explainFatigue(model, Array.from({ length: DAYS }, (_, i) => day(i)));
+    [...attribution.features, ...attribution.days].forEach(a => {
+      expect(a.share).toBe(0);
+      expect(Number.isNaN(a.impact)).toBe(false);
+    });
+  });
+});
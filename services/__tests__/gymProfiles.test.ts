@@ -0,0 +1,96 @@
+/**
+ * Gym Profile Tests
+ *
+ * Per-location equipment, bars and plates, and the legacy single-gym fallback
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createGymProfile,
+  getGymProfile,
+  getGymProfiles,
+  getAvailableEquipment,
+  getProfilePlateLoadout,
+  roundToProfilePlates,
+  validateGymProfile,
+  LEGACY_GYM_PROFILE_ID,
+} from '../gymProfiles';
+import { fromDisplayWeight, toDisplayWeight } from '../../utils/conversions';
+import type { GymProfile, UserSettings } from '../../types';
+
+const settings = {
+  name: 'Test',
+  units: 'lbs',
+  goal: { type: 'Hypertrophy', targetPerWeek: 4 },
+  experienceLevel: 'Intermediate',
+  availableEquipment: ['Barbell', 'Dumbbell'],
+  onboardingCompleted: true,
+  personalRecords: {},
+  defaultRestTimer: 90,
+  barWeight: fromDisplayWeight(45, 'lbs'),
+  availablePlates: { lbs: [45, 25, 10, 5], kg: [] },
+} as unknown as UserSettings;
+
+const home: GymProfile = {
+  ...createGymProfile('Home', 'kg', ['Barbell'], 'home'),
+  bars: [15],
+  plates: [20, 10, 5],
+  microplates: [1, 0.5],
+};
+const commercial = createGymProfile('Commercial', 'lbs', ['Barbell', 'Dumbbell', 'Machine'], 'commercial');
+
+describe('gym profiles', () => {
+  it('derives a single legacy gym from the original settings fields', () => {
+    const profiles = getGymProfiles(settings);
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0]).toMatchObject({
+      id: LEGACY_GYM_PROFILE_ID,
+      units: 'lbs',
+      bars: [45],
+      plates: [45, 25, 10, 5],
+      equipment: ['Barbell', 'Dumbbell'],
+    });
+    expect(getAvailableEquipment({ ...settings, availableEquipment: undefined as any })).toBeUndefined();
+  });
+
+  it('picks the requested gym, then the active one, then the first', () => {
+    const withGyms = { ...settings, gymProfiles: [commercial, home], activeGymProfileId: 'home' };
+    expect(getGymProfile(withGyms, 'commercial').id).toBe('commercial');
+    expect(getGymProfile(withGyms).id).toBe('home');
+    expect(getGymProfile(withGyms, 'deleted').id).toBe('home');
+    expect(getGymProfile({ ...withGyms, activeGymProfileId: undefined }).id).toBe('commercial');
+    expect(getAvailableEquipment(withGyms, 'home')).toEqual(['Barbell']);
+  });
+
+  it('fills defaults for the chosen units', () => {
+    expect(createGymProfile('A', 'kg').bars[0]).toBe(20);
+    expect(createGymProfile('B', 'lbs')).toMatchObject({ bars: [45, 35], dumbbellIncrement: 5, machineStackStep: 10 });
+    expect(createGymProfile('C', 'kg').id).not.toBe(createGymProfile('C', 'kg').id);
+  });
+
+  it('reports invalid kit before saving', () => {
+    expect(validateGymProfile(home)).toEqual([]);
+    expect(validateGymProfile({ ...home, name: ' ', bars: [], microplates: [-1] })).toHaveLength(3);
+  });
+});
+
+describe('gym plate math', () => {
+  it('loads a kg target with the gym bar, plates and microplates', () => {
+    const loadout = getProfilePlateLoadout(58, home);
+    expect(loadout.barWeight).toBe(15);
+    expect(loadout.platesPerSide.map(p => p.weight)).toEqual([20, 1, 0.5]);
+    expect(loadout.isExact).toBe(true);
+  });
+
+  it('converts the stored kg load into a pound gym', () => {
+    const loadout = getProfilePlateLoadout(fromDisplayWeight(185, 'lbs'), commercial);
+    expect(loadout.platesPerSide.map(p => p.weight)).toEqual([45, 25]);
+    expect(loadout.totalWeight).toBe(185);
+  });
+
+  it('rounds down to what the gym can load, in kg', () => {
+    expect(roundToProfilePlates(58.9, home)).toBe(58);
+    expect(roundToProfilePlates(58.9, { ...home, microplates: undefined })).toBe(55);
+    expect(toDisplayWeight(roundToProfilePlates(fromDisplayWeight(187, 'lbs'), commercial), 'lbs')).toBe(185);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Heart Rate Service Tests
+ *
+ * Tests for BLE Heart Rate Measurement parsing and monitor connection handling
+ * using recorded characteristic payloads and a mock transport
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseHeartRateMeasurement,
+  parseBatteryLevel,
+  HeartRateMonitor,
+  HeartRateTransport,
+  HEART_RATE_MEASUREMENT,
+  BATTERY_LEVEL,
+} from '../heartRateService';
+import type { BiometricPoint } from '../../types';
+
+const payload = (...bytes: number[]) => new DataView(new Uint8Array(bytes).buffer);
+
+// Recorded payloads
+const POLAR_H10_CONTACT = payload(0x16, 0x48, 0x2e, 0x03); // uint8 HR 72, contact, one RR interval
+const GARMIN_UINT16 = payload(0x01, 0x9a, 0x00); // uint16 HR 154, no contact support
+const NO_CONTACT = payload(0x04, 0x00); // contact supported but not detected
+const WITH_ENERGY = payload(0x18, 0x5a, 0x10, 0x00, 0x00, 0x04, 0x00, 0x02); // HR 90, 16 kJ, two RR intervals
+
+function createTransport(overrides: Partial<HeartRateTransport> = {}) {
+  let notify: ((value: DataView) => void) | null = null;
+  let dropConnection: (() => void) | null = null;
+
+  const transport: HeartRateTransport = {
+    initialize: vi.fn(async () => {}),
+    requestDevice: vi.fn(async () => ({ deviceId: 'dev-1', name: 'Polar H10' })),
+    connect: vi.fn(async (_id: string, onDisconnect: () => void) => {
+      dropConnection = onDisconnect;
+    }),
+    disconnect: vi.fn(async () => {}),
+    read: vi.fn(async (_id: string, _service: string, characteristic: string) => {
+      if (characteristic === BATTERY_LEVEL) return payload(87);
+      throw new Error('Unknown characteristic');
+    }),
+    startNotifications: vi.fn(async (_id, _service, characteristic, callback) => {
+      if (characteristic === HEART_RATE_MEASUREMENT) notify = callback;
+    }),
+    ...overrides,
+  };
+
+  return {
+    transport,
+    notify: (value: DataView) => notify?.(value),
+    drop: () => dropConnection?.(),
+  };
+}
+
+describe('heartRateService', () => {
+  describe('parseHeartRateMeasurement', () => {
+    it('parses uint8 heart rate with sensor contact and RR intervals', () => {
+      expect(parseHeartRateMeasurement(POLAR_H10_CONTACT)).toEqual({
+        heartRate: 72,
+        sensorContact: true,
+        energyExpended: undefined,
+        rrIntervals: [795],
+      });
+    });
+
+    it('parses uint16 heart rate from sensors without contact detection', () => {
+      const measurement = parseHeartRateMeasurement(GARMIN_UINT16);
+      expect(measurement.heartRate).toBe(154);
+      expect(measurement.sensorContact).toBeUndefined();
+      expect(measurement.rrIntervals).toEqual([]);
+    });
+
+    it('reports lost skin contact', () => {
+      expect(parseHeartRateMeasurement(NO_CONTACT).sensorContact).toBe(false);
+    });
+
+    it('skips energy expended before reading RR intervals', () => {
+      const measurement = parseHeartRateMeasurement(WITH_ENERGY);
+      expect(measurement.energyExpended).toBe(16);
+      expect(measurement.rrIntervals).toEqual([1000, 500]);
+    });
+
+    it('parses battery level', () => {
+      expect(parseBatteryLevel(payload(87))).toBe(87);
+    });
+  });
+
+  describe('HeartRateMonitor', () => {
+    it('connects, reads battery and streams readings', async () => {
+      const { transport, notify } = createTransport();
+      const monitor = new HeartRateMonitor(transport);
+      const points: BiometricPoint[] = [];
+      monitor.onReading(point => points.push(point));
+
+      expect(await monitor.connect()).toBe(true);
+      expect(monitor.state).toMatchObject({ status: 'connected', deviceName: 'Polar H10', batteryLevel: 87 });
+
+      notify(POLAR_H10_CONTACT);
+      notify(NO_CONTACT);
+      notify(GARMIN_UINT16);
+
+      expect(points.map(p => p.heartRate)).toEqual([72, 154]);
+      expect(monitor.state.heartRate).toBe(154);
+
+      await monitor.disconnect();
+    });
+
+    it('reconnects after an unexpected disconnect', async () => {
+      const { transport, drop } = createTransport();
+      const monitor = new HeartRateMonitor(transport, { reconnectDelayMs: 0 });
+      const statuses: string[] = [];
+      monitor.subscribe(state => statuses.push(state.status));
+
+      await monitor.connect();
+      drop();
+      await vi.waitFor(() => expect(monitor.state.status).toBe('connected'));
+
+      expect(statuses).toContain('reconnecting');
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+
+      await monitor.disconnect();
+    });
+
+    it('gives up after the maximum reconnect attempts', async () => {
+      let connects = 0;
+      const { transport, drop } = createTransport();
+      const connect = transport.connect;
+      transport.connect = vi.fn(async (id: string, onDisconnect: () => void) => {
+        connects++;
+        if (connects > 1) throw new Error('Device not found');
+        return connect(id, onDisconnect);
+      });
+
+      const monitor = new HeartRateMonitor(transport, { reconnectDelayMs: 0, maxReconnectAttempts: 2 });
+      await monitor.connect();
+      drop();
+
+      await vi.waitFor(() => expect(monitor.state.status).toBe('disconnected'));
+      expect(connects).toBe(3);
+      expect(monitor.state.error).toMatch(/Lost connection/);
+    });
+
+    it('does not reconnect after the user disconnects', async () => {
+      const { transport, drop } = createTransport();
+      const monitor = new HeartRateMonitor(transport, { reconnectDelayMs: 0 });
+
+      await monitor.connect();
+      await monitor.disconnect();
+      drop();
+
+      expect(transport.connect).toHaveBeenCalledTimes(1);
+      expect(monitor.state.status).toBe('disconnected');
+    });
+
+    it('reports Bluetooth as unavailable when unsupported', async () => {
+      const { transport } = createTransport({
+        initialize: vi.fn(async () => {
+          throw new Error('Web Bluetooth API not available in this browser.');
+        }),
+      });
+      const monitor = new HeartRateMonitor(transport);
+
+      expect(await monitor.connect()).toBe(false);
+      expect(monitor.state.status).toBe('unavailable');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Load Rounding Tests
+ *
+ * Suggestions, percentage sets and plate displays land on loads that can be
+ * set up, for every loading type
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getLoadingType,
+  getLoadBreakdown,
+  nextAchievableLoad,
+  roundToAchievableLoad,
+  LoadRounding,
+} from '../loadRounding';
+import { createGymProfile } from '../gymProfiles';
+import { getSuggestion } from '../progressiveOverload';
+import { expandPrescription } from '../programProgression';
+import { calculateWorkingWeight } from '../../utils/percentageCalculator';
+import { fromDisplayWeight, toDisplayWeight } from '../../utils/conversions';
+import type { ExerciseLog, GymProfile, LoadingType } from '../../types';
+
+const kgGym: GymProfile = {
+  ...createGymProfile('Metric', 'kg', [], 'kg-gym'),
+  plates: [25, 20, 10, 5, 2.5, 1.25],
+  dumbbellMax: 40,
+};
+const lbsGym = createGymProfile('Imperial', 'lbs', [], 'lbs-gym');
+
+const at = (loadingType: LoadingType, gym: GymProfile = kgGym): LoadRounding => ({ loadingType, gym });
+
+describe('getLoadingType', () => {
+  const exercise = (name: string, equipment: string) => ({ name, equipment });
+
+  it('infers the loading type from equipment and name', () => {
+    expect(getLoadingType(exercise('Barbell Squat', 'Barbell'))).toBe('barbell');
+    expect(getLoadingType(exercise('Incline Dumbbell Press', 'Dumbbell'))).toBe('paired_dumbbells');
+    expect(getLoadingType(exercise('Single Arm Dumbbell Row', 'Dumbbell'))).toBe('single_dumbbell');
+    expect(getLoadingType(exercise('Goblet Squat', 'Dumbbell'))).toBe('single_dumbbell');
+    expect(getLoadingType(exercise('Lat Pulldown', 'Machine'))).toBe('stack');
+    expect(getLoadingType(exercise('Tricep Rope Pushdown', 'Cable'))).toBe('stack');
+    expect(getLoadingType(exercise('Leg Press', 'Machine'))).toBe('plate_loaded');
+    expect(getLoadingType(exercise('Dips', 'Bodyweight'))).toBe('bodyweight_belt');
+  });
+
+  it('prefers an explicit loading type', () => {
+    expect(getLoadingType({ ...exercise('Lat Pulldown', 'Machine'), loadingType: 'plate_loaded' })).toBe('plate_loaded');
+  });
+});
+
+describe('roundToAchievableLoad', () => {
+  it('barbell: bar plus plate pairs, never below the empty bar', () => {
+    expect(roundToAchievableLoad(61.3, at('barbell'))).toBe(62.5);
+    expect(roundToAchievableLoad(61.1, at('barbell'))).toBe(60);
+    expect(roundToAchievableLoad(61.3, at('barbell'), 'down')).toBe(60);
+    expect(roundToAchievableLoad(12, at('barbell'))).toBe(20);
+    expect(toDisplayWeight(roundToAchievableLoad(fromDisplayWeight(187, 'lbs'), at('barbell', lbsGym)), 'lbs')).toBe(185);
+  });
+
+  it('paired dumbbells: fixed jumps up to the heaviest pair', () => {
+    expect(roundToAchievableLoad(27.3, at('paired_dumbbells'))).toBe(27.5);
+    expect(roundToAchievableLoad(26.1, at('paired_dumbbells'))).toBe(25);
+    expect(roundToAchievableLoad(55, at('paired_dumbbells'))).toBe(40);
+    expect(roundToAchievableLoad(1, at('paired_dumbbells'))).toBe(2.5);
+  });
+
+  it('single dumbbell: the same jumps, one bell', () => {
+    expect(roundToAchievableLoad(17.4, at('single_dumbbell'))).toBe(17.5);
+    expect(toDisplayWeight(roundToAchievableLoad(fromDisplayWeight(52, 'lbs'), at('single_dumbbell', lbsGym)), 'lbs')).toBe(50);
+  });
+
+  it('selectorized stack: whole pin steps', () => {
+    expect(roundToAchievableLoad(47, at('stack'))).toBe(45);
+    expect(roundToAchievableLoad(48, at('stack'))).toBe(50);
+    expect(roundToAchievableLoad(48, at('stack'), 'down')).toBe(45);
+  });
+
+  it('plate-loaded machine: plate pairs with no bar', () => {
+    expect(roundToAchievableLoad(101, at('plate_loaded'))).toBe(100);
+    expect(roundToAchievableLoad(103, at('plate_loaded'))).toBe(102.5);
+    expect(roundToAchievableLoad(1, at('plate_loaded'))).toBe(0);
+  });
+
+  it('bodyweight + belt: single plates, nothing added stays at zero', () => {
+    expect(roundToAchievableLoad(0, at('bodyweight_belt'))).toBe(0);
+    expect(roundToAchievableLoad(11.6, at('bodyweight_belt'))).toBe(11.25);
+    expect(roundToAchievableLoad(11.9, at('bodyweight_belt'))).toBe(12.5);
+  });
+
+  it('steps to the next achievable load above the current one', () => {
+    expect(nextAchievableLoad(20, at('paired_dumbbells'))).toBe(22.5);
+    expect(nextAchievableLoad(27.3, at('paired_dumbbells'))).toBe(27.5);
+    expect(nextAchievableLoad(60, at('barbell'))).toBe(62.5);
+    expect(nextAchievableLoad(40, at('paired_dumbbells'))).toBe(40);
+  });
+});
+
+describe('getLoadBreakdown', () => {
+  it('shows plates per side for bars and plate-loaded machines', () => {
+    expect(getLoadBreakdown(100, at('barbell'))).toMatchObject({ barWeight: 20, platesPerSide: [25, 10, 5], total: 100 });
+    expect(getLoadBreakdown(101, at('plate_loaded')).platesPerSide).toEqual([25, 25]);
+  });
+
+  it('shows dumbbells, pin position and belt plates', () => {
+    expect(getLoadBreakdown(27.3, at('paired_dumbbells'))).toMatchObject({ dumbbell: 27.5, dumbbellCount: 2 });
+    expect(getLoadBreakdown(17.4, at('single_dumbbell'))).toMatchObject({ dumbbell: 17.5, dumbbellCount: 1 });
+    expect(getLoadBreakdown(47, at('stack'))).toMatchObject({ pin: 45 });
+    expect(getLoadBreakdown(22.5, at('bodyweight_belt')).beltPlates).toEqual([20, 2.5]);
+  });
+});
+
+describe('achievable suggestions and percentage sets', () => {
+  const lastWorkout: ExerciseLog = {
+    id: 'l1',
+    exerciseId: 'e2',
+    sets: [{ id: 's1', weight: 20, reps: 10, rpe: 8, type: 'N', completed: true }],
+  };
+  const well = { date: '2024-06-01', sleepHours: 8 };
+
+  it('getSuggestion rounds progression to the next dumbbell instead of a fractional load', () => {
+    const unrounded = getSuggestion('e2', lastWorkout, well, [], Date.now());
+    const rounded = getSuggestion('e2', lastWorkout, well, [], Date.now(), 'Intermediate', undefined, at('paired_dumbbells'));
+    expect(unrounded?.weight).toBe(21);
+    expect(rounded?.weight).toBe(22.5);
+  });
+
+  it('calculateWorkingWeight and program percentages round to the loading type', () => {
+    expect(calculateWorkingWeight(100, 73)).toBe(72.5);
+    expect(calculateWorkingWeight(100, 73, kg => roundToAchievableLoad(kg, at('stack')))).toBe(75);
+    expect(expandPrescription({ exerciseId: 'e2', sets: 1, reps: 8, percentage: 68 }, 'kg', 40, 0, at('paired_dumbbells'))[0].weight).toBe(27.5);
+  });
+});
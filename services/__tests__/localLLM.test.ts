@@ -0,0 +1,222 @@
+/**
+ * Local LLM Provider Tests
+ *
+ * Runs the provider against a stub OpenAI-compatible HTTP server: text and tool
+ * call completions, health checks, and routing to the local model when offline
+ * or over the cloud budget
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { LocalLLMProvider } from '../ai/localLLM';
+import { llmClient, selectModel, decideOrchestration } from '../ai/llm';
+import { DEFAULT_LLM_CONFIG } from '../ai/types';
+import type { LocalLLMSettings } from '../../types';
+
+// =============================================================================
+// Stub server
+// =============================================================================
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+let nextCompletion: { status: number; body: unknown } = { status: 200, body: {} };
+
+const completion = (message: Record<string, unknown>) => ({
+  status: 200,
+  body: { id: 'cmpl-1', object: 'chat.completion', choices: [{ index: 0, message: { role: 'assistant', ...message } }] },
+});
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.url === '/v1/models') {
+        res.end(JSON.stringify({ object: 'list', data: [{ id: 'llama3.2:latest' }, { id: 'qwen2.5:7b' }] }));
+      } else if (req.url === '/v1/chat/completions') {
+        res.statusCode = nextCompletion.status;
+        res.end(JSON.stringify(nextCompletion.body));
+      } else {
+        res.statusCode = 404;
+        res.end('{}');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const settings = (overrides: Partial<LocalLLMSettings> = {}): LocalLLMSettings => ({
+  enabled: true,
+  baseUrl,
+  model: 'llama3.2',
+  ...overrides,
+});
+
+const prompt = { systemPrompt: 'You are a coach.', userPrompt: 'How many sets?', tokenEstimate: 10 };
+const config = DEFAULT_LLM_CONFIG['local'];
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('LocalLLMProvider', () => {
+  it('sends chat completions and returns the reply', async () => {
+    nextCompletion = completion({ content: 'Do 3 hard sets.' });
+    const provider = new LocalLLMProvider(settings({ baseUrl: `${baseUrl}/`, apiKey: 'secret' }));
+
+    const result = await provider.generateText(prompt, config);
+
+    expect(result).toMatchObject({ success: true, data: 'Do 3 hard sets.', source: 'llm', cost: 0 });
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+    expect(requests[0].body).toMatchObject({
+      model: 'llama3.2',
+      stream: false,
+      max_tokens: config.maxTokens,
+      messages: [
+        { role: 'system', content: 'You are a coach.' },
+        { role: 'user', content: 'How many sets?' },
+      ],
+    });
+  });
+
+  it('parses tool calls with string or object arguments', async () => {
+    nextCompletion = completion({
+      content: null,
+      tool_calls: [
+        { id: 'a', type: 'function', function: { name: 'forecast_pr', arguments: '{"exercise":"e1","weeks":4}' } },
+        { type: 'function', function: { name: 'analyze_history', arguments: { days: 14 } } },
+      ],
+    });
+    const provider = new LocalLLMProvider(settings());
+
+    const result = await provider.generateWithTools(
+      {
+        systemPrompt: 'Use tools.',
+        messages: [
+          { role: 'user', content: 'Bench forecast?' },
+          { role: 'model', toolCalls: [{ id: 'x', name: 'analyze_weak_points', arguments: {} }] },
+          { role: 'tool', toolCallId: 'x', name: 'analyze_weak_points', content: '{"id":"T1"}' },
+        ],
+        tools: [{ name: 'forecast_pr', description: 'Forecast', parameters: { type: 'object', properties: {} } }],
+      },
+      config
+    );
+
+    expect(result.data?.toolCalls).toEqual([
+      { id: 'a', name: 'forecast_pr', arguments: { exercise: 'e1', weeks: 4 } },
+      { id: 'call_1', name: 'analyze_history', arguments: { days: 14 } },
+    ]);
+    expect(requests[0].body.tools[0]).toMatchObject({ type: 'function', function: { name: 'forecast_pr' } });
+    expect(requests[0].body.messages.map((m: { role: string }) => m.role)).toEqual(['system', 'user', 'assistant', 'tool']);
+    expect(requests[0].body.messages[2].tool_calls[0].function.arguments).toBe('{}');
+    expect(requests[0].body.messages[3]).toMatchObject({ tool_call_id: 'x', content: '{"id":"T1"}' });
+  });
+
+  it('reports server errors as failed responses', async () => {
+    nextCompletion = { status: 500, body: { error: 'model crashed' } };
+    const result = await new LocalLLMProvider(settings()).generateText(prompt, config);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('500');
+
+    nextCompletion = { status: 200, body: { choices: [] } };
+    expect((await new LocalLLMProvider(settings()).generateText(prompt, config)).error).toBe(
+      'Local LLM returned no choices'
+    );
+  });
+
+  it('checks the server serves the configured model', async () => {
+    expect(await new LocalLLMProvider(settings()).checkHealth()).toMatchObject({ ok: true });
+    expect(await new LocalLLMProvider(settings({ model: 'qwen2.5:7b' })).checkHealth()).toMatchObject({ ok: true });
+    expect(await new LocalLLMProvider(settings({ model: 'mistral' })).checkHealth()).toMatchObject({
+      ok: false,
+      error: 'Model "mistral" not found on server',
+      models: ['llama3.2:latest', 'qwen2.5:7b'],
+    });
+    expect((await new LocalLLMProvider(settings({ baseUrl: 'http://127.0.0.1:1/v1' })).checkHealth()).ok).toBe(false);
+  });
+});
+
+describe('LLMClient local routing', () => {
+  afterAll(() => {
+    llmClient.configureLocal(null);
+    llmClient.setBudget(100000, 2000000);
+  });
+
+  it('only uses the local model once configured and enabled', () => {
+    llmClient.configureLocal(settings({ enabled: false }));
+    expect(llmClient.hasLocalProvider()).toBe(false);
+    expect(llmClient.resolveProvider('gemini-flash')).toBe('gemini-flash');
+
+    llmClient.configureLocal(settings());
+    expect(llmClient.hasLocalProvider()).toBe(true);
+    expect(llmClient.resolveProvider('gemini-flash')).toBe('gemini-flash');
+  });
+
+  it('routes cloud requests to the local model when over budget', async () => {
+    nextCompletion = completion({ content: 'Rest today.' });
+    llmClient.configureLocal(settings());
+    llmClient.setBudget(0, 0);
+
+    expect(llmClient.resolveProvider('gemini-pro')).toBe('local');
+    const result = await llmClient.generateText(prompt, { provider: 'gemini-pro' }, 'test');
+
+    expect(result).toMatchObject({ success: true, data: 'Rest today.' });
+    expect(requests.map((r) => r.url)).toEqual(['/v1/chat/completions']);
+  });
+});
+
+describe('model selection', () => {
+  it('prefers the local model offline or over budget', () => {
+    expect(selectModel('complex', true, { localAvailable: true })).toBe('gemini-pro');
+    expect(selectModel('complex', true, { localAvailable: true, isOnline: false })).toBe('local');
+    expect(selectModel('simple', false, { localAvailable: true, withinBudget: false })).toBe('local');
+    expect(selectModel('simple', false, { isOnline: false })).toBe('gemini-flash');
+  });
+
+  it('lets a local model write natural language when the cloud is unavailable', () => {
+    const params = {
+      feature: 'coaching_agent',
+      hasLocalImplementation: false,
+      requiresNaturalLanguage: true,
+      requiresPersonalization: true,
+      contextSize: 500,
+      isOnline: true,
+    };
+
+    expect(decideOrchestration(params)).toMatchObject({ useLLM: true, model: 'gemini-pro' });
+    expect(decideOrchestration({ ...params, isOnline: false })).toMatchObject({ useLLM: false, model: 'local' });
+    expect(decideOrchestration({ ...params, isOnline: false, localLLMAvailable: true })).toMatchObject({
+      useLLM: true,
+      model: 'local',
+    });
+    expect(decideOrchestration({ ...params, withinBudget: false, localLLMAvailable: true })).toMatchObject({
+      useLLM: true,
+      model: 'local',
+      reasoning: 'Over cloud budget - using local LLM',
+    });
+  });
+});
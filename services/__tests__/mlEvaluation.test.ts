@@ -0,0 +1,181 @@
+/**
+ * ML Evaluation Harness Tests
+ *
+ * Seeded synthetic athletes, scoring metrics, and a reproducible replay of
+ * the fatigue and volume models against their heuristic baselines.
+ *
+ * The GRU predictor trains with TensorFlow.js on the CPU backend (~10s per
+ * athlete), so its replay only runs with ML_EVAL_GRU=1 (`npm run eval:ml`)
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  calibrate,
+  constantVolumePolicy,
+  createGruFatigueForecaster,
+  formatEvaluationReport,
+  heuristicFatigueForecaster,
+  meanAbsoluteError,
+  runEvaluation,
+  scoreDeloadTiming,
+  EvaluationOptions,
+  VolumePolicy,
+} from '../ml/evaluation';
+import {
+  createRng,
+  expectedVolumeReward,
+  generateSyntheticAthlete,
+  generateSyntheticCohort,
+  optimalVolumeDirection,
+} from '../ml/syntheticAthletes';
+import { getActionSuccessRate, getVolumeRecommendation, initializeBanditState, updateBandit } from '../ml/volumeBandit';
+import { extractBanditContext } from '../ml/featureExtraction';
+import { MuscleGroup, VolumeAction } from '../../types';
+
+const chest = 'chest' as MuscleGroup;
+
+// Heuristic baselines read the clock; replay each day at its own time
+const replay = (options: EvaluationOptions = {}) => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  return runEvaluation({ ...options, setNow: (ms) => vi.setSystemTime(ms) });
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('synthetic athletes', () => {
+  it('is deterministic per seed', () => {
+    const a = generateSyntheticAthlete(3, { weeks: 8 });
+    const b = generateSyntheticAthlete(3, { weeks: 8 });
+    const c = generateSyntheticAthlete(4, { weeks: 8 });
+    expect(a).toEqual(b);
+    expect(a.days.map(d => d.fatigue)).not.toEqual(c.days.map(d => d.fatigue));
+  });
+
+  it('builds fatigue through the ramp and sheds it on deload weeks', () => {
+    const athlete = generateSyntheticAthlete(2, { weeks: 10 });
+    const deloadWeek = athlete.weeks.find(w => w.isDeload)!;
+    const weekEnd = (week: number) => athlete.days[week * 7 + 6].fatigue;
+
+    expect(athlete.profile.skipsDeloads).toBe(false);
+    expect(weekEnd(deloadWeek.week - 1)).toBeGreaterThan(weekEnd(0));
+    expect(weekEnd(deloadWeek.week)).toBeLessThan(weekEnd(deloadWeek.week - 1));
+  });
+
+  it('produces workouts and wellness logs the feature extractors accept', () => {
+    const athlete = generateSyntheticAthlete(1, { weeks: 6 });
+    expect(athlete.history).toHaveLength(24);
+    athlete.dailyLogs.forEach(log => {
+      expect(log.perceivedRecovery).toBeGreaterThanOrEqual(1);
+      expect(log.perceivedRecovery).toBeLessThanOrEqual(5);
+    });
+
+    const lastDay = athlete.days[athlete.days.length - 1];
+    const context = extractBanditContext(athlete.history, athlete.dailyLogs, lastDay.date);
+    expect(context.currentVolume[chest]).toBeGreaterThan(0);
+  });
+
+  it('rewards moving toward the optimal volume, and backing off when overreached', () => {
+    const { profile } = generateSyntheticAthlete(1, { weeks: 1 });
+    const optimal = profile.optimalSets[chest];
+    expect(optimalVolumeDirection(profile, chest, optimal - 6, 0.4)).toBe('increase');
+    expect(optimalVolumeDirection(profile, chest, optimal, 0.4)).toBe('maintain');
+    expect(optimalVolumeDirection(profile, chest, optimal, 0.8)).toBe('decrease');
+    expect(expectedVolumeReward(profile, chest, optimal, 0.4, 'maintain')).toBeCloseTo(0.8);
+  });
+});
+
+describe('metrics', () => {
+  it('computes MAE and a zero calibration error for calibrated predictions', () => {
+    expect(meanAbsoluteError([[0.2, 0.4], [0.5, 0.5]])).toBeCloseTo(0.1);
+    expect(calibrate([[0.25, 0.2], [0.25, 0.3], [0.75, 0.75]]).error).toBeCloseTo(0);
+
+    const { bins, error } = calibrate([[0.9, 0.5], [0.9, 0.5]]);
+    expect(bins).toEqual([{ lower: 0.9, upper: 1, count: 2, meanPredicted: 0.9, meanObserved: 0.5 }]);
+    expect(error).toBeCloseTo(0.4);
+  });
+
+  it('scores deload calls and their timing', () => {
+    const report = scoreDeloadTiming([
+      { predicted: 2, actual: 3 },
+      { predicted: 1, actual: null },
+      { predicted: null, actual: 4 },
+      { predicted: null, actual: null },
+    ]);
+    expect(report).toMatchObject({ accuracy: 0.5, precision: 0.5, recall: 0.5, meanTimingErrorDays: 1 });
+  });
+});
+
+describe('volume bandit replay', () => {
+  const context = extractBanditContext([], [], '2024-03-01');
+
+  it('samples reproducibly from a seeded source', () => {
+    const state = initializeBanditState();
+    const first = getVolumeRecommendation(context, state, chest, createRng(9));
+    const second = getVolumeRecommendation(context, state, chest, createRng(9));
+    expect(second.sampledValues).toEqual(first.sampledValues);
+  });
+
+  it('learns into the priors it samples from', () => {
+    let state = initializeBanditState();
+    for (let i = 0; i < 10; i++) {
+      state = updateBandit(state, { action: VolumeAction.INCREASE_MODERATE, context, reward: 1, muscleGroup: chest, timestamp: i });
+    }
+    expect(state.muscleGroupStates[chest].increase.alpha).toBeGreaterThan(10);
+    expect(getActionSuccessRate(state, chest, VolumeAction.INCREASE_MODERATE)).toBeGreaterThan(0.8);
+  });
+});
+
+describe('runEvaluation', () => {
+  it('produces the same report for the same seed', async () => {
+    const options = { athletes: 2, weeks: 16, evalStartWeek: 8 };
+    const first = await replay(options);
+    const second = await replay(options);
+    expect(second).toEqual(first);
+    expect(formatEvaluationReport(first)).toContain(`ML evaluation (seed ${first.seed}, 2 athletes)`);
+  });
+
+  it('scores every forecaster and policy on the cohort', async () => {
+    const report = await replay({ athletes: 2, weeks: 16, evalStartWeek: 8 });
+    const [heuristic] = report.fatigue;
+
+    expect(heuristic.model).toBe(heuristicFatigueForecaster.name);
+    expect(heuristic.forecasts).toBe(14);
+    expect(heuristic.mae).toBeGreaterThan(0);
+    expect(heuristic.mae).toBeLessThan(1);
+    expect(heuristic.calibration.reduce((n, b) => n + b.count, 0)).toBe(14 * 7);
+    expect(report.volume.map(v => v.policy)).toEqual([
+      'bandit (volumeBandit)',
+      'heuristic (volume landmarks)',
+      'always maintain',
+    ]);
+    report.volume.forEach(v => expect(v.decisions).toBe(2 * 8 * 6));
+  });
+
+  it('charges no regret to a policy that knows the dynamics', async () => {
+    const [athlete] = generateSyntheticCohort(1, 1, { weeks: 16 });
+    const oracle: VolumePolicy = {
+      name: 'oracle',
+      choose: ({ asOf, muscle }) => {
+        const day = athlete.days.findIndex(d => d.timestamp === asOf);
+        const lastWeek = athlete.weeks[Math.floor(day / 7)];
+        return optimalVolumeDirection(athlete.profile, muscle, lastWeek.sets[muscle], athlete.days[day].fatigue);
+      },
+    };
+
+    const report = await replay({ athletes: 1, weeks: 16, evalStartWeek: 8, forecasters: [], policies: [oracle, constantVolumePolicy('increase')] });
+    expect(report.volume[0]).toMatchObject({ cumulativeRegret: 0, optimalRate: 1 });
+    expect(report.volume[1].cumulativeRegret).toBeGreaterThan(0);
+  });
+
+  it.skipIf(!process.env.ML_EVAL_GRU)('replays the GRU fatigue predictor', async () => {
+    const report = await replay({ athletes: 2, forecasters: [heuristicFatigueForecaster, createGruFatigueForecaster()], policies: [] });
+    const [heuristic, gru] = report.fatigue;
+
+    expect(gru.forecasts).toBe(heuristic.forecasts);
+    expect(gru.mae).toBeLessThan(1);
+    expect(gru.calibrationError).toBeLessThan(1);
+    expect(formatEvaluationReport(report)).toContain(gru.model);
+  }, 300_000);
+});
@@ -0,0 +1,119 @@
+/**
+ * PocketBase Sync Tests
+ *
+ * Workouts pushed through the PocketBase backend and pulled back again.
+ * The fake server keeps only the fields docker/pb_schema.json declares,
+ * as PocketBase does, so a field missing from the schema or the record
+ * mappings shows up as a lost field here.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PocketBaseBackend } from '../backend/pocketbase';
+import { mergeCollection } from '../syncMerge';
+import type { WorkoutSession } from '../../types';
+
+vi.mock('pocketbase', async () => {
+  const { default: schema } = await import('../../docker/pb_schema.json');
+  const tables = new Map<string, Record<string, unknown>[]>();
+
+  class FakePocketBase {
+    authStore = { isValid: true, model: { id: 'user-1', email: 'athlete@example.com' } };
+
+    autoCancellation() {}
+
+    collection(name: string) {
+      const fields = new Set(schema.find(c => c.name === name)!.schema.map(f => f.name));
+      const rows = tables.get(name) ?? tables.set(name, []).get(name)!;
+      const keep = (data: Record<string, unknown>) =>
+        Object.fromEntries(Object.entries(data).filter(([key, value]) => fields.has(key) && value !== undefined));
+
+      // Enough of the filter syntax for `field = "value"` terms joined by && (clientId || id as one term)
+      const matches = (row: Record<string, unknown>, filter = '') =>
+        Array.from(filter.matchAll(/(\w+) = "([^"]*)"/g)).every(([, field, value]) =>
+          field === 'id' || (field === 'clientId' ? row.clientId === value || row.id === value : row[field] === value)
+        );
+
+      return {
+        getFullList: async ({ filter }: { filter?: string } = {}) =>
+          rows.filter(row => matches(row, filter)).map(row => structuredClone(row)),
+        create: async (data: Record<string, unknown>) => {
+          const row = { ...keep(data), id: `rec${rows.length + 1}` };
+          rows.push(row);
+          return structuredClone(row);
+        },
+        update: async (id: string, data: Record<string, unknown>) => {
+          const row = rows.find(r => r.id === id)!;
+          Object.assign(row, keep(data));
+          return structuredClone(row);
+        },
+      };
+    }
+  }
+
+  return { default: FakePocketBase };
+});
+
+const circuit: WorkoutSession = {
+  id: 'tpl-circuit',
+  name: 'Conditioning Circuit',
+  startTime: 0,
+  status: 'template',
+  logs: [
+    { id: 'l1', exerciseId: 'e147', supersetId: 'b1', sets: [{ id: 's1', reps: 0, weight: 0, duration: 60, type: 'N', completed: false }] },
+    { id: 'l2', exerciseId: 'e111', supersetId: 'b1', sets: [{ id: 's2', reps: 0, weight: 0, duration: 45, type: 'N', completed: false }] },
+  ],
+  blocks: [{ id: 'b1', type: 'circuit', rounds: 4, restSeconds: 90 }],
+  updatedAt: 2_000,
+};
+
+const atHomeGym: WorkoutSession = {
+  id: 'w-home',
+  name: 'Push Day',
+  startTime: 1_000,
+  endTime: 4_000,
+  status: 'completed',
+  gymProfileId: 'gym-home',
+  logs: [{ id: 'l3', exerciseId: 'e1', sets: [{ id: 's3', reps: 5, weight: 100, type: 'N', completed: true }] }],
+  updatedAt: 4_000,
+};
+
+const mergeTemplates = (local: WorkoutSession[], remote: WorkoutSession[]) =>
+  mergeCollection(local, remote, {
+    kind: 'template',
+    getId: w => w.id,
+    getName: w => w.name,
+    pending: new Set<string>(), // Pushed by the previous sync
+    lastSync: 3_000,
+    now: 5_000,
+  });
+
+describe('PocketBase sync', () => {
+  it('keeps template blocks through a push and pull', async () => {
+    const backend = new PocketBaseBackend({ url: 'http://pocketbase.test' });
+
+    await backend.workouts.create(circuit);
+    const pulled = await backend.workouts.getTemplates();
+    expect(pulled[0].blocks).toEqual(circuit.blocks);
+
+    const { merged, conflicts } = mergeTemplates([circuit], pulled);
+    expect(conflicts).toEqual([]);
+    expect(merged[0].blocks).toEqual(circuit.blocks);
+
+    const edited = { ...circuit, blocks: [{ ...circuit.blocks![0], rounds: 5 }], updatedAt: 4_000 };
+    await backend.workouts.update(circuit.id, edited);
+    const [repulled] = await backend.workouts.getTemplates();
+    expect(repulled.blocks).toEqual(edited.blocks);
+  });
+
+  it('keeps the gym a workout was trained at', async () => {
+    const backend = new PocketBaseBackend({ url: 'http://pocketbase.test' });
+
+    await backend.workouts.create(atHomeGym);
+    const [pulled] = await backend.workouts.getHistory();
+    expect(pulled.gymProfileId).toBe('gym-home');
+
+    await backend.workouts.update(atHomeGym.id, { ...atHomeGym, gymProfileId: 'gym-work', updatedAt: 5_000 });
+    const [repulled] = await backend.workouts.getHistory();
+    expect(repulled.gymProfileId).toBe('gym-work');
+  });
+});
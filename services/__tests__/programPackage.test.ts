@@ -0,0 +1,222 @@
+/**
+ * Program Package Tests
+ *
+ * Export of a program with its templates and custom exercises, file and
+ * link round-trips, validation, and import with id remapping and collisions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createProgramPackage,
+  encodeProgramPackage,
+  getProgramPackageLink,
+  importProgramPackage,
+  parseProgramPackage,
+  serializeProgramPackage,
+  ProgramPackage,
+} from '../programPackage';
+import { getProgramTemplateIds } from '../programProgression';
+import { INITIAL_PROGRAMS } from '../../constants';
+import type { Exercise, Program, WorkoutSession } from '../../types';
+
+const NOW = Date.UTC(2024, 5, 1);
+
+const template = (id: string, exerciseIds: string[]): WorkoutSession => ({
+  id,
+  name: `Template ${id}`,
+  startTime: 0,
+  status: 'template',
+  logs: exerciseIds.map((exerciseId, i) => ({
+    id: `${id}-l${i}`,
+    exerciseId,
+    sets: [{ id: `${id}-s${i}`, reps: 8, weight: 0, type: 'N', completed: false }],
+  })),
+});
+
+const viking: Exercise = {
+  id: 'custom-viking',
+  name: 'Viking Press',
+  muscleGroup: 'Shoulders',
+  equipment: 'Barbell',
+  category: 'Compound',
+  formGuide: [],
+  commonMistakes: [],
+  tips: [],
+};
+
+const program: Program = {
+  id: 'p-block',
+  name: 'Strength Block',
+  description: '4-week block',
+  weeks: 4,
+  sessions: [
+    { templateId: 'tpl-a', week: 1, day: 1, exercises: [{ exerciseId: 'custom-viking', sets: 3, reps: 8, percentage: 70 }] },
+    { templateId: 'tpl-b', week: 1, day: 2 },
+  ],
+  goal: 'Strength',
+  splitType: 'Upper/Lower',
+  difficulty: 'Intermediate',
+  frequency: 2,
+  progressionRules: [
+    { id: 'press', exerciseId: 'custom-viking', templateIds: ['tpl-a'], rule: { type: 'double', sets: 3, minReps: 8, maxReps: 12, increment: { kg: 2.5, lbs: 5 } } },
+  ],
+  methodology: { approach: 'Heavy singles', goals: [], guidelines: [], principles: [] },
+};
+
+const library = {
+  templates: [template('tpl-a', ['custom-viking', 'e1']), template('tpl-b', ['e4']), template('other', ['e5'])],
+  customExercises: [viking, { ...viking, id: 'custom-unused', name: 'Unused' }],
+};
+
+let counter = 0;
+const makeId = () => `new-${++counter}`;
+
+const exported = (): ProgramPackage => createProgramPackage(program, library);
+
+describe('programPackage', () => {
+  describe('export', () => {
+    it('bundles the program with only the templates and custom exercises it uses', () => {
+      const pkg = exported();
+
+      expect(pkg).toMatchObject({ format: 'voltlift-program', version: 1 });
+      expect(pkg.program.progressionRules).toHaveLength(1);
+      expect(pkg.program.methodology?.approach).toBe('Heavy singles');
+      expect(pkg.templates.map(t => t.id)).toEqual(['tpl-a', 'tpl-b']);
+      expect(pkg.customExercises.map(e => e.id)).toEqual(['custom-viking']);
+    });
+
+    it('keeps template blocks without their timer progress', () => {
+      const circuit = template('tpl-b', ['e4', 'e5']);
+      circuit.logs.forEach(log => { log.supersetId = 'b1'; });
+      circuit.blocks = [{ id: 'b1', type: 'circuit', rounds: 3, restSeconds: 60, progress: { startedAt: NOW, round: 1, exerciseIndex: 1 } }];
+
+      const pkg = createProgramPackage(program, { ...library, templates: [library.templates[0], circuit] });
+
+      expect(pkg.templates[0]).not.toHaveProperty('blocks');
+      expect(pkg.templates[1].blocks).toEqual([{ id: 'b1', type: 'circuit', rounds: 3, restSeconds: 60 }]);
+      expect(parseProgramPackage(serializeProgramPackage(pkg))).toEqual(pkg);
+      expect(importProgramPackage(pkg, { programs: [], templates: [], customExercises: [] }, { makeId }).templates[1].blocks)
+        .toEqual(pkg.templates[1].blocks);
+    });
+
+    it('includes the methodology of built-in programs', () => {
+      const ppl = createProgramPackage({ ...program, id: 'prog_ppl', methodology: undefined }, library);
+      expect(ppl.program.methodology?.approach).toContain('Movement-based');
+    });
+
+    it('refuses to export a program whose templates were deleted', () => {
+      expect(() => createProgramPackage(program, { ...library, templates: [] })).toThrow(/tpl-a, tpl-b/);
+    });
+  });
+
+  describe('parse', () => {
+    it('round-trips through a file, a link and a bare payload', () => {
+      const pkg = exported();
+
+      expect(parseProgramPackage(serializeProgramPackage(pkg))).toEqual(pkg);
+      expect(parseProgramPackage(getProgramPackageLink(pkg, 'https://app.voltlift.io/'))).toEqual(pkg);
+      expect(parseProgramPackage(encodeProgramPackage({ ...pkg, program: { ...pkg.program, name: 'Blöck ✓' } })).program.name)
+        .toBe('Blöck ✓');
+    });
+
+    it('rejects files that are not valid packages', () => {
+      const pkg = exported();
+
+      expect(() => parseProgramPackage('not a package')).toThrow(/unreadable/);
+      expect(() => parseProgramPackage('{"format":"other"}')).toThrow(/Not a VoltLift program package/);
+      expect(() => parseProgramPackage(JSON.stringify({ ...pkg, version: 2 }))).toThrow(/newer version/);
+      expect(() => parseProgramPackage(JSON.stringify({ ...pkg, templates: [pkg.templates[0]] }))).toThrow(/missing workout templates: tpl-b/);
+      expect(() => parseProgramPackage(JSON.stringify({ ...pkg, customExercises: [] }))).toThrow(/unknown exercises: custom-viking/);
+    });
+
+    it('rejects malformed progression rules', () => {
+      const pkg = exported();
+      const withRules = (progressionRules: unknown[]) =>
+        JSON.stringify({ ...pkg, program: { ...pkg.program, progressionRules } });
+      const [press] = pkg.program.progressionRules!;
+      const wave = { type: 'wave', trainingMaxIncrement: { kg: 2.5, lbs: 5 }, resetPercent: 0.9, rounding: { kg: 2.5, lbs: 5 } };
+
+      expect(() => parseProgramPackage(withRules([{ ...press, rule: { ...wave, weeks: [] } }]))).toThrow(/invalid progression rules/);
+      expect(() => parseProgramPackage(withRules([{ ...press, rule: { ...wave, weeks: [{ reps: [5, 5], percentages: [0.65] }] } }])))
+        .toThrow(/invalid progression rules/);
+      expect(() => parseProgramPackage(withRules([{ id: 'press', exerciseId: 'custom-viking' }]))).toThrow(/invalid progression rules/);
+      expect(() => parseProgramPackage(withRules([{ ...press, rule: { ...press.rule, minReps: 12, maxReps: 8 } }])))
+        .toThrow(/invalid progression rules/);
+      expect(() => parseProgramPackage(withRules([{ ...press, rule: { ...press.rule, increment: { kg: 0, lbs: 5 } } }])))
+        .toThrow(/invalid progression rules/);
+      expect(() => parseProgramPackage(withRules([{ ...press, rule: { ...press.rule, type: 'block' } }]))).toThrow(/invalid progression rules/);
+      expect(parseProgramPackage(withRules([{ ...press, rule: { ...wave, weeks: [{ reps: [5, 5], percentages: [0.65, 0.75] }] } }])))
+        .toBeTruthy();
+    });
+
+    it('rejects malformed session prescriptions', () => {
+      const pkg = exported();
+      const [a, b] = pkg.program.sessions;
+      const withSessions = (sessions: unknown[], frequencyVariants?: unknown) =>
+        JSON.stringify({ ...pkg, program: { ...pkg.program, sessions, frequencyVariants } });
+      const prescription = a.exercises![0];
+
+      expect(() => parseProgramPackage(withSessions([{ ...a, exercises: [{ ...prescription, sets: 0 }] }, b]))).toThrow(/valid program/);
+      expect(() => parseProgramPackage(withSessions([{ ...a, exercises: [{ exerciseId: 'custom-viking', sets: 3 }] }, b])))
+        .toThrow(/valid program/);
+      expect(() => parseProgramPackage(withSessions([{ ...a, exercises: [{ ...prescription, repsMax: 6 }] }, b]))).toThrow(/valid program/);
+      expect(() => parseProgramPackage(withSessions([{ ...a, exercises: { exerciseId: 'e1' } }, b]))).toThrow(/valid program/);
+      expect(() => parseProgramPackage(withSessions([a, b], { 3: { sessions: [{ ...b, exercises: [{ ...prescription, rpe: 12 }] }] } })))
+        .toThrow(/valid program/);
+      expect(() => parseProgramPackage(withSessions([a, b], { 3: { description: 'No sessions' } }))).toThrow(/valid program/);
+    });
+
+    it('accepts every built-in program', () => {
+      INITIAL_PROGRAMS.forEach(builtIn => {
+        const templates = Array.from(getProgramTemplateIds(builtIn), id => template(id, []));
+        const pkg = { ...exported(), program: builtIn, templates };
+        expect(() => parseProgramPackage(serializeProgramPackage(pkg)), builtIn.name).not.toThrow();
+      });
+    });
+  });
+
+  describe('import', () => {
+    it('gives the program a new id and remaps new templates and exercises', () => {
+      const result = importProgramPackage(exported(), { programs: [], templates: [], customExercises: [] }, { now: NOW, makeId });
+      const [a, b] = result.templates;
+      const pressId = result.idMap['custom-viking'];
+
+      expect(result.program.id).not.toBe(program.id);
+      expect(result.program.updatedAt).toBe(NOW);
+      expect(result.customExercises).toEqual([{ ...viking, id: pressId }]);
+      expect(pressId).toMatch(/^custom-new-/);
+      expect(a.logs.map(l => l.exerciseId)).toEqual([pressId, 'e1']);
+      expect(result.program.sessions.map(s => s.templateId)).toEqual([a.id, b.id]);
+      expect(result.program.sessions[0].exercises?.[0].exerciseId).toBe(pressId);
+      expect(result.program.progressionRules?.[0]).toMatchObject({ exerciseId: pressId, templateIds: [a.id] });
+    });
+
+    it('reuses identical local templates and exercises with the same name', () => {
+      const local = {
+        programs: [{ ...program, id: 'mine' }],
+        templates: [template('tpl-b', ['e4']), template('tpl-a', ['e1'])],
+        customExercises: [{ ...viking, id: 'custom-mine', name: 'viking press' }],
+      };
+
+      const result = importProgramPackage(exported(), local, { now: NOW, makeId });
+
+      expect(result.customExercises).toEqual([]);
+      expect(result.idMap['custom-viking']).toBe('custom-mine');
+      // tpl-b matches; the local tpl-a has different exercises so the package's is added
+      expect(result.templates.map(t => t.name)).toEqual(['Template tpl-a']);
+      expect(result.program.sessions[1].templateId).toBe('tpl-b');
+      expect(result.program.sessions[0].templateId).toBe(result.templates[0].id);
+      expect(result.program.name).toBe('Strength Block (2)');
+    });
+
+    it('maps custom exercises onto built-in ones with the same name', () => {
+      const pkg = exported();
+      pkg.customExercises = [{ ...viking, name: 'Landmine Press' }];
+
+      const result = importProgramPackage(pkg, { programs: [], templates: [], customExercises: [] }, { makeId });
+
+      expect(result.idMap['custom-viking']).toBe('e30');
+      expect(result.customExercises).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Program Progression Tests
+ *
+ * Rule evaluation for each built-in program: linear with failure resets
+ * (StrongLifts, GZCLP tiers, Reddit PPL), double progression (Arnold),
+ * RPE targets (Evidence-Based Hypertrophy) and 5/3/1 waves, plus fixed
+ * per-week prescriptions from the Program Builder
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  advanceProgression,
+  evaluateProgramProgression,
+  expandPrescription,
+  findProgressionRule,
+  getSessionPrescription,
+  getProgramTemplateIds,
+  prescribeExercise,
+  prescribeSets,
+} from '../programProgression';
+import { createGymProfile } from '../gymProfiles';
+import { LoadRounding } from '../loadRounding';
+import { INITIAL_PROGRAMS, EXERCISE_LIBRARY } from '../../constants';
+import { fromDisplayWeight, toDisplayWeight } from '../../utils/conversions';
+import type { Program, ProgressionState, SetLog, WorkoutSession } from '../../types';
+
+const NOW = Date.UTC(2024, 5, 1);
+
+const program = (id: string): Program => INITIAL_PROGRAMS.find(p => p.id === id)!;
+
+const sets = (count: number, reps: number, weight: number, extra: Partial<SetLog> = {}): SetLog[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `s${i}`, reps, weight, type: 'N', completed: true, ...extra }));
+
+const session = (templateId: string, logs: { exerciseId: string; sets: SetLog[] }[]): WorkoutSession => ({
+  id: `w-${templateId}`,
+  name: templateId,
+  startTime: NOW,
+  status: 'completed',
+  sourceTemplateId: templateId,
+  logs: logs.map((log, i) => ({ id: `l${i}`, ...log })),
+});
+
+/**
+ * Run a rule through consecutive sessions, returning the state after each
+ */
+function run(programId: string, ruleId: string, start: ProgressionState, sessions: SetLog[][], units: 'kg' | 'lbs' = 'kg') {
+  const rule = program(programId).progressionRules!.find(r => r.id === ruleId)!.rule;
+  const states: ProgressionState[] = [];
+  let state = start;
+  sessions.forEach(performed => {
+    state = advanceProgression(rule, state, performed, units, NOW);
+    states.push(state);
+  });
+  return states;
+}
+
+describe('programProgression', () => {
+  describe('built-in programs', () => {
+    it('only reference real exercises and the program\'s own templates', () => {
+      const exerciseIds = new Set(EXERCISE_LIBRARY.map(e => e.id));
+
+      INITIAL_PROGRAMS.filter(p => p.progressionRules).forEach(p => {
+        const templates = getProgramTemplateIds(p);
+        const ids = p.progressionRules!.map(r => r.id);
+
+        expect(new Set(ids).size).toBe(ids.length);
+        p.progressionRules!.forEach(r => {
+          expect(exerciseIds.has(r.exerciseId)).toBe(true);
+          (r.templateIds || []).forEach(t => expect(templates.has(t)).toBe(true));
+        });
+      });
+    });
+  });
+
+  describe('StrongLifts 5x5 (linear)', () => {
+    it('adds 2.5kg per successful session and 5kg on deadlifts', () => {
+      const workout = session('sl5x5_b', [
+        { exerciseId: 'e4', sets: [...sets(1, 5, 20, { type: 'W' }), ...sets(5, 5, 60)] },
+        { exerciseId: 'e16', sets: sets(5, 5, 30) },
+        { exerciseId: 'e5', sets: sets(1, 5, 80) },
+      ]);
+
+      const progression = evaluateProgramProgression(program('prog_sl5x5'), workout, {}, { units: 'kg', now: NOW });
+
+      expect(progression.sl_squat).toMatchObject({ weight: 62.5, failures: 0 });
+      expect(progression.sl_ohp.weight).toBe(32.5);
+      expect(progression.sl_deadlift.weight).toBe(85);
+      expect(prescribeExercise(program('prog_sl5x5'), 'sl5x5_a', 'e4', progression, 'kg')).toEqual(
+        Array(5).fill({ reps: 5, weight: 62.5 })
+      );
+    });
+
+    it('deloads 10% after three failed sessions at the same weight', () => {
+      const failed = [...sets(3, 5, 100), ...sets(2, 3, 100)];
+      const states = run('prog_sl5x5', 'sl_bench', { weight: 100, failures: 0, updatedAt: 0 }, [failed, failed, failed]);
+
+      expect(states.map(s => [s.weight, s.failures])).toEqual([[100, 1], [100, 2], [90, 0]]);
+    });
+
+    it('uses pound increments for lbs users', () => {
+      const start = fromDisplayWeight(135, 'lbs');
+      const [state] = run('prog_sl5x5', 'sl_row', { weight: start, updatedAt: 0 }, [sets(5, 5, start)], 'lbs');
+      expect(toDisplayWeight(state.weight, 'lbs')).toBe(140);
+    });
+  });
+
+  describe('GZCLP (tiered linear)', () => {
+    it('applies T1 and T2 rules to the same lift by template', () => {
+      const gzclp = program('prog_gzclp');
+
+      expect(findProgressionRule(gzclp, 'e4', 'gzclp_day1')?.id).toBe('gzclp_t1_squat');
+      expect(findProgressionRule(gzclp, 'e4', 'gzclp_day3')?.id).toBe('gzclp_t2_squat');
+      expect(findProgressionRule(gzclp, 'e18', 'gzclp_day3')?.id).toBe('gzclp_t3_pulldown');
+    });
+
+    it('moves T1 through 5x3, 6x2 and 10x1 before restarting at 85%', () => {
+      const rule = program('prog_gzclp').progressionRules!.find(r => r.id === 'gzclp_t1_squat')!.rule;
+      const start: ProgressionState = { weight: 100, stage: 0, failures: 0, updatedAt: 0 };
+      const states = run('prog_gzclp', 'gzclp_t1_squat', start, [
+        sets(5, 3, 100), // 5x3 done -> +5kg
+        sets(5, 2, 105), // missed -> 6x2
+        sets(6, 2, 105), // 6x2 done -> +5kg
+        sets(3, 2, 110), // missed -> 10x1
+        sets(4, 1, 110), // missed -> reset to 85%, on the 5kg increment
+      ]);
+
+      expect(states.map(s => [s.weight, s.stage])).toEqual([[105, 0], [105, 1], [110, 1], [110, 2], [95, 0]]);
+      expect(prescribeSets(rule, states[3], 'kg')).toHaveLength(10);
+    });
+
+    it('steps T2 down from 3x10 to 3x8 to 3x6', () => {
+      const rule = program('prog_gzclp').progressionRules!.find(r => r.id === 'gzclp_t2_bench')!.rule;
+      const states = run('prog_gzclp', 'gzclp_t2_bench', { weight: 60, updatedAt: 0 }, [sets(3, 9, 60), sets(3, 7, 60)]);
+
+      expect(prescribeSets(rule, states[0], 'kg')).toEqual(Array(3).fill({ reps: 8, weight: 60 }));
+      expect(prescribeSets(rule, states[1], 'kg')).toEqual(Array(3).fill({ reps: 6, weight: 60 }));
+    });
+  });
+
+  describe('Reddit PPL (linear + double progression)', () => {
+    it('progresses main lifts linearly and accessories through the rep range', () => {
+      const workout = session('ppl_push', [
+        { exerciseId: 'e1', sets: sets(5, 5, 80) },
+        { exerciseId: 'e16', sets: sets(3, 8, 40) },
+        { exerciseId: 'e10', sets: sets(3, 60, 0) }, // No rule
+      ]);
+
+      const progression = evaluateProgramProgression(program('prog_ppl'), workout, {}, { units: 'kg', now: NOW });
+
+      expect(Object.keys(progression).sort()).toEqual(['ppl_bench', 'ppl_ohp']);
+      expect(progression.ppl_bench.weight).toBe(82.5);
+      expect(progression.ppl_ohp).toMatchObject({ weight: 40, targetReps: 9 });
+    });
+
+    it('ignores workouts from templates outside the program', () => {
+      const progression = {};
+      const workout = session('t1', [{ exerciseId: 'e1', sets: sets(5, 5, 80) }]);
+
+      expect(evaluateProgramProgression(program('prog_ppl'), workout, progression, { units: 'kg' })).toBe(progression);
+    });
+  });
+
+  describe('Arnold Golden Six (double progression)', () => {
+    it('adds weight once every set reaches 12 reps, then restarts at 8', () => {
+      const states = run('prog_arnold', 'arnold_bench', { weight: 60, targetReps: 11, updatedAt: 0 }, [
+        sets(3, 11, 60),
+        [...sets(2, 12, 60), ...sets(1, 10, 60)], // One set short - repeat
+        sets(3, 12, 60),
+      ]);
+
+      expect(states.map(s => [s.weight, s.targetReps])).toEqual([[60, 12], [60, 12], [62.5, 8]]);
+    });
+  });
+
+  describe('Evidence-Based Hypertrophy (RPE target)', () => {
+    it('moves the load toward RPE 8', () => {
+      const [easy] = run('prog_evidence_hypertrophy', 'ebh_bench', { weight: 80, updatedAt: 0 }, [sets(3, 10, 80, { rpe: 6 })]);
+      const [hard] = run('prog_evidence_hypertrophy', 'ebh_bench', { weight: 80, updatedAt: 0 }, [sets(3, 10, 80, { rpe: 9.5 })]);
+      const [unrated] = run('prog_evidence_hypertrophy', 'ebh_bench', { weight: 80, updatedAt: 0 }, [sets(3, 10, 80)]);
+
+      expect(easy.weight).toBe(87.5); // 80 x 1.08 = 86.4 -> 87.5
+      expect(hard.weight).toBe(75); // 80 x 0.94 = 75.2 -> 75
+      expect(unrated.weight).toBe(80);
+    });
+
+    it('leaves deload sessions out of the progression', () => {
+      const workout = session('ebh_upper_deload', [{ exerciseId: 'e1', sets: sets(2, 10, 60, { rpe: 5 }) }]);
+      const progression = { ebh_bench: { weight: 80, updatedAt: 0 } };
+
+      expect(evaluateProgramProgression(program('prog_evidence_hypertrophy'), workout, progression, { units: 'kg' }))
+        .toEqual(progression);
+    });
+  });
+
+  describe('5/3/1 (wave)', () => {
+    it('calibrates the training max on the first session', () => {
+      const workout = session('531_bench_day', [{ exerciseId: 'e1', sets: sets(1, 5, 100) }]);
+      const progression = evaluateProgramProgression(program('prog_531_bbb'), workout, {}, { units: 'kg', now: NOW });
+
+      // 100 x (1 + 5/30) x 0.9 = 105
+      expect(progression['531bbb_bench']).toMatchObject({ trainingMax: 105, week: 0 });
+    });
+
+    it('prefers an existing training max', () => {
+      const workout = session('531_bench_day', [{ exerciseId: 'e1', sets: sets(1, 5, 100) }]);
+      const progression = evaluateProgramProgression(program('prog_531_bbb'), workout, {}, {
+        units: 'kg',
+        trainingMaxes: { e1: { exerciseId: 'e1', value: 110, lastUpdated: 0, history: [] } },
+      });
+
+      expect(progression['531bbb_bench'].trainingMax).toBe(110);
+    });
+
+    it('cycles 5s, 3s and 5/3/1, raising the training max after each wave', () => {
+      const bbb = program('prog_531_bbb');
+      const rule = bbb.progressionRules!.find(r => r.id === '531bbb_squat')!.rule;
+      let state: ProgressionState = { weight: 0, trainingMax: 140, week: 0, updatedAt: 0 };
+
+      const prescriptions = [0, 1, 2].map(() => {
+        const prescribed = prescribeSets(rule, state, 'kg');
+        state = advanceProgression(rule, state, prescribed.map((p, i) => ({ id: `${i}`, ...p, type: 'N', completed: true })), 'kg', NOW);
+        return prescribed;
+      });
+
+      expect(prescriptions[0]).toEqual([{ reps: 5, weight: 90 }, { reps: 5, weight: 105 }, { reps: 5, weight: 120 }]);
+      expect(prescriptions[2].map(s => s.reps)).toEqual([5, 3, 1]);
+      expect(state).toMatchObject({ trainingMax: 145, week: 0 });
+    });
+
+    it('lowers the training max when the AMRAP set misses its reps', () => {
+      const [state] = run('prog_531_bbb', '531bbb_ohp', { weight: 0, trainingMax: 50, week: 1, updatedAt: 0 }, [
+        [...sets(2, 3, 40), ...sets(1, 2, 45)],
+      ]);
+
+      expect(state).toMatchObject({ trainingMax: 45, week: 0 });
+    });
+
+    describe('AMRAP target with gym rounding', () => {
+      const rule = program('prog_531_bbb').progressionRules!.find(r => r.id === '531bbb_squat')!.rule;
+      const performAll = (prescribed: { reps: number; weight: number }[]): SetLog[] =>
+        prescribed.map((p, i) => ({ id: `${i}`, ...p, type: 'N', completed: true }));
+
+      it('counts the sets prescribed with microplates as completed', () => {
+        const load: LoadRounding = { loadingType: 'barbell', gym: { ...createGymProfile('Home', 'kg'), microplates: [0.25] } };
+        const state: ProgressionState = { weight: 0, trainingMax: 64, week: 0, updatedAt: 0 };
+        const prescribed = prescribeSets(rule, state, 'kg', load);
+
+        // 85% of 64 = 54.4: 54.5 with microplates, where the rule's 2.5 kg step would say 55
+        expect(prescribed[2]).toEqual({ reps: 5, weight: 54.5 });
+        expect(advanceProgression(rule, state, performAll(prescribed), 'kg', NOW, load)).toMatchObject({ trainingMax: 64, week: 1 });
+      });
+
+      it('counts kg gym loads as completed for a lbs user', () => {
+        const load: LoadRounding = { loadingType: 'barbell', gym: createGymProfile('Metric', 'kg') };
+        const state: ProgressionState = { weight: 0, trainingMax: fromDisplayWeight(225, 'lbs'), week: 2, updatedAt: 0 };
+        const workout = session('531_squat_day', [{ exerciseId: 'e4', sets: performAll(prescribeSets(rule, state, 'lbs', load)) }]);
+        const progression = evaluateProgramProgression(program('prog_531_bbb'), workout, { '531bbb_squat': state }, {
+          units: 'lbs',
+          now: NOW,
+          getLoad: () => load,
+        });
+
+        // 95% of 225 lbs is 97.5 kg on kg plates, just under the rule's 215 lbs; the wave completes
+        expect(toDisplayWeight(progression['531bbb_squat'].trainingMax!, 'lbs')).toBe(235);
+        expect(progression['531bbb_squat'].week).toBe(0);
+      });
+    });
+
+    it('repeats each week for the twice-weekly beginner variant', () => {
+      const rule = program('prog_531_beginner').progressionRules!.find(r => r.id === '531b_bench')!.rule;
+      const state = (week: number): ProgressionState => ({ weight: 0, trainingMax: 100, week, updatedAt: 0 });
+
+      expect(prescribeSets(rule, state(1), 'kg')).toEqual(prescribeSets(rule, state(0), 'kg'));
+      expect(prescribeSets(rule, state(2), 'kg')[0].reps).toBe(3);
+    });
+  });
+
+  describe('week prescriptions', () => {
+    const block: Program = {
+      ...program('prog_ppl'),
+      sessions: [
+        { templateId: 't1', week: 1, day: 1, exercises: [{ exerciseId: 'e1', sets: 3, reps: 8, percentage: 70, rest: 120 }] },
+        { templateId: 't1', week: 3, day: 1, exercises: [{ exerciseId: 'e1', sets: 5, reps: 3, percentage: 85, rpe: 8 }] },
+        { templateId: 't2', week: 3, day: 2 },
+      ],
+    };
+
+    it('only applies to the current session\'s template', () => {
+      expect(getSessionPrescription(block, 0, 't1')?.[0]).toMatchObject({ sets: 3, reps: 8 });
+      expect(getSessionPrescription(block, 1, 't1')?.[0]).toMatchObject({ sets: 5, reps: 3 });
+      expect(getSessionPrescription(block, 1, 't2')).toBeUndefined();
+      expect(getSessionPrescription(block, 2, 't2')).toBeUndefined();
+    });
+
+    it('loads %TM sets from the training max', () => {
+      const [week1, week3] = [0, 1].map(i => block.sessions[i].exercises![0]);
+
+      expect(expandPrescription(week1, 'kg', 140)).toEqual(Array(3).fill({ reps: 8, weight: 97.5 })); // 98 -> 97.5
+      expect(expandPrescription(week3, 'kg', 140)).toEqual(Array(5).fill({ reps: 3, weight: 120, rpe: 8 })); // 119 -> 120
+      const [set] = expandPrescription(week3, 'lbs', fromDisplayWeight(315, 'lbs'));
+      expect(toDisplayWeight(set.weight, 'lbs')).toBe(270); // 267.75 -> 270
+    });
+
+    it('falls back to the given weight without a training max or percentage', () => {
+      expect(expandPrescription({ exerciseId: 'e1', sets: 2, reps: 5, percentage: 80 }, 'kg', undefined, 60))
+        .toEqual(Array(2).fill({ reps: 5, weight: 60 }));
+      expect(expandPrescription({ exerciseId: 'e8', sets: 3, reps: 10, repsMax: 12 }, 'kg', 100, 15)[0].weight).toBe(15);
+    });
+  });
+});
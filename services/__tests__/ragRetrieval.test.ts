@@ -0,0 +1,249 @@
+/**
+ * RAG Retrieval Tests
+ *
+ * Relevance benchmark for keyword vs hybrid (keyword + vector) search,
+ * plus embedding cache behaviour. Uses the offline hashing provider so the
+ * results are deterministic. The MiniLM benchmark runs only when the model
+ * files are present (RAG_EVAL_MODEL=1, see docs/ai-architecture.md).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import { join, normalize } from 'node:path';
+import { RAGDocumentStore } from '../ai/rag';
+import {
+  createHashingEmbeddingProvider,
+  createTfjsEmbeddingProvider,
+  cosineSimilarity,
+  DEFAULT_EMBEDDING_MODEL,
+  EmbeddingProvider,
+} from '../ai/embeddings';
+import { VectorIndex, createMemoryVectorCache } from '../ai/vectorStore';
+
+/** Exercise ids expand to both their guide and tips documents */
+const docs = (...ids: string[]) =>
+  ids.flatMap((id) => (id.startsWith('knowledge_') ? [id] : [`exercise_guide_${id}`, `form_tip_${id}`]));
+
+type RelevanceSet = { query: string; relevant: string[] }[];
+
+// e5 Deadlift, e11 Romanian Deadlift, e175 Good Morning, e176 Hyperextension, e4/e77/e78 squats
+// Development set: the embedding concepts were written while looking at these queries
+const RELEVANCE_SET: RelevanceSet = [
+  { query: 'my lower back hurts when I hinge', relevant: docs('e5', 'e11', 'e175', 'e176') },
+  { query: 'how long should I sleep to recover', relevant: docs('knowledge_recovery') },
+  { query: "I keep stalling and can't add weight", relevant: docs('knowledge_progressive_overload') },
+  { query: 'how many hard sets per week should I do', relevant: docs('knowledge_volume') },
+  { query: 'how much protein should I eat', relevant: docs('knowledge_nutrition') },
+  { query: 'what does reps in reserve mean', relevant: docs('knowledge_rpe') },
+  { query: 'my shoulders are rounded from too much bench', relevant: docs('knowledge_balance') },
+  { query: 'romanian deadlift', relevant: docs('e11') },
+  { query: 'knees cave in when I squat', relevant: docs('e4', 'e77', 'e78') },
+  { query: 'when should I take a deload week', relevant: docs('knowledge_recovery', 'knowledge_progressive_overload') },
+  { query: 'I feel exhausted and my lifts are going backwards', relevant: docs('knowledge_recovery') },
+  { query: 'how hard should my working sets feel', relevant: docs('knowledge_rpe') },
+];
+
+// e3 Pull Up, e10/e111 Plank, e64 Skull Crusher, e78 Goblet Squat, e173 Hip Thrust
+// Held-out set: written from the documents alone and never used to tune the embeddings.
+// Don't change the concepts to fix a query here - add the query to the development set instead
+const HELD_OUT_SET: RelevanceSet = [
+  { query: 'how much water should I drink each day', relevant: docs('knowledge_nutrition') },
+  { query: 'what should I eat before training', relevant: docs('knowledge_nutrition') },
+  { query: 'is creatine worth taking', relevant: docs('knowledge_nutrition') },
+  { query: 'how long should I rest between sets for muscle growth', relevant: docs('knowledge_recovery') },
+  { query: 'how do I know if I am overtraining', relevant: docs('knowledge_recovery') },
+  { query: 'when is it time to put more weight on the bar', relevant: docs('knowledge_progressive_overload') },
+  { query: 'do isolation exercises count toward my weekly sets', relevant: docs('knowledge_volume') },
+  { query: 'what does an RPE of 8 feel like', relevant: docs('knowledge_rpe') },
+  { query: 'I do way more pushing than pulling', relevant: docs('knowledge_balance') },
+  { query: 'my quads are much stronger than my hamstrings', relevant: docs('knowledge_balance') },
+  { query: 'skull crushers bother my elbows', relevant: docs('e64') },
+  { query: 'how do I get my chin over the bar', relevant: docs('e3', 'e38', 'e39') },
+  { query: 'my hips sag when I hold a plank', relevant: docs('e10', 'e111') },
+  { query: 'best exercise to build my glutes', relevant: docs('e173') },
+];
+
+/**
+ * Mean reciprocal rank and hit rate @k over a relevance set
+ */
+function evaluate(set: RelevanceSet, rankings: string[][]): { mrr: number; hitRate: number } {
+  let reciprocalRanks = 0;
+  let hits = 0;
+
+  rankings.forEach((ranking, i) => {
+    const rank = ranking.findIndex((id) => set[i].relevant.includes(id));
+    if (rank >= 0) {
+      reciprocalRanks += 1 / (rank + 1);
+      hits++;
+    }
+  });
+
+  return { mrr: reciprocalRanks / rankings.length, hitRate: hits / rankings.length };
+}
+
+const keywordRankings = (store: RAGDocumentStore, set: RelevanceSet) =>
+  set.map(({ query }) => store.search({ query, topK: 5 }).map((r) => r.document.id));
+
+async function hybridRankings(store: RAGDocumentStore, set: RelevanceSet): Promise<string[][]> {
+  const rankings: string[][] = [];
+  for (const { query } of set) {
+    const results = await store.hybridSearch({ query, topK: 5 });
+    rankings.push(results.map((r) => r.document.id));
+  }
+  return rankings;
+}
+
+describe('RAG retrieval', () => {
+  const store = new RAGDocumentStore();
+  let keyword: { development: string[][]; heldOut: string[][] };
+  let hybrid: { development: string[][]; heldOut: string[][] };
+
+  beforeAll(async () => {
+    await store.initialize();
+    keyword = { development: keywordRankings(store, RELEVANCE_SET), heldOut: keywordRankings(store, HELD_OUT_SET) };
+
+    await store.enableVectorSearch(createHashingEmbeddingProvider(), createMemoryVectorCache());
+    hybrid = { development: await hybridRankings(store, RELEVANCE_SET), heldOut: await hybridRankings(store, HELD_OUT_SET) };
+  });
+
+  it('ranks relevant documents higher than keyword search alone', () => {
+    const keywordScore = evaluate(RELEVANCE_SET, keyword.development);
+    const hybridScore = evaluate(RELEVANCE_SET, hybrid.development);
+
+    expect(hybridScore.mrr).toBeGreaterThan(keywordScore.mrr);
+    expect(hybridScore.hitRate).toBeGreaterThanOrEqual(keywordScore.hitRate);
+  });
+
+  it('holds up on queries the embeddings were not tuned on', () => {
+    const keywordScore = evaluate(HELD_OUT_SET, keyword.heldOut);
+    const hybridScore = evaluate(HELD_OUT_SET, hybrid.heldOut);
+
+    expect(hybridScore.mrr).toBeGreaterThanOrEqual(keywordScore.mrr);
+    expect(hybridScore.hitRate).toBeGreaterThanOrEqual(keywordScore.hitRate);
+    // The original bar, now measured on queries the concepts never saw
+    expect(hybridScore.mrr).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('finds hinge guides for a paraphrased lower back question', () => {
+    expect(RELEVANCE_SET[0].relevant).toContain(hybrid.development[0][0]);
+  });
+
+  it('keeps exact exercise names at the top', () => {
+    expect(hybrid.development[7].slice(0, 2)).toEqual(expect.arrayContaining(['form_tip_e11']));
+  });
+
+  it('respects type filters', async () => {
+    const results = await store.hybridSearch({ query: 'my lower back hurts', type: 'fitness_knowledge' });
+    expect(results.every((r) => r.document.type === 'fitness_knowledge')).toBe(true);
+  });
+
+  it('falls back to keyword search before vectors are built', async () => {
+    const fresh = new RAGDocumentStore();
+    await fresh.initialize();
+
+    const results = await fresh.hybridSearch({ query: 'romanian deadlift', topK: 3 });
+    expect(results.map((r) => r.document.id)).toEqual(
+      fresh.search({ query: 'romanian deadlift', topK: 3 }).map((r) => r.document.id)
+    );
+  });
+});
+
+// Needs the model files from `npm run models:fetch`; run with RAG_EVAL_MODEL=1
+describe.skipIf(!process.env.RAG_EVAL_MODEL)('RAG retrieval with the MiniLM encoder', () => {
+  const publicDir = join(__dirname, '../../public');
+  let server: Server;
+  let scores: { hashing: number; minilm: number };
+
+  beforeAll(async () => {
+    // Serve public/ the way Vite does so the provider loads the same URLs as the app
+    server = createServer(async (req, res) => {
+      try {
+        res.end(await readFile(join(publicDir, normalize(decodeURIComponent(req.url ?? '/')))));
+      } catch {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const score = async (provider: EmbeddingProvider) => {
+      const store = new RAGDocumentStore();
+      await store.enableVectorSearch(provider, createMemoryVectorCache());
+      return evaluate(HELD_OUT_SET, await hybridRankings(store, HELD_OUT_SET)).mrr;
+    };
+
+    scores = {
+      hashing: await score(createHashingEmbeddingProvider()),
+      minilm: await score(createTfjsEmbeddingProvider({
+        ...DEFAULT_EMBEDDING_MODEL,
+        modelUrl: origin + DEFAULT_EMBEDDING_MODEL.modelUrl,
+        vocabUrl: origin + DEFAULT_EMBEDDING_MODEL.vocabUrl,
+      })),
+    };
+  }, 300_000);
+
+  afterAll(() => new Promise<void>((resolve) => server?.close(() => resolve())));
+
+  it('matches or beats the hashing fallback on the held-out set', () => {
+    expect(scores.minilm).toBeGreaterThanOrEqual(scores.hashing);
+    expect(scores.minilm).toBeGreaterThanOrEqual(0.6);
+  });
+});
+
+describe('VectorIndex', () => {
+  const countingProvider = (): EmbeddingProvider & { calls: number } => {
+    const base = createHashingEmbeddingProvider(64);
+    const provider = {
+      ...base,
+      calls: 0,
+      embed: async (texts: string[]) => {
+        provider.calls += texts.length;
+        return base.embed(texts);
+      },
+    };
+    return provider;
+  };
+
+  it('reuses cached vectors and re-embeds only changed documents', async () => {
+    const cache = createMemoryVectorCache();
+    const documents = [
+      { id: 'a', content: 'deadlift hinge' },
+      { id: 'b', content: 'protein intake' },
+    ];
+
+    const first = countingProvider();
+    expect(await new VectorIndex(first, cache).sync(documents)).toBe(2);
+
+    const second = countingProvider();
+    const index = new VectorIndex(second, cache);
+    expect(await index.sync([documents[0], { id: 'b', content: 'protein and creatine' }])).toBe(1);
+    expect(second.calls).toBe(1);
+    expect(index.size).toBe(2);
+  });
+
+  it('drops vectors for removed documents', async () => {
+    const cache = createMemoryVectorCache();
+    const provider = createHashingEmbeddingProvider(64);
+
+    await new VectorIndex(provider, cache).sync([{ id: 'a', content: 'x' }, { id: 'b', content: 'y' }]);
+    await new VectorIndex(provider, cache).sync([{ id: 'a', content: 'x' }]);
+
+    expect((await cache.load(provider.id)).map((e) => e.docId)).toEqual(['a']);
+  });
+});
+
+describe('embeddings', () => {
+  it('places paraphrases closer than unrelated text', async () => {
+    const provider = createHashingEmbeddingProvider();
+    const [query, related, unrelated] = await provider.embed([
+      'my lower back hurts when I hinge',
+      'Hinge hips back. Common mistake: rounding back.',
+      'Protein: 1.6-2.2g per kg bodyweight',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
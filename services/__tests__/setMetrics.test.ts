@@ -0,0 +1,195 @@
+/**
+ * Set Metrics Tests
+ *
+ * Tests for time / distance / pace sets: volume, pace, formatting and PR tracking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getExerciseMetric,
+  isSetLoggable,
+  getSetVolume,
+  getWorkoutVolume,
+  calculatePace,
+  formatDuration,
+  formatDistance,
+  updateExercisePRs,
+} from '../setMetrics';
+import { checkAllPRs } from '../strengthScore';
+import { calculateWorkoutXP } from '../gamification';
+import type { SetLog, Exercise, WorkoutSession } from '../../types';
+
+const set = (overrides: Partial<SetLog>): SetLog => ({
+  id: 'set',
+  weight: 0,
+  reps: 0,
+  type: 'N',
+  completed: true,
+  ...overrides,
+});
+
+// e111 Plank, e147 Rowing Machine, e159 Farmers Walk
+const PLANK = 'e111';
+const ROW = 'e147';
+const FARMERS_WALK = 'e159';
+
+describe('setMetrics', () => {
+  describe('getExerciseMetric', () => {
+    it('reads the metric from the library and custom exercises', () => {
+      const custom = { id: 'custom-ski', metric: 'distance_duration' } as Exercise;
+
+      expect(getExerciseMetric('e1')).toBe('weight_reps');
+      expect(getExerciseMetric(PLANK)).toBe('duration');
+      expect(getExerciseMetric(ROW)).toBe('distance_duration');
+      expect(getExerciseMetric(FARMERS_WALK)).toBe('weight_distance');
+      expect(getExerciseMetric('custom-ski', [custom])).toBe('distance_duration');
+    });
+  });
+
+  describe('isSetLoggable', () => {
+    it('requires the fields the metric tracks', () => {
+      expect(isSetLoggable(set({ duration: 60 }), 'duration')).toBe(true);
+      expect(isSetLoggable(set({ distance: 2000 }), 'distance_duration')).toBe(false);
+      expect(isSetLoggable(set({ weight: 40, distance: 30 }), 'weight_distance')).toBe(true);
+      expect(isSetLoggable(set({ weight: 100, reps: 0 }), 'weight_reps')).toBe(false);
+    });
+  });
+
+  describe('volume', () => {
+    it('counts no tonnage for time/distance sets', () => {
+      expect(getSetVolume(set({ weight: 100, reps: 5 }))).toBe(500);
+      expect(getSetVolume(set({ weight: 40, reps: 10, distance: 50 }), 'weight_distance')).toBe(0);
+    });
+
+    it('keeps volume of sets logged before the exercise tracked a metric', () => {
+      expect(getSetVolume(set({ weight: 40, reps: 10 }), 'weight_distance')).toBe(400);
+    });
+
+    it('sums completed working sets across a workout', () => {
+      const volume = getWorkoutVolume([
+        { exerciseId: 'e1', sets: [set({ weight: 100, reps: 5 }), set({ weight: 60, reps: 10, type: 'W' })] },
+        { exerciseId: ROW, sets: [set({ distance: 2000, duration: 480 })] },
+      ]);
+      expect(volume).toBe(500);
+    });
+  });
+
+  describe('pace and formatting', () => {
+    it('calculates pace per 500m', () => {
+      expect(calculatePace(2000, 480)).toBe(120);
+      expect(calculatePace(0, 480)).toBeNull();
+    });
+
+    it('formats durations and distances', () => {
+      expect(formatDuration(75)).toBe('1:15');
+      expect(formatDuration(3725)).toBe('1:02:05');
+      expect(formatDistance(850)).toBe('850 m');
+      expect(formatDistance(2000)).toBe('2.00 km');
+    });
+  });
+
+  describe('updateExercisePRs', () => {
+    it('tracks the longest hold for duration exercises', () => {
+      const first = updateExercisePRs(undefined, PLANK, [set({ duration: 60 }), set({ duration: 90 })], 'duration', 1_000);
+      expect(first.prs.bestDuration).toMatchObject({ value: 90, type: 'duration', date: 1_000 });
+      expect(first.prs.bestWeight).toBeUndefined();
+
+      const second = updateExercisePRs(first.prs, PLANK, [set({ duration: 80 })], 'duration', 2_000);
+      expect(second.newRecords).toHaveLength(0);
+      expect(second.prs.bestDuration?.value).toBe(90);
+    });
+
+    it('tracks distance and fastest pace for distance exercises', () => {
+      const first = updateExercisePRs(undefined, ROW, [set({ distance: 2000, duration: 480 })], 'distance_duration', 1_000);
+      const second = updateExercisePRs(first.prs, ROW, [set({ distance: 2000, duration: 470 })], 'distance_duration', 2_000);
+
+      expect(second.newRecords.map(r => r.type)).toEqual(['pace']);
+      expect(second.prs.bestPace).toMatchObject({ value: 117.5, distance: 2000, duration: 470 });
+      expect(second.prs.bestDistance?.date).toBe(1_000);
+    });
+
+    it('keeps pace records per distance', () => {
+      const twoK = updateExercisePRs(undefined, ROW, [set({ distance: 2000, duration: 480 })], 'distance_duration', 1_000).prs;
+      const sprint = updateExercisePRs(twoK, ROW, [set({ distance: 500, duration: 100 }), set({ distance: 520, duration: 110 })], 'distance_duration', 2_000);
+
+      // First 500m: a record at that distance only
+      expect(sprint.newRecords).toEqual([expect.objectContaining({ type: 'pace', value: 100, distance: 500 })]);
+      expect(sprint.prs.bestPace?.distance).toBe(500);
+
+      // A faster 2k is a PR though its pace is slower than the sprint's
+      const faster = updateExercisePRs(sprint.prs, ROW, [set({ distance: 2000, duration: 475 })], 'distance_duration', 3_000);
+      expect(faster.newRecords.map(r => r.value)).toEqual([118.8]);
+      expect(faster.prs.bestPace?.value).toBe(100);
+
+      const slower = updateExercisePRs(faster.prs, ROW, [set({ distance: 1950, duration: 470 })], 'distance_duration', 4_000);
+      expect(slower.newRecords).toHaveLength(0);
+    });
+
+    it('tracks heaviest load and longest distance for carries', () => {
+      const { prs } = updateExercisePRs(
+        undefined,
+        FARMERS_WALK,
+        [set({ weight: 40, distance: 60 }), set({ weight: 50, distance: 30 })],
+        'weight_distance',
+        1_000
+      );
+
+      expect(prs.bestWeight).toMatchObject({ value: 50, distance: 30 });
+      expect(prs.bestDistance).toMatchObject({ value: 60, weight: 40 });
+      expect(prs.bestVolume).toBeUndefined();
+    });
+
+    it('does not mutate the existing history', () => {
+      const existing = { exerciseId: PLANK, records: [] };
+      updateExercisePRs(existing, PLANK, [set({ duration: 60 })], 'duration', 1_000);
+      expect(existing.records).toHaveLength(0);
+    });
+  });
+
+  describe('checkAllPRs', () => {
+    it('detects a faster row without flagging weight PRs', () => {
+      const history = updateExercisePRs(undefined, ROW, [set({ distance: 2000, duration: 480 })], 'distance_duration', 1_000).prs;
+      const prs = checkAllPRs(set({ distance: 2000, duration: 465 }), history, 'distance_duration');
+
+      expect(prs.map(pr => pr.type)).toEqual(['pace']);
+      expect(prs[0].improvement).toBe(3.7);
+    });
+
+    it('compares pace against rows over a comparable distance', () => {
+      const twoK = updateExercisePRs(undefined, ROW, [set({ distance: 2000, duration: 480 })], 'distance_duration', 1_000).prs;
+      const history = updateExercisePRs(twoK, ROW, [set({ distance: 500, duration: 100 })], 'distance_duration', 2_000).prs;
+      const prs = checkAllPRs(set({ distance: 2000, duration: 465 }), history, 'distance_duration');
+
+      expect(prs).toMatchObject([{ type: 'pace', previousBest: 120, improvement: 3.7 }]);
+    });
+
+    it('detects the longest plank', () => {
+      const history = updateExercisePRs(undefined, PLANK, [set({ duration: 90 })], 'duration', 1_000).prs;
+      const prs = checkAllPRs(set({ duration: 120 }), history, 'duration');
+
+      expect(prs).toHaveLength(1);
+      expect(prs[0]).toMatchObject({ type: 'duration', value: 120, previousBest: 90, improvement: 30 });
+    });
+  });
+
+  describe('calculateWorkoutXP', () => {
+    it('awards the conditioning bonus for timed sets (10 XP per 5 min)', () => {
+      const workout: WorkoutSession = {
+        id: 'w1',
+        name: 'Conditioning',
+        startTime: 0,
+        endTime: 3_600_000,
+        status: 'completed',
+        logs: [{
+          id: 'l1',
+          exerciseId: ROW,
+          sets: [set({ duration: 480, distance: 2000 }), set({ duration: 300, distance: 1200 })],
+        }],
+      };
+
+      const result = calculateWorkoutXP(workout, { volumeTotal: 0 });
+
+      expect(result.bonuses.find(b => b.name === 'Conditioning')?.amount).toBe(20);
+    });
+  });
+});
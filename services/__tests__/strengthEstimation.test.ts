@@ -0,0 +1,145 @@
+/**
+ * Strength Estimation Tests
+ *
+ * Pins the 'auto' estimates every screen showed before the formulas were
+ * consolidated, then covers the selectable formulas and the RPE chart
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyFormula,
+  calculate1RM,
+  estimateSet1RM,
+  getBest1RM,
+  getRPEPercentage,
+} from '../strengthEstimation';
+import { checkAllPRs } from '../strengthScore';
+import { getExerciseProgression } from '../progressionData';
+import { getSuggestion } from '../progressiveOverload';
+import { extractExerciseTimeSeries } from '../analytics';
+import type { ExercisePRHistory, SetLog, WorkoutSession } from '../../types';
+
+const set = (weight: number, reps: number, rpe?: number, type: SetLog['type'] = 'N'): SetLog => ({
+  id: `${weight}x${reps}`, weight, reps, rpe, type, completed: true,
+});
+
+describe("calculate1RM 'auto' (regression)", () => {
+  it.each([
+    [100, 1, 100, 'actual'],
+    [225, 5, 263, 'epley'],
+    [100, 5, 117, 'epley'],
+    [100, 10, 133, 'epley'],
+    [100, 12, 140, 'epley'],
+    [100, 15, 164, 'brzycki'],
+    [135, 15, 221, 'brzycki'],
+    [60, 20, 127, 'brzycki'],
+  ])('%skg x %s = %s (%s)', (weight, reps, expected, formula) => {
+    expect(calculate1RM(weight, reps)).toEqual({ estimated1RM: expected, fromWeight: weight, fromReps: reps, formula });
+  });
+
+  it('ignores RPE unless the RPE formula is chosen', () => {
+    expect(estimateSet1RM(set(100, 5, 8)).estimated1RM).toBe(117);
+    expect(getBest1RM([set(60, 10, undefined, 'W'), set(100, 5, 9), set(90, 8)])).toMatchObject({ estimated1RM: 117, fromWeight: 100 });
+  });
+});
+
+describe('rep-based formulas', () => {
+  it('matches the published equations', () => {
+    expect(applyFormula(100, 5, 'epley')).toBeCloseTo(116.667, 2);
+    expect(applyFormula(100, 5, 'brzycki')).toBeCloseTo(112.5, 2);
+    expect(applyFormula(100, 5, 'lombardi')).toBeCloseTo(117.462, 2);
+    expect(applyFormula(100, 5, 'wathan')).toBeCloseTo(116.583, 2);
+  });
+
+  it('uses the chosen formula, keeping a true single as-is', () => {
+    expect(calculate1RM(100, 5, 'brzycki')).toMatchObject({ estimated1RM: 113, formula: 'brzycki' });
+    expect(calculate1RM(100, 15, 'lombardi')).toMatchObject({ estimated1RM: 131, formula: 'lombardi' });
+    expect(calculate1RM(100, 1, 'wathan')).toMatchObject({ estimated1RM: 100, formula: 'actual' });
+  });
+
+  it('falls back to Epley where Brzycki breaks down', () => {
+    expect(calculate1RM(100, 40, 'brzycki')).toMatchObject({ estimated1RM: 233, formula: 'epley' });
+  });
+});
+
+describe('RPE chart', () => {
+  it('reads %1RM from reps plus reps in reserve', () => {
+    expect(getRPEPercentage(1, 10)).toBe(1);
+    expect(getRPEPercentage(5, 8)).toBeCloseTo(0.811);  // 7 reps to failure
+    expect(getRPEPercentage(3, 7.7)).toBeCloseTo(0.85); // RPE rounds to 7.5
+    expect(getRPEPercentage(12, 6.5)).toBeCloseTo(0.586);
+  });
+
+  it('has no answer outside the chart', () => {
+    expect(getRPEPercentage(5, undefined)).toBeNull();
+    expect(getRPEPercentage(5, 5)).toBeNull();
+    expect(getRPEPercentage(15, 8)).toBeNull();
+  });
+
+  it('estimates from RPE, and from reps alone when the set has none', () => {
+    expect(estimateSet1RM(set(100, 5, 8), 'rpe')).toEqual({
+      estimated1RM: 123, fromWeight: 100, fromReps: 5, fromRPE: 8, formula: 'rpe',
+    });
+    // A single at RPE 8 is not a max
+    expect(calculate1RM(100, 1, 'rpe', 8)).toMatchObject({ estimated1RM: 108, formula: 'rpe' });
+    expect(estimateSet1RM(set(100, 5), 'rpe')).toMatchObject({ estimated1RM: 117, formula: 'epley' });
+    expect(estimateSet1RM(set(100, 15, 9), 'rpe')).toMatchObject({ estimated1RM: 164, formula: 'brzycki' });
+  });
+});
+
+describe('consumers follow the chosen formula', () => {
+  it('detects estimated 1RM PRs with it', () => {
+    const prHistory: ExercisePRHistory = {
+      exerciseId: 'e1',
+      records: [],
+      bestWeight: { type: 'weight', value: 110, reps: 1, date: 0 },
+    };
+    const pr = (formula?: 'rpe') => checkAllPRs(set(100, 5, 8), prHistory, 'weight_reps', 'kg', formula).find(p => p.type === '1rm');
+
+    expect(pr()).toMatchObject({ value: 117, previousBest: 110 });
+    expect(pr('rpe')).toMatchObject({ value: 123, previousBest: 110 });
+  });
+
+  // Suggestions and analytics read 2-5 rep sets with Brzycki under 'auto', as they did before consolidation
+  it.each([
+    [2, 103, 97, 107],
+    [3, 106, 94, 110],
+    [4, 109, 92, 113],
+    [5, 113, 88, 117],
+  ])('suggests from 100kg x %s with a %skg 1RM (%s%%), or %skg with Epley', (reps, auto1RM, intensity, epley1RM) => {
+    const log = { id: 'l1', exerciseId: 'e1', sets: [set(100, reps), set(100, reps), set(100, reps)] };
+    const suggest = (formula?: 'epley') =>
+      getSuggestion('e1', log, undefined, [], Date.now(), 'Intermediate', undefined, undefined, formula);
+
+    // 85%+ of 1RM: keep the weight and build reps
+    expect(suggest()).toMatchObject({ weight: 100, reps: [6, 8], estimated1RM: auto1RM, currentIntensity: intensity, progressionRate: 0 });
+    expect(suggest('epley')).toMatchObject({ weight: 100, estimated1RM: epley1RM });
+
+    const workout: WorkoutSession = {
+      id: 'w1', name: 'Bench', startTime: Date.now() - 86400000, status: 'completed', logs: [log],
+    };
+    expect(extractExerciseTimeSeries('e1', [workout]).dataPoints[0].estimated1RM).toBe(auto1RM);
+  });
+
+  it('keeps Epley above 5 reps in suggestions, past where auto switches to Brzycki', () => {
+    const log = { id: 'l1', exerciseId: 'e1', sets: [set(100, 15)] };
+
+    expect(calculate1RM(100, 15).estimated1RM).toBe(164);
+    expect(getSuggestion('e1', log, undefined, [], Date.now())).toMatchObject({ weight: 105, estimated1RM: 150, currentIntensity: 70 });
+  });
+
+  it('charts progression with it', () => {
+    const workout: WorkoutSession = {
+      id: 'w1',
+      name: 'Bench',
+      startTime: Date.now() - 86400000,
+      endTime: Date.now() - 82800000,
+      status: 'completed',
+      logs: [{ id: 'l1', exerciseId: 'e1', sets: [set(100, 5, 8)] }],
+    };
+
+    expect(getExerciseProgression('e1', 'Bench', [workout]).dataPoints[0].value).toBe(117);
+    const progression = getExerciseProgression('e1', 'Bench', [workout], 90, 'rpe');
+    expect(progression).toMatchObject({ best1RM: 123, formula: 'rpe' });
+  });
+});
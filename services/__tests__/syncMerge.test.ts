@@ -0,0 +1,270 @@
+/**
+ * Sync Merge Tests
+ *
+ * Tests for two-way cloud sync merge rules and conflict detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mergeCollection,
+  mergeSettings,
+  normalizeTimestamp,
+  isSameContent,
+  createTombstone,
+  upsertTombstones,
+  mergeTombstones,
+  applyTombstones,
+  TOMBSTONE_RETENTION_DAYS,
+} from '../syncMerge';
+import type { WorkoutSession, UserSettings } from '../../types';
+
+const LAST_SYNC = 1_000;
+
+function workout(id: string, name: string, updatedAt?: number): WorkoutSession {
+  return { id, name, startTime: 0, status: 'template', logs: [], updatedAt };
+}
+
+const options = (pending: string[] = [], unresolved: string[] = []) => ({
+  kind: 'template' as const,
+  getId: (w: WorkoutSession) => w.id,
+  getName: (w: WorkoutSession) => w.name,
+  pending: new Set(pending),
+  unresolved: new Set(unresolved),
+  lastSync: LAST_SYNC,
+  now: 5_000,
+});
+
+const baseSettings: UserSettings = {
+  name: 'Athlete',
+  units: 'kg',
+  goal: { type: 'Build Muscle', targetPerWeek: 4 },
+  experienceLevel: 'Beginner',
+  availableEquipment: [],
+  onboardingCompleted: true,
+  personalRecords: {},
+  defaultRestTimer: 90,
+  barWeight: 20,
+};
+
+describe('syncMerge', () => {
+  describe('mergeCollection', () => {
+    it('pulls records that only exist remotely', () => {
+      const result = mergeCollection([workout('a', 'A')], [workout('b', 'B', 500)], options());
+
+      expect(result.merged.map(w => w.id)).toEqual(['a', 'b']);
+      expect(result.pulledIds).toEqual(['b']);
+      expect(result.conflicts).toHaveLength(0);
+    });
+
+    it('queues dirty local-only records for push', () => {
+      const result = mergeCollection([workout('a', 'A', 2_000)], [], options(['a']));
+
+      expect(result.pushIds).toEqual(['a']);
+    });
+
+    it('adopts the remote copy when the local copy is clean', () => {
+      const result = mergeCollection(
+        [workout('a', 'Old', 500)],
+        [workout('a', 'New', 1_500)],
+        options()
+      );
+
+      expect(result.merged[0].name).toBe('New');
+      expect(result.pulledIds).toEqual(['a']);
+    });
+
+    it('pushes a dirty local copy when the remote did not change since last sync', () => {
+      const result = mergeCollection(
+        [workout('a', 'Local edit', 2_000)],
+        [workout('a', 'Synced', 800)],
+        options(['a'])
+      );
+
+      expect(result.merged[0].name).toBe('Local edit');
+      expect(result.pushIds).toEqual(['a']);
+      expect(result.conflicts).toHaveLength(0);
+    });
+
+    it('raises a conflict when both sides changed since last sync', () => {
+      const result = mergeCollection(
+        [workout('a', 'Phone edit', 2_000)],
+        [workout('a', 'Desktop edit', 1_500)],
+        options(['a'])
+      );
+
+      expect(result.merged[0].name).toBe('Phone edit');
+      expect(result.pushIds).toEqual([]);
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0]).toMatchObject({
+        id: 'template:a',
+        recordId: 'a',
+        name: 'Phone edit',
+        localUpdatedAt: 2_000,
+        remoteUpdatedAt: 1_500,
+        detectedAt: 5_000,
+      });
+    });
+
+    it('keeps an unresolved conflict open on later syncs', () => {
+      const result = mergeCollection(
+        [workout('a', 'Phone edit', 2_000)],
+        [workout('a', 'Desktop edit', 500)],
+        options(['a'], ['a'])
+      );
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.pushIds).toEqual([]);
+    });
+
+    it('ignores timestamps and backend fields when comparing content', () => {
+      const remote = { ...workout('a', 'Same', 9_000), userId: 'user-1' } as WorkoutSession;
+      const result = mergeCollection([workout('a', 'Same', 2_000)], [remote], options(['a']));
+
+      expect(result.conflicts).toHaveLength(0);
+      expect(result.pushIds).toEqual([]);
+      expect(result.merged[0]).not.toHaveProperty('userId');
+    });
+  });
+
+  describe('mergeSettings', () => {
+    it('adopts remote settings when local settings are clean', () => {
+      const result = mergeSettings(
+        { ...baseSettings, updatedAt: 500 },
+        { ...baseSettings, name: 'Remote', updatedAt: 1_500 },
+        { needsSync: false, lastSync: LAST_SYNC }
+      );
+
+      expect(result.settings.name).toBe('Remote');
+      expect(result.pulled).toBe(true);
+      expect(result.push).toBe(false);
+    });
+
+    it('keeps device-specific cloud settings local', () => {
+      const result = mergeSettings(
+        { ...baseSettings, ironCloud: { enabled: true, lastSync: 1_000 } },
+        { ...baseSettings, name: 'Remote', ironCloud: { enabled: false, lastSync: 9_000 }, updatedAt: 1_500 },
+        { needsSync: false, lastSync: LAST_SYNC }
+      );
+
+      expect(result.settings.ironCloud).toEqual({ enabled: true, lastSync: 1_000 });
+    });
+
+    it('raises a conflict when both sides changed', () => {
+      const result = mergeSettings(
+        { ...baseSettings, name: 'Local', updatedAt: 2_000 },
+        { ...baseSettings, name: 'Remote', updatedAt: 1_500 },
+        { needsSync: true, lastSync: LAST_SYNC }
+      );
+
+      expect(result.settings.name).toBe('Local');
+      expect(result.conflict?.id).toBe('settings:settings');
+      expect(result.push).toBe(false);
+    });
+
+    it('pushes dirty settings when the remote copy is stale', () => {
+      const result = mergeSettings(
+        { ...baseSettings, name: 'Local', updatedAt: 2_000 },
+        { ...baseSettings, name: 'Remote', updatedAt: 800 },
+        { needsSync: true, lastSync: LAST_SYNC }
+      );
+
+      expect(result.conflict).toBeNull();
+      expect(result.push).toBe(true);
+    });
+  });
+
+  describe('tombstones', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+
+    it('creates one tombstone per kind and record', () => {
+      const first = createTombstone('template', 'a', 1_000);
+      const again = createTombstone('template', 'a', 2_000);
+
+      expect(first.id).toBe('template:a');
+      expect(upsertTombstones([first], [again])).toEqual([again]);
+    });
+
+    it('drops records deleted on another device', () => {
+      const result = applyTombstones(
+        [workout('a', 'A', 500), workout('b', 'B', 500)],
+        [createTombstone('template', 'a', 1_000)],
+        'template',
+        w => w.id
+      );
+
+      expect(result.kept.map(w => w.id)).toEqual(['b']);
+      expect(result.removedIds).toEqual(['a']);
+    });
+
+    it('keeps a record edited after it was deleted', () => {
+      const result = applyTombstones(
+        [workout('a', 'Edited later', 2_000)],
+        [createTombstone('template', 'a', 1_000)],
+        'template',
+        w => w.id
+      );
+
+      expect(result.kept).toHaveLength(1);
+    });
+
+    it('only applies tombstones of the same kind', () => {
+      const result = applyTombstones(
+        [workout('a', 'A')],
+        [createTombstone('workout', 'a', 1_000)],
+        'template',
+        w => w.id
+      );
+
+      expect(result.kept).toHaveLength(1);
+    });
+
+    it('marks pulled tombstones as synced and keeps local ones pending', () => {
+      const { active } = mergeTombstones(
+        [createTombstone('program', 'local', 1_000)],
+        [createTombstone('program', 'remote', 1_000)],
+        2_000
+      );
+
+      expect(active.find(t => t.recordId === 'remote')?.syncedAt).toBe(1_000);
+      expect(active.find(t => t.recordId === 'local')?.syncedAt).toBeUndefined();
+    });
+
+    it('re-queues a newer local delete of the same record', () => {
+      const { active } = mergeTombstones(
+        [createTombstone('dailyLog', '2025-01-01', 3_000)],
+        [createTombstone('dailyLog', '2025-01-01', 1_000)],
+        4_000
+      );
+
+      expect(active).toHaveLength(1);
+      expect(active[0].deletedAt).toBe(3_000);
+      expect(active[0].syncedAt).toBeUndefined();
+    });
+
+    it('expires tombstones past the retention window', () => {
+      const now = 100 * DAY;
+      const { active, expired } = mergeTombstones(
+        [createTombstone('workout', 'recent', now - DAY)],
+        [createTombstone('workout', 'old', now - (TOMBSTONE_RETENTION_DAYS + 1) * DAY)],
+        now
+      );
+
+      expect(active.map(t => t.recordId)).toEqual(['recent']);
+      expect(expired.map(t => t.recordId)).toEqual(['old']);
+    });
+  });
+
+  describe('helpers', () => {
+    it('normalizes numeric and legacy ISO string timestamps', () => {
+      expect(normalizeTimestamp(1_234)).toBe(1_234);
+      expect(normalizeTimestamp('2025-01-01T00:00:00.000Z')).toBe(Date.parse('2025-01-01T00:00:00.000Z'));
+      expect(normalizeTimestamp(undefined)).toBe(0);
+      expect(normalizeTimestamp('not a date')).toBe(0);
+    });
+
+    it('compares content independent of key order', () => {
+      expect(isSameContent({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 3, c: 2 }, a: 1 })).toBe(true);
+      expect(isSameContent({ a: 1 }, { a: 2 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tool-Calling Agent Tests
+ *
+ * Drives the agent loop with a scripted fake LLM: tool execution, argument
+ * validation, step budget and citations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runToolAgent } from '../ai/agent';
+import { COACHING_TOOLS, validateToolArguments, resolveExercise } from '../ai/tools';
+import type { ToolCallingLLM, ToolChatRequest, ToolChatResponse, AIResponse } from '../ai/types';
+import type { Exercise, UserSettings, WorkoutSession } from '../../types';
+
+const NOW = Date.UTC(2024, 5, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const workout = (daysAgo: number, weight: number): WorkoutSession => ({
+  id: `w${daysAgo}`,
+  name: 'Push',
+  startTime: NOW - daysAgo * DAY,
+  status: 'completed',
+  logs: [
+    {
+      id: `l${daysAgo}`,
+      exerciseId: 'e1',
+      sets: [1, 2, 3].map((n) => ({ id: `s${n}`, weight, reps: 5, type: 'N' as const, completed: true })),
+    },
+  ],
+});
+
+const context = {
+  settings: {
+    units: 'kg',
+    experienceLevel: 'Intermediate',
+    goal: { type: 'Build Muscle', targetPerWeek: 3 },
+    personalRecords: {},
+  } as unknown as UserSettings,
+  history: [workout(2, 100), workout(5, 97.5), workout(9, 95), workout(12, 92.5)],
+  dailyLogs: {},
+  customExercises: [],
+};
+
+/**
+ * Fake LLM that replays scripted turns and records every request
+ */
+function scriptedLLM(turns: ToolChatResponse[]): ToolCallingLLM & { requests: ToolChatRequest[] } {
+  const requests: ToolChatRequest[] = [];
+  return {
+    requests,
+    checkAvailability: () => true,
+    generateWithTools: async (request): Promise<AIResponse<ToolChatResponse>> => {
+      requests.push(JSON.parse(JSON.stringify(request)));
+      const turn = turns.shift();
+      if (!turn) return { success: false, error: 'script exhausted', source: 'fallback', latency: 0 };
+      return { success: true, data: turn, source: 'llm', latency: 0, tokensUsed: 10 };
+    },
+  };
+}
+
+const call = (id: string, name: string, args: Record<string, unknown> = {}) => ({ id, name, arguments: args });
+
+describe('runToolAgent', () => {
+  it('executes requested tools and feeds results back to the model', async () => {
+    const llm = scriptedLLM([
+      { toolCalls: [call('c1', 'analyze_history', { days: 14 }), call('c2', 'get_suggestion', { exercise: 'bench press' })] },
+      { text: 'You trained 4 times in two weeks [T1]. Next bench session: see target [T2].', toolCalls: [] },
+    ]);
+
+    const result = await runToolAgent('How is my bench going?', context, { llm, now: NOW });
+
+    expect(result.success).toBe(true);
+    expect(result.steps.map((s) => s.tool || s.action)).toEqual(['analyze_history', 'get_suggestion', 'generate_response']);
+    expect(result.steps[0].output).toMatchObject({ days: 14, workoutsInPeriod: 4 });
+    expect(result.totalTokens).toBe(20);
+
+    // Second turn sees both tool results, keyed to the model's call ids
+    const toolMessages = llm.requests[1].messages.filter((m) => m.role === 'tool');
+    expect(toolMessages.map((m) => m.role === 'tool' && m.toolCallId)).toEqual(['c1', 'c2']);
+    expect(JSON.parse((toolMessages[0] as { content: string }).content)).toMatchObject({ id: 'T1' });
+    expect(llm.requests[0].tools.map((t) => t.name)).toEqual(COACHING_TOOLS.map((t) => t.name));
+  });
+
+  it('returns the tool results the answer cites', async () => {
+    const llm = scriptedLLM([
+      { toolCalls: [call('c1', 'analyze_history'), call('c2', 'assess_injury_risk', { weeks: 2 })] },
+      { text: 'Injury risk is low [T2], keep going. [T9] is not a real result.', toolCalls: [] },
+    ]);
+
+    const result = await runToolAgent('Am I overdoing it?', context, { llm, now: NOW });
+
+    expect(result.citations).toEqual([{ id: 'T2', tool: 'assess_injury_risk', arguments: { weeks: 2 } }]);
+  });
+
+  it('rejects invalid arguments and lets the model retry', async () => {
+    const llm = scriptedLLM([
+      { toolCalls: [call('c1', 'forecast_pr', { weeks: 'eight' }), call('c2', 'lift_for_me')] },
+      { toolCalls: [call('c3', 'forecast_pr', { exercise: 'e1', weeks: 4 })] },
+      { text: 'Projected 1RM in 4 weeks [T1].', toolCalls: [] },
+    ]);
+
+    const result = await runToolAgent('What will my bench be next month?', context, { llm, now: NOW });
+
+    const errors = llm.requests[1].messages
+      .filter((m) => m.role === 'tool')
+      .map((m) => JSON.parse((m as { content: string }).content).error);
+    expect(errors[0]).toContain('arguments.exercise is required');
+    expect(errors[0]).toContain('arguments.weeks must be a number');
+    expect(errors[1]).toContain('Unknown tool "lift_for_me"');
+    expect(result.citations).toEqual([{ id: 'T1', tool: 'forecast_pr', arguments: { exercise: 'e1', weeks: 4 } }]);
+  });
+
+  it('forces an answer without tools once the step budget is spent', async () => {
+    const llm = scriptedLLM([
+      { toolCalls: [call('c1', 'analyze_weak_points')] },
+      { toolCalls: [call('c2', 'get_periodization_status')] },
+      { text: 'Focus on back volume [T1].', toolCalls: [] },
+    ]);
+
+    const result = await runToolAgent('What should I focus on?', context, { llm, maxSteps: 2, now: NOW });
+
+    expect(llm.requests).toHaveLength(3);
+    expect(llm.requests[2].tools).toEqual([]);
+    expect(result.finalResponse).toBe('Focus on back volume [T1].');
+    expect(result.steps.filter((s) => s.action === 'call_tool')).toHaveLength(2);
+  });
+
+  it('throws when the LLM fails so callers can fall back', async () => {
+    const llm = scriptedLLM([]);
+    await expect(runToolAgent('Hello?', context, { llm, now: NOW })).rejects.toThrow('script exhausted');
+  });
+});
+
+describe('tools', () => {
+  it('validates nested schemas', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        phase: { type: 'string' as const, enum: ['deload', 'peaking'] },
+        weeks: { type: 'integer' as const, minimum: 1 },
+        exercises: { type: 'array' as const, items: { type: 'string' as const } },
+      },
+      required: ['phase'],
+    };
+
+    expect(validateToolArguments(schema, { phase: 'deload', weeks: 2, exercises: ['e1'] })).toEqual([]);
+    expect(validateToolArguments(schema, { phase: 'bulk', weeks: 1.5, exercises: [3] })).toEqual([
+      'arguments.phase must be one of: deload, peaking',
+      'arguments.weeks must be an integer',
+      'arguments.exercises[0] must be a string',
+    ]);
+  });
+
+  it('resolves exercises by id or name', () => {
+    expect(resolveExercise('e1')?.id).toBe('e1');
+    expect(resolveExercise('Barbell Bench Press')?.id).toBe('e1');
+    expect(resolveExercise('not an exercise')).toBeUndefined();
+  });
+
+  it('finds custom exercises', () => {
+    const sledPress: Exercise = {
+      id: 'custom-sled-press',
+      name: 'Garage Sled Press',
+      muscleGroup: 'Shoulders',
+      equipment: 'Barbell',
+      category: 'Compound',
+      formGuide: [],
+      commonMistakes: [],
+      tips: [],
+    };
+    const history = context.history.map((w) => ({
+      ...w,
+      logs: w.logs.map((log) => ({ ...log, exerciseId: sledPress.id })),
+    }));
+    const run = (name: string, args: Record<string, unknown>) =>
+      COACHING_TOOLS.find((t) => t.name === name)!.run(args, { ...context, history, customExercises: [sledPress], now: NOW });
+
+    expect(run('get_suggestion', { exercise: 'sled press' })).toMatchObject({
+      exercise: 'Garage Sled Press',
+      suggestion: { weight: expect.any(Number) },
+    });
+    expect(run('forecast_pr', { exercise: 'Garage Sled Press' })).toMatchObject({ exercise: 'Garage Sled Press' });
+  });
+});
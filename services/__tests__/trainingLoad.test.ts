@@ -0,0 +1,137 @@
+/**
+ * Training Load Tests
+ *
+ * Session load, rolling/EWMA ACWR, Foster monotony and strain, the Banister
+ * model, zones, and deload/PR annotations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeTrainingLoad,
+  banisterModel,
+  calculateMonotony,
+  detectDeloadWeeks,
+  ewma,
+  getDailyLoads,
+  getSessionLoad,
+  rollingMean,
+} from '../trainingLoad';
+import type { ExercisePRHistory, SetLog, WorkoutSession } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.parse('2024-01-01T10:00:00Z');
+
+const set = (rpe: number | undefined, type: SetLog['type'] = 'N'): SetLog => ({
+  id: Math.random().toString(), reps: 5, weight: 100, rpe, type, completed: true,
+});
+
+const session = (day: number, minutes: number | null, sets: SetLog[]): WorkoutSession => ({
+  id: `w${day}-${minutes}`,
+  name: 'Session',
+  startTime: T0 + day * DAY,
+  endTime: minutes === null ? undefined : T0 + day * DAY + minutes * 60000,
+  status: 'completed',
+  logs: [{ id: 'l', exerciseId: 'e1', sets }],
+});
+
+// Constant daily sRPE: RPE 5 for `load / 5` minutes
+const daily = (loads: number[]) => loads.map((load, day) => session(day, load / 5, [set(5)])).filter((_, i) => loads[i] > 0);
+
+describe('session and daily load', () => {
+  it('uses session RPE x minutes, skipping warm-ups', () => {
+    expect(getSessionLoad(session(0, 50, [set(8), set(6), set(10, 'W')]))).toBe(350);
+    expect(getSessionLoad(session(0, 50, [set(8), set(6, 'W')]), 'volume')).toBe(500);
+  });
+
+  it('falls back to a moderate RPE and an hour, and caps runaway timers', () => {
+    expect(getSessionLoad(session(0, null, [set(undefined)]))).toBe(7 * 60);
+    expect(getSessionLoad(session(0, 600, [set(5)]))).toBe(5 * 240);
+  });
+
+  it('zero-fills rest days and sums doubles', () => {
+    const history = [session(0, 10, [set(5)]), session(2, 10, [set(5)]), session(2, 20, [set(5)])];
+    expect(getDailyLoads(history, 'srpe', T0 + 3 * DAY)).toEqual([
+      { date: '2024-01-01', load: 50 },
+      { date: '2024-01-02', load: 0 },
+      { date: '2024-01-03', load: 150 },
+      { date: '2024-01-04', load: 0 },
+    ]);
+  });
+});
+
+describe('load models', () => {
+  it('computes trailing means and EWMAs', () => {
+    expect(rollingMean([2, 4, 6, 8], 2)).toEqual([2, 3, 5, 7]);
+    const [first, second] = ewma([100, 100], 7);
+    expect(first).toBeCloseTo(25);
+    expect(second).toBeCloseTo(43.75);
+  });
+
+  it('computes Foster monotony, and none for a flat week', () => {
+    expect(calculateMonotony([10, 0, 10, 0])).toBeCloseTo(1);
+    expect(calculateMonotony([5, 5, 5, 5, 5, 5, 5])).toBeNull();
+  });
+
+  it('decays fitness slower than fatigue', () => {
+    const [day0, day1] = banisterModel([100, 0], { fitnessTau: 42, fatigueTau: 7, k1: 1, k2: 2, p0: 10 });
+    expect(day0).toEqual({ fitness: 100, fatigue: 100, performance: -90 });
+    expect(day1.fitness).toBeCloseTo(100 * Math.exp(-1 / 42));
+    expect(day1.fatigue).toBeCloseTo(100 * Math.exp(-1 / 7));
+  });
+});
+
+describe('analyzeTrainingLoad', () => {
+  it('flags an acute spike after a steady month', () => {
+    const loads = [...Array(42).fill(100), ...Array(7).fill(350)];
+    const report = analyzeTrainingLoad(daily(loads), { endDate: T0 + 48 * DAY, days: 14 });
+    const steady = report.days[0];
+    const spike = report.days[report.days.length - 1];
+
+    expect(report.days).toHaveLength(14);
+    expect(steady.acwrRolling).toBeCloseTo(1);
+    expect(steady.acwrZone).toBe('optimal');
+    expect(spike.acwrRolling!).toBeGreaterThan(1.5);
+    expect(spike.acwrZone).toBe('danger');
+    expect(spike.tsb).toBeLessThan(0);
+    expect(spike.formZone).toBe('overreaching');
+  });
+
+  it('settles into neutral form and reports strain on a varied week', () => {
+    const loads = Array.from({ length: 200 }, (_, i) => (i % 2 === 0 ? 200 : 0));
+    const [last] = analyzeTrainingLoad(daily(loads), { endDate: T0 + 199 * DAY, days: 1 }).days;
+
+    expect(Math.abs(last.tsb)).toBeLessThan(last.ctl * 0.1);
+    expect(last.formZone).toBe('neutral');
+    expect(last.monotony).not.toBeNull();
+    expect(last.strain).toBeCloseTo(last.acuteRolling * 7 * last.monotony!);
+  });
+
+  it('annotates deload weeks and weight PRs in the window', () => {
+    const loads = [...Array(21).fill(100), ...Array(7).fill(30)];
+    expect(detectDeloadWeeks(loads.map((load, i) => ({ date: `d${String(i).padStart(2, '0')}`, load })))).toEqual([
+      { date: 'd21', type: 'deload', label: 'Deload week' },
+    ]);
+
+    const personalRecords: Record<string, ExercisePRHistory> = {
+      e1: {
+        exerciseId: 'e1',
+        records: [
+          { type: 'weight', value: 120, date: T0 + 25 * DAY },
+          { type: 'volume', value: 3000, date: T0 + 26 * DAY },
+          { type: 'weight', value: 110, date: T0 - 90 * DAY },
+        ],
+      },
+    };
+    const report = analyzeTrainingLoad(daily(loads), { endDate: T0 + 27 * DAY, days: 28, personalRecords });
+    expect(report.annotations).toEqual([
+      { date: '2024-01-22', type: 'deload', label: 'Deload week' },
+      { date: '2024-01-26', type: 'pr', label: 'PR: Barbell Bench Press' },
+    ]);
+  });
+
+  it('honours custom Banister constants', () => {
+    const report = analyzeTrainingLoad(daily([100]), { endDate: T0, banister: { k2: 0, p0: 5 } });
+    expect(report.params).toMatchObject({ fitnessTau: 42, k2: 0, p0: 5 });
+    expect(report.days[0].performance).toBe(105);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * User History RAG Tests
+ *
+ * Tests for indexing the user's own workouts, PRs and daily logs, incremental
+ * updates, and keeping personal documents out of cloud prompts by default
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RAGDocumentStore } from '../ai/rag';
+import {
+  buildWorkoutDocument,
+  buildPersonalRecordDocument,
+  buildDailyLogDocument,
+  indexUserHistory,
+  indexWorkoutSession,
+  indexDailyLog,
+  searchUserHistory,
+  canUsePersonalHistory,
+} from '../ai/userHistory';
+import { createHashingEmbeddingProvider } from '../ai/embeddings';
+import { createMemoryVectorCache } from '../ai/vectorStore';
+import { updateExercisePRs } from '../setMetrics';
+import type { WorkoutSession, SetLog, UserSettings } from '../../types';
+
+const set = (weight: number, reps: number, overrides: Partial<SetLog> = {}): SetLog => ({
+  id: `set-${weight}-${reps}`,
+  weight,
+  reps,
+  type: 'N',
+  completed: true,
+  ...overrides,
+});
+
+const MARCH_5 = Date.UTC(2024, 2, 5, 18);
+const APRIL_2 = Date.UTC(2024, 3, 2, 18);
+
+// e1 Barbell Bench Press, e111 Plank
+const benchDay: WorkoutSession = {
+  id: 'w1',
+  name: 'Push Day',
+  startTime: MARCH_5,
+  status: 'completed',
+  notes: 'Gym was packed',
+  logs: [
+    {
+      id: 'l1',
+      exerciseId: 'e1',
+      sets: [set(60, 10, { type: 'W' }), set(102.5, 3), set(95, 5, { completed: false })],
+      notes: 'Left shoulder felt pinchy on the descent',
+    },
+    { id: 'l2', exerciseId: 'e111', sets: [set(0, 0, { duration: 90 })] },
+  ],
+};
+
+const settings = (sharePersonalHistory?: boolean) =>
+  ({ llmFeatures: { enabled: true, sharePersonalHistory } } as UserSettings);
+
+describe('userHistory', () => {
+  describe('document builders', () => {
+    it('describes completed sets and notes of a workout', () => {
+      const doc = buildWorkoutDocument(benchDay, [], 'kg');
+
+      expect(doc.id).toBe('user_workout_w1');
+      expect(doc.metadata).toMatchObject({ date: '2024-03-05', personal: true });
+      expect(doc.content).toContain('Workout notes: Gym was packed');
+      expect(doc.content).toContain('Bench Press: 60kg x 10 (warmup), 102.5kg x 3');
+      expect(doc.content).not.toContain('95kg');
+      expect(doc.content).toContain('Note on Barbell Bench Press: Left shoulder felt pinchy');
+      expect(doc.content).toContain('Plank: 1:30');
+    });
+
+    it('lists bests and recent PRs per exercise', () => {
+      const { prs } = updateExercisePRs(undefined, 'e1', benchDay.logs[0].sets, 'weight_reps', MARCH_5);
+      const doc = buildPersonalRecordDocument(prs, [], 'kg');
+
+      expect(doc?.id).toBe('user_pr_e1');
+      expect(doc?.content).toContain('Heaviest weight: 102.5 kg x 3 on 2024-03-05');
+      expect(buildPersonalRecordDocument({ exerciseId: 'e1', records: [] })).toBeNull();
+    });
+
+    it('skips empty daily logs', () => {
+      expect(buildDailyLogDocument({ date: '2024-03-06' })).toBeNull();
+      expect(buildDailyLogDocument({ date: '2024-03-06', sleepHours: 5, hadPainOrDiscomfort: true })?.content)
+        .toBe('Daily log for 2024-03-06\nSleep: 5 hours\nReported pain or discomfort during workout');
+    });
+  });
+
+  describe('indexing', () => {
+    let store: RAGDocumentStore;
+
+    beforeEach(async () => {
+      store = new RAGDocumentStore();
+      await store.initialize();
+      indexUserHistory(
+        {
+          history: [benchDay, { ...benchDay, id: 'draft', status: 'draft' }],
+          personalRecords: {
+            e1: updateExercisePRs(undefined, 'e1', benchDay.logs[0].sets, 'weight_reps', MARCH_5).prs,
+          },
+          dailyLogs: { '2024-03-05': { date: '2024-03-05', sleepHours: 6 } },
+          units: 'kg',
+        },
+        store
+      );
+    });
+
+    it('indexes completed workouts, PRs and daily logs', () => {
+      expect(store.getDocumentsByType('user_history').map((d) => d.id).sort()).toEqual([
+        'user_daily_2024-03-05',
+        'user_pr_e1',
+        'user_workout_w1',
+      ]);
+    });
+
+    it('keeps personal documents out of searches unless requested', () => {
+      const query = { query: 'shoulder pinchy descent', topK: 20 };
+
+      expect(store.search(query).some((r) => r.document.metadata.personal)).toBe(false);
+      expect(store.search({ ...query, includePersonal: true })[0].document.id).toBe('user_workout_w1');
+    });
+
+    it('replaces documents on incremental updates', () => {
+      indexWorkoutSession(
+        { ...benchDay, id: 'w2', startTime: APRIL_2, notes: undefined, logs: [{ id: 'l3', exerciseId: 'e1', sets: [set(110, 1)] }] },
+        {
+          personalRecords: {
+            e1: updateExercisePRs(undefined, 'e1', [set(110, 1)], 'weight_reps', APRIL_2).prs,
+          },
+          units: 'kg',
+        },
+        store
+      );
+      indexDailyLog({ date: '2024-03-05' }, 'kg', store);
+
+      expect(store.getDocument('user_pr_e1')?.content).toContain('110 kg x 1 on 2024-04-02');
+      expect(store.getDocument('user_daily_2024-03-05')).toBeUndefined();
+      expect(store.search({ query: 'packed', includePersonal: true }).map((r) => r.document.id)).toEqual([
+        'user_workout_w1',
+      ]);
+    });
+
+    it('re-indexing drops history that no longer exists', () => {
+      indexUserHistory({ history: [], personalRecords: {}, dailyLogs: {}, units: 'kg' }, store);
+
+      expect(store.getDocumentsByType('user_history')).toHaveLength(0);
+      expect(store.search({ query: 'shoulder pinchy', type: 'user_history', includePersonal: true })).toHaveLength(0);
+    });
+
+    it('finds past workouts with hybrid search', async () => {
+      await store.enableVectorSearch(createHashingEmbeddingProvider(), createMemoryVectorCache());
+      const results = await searchUserHistory('what did I note about my shoulder', 3, store);
+
+      expect(results[0].document.id).toBe('user_workout_w1');
+      expect(results.every((r) => r.document.type === 'user_history')).toBe(true);
+      expect(await searchUserHistory('how much protein should I eat', 3, store)).toHaveLength(0);
+    });
+  });
+
+  describe('privacy', () => {
+    it('only allows cloud prompts when the user opted in', () => {
+      expect(canUsePersonalHistory(settings(), 'cloud')).toBe(false);
+      expect(canUsePersonalHistory(settings(false), 'cloud')).toBe(false);
+      expect(canUsePersonalHistory(settings(true), 'cloud')).toBe(true);
+      expect(canUsePersonalHistory(settings(), 'local')).toBe(true);
+    });
+  });
+});
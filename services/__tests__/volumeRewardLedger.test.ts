@@ -0,0 +1,121 @@
+/**
+ * Volume Reward Ledger Tests
+ *
+ * Recording shown recommendations, measuring their outcome once the window
+ * closes, and settling rewards into the bandit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  measureVolumeOutcome,
+  recordVolumeRecommendation,
+  settleVolumeRecommendations,
+  REWARD_WINDOW_DAYS,
+} from '../ml/volumeRewardLedger';
+import { extractBanditContext } from '../ml/featureExtraction';
+import { deserializeBanditState, initializeBanditState, serializeBanditState } from '../ml/volumeBandit';
+import { DailyLog, MuscleGroup, VolumeAction, WorkoutSession } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.parse('2024-03-01T12:00:00Z');
+const chest = 'chest' as MuscleGroup;
+const context = extractBanditContext([], [], '2024-03-01');
+
+// Bench press (e1, chest) and squat (e4, legs)
+const workout = (day: number, benchKg: number, exerciseId = 'e1'): WorkoutSession => ({
+  id: `w${day}-${exerciseId}`,
+  name: 'Session',
+  startTime: T0 + day * DAY,
+  endTime: T0 + day * DAY + 3600_000,
+  status: 'completed',
+  logs: [{
+    id: `l${day}`,
+    exerciseId,
+    sets: [
+      { id: 'w', reps: 10, weight: 40, type: 'W', completed: true },
+      { id: 's1', reps: 5, weight: benchKg, type: 'N', completed: true },
+    ],
+  }],
+});
+
+const logOn = (day: number, data: Partial<DailyLog>): DailyLog => ({
+  date: new Date(T0 + day * DAY).toISOString().split('T')[0],
+  ...data,
+});
+
+const recommendation = { action: VolumeAction.INCREASE_MODERATE, muscleGroup: chest, currentVolume: 10, recommendedVolume: 12 };
+
+describe('recordVolumeRecommendation', () => {
+  it('records the baseline e1RM and keeps one open recommendation per muscle', () => {
+    const history = [workout(-7, 100), workout(-40, 120)];
+    const ledger = recordVolumeRecommendation([], recommendation, context, history, T0);
+
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({ muscleGroup: chest, shownAt: T0, dueAt: T0 + REWARD_WINDOW_DAYS * DAY });
+    // Warm-ups and workouts before the lookback are ignored
+    expect(ledger[0].baselineE1RM).toEqual({ e1: 117 });
+
+    const again = recordVolumeRecommendation(ledger, { ...recommendation, action: VolumeAction.MAINTAIN }, context, history, T0 + DAY);
+    expect(again).toBe(ledger);
+  });
+});
+
+describe('measureVolumeOutcome', () => {
+  const [entry] = recordVolumeRecommendation([], recommendation, context, [workout(-3, 100)], T0);
+
+  it('rewards progress with comfortable feedback', () => {
+    const outcome = measureVolumeOutcome(
+      entry,
+      [workout(-3, 100), workout(4, 103), workout(10, 105)],
+      [logOn(4, { workoutDifficulty: 4, workoutSatisfaction: 5 }), logOn(5, { muscleSoreness: 2 })]
+    )!;
+
+    expect(outcome.sessions).toBe(2);
+    expect(outcome.performanceChange).toBeCloseTo(0.5, 1);
+    expect(outcome).toMatchObject({ avgDifficulty: 4, avgSatisfaction: 5, avgSoreness: 2, hadPain: false });
+    expect(outcome.reward).toBeGreaterThan(0.7);
+  });
+
+  it('penalizes regression, soreness and pain', () => {
+    const outcome = measureVolumeOutcome(
+      entry,
+      [workout(-3, 100), workout(4, 95)],
+      { d: logOn(5, { muscleSoreness: 5, workoutDifficulty: 5, hadPainOrDiscomfort: true }) }
+    )!;
+
+    expect(outcome.performanceChange).toBeLessThan(0);
+    expect(outcome.hadPain).toBe(true);
+    expect(outcome.reward).toBeLessThanOrEqual(0.25);
+  });
+
+  it('has nothing to learn when the muscle was not trained', () => {
+    expect(measureVolumeOutcome(entry, [workout(4, 140, 'e4')], [])).toBeNull();
+  });
+});
+
+describe('settleVolumeRecommendations', () => {
+  it('updates the bandit only once the window closes', () => {
+    const history = [workout(-3, 100)];
+    const ledger = recordVolumeRecommendation([], recommendation, context, history, T0);
+    const later = [...history, workout(5, 105)];
+    const state = initializeBanditState();
+
+    const early = settleVolumeRecommendations(ledger, state, later, [], T0 + 7 * DAY);
+    expect(early).toMatchObject({ ledger, state, settled: 0, expired: 0 });
+
+    const closed = settleVolumeRecommendations(ledger, state, later, [], T0 + REWARD_WINDOW_DAYS * DAY);
+    expect(closed).toMatchObject({ ledger: [], settled: 1, expired: 0 });
+    expect(closed.state.totalUpdates).toBe(1);
+    expect(closed.state.history[0]).toMatchObject({ action: VolumeAction.INCREASE_MODERATE, muscleGroup: chest });
+
+    // Round-trips through the persisted form
+    expect(deserializeBanditState(serializeBanditState(closed.state))).toEqual(closed.state);
+  });
+
+  it('drops recommendations whose muscle was never trained without updating', () => {
+    const ledger = recordVolumeRecommendation([], recommendation, context, [], T0);
+    const state = initializeBanditState();
+    const result = settleVolumeRecommendations(ledger, state, [], [], T0 + 30 * DAY);
+    expect(result).toMatchObject({ ledger: [], state, settled: 0, expired: 1 });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Warm-up Generator Tests
+ *
+ * Ladders from the working weight, category defaults and plate-only additions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateWarmupSets,
+  getDefaultWarmupScheme,
+  COMPOUND_WARMUP,
+  ISOLATION_WARMUP,
+} from '../warmupGenerator';
+import { createGymProfile } from '../gymProfiles';
+import type { LoadRounding } from '../loadRounding';
+import { fromDisplayWeight, toDisplayWeight } from '../../utils/conversions';
+import type { GymProfile, LoadingType } from '../../types';
+
+const kgGym: GymProfile = { ...createGymProfile('Metric', 'kg', [], 'kg'), plates: [25, 20, 10, 5, 2.5, 1.25] };
+const lbsGym = createGymProfile('Imperial', 'lbs', [], 'lbs');
+const at = (loadingType: LoadingType, gym: GymProfile = kgGym): LoadRounding => ({ loadingType, gym });
+
+describe('getDefaultWarmupScheme', () => {
+  it('ramps compounds fully, accessories briefly and bodyweight work not at all', () => {
+    expect(getDefaultWarmupScheme('Compound')).toBe(COMPOUND_WARMUP);
+    expect(getDefaultWarmupScheme('Machine')).toBe(ISOLATION_WARMUP);
+    expect(getDefaultWarmupScheme('Bodyweight').steps).toEqual([]);
+  });
+});
+
+describe('generateWarmupSets', () => {
+  it('builds empty bar, ~40/60/80% for a barbell compound', () => {
+    const sets = generateWarmupSets(100, COMPOUND_WARMUP, at('barbell'));
+    expect(sets.map(s => [s.weight, s.reps])).toEqual([[20, 10], [40, 5], [60, 3], [80, 2]]);
+  });
+
+  it('only adds plates between steps', () => {
+    const sets = generateWarmupSets(140, COMPOUND_WARMUP, at('barbell'));
+    sets.slice(1).forEach((set, i) => {
+      const before = sets[i].platesPerSide || [];
+      expect(set.platesPerSide!.slice(0, before.length)).toEqual(before);
+      expect(set.platesPerSide!.slice(before.length)).toEqual(set.platesAdded);
+    });
+    expect(sets.map(s => s.weight)).toEqual([20, 55, 82.5, 110]);
+  });
+
+  it('works in the gym units for pound plates', () => {
+    const sets = generateWarmupSets(fromDisplayWeight(225, 'lbs'), COMPOUND_WARMUP, at('barbell', lbsGym));
+    expect(sets.map(s => toDisplayWeight(s.weight, 'lbs'))).toEqual([45, 90, 135, 180]);
+    expect(sets[1].platesAdded).toEqual([10, 10, 2.5]);
+  });
+
+  it('drops steps that are not lighter than the working set or the previous step', () => {
+    expect(generateWarmupSets(25, COMPOUND_WARMUP, at('barbell')).map(s => s.weight)).toEqual([20]);
+    expect(generateWarmupSets(0, COMPOUND_WARMUP, at('barbell'))).toEqual([]);
+    expect(generateWarmupSets(10, ISOLATION_WARMUP, at('paired_dumbbells')).map(s => s.weight)).toEqual([5, 7.5]);
+    expect(generateWarmupSets(5, ISOLATION_WARMUP, at('paired_dumbbells')).map(s => s.weight)).toEqual([2.5]);
+  });
+
+  it('rounds down to dumbbells and pin steps, without an empty bar', () => {
+    expect(generateWarmupSets(32.5, COMPOUND_WARMUP, at('paired_dumbbells')).map(s => s.weight)).toEqual([12.5, 17.5, 25]);
+    expect(generateWarmupSets(70, ISOLATION_WARMUP, at('stack')).map(s => [s.weight, s.reps])).toEqual([[35, 8], [50, 4]]);
+  });
+
+  it('follows a custom scheme and plate-loaded machines start from zero', () => {
+    const scheme = { emptyBar: true, emptyBarReps: 5, steps: [{ percent: 0.5, reps: 5 }] };
+    expect(generateWarmupSets(100, scheme, at('barbell')).map(s => [s.weight, s.reps])).toEqual([[20, 5], [50, 5]]);
+    expect(generateWarmupSets(200, scheme, at('plate_loaded'))).toMatchObject([{ weight: 100, platesPerSide: [25, 25] }]);
+  });
+});
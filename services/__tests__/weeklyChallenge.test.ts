@@ -0,0 +1,195 @@
+/**
+ * Weekly Challenge Tests
+ *
+ * Generation and rotation from the catalog, personalized targets,
+ * progress from workouts and daily logs, XP payout and expiry
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CHALLENGE_CATALOG,
+  createInitialGamificationState,
+  ensureWeeklyChallenge,
+  generateWeeklyChallenge,
+  getWeekStart,
+  processWorkoutCompletion,
+  progressWeeklyChallenge,
+} from '../gamification';
+import type { DailyLog, GamificationState, WeeklyChallenge, WorkoutSession } from '../../types';
+
+// Monday 3 June 2024, local time
+const MONDAY = new Date(2024, 5, 3).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+const WEDNESDAY_NOON = MONDAY + 2 * DAY + 12 * 60 * 60 * 1000;
+
+// e1 Barbell Bench Press (Chest), e4 Barbell Squat (Legs)
+const workout = (time: number, exerciseId = 'e1', sets = 3, weight = 100): WorkoutSession => ({
+  id: `w-${time}-${exerciseId}`,
+  name: 'Session',
+  startTime: time,
+  endTime: time + 60 * 60 * 1000,
+  status: 'completed',
+  logs: [
+    {
+      id: `l-${time}`,
+      exerciseId,
+      sets: Array.from({ length: sets }, (_, i) => ({ id: `s${i}`, weight, reps: 10, type: 'N' as const, completed: true })),
+    },
+  ],
+});
+
+const stateWith = (challenge: Partial<WeeklyChallenge>): GamificationState => ({
+  ...createInitialGamificationState(),
+  weeklyChallenge: {
+    id: 'c1',
+    definitionId: 'test',
+    metric: 'sessions',
+    name: 'Test',
+    description: 'Test',
+    progress: 0,
+    target: 3,
+    xpReward: 250,
+    startsAt: MONDAY,
+    expiresAt: MONDAY + 7 * DAY,
+    ...challenge,
+  },
+});
+
+const definitionFor = (metric: WeeklyChallenge['metric']) => CHALLENGE_CATALOG.find(d => d.metric === metric)!;
+
+/** First week (from MONDAY) whose rotation lands on the given catalog entry */
+const weekRunning = (definitionId: string): number => {
+  for (let week = 0; week < CHALLENGE_CATALOG.length; week++) {
+    const now = MONDAY + week * 7 * DAY + DAY;
+    if (generateWeeklyChallenge([], {}, now).definitionId === definitionId) return now;
+  }
+  throw new Error(`No week runs ${definitionId}`);
+};
+
+describe('weekly challenges', () => {
+  describe('generateWeeklyChallenge', () => {
+    it('runs Monday to Monday and rotates through the catalog', () => {
+      const challenge = generateWeeklyChallenge([], {}, WEDNESDAY_NOON);
+
+      expect(getWeekStart(WEDNESDAY_NOON)).toBe(MONDAY);
+      expect(challenge.startsAt).toBe(MONDAY);
+      expect(challenge.expiresAt).toBe(new Date(2024, 5, 10).getTime());
+
+      const ids = CHALLENGE_CATALOG.map((_, week) => generateWeeklyChallenge([], {}, WEDNESDAY_NOON + week * 7 * DAY).definitionId);
+      expect(new Set(ids).size).toBe(CHALLENGE_CATALOG.length);
+    });
+
+    it('never repeats last week\'s challenge', () => {
+      const first = generateWeeklyChallenge([], {}, WEDNESDAY_NOON);
+      const repeat = generateWeeklyChallenge([], {}, WEDNESDAY_NOON, { previousDefinitionId: first.definitionId });
+
+      expect(repeat.definitionId).not.toBe(first.definitionId);
+    });
+
+    it('uses default targets without history', () => {
+      const now = weekRunning('session_count');
+      expect(generateWeeklyChallenge([], {}, now).target).toBe(definitionFor('sessions').defaultTarget);
+    });
+
+    it('personalizes targets from recent weeks', () => {
+      const now = weekRunning('session_count');
+      const weekStart = getWeekStart(now);
+      // 4 sessions a week for the last two weeks
+      const history = [1, 2, 3, 4, 8, 9, 10, 11].map(days => workout(weekStart - days * DAY));
+
+      const challenge = generateWeeklyChallenge(history, {}, now);
+
+      expect(challenge.target).toBe(5); // ceil(4 x 1.25)
+      expect(challenge.description).toBe('Complete 5 workouts this week');
+    });
+
+    it('targets the least trained muscle group', () => {
+      const now = weekRunning('muscle_focus');
+      const weekStart = getWeekStart(now);
+      const history = [1, 3, 5].map(days => workout(weekStart - days * DAY, 'e1'));
+
+      const challenge = generateWeeklyChallenge(history, {}, now);
+
+      expect(challenge.muscleGroup).not.toBe('Chest');
+      expect(challenge.name).toBe(`${challenge.muscleGroup} Focus`);
+      expect(challenge.target).toBe(definitionFor('muscle_sets').defaultTarget);
+    });
+
+    it('counts activity already logged this week', () => {
+      const now = weekRunning('wellness_check');
+      const weekStart = getWeekStart(now);
+      const today = new Date(weekStart).toLocaleDateString('en-CA');
+      const logs: Record<string, DailyLog> = { [today]: { date: today, sleepHours: 8 } };
+
+      const challenge = generateWeeklyChallenge([], logs, now);
+
+      expect(challenge.progress).toBe(1);
+      expect(challenge.loggedDates).toEqual([today]);
+    });
+  });
+
+  describe('progress', () => {
+    it('counts workouts and pays out XP once on completion', () => {
+      let state = stateWith({ metric: 'sessions', target: 2, progress: 1 });
+
+      state = progressWeeklyChallenge(state, { type: 'workout', workout: workout(WEDNESDAY_NOON), volume: 3000 }, WEDNESDAY_NOON);
+      expect(state.weeklyChallenge).toMatchObject({ progress: 2, completedAt: WEDNESDAY_NOON });
+      expect(state.totalXP).toBe(250);
+      expect(state.xpHistory[0]).toMatchObject({ source: 'challenge', description: 'Challenge complete: Test' });
+
+      const after = progressWeeklyChallenge(state, { type: 'workout', workout: workout(WEDNESDAY_NOON + DAY), volume: 3000 });
+      expect(after).toBe(state);
+    });
+
+    it('counts volume and muscle group sets from workouts', () => {
+      const volume = progressWeeklyChallenge(
+        stateWith({ metric: 'volume', target: 10000 }),
+        { type: 'workout', workout: workout(WEDNESDAY_NOON), volume: 3000 }
+      );
+      expect(volume.weeklyChallenge?.progress).toBe(3000);
+
+      const legs = stateWith({ metric: 'muscle_sets', muscleGroup: 'Legs', target: 10 });
+      expect(progressWeeklyChallenge(legs, { type: 'workout', workout: workout(WEDNESDAY_NOON, 'e1'), volume: 0 })).toBe(legs);
+      expect(
+        progressWeeklyChallenge(legs, { type: 'workout', workout: workout(WEDNESDAY_NOON, 'e4', 4), volume: 0 }).weeklyChallenge?.progress
+      ).toBe(4);
+    });
+
+    it('counts each wellness day once and ignores bodyweight-only logs', () => {
+      let state = stateWith({ metric: 'wellness_days', target: 5, loggedDates: [] });
+
+      state = progressWeeklyChallenge(state, { type: 'daily_log', log: { date: '2024-06-04', perceivedEnergy: 4 } });
+      state = progressWeeklyChallenge(state, { type: 'daily_log', log: { date: '2024-06-04', sleepHours: 7 } });
+      state = progressWeeklyChallenge(state, { type: 'daily_log', log: { date: '2024-06-05', bodyweight: 80 } });
+
+      expect(state.weeklyChallenge).toMatchObject({ progress: 1, loggedDates: ['2024-06-04'] });
+    });
+
+    it('ignores activity outside the challenge week', () => {
+      const state = stateWith({ metric: 'sessions' });
+      expect(progressWeeklyChallenge(state, { type: 'workout', workout: workout(MONDAY - DAY), volume: 0 })).toBe(state);
+    });
+
+    it('progresses from processWorkoutCompletion', () => {
+      const { newState } = processWorkoutCompletion(stateWith({ metric: 'sessions' }), workout(WEDNESDAY_NOON), 0, 3000);
+      expect(newState.weeklyChallenge?.progress).toBe(1);
+    });
+  });
+
+  describe('ensureWeeklyChallenge', () => {
+    it('keeps the running challenge and replaces an expired one', () => {
+      const running = stateWith({ definitionId: 'session_count' });
+      expect(ensureWeeklyChallenge(running, { history: [], dailyLogs: {} }, WEDNESDAY_NOON)).toBe(running);
+
+      const nextWeek = ensureWeeklyChallenge(running, { history: [], dailyLogs: {} }, WEDNESDAY_NOON + 7 * DAY);
+      expect(nextWeek.weeklyChallenge?.startsAt).toBe(new Date(2024, 5, 10).getTime());
+      expect(nextWeek.weeklyChallenge?.definitionId).not.toBe('session_count');
+      expect(nextWeek.weeklyChallenge?.progress).toBe(0);
+    });
+
+    it('creates a challenge for users who never had one', () => {
+      const state = ensureWeeklyChallenge(createInitialGamificationState(), { history: [], dailyLogs: {} }, WEDNESDAY_NOON);
+      expect(state.weeklyChallenge?.metric).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Weight Migration Tests
+ *
+ * Converting persisted pound values to kg storage (store version 9)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { migrateWeightsToKg } from '../weightMigration';
+import { toDisplayWeight } from '../../utils/conversions';
+import type { WorkoutSession } from '../../types';
+
+const NOW = 2_000;
+
+const workout: WorkoutSession = {
+  id: 'w1',
+  name: 'Push',
+  startTime: 1_000,
+  status: 'completed',
+  updatedAt: 1_000,
+  logs: [
+    {
+      id: 'l1',
+      exerciseId: 'e1',
+      sets: [{ id: 's1', weight: 225, reps: 5, type: 'N', completed: true, aiSuggestion: { weight: 230, reps: 5 } as any }],
+    },
+  ],
+};
+
+const lbsState = {
+  history: [workout],
+  templates: [],
+  activeWorkout: null,
+  dailyLogs: {
+    '2024-06-01': { date: '2024-06-01', bodyweight: 180 },
+    '2024-06-02': { date: '2024-06-02', sleepHours: 8 },
+  },
+  settings: {
+    units: 'lbs',
+    bodyweight: 180,
+    barWeight: 45,
+    personalRecords: {
+      e1: {
+        exerciseId: 'e1',
+        records: [
+          { type: 'weight', value: 225, reps: 5, date: 1_000 },
+          { type: 'reps', value: 12, weight: 135, date: 1_000 },
+        ],
+        bestWeight: { type: 'weight', value: 225, reps: 5, date: 1_000 },
+        bestReps: { type: 'reps', value: 12, weight: 135, date: 1_000 },
+      },
+    },
+    trainingMaxes: {
+      e1: { exerciseId: 'e1', value: 200, lastUpdated: 1_000, history: [{ value: 190, date: 500 }] },
+    },
+    activeProgram: { programId: 'p1', currentSessionIndex: 0, startDate: 0, progression: { r1: { weight: 135, stage: 1 } } },
+    autoProgression: { enabled: true, upperBodyIncrement: 5, lowerBodyIncrement: 10 },
+    updatedAt: 1_000,
+  },
+  gamification: { totalVolume: 100000, totalXP: 50 },
+};
+
+const lbs = (kg: number) => toDisplayWeight(kg, 'lbs');
+
+describe('migrateWeightsToKg', () => {
+  const migrated = migrateWeightsToKg(lbsState, NOW);
+
+  it('converts logged sets and stamps workouts for sync', () => {
+    const set = migrated.history[0].logs[0].sets[0];
+    expect(set.weight).toBeCloseTo(102.058, 3);
+    expect(lbs(set.aiSuggestion.weight)).toBe(230);
+    expect(set.reps).toBe(5);
+    expect(migrated.history[0].updatedAt).toBe(NOW);
+  });
+
+  it('converts PR loads but not rep counts', () => {
+    const pr = migrated.settings.personalRecords.e1;
+    expect(lbs(pr.bestWeight.value)).toBe(225);
+    expect(pr.bestReps.value).toBe(12);
+    expect(lbs(pr.bestReps.weight)).toBe(135);
+    expect(pr.records.map((r: any) => r.value)).toEqual([pr.bestWeight.value, 12]);
+  });
+
+  it('converts settings, training maxes and program progression', () => {
+    const { settings } = migrated;
+    expect(lbs(settings.bodyweight)).toBe(180);
+    expect(lbs(settings.barWeight)).toBe(45);
+    expect(lbs(settings.trainingMaxes.e1.value)).toBe(200);
+    expect(lbs(settings.trainingMaxes.e1.history[0].value)).toBe(190);
+    expect(settings.activeProgram.progression.r1).toEqual({ weight: expect.closeTo(61.235, 3), stage: 1 });
+    expect(lbs(settings.autoProgression.upperBodyIncrement)).toBe(5);
+    expect(settings.units).toBe('lbs');
+    expect(settings.updatedAt).toBe(NOW);
+  });
+
+  it('converts bodyweight logs and lifetime volume, leaving other logs alone', () => {
+    expect(lbs(migrated.dailyLogs['2024-06-01'].bodyweight)).toBe(180);
+    expect(migrated.dailyLogs['2024-06-01'].updatedAt).toBe(NOW);
+    expect(migrated.dailyLogs['2024-06-02']).toBe(lbsState.dailyLogs['2024-06-02']);
+    expect(lbs(migrated.gamification.totalVolume)).toBe(100000);
+    expect(migrated.gamification.totalXP).toBe(50);
+  });
+
+  it('does not add keys that were missing', () => {
+    const result = migrateWeightsToKg({ settings: { units: 'lbs', personalRecords: {} } }, NOW);
+    expect(Object.keys(result)).toEqual(['settings']);
+    expect(result.settings).not.toHaveProperty('bodyweight');
+    expect(result.settings).not.toHaveProperty('barWeight');
+  });
+});
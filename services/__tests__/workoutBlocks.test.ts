@@ -0,0 +1,116 @@
+/**
+ * Workout Blocks Tests
+ *
+ * Block defaults, round/exercise advancement, EMOM and AMRAP clocks, and
+ * pausing across drafts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  advanceBlock,
+  createBlock,
+  getBlock,
+  getBlockTimerState,
+  pauseBlocks,
+  pruneBlocks,
+  resetBlocks,
+  resumeBlocks,
+  startBlock,
+  upsertBlock,
+} from '../workoutBlocks';
+import type { ExerciseLog, WorkoutBlock, WorkoutSession } from '../../types';
+
+const T0 = 1_700_000_000_000;
+const sec = (s: number) => T0 + s * 1000;
+
+const log = (id: string, supersetId?: string): ExerciseLog => ({ id, exerciseId: id, supersetId, sets: [] });
+const workout = (logs: ExerciseLog[], blocks?: WorkoutBlock[]): WorkoutSession => ({
+  id: 'w1',
+  name: 'Test',
+  startTime: T0,
+  status: 'active',
+  logs,
+  blocks,
+});
+
+describe('block settings', () => {
+  it('treats linked groups without settings as supersets or giant sets', () => {
+    const w = workout([log('a', 'x'), log('b', 'x'), log('c', 'y'), log('d', 'y'), log('e', 'y')]);
+    expect(getBlock(w, 'x').type).toBe('superset');
+    expect(getBlock(w, 'y').type).toBe('giant_set');
+  });
+
+  it('resets to the new type defaults when the type changes', () => {
+    const circuit = { ...createBlock('x', 'circuit'), rounds: 5, progress: startBlock(T0) };
+    const [emom] = upsertBlock([circuit], circuit, { type: 'emom' });
+    expect(emom).toMatchObject({ id: 'x', type: 'emom', rounds: 12, intervalSeconds: 60 });
+    expect(emom.progress).toBeUndefined();
+
+    const [edited] = upsertBlock([circuit], circuit, { rounds: 4 });
+    expect(edited).toMatchObject({ type: 'circuit', rounds: 4, progress: circuit.progress });
+  });
+
+  it('drops blocks whose exercises are no longer linked and clears template progress', () => {
+    const w = workout([log('a', 'x'), log('b', 'x'), log('c')], [createBlock('x', 'circuit'), createBlock('gone', 'amrap')]);
+    expect(pruneBlocks(w)?.map(b => b.id)).toEqual(['x']);
+    expect(resetBlocks([{ ...createBlock('x', 'circuit'), progress: startBlock(T0) }])?.[0].progress).toBeUndefined();
+  });
+});
+
+describe('advanceBlock', () => {
+  it('moves through exercises, then rounds, and finishes after the last round', () => {
+    let block: WorkoutBlock = { ...createBlock('x', 'circuit'), rounds: 2, progress: startBlock(T0) };
+    const steps = [];
+    for (let i = 0; i < 4; i++) {
+      block = { ...block, progress: advanceBlock(block, 2, sec(i + 1)) };
+      steps.push([block.progress!.round, block.progress!.exerciseIndex, !!block.progress!.finishedAt]);
+    }
+    expect(steps).toEqual([[0, 1, false], [1, 0, false], [1, 1, false], [2, 0, true]]);
+    expect(getBlockTimerState(block, 2, sec(60))).toMatchObject({ finished: true, round: 2, totalRounds: 2 });
+  });
+
+  it('counts AMRAP rounds without a round limit', () => {
+    let block: WorkoutBlock = { ...createBlock('x', 'amrap'), progress: startBlock(T0) };
+    for (let i = 0; i < 6; i++) block = { ...block, progress: advanceBlock(block, 2, sec(i)) };
+    expect(block.progress).toMatchObject({ round: 3, exerciseIndex: 0 });
+    expect(block.progress!.finishedAt).toBeUndefined();
+  });
+});
+
+describe('getBlockTimerState', () => {
+  it('EMOM rotates exercises each interval and ends after the set minutes', () => {
+    const block: WorkoutBlock = { ...createBlock('x', 'emom'), rounds: 4, progress: startBlock(T0) };
+    expect(getBlockTimerState(block, 2, sec(10))).toMatchObject({ round: 1, exerciseIndex: 0, secondsLeft: 50, running: true });
+    expect(getBlockTimerState(block, 2, sec(75))).toMatchObject({ round: 2, exerciseIndex: 1, secondsLeft: 45 });
+    expect(getBlockTimerState(block, 2, sec(125))).toMatchObject({ round: 3, exerciseIndex: 0 });
+    expect(getBlockTimerState(block, 2, sec(240))).toMatchObject({ finished: true, running: false, round: 4, secondsLeft: 0 });
+  });
+
+  it('AMRAP counts down to the time cap', () => {
+    const block: WorkoutBlock = { ...createBlock('x', 'amrap'), timeCapSeconds: 300, progress: startBlock(T0) };
+    expect(getBlockTimerState(block, 3, sec(100))).toMatchObject({ secondsLeft: 200, finished: false, totalRounds: undefined });
+    expect(getBlockTimerState(block, 3, sec(301))).toMatchObject({ secondsLeft: 0, finished: true });
+  });
+
+  it('is idle before the block starts', () => {
+    expect(getBlockTimerState(createBlock('x', 'circuit'), 3, sec(0))).toMatchObject({ running: false, round: 1, totalRounds: 3 });
+  });
+});
+
+describe('pause and resume', () => {
+  it('freezes the clock in a draft and picks up where it stopped', () => {
+    const block: WorkoutBlock = { ...createBlock('x', 'emom'), progress: startBlock(T0) };
+    const [paused] = pauseBlocks([block], sec(90))!;
+    expect(getBlockTimerState(paused, 2, sec(3600))).toMatchObject({ elapsedSeconds: 90, running: false, round: 2 });
+
+    const [resumed] = resumeBlocks([paused], sec(3600))!;
+    expect(resumed.progress!.pausedAt).toBeUndefined();
+    expect(getBlockTimerState(resumed, 2, sec(3600 + 40))).toMatchObject({ elapsedSeconds: 130, running: true, round: 3 });
+  });
+
+  it('leaves finished and unstarted blocks alone', () => {
+    const done: WorkoutBlock = { ...createBlock('x', 'circuit'), progress: { ...startBlock(T0), finishedAt: sec(5) } };
+    const idle = createBlock('y', 'circuit');
+    expect(pauseBlocks([done, idle], sec(10))).toEqual([done, idle]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Workout Import Tests
+ *
+ * Tests for parsing Strong, Hevy and FitNotes CSV exports
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCSV,
+  detectImportSource,
+  parseImportDate,
+  matchExerciseName,
+  guessCustomExercise,
+  parseImportFile,
+  buildImportedWorkouts,
+  recomputePersonalRecords,
+} from '../workoutImport';
+import { EXERCISE_LIBRARY } from '../../constants';
+import { toDisplayWeight } from '../../utils/conversions';
+import type { WorkoutSession } from '../../types';
+
+const STRONG_CSV = [
+  'Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE',
+  '2024-01-15 08:30:00,"Push Day",1h 5m,"Bench Press (Barbell)",W,40,10,0,0,,,',
+  '2024-01-15 08:30:00,"Push Day",1h 5m,"Bench Press (Barbell)",1,100,5,0,0,"Felt strong",,8',
+  '2024-01-15 08:30:00,"Push Day",1h 5m,"Bench Press (Barbell)",2,100,5,0,0,,,',
+  '2024-01-15 08:30:00,"Push Day",1h 5m,"Rest Timer",Rest Timer,0,0,0,90,,,',
+  '2024-01-15 08:30:00,"Push Day",1h 5m,"Zercher Carry",1,60,1,0,0,,,',
+].join('\n');
+
+const HEVY_CSV = [
+  '"title","start_time","end_time","description","exercise_title","superset_id","exercise_notes","set_index","set_type","weight_kg","reps","distance_km","duration_seconds","rpe"',
+  '"Legs","16 Jan 2024, 18:00","16 Jan 2024, 19:10","","Squat (Barbell)","","","0","warmup","60","8","","",""',
+  '"Legs","16 Jan 2024, 18:00","16 Jan 2024, 19:10","","Squat (Barbell)","","","1","normal","140","5","","","9"',
+  '"Legs","16 Jan 2024, 18:00","16 Jan 2024, 19:10","","Treadmill","","","0","normal","","","2","600",""',
+].join('\n');
+
+const FITNOTES_CSV = [
+  'Date,Exercise,Category,Weight (lbs),Reps,Distance,Distance Unit,Time,Comment',
+  '2024-01-17,Deadlift,Back,315,5,,,,',
+  '2024-01-17,Deadlift,Back,335,3,,,,',
+].join('\n');
+
+const options = { exercises: EXERCISE_LIBRARY, targetUnits: 'kg' as const };
+
+describe('workoutImport', () => {
+  describe('parseCSV', () => {
+    it('handles quoted fields with commas and escaped quotes', () => {
+      expect(parseCSV('a,b\n"x, y","say ""hi"""')).toEqual([['a', 'b'], ['x, y', 'say "hi"']]);
+    });
+
+    it('handles semicolon delimiters, CRLF and blank lines', () => {
+      expect(parseCSV('a;b\r\n1;2\r\n\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+  });
+
+  describe('detectImportSource', () => {
+    it('recognizes each supported app from its headers', () => {
+      expect(detectImportSource(parseCSV(STRONG_CSV)[0])).toBe('strong');
+      expect(detectImportSource(parseCSV(HEVY_CSV)[0])).toBe('hevy');
+      expect(detectImportSource(parseCSV(FITNOTES_CSV)[0])).toBe('fitnotes');
+      expect(detectImportSource(['foo', 'bar'])).toBeNull();
+    });
+  });
+
+  describe('parseImportDate', () => {
+    it('parses ISO-like and Hevy style dates as local time', () => {
+      expect(parseImportDate('2024-01-15 08:30:00')).toBe(new Date(2024, 0, 15, 8, 30).getTime());
+      expect(parseImportDate('16 Jan 2024, 18:00')).toBe(new Date(2024, 0, 16, 18, 0).getTime());
+      expect(parseImportDate('garbage')).toBeNull();
+    });
+  });
+
+  describe('matchExerciseName', () => {
+    it('maps equipment-suffixed names onto the library', () => {
+      const match = matchExerciseName('Bench Press (Barbell)', EXERCISE_LIBRARY);
+      expect(EXERCISE_LIBRARY.find(e => e.id === match.exerciseId)?.name).toBe('Barbell Bench Press');
+    });
+
+    it('leaves unknown exercises unmapped', () => {
+      expect(matchExerciseName('Zercher Carry', EXERCISE_LIBRARY).exerciseId).toBeNull();
+    });
+  });
+
+  describe('guessCustomExercise', () => {
+    it('infers muscle group and equipment from the name', () => {
+      expect(guessCustomExercise('Cable Curl')).toMatchObject({ muscleGroup: 'Arms', equipment: 'Cable' });
+      expect(guessCustomExercise('Hack Squat Machine')).toMatchObject({ muscleGroup: 'Legs', equipment: 'Machine' });
+    });
+  });
+
+  describe('parseImportFile', () => {
+    it('groups Strong rows into workouts and skips rest timer rows', () => {
+      const preview = parseImportFile(STRONG_CSV, { ...options, sourceUnits: 'kg' });
+
+      expect(preview.source).toBe('strong');
+      expect(preview.detectedUnits).toBeNull();
+      expect(preview.workouts).toHaveLength(1);
+      expect(preview.skippedRows).toBe(1);
+
+      const workout = preview.workouts[0];
+      expect(workout.name).toBe('Push Day');
+      expect(workout.endTime! - workout.startTime).toBe(65 * 60 * 1000);
+      expect(workout.logs[0].sets.map(s => s.type)).toEqual(['W', 'N', 'N']);
+      expect(workout.logs[0].sets[1]).toMatchObject({ weight: 100, reps: 5, rpe: 8, completed: true });
+      expect(workout.logs[0].notes).toBe('Felt strong');
+    });
+
+    it('converts Strong weights when the file is in pounds', () => {
+      const preview = parseImportFile(STRONG_CSV, { ...options, sourceUnits: 'lbs' });
+      expect(preview.workouts[0].logs[0].sets[1].weight).toBeCloseTo(45.359, 3);
+    });
+
+    it('reads Hevy units from the header and skips distance-only sets', () => {
+      const preview = parseImportFile(HEVY_CSV, { ...options, targetUnits: 'lbs' });
+
+      expect(preview.detectedUnits).toBe('kg');
+      expect(preview.skippedRows).toBe(1);
+      expect(preview.workouts[0].logs[0].sets.map(s => s.weight)).toEqual([132.3, 308.6]);
+      expect(preview.workouts[0].endTime).toBe(new Date(2024, 0, 16, 19, 10).getTime());
+    });
+
+    it('treats each FitNotes date as one workout', () => {
+      const preview = parseImportFile(FITNOTES_CSV, options);
+
+      expect(preview.source).toBe('fitnotes');
+      expect(preview.workouts).toHaveLength(1);
+      expect(preview.workouts[0].logs[0].sets.map(s => toDisplayWeight(s.weight, 'lbs'))).toEqual([315, 335]);
+      expect(preview.mappings[0]).toMatchObject({ sourceName: 'Deadlift', setCount: 2 });
+      expect(preview.mappings[0].exerciseId).not.toBeNull();
+    });
+
+    it('throws on unrecognized files', () => {
+      expect(() => parseImportFile('foo,bar\n1,2', options)).toThrow(/Unrecognized/);
+    });
+  });
+
+  describe('buildImportedWorkouts', () => {
+    it('resolves exercise names to ids and drops unmapped exercises', () => {
+      const preview = parseImportFile(STRONG_CSV, options);
+      const [workout] = buildImportedWorkouts(preview, { 'Bench Press (Barbell)': 'e1' });
+
+      expect(workout.logs).toHaveLength(1);
+      expect(workout.logs[0].exerciseId).toBe('e1');
+    });
+  });
+
+  describe('recomputePersonalRecords', () => {
+    const session = (id: string, startTime: number, weight: number, reps: number): WorkoutSession => ({
+      id,
+      name: 'Session',
+      startTime,
+      status: 'completed',
+      logs: [{ id: `log-${id}`, exerciseId: 'e1', sets: [{ id: `set-${id}`, weight, reps, type: 'N', completed: true }] }],
+    });
+
+    it('replays history in date order regardless of input order', () => {
+      const records = recomputePersonalRecords([session('b', 2_000, 110, 3), session('a', 1_000, 100, 8)]);
+
+      expect(records.e1.bestWeight).toMatchObject({ value: 110, date: 2_000 });
+      expect(records.e1.bestReps).toMatchObject({ value: 8, date: 1_000 });
+      expect(records.e1.bestVolume?.value).toBe(800);
+      expect(records.e1.records).toHaveLength(4);
+    });
+  });
+});
@@ -16,6 +16,7 @@ import { WorkoutSession, DailyLog, MuscleGroup, ExperienceLevel } from '../types
 import { assessInjuryRisk, InjuryRiskAssessment } from './injuryRisk';
 import { getPeriodizationStatus } from './periodization';
 import { extractVolumeTimeSeries } from './analytics';
+import { fromDisplayWeight } from '../utils/conversions';
 
 /**
  * Recovery priority level
@@ -71,7 +72,7 @@ export interface RecoveryAssessment {
 export function getRecoveryAssessment(
   history: WorkoutSession[],
   dailyLogs: DailyLog[],
-  experienceLevel: ExperienceLevel = 'intermediate',
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate',
   lastRestDay?: number
 ): RecoveryAssessment {
   const now = Date.now();
@@ -375,7 +376,7 @@ function calculateTrainingStress(
 
   // Stress score combines volume, frequency, and intensity
   const frequencyScore = (recentWorkouts.length / daysToAnalyze) * 20; // 0-20 points
-  const volumeScore = Math.min(40, totalVolume / 1000); // 0-40 points (cap at 40k lbs)
+  const volumeScore = Math.min(40, totalVolume / fromDisplayWeight(1000, 'lbs')); // 0-40 points (cap at 40k lbs)
   const intensityScore = (avgRPE / 10) * 40; // 0-40 points
 
   const trainingStress = frequencyScore + volumeScore + intensityScore;
@@ -420,7 +421,7 @@ function calculateRecoveryScore(
  * Get recommended rest day frequency based on factors
  */
 function getRestDayFrequency(
-  experienceLevel: ExperienceLevel,
+  experienceLevel: Lowercase<ExperienceLevel>,
   trainingStress: number
 ): number {
   // Base frequency by experience
@@ -444,7 +445,7 @@ function getRestDayFrequency(
 export function getQuickRecoveryStatus(
   history: WorkoutSession[],
   dailyLogs: DailyLog[],
-  experienceLevel: ExperienceLevel = 'intermediate'
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate'
 ): {
   score: number;
   status: 'excellent' | 'good' | 'fair' | 'poor';
@@ -6,7 +6,12 @@
  * - Combining local ML with LLM explanations
  * - Tool use (calling local services)
  *
- * Architecture:
+ * Architecture (tool-calling loop, when the LLM is reachable):
+ * 1. Model picks typed tools to call (see tools.ts)
+ * 2. Tools run locally, results go back to the model
+ * 3. Repeat until the model answers (citing results) or the step budget runs out
+ *
+ * Fixed-plan fallback (offline / LLM failure):
  * 1. Plan: Determine required steps
  * 2. Execute: Run local analysis + LLM calls
  * 3. Synthesize: Combine results into response
@@ -17,22 +22,37 @@ import {
   AgentStep,
   AgentPlan,
   AgentResult,
+  AgentCitation,
   AIContext,
   CoachingResponse,
+  ToolCall,
+  ToolCallingLLM,
+  ToolChatMessage,
 } from './types';
 import { llmClient, decideOrchestration } from './llm';
 import { compilePrompt, buildHistoryContext, PROMPT_TEMPLATES } from './prompts';
 import { buildFullContext, compressContext } from './contextBuilder';
 import { getKnowledgeForTopic } from './rag';
+import { getUserHistoryContext } from './userHistory';
 import { withCache, TTL_BY_FEATURE } from './cache';
 import { getCoachingFallback, getMotivationFallback } from './fallbacks';
+import {
+  AgentTool,
+  AgentToolContext,
+  COACHING_TOOLS,
+  analyzeTrainingHistory,
+  toToolDefinitions,
+  validateToolArguments,
+} from './tools';
 
 // Import local ML services
 import { getSuggestion, shouldDeloadWeek, checkVolumeWarning } from '../progressiveOverload';
 import { analyzeWeakPoints, suggestExerciseVariations } from '../workoutIntelligence';
 import { calculateOverallStrengthScore } from '../strengthScore';
-import { WorkoutSession, UserSettings, DailyLog, ExerciseLog } from '../../types';
+import { WorkoutSession, UserSettings, DailyLog, ExerciseLog, Exercise, ExperienceLevel } from '../../types';
 import { EXERCISE_LIBRARY } from '../../constants';
+import { fromDisplayWeight, toDisplayWeight } from '../../utils/conversions';
+import { toAnalysisExperienceLevel } from '../../utils/experienceLevel';
 
 // =============================================================================
 // Agent Tools (Local Services)
@@ -42,55 +62,13 @@ interface AgentTools {
   analyzeHistory: (history: WorkoutSession[], settings: UserSettings) => any;
   checkRecovery: (dailyLogs: Record<string, DailyLog>, history: WorkoutSession[]) => any;
   suggestExercise: (exerciseId: string, history: WorkoutSession[], dailyLogs: Record<string, DailyLog>) => any;
-  analyzeWeakPoints: (history: WorkoutSession[], level: string) => any;
+  analyzeWeakPoints: (history: WorkoutSession[], level: ExperienceLevel) => any;
   checkDeload: (history: WorkoutSession[], dailyLogs: Record<string, DailyLog>) => any;
   getStrengthScore: (settings: UserSettings) => number;
 }
 
 const agentTools: AgentTools = {
-  analyzeHistory: (history, settings) => {
-    const completedWorkouts = history.filter(w => w.status === 'completed');
-    const last30Days = completedWorkouts.filter(
-      w => w.startTime > Date.now() - 30 * 24 * 60 * 60 * 1000
-    );
-
-    // Calculate weekly frequency
-    const weeks = Math.ceil(30 / 7);
-    const avgFrequency = last30Days.length / weeks;
-
-    // Calculate total volume trend
-    const volumes = last30Days.map(w =>
-      w.logs.reduce((sum, log) =>
-        sum + log.sets.filter(s => s.completed).reduce((s, set) => s + set.weight * set.reps, 0), 0
-      )
-    );
-
-    const avgVolume = volumes.length > 0
-      ? volumes.reduce((a, b) => a + b, 0) / volumes.length
-      : 0;
-
-    // Recent vs previous volume trend
-    const recentVolumes = volumes.slice(0, Math.floor(volumes.length / 2));
-    const olderVolumes = volumes.slice(Math.floor(volumes.length / 2));
-
-    const recentAvg = recentVolumes.length > 0
-      ? recentVolumes.reduce((a, b) => a + b, 0) / recentVolumes.length
-      : 0;
-    const olderAvg = olderVolumes.length > 0
-      ? olderVolumes.reduce((a, b) => a + b, 0) / olderVolumes.length
-      : 0;
-
-    const volumeTrend = olderAvg > 0 ? ((recentAvg - olderAvg) / olderAvg) * 100 : 0;
-
-    return {
-      totalWorkouts: completedWorkouts.length,
-      last30DaysWorkouts: last30Days.length,
-      avgFrequency: Math.round(avgFrequency * 10) / 10,
-      avgVolume: Math.round(avgVolume),
-      volumeTrend: Math.round(volumeTrend),
-      consistency: avgFrequency >= settings.goal.targetPerWeek ? 'on_track' : 'below_target',
-    };
-  },
+  analyzeHistory: (history, settings) => analyzeTrainingHistory(history, settings),
 
   checkRecovery: (dailyLogs, history) => {
     const deloadCheck = shouldDeloadWeek(history, dailyLogs);
@@ -133,10 +111,7 @@ const agentTools: AgentTools = {
   },
 
   analyzeWeakPoints: (history, level) => {
-    const analysis = analyzeWeakPoints(
-      history,
-      level.toLowerCase() as any
-    );
+    const analysis = analyzeWeakPoints(history, toAnalysisExperienceLevel(level));
 
     return {
       weakPoints: analysis.weakPoints.slice(0, 3),
@@ -153,7 +128,7 @@ const agentTools: AgentTools = {
   getStrengthScore: (settings) => {
     return calculateOverallStrengthScore(
       settings.personalRecords,
-      settings.bodyweight || 180,
+      settings.bodyweight || fromDisplayWeight(180, 'lbs'),
       settings.gender || 'male'
     );
   },
@@ -326,22 +301,31 @@ async function executePlan(
           requiresPersonalization: true,
           contextSize: contextStr.length + toolContext.length,
           isOnline: navigator.onLine,
+          localLLMAvailable: llmClient.hasLocalProvider(),
+          withinBudget: llmClient.isWithinBudget(),
         });
 
         if (orchestration.useLLM && llmClient.checkAvailability()) {
+          // Personal notes/PRs/daily logs only go to the cloud with the user's consent
+          const provider = llmClient.resolveProvider(orchestration.model);
+          const userHistory = await getUserHistoryContext(query, settings, provider === 'local' ? 'local' : 'cloud');
+          const historySummary = toolResults.analyze_history
+            ? `${toolResults.analyze_history.last30DaysWorkouts} workouts in last 30 days, avg ${toolResults.analyze_history.avgFrequency}/week`
+            : buildHistoryContext(plan.context.history.recentWorkouts);
+
           const prompt = compilePrompt('ai_coach', {
             userName: plan.context.user.name,
             experienceLevel: plan.context.user.experienceLevel,
             goal: plan.context.user.goal.type,
             frequency: settings.goal.targetPerWeek,
-            bodyweight: settings.bodyweight || 'Unknown',
+            bodyweight: settings.bodyweight ? toDisplayWeight(settings.bodyweight, settings.units) : 'Unknown',
             units: settings.units,
             workoutContext: plan.context.workout
               ? `Currently in session: ${plan.context.workout.exercisesCompleted} exercises done`
               : 'Not in active session',
-            historyContext: toolResults.analyze_history
-              ? `${toolResults.analyze_history.last30DaysWorkouts} workouts in last 30 days, avg ${toolResults.analyze_history.avgFrequency}/week`
-              : buildHistoryContext(plan.context.history.recentWorkouts),
+            historyContext: userHistory
+              ? `${historySummary}\n\nFrom the user's training log:\n${userHistory}`
+              : historySummary,
             sleepHours: plan.context.biomarkers?.sleepHours || 'Unknown',
             stressLevel: plan.context.biomarkers?.stressLevel || 'Unknown',
             recoveryScore: plan.context.biomarkers?.recoveryScore || 7,
@@ -351,7 +335,7 @@ async function executePlan(
 
           const llmResponse = await llmClient.generateText(
             prompt,
-            { maxTokens: 400, temperature: 0.6 },
+            { provider, maxTokens: 400, temperature: 0.6 },
             'coaching'
           );
 
@@ -366,9 +350,13 @@ async function executePlan(
             reasoning = 'Used fallback due to LLM error';
           }
         } else {
-          // Local fallback
+          // Local fallback (on-device, so the user's history can always be quoted)
           const fallback = getCoachingFallback(plan.context, query);
+          const userHistory = await getUserHistoryContext(query, settings, 'local', 2);
           output = `${fallback.message}\n\nSuggestions:\n${fallback.suggestions.map(s => '- ' + s).join('\n')}`;
+          if (userHistory) {
+            output += `\n\nFrom your training log:\n${userHistory}`;
+          }
           reasoning = orchestration.useLLM
             ? 'LLM unavailable, used local fallback'
             : 'Used local implementation';
@@ -402,6 +390,155 @@ async function executePlan(
   };
 }
 
+// =============================================================================
+// Tool-Calling Agent
+// =============================================================================
+
+/** Max tool-calling turns before the model has to answer */
+export const DEFAULT_TOOL_STEP_BUDGET = 5;
+
+/** Tool results are truncated so one large result can't blow the context */
+const MAX_TOOL_RESULT_CHARS = 2000;
+
+const TOOL_AGENT_SYSTEM_PROMPT = `You are VoltLift's AI strength coach. Answer the user's question from their real training data.
+Use the tools to look data up instead of guessing. You can call tools over several turns and call more after seeing results.
+Every tool result has an ID like T1. Cite the results your answer relies on in square brackets, e.g. "Your bench volume is up 12% [T1]".
+Keep the final answer under 150 words: specific, actionable, no generic advice.`;
+
+export interface ToolAgentOptions {
+  llm?: ToolCallingLLM;
+  tools?: AgentTool[];
+  maxSteps?: number;
+  now?: number;
+}
+
+function executeToolCall(
+  call: ToolCall,
+  tools: AgentTool[],
+  context: AgentToolContext
+): { output: unknown; error?: string } {
+  const tool = tools.find((t) => t.name === call.name);
+  if (!tool) {
+    return { output: null, error: `Unknown tool "${call.name}". Available: ${tools.map((t) => t.name).join(', ')}` };
+  }
+
+  const problems = validateToolArguments(tool.parameters, call.arguments ?? {});
+  if (problems.length > 0) {
+    return { output: null, error: `Invalid arguments: ${problems.join('; ')}` };
+  }
+
+  try {
+    return { output: tool.run(call.arguments ?? {}, context) };
+  } catch (error) {
+    return { output: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Citations actually referenced in the answer, in order of first mention
+ */
+function extractCitations(answer: string, available: Map<string, AgentCitation>): AgentCitation[] {
+  const ids = new Set(Array.from(answer.matchAll(/\[(T\d+)\]/g), (match) => match[1]));
+  return Array.from(ids)
+    .map((id) => available.get(id))
+    .filter((citation): citation is AgentCitation => citation !== undefined);
+}
+
+/**
+ * Model-driven agent: the LLM calls tools with JSON arguments, observes the
+ * results and iterates until it answers or `maxSteps` tool turns are used.
+ * Throws when the LLM fails so callers can fall back to the fixed plan.
+ */
+export async function runToolAgent(
+  query: string,
+  context: Omit<AgentToolContext, 'now'>,
+  options: ToolAgentOptions = {}
+): Promise<AgentResult> {
+  const { llm = llmClient, tools = COACHING_TOOLS, maxSteps = DEFAULT_TOOL_STEP_BUDGET } = options;
+  const toolContext: AgentToolContext = { ...context, now: options.now ?? Date.now() };
+  const definitions = toToolDefinitions(tools);
+
+  const startTime = Date.now();
+  const steps: AgentStep[] = [];
+  const results = new Map<string, AgentCitation>();
+  const messages: ToolChatMessage[] = [{ role: 'user', content: query }];
+  let totalTokens = 0;
+
+  for (let turn = 0; turn <= maxSteps; turn++) {
+    // Out of budget: a final turn without tools forces an answer
+    const budgetSpent = turn === maxSteps;
+    if (budgetSpent) {
+      messages.push({ role: 'user', content: 'Tool budget used up. Answer now using the results above.' });
+    }
+
+    const response = await llm.generateWithTools(
+      { systemPrompt: TOOL_AGENT_SYSTEM_PROMPT, messages, tools: budgetSpent ? [] : definitions },
+      { maxTokens: 500, temperature: 0.4 },
+      'coaching_agent'
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Tool agent LLM call failed');
+    }
+    totalTokens += response.tokensUsed || 0;
+
+    const { text, toolCalls } = response.data;
+
+    if (toolCalls.length === 0 || budgetSpent) {
+      const finalResponse = (text || '').trim();
+      if (!finalResponse) {
+        throw new Error('Tool agent returned no answer');
+      }
+
+      steps.push({
+        action: 'generate_response',
+        input: { query },
+        output: finalResponse,
+        reasoning: `Answered after ${results.size} tool result(s)`,
+        timestamp: 0,
+      });
+
+      return {
+        success: true,
+        finalResponse,
+        steps,
+        totalLatency: Date.now() - startTime,
+        totalTokens,
+        citations: extractCitations(finalResponse, results),
+      };
+    }
+
+    messages.push({ role: 'model', content: text, toolCalls });
+
+    for (const call of toolCalls) {
+      const stepStart = Date.now();
+      const { output, error } = executeToolCall(call, tools, toolContext);
+
+      // Only successful results can be cited
+      const id = error ? undefined : `T${results.size + 1}`;
+      if (id) results.set(id, { id, tool: call.name, arguments: call.arguments ?? {} });
+
+      messages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(error ? { error } : { id, result: output }).slice(0, MAX_TOOL_RESULT_CHARS),
+      });
+
+      steps.push({
+        action: 'call_tool',
+        tool: call.name,
+        input: call.arguments,
+        output: error ? { error } : output,
+        reasoning: error ? `Tool call rejected: ${error}` : `Result ${id}`,
+        timestamp: Date.now() - stepStart,
+      });
+    }
+  }
+
+  // Unreachable: the final turn always returns or throws
+  throw new Error('Tool agent exceeded its step budget');
+}
+
 // =============================================================================
 // Main Agent Entry Point
 // =============================================================================
@@ -411,8 +548,18 @@ export async function runCoachingAgent(
   settings: UserSettings,
   history: WorkoutSession[],
   dailyLogs: Record<string, DailyLog>,
-  activeWorkout?: WorkoutSession | null
+  activeWorkout?: WorkoutSession | null,
+  customExercises: Exercise[] = []
 ): Promise<AgentResult> {
+  // Prefer the model-driven tool loop; the fixed plan covers offline use and LLM failures
+  if (llmClient.canReachModel() && llmClient.checkAvailability() && settings.llmFeatures?.enabled !== false) {
+    try {
+      return await runToolAgent(query, { settings, history, dailyLogs, customExercises });
+    } catch (error) {
+      console.warn('[Agent] Tool-calling loop failed, using fixed plan:', error);
+    }
+  }
+
   // Build context
   const context = buildFullContext({
     settings,
@@ -453,7 +600,7 @@ export async function getQuickCoachingResponse(
           experienceLevel: context.user.experienceLevel,
           goal: context.user.goal.type,
           frequency: context.user.goal.targetPerWeek,
-          bodyweight: context.user.bodyweight || 'Unknown',
+          bodyweight: context.user.bodyweight ? toDisplayWeight(context.user.bodyweight, context.user.units) : 'Unknown',
           units: context.user.units,
           workoutContext: context.workout
             ? `In session: ${context.workout.exercisesCompleted} exercises`
@@ -25,6 +25,7 @@ import {
   Exercise,
 } from '../../types';
 import { EXERCISE_LIBRARY } from '../../constants';
+import { toDisplayWeight } from '../../utils/conversions';
 
 // =============================================================================
 // User Context Builder
@@ -350,7 +351,7 @@ export function compressContext(
 
   // Add current workout context if available
   if (context.workout) {
-    const workoutStr = `Session: ${context.workout.exercisesCompleted} exercises, ${context.workout.totalVolume}${context.user.units} volume`;
+    const workoutStr = `Session: ${context.workout.exercisesCompleted} exercises, ${Math.round(toDisplayWeight(context.workout.totalVolume, context.user.units))}${context.user.units} volume`;
     if (tokenEstimate + workoutStr.length * tokensPerChar < maxTokens * 0.5) {
       parts.push(workoutStr);
       tokenEstimate += workoutStr.length * tokensPerChar;
@@ -365,7 +366,7 @@ export function compressContext(
     if (historyCount > 0) {
       parts.push('Recent:');
       context.history.recentWorkouts.slice(0, historyCount).forEach((w) => {
-        const wStr = `- ${w.date}: ${w.exercises.slice(0, 3).join(', ')} (${w.totalVolume}${context.user.units})`;
+        const wStr = `- ${w.date}: ${w.exercises.slice(0, 3).join(', ')} (${Math.round(toDisplayWeight(w.totalVolume, context.user.units))}${context.user.units})`;
         parts.push(wStr);
         tokenEstimate += wStr.length * tokensPerChar;
       });
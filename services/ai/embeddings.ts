@@ -0,0 +1,326 @@
+/**
+ * Text Embeddings
+ *
+ * Pluggable embedding providers for the RAG vector index:
+ * - TF.js provider: runs a sentence-transformer (MiniLM-style BERT encoder converted
+ *   to a TF.js graph model) on-device. TensorFlow.js is lazy-loaded on first use.
+ * - Hashing provider: dependency-free fallback that hashes stems, character
+ *   trigrams and fitness concepts into a fixed-size vector. Used when the model
+ *   files are unavailable (offline first run, tests).
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface EmbeddingProvider {
+  /** Stable id - cached vectors are only reused for the same provider id */
+  id: string;
+  dimensions: number;
+  /** Returns one L2-normalized vector per input text */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface TfjsEmbeddingOptions {
+  modelUrl: string; // TF.js graph model (model.json)
+  vocabUrl: string; // WordPiece vocab.txt, one token per line
+  dimensions?: number;
+  maxLength?: number; // Tokens per text, including [CLS]/[SEP]
+  batchSize?: number;
+}
+
+/**
+ * Sentence encoder served from /public/models (all-MiniLM-L6-v2 converted with tensorflowjs_converter)
+ * The files are not committed - run `npm run models:fetch` (see docs/ai-architecture.md)
+ */
+export const DEFAULT_EMBEDDING_MODEL: TfjsEmbeddingOptions = {
+  modelUrl: '/models/minilm/model.json',
+  vocabUrl: '/models/minilm/vocab.txt',
+  dimensions: 384,
+  maxLength: 128,
+  batchSize: 16,
+};
+
+// =============================================================================
+// Vector Math
+// =============================================================================
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Cosine similarity (-1 to 1)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// =============================================================================
+// Hashing Provider (offline fallback)
+// =============================================================================
+
+/**
+ * Fitness concepts: phrases that mean the same thing in coaching language
+ * Each concept becomes a shared feature so "lower back hurts when I hinge"
+ * lands near guides that talk about "rounding the back" and "hips back"
+ */
+const CONCEPTS: Record<string, string[]> = {
+  lower_back: ['lower back', 'low back', 'lumbar', 'spine', 'spinal', 'erector', 'rounding', 'round back', 'flatten back', 'flat back'],
+  hip_hinge: ['hinge', 'deadlift', 'rdl', 'romanian', 'good morning', 'hips back', 'hamstring stretch', 'pull from the floor'],
+  knee: ['knee', 'patella', 'valgus', 'cave in', 'caving'],
+  shoulder: ['shoulder', 'rotator', 'impingement', 'delt', 'overhead'],
+  pain: ['hurt', 'pain', 'ache', 'sore', 'injur', 'tweak', 'strain', 'twinge'],
+  recovery: ['recover', 'rest day', 'sleep', 'deload', 'overtrain', 'fatigue', 'tired', 'exhausted', 'burnt out', 'regress', 'weaker'],
+  progression: ['stall', 'plateau', 'stuck', 'progress', 'overload', 'add weight', 'adding weight', 'increasing weight', 'increase weight', 'heavier', 'microload'],
+  volume: ['volume', 'how many sets', 'sets per week', 'mev', 'mrv', 'mav'],
+  effort: ['rpe', 'effort', 'reps in reserve', 'rir', 'failure', 'intensity', 'exertion'],
+  nutrition: ['protein', 'eat', 'diet', 'nutrition', 'calorie', 'creatine', 'hydrat', 'water', 'meal'],
+  core: ['core', 'abs', 'brace', 'bracing', 'trunk', 'plank'],
+  squat: ['squat', 'depth', 'below parallel'],
+  press: ['bench', 'press', 'push-up', 'pushup'],
+  grip: ['grip', 'forearm', 'hang', 'hold the bar'],
+  posture: ['posture', 'imbalance', 'balance', 'push/pull', 'push pull', 'face pull', 'rounded shoulder', 'hunch'],
+  conditioning: ['cardio', 'conditioning', 'endurance', 'row machine', 'rowing machine', 'bike', 'sprint'],
+};
+
+/** Concept block weight relative to the (unit length) word block */
+const CONCEPT_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.3;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'but', 'for', 'with', 'from', 'was', 'are', 'were', 'been', 'have', 'has', 'had',
+  'does', 'did', 'will', 'would', 'could', 'should', 'can', 'this', 'that', 'these', 'those', 'its',
+  'they', 'them', 'their', 'what', 'which', 'who', 'how', 'when', 'where', 'why', 'your', 'you',
+  'our', 'her', 'his', 'she', 'not', 'too', 'much', 'many', 'keep', 'feel', 'mean',
+]);
+
+/**
+ * FNV-1a 32-bit hash
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalizeText(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9/]+/g, ' ').trim()} `;
+}
+
+/**
+ * Crude suffix stripping so "hinging"/"hinges"/"hinged" share a feature
+ */
+function stem(token: string): string {
+  if (token.length <= 4) return token;
+  return token.replace(/(ing|ed|es|s)$/, '');
+}
+
+export function createHashingEmbeddingProvider(dimensions: number = 512): EmbeddingProvider {
+  const hashInto = (vector: number[], feature: string, weight: number) => {
+    const hash = hashString(feature);
+    // Sign bit reduces the bias from hash collisions
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  const embedOne = (text: string): number[] => {
+    const normalized = normalizeText(text);
+
+    // Word block: sublinear term frequency of stems plus character trigrams
+    const counts = new Map<string, number>();
+    normalized
+      .trim()
+      .split(' ')
+      .filter((token) => token.length > 2 && !STOP_WORDS.has(token))
+      .forEach((token) => {
+        const stemmed = stem(token);
+        counts.set(stemmed, (counts.get(stemmed) || 0) + 1);
+      });
+
+    const words = new Array(dimensions).fill(0);
+    counts.forEach((count, stemmed) => {
+      const weight = 1 + Math.log(count);
+      hashInto(words, `t:${stemmed}`, weight);
+      for (let i = 0; i <= stemmed.length - 3; i++) {
+        hashInto(words, `c:${stemmed.slice(i, i + 3)}`, weight * TRIGRAM_WEIGHT);
+      }
+    });
+
+    // Concept block: normalized separately so long guides don't drown out their concepts
+    const concepts = new Array(dimensions).fill(0);
+    Object.entries(CONCEPTS).forEach(([concept, phrases]) => {
+      if (phrases.some((phrase) => normalized.includes(` ${phrase}`))) {
+        hashInto(concepts, `k:${concept}`, 1);
+      }
+    });
+
+    const wordBlock = normalizeVector(words);
+    const conceptBlock = normalizeVector(concepts);
+    return normalizeVector(wordBlock.map((v, i) => v + conceptBlock[i] * CONCEPT_WEIGHT));
+  };
+
+  return {
+    id: `hashing-v1-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+// =============================================================================
+// TF.js Provider (on-device sentence encoder)
+// =============================================================================
+
+/**
+ * Greedy longest-match WordPiece tokenization (BERT uncased)
+ */
+export function wordPieceTokenize(text: string, vocab: Map<string, number>, maxLength: number): number[] {
+  const unk = vocab.get('[UNK]') ?? 100;
+  const ids: number[] = [vocab.get('[CLS]') ?? 101];
+
+  const words = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[a-z0-9]+|[^\sa-z0-9]/g) || [];
+
+  for (const word of words) {
+    if (ids.length >= maxLength - 1) break;
+
+    let start = 0;
+    const pieces: number[] = [];
+    while (start < word.length) {
+      let end = word.length;
+      let id: number | undefined;
+      while (end > start) {
+        const piece = (start > 0 ? '##' : '') + word.slice(start, end);
+        id = vocab.get(piece);
+        if (id !== undefined) break;
+        end--;
+      }
+      if (id === undefined) {
+        pieces.length = 0;
+        pieces.push(unk);
+        break;
+      }
+      pieces.push(id);
+      start = end;
+    }
+
+    ids.push(...pieces.slice(0, maxLength - 1 - ids.length));
+  }
+
+  ids.push(vocab.get('[SEP]') ?? 102);
+  return ids;
+}
+
+export function createTfjsEmbeddingProvider(options: TfjsEmbeddingOptions = DEFAULT_EMBEDDING_MODEL): EmbeddingProvider {
+  const { modelUrl, vocabUrl, dimensions = 384, maxLength = 128, batchSize = 16 } = options;
+
+  let loading: Promise<{
+    tf: typeof import('@tensorflow/tfjs');
+    model: import('@tensorflow/tfjs').GraphModel;
+    vocab: Map<string, number>;
+  }> | null = null;
+
+  const load = () => {
+    if (!loading) {
+      loading = (async () => {
+        const tf = await import('@tensorflow/tfjs');
+        const [model, vocabText] = await Promise.all([
+          tf.loadGraphModel(modelUrl),
+          fetch(vocabUrl).then((res) => {
+            if (!res.ok) throw new Error(`Failed to load embedding vocab (${res.status})`);
+            return res.text();
+          }),
+        ]);
+        const vocab = new Map(vocabText.split('\n').map((token, i) => [token.trim(), i] as [string, number]));
+        return { tf, model, vocab };
+      })();
+      // Allow a retry after a failed load (e.g. offline first run)
+      loading.catch(() => { loading = null; });
+    }
+    return loading;
+  };
+
+  const embedBatch = async (texts: string[]): Promise<number[][]> => {
+    const { tf, model, vocab } = await load();
+
+    const tokenized = texts.map((text) => wordPieceTokenize(text, vocab, maxLength));
+    const seqLength = Math.max(...tokenized.map((ids) => ids.length));
+    const inputIds = tokenized.map((ids) => [...ids, ...new Array(seqLength - ids.length).fill(0)]);
+    const attentionMask = tokenized.map((ids) => [
+      ...new Array(ids.length).fill(1),
+      ...new Array(seqLength - ids.length).fill(0),
+    ]);
+
+    const inputs = {
+      input_ids: tf.tensor2d(inputIds, undefined, 'int32'),
+      attention_mask: tf.tensor2d(attentionMask, undefined, 'int32'),
+      token_type_ids: tf.zeros([texts.length, seqLength], 'int32'),
+    };
+
+    try {
+      const output = await model.executeAsync(inputs);
+      // Mean-pool token embeddings over the attention mask, then L2-normalize
+      const pooled = tf.tidy(() => {
+        const hidden = Array.isArray(output) ? output[0] : output;
+        if (hidden.rank === 2) return tf.div(hidden, tf.norm(hidden, 2, -1, true));
+
+        const mask = tf.expandDims(tf.cast(inputs.attention_mask, 'float32'), -1);
+        const summed = tf.sum(tf.mul(hidden, mask), 1);
+        const counts = tf.maximum(tf.sum(mask, 1), 1e-9);
+        const mean = tf.div(summed, counts);
+        return tf.div(mean, tf.maximum(tf.norm(mean, 2, -1, true), 1e-9));
+      });
+      const vectors = (await pooled.array()) as number[][];
+      tf.dispose([output, pooled]);
+      return vectors;
+    } finally {
+      tf.dispose(Object.values(inputs));
+    }
+  };
+
+  return {
+    id: `tfjs:${modelUrl}`,
+    dimensions,
+    embed: async (texts) => {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += batchSize) {
+        vectors.push(...(await embedBatch(texts.slice(i, i + batchSize))));
+      }
+      return vectors;
+    },
+  };
+}
+
+/**
+ * Use the on-device model when its files load, otherwise fall back to hashing
+ * Decided once per session by embedding a probe string
+ */
+export async function resolveEmbeddingProvider(
+  preferred: EmbeddingProvider = createTfjsEmbeddingProvider(),
+  fallback: EmbeddingProvider = createHashingEmbeddingProvider()
+): Promise<EmbeddingProvider> {
+  try {
+    await preferred.embed(['warm up']);
+    return preferred;
+  } catch (error) {
+    console.warn(`[RAG] Embedding model unavailable, using ${fallback.id}:`, error);
+    return fallback;
+  }
+}
@@ -18,6 +18,7 @@ import {
 import { ProgressiveSuggestion } from '../progressiveOverload';
 import { Exercise, MuscleGroup } from '../../types';
 import { EXERCISE_LIBRARY } from '../../constants';
+import { toDisplayWeight } from '../../utils/conversions';
 
 // =============================================================================
 // Progressive Overload Fallbacks
@@ -33,13 +34,14 @@ export function getProgressiveOverloadFallback(
 ): ProgressiveOverloadResponse {
   // Build tip from local heuristics
   let tip = '';
+  const weight = toDisplayWeight(suggestion.weight, units);
 
   if (suggestion.shouldDeload) {
-    tip = `Recovery focus: Use ${suggestion.weight}${units} for ${suggestion.reps[0]}-${suggestion.reps[1]} reps.`;
+    tip = `Recovery focus: Use ${weight}${units} for ${suggestion.reps[0]}-${suggestion.reps[1]} reps.`;
   } else if (suggestion.progressionRate && suggestion.progressionRate > 0) {
-    tip = `Progress to ${suggestion.weight}${units} for ${suggestion.reps[0]}-${suggestion.reps[1]} reps (+${suggestion.progressionRate.toFixed(1)}%).`;
+    tip = `Progress to ${weight}${units} for ${suggestion.reps[0]}-${suggestion.reps[1]} reps (+${suggestion.progressionRate.toFixed(1)}%).`;
   } else {
-    tip = `Maintain ${suggestion.weight}${units} x ${suggestion.reps[0]}-${suggestion.reps[1]} reps. Focus on form.`;
+    tip = `Maintain ${weight}${units} x ${suggestion.reps[0]}-${suggestion.reps[1]} reps. Focus on form.`;
   }
 
   return {
@@ -166,9 +168,10 @@ export function getWorkoutSummaryFallback(params: {
     units,
   } = params;
 
+  const volume = toDisplayWeight(totalVolume, units).toLocaleString();
   const highlights: string[] = [
     `Completed ${exerciseCount} exercises in ${duration} minutes`,
-    `Total volume: ${totalVolume.toLocaleString()}${units}`,
+    `Total volume: ${volume}${units}`,
   ];
 
   if (prsAchieved.length > 0) {
@@ -189,7 +192,7 @@ export function getWorkoutSummaryFallback(params: {
   }
 
   return {
-    summary: `Strong ${workoutName} session! You trained for ${duration} minutes and moved ${totalVolume.toLocaleString()}${units}.${
+    summary: `Strong ${workoutName} session! You trained for ${duration} minutes and moved ${volume}${units}.${
       prsAchieved.length > 0 ? ` Personal records on ${prsAchieved.join(', ')}!` : ''
     }`,
     highlights,
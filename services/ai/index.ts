@@ -45,8 +45,10 @@ import { runCoachingAgent, getQuickCoachingResponse } from './agent';
 
 // Import local ML services
 import { getSuggestion, ProgressiveSuggestion } from '../progressiveOverload';
+import { getLoadRounding } from '../loadRounding';
 import { WorkoutSession, UserSettings, DailyLog, Exercise } from '../../types';
 import { EXERCISE_LIBRARY } from '../../constants';
+import { toDisplayWeight } from '../../utils/conversions';
 
 // =============================================================================
 // Initialization
@@ -122,7 +124,8 @@ export async function getProgressiveOverloadSuggestion(params: {
     history,
     activeWorkout?.startTime || Date.now(),
     settings.experienceLevel,
-    settings.suggestionHistory
+    settings.suggestionHistory,
+    getLoadRounding(exerciseId, settings, [], activeWorkout?.gymProfileId)
   );
 
   // Build base response from local suggestion
@@ -132,8 +135,8 @@ export async function getProgressiveOverloadSuggestion(params: {
     settings.units
   );
 
-  // If LLM enhancement not requested or offline, return local
-  if (!enhanceWithLLM || !navigator.onLine) {
+  // If LLM enhancement not requested or no model reachable (offline without a local LLM), return local
+  if (!enhanceWithLLM || !llmClient.canReachModel()) {
     return {
       success: true,
       data: baseResponse,
@@ -168,13 +171,13 @@ export async function getProgressiveOverloadSuggestion(params: {
         experienceLevel: settings.experienceLevel,
         goal: settings.goal.type,
         exerciseName: exercise?.name || exerciseId,
-        lastWeight: previousLog?.sets.filter((s) => s.completed).pop()?.weight || 0,
+        lastWeight: toDisplayWeight(previousLog?.sets.filter((s) => s.completed).pop()?.weight || 0, settings.units),
         lastReps: previousLog?.sets.filter((s) => s.completed).pop()?.reps || 0,
         units: settings.units,
         rpeInfo: buildRPEInfo(previousLog?.sets.filter((s) => s.completed).pop()?.rpe),
         rpe: previousLog?.sets.filter((s) => s.completed).pop()?.rpe || 'N/A',
         recoveryScore: localSuggestion.recoveryScore,
-        estimated1RM: localSuggestion.estimated1RM || 0,
+        estimated1RM: toDisplayWeight(localSuggestion.estimated1RM || 0, settings.units),
         currentIntensity: localSuggestion.currentIntensity || 0,
         recentContext: `Recent workouts: ${history.slice(0, 3).length} sessions this week`,
       });
@@ -253,8 +256,8 @@ export async function explainSuggestion(params: {
     }`,
     keyFactors: [
       `Recovery score: ${suggestion.recoveryScore}/10`,
-      `Previous performance: ${lastWorkout?.sets.filter(s => s.completed).pop()?.weight || 0}${settings.units} × ${lastWorkout?.sets.filter(s => s.completed).pop()?.reps || 0} reps`,
-      `Estimated 1RM: ${suggestion.estimated1RM || 'N/A'}${settings.units}`,
+      `Previous performance: ${toDisplayWeight(lastWorkout?.sets.filter(s => s.completed).pop()?.weight || 0, settings.units)}${settings.units} × ${lastWorkout?.sets.filter(s => s.completed).pop()?.reps || 0} reps`,
+      `Estimated 1RM: ${suggestion.estimated1RM ? toDisplayWeight(suggestion.estimated1RM, settings.units) : 'N/A'}${settings.units}`,
       `Current intensity: ${suggestion.currentIntensity || 'N/A'}%`,
     ],
     whatToExpect: suggestion.shouldDeload
@@ -272,8 +275,8 @@ export async function explainSuggestion(params: {
     };
   }
 
-  // If offline or LLM unavailable, return fallback immediately
-  if (!navigator.onLine || !llmClient.checkAvailability()) {
+  // If offline (and no local LLM) or LLM unavailable, return fallback immediately
+  if (!llmClient.canReachModel() || !llmClient.checkAvailability()) {
     return {
       success: true,
       data: fallbackExplanation,
@@ -300,11 +303,11 @@ export async function explainSuggestion(params: {
         userName: settings.name,
         experienceLevel: settings.experienceLevel,
         exerciseName: exercise.name,
-        lastWeight: lastSet?.weight || 0,
+        lastWeight: toDisplayWeight(lastSet?.weight || 0, settings.units),
         lastReps: lastSet?.reps || 0,
         units: settings.units,
         rpeInfo,
-        suggestedWeight: suggestion.weight,
+        suggestedWeight: toDisplayWeight(suggestion.weight, settings.units),
         suggestedRepsMin: suggestion.reps[0],
         suggestedRepsMax: suggestion.reps[1],
         confidence: suggestion.confidence,
@@ -500,7 +503,7 @@ export async function generateWorkoutSummary(params: {
     .map((log) => {
       const exercise = EXERCISE_LIBRARY.find((e) => e.id === log.exerciseId);
       const sets = log.sets.filter((s) => s.completed);
-      const setStr = sets.map((s) => `${s.weight}${settings.units}x${s.reps}`).join(', ');
+      const setStr = sets.map((s) => `${toDisplayWeight(s.weight, settings.units)}${settings.units}x${s.reps}`).join(', ');
       return `- ${exercise?.name || log.exerciseId}: ${setStr}`;
     })
     .join('\n');
@@ -546,10 +549,10 @@ export async function generateWorkoutSummary(params: {
         duration,
         exerciseDetails,
         prsAchieved: prsAchieved.length > 0 ? prsAchieved.join(', ') : 'None',
-        totalVolume,
+        totalVolume: toDisplayWeight(totalVolume, settings.units),
         units: settings.units,
         averageRPE: avgRPE || 'Not tracked',
-        previousWeekVolume: previousWeekVolume || 'Unknown',
+        previousWeekVolume: previousWeekVolume ? toDisplayWeight(previousWeekVolume, settings.units) : 'Unknown',
       });
 
       const response = await llmClient.generateText(prompt, { maxTokens: 400 }, 'workout_summary');
@@ -647,6 +650,7 @@ export async function getCoachingResponse(params: {
   history: WorkoutSession[];
   dailyLogs: Record<string, DailyLog>;
   activeWorkout?: WorkoutSession | null;
+  customExercises?: Exercise[];
   useAgent?: boolean;
 }): Promise<AIResponse<string>> {
   const {
@@ -655,6 +659,7 @@ export async function getCoachingResponse(params: {
     history,
     dailyLogs,
     activeWorkout,
+    customExercises,
     useAgent = true,
   } = params;
 
@@ -675,7 +680,8 @@ export async function getCoachingResponse(params: {
       settings,
       history,
       dailyLogs,
-      activeWorkout
+      activeWorkout,
+      customExercises
     );
 
     return {
@@ -778,12 +784,14 @@ export async function generateExerciseVisual(params: {
 export function getAIStatus(): {
   initialized: boolean;
   llmAvailable: boolean;
+  embeddingProvider: string | null; // 'tfjs:...' with the model, 'hashing-...' without
   cacheSize: number;
   usageStats: ReturnType<typeof llmClient.getUsageStats>;
 } {
   return {
     initialized,
     llmAvailable: llmClient.checkAvailability(),
+    embeddingProvider: ragStore.embeddingProviderId,
     cacheSize: aiCache.getStats().size,
     usageStats: llmClient.getUsageStats(),
   };
@@ -9,6 +9,9 @@
  *
  * SECURITY: This client now proxies all AI requests through our backend API
  * to keep API keys secure on the server side.
+ *
+ * LOCAL: When the user configures a local model server (see localLLM.ts), requests
+ * for the 'local' provider - and all requests while offline or over budget - go there.
  */
 
 import {
@@ -19,7 +22,12 @@ import {
   TokenUsage,
   TokenBudget,
   CompiledPrompt,
+  ToolCallingLLM,
+  ToolChatRequest,
+  ToolChatResponse,
 } from './types';
+import { LocalLLMProvider } from './localLLM';
+import { LocalLLMSettings } from '../../types';
 
 // =============================================================================
 // Backend API Configuration
@@ -27,11 +35,13 @@ import {
 
 const API_ENDPOINT = '/api/ai/suggestions';
 
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
 // =============================================================================
 // LLM Client
 // =============================================================================
 
-class LLMClient {
+class LLMClient implements ToolCallingLLM {
   private isAvailable: boolean = true;
   private tokenUsage: TokenUsage[] = [];
   private budget: TokenBudget = {
@@ -41,15 +51,50 @@ class LLMClient {
     currentMonthlyUsage: 0,
   };
 
+  private local: LocalLLMProvider | null = null;
+
   constructor() {
     this.loadUsageFromStorage();
   }
 
   /**
-   * Check if LLM is available (backend API is available)
+   * Check if LLM is available (backend API or a local model server)
    */
   checkAvailability(): boolean {
-    return this.isAvailable;
+    return this.isAvailable || this.local !== null;
+  }
+
+  /**
+   * Use (or stop using) a local OpenAI-compatible model server
+   */
+  configureLocal(settings?: LocalLLMSettings | null): void {
+    this.local = settings?.enabled && settings.baseUrl && settings.model
+      ? new LocalLLMProvider(settings)
+      : null;
+  }
+
+  hasLocalProvider(): boolean {
+    return this.local !== null;
+  }
+
+  /**
+   * Whether any model can be reached right now (cloud needs a connection, local doesn't)
+   */
+  canReachModel(): boolean {
+    return this.local !== null || (isOnline() && this.isAvailable);
+  }
+
+  /**
+   * Provider a request for `requested` will actually be sent to
+   * Falls back to the local model when offline or over the cloud token budget
+   */
+  resolveProvider(requested: LLMProvider): LLMProvider {
+    if (requested === 'local' || !this.local) return requested;
+    return !isOnline() || !this.isWithinBudget() ? 'local' : requested;
+  }
+
+  private localConfig(config: Partial<LLMConfig>): LLMConfig {
+    return { ...DEFAULT_LLM_CONFIG['local'], ...config, provider: 'local' };
   }
 
   /**
@@ -91,7 +136,7 @@ class LLMClient {
   /**
    * Check if within budget
    */
-  private isWithinBudget(): boolean {
+  isWithinBudget(): boolean {
     return (
       this.budget.currentDailyUsage < this.budget.dailyLimit &&
       this.budget.currentMonthlyUsage < this.budget.monthlyLimit
@@ -188,6 +233,14 @@ class LLMClient {
     feature: string = 'unknown'
   ): Promise<AIResponse<string>> {
     const startTime = Date.now();
+
+    if (this.resolveProvider(config.provider || 'gemini-flash') === 'local') {
+      if (!this.local) {
+        return { success: false, error: 'Local LLM not configured', source: 'fallback', latency: 0 };
+      }
+      return this.local.generateText(prompt, this.localConfig(config));
+    }
+
     const effectiveConfig = {
       ...DEFAULT_LLM_CONFIG['gemini-flash'],
       ...config,
@@ -331,6 +384,111 @@ class LLMClient {
     }
   }
 
+  /**
+   * One function-calling turn (via secure backend API)
+   * Returns either tool calls for the caller to execute or the final text
+   */
+  async generateWithTools(
+    request: ToolChatRequest,
+    config: Partial<LLMConfig> = {},
+    feature: string = 'unknown'
+  ): Promise<AIResponse<ToolChatResponse>> {
+    const startTime = Date.now();
+
+    if (this.resolveProvider(config.provider || 'gemini-flash') === 'local') {
+      if (!this.local) {
+        return { success: false, error: 'Local LLM not configured', source: 'fallback', latency: 0 };
+      }
+      return this.local.generateWithTools(request, this.localConfig(config));
+    }
+
+    const effectiveConfig = {
+      ...DEFAULT_LLM_CONFIG['gemini-flash'],
+      ...config,
+    };
+
+    if (!this.isWithinBudget()) {
+      return {
+        success: false,
+        error: 'Token budget exceeded',
+        source: 'fallback',
+        latency: Date.now() - startTime,
+      };
+    }
+
+    const modelName = this.getModelName(effectiveConfig.provider);
+    const inputTokens = Math.ceil(
+      (request.systemPrompt.length + JSON.stringify(request.messages).length + JSON.stringify(request.tools).length) / 4
+    );
+
+    let lastError: Error | null = null;
+    for (let attempt = 0; attempt <= effectiveConfig.retries; attempt++) {
+      try {
+        const response = await Promise.race([
+          fetch(API_ENDPOINT, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              type: 'tool_chat',
+              data: {
+                ...request,
+                maxTokens: effectiveConfig.maxTokens,
+                temperature: effectiveConfig.temperature,
+              },
+            }),
+          }),
+          this.timeout(effectiveConfig.timeout),
+        ]);
+
+        if (!response.ok) {
+          throw new Error(`API error: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.error || 'API request failed');
+        }
+
+        const result: ToolChatResponse = {
+          text: data.result || undefined,
+          toolCalls: data.toolCalls || [],
+        };
+        const outputTokens = Math.ceil(((result.text?.length || 0) + JSON.stringify(result.toolCalls).length) / 4);
+
+        this.trackUsage(inputTokens, outputTokens, modelName, feature);
+
+        return {
+          success: true,
+          data: result,
+          source: 'llm',
+          latency: Date.now() - startTime,
+          tokensUsed: inputTokens + outputTokens,
+          cost: this.estimateCost(inputTokens, outputTokens, effectiveConfig.provider),
+        };
+      } catch (error) {
+        lastError = error as Error;
+        console.warn(
+          `LLM tool call attempt ${attempt + 1} failed:`,
+          lastError.message
+        );
+
+        if (attempt < effectiveConfig.retries) {
+          await this.sleep(Math.pow(2, attempt) * 500);
+        }
+      }
+    }
+
+    return {
+      success: false,
+      error: lastError?.message || 'Unknown error',
+      source: 'fallback',
+      latency: Date.now() - startTime,
+    };
+  }
+
   /**
    * Generate image (currently not supported via backend API)
    * TODO: Add image generation endpoint to backend API if needed
@@ -415,11 +573,18 @@ export type TaskComplexity = 'simple' | 'moderate' | 'complex';
 
 /**
  * Select optimal model based on task
+ * With a local model configured, prefers it when offline or over the cloud budget
  */
 export function selectModel(
   complexity: TaskComplexity,
-  requiresReasoning: boolean = false
+  requiresReasoning: boolean = false,
+  availability: { isOnline?: boolean; withinBudget?: boolean; localAvailable?: boolean } = {}
 ): LLMProvider {
+  const { isOnline = true, withinBudget = true, localAvailable = false } = availability;
+  if (localAvailable && (!isOnline || !withinBudget)) {
+    return 'local';
+  }
+
   // Simple tasks: always use Flash (faster, cheaper)
   if (complexity === 'simple') {
     return 'gemini-flash';
@@ -476,6 +641,8 @@ export function decideOrchestration(params: {
   requiresPersonalization: boolean;
   contextSize: number;
   isOnline: boolean;
+  localLLMAvailable?: boolean; // User has a local model server configured
+  withinBudget?: boolean; // Cloud token budget not exhausted
 }): OrchestrationDecision {
   const {
     feature,
@@ -484,6 +651,8 @@ export function decideOrchestration(params: {
     requiresPersonalization,
     contextSize,
     isOnline,
+    localLLMAvailable = false,
+    withinBudget = true,
   } = params;
 
   // Features that MUST use local (offline-first critical path)
@@ -503,6 +672,16 @@ export function decideOrchestration(params: {
     };
   }
 
+  // Offline or out of cloud budget: a local model can still write the text
+  if ((!isOnline || !withinBudget) && localLLMAvailable && requiresNaturalLanguage) {
+    return {
+      useLocal: hasLocalImplementation,
+      useLLM: true,
+      model: 'local',
+      reasoning: `${isOnline ? 'Over cloud budget' : 'Offline'} - using local LLM`,
+    };
+  }
+
   // No internet = local only
   if (!isOnline) {
     return {
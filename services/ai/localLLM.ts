@@ -0,0 +1,238 @@
+/**
+ * Local LLM Provider
+ *
+ * Talks to an OpenAI-compatible chat completions endpoint running on the user's
+ * device or network (llama.cpp server, Ollama, LM Studio). Used by LLMClient for
+ * the 'local' provider so coaching keeps working offline or over the cloud budget.
+ * Nothing sent here leaves the user's own hardware.
+ */
+
+import {
+  AIResponse,
+  CompiledPrompt,
+  LLMConfig,
+  ToolCall,
+  ToolChatRequest,
+  ToolChatResponse,
+  ToolChatMessage,
+} from './types';
+import { LocalLLMSettings } from '../../types';
+
+// =============================================================================
+// Defaults
+// =============================================================================
+
+export const DEFAULT_LOCAL_LLM_SETTINGS: LocalLLMSettings = {
+  enabled: false,
+  baseUrl: 'http://localhost:11434/v1', // Ollama
+  model: 'llama3.2',
+};
+
+/** Timeout for the health check (model list), not for generation */
+const HEALTH_CHECK_TIMEOUT = 3000;
+
+// =============================================================================
+// OpenAI-compatible wire format
+// =============================================================================
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+function toChatMessages(request: ToolChatRequest): ChatCompletionMessage[] {
+  const messages: ChatCompletionMessage[] = request.systemPrompt
+    ? [{ role: 'system', content: request.systemPrompt }]
+    : [];
+
+  request.messages.forEach((message: ToolChatMessage) => {
+    switch (message.role) {
+      case 'user':
+        messages.push({ role: 'user', content: message.content });
+        break;
+      case 'model':
+        messages.push({
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls?.length
+            ? message.toolCalls.map((call) => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+              }))
+            : undefined,
+        });
+        break;
+      case 'tool':
+        messages.push({ role: 'tool', content: message.content, tool_call_id: message.toolCallId, name: message.name });
+        break;
+    }
+  });
+
+  return messages;
+}
+
+/**
+ * Tool call arguments arrive as a JSON string (OpenAI) or an object (some Ollama versions)
+ */
+function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === 'object') return raw as Record<string, unknown>;
+  if (typeof raw !== 'string' || raw.trim() === '') return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    // Let argument validation report the problem back to the model
+    return { _unparseable: raw };
+  }
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+export class LocalLLMProvider {
+  constructor(private settings: LocalLLMSettings) {}
+
+  get model(): string {
+    return this.settings.model;
+  }
+
+  private get baseUrl(): string {
+    return this.settings.baseUrl.replace(/\/+$/, '');
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.settings.apiKey ? { Authorization: `Bearer ${this.settings.apiKey}` } : {}),
+    };
+  }
+
+  /**
+   * Whether the server is reachable and serves the configured model
+   */
+  async checkHealth(timeout: number = HEALTH_CHECK_TIMEOUT): Promise<{ ok: boolean; error?: string; models?: string[] }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.headers(),
+        signal: AbortSignal.timeout(timeout),
+      });
+      if (!response.ok) {
+        return { ok: false, error: `Server responded ${response.status}` };
+      }
+
+      const data = await response.json();
+      const models: string[] = (data.data || []).map((m: { id: string }) => m.id);
+
+      // Ollama lists "llama3.2:latest" for "llama3.2"
+      const served = models.length === 0 || models.some((id) => id === this.model || id.split(':')[0] === this.model);
+      return served
+        ? { ok: true, models }
+        : { ok: false, models, error: `Model "${this.model}" not found on server` };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Connection failed' };
+    }
+  }
+
+  private async complete(body: Record<string, unknown>, config: LLMConfig): Promise<ChatCompletionMessage> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        stream: false,
+        ...body,
+      }),
+      signal: AbortSignal.timeout(config.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local LLM error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    if (!message) {
+      throw new Error('Local LLM returned no choices');
+    }
+    return message;
+  }
+
+  async generateText(prompt: CompiledPrompt, config: LLMConfig): Promise<AIResponse<string>> {
+    const startTime = Date.now();
+
+    try {
+      const message = await this.complete(
+        {
+          messages: [
+            ...(prompt.systemPrompt ? [{ role: 'system', content: prompt.systemPrompt }] : []),
+            { role: 'user', content: prompt.userPrompt },
+          ],
+        },
+        config
+      );
+
+      const text = message.content || '';
+      return {
+        success: true,
+        data: text,
+        source: 'llm',
+        latency: Date.now() - startTime,
+        tokensUsed: prompt.tokenEstimate + Math.ceil(text.length / 4),
+        cost: 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Local LLM request failed',
+        source: 'fallback',
+        latency: Date.now() - startTime,
+      };
+    }
+  }
+
+  async generateWithTools(request: ToolChatRequest, config: LLMConfig): Promise<AIResponse<ToolChatResponse>> {
+    const startTime = Date.now();
+
+    try {
+      const message = await this.complete(
+        {
+          messages: toChatMessages(request),
+          tools: request.tools.length
+            ? request.tools.map((tool) => ({ type: 'function', function: tool }))
+            : undefined,
+        },
+        config
+      );
+
+      const toolCalls: ToolCall[] = (message.tool_calls || []).map((call, i) => ({
+        id: call.id || `call_${i}`,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      }));
+
+      return {
+        success: true,
+        data: { text: message.content || undefined, toolCalls },
+        source: 'llm',
+        latency: Date.now() - startTime,
+        tokensUsed: Math.ceil((JSON.stringify(request).length + (message.content?.length || 0)) / 4),
+        cost: 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Local LLM request failed',
+        source: 'fallback',
+        latency: Date.now() - startTime,
+      };
+    }
+  }
+}
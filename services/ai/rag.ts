@@ -7,23 +7,34 @@
  * - Fitness knowledge base
  * - Personalized tips based on user data
  *
- * Uses local text-based search (TF-IDF inspired) for offline-first operation.
- * Can be extended with vector embeddings for semantic search.
+ * Hybrid retrieval, fully on-device:
+ * - Keyword: TF-IDF inspired inverted index (always available)
+ * - Semantic: embedding vectors (see embeddings.ts), cached in IndexedDB
+ * Results blend both scores, so exact exercise names still rank well while
+ * paraphrased questions ("my lower back hurts when I hinge") find the right guides.
  */
 
 import { RAGDocument, RAGQuery, RAGResult } from './types';
 import { MuscleGroup } from '../../types';
 import { EXERCISE_LIBRARY } from '../../constants';
+import { EmbeddingProvider, resolveEmbeddingProvider } from './embeddings';
+import { VectorIndex, VectorCache } from './vectorStore';
 // Note: Programs imported when needed to avoid circular dependency
 
 // =============================================================================
 // Document Store
 // =============================================================================
 
-class RAGDocumentStore {
+/** Weight of the vector score in hybrid ranking (keyword gets the rest) */
+export const HYBRID_VECTOR_WEIGHT = 0.7;
+
+export class RAGDocumentStore {
   private documents: Map<string, RAGDocument> = new Map();
   private invertedIndex: Map<string, Set<string>> = new Map(); // term -> docIds
   private initialized: boolean = false;
+  private vectorIndex: VectorIndex | null = null;
+  private vectorIndexing: Promise<void> | null = null;
+  private vectorIndexStale: boolean = false;
 
   /**
    * Initialize the document store with static content
@@ -189,11 +200,28 @@ Sleep + nutrition: Both critical for recovery and adaptation.`,
   }
 
   /**
-   * Add a document to the store
+   * Add a document to the store (replaces any document with the same ID)
    */
   addDocument(doc: RAGDocument): void {
+    if (this.documents.has(doc.id)) {
+      this.unindexDocument(this.documents.get(doc.id)!);
+    }
     this.documents.set(doc.id, doc);
     this.indexDocument(doc);
+    this.vectorIndexStale = true;
+  }
+
+  /**
+   * Remove a document from the store
+   */
+  removeDocument(id: string): boolean {
+    const doc = this.documents.get(id);
+    if (!doc) return false;
+
+    this.unindexDocument(doc);
+    this.documents.delete(id);
+    this.vectorIndexStale = true;
+    return true;
   }
 
   /**
@@ -210,6 +238,15 @@ Sleep + nutrition: Both critical for recovery and adaptation.`,
     });
   }
 
+  private unindexDocument(doc: RAGDocument): void {
+    this.tokenize(doc.content).forEach((term) => {
+      const docIds = this.invertedIndex.get(term);
+      if (!docIds) return;
+      docIds.delete(doc.id);
+      if (docIds.size === 0) this.invertedIndex.delete(term);
+    });
+  }
+
   /**
    * Tokenize text for indexing
    */
@@ -223,10 +260,27 @@ Sleep + nutrition: Both critical for recovery and adaptation.`,
   }
 
   /**
-   * Search documents
+   * Keyword search (TF-IDF)
    */
   search(query: RAGQuery): RAGResult[] {
-    const queryTerms = this.tokenize(query.query);
+    const results: RAGResult[] = [];
+
+    this.keywordScores(query.query).forEach((score, docId) => {
+      const doc = this.documents.get(docId);
+      if (!doc || !this.matchesFilters(doc, query)) return;
+      results.push({ document: doc, score });
+    });
+
+    // Sort by score and return top K
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, query.topK || 5);
+  }
+
+  /**
+   * Keyword scores per document, normalized by query length
+   */
+  private keywordScores(text: string): Map<string, number> {
+    const queryTerms = this.tokenize(text);
     const scores: Map<string, number> = new Map();
 
     // Calculate TF-IDF-like scores
@@ -243,33 +297,90 @@ Sleep + nutrition: Both critical for recovery and adaptation.`,
       });
     });
 
-    // Apply filters
-    let results: RAGResult[] = [];
+    scores.forEach((score, docId) => scores.set(docId, score / queryTerms.length));
+    return scores;
+  }
 
-    scores.forEach((score, docId) => {
-      const doc = this.documents.get(docId);
-      if (!doc) return;
+  private matchesFilters(doc: RAGDocument, query: RAGQuery): boolean {
+    // Personal documents are opt-in per query
+    if (doc.metadata.personal && !query.includePersonal) return false;
 
-      // Type filter
-      if (query.type && doc.type !== query.type) return;
+    // Type filter
+    if (query.type && doc.type !== query.type) return false;
 
-      // Exercise filter
-      if (query.filters?.exerciseId && doc.metadata.exerciseId !== query.filters.exerciseId) {
-        return;
-      }
+    // Exercise filter
+    if (query.filters?.exerciseId && doc.metadata.exerciseId !== query.filters.exerciseId) {
+      return false;
+    }
 
-      // Muscle group filter
-      if (query.filters?.muscleGroup && doc.metadata.muscleGroup !== query.filters.muscleGroup) {
-        return;
-      }
+    // Muscle group filter
+    if (query.filters?.muscleGroup && doc.metadata.muscleGroup !== query.filters.muscleGroup) {
+      return false;
+    }
 
-      results.push({
-        document: doc,
-        score: score / queryTerms.length, // Normalize by query length
-      });
-    });
+    return true;
+  }
+
+  /**
+   * Build (or load from cache) embeddings for every document
+   * Without a provider, uses the on-device model or the hashing fallback
+   */
+  async enableVectorSearch(provider?: EmbeddingProvider, cache?: VectorCache): Promise<void> {
+    if (this.vectorIndexing) return this.vectorIndexing;
+
+    this.vectorIndexing = (async () => {
+      await this.initialize();
+      const resolved = provider || await resolveEmbeddingProvider();
+      const index = new VectorIndex(resolved, cache);
+      this.vectorIndexStale = false;
+      const embedded = await index.sync(Array.from(this.documents.values()));
+      this.vectorIndex = index;
+      console.log(`[RAG] Vector index ready (${resolved.id}, ${embedded} newly embedded)`);
+    })();
+
+    // Allow retrying after a failure
+    this.vectorIndexing.catch(() => { this.vectorIndexing = null; });
+    return this.vectorIndexing;
+  }
+
+  get hasVectorIndex(): boolean {
+    return this.vectorIndex !== null;
+  }
+
+  /** Id of the embedding provider behind the vector index, null until it is built */
+  get embeddingProviderId(): string | null {
+    return this.vectorIndex?.provider.id ?? null;
+  }
+
+  /**
+   * Hybrid search: blends normalized keyword scores with embedding similarity
+   * Falls back to keyword search when the vector index isn't built
+   */
+  async hybridSearch(query: RAGQuery, vectorWeight: number = HYBRID_VECTOR_WEIGHT): Promise<RAGResult[]> {
+    if (!this.vectorIndex) return this.search(query);
+
+    // Documents added since the last build (e.g. user history) need vectors too
+    if (this.vectorIndexStale) {
+      this.vectorIndexStale = false;
+      await this.vectorIndex.sync(Array.from(this.documents.values()));
+    }
+
+    const candidates = Array.from(this.documents.values()).filter((doc) => this.matchesFilters(doc, query));
+    const keyword = this.keywordScores(query.query);
+    const maxKeyword = Math.max(0, ...candidates.map((doc) => keyword.get(doc.id) || 0));
+    const vector = await this.vectorIndex.score(query.query, candidates.map((doc) => doc.id));
+
+    const results: RAGResult[] = candidates
+      .map((doc) => {
+        const keywordScore = maxKeyword > 0 ? (keyword.get(doc.id) || 0) / maxKeyword : 0;
+        const vectorScore = Math.max(0, vector.get(doc.id) || 0);
+        return {
+          document: doc,
+          score: vectorWeight * vectorScore + (1 - vectorWeight) * keywordScore,
+        };
+      })
+      .filter((result) => result.score > 0);
 
-    // Sort by score and return top K
     results.sort((a, b) => b.score - a.score);
     return results.slice(0, query.topK || 5);
   }
@@ -363,7 +474,7 @@ export async function getKnowledgeForTopic(
 ): Promise<string> {
   await ragStore.initialize();
 
-  const results = ragStore.search({
+  const results = await ragStore.hybridSearch({
     query: topic,
     type: 'fitness_knowledge',
     topK: limit,
@@ -414,7 +525,7 @@ export async function getExerciseContext(
 }
 
 /**
- * Semantic search across all documents
+ * Semantic search across all documents (hybrid keyword + vector ranking)
  */
 export async function semanticSearch(
   query: string,
@@ -426,14 +537,22 @@ export async function semanticSearch(
 ): Promise<RAGResult[]> {
   await ragStore.initialize();
 
-  return ragStore.search({
+  const ragQuery: RAGQuery = {
     query,
     type: options.type,
     filters: {
       muscleGroup: options.muscleGroup,
     },
     topK: options.limit || 5,
-  });
+  };
+
+  try {
+    await ragStore.enableVectorSearch();
+    return await ragStore.hybridSearch(ragQuery);
+  } catch (error) {
+    console.warn('[RAG] Vector search unavailable, using keyword search:', error);
+    return ragStore.search(ragQuery);
+  }
 }
 
 // =============================================================================
@@ -442,7 +561,9 @@ export async function semanticSearch(
 
 export const ragStore = new RAGDocumentStore();
 
-// Initialize on import (async)
+// Initialize on import (async); embeddings are built in the background
 if (typeof window !== 'undefined') {
-  ragStore.initialize().catch(console.error);
+  ragStore.initialize()
+    .then(() => ragStore.enableVectorSearch())
+    .catch(console.error);
 }
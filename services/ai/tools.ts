@@ -0,0 +1,307 @@
+/**
+ * Coaching Agent Tools
+ *
+ * Typed tools the LLM can call during the agent loop (see runToolAgent in agent.ts).
+ * Each tool declares JSON-schema arguments, which are validated before the tool runs,
+ * and wraps a local service so answers are grounded in the user's actual data.
+ */
+
+import { ToolDefinition, JSONSchema } from './types';
+import { getSuggestion } from '../progressiveOverload';
+import { getLoadRounding } from '../loadRounding';
+import { analyzeWeakPoints } from '../workoutIntelligence';
+import { forecastPR } from '../prForecasting';
+import { assessInjuryRisk } from '../injuryRisk';
+import { getPeriodizationStatus } from '../periodization';
+import { WorkoutSession, UserSettings, DailyLog, Exercise } from '../../types';
+import { EXERCISE_LIBRARY } from '../../constants';
+import { toDisplayWeight } from '../../utils/conversions';
+import { toAnalysisExperienceLevel } from '../../utils/experienceLevel';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AgentToolContext {
+  settings: UserSettings;
+  history: WorkoutSession[];
+  dailyLogs: Record<string, DailyLog>;
+  customExercises: Exercise[];
+  now: number;
+}
+
+export interface AgentTool extends ToolDefinition {
+  run: (args: Record<string, any>, context: AgentToolContext) => unknown;
+}
+
+// =============================================================================
+// Argument Validation
+// =============================================================================
+
+/**
+ * Validate tool arguments against their schema
+ * @returns list of problems (empty when valid)
+ */
+export function validateToolArguments(schema: JSONSchema, value: unknown, path: string = 'arguments'): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties || {};
+      const errors: string[] = [];
+
+      (schema.required || []).forEach((key) => {
+        if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+      });
+      Object.keys(record).forEach((key) => {
+        if (!properties[key]) {
+          errors.push(`${path}.${key} is not a known argument`);
+        } else if (record[key] !== undefined) {
+          errors.push(...validateToolArguments(properties[key], record[key], `${path}.${key}`));
+        }
+      });
+      return errors;
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      return schema.items
+        ? value.flatMap((item, i) => validateToolArguments(schema.items!, item, `${path}[${i}]`))
+        : [];
+
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of: ${schema.enum.join(', ')}`];
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} must be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} must be <= ${schema.maximum}`];
+      return [];
+    }
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve an exercise from an ID ("e1") or a (partial) name ("bench press")
+ */
+export function resolveExercise(query: string, customExercises: Exercise[] = []): Exercise | undefined {
+  const all = [...EXERCISE_LIBRARY, ...customExercises];
+  const lower = query.trim().toLowerCase();
+
+  return (
+    all.find((e) => e.id === query) ||
+    all.find((e) => e.name.toLowerCase() === lower) ||
+    all.find((e) => e.name.toLowerCase().includes(lower))
+  );
+}
+
+const EXERCISE_ARG: JSONSchema = {
+  type: 'string',
+  description: 'Exercise ID (e.g. "e1") or name (e.g. "Bench Press")',
+};
+
+const completedWorkouts = (history: WorkoutSession[]) => history.filter((w) => w.status === 'completed');
+
+/**
+ * Training frequency, volume trend and consistency over the last N days
+ */
+export function analyzeTrainingHistory(
+  history: WorkoutSession[],
+  settings: UserSettings,
+  days: number = 30,
+  now: number = Date.now()
+) {
+  const completed = completedWorkouts(history);
+  const recent = completed.filter((w) => w.startTime > now - days * DAY_MS);
+
+  // Calculate weekly frequency
+  const weeks = Math.ceil(days / 7);
+  const avgFrequency = recent.length / weeks;
+
+  // Calculate total volume trend
+  const volumes = recent.map((w) =>
+    w.logs.reduce((sum, log) =>
+      sum + log.sets.filter((s) => s.completed).reduce((s, set) => s + set.weight * set.reps, 0), 0
+    )
+  );
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+  // Recent vs previous volume trend
+  const recentAvg = average(volumes.slice(0, Math.floor(volumes.length / 2)));
+  const olderAvg = average(volumes.slice(Math.floor(volumes.length / 2)));
+  const volumeTrend = olderAvg > 0 ? ((recentAvg - olderAvg) / olderAvg) * 100 : 0;
+
+  return {
+    totalWorkouts: completed.length,
+    last30DaysWorkouts: recent.length,
+    avgFrequency: Math.round(avgFrequency * 10) / 10,
+    avgVolume: Math.round(average(volumes)),
+    volumeTrend: Math.round(volumeTrend),
+    consistency: avgFrequency >= settings.goal.targetPerWeek ? 'on_track' : 'below_target',
+  };
+}
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+export const COACHING_TOOLS: AgentTool[] = [
+  {
+    name: 'analyze_history',
+    description: 'Summarize recent training: workouts per week, average volume, volume trend and consistency vs. the weekly goal.',
+    parameters: {
+      type: 'object',
+      properties: {
+        days: { type: 'integer', description: 'How many days back to analyze (default 30)', minimum: 7, maximum: 365 },
+      },
+    },
+    run: (args, { history, settings, now }) => {
+      const days = args.days ?? 30;
+      const { last30DaysWorkouts, avgVolume, ...summary } = analyzeTrainingHistory(history, settings, days, now);
+      return {
+        days,
+        workoutsInPeriod: last30DaysWorkouts,
+        avgVolume: Math.round(toDisplayWeight(avgVolume, settings.units)),
+        units: settings.units,
+        ...summary,
+      };
+    },
+  },
+  {
+    name: 'get_suggestion',
+    description: 'Next-session weight and rep target for an exercise, based on the last time it was trained and today\'s recovery.',
+    parameters: {
+      type: 'object',
+      properties: { exercise: EXERCISE_ARG },
+      required: ['exercise'],
+    },
+    run: (args, { history, dailyLogs, settings, customExercises, now }) => {
+      const exercise = resolveExercise(args.exercise, customExercises);
+      if (!exercise) return { error: `Unknown exercise: ${args.exercise}` };
+
+      const previousLog = completedWorkouts(history)
+        .sort((a, b) => b.startTime - a.startTime)
+        .flatMap((w) => w.logs)
+        .find((l) => l.exerciseId === exercise.id);
+      const today = new Date(now).toISOString().split('T')[0];
+
+      const suggestion = getSuggestion(
+        exercise.id,
+        previousLog,
+        dailyLogs[today],
+        history,
+        now,
+        settings.experienceLevel,
+        settings.suggestionHistory,
+        getLoadRounding(exercise.id, settings, customExercises),
+        settings.e1rmFormula
+      );
+
+      return {
+        exercise: exercise.name,
+        units: settings.units,
+        suggestion: suggestion
+          ? {
+              ...suggestion,
+              weight: toDisplayWeight(suggestion.weight, settings.units),
+              estimated1RM: suggestion.estimated1RM && toDisplayWeight(suggestion.estimated1RM, settings.units),
+            }
+          : 'No previous sets logged - pick a comfortable starting weight',
+      };
+    },
+  },
+  {
+    name: 'analyze_weak_points',
+    description: 'Find undertrained or lagging muscle groups and muscle imbalances from recent volume.',
+    parameters: { type: 'object', properties: {} },
+    run: (_args, { history, settings }) => {
+      const analysis = analyzeWeakPoints(history, toAnalysisExperienceLevel(settings.experienceLevel));
+      return {
+        weakPoints: analysis.weakPoints.slice(0, 3),
+        overallBalance: analysis.overallBalance,
+        priorityAreas: analysis.priorityAreas,
+        recommendations: analysis.recommendations,
+      };
+    },
+  },
+  {
+    name: 'forecast_pr',
+    description: 'Project the estimated 1RM of an exercise forward from its recent progress curve.',
+    parameters: {
+      type: 'object',
+      properties: {
+        exercise: EXERCISE_ARG,
+        weeks: { type: 'integer', description: 'Weeks to project (default 8)', minimum: 1, maximum: 26 },
+      },
+      required: ['exercise'],
+    },
+    run: (args, { history, settings, customExercises }) => {
+      const exercise = resolveExercise(args.exercise, customExercises);
+      if (!exercise) return { error: `Unknown exercise: ${args.exercise}` };
+
+      const forecast = forecastPR(
+        exercise.id,
+        exercise.name,
+        history,
+        toAnalysisExperienceLevel(settings.experienceLevel),
+        args.weeks ?? 8,
+        settings.units,
+        settings.e1rmFormula
+      );
+      if (!forecast) return { exercise: exercise.name, error: 'Not enough sessions to forecast (need 4+)' };
+
+      // The full projection curve is noise for the model
+      const { projectionCurve, ...summary } = forecast;
+      return {
+        ...summary,
+        currentPR: toDisplayWeight(summary.currentPR, settings.units),
+        predictedPR: toDisplayWeight(summary.predictedPR, settings.units),
+        units: settings.units,
+      };
+    },
+  },
+  {
+    name: 'assess_injury_risk',
+    description: 'Check for injury risk signals: RPE creep, volume spikes, sleep debt, rapid progression and short recovery.',
+    parameters: {
+      type: 'object',
+      properties: {
+        weeks: { type: 'integer', description: 'Recent weeks to analyze (default 4)', minimum: 1, maximum: 12 },
+      },
+    },
+    run: (args, { history, dailyLogs }) => assessInjuryRisk(history, Object.values(dailyLogs), args.weeks ?? 4),
+  },
+  {
+    name: 'get_periodization_status',
+    description: 'Current training phase (accumulation, intensification, deload, peaking), weeks into it and when to deload next.',
+    parameters: { type: 'object', properties: {} },
+    run: (_args, { history, dailyLogs, settings }) =>
+      getPeriodizationStatus(history, Object.values(dailyLogs), toAnalysisExperienceLevel(settings.experienceLevel)),
+  },
+];
+
+/**
+ * Schema-only view of the tools (what gets sent to the model)
+ */
+export function toToolDefinitions(tools: AgentTool[]): ToolDefinition[] {
+  return tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
@@ -37,9 +37,9 @@ export const DEFAULT_LLM_CONFIG: Record<LLMProvider, LLMConfig> = {
   },
   'local': {
     provider: 'local',
-    maxTokens: 0, // N/A for local
-    temperature: 0,
-    timeout: 100,
+    maxTokens: 500,
+    temperature: 0.7,
+    timeout: 60000, // On-device inference is slow on phones/laptops
     retries: 0,
   },
 };
@@ -112,7 +112,7 @@ export interface BiomarkerContext {
 
 export interface RAGDocument {
   id: string;
-  type: 'exercise_guide' | 'program_info' | 'fitness_knowledge' | 'form_tip';
+  type: 'exercise_guide' | 'program_info' | 'fitness_knowledge' | 'form_tip' | 'user_history';
   content: string;
   metadata: {
     exerciseId?: string;
@@ -120,6 +120,8 @@ export interface RAGDocument {
     muscleGroup?: MuscleGroup;
     difficulty?: string;
     source?: string;
+    date?: string; // YYYY-MM-DD, for user history documents
+    personal?: boolean; // Built from the user's own data - excluded from search unless requested
   };
   embedding?: number[]; // Vector embedding (if using external vector DB)
 }
@@ -133,6 +135,7 @@ export interface RAGQuery {
     difficulty?: string;
   };
   topK?: number;
+  includePersonal?: boolean; // Include the user's own history documents
 }
 
 export interface RAGResult {
@@ -272,10 +275,12 @@ export type AgentAction =
   | 'check_recovery'
   | 'suggest_exercise'
   | 'explain_program'
-  | 'generate_response';
+  | 'generate_response'
+  | 'call_tool';
 
 export interface AgentStep {
   action: AgentAction;
+  tool?: string; // Tool name for 'call_tool' steps
   input: any;
   output: any;
   reasoning: string;
@@ -294,4 +299,75 @@ export interface AgentResult {
   steps: AgentStep[];
   totalLatency: number;
   totalTokens: number;
+  citations?: AgentCitation[]; // Tool results the answer is based on (tool-calling agent)
+}
+
+/**
+ * A tool result referenced in the final answer as [T1], [T2], ...
+ */
+export interface AgentCitation {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+// =============================================================================
+// Tool Calling Types
+// =============================================================================
+
+/**
+ * JSON-schema subset used for tool arguments (what Gemini function declarations accept)
+ */
+export interface JSONSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  enum?: string[];
+  items?: JSONSchema;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type ToolChatMessage =
+  | { role: 'user'; content: string }
+  | { role: 'model'; content?: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface ToolChatRequest {
+  systemPrompt: string;
+  messages: ToolChatMessage[];
+  tools: ToolDefinition[];
+}
+
+/**
+ * One model turn: either tool calls to execute or a final text answer
+ */
+export interface ToolChatResponse {
+  text?: string;
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Anything that can run a function-calling turn (LLMClient, or a scripted fake in tests)
+ */
+export interface ToolCallingLLM {
+  checkAvailability(): boolean;
+  generateWithTools(
+    request: ToolChatRequest,
+    config?: Partial<LLMConfig>,
+    feature?: string
+  ): Promise<AIResponse<ToolChatResponse>>;
 }
@@ -0,0 +1,291 @@
+/**
+ * User History Documents
+ *
+ * Indexes the user's own training data as RAG documents so the coach can answer
+ * "when did I last bench over 100kg" or "what did I note about my shoulder":
+ * - Completed workouts (sets, workout notes, exercise notes)
+ * - PR history per exercise
+ * - Daily logs (sleep, stress, recovery, bodyweight)
+ *
+ * Documents are marked `personal` and only live in the on-device index. They are
+ * never sent to a cloud LLM unless `llmFeatures.sharePersonalHistory` is enabled.
+ */
+
+import { RAGDocument, RAGResult } from './types';
+import { ragStore, buildRAGContext, RAGDocumentStore } from './rag';
+import {
+  WorkoutSession,
+  ExerciseLog,
+  SetLog,
+  DailyLog,
+  Exercise,
+  ExerciseMetric,
+  ExercisePRHistory,
+  PersonalRecord,
+  UserSettings,
+} from '../../types';
+import { EXERCISE_LIBRARY } from '../../constants';
+import { getExerciseMetric, formatDuration, formatDistance, formatPRValue } from '../setMetrics';
+import { toDisplayWeight, WeightUnit } from '../../utils/conversions';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UserHistoryData {
+  history: WorkoutSession[];
+  personalRecords: Record<string, ExercisePRHistory>;
+  dailyLogs: Record<string, DailyLog>;
+  customExercises?: Exercise[];
+  units: WeightUnit;
+}
+
+/** Where retrieved history is headed - cloud prompts need the user's consent */
+export type HistoryDestination = 'local' | 'cloud';
+
+// =============================================================================
+// Document Builders
+// =============================================================================
+
+const toDateString = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+function getExerciseName(exerciseId: string, customExercises: Exercise[]): string {
+  return (
+    EXERCISE_LIBRARY.find((e) => e.id === exerciseId)?.name ||
+    customExercises.find((e) => e.id === exerciseId)?.name ||
+    exerciseId
+  );
+}
+
+function formatSet(set: SetLog, metric: ExerciseMetric, units: WeightUnit): string {
+  let text: string;
+  switch (metric) {
+    case 'duration':
+      text = formatDuration(set.duration || 0);
+      break;
+    case 'distance_duration':
+      text = `${formatDistance(set.distance || 0)} in ${formatDuration(set.duration || 0)}`;
+      break;
+    case 'weight_distance':
+      text = `${toDisplayWeight(set.weight, units)}${units} for ${formatDistance(set.distance || 0)}`;
+      break;
+    default:
+      text = `${toDisplayWeight(set.weight, units)}${units} x ${set.reps}`;
+  }
+
+  if (set.type === 'W') text += ' (warmup)';
+  if (set.rpe) text += ` @RPE ${set.rpe}`;
+  return text;
+}
+
+function buildExerciseLine(log: ExerciseLog, customExercises: Exercise[], units: WeightUnit): string | null {
+  const metric = getExerciseMetric(log.exerciseId, customExercises);
+  const sets = log.sets.filter((s) => s.completed).map((s) => formatSet(s, metric, units));
+  if (sets.length === 0 && !log.notes) return null;
+
+  const name = getExerciseName(log.exerciseId, customExercises);
+  const line = sets.length > 0 ? `${name}: ${sets.join(', ')}` : `${name}:`;
+  return log.notes ? `${line}\n  Note on ${name}: ${log.notes}` : line;
+}
+
+export function buildWorkoutDocument(
+  session: WorkoutSession,
+  customExercises: Exercise[] = [],
+  units: WeightUnit = 'lbs'
+): RAGDocument {
+  const date = toDateString(session.startTime);
+  const exerciseLines = session.logs
+    .map((log) => buildExerciseLine(log, customExercises, units))
+    .filter((line): line is string => line !== null);
+
+  const parts = [
+    `Workout: ${session.name} on ${date}`,
+    session.notes ? `Workout notes: ${session.notes}` : '',
+    ...exerciseLines,
+  ];
+
+  return {
+    id: `user_workout_${session.id}`,
+    type: 'user_history',
+    content: parts.filter(Boolean).join('\n'),
+    metadata: { date, personal: true, source: 'workout' },
+  };
+}
+
+const PR_LABELS: { key: keyof ExercisePRHistory; label: string }[] = [
+  { key: 'bestWeight', label: 'Heaviest weight' },
+  { key: 'bestVolume', label: 'Best set volume' },
+  { key: 'bestReps', label: 'Most reps' },
+  { key: 'bestDuration', label: 'Longest set' },
+  { key: 'bestDistance', label: 'Longest distance' },
+  { key: 'bestPace', label: 'Fastest pace' },
+];
+
+function describeRecord(record: PersonalRecord, units: WeightUnit): string {
+  let text = formatPRValue(record.type, record.value, units).toLowerCase();
+  if (record.type === 'weight' && record.reps) text += ` x ${record.reps}`;
+  if (record.type === 'reps' && record.weight) text += ` at ${toDisplayWeight(record.weight, units)}${units}`;
+  return `${text} on ${toDateString(record.date)}`;
+}
+
+export function buildPersonalRecordDocument(
+  prHistory: ExercisePRHistory,
+  customExercises: Exercise[] = [],
+  units: WeightUnit = 'lbs'
+): RAGDocument | null {
+  const bests = PR_LABELS
+    .map(({ key, label }) => ({ label, record: prHistory[key] as PersonalRecord | undefined }))
+    .filter((best): best is { label: string; record: PersonalRecord } => best.record !== undefined);
+
+  if (bests.length === 0) return null;
+
+  const name = getExerciseName(prHistory.exerciseId, customExercises);
+  const latest = Math.max(...bests.map(({ record }) => record.date));
+
+  const recent = prHistory.records
+    .slice(0, 5)
+    .map((record) => `- ${record.type} PR: ${describeRecord(record, units)}`);
+
+  return {
+    id: `user_pr_${prHistory.exerciseId}`,
+    type: 'user_history',
+    content: [
+      `Personal records for ${name}:`,
+      ...bests.map(({ label, record }) => `${label}: ${describeRecord(record, units)}`),
+      recent.length ? 'Recent PRs:' : '',
+      ...recent,
+    ]
+      .filter(Boolean)
+      .join('\n'),
+    metadata: {
+      exerciseId: prHistory.exerciseId,
+      date: toDateString(latest),
+      personal: true,
+      source: 'personal_records',
+    },
+  };
+}
+
+export function buildDailyLogDocument(log: DailyLog, units: WeightUnit = 'lbs'): RAGDocument | null {
+  const parts = [
+    log.sleepHours !== undefined ? `Sleep: ${log.sleepHours} hours` : '',
+    log.sleepQuality !== undefined ? `Sleep quality: ${log.sleepQuality}/5` : '',
+    log.stressLevel !== undefined ? `Stress: ${log.stressLevel}/5` : '',
+    log.muscleSoreness !== undefined ? `Muscle soreness: ${log.muscleSoreness}/5` : '',
+    log.perceivedRecovery !== undefined ? `Recovery: ${log.perceivedRecovery}/5` : '',
+    log.perceivedEnergy !== undefined ? `Energy: ${log.perceivedEnergy}/5` : '',
+    log.bodyweight !== undefined ? `Bodyweight: ${toDisplayWeight(log.bodyweight, units)}${units}` : '',
+    log.proteinGrams !== undefined ? `Protein: ${log.proteinGrams}g` : '',
+    log.waterLitres !== undefined ? `Water: ${log.waterLitres}L` : '',
+    log.hrv !== undefined ? `HRV: ${log.hrv}ms` : '',
+    log.restingHR !== undefined ? `Resting heart rate: ${log.restingHR}bpm` : '',
+    log.workoutDifficulty !== undefined ? `Workout difficulty: ${log.workoutDifficulty}/5` : '',
+    log.hadPainOrDiscomfort ? 'Reported pain or discomfort during workout' : '',
+  ].filter(Boolean);
+
+  if (parts.length === 0) return null;
+
+  return {
+    id: `user_daily_${log.date}`,
+    type: 'user_history',
+    content: [`Daily log for ${log.date}`, ...parts].join('\n'),
+    metadata: { date: log.date, personal: true, source: 'daily_log' },
+  };
+}
+
+// =============================================================================
+// Indexing
+// =============================================================================
+
+/**
+ * Rebuild every user history document (app start, imports, restores)
+ */
+export function indexUserHistory(data: UserHistoryData, store: RAGDocumentStore = ragStore): number {
+  clearUserHistory(store);
+
+  const customExercises = data.customExercises || [];
+  const docs: (RAGDocument | null)[] = [
+    ...data.history
+      .filter((session) => session.status === 'completed')
+      .map((session) => buildWorkoutDocument(session, customExercises, data.units)),
+    ...Object.values(data.personalRecords).map((prs) => buildPersonalRecordDocument(prs, customExercises, data.units)),
+    ...Object.values(data.dailyLogs).map((log) => buildDailyLogDocument(log, data.units)),
+  ];
+
+  let count = 0;
+  docs.forEach((doc) => {
+    if (!doc) return;
+    store.addDocument(doc);
+    count++;
+  });
+  return count;
+}
+
+/**
+ * Index a just-finished workout and refresh the PR documents of its exercises
+ */
+export function indexWorkoutSession(
+  session: WorkoutSession,
+  data: Pick<UserHistoryData, 'personalRecords' | 'customExercises' | 'units'>,
+  store: RAGDocumentStore = ragStore
+): void {
+  const customExercises = data.customExercises || [];
+  store.addDocument(buildWorkoutDocument(session, customExercises, data.units));
+
+  new Set(session.logs.map((log) => log.exerciseId)).forEach((exerciseId) => {
+    const prs = data.personalRecords[exerciseId];
+    const doc = prs ? buildPersonalRecordDocument(prs, customExercises, data.units) : null;
+    if (doc) store.addDocument(doc);
+  });
+}
+
+export function indexDailyLog(log: DailyLog, units: WeightUnit, store: RAGDocumentStore = ragStore): void {
+  const doc = buildDailyLogDocument(log, units);
+  if (doc) {
+    store.addDocument(doc);
+  } else {
+    store.removeDocument(`user_daily_${log.date}`);
+  }
+}
+
+export function clearUserHistory(store: RAGDocumentStore = ragStore): void {
+  store.getDocumentsByType('user_history').forEach((doc) => store.removeDocument(doc.id));
+}
+
+// =============================================================================
+// Retrieval
+// =============================================================================
+
+/**
+ * Whether personal history may be included in a prompt sent to the given destination
+ */
+export function canUsePersonalHistory(settings: UserSettings, destination: HistoryDestination): boolean {
+  return destination === 'local' || settings.llmFeatures?.sharePersonalHistory === true;
+}
+
+/** Hybrid score below which a history document is treated as unrelated to the query */
+const MIN_HISTORY_SCORE = 0.3;
+
+export async function searchUserHistory(
+  query: string,
+  limit: number = 3,
+  store: RAGDocumentStore = ragStore
+): Promise<RAGResult[]> {
+  const results = await store.hybridSearch({ query, type: 'user_history', includePersonal: true, topK: limit });
+  return results.filter((result) => result.score >= MIN_HISTORY_SCORE);
+}
+
+/**
+ * Relevant history as prompt context, or '' when the destination isn't allowed to see it
+ */
+export async function getUserHistoryContext(
+  query: string,
+  settings: UserSettings,
+  destination: HistoryDestination,
+  limit: number = 3
+): Promise<string> {
+  if (!canUsePersonalHistory(settings, destination)) return '';
+
+  const results = await searchUserHistory(query, limit);
+  return buildRAGContext(results, 400);
+}
@@ -0,0 +1,209 @@
+/**
+ * RAG Vector Index
+ *
+ * Holds document embeddings for semantic search and persists them in IndexedDB
+ * so the corpus is only embedded once per provider. Entries are keyed by
+ * provider + document id and invalidated when the document content changes.
+ */
+
+import { EmbeddingProvider, cosineSimilarity, hashString } from './embeddings';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface StoredEmbedding {
+  key: string; // `${providerId}:${docId}`
+  providerId: string;
+  docId: string;
+  contentHash: string;
+  vector: number[];
+}
+
+/**
+ * Persistence backend for embeddings (IndexedDB in the browser, memory in tests)
+ */
+export interface VectorCache {
+  load(providerId: string): Promise<StoredEmbedding[]>;
+  save(entries: StoredEmbedding[]): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+const DB_NAME = 'VoltLiftRAG';
+const STORE_NAME = 'embeddings';
+const DB_VERSION = 1;
+
+function openVectorDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('providerId', 'providerId');
+      }
+    };
+  });
+}
+
+export const indexedDBVectorCache: VectorCache = {
+  async load(providerId) {
+    const db = await openVectorDB();
+    return new Promise((resolve, reject) => {
+      const request = db
+        .transaction(STORE_NAME, 'readonly')
+        .objectStore(STORE_NAME)
+        .index('providerId')
+        .getAll(providerId);
+      request.onsuccess = () => resolve(request.result as StoredEmbedding[]);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  async save(entries) {
+    if (entries.length === 0) return;
+    const db = await openVectorDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      entries.forEach((entry) => store.put(entry));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async remove(keys) {
+    if (keys.length === 0) return;
+    const db = await openVectorDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      keys.forEach((key) => store.delete(key));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+};
+
+export function createMemoryVectorCache(): VectorCache {
+  const entries = new Map<string, StoredEmbedding>();
+  return {
+    load: async (providerId) => Array.from(entries.values()).filter((e) => e.providerId === providerId),
+    save: async (saved) => saved.forEach((entry) => entries.set(entry.key, entry)),
+    remove: async (keys) => keys.forEach((key) => entries.delete(key)),
+  };
+}
+
+/**
+ * IndexedDB when available (browser), otherwise in-memory
+ */
+export function getDefaultVectorCache(): VectorCache {
+  return typeof indexedDB !== 'undefined' ? indexedDBVectorCache : createMemoryVectorCache();
+}
+
+// =============================================================================
+// Index
+// =============================================================================
+
+/**
+ * Hash of document content, used to detect stale embeddings
+ */
+export function hashContent(content: string): string {
+  return hashString(content).toString(36) + content.length.toString(36);
+}
+
+export class VectorIndex {
+  private vectors: Map<string, number[]> = new Map();
+
+  constructor(
+    readonly provider: EmbeddingProvider,
+    private cache: VectorCache = getDefaultVectorCache()
+  ) {}
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  has(docId: string): boolean {
+    return this.vectors.has(docId);
+  }
+
+  /**
+   * Bring the index in line with the given documents
+   * Reuses cached vectors, embeds new/changed documents and drops removed ones
+   * @returns number of documents that had to be embedded
+   */
+  async sync(documents: { id: string; content: string }[]): Promise<number> {
+    const providerId = this.provider.id;
+    let cached: StoredEmbedding[] = [];
+    try {
+      cached = await this.cache.load(providerId);
+    } catch (error) {
+      console.warn('[RAG] Failed to load cached embeddings:', error);
+    }
+
+    const cachedById = new Map(cached.map((entry) => [entry.docId, entry]));
+    const currentIds = new Set(documents.map((doc) => doc.id));
+    const toEmbed: { id: string; content: string; contentHash: string }[] = [];
+
+    this.vectors.clear();
+    documents.forEach((doc) => {
+      const contentHash = hashContent(doc.content);
+      const entry = cachedById.get(doc.id);
+      if (entry && entry.contentHash === contentHash && entry.vector.length === this.provider.dimensions) {
+        this.vectors.set(doc.id, entry.vector);
+      } else {
+        toEmbed.push({ ...doc, contentHash });
+      }
+    });
+
+    if (toEmbed.length > 0) {
+      const vectors = await this.provider.embed(toEmbed.map((doc) => doc.content));
+      const entries = toEmbed.map((doc, i) => {
+        this.vectors.set(doc.id, vectors[i]);
+        return {
+          key: `${providerId}:${doc.id}`,
+          providerId,
+          docId: doc.id,
+          contentHash: doc.contentHash,
+          vector: vectors[i],
+        };
+      });
+
+      try {
+        await this.cache.save(entries);
+      } catch (error) {
+        console.warn('[RAG] Failed to persist embeddings:', error);
+      }
+    }
+
+    const stale = cached.filter((entry) => !currentIds.has(entry.docId)).map((entry) => entry.key);
+    if (stale.length > 0) {
+      await this.cache.remove(stale).catch((error) => console.warn('[RAG] Failed to prune embeddings:', error));
+    }
+
+    return toEmbed.length;
+  }
+
+  /**
+   * Cosine similarity of the query against each candidate document
+   */
+  async score(query: string, docIds: string[]): Promise<Map<string, number>> {
+    const [queryVector] = await this.provider.embed([query]);
+    const scores = new Map<string, number>();
+
+    docIds.forEach((docId) => {
+      const vector = this.vectors.get(docId);
+      if (vector) scores.set(docId, cosineSimilarity(queryVector, vector));
+    });
+
+    return scores;
+  }
+}
@@ -6,9 +6,10 @@
  * Also tracks AI suggestion acceptance rates for continuous improvement.
  */
 
-import { WorkoutSession, ExerciseLog, DailyLog, MuscleGroup, SuggestionFeedback } from '../types';
+import { WorkoutSession, ExerciseLog, DailyLog, MuscleGroup, SuggestionFeedback, E1RMFormula } from '../types';
 import { EXERCISE_LIBRARY } from '../constants';
-import { estimate1RM } from './progressiveOverload';
+import { estimateSuggestion1RM } from './strengthEstimation';
+import { fromDisplayWeight, toDisplayWeight } from '../utils/conversions';
 
 /**
  * Single data point in a performance time series
@@ -51,12 +52,14 @@ export interface VolumePoint {
  * @param exerciseId - Exercise to analyze
  * @param history - All completed workouts
  * @param weeksBack - How many weeks of history to include (0 = all time)
+ * @param formula - 1RM formula for estimated1RM (default 'auto')
  * @returns Time series of performance data points
  */
 export function extractExerciseTimeSeries(
   exerciseId: string,
   history: WorkoutSession[],
-  weeksBack: number = 0
+  weeksBack: number = 0,
+  formula: E1RMFormula = 'auto'
 ): ExerciseTimeSeries {
   const exercise = EXERCISE_LIBRARY.find(e => e.id === exerciseId);
   const cutoffDate = weeksBack > 0
@@ -95,7 +98,7 @@ export function extractExerciseTimeSeries(
       weight: topSet.weight,
       reps: topSet.reps,
       volume: totalVolume,
-      estimated1RM: estimate1RM(topSet.weight, topSet.reps),
+      estimated1RM: estimateSuggestion1RM(topSet, formula).estimated1RM,
       rpe: topSet.rpe,
       sets: completedSets.length
     });
@@ -389,7 +392,7 @@ export function detectPlateau(
   let weeksSincePR = 0;
   for (let i = timeSeries.dataPoints.length - 1; i >= 0; i--) {
     const point = timeSeries.dataPoints[i];
-    if (point.estimated1RM >= currentPR - 5) {
+    if (point.estimated1RM >= currentPR - fromDisplayWeight(5, 'lbs')) {
       weeksSincePR = Math.floor((Date.now() - point.date) / (7 * 24 * 60 * 60 * 1000));
       break;
     }
@@ -399,15 +402,17 @@ export function detectPlateau(
   // 1. Slope near zero (< 0.5lbs/week gain)
   // 2. No PR in 4+ weeks
   // 3. Good data fit (R² > 0.3)
-  const isPlateaued = slopePerWeek < 0.5 && weeksSincePR >= 4 && r2Score > 0.3;
+  const minSlope = fromDisplayWeight(0.5, 'lbs');
+  const isPlateaued = slopePerWeek < minSlope && weeksSincePR >= 4 && r2Score > 0.3;
 
+  const rate = toDisplayWeight(slopePerWeek, 'lbs').toFixed(1);
   let reasoning = '';
   if (isPlateaued) {
-    reasoning = `No PR in ${weeksSincePR} weeks. Progress rate ${slopePerWeek.toFixed(1)}lbs/week (expected >0.5). Consider deload or variation.`;
-  } else if (slopePerWeek >= 0.5) {
-    reasoning = `Progressing well at ${slopePerWeek.toFixed(1)}lbs/week. Keep current program.`;
+    reasoning = `No PR in ${weeksSincePR} weeks. Progress rate ${rate}lbs/week (expected >0.5). Consider deload or variation.`;
+  } else if (slopePerWeek >= minSlope) {
+    reasoning = `Progressing well at ${rate}lbs/week. Keep current program.`;
   } else {
-    reasoning = `Recent progress slow (${slopePerWeek.toFixed(1)}lbs/week) but need more data to confirm plateau.`;
+    reasoning = `Recent progress slow (${rate}lbs/week) but need more data to confirm plateau.`;
   }
 
   return {
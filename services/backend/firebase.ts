@@ -44,7 +44,19 @@ import {
 } from 'firebase/storage';
 
 import type { BackendService, BackendUser, AuthResult, BackendConfig } from './types';
-import type { WorkoutSession, UserSettings, DailyLog, Program } from '../../types';
+import type {
+  WorkoutSession,
+  UserSettings,
+  DailyLog,
+  Program,
+  SyncTombstone,
+  CoachInvite,
+  CoachLink,
+  ProgramAssignment,
+  ProgramAssignmentStatus,
+  SetComment,
+} from '../../types';
+import { createInviteCode, getCoachLinkId } from '../coaching';
 
 /**
  * Firebase backend implementation
@@ -434,6 +446,11 @@ export class FirebaseBackend implements BackendService {
       const docRef = doc(this.db, 'dailyLogs', `${userId}_${date}`);
       await setDoc(docRef, { userId, date, log }, { merge: true });
     },
+
+    delete: async (date: string): Promise<void> => {
+      const userId = this.getUserId();
+      await deleteDoc(doc(this.db, 'dailyLogs', `${userId}_${date}`));
+    },
   };
 
   /**
@@ -475,6 +492,192 @@ export class FirebaseBackend implements BackendService {
     },
   };
 
+  /**
+   * Tombstones (deletion markers for cross-device sync)
+   */
+  tombstones = {
+    getAll: async (): Promise<SyncTombstone[]> => {
+      const userId = this.getUserId();
+      const q = query(
+        collection(this.db, 'tombstones'),
+        where('userId', '==', userId)
+      );
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(doc => doc.data() as SyncTombstone);
+    },
+
+    save: async (tombstone: SyncTombstone): Promise<void> => {
+      const userId = this.getUserId();
+      const docRef = doc(this.db, 'tombstones', `${userId}_${tombstone.id}`);
+      await setDoc(docRef, {
+        userId,
+        id: tombstone.id,
+        kind: tombstone.kind,
+        recordId: tombstone.recordId,
+        deletedAt: tombstone.deletedAt,
+      });
+    },
+
+    delete: async (id: string): Promise<void> => {
+      const userId = this.getUserId();
+      await deleteDoc(doc(this.db, 'tombstones', `${userId}_${id}`));
+    },
+  };
+
+  /**
+   * Coaching (links, program assignments, set comments)
+   * Access for linked coaches is enforced by firestore.rules through the
+   * coachLinks/{coachId}_{athleteId} document.
+   */
+  coaching = {
+    createInvite: async (): Promise<CoachInvite> => {
+      const coachId = this.getUserId();
+      const invite: CoachInvite = {
+        code: createInviteCode(),
+        coachId,
+        coachName: this.currentUser?.name || '',
+        createdAt: Date.now(),
+      };
+      await setDoc(doc(this.db, 'coachInvites', invite.code), invite);
+      return invite;
+    },
+
+    acceptInvite: async (code: string): Promise<CoachLink> => {
+      const athleteId = this.getUserId();
+      const snapshot = await getDoc(doc(this.db, 'coachInvites', code));
+      if (!snapshot.exists()) {
+        throw new Error('Invite not found. Ask your coach for a new code.');
+      }
+
+      const invite = snapshot.data() as CoachInvite;
+      if (invite.coachId === athleteId) {
+        throw new Error('You cannot coach yourself.');
+      }
+
+      const link: CoachLink = {
+        id: getCoachLinkId(invite.coachId, athleteId),
+        coachId: invite.coachId,
+        coachName: invite.coachName,
+        athleteId,
+        athleteName: this.currentUser?.name || '',
+        createdAt: Date.now(),
+      };
+      // The rules check inviteCode against the invite before allowing the link
+      await setDoc(doc(this.db, 'coachLinks', link.id), { ...link, inviteCode: code });
+      return link;
+    },
+
+    getLinks: async (): Promise<CoachLink[]> => {
+      const userId = this.getUserId();
+      const [asCoach, asAthlete] = await Promise.all([
+        getDocs(query(collection(this.db, 'coachLinks'), where('coachId', '==', userId))),
+        getDocs(query(collection(this.db, 'coachLinks'), where('athleteId', '==', userId))),
+      ]);
+      return [...asCoach.docs, ...asAthlete.docs].map(doc => {
+        const { inviteCode, ...link } = doc.data();
+        return { ...link, id: doc.id } as CoachLink;
+      });
+    },
+
+    unlink: async (linkId: string): Promise<void> => {
+      await deleteDoc(doc(this.db, 'coachLinks', linkId));
+    },
+
+    getAthleteHistory: async (athleteId: string): Promise<WorkoutSession[]> => {
+      const q = query(
+        collection(this.db, 'workouts'),
+        where('userId', '==', athleteId),
+        where('status', '==', 'completed')
+      );
+      const snapshot = await getDocs(q);
+      // Sorted here: ordering by startTime in the query needs a composite index
+      return snapshot.docs
+        .map(doc => {
+          const { userId, ...workout } = doc.data();
+          return { ...workout, id: doc.id } as WorkoutSession;
+        })
+        .sort((a, b) => b.startTime - a.startTime);
+    },
+
+    getAthleteDailyLogs: async (athleteId: string): Promise<Record<string, DailyLog>> => {
+      const q = query(
+        collection(this.db, 'dailyLogs'),
+        where('userId', '==', athleteId)
+      );
+      const snapshot = await getDocs(q);
+      const logs: Record<string, DailyLog> = {};
+      snapshot.docs.forEach(doc => {
+        const data = doc.data();
+        logs[data.date] = data.log as DailyLog;
+      });
+      return logs;
+    },
+
+    assignProgram: async (athleteId: string, programName: string, payload: string): Promise<ProgramAssignment> => {
+      const coachId = this.getUserId();
+      const docRef = doc(collection(this.db, 'programAssignments'));
+      const assignment: ProgramAssignment = {
+        id: docRef.id,
+        coachId,
+        coachName: this.currentUser?.name || '',
+        athleteId,
+        programName,
+        payload,
+        status: 'pending',
+        assignedAt: Date.now(),
+      };
+      await setDoc(docRef, assignment);
+      return assignment;
+    },
+
+    getAssignments: async (): Promise<ProgramAssignment[]> => {
+      const userId = this.getUserId();
+      const [sent, received] = await Promise.all([
+        getDocs(query(collection(this.db, 'programAssignments'), where('coachId', '==', userId))),
+        getDocs(query(collection(this.db, 'programAssignments'), where('athleteId', '==', userId))),
+      ]);
+      return [...sent.docs, ...received.docs]
+        .map(doc => ({ ...doc.data(), id: doc.id } as ProgramAssignment))
+        .sort((a, b) => b.assignedAt - a.assignedAt);
+    },
+
+    updateAssignment: async (id: string, status: ProgramAssignmentStatus): Promise<void> => {
+      await updateDoc(doc(this.db, 'programAssignments', id), { status });
+    },
+
+    getComments: async (athleteId: string, workoutId: string): Promise<SetComment[]> => {
+      const q = query(
+        collection(this.db, 'setComments'),
+        where('athleteId', '==', athleteId),
+        where('workoutId', '==', workoutId)
+      );
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as SetComment));
+    },
+
+    addComment: async (
+      comment: Pick<SetComment, 'athleteId' | 'workoutId' | 'logId' | 'setId' | 'text'>
+    ): Promise<SetComment> => {
+      const authorId = this.getUserId();
+      const docRef = doc(collection(this.db, 'setComments'));
+      const data: SetComment = {
+        ...comment,
+        id: docRef.id,
+        authorId,
+        authorName: this.currentUser?.name || '',
+        createdAt: Date.now(),
+      };
+      // Firestore rejects undefined fields
+      if (data.setId === undefined) delete data.setId;
+      await setDoc(docRef, data);
+      return data;
+    },
+
+    deleteComment: async (id: string): Promise<void> => {
+      await deleteDoc(doc(this.db, 'setComments', id));
+    },
+  };
+
   /**
    * Storage (for exercise images)
    */
@@ -1,20 +1,39 @@
 import PocketBase from 'pocketbase';
 import type { RecordModel } from 'pocketbase';
 import type { BackendService, BackendUser, AuthResult, BackendConfig } from './types';
-import type { WorkoutSession, UserSettings, DailyLog, Program, ExerciseLog } from '../../types';
+import type {
+  WorkoutSession,
+  UserSettings,
+  DailyLog,
+  Program,
+  ExerciseLog,
+  WorkoutBlock,
+  SyncTombstone,
+  CoachInvite,
+  CoachLink,
+  ProgramAssignment,
+  ProgramAssignmentStatus,
+  SetComment,
+} from '../../types';
+import { createInviteCode, getCoachLinkId } from '../coaching';
 
 /**
  * PocketBase record types
  */
 interface PBWorkout extends RecordModel {
   user: string;
+  clientId?: string; // App-side workout id (PocketBase ids are server-generated)
   name: string;
   startTime: number;
   endTime?: number;
   status: 'active' | 'completed' | 'template';
   sourceTemplateId?: string;
+  gymProfileId?: string;
   logs: ExerciseLog[];
+  blocks?: WorkoutBlock[];
   biometrics?: { timestamp: number; heartRate: number }[];
+  notes?: string;
+  updatedAt?: number;
 }
 
 interface PBUserSettings extends RecordModel {
@@ -28,11 +47,54 @@ interface PBDailyLog extends RecordModel {
   data: DailyLog;
 }
 
+interface PBTombstone extends RecordModel {
+  user: string;
+  tombstoneId: string;
+  kind: SyncTombstone['kind'];
+  recordId: string;
+  deletedAt: number;
+}
+
 interface PBProgram extends RecordModel {
   user: string;
+  clientId?: string; // App-side program id
   program: Program;
 }
 
+interface PBCoachInvite extends RecordModel {
+  coach: string; // Record id is the invite code
+  coachName: string;
+}
+
+interface PBCoachLink extends RecordModel {
+  coach: string;
+  athlete: string;
+  coachName: string;
+  athleteName: string;
+  inviteCode: string;
+}
+
+interface PBProgramAssignment extends RecordModel {
+  coach: string;
+  athlete: string;
+  coachName: string;
+  programName: string;
+  payload: string;
+  status: ProgramAssignmentStatus;
+  assignedAt: number;
+}
+
+interface PBSetComment extends RecordModel {
+  athlete: string;
+  author: string;
+  authorName: string;
+  workoutId: string;
+  logId: string;
+  setId?: string;
+  text: string;
+  createdAt: number;
+}
+
 /**
  * PocketBase backend implementation
  */
@@ -77,6 +139,17 @@ export class PocketBaseBackend implements BackendService {
     return userId;
   }
 
+  /**
+   * Find the PocketBase record backing an app-side id (clientId, falling back to record id)
+   */
+  private async findRecord<T extends RecordModel>(collectionName: string, id: string): Promise<T | null> {
+    const userId = this.getUserId();
+    const records = await this.pb.collection(collectionName).getFullList<T>({
+      filter: `user = "${userId}" && (clientId = "${id}" || id = "${id}")`,
+    });
+    return records[0] || null;
+  }
+
   /**
    * Authentication
    */
@@ -151,7 +224,7 @@ export class PocketBaseBackend implements BackendService {
         sort: '-startTime',
         filter: `user = "${userId}"`,
       });
-      return records.map(this.toWorkoutSession);
+      return records.map(this.workouts.toWorkoutSession);
     },
 
     getTemplates: async (): Promise<WorkoutSession[]> => {
@@ -159,7 +232,7 @@ export class PocketBaseBackend implements BackendService {
       const records = await this.pb.collection('workouts').getFullList<PBWorkout>({
         filter: `user = "${userId}" && status = "template"`,
       });
-      return records.map(this.toWorkoutSession);
+      return records.map(this.workouts.toWorkoutSession);
     },
 
     getHistory: async (): Promise<WorkoutSession[]> => {
@@ -168,38 +241,56 @@ export class PocketBaseBackend implements BackendService {
         sort: '-startTime',
         filter: `user = "${userId}" && status = "completed"`,
       });
-      return records.map(this.toWorkoutSession);
+      return records.map(this.workouts.toWorkoutSession);
     },
 
     create: async (workout: WorkoutSession): Promise<WorkoutSession> => {
       const userId = this.getUserId();
-      const record = await this.pb.collection('workouts').create<PBWorkout>({
+      const data = {
         user: userId,
+        clientId: workout.id,
         name: workout.name,
         startTime: workout.startTime,
         endTime: workout.endTime,
         status: workout.status,
         sourceTemplateId: workout.sourceTemplateId,
+        gymProfileId: workout.gymProfileId,
         logs: workout.logs,
+        blocks: workout.blocks,
         biometrics: workout.biometrics,
-      });
-      return this.toWorkoutSession(record);
+        notes: workout.notes,
+        updatedAt: workout.updatedAt,
+      };
+
+      // Upsert on clientId so repeated syncs don't create duplicates
+      const existing = workout.id ? await this.findRecord<PBWorkout>('workouts', workout.id) : null;
+      const record = existing
+        ? await this.pb.collection('workouts').update<PBWorkout>(existing.id, data)
+        : await this.pb.collection('workouts').create<PBWorkout>(data);
+      return this.workouts.toWorkoutSession(record);
     },
 
     update: async (id: string, workout: Partial<WorkoutSession>): Promise<WorkoutSession> => {
-      const record = await this.pb.collection('workouts').update<PBWorkout>(id, {
+      const existing = await this.findRecord<PBWorkout>('workouts', id);
+      const record = await this.pb.collection('workouts').update<PBWorkout>(existing?.id || id, {
         name: workout.name,
         startTime: workout.startTime,
         endTime: workout.endTime,
         status: workout.status,
+        gymProfileId: workout.gymProfileId,
         logs: workout.logs,
+        blocks: workout.blocks,
         biometrics: workout.biometrics,
+        notes: workout.notes,
+        updatedAt: workout.updatedAt,
       });
-      return this.toWorkoutSession(record);
+      return this.workouts.toWorkoutSession(record);
     },
 
     delete: async (id: string): Promise<void> => {
-      await this.pb.collection('workouts').delete(id);
+      const existing = await this.findRecord<PBWorkout>('workouts', id);
+      if (!existing) return; // Never synced or already deleted
+      await this.pb.collection('workouts').delete(existing.id);
     },
 
     subscribe: (callback: (action: 'create' | 'update' | 'delete', record: WorkoutSession) => void): (() => void) => {
@@ -208,7 +299,7 @@ export class PocketBaseBackend implements BackendService {
       this.pb.collection('workouts').subscribe<PBWorkout>('*', (e) => {
         if (e.record.user === userId) {
           const action = e.action as 'create' | 'update' | 'delete';
-          callback(action, this.toWorkoutSession(e.record));
+          callback(action, this.workouts.toWorkoutSession(e.record));
         }
       });
 
@@ -219,14 +310,19 @@ export class PocketBaseBackend implements BackendService {
 
     toWorkoutSession: (record: PBWorkout): WorkoutSession => {
       return {
-        id: record.id,
+        id: record.clientId || record.id,
         name: record.name,
         startTime: record.startTime,
         endTime: record.endTime,
         status: record.status,
         sourceTemplateId: record.sourceTemplateId,
+        // Empty text fields come back as ""
+        ...(record.gymProfileId && { gymProfileId: record.gymProfileId }),
         logs: record.logs || [],
+        ...(record.blocks && { blocks: record.blocks }),
         biometrics: record.biometrics,
+        notes: record.notes,
+        updatedAt: record.updatedAt,
       };
     },
   };
@@ -296,6 +392,17 @@ export class PocketBaseBackend implements BackendService {
         });
       }
     },
+
+    delete: async (date: string): Promise<void> => {
+      const userId = this.getUserId();
+      const existing = await this.pb.collection('daily_logs').getFullList<PBDailyLog>({
+        filter: `user = "${userId}" && date = "${date}"`,
+      });
+
+      if (existing.length > 0) {
+        await this.pb.collection('daily_logs').delete(existing[0].id);
+      }
+    },
   };
 
   /**
@@ -307,28 +414,256 @@ export class PocketBaseBackend implements BackendService {
       const records = await this.pb.collection('programs').getFullList<PBProgram>({
         filter: `user = "${userId}"`,
       });
-      return records.map(r => ({ ...r.program, id: r.id }));
+      return records.map(r => ({ ...r.program, id: r.clientId || r.id }));
     },
 
     create: async (program: Program): Promise<Program> => {
       const userId = this.getUserId();
-      const record = await this.pb.collection('programs').create<PBProgram>({
-        user: userId,
-        program,
-      });
-      return { ...record.program, id: record.id };
+      const existing = program.id ? await this.findRecord<PBProgram>('programs', program.id) : null;
+      const record = existing
+        ? await this.pb.collection('programs').update<PBProgram>(existing.id, { program })
+        : await this.pb.collection('programs').create<PBProgram>({
+            user: userId,
+            clientId: program.id,
+            program,
+          });
+      return { ...record.program, id: record.clientId || record.id };
     },
 
     update: async (id: string, program: Partial<Program>): Promise<Program> => {
-      const record = await this.pb.collection('programs').update<PBProgram>(id, { program });
-      return { ...record.program, id: record.id };
+      const existing = await this.findRecord<PBProgram>('programs', id);
+      const record = await this.pb.collection('programs').update<PBProgram>(existing?.id || id, {
+        program: existing ? { ...existing.program, ...program } : program,
+      });
+      return { ...record.program, id: record.clientId || record.id };
     },
 
     delete: async (id: string): Promise<void> => {
-      await this.pb.collection('programs').delete(id);
+      const existing = await this.findRecord<PBProgram>('programs', id);
+      if (!existing) return; // Never synced or already deleted
+      await this.pb.collection('programs').delete(existing.id);
     },
   };
 
+  /**
+   * Tombstones (deletion markers for cross-device sync)
+   */
+  tombstones = {
+    getAll: async (): Promise<SyncTombstone[]> => {
+      const userId = this.getUserId();
+      const records = await this.pb.collection('tombstones').getFullList<PBTombstone>({
+        filter: `user = "${userId}"`,
+      });
+      return records.map(r => ({
+        id: r.tombstoneId,
+        kind: r.kind,
+        recordId: r.recordId,
+        deletedAt: r.deletedAt,
+      }));
+    },
+
+    save: async (tombstone: SyncTombstone): Promise<void> => {
+      const userId = this.getUserId();
+      const data = {
+        user: userId,
+        tombstoneId: tombstone.id,
+        kind: tombstone.kind,
+        recordId: tombstone.recordId,
+        deletedAt: tombstone.deletedAt,
+      };
+      const existing = await this.pb.collection('tombstones').getFullList<PBTombstone>({
+        filter: `user = "${userId}" && tombstoneId = "${tombstone.id}"`,
+      });
+
+      if (existing.length > 0) {
+        await this.pb.collection('tombstones').update(existing[0].id, data);
+      } else {
+        await this.pb.collection('tombstones').create(data);
+      }
+    },
+
+    delete: async (id: string): Promise<void> => {
+      const userId = this.getUserId();
+      const existing = await this.pb.collection('tombstones').getFullList<PBTombstone>({
+        filter: `user = "${userId}" && tombstoneId = "${id}"`,
+      });
+
+      if (existing.length > 0) {
+        await this.pb.collection('tombstones').delete(existing[0].id);
+      }
+    },
+  };
+
+  /**
+   * Coaching (links, program assignments, set comments)
+   * Access for linked coaches is enforced by the collection rules in pb_schema.json
+   */
+  coaching = {
+    createInvite: async (): Promise<CoachInvite> => {
+      const coachId = this.getUserId();
+      const record = await this.pb.collection('coach_invites').create<PBCoachInvite>({
+        id: createInviteCode(),
+        coach: coachId,
+        coachName: this.currentUser?.name || '',
+      });
+      return {
+        code: record.id,
+        coachId,
+        coachName: record.coachName,
+        createdAt: new Date(record.created).getTime(),
+      };
+    },
+
+    acceptInvite: async (code: string): Promise<CoachLink> => {
+      const athleteId = this.getUserId();
+      let invite: PBCoachInvite;
+      try {
+        invite = await this.pb.collection('coach_invites').getOne<PBCoachInvite>(code);
+      } catch {
+        throw new Error('Invite not found. Ask your coach for a new code.');
+      }
+      if (invite.coach === athleteId) {
+        throw new Error('You cannot coach yourself.');
+      }
+
+      const existing = await this.pb.collection('coach_links').getFullList<PBCoachLink>({
+        filter: `coach = "${invite.coach}" && athlete = "${athleteId}"`,
+      });
+      const record = existing[0] || await this.pb.collection('coach_links').create<PBCoachLink>({
+        coach: invite.coach,
+        athlete: athleteId,
+        coachName: invite.coachName,
+        athleteName: this.currentUser?.name || '',
+        inviteCode: code,
+      });
+      return this.coaching.toCoachLink(record);
+    },
+
+    getLinks: async (): Promise<CoachLink[]> => {
+      const userId = this.getUserId();
+      const records = await this.pb.collection('coach_links').getFullList<PBCoachLink>({
+        filter: `coach = "${userId}" || athlete = "${userId}"`,
+      });
+      return records.map(this.coaching.toCoachLink);
+    },
+
+    unlink: async (linkId: string): Promise<void> => {
+      const [coachId, athleteId] = linkId.split('_');
+      const existing = await this.pb.collection('coach_links').getFullList<PBCoachLink>({
+        filter: `coach = "${coachId}" && athlete = "${athleteId}"`,
+      });
+
+      if (existing.length > 0) {
+        await this.pb.collection('coach_links').delete(existing[0].id);
+      }
+    },
+
+    getAthleteHistory: async (athleteId: string): Promise<WorkoutSession[]> => {
+      const records = await this.pb.collection('workouts').getFullList<PBWorkout>({
+        sort: '-startTime',
+        filter: `user = "${athleteId}" && status = "completed"`,
+      });
+      return records.map(this.workouts.toWorkoutSession);
+    },
+
+    getAthleteDailyLogs: async (athleteId: string): Promise<Record<string, DailyLog>> => {
+      const records = await this.pb.collection('daily_logs').getFullList<PBDailyLog>({
+        filter: `user = "${athleteId}"`,
+      });
+      const result: Record<string, DailyLog> = {};
+      records.forEach((r) => {
+        result[r.date] = r.data;
+      });
+      return result;
+    },
+
+    assignProgram: async (athleteId: string, programName: string, payload: string): Promise<ProgramAssignment> => {
+      const record = await this.pb.collection('program_assignments').create<PBProgramAssignment>({
+        coach: this.getUserId(),
+        athlete: athleteId,
+        coachName: this.currentUser?.name || '',
+        programName,
+        payload,
+        status: 'pending',
+        assignedAt: Date.now(),
+      });
+      return this.coaching.toProgramAssignment(record);
+    },
+
+    getAssignments: async (): Promise<ProgramAssignment[]> => {
+      const userId = this.getUserId();
+      const records = await this.pb.collection('program_assignments').getFullList<PBProgramAssignment>({
+        sort: '-assignedAt',
+        filter: `coach = "${userId}" || athlete = "${userId}"`,
+      });
+      return records.map(this.coaching.toProgramAssignment);
+    },
+
+    updateAssignment: async (id: string, status: ProgramAssignmentStatus): Promise<void> => {
+      await this.pb.collection('program_assignments').update(id, { status });
+    },
+
+    getComments: async (athleteId: string, workoutId: string): Promise<SetComment[]> => {
+      const records = await this.pb.collection('set_comments').getFullList<PBSetComment>({
+        sort: 'createdAt',
+        filter: `athlete = "${athleteId}" && workoutId = "${workoutId}"`,
+      });
+      return records.map(this.coaching.toSetComment);
+    },
+
+    addComment: async (
+      comment: Pick<SetComment, 'athleteId' | 'workoutId' | 'logId' | 'setId' | 'text'>
+    ): Promise<SetComment> => {
+      const record = await this.pb.collection('set_comments').create<PBSetComment>({
+        athlete: comment.athleteId,
+        author: this.getUserId(),
+        authorName: this.currentUser?.name || '',
+        workoutId: comment.workoutId,
+        logId: comment.logId,
+        setId: comment.setId,
+        text: comment.text,
+        createdAt: Date.now(),
+      });
+      return this.coaching.toSetComment(record);
+    },
+
+    deleteComment: async (id: string): Promise<void> => {
+      await this.pb.collection('set_comments').delete(id);
+    },
+
+    toCoachLink: (record: PBCoachLink): CoachLink => ({
+      id: getCoachLinkId(record.coach, record.athlete),
+      coachId: record.coach,
+      coachName: record.coachName,
+      athleteId: record.athlete,
+      athleteName: record.athleteName,
+      createdAt: new Date(record.created).getTime(),
+    }),
+
+    toProgramAssignment: (record: PBProgramAssignment): ProgramAssignment => ({
+      id: record.id,
+      coachId: record.coach,
+      coachName: record.coachName,
+      athleteId: record.athlete,
+      programName: record.programName,
+      payload: record.payload,
+      status: record.status,
+      assignedAt: record.assignedAt,
+    }),
+
+    toSetComment: (record: PBSetComment): SetComment => ({
+      id: record.id,
+      athleteId: record.athlete,
+      workoutId: record.workoutId,
+      logId: record.logId,
+      setId: record.setId || undefined,
+      authorId: record.author,
+      authorName: record.authorName,
+      text: record.text,
+      createdAt: record.createdAt,
+    }),
+  };
+
   /**
    * Storage (using PocketBase file storage)
    */
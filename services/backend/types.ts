@@ -1,4 +1,15 @@
-import type { WorkoutSession, UserSettings, DailyLog, Program } from '../../types';
+import type {
+  WorkoutSession,
+  UserSettings,
+  DailyLog,
+  Program,
+  SyncTombstone,
+  CoachInvite,
+  CoachLink,
+  ProgramAssignment,
+  ProgramAssignmentStatus,
+  SetComment,
+} from '../../types';
 
 /**
  * User object returned by authentication
@@ -98,6 +109,9 @@ export interface BackendService {
 
     /** Save a single daily log */
     save(date: string, log: DailyLog): Promise<void>;
+
+    /** Delete a single daily log */
+    delete(date: string): Promise<void>;
   };
 
   /**
@@ -117,6 +131,61 @@ export interface BackendService {
     delete(id: string): Promise<void>;
   };
 
+  /**
+   * Deletion markers so other devices drop deleted records
+   */
+  tombstones: {
+    /** Get all tombstones for current user */
+    getAll(): Promise<SyncTombstone[]>;
+
+    /** Save (upsert) a tombstone */
+    save(tombstone: SyncTombstone): Promise<void>;
+
+    /** Delete an expired tombstone */
+    delete(id: string): Promise<void>;
+  };
+
+  /**
+   * Coach/athlete links, program assignments and set comments
+   */
+  coaching: {
+    /** Coach: create an invite code for an athlete */
+    createInvite(): Promise<CoachInvite>;
+
+    /** Athlete: link to the coach who issued the invite */
+    acceptInvite(code: string): Promise<CoachLink>;
+
+    /** Links where the current user is the coach or the athlete */
+    getLinks(): Promise<CoachLink[]>;
+
+    /** End a link (either side) */
+    unlink(linkId: string): Promise<void>;
+
+    /** Coach: completed workouts of a linked athlete */
+    getAthleteHistory(athleteId: string): Promise<WorkoutSession[]>;
+
+    /** Coach: daily logs of a linked athlete */
+    getAthleteDailyLogs(athleteId: string): Promise<Record<string, DailyLog>>;
+
+    /** Coach: send a program package to a linked athlete */
+    assignProgram(athleteId: string, programName: string, payload: string): Promise<ProgramAssignment>;
+
+    /** Assignments sent (coach) or received (athlete) by the current user */
+    getAssignments(): Promise<ProgramAssignment[]>;
+
+    /** Athlete: accept or decline an assignment */
+    updateAssignment(id: string, status: ProgramAssignmentStatus): Promise<void>;
+
+    /** Comments on one of an athlete's workouts */
+    getComments(athleteId: string, workoutId: string): Promise<SetComment[]>;
+
+    /** Comment as the current user (the athlete or a linked coach) */
+    addComment(comment: Pick<SetComment, 'athleteId' | 'workoutId' | 'logId' | 'setId' | 'text'>): Promise<SetComment>;
+
+    /** Delete one of the current user's comments */
+    deleteComment(id: string): Promise<void>;
+  };
+
   /**
    * Cloud storage for images/files
    */
@@ -0,0 +1,345 @@
+/**
+ * Backup Restore Service
+ * Validates VoltLift JSON backups (see exportAllToJSON in dataExport.ts)
+ * and combines them with local data in "merge" or "replace" mode
+ */
+
+import { WorkoutSession, ExerciseLog, SetLog, Program, DailyLog, UserSettings, Exercise } from '../types';
+import { recomputePersonalRecords } from './workoutImport';
+import { E1RM_FORMULAS } from './strengthEstimation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupData {
+  history: WorkoutSession[];
+  templates: WorkoutSession[];
+  programs?: Program[]; // Missing in 1.0 backups
+  dailyLogs: Record<string, DailyLog>;
+  settings: Partial<UserSettings>;
+}
+
+export interface ParsedBackup {
+  exportDate: string | null;
+  formatVersion: string;
+  /** Store schema version the backup was written with, passed to migrateStoreState() */
+  storeVersion: number;
+  data: BackupData;
+  /** Records dropped because they did not match the current schema */
+  invalidRecords: number;
+}
+
+export interface LocalData extends BackupData {
+  programs: Program[];
+  settings: UserSettings;
+  /** Not part of backups: kept as they are and used to rebuild PRs */
+  customExercises?: Exercise[];
+}
+
+export interface RestoreResult {
+  data: LocalData;
+  /** Records added or overwritten from the backup */
+  changed: { workouts: string[]; templates: string[]; programs: string[]; dailyLogs: string[] };
+  /** Local records dropped by "replace" */
+  removed: { workouts: string[]; templates: string[]; programs: string[]; dailyLogs: string[] };
+  settingsChanged: boolean;
+}
+
+/** 1.0 backups predate storeVersion and were written by store version 7 */
+const LEGACY_BACKUP_STORE_VERSION = 7;
+
+const SUPPORTED_FORMAT_MAJOR = 2;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const SET_TYPES = ['N', 'W', 'D', 'F'];
+const WORKOUT_STATUSES = ['active', 'completed', 'template', 'draft'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function isSetLog(value: unknown): value is SetLog {
+  return isObject(value) &&
+    isString(value.id) &&
+    isNumber(value.reps) &&
+    isNumber(value.weight) &&
+    SET_TYPES.includes(value.type) &&
+    typeof value.completed === 'boolean';
+}
+
+function isExerciseLog(value: unknown): value is ExerciseLog {
+  return isObject(value) &&
+    isString(value.id) &&
+    isString(value.exerciseId) &&
+    Array.isArray(value.sets) &&
+    value.sets.every(isSetLog);
+}
+
+export function isWorkoutSession(value: unknown): value is WorkoutSession {
+  return isObject(value) &&
+    isString(value.id) &&
+    isString(value.name) &&
+    isNumber(value.startTime) &&
+    WORKOUT_STATUSES.includes(value.status) &&
+    Array.isArray(value.logs) &&
+    value.logs.every(isExerciseLog);
+}
+
+export function isProgram(value: unknown): value is Program {
+  return isObject(value) &&
+    isString(value.id) &&
+    isString(value.name) &&
+    isNumber(value.weeks) &&
+    Array.isArray(value.sessions) &&
+    value.sessions.every((s: unknown) =>
+      isObject(s) && isString(s.templateId) && isNumber(s.week) && isNumber(s.day)
+    );
+}
+
+const DAILY_LOG_NUMBER_FIELDS = [
+  'sleepHours', 'sleepQuality', 'proteinGrams', 'waterLitres', 'stressLevel', 'bodyweight',
+  'muscleSoreness', 'perceivedRecovery', 'perceivedEnergy', 'workoutDifficulty',
+  'workoutSatisfaction', 'hrv', 'restingHR',
+];
+
+export function isDailyLog(value: unknown): value is DailyLog {
+  return isObject(value) &&
+    DAILY_LOG_NUMBER_FIELDS.every(field => value[field] === undefined || value[field] === null || isNumber(value[field]));
+}
+
+/**
+ * Keep settings fields whose type matches UserSettings, drop the rest
+ * Device-specific cloud state (ironCloud) is never restored
+ */
+function sanitizeSettings(value: unknown): Partial<UserSettings> {
+  if (!isObject(value)) return {};
+
+  const { ironCloud, ...settings } = value;
+  const checks: Record<string, (v: any) => boolean> = {
+    name: isString,
+    units: v => v === 'kg' || v === 'lbs',
+    goal: v => isObject(v) && isString(v.type) && isNumber(v.targetPerWeek),
+    experienceLevel: v => ['Beginner', 'Intermediate', 'Advanced'].includes(v),
+    availableEquipment: v => Array.isArray(v) && v.every(isString),
+    onboardingCompleted: v => typeof v === 'boolean',
+    personalRecords: isObject,
+    defaultRestTimer: isNumber,
+    barWeight: isNumber,
+    bodyweight: isNumber,
+    gymProfiles: v => Array.isArray(v) && v.every(p =>
+      isObject(p) && isString(p.id) && isString(p.name) && (p.units === 'kg' || p.units === 'lbs') &&
+      Array.isArray(p.bars) && Array.isArray(p.plates) && Array.isArray(p.equipment)),
+    activeGymProfileId: isString,
+    warmupSchemes: isObject,
+    e1rmFormula: v => E1RM_FORMULAS.some(f => f.id === v),
+    updatedAt: isNumber,
+  };
+
+  Object.entries(checks).forEach(([field, check]) => {
+    if (settings[field] !== undefined && !check(settings[field])) delete settings[field];
+  });
+
+  return settings as Partial<UserSettings>;
+}
+
+/**
+ * Parse and validate a backup file
+ * Throws if the file is not a VoltLift backup; drops individual invalid records
+ * @param currentStoreVersion - rejects backups written by a newer app version
+ */
+export function parseBackup(text: string, currentStoreVersion: number): ParsedBackup {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid backup file (invalid JSON).');
+  }
+
+  if (!isObject(json) || !isObject(json.data) || !Array.isArray(json.data.workouts)) {
+    throw new Error('Not a VoltLift backup file.');
+  }
+
+  const formatVersion = isString(json.version) ? json.version : '1.0';
+  const storeVersion = isNumber(json.storeVersion) ? json.storeVersion : LEGACY_BACKUP_STORE_VERSION;
+  if (parseInt(formatVersion, 10) > SUPPORTED_FORMAT_MAJOR || storeVersion > currentStoreVersion) {
+    throw new Error('This backup was created by a newer version of VoltLift. Update the app and try again.');
+  }
+
+  let invalidRecords = 0;
+  const keepValid = <T>(values: unknown, check: (v: unknown) => v is T): T[] => {
+    if (!Array.isArray(values)) return [];
+    const valid = values.filter(check);
+    invalidRecords += values.length - valid.length;
+    return valid;
+  };
+
+  const dailyLogs: Record<string, DailyLog> = {};
+  if (isObject(json.data.bodyMetrics)) {
+    Object.entries(json.data.bodyMetrics).forEach(([date, log]) => {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(date) && isDailyLog(log)) {
+        dailyLogs[date] = { ...log, date };
+      } else {
+        invalidRecords++;
+      }
+    });
+  }
+
+  // 1.0 backups only carry a subset of settings plus PRs at the top level
+  const settings = sanitizeSettings(json.data.settings ?? json.data.userSettings);
+  if (!settings.personalRecords && isObject(json.data.personalRecords)) {
+    settings.personalRecords = json.data.personalRecords;
+  }
+
+  return {
+    exportDate: isString(json.exportDate) ? json.exportDate : null,
+    formatVersion,
+    storeVersion,
+    data: {
+      history: keepValid(json.data.workouts, isWorkoutSession).filter(w => w.status === 'completed'),
+      templates: keepValid(json.data.templates, isWorkoutSession),
+      programs: json.data.programs === undefined ? undefined : keepValid(json.data.programs, isProgram),
+      dailyLogs,
+      settings,
+    },
+    invalidRecords,
+  };
+}
+
+// ============================================================================
+// Restore
+// ============================================================================
+
+/**
+ * Combine local and backup records by id
+ * merge: backup records are added, and replace local ones only when newer (updatedAt)
+ * replace: the backup becomes the collection
+ */
+function combineById<T extends { updatedAt?: number }>(
+  local: T[],
+  backup: T[],
+  getId: (record: T) => string,
+  mode: RestoreMode
+): { records: T[]; changed: string[]; removed: string[] } {
+  const backupIds = new Set(backup.map(getId));
+
+  if (mode === 'replace') {
+    return {
+      records: backup,
+      changed: Array.from(backupIds),
+      removed: local.map(getId).filter(id => !backupIds.has(id)),
+    };
+  }
+
+  const byId = new Map(local.map(record => [getId(record), record]));
+  const changed: string[] = [];
+
+  backup.forEach(record => {
+    const id = getId(record);
+    const existing = byId.get(id);
+    const backupUpdatedAt = record.updatedAt ?? 0;
+    const localUpdatedAt = existing?.updatedAt ?? 0;
+
+    if (!existing || backupUpdatedAt > localUpdatedAt) {
+      byId.set(id, record);
+      changed.push(id);
+    }
+  });
+
+  return { records: Array.from(byId.values()), changed, removed: [] };
+}
+
+/**
+ * Bring a backup up to the current store schema
+ * Store migrations fill in built-in programs when none exist; a 1.0 backup
+ * has none because it predates programs, and must keep the local ones rather
+ * than replace (and tombstone) them
+ * @param migrate - migrateStoreState()
+ */
+export function migrateBackup(
+  backup: ParsedBackup,
+  migrate: (state: BackupData, storeVersion: number) => BackupData
+): BackupData {
+  const migrated = migrate({ ...backup.data }, backup.storeVersion);
+  return {
+    history: migrated.history || [],
+    templates: migrated.templates || [],
+    programs: backup.data.programs === undefined ? undefined : migrated.programs,
+    dailyLogs: migrated.dailyLogs || {},
+    settings: migrated.settings || {},
+  };
+}
+
+/**
+ * Apply a (migrated) backup to local data
+ * Changed records are stamped with updatedAt = now so they win the next cloud sync
+ */
+export function restoreBackup(
+  local: LocalData,
+  backup: BackupData,
+  mode: RestoreMode,
+  now: number = Date.now()
+): RestoreResult {
+  const history = combineById(local.history, backup.history, w => w.id, mode);
+  const templates = combineById(local.templates, backup.templates, t => t.id, mode);
+  // 1.0 backups have no programs: keep the local ones
+  const programs = backup.programs
+    ? combineById(local.programs, backup.programs, p => p.id, mode)
+    : { records: local.programs, changed: [], removed: [] };
+
+  const toList = (logs: Record<string, DailyLog>) =>
+    Object.entries(logs).map(([date, log]) => ({ ...log, date }));
+  const dailyLogs = combineById(toList(local.dailyLogs), toList(backup.dailyLogs), log => log.date, mode);
+
+  const stamp = <T extends { updatedAt?: number }>(records: T[], changed: string[], getId: (r: T) => string) => {
+    const ids = new Set(changed);
+    return records.map(record => (ids.has(getId(record)) ? { ...record, updatedAt: now } : record));
+  };
+
+  const restoredHistory = stamp(history.records, history.changed, w => w.id)
+    .sort((a, b) => b.startTime - a.startTime);
+
+  const settingsChanged = mode === 'replace' ||
+    (backup.settings.updatedAt ?? 0) > (local.settings.updatedAt ?? 0);
+  const settings: UserSettings = {
+    ...local.settings,
+    ...(settingsChanged ? backup.settings : {}),
+    ironCloud: local.settings.ironCloud,
+    // PRs are derived from history, so rebuild them for the restored set
+    personalRecords: recomputePersonalRecords(restoredHistory, local.customExercises),
+    updatedAt: now,
+  };
+
+  return {
+    data: {
+      history: restoredHistory,
+      templates: stamp(templates.records, templates.changed, t => t.id),
+      programs: stamp(programs.records, programs.changed, p => p.id),
+      dailyLogs: Object.fromEntries(
+        stamp(dailyLogs.records, dailyLogs.changed, log => log.date).map(log => [log.date, log])
+      ),
+      settings,
+    },
+    changed: {
+      workouts: history.changed,
+      templates: templates.changed,
+      programs: programs.changed,
+      dailyLogs: dailyLogs.changed,
+    },
+    removed: {
+      workouts: history.removed,
+      templates: templates.removed,
+      programs: programs.removed,
+      dailyLogs: dailyLogs.removed,
+    },
+    settingsChanged,
+  };
+}
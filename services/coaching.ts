@@ -0,0 +1,150 @@
+/**
+ * Coaching Service
+ * Helpers for coach/athlete mode: invite codes, the athlete overview a coach
+ * sees (recent training and daily readiness), and per-set comment threads.
+ * Storage and access control live in the backends (services/backend).
+ */
+
+import { DailyLog, SetComment, WorkoutSession } from '../types';
+import { calculateReadinessScore, ReadinessResult } from './readinessScore';
+import { getWorkoutVolume } from './setMetrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Invite Codes
+// ============================================================================
+
+/**
+ * Codes double as the invite's id on both backends, so they follow
+ * PocketBase's record id format (15 characters, a-z and 0-9)
+ */
+export const INVITE_CODE_LENGTH = 15;
+const INVITE_CODE_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+// Largest multiple of the alphabet size in a byte; higher bytes are redrawn so every character is equally likely
+const UNBIASED_BYTE_LIMIT = 256 - (256 % INVITE_CODE_ALPHABET.length);
+
+/**
+ * Invite codes grant access to an athlete's training, so they come from the
+ * platform's cryptographic random source
+ */
+export function createInviteCode(
+  getRandomValues: (bytes: Uint8Array) => Uint8Array = bytes => crypto.getRandomValues(bytes)
+): string {
+  let code = '';
+  while (code.length < INVITE_CODE_LENGTH) {
+    getRandomValues(new Uint8Array(INVITE_CODE_LENGTH)).forEach(byte => {
+      if (byte < UNBIASED_BYTE_LIMIT && code.length < INVITE_CODE_LENGTH) {
+        code += INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length];
+      }
+    });
+  }
+  return code;
+}
+
+/**
+ * "abcde-fghij-klmno" for display
+ */
+export function formatInviteCode(code: string): string {
+  return code.match(/.{1,5}/g)?.join('-') ?? code;
+}
+
+/**
+ * Accepts codes as typed or pasted (any case, with dashes or spaces)
+ * Throws when the result isn't a valid code
+ */
+export function normalizeInviteCode(input: string): string {
+  const code = input.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (code.length !== INVITE_CODE_LENGTH) {
+    throw new Error(`Invite codes are ${INVITE_CODE_LENGTH} letters and numbers.`);
+  }
+  return code;
+}
+
+export function getCoachLinkId(coachId: string, athleteId: string): string {
+  return `${coachId}_${athleteId}`;
+}
+
+// ============================================================================
+// Athlete Overview
+// ============================================================================
+
+export interface AthleteReadiness extends ReadinessResult {
+  date: string;
+}
+
+export interface AthleteSummary {
+  lastWorkoutAt?: number;
+  sessionsLast7Days: number;
+  volumeLast7Days: number;
+  /** From the most recent readiness check in the last 2 days */
+  readiness: AthleteReadiness | null;
+}
+
+/**
+ * Readiness from a daily log, when all four check-in answers were recorded
+ * (same mapping as the pre-workout readiness check that writes them)
+ */
+export function getLogReadiness(log: DailyLog): ReadinessResult | null {
+  const { sleepQuality, perceivedRecovery, muscleSoreness, stressLevel } = log;
+  if (!sleepQuality || !perceivedRecovery || !muscleSoreness || !stressLevel) return null;
+
+  try {
+    return calculateReadinessScore({ sleepQuality, perceivedRecovery, sorenessLevel: muscleSoreness, stressLevel });
+  } catch {
+    return null;
+  }
+}
+
+export function summarizeAthlete(
+  history: WorkoutSession[],
+  dailyLogs: Record<string, DailyLog>,
+  now: number = Date.now()
+): AthleteSummary {
+  const completed = history.filter(w => w.status === 'completed');
+  const recent = completed.filter(w => w.startTime >= now - 7 * DAY_MS && w.startTime <= now);
+
+  const earliestCheckIn = new Date(now - 2 * DAY_MS).toLocaleDateString('en-CA');
+  const readiness = Object.values(dailyLogs)
+    .filter(log => log.date >= earliestCheckIn)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map(log => {
+      const result = getLogReadiness(log);
+      return result && { ...result, date: log.date };
+    })
+    .find(Boolean) || null;
+
+  return {
+    lastWorkoutAt: completed.length > 0 ? Math.max(...completed.map(w => w.startTime)) : undefined,
+    sessionsLast7Days: recent.length,
+    volumeLast7Days: recent.reduce((total, w) => total + getWorkoutVolume(w.logs), 0),
+    readiness,
+  };
+}
+
+// ============================================================================
+// Set Comments
+// ============================================================================
+
+/**
+ * Key of the thread a comment belongs to: one per set, plus one per exercise
+ * for comments without a set
+ */
+export function getCommentKey(logId: string, setId?: string): string {
+  return setId ? `${logId}:${setId}` : logId;
+}
+
+/**
+ * Comments grouped into threads, oldest first
+ */
+export function groupComments(comments: SetComment[]): Record<string, SetComment[]> {
+  const threads: Record<string, SetComment[]> = {};
+  [...comments]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(comment => {
+      const key = getCommentKey(comment.logId, comment.setId);
+      (threads[key] ||= []).push(comment);
+    });
+  return threads;
+}
@@ -3,8 +3,10 @@
  * Provides functionality to export workout data in various formats
  */
 
-import { WorkoutSession, ExerciseLog, SetLog, UserSettings, DailyLog } from '../types';
+import { WorkoutSession, ExerciseLog, SetLog, UserSettings, DailyLog, Program, Exercise } from '../types';
 import { EXERCISE_LIBRARY } from '../constants';
+import { getExerciseMetric, getSetVolume, calculatePace, formatDuration } from './setMetrics';
+import { STORAGE_UNIT, toDisplayWeight, WeightUnit } from '../utils/conversions';
 
 // ============================================================================
 // Types
@@ -26,6 +28,10 @@ export interface WorkoutExportRow {
   setNumber: number;
   weight: number;
   reps: number;
+  duration: number | null; // seconds
+  distance: number | null; // meters
+  pace: number | null; // seconds per 500m
+  calories: number | null;
   rpe: number | null;
   setType: string;
   completed: boolean;
@@ -38,11 +44,15 @@ export interface WorkoutExportRow {
 
 /**
  * Export workouts to CSV format
+ * Weights and volume are written in `units` (stored weights are kg)
+ * Custom exercises are needed for their names and metrics
  */
 export function exportWorkoutsToCSV(
   workouts: WorkoutSession[],
-  options?: { dateRange?: { start: Date; end: Date } }
+  options?: { dateRange?: { start: Date; end: Date }; units?: WeightUnit; customExercises?: Exercise[] }
 ): string {
+  const units = options?.units ?? STORAGE_UNIT;
+  const customExercises = options?.customExercises ?? [];
   let filtered = workouts.filter(w => w.status === 'completed');
 
   // Apply date filter if provided
@@ -64,8 +74,9 @@ export function exportWorkoutsToCSV(
     const date = new Date(workout.startTime).toISOString().split('T')[0];
 
     for (const log of workout.logs) {
-      const exercise = EXERCISE_LIBRARY.find(e => e.id === log.exerciseId);
+      const exercise = [...EXERCISE_LIBRARY, ...customExercises].find(e => e.id === log.exerciseId);
       const exerciseName = exercise?.name || log.exerciseId;
+      const metric = getExerciseMetric(log.exerciseId, customExercises);
 
       log.sets.forEach((set, index) => {
         rows.push({
@@ -73,12 +84,16 @@ export function exportWorkoutsToCSV(
           workoutName: workout.name,
           exercise: exerciseName,
           setNumber: index + 1,
-          weight: set.weight,
+          weight: toDisplayWeight(set.weight, units),
           reps: set.reps,
+          duration: set.duration ?? null,
+          distance: set.distance ?? null,
+          pace: calculatePace(set.distance, set.duration),
+          calories: set.calories ?? null,
           rpe: set.rpe || null,
           setType: set.type || 'N',
           completed: set.completed,
-          volume: set.completed ? set.weight * set.reps : 0,
+          volume: set.completed ? toDisplayWeight(getSetVolume(set, metric), units) : 0,
         });
       });
     }
@@ -90,12 +105,16 @@ export function exportWorkoutsToCSV(
     'Workout',
     'Exercise',
     'Set',
-    'Weight',
+    `Weight (${units})`,
     'Reps',
+    'Duration (s)',
+    'Distance (m)',
+    'Pace (/500m)',
+    'Calories',
     'RPE',
     'Type',
     'Completed',
-    'Volume',
+    `Volume (${units})`,
   ];
 
   const csvRows = [
@@ -108,6 +127,10 @@ export function exportWorkoutsToCSV(
         row.setNumber,
         row.weight,
         row.reps,
+        row.duration ?? '',
+        row.distance ?? '',
+        row.pace !== null ? formatDuration(row.pace) : '',
+        row.calories ?? '',
         row.rpe || '',
         row.setType,
         row.completed ? 'Yes' : 'No',
@@ -120,12 +143,14 @@ export function exportWorkoutsToCSV(
 }
 
 /**
- * Export personal records to CSV
+ * Export personal records to CSV, with loads in `units`
  */
 export function exportPRsToCSV(
-  personalRecords: UserSettings['personalRecords']
+  personalRecords: UserSettings['personalRecords'],
+  units: WeightUnit = STORAGE_UNIT
 ): string {
-  const headers = ['Exercise', 'Weight PR', 'Volume PR', 'Reps PR', 'Est 1RM', 'Date'];
+  const load = (kg: number | undefined) => (kg ? toDisplayWeight(kg, units) : '');
+  const headers = ['Exercise', `Weight PR (${units})`, `Volume PR (${units})`, 'Reps PR', `Est 1RM (${units})`, 'Date', 'Duration PR (s)', 'Distance PR (m)', 'Pace PR (/500m)'];
   const rows: string[] = [headers.join(',')];
 
   for (const [exerciseId, pr] of Object.entries(personalRecords)) {
@@ -135,11 +160,14 @@ export function exportPRsToCSV(
     rows.push(
       [
         `"${exerciseName}"`,
-        pr.weight?.value || '',
-        pr.volume?.value || '',
+        load(pr.weight?.value),
+        load(pr.volume?.value),
         pr.reps?.value || '',
-        pr.estimated1RM?.value?.toFixed(1) || '',
+        load(pr.estimated1RM?.value),
         pr.weight?.date ? new Date(pr.weight.date).toISOString().split('T')[0] : '',
+        pr.bestDuration?.value ?? '',
+        pr.bestDistance?.value ?? '',
+        pr.bestPace ? formatDuration(pr.bestPace.value) : '',
       ].join(',')
     );
   }
@@ -148,14 +176,15 @@ export function exportPRsToCSV(
 }
 
 /**
- * Export body metrics to CSV
+ * Export body metrics to CSV, with bodyweight in `units`
  */
 export function exportBodyMetricsToCSV(
-  dailyLogs: Record<string, DailyLog>
+  dailyLogs: Record<string, DailyLog>,
+  units: WeightUnit = STORAGE_UNIT
 ): string {
   const headers = [
     'Date',
-    'Bodyweight',
+    `Bodyweight (${units})`,
     'Sleep Hours',
     'Water Oz',
     'Chest',
@@ -176,7 +205,7 @@ export function exportBodyMetricsToCSV(
     rows.push(
       [
         date,
-        log.bodyweight || '',
+        log.bodyweight ? toDisplayWeight(log.bodyweight, units) : '',
         log.sleepHours || '',
         log.waterOz || '',
         log.measurements?.chest || '',
@@ -197,21 +226,37 @@ export function exportBodyMetricsToCSV(
 // JSON Export
 // ============================================================================
 
+/**
+ * Backup file format version
+ * 1.0: workouts, templates, personalRecords, bodyMetrics, userSettings (subset)
+ * 2.0: adds programs, full settings and the store schema version (storeVersion)
+ */
+export const BACKUP_FORMAT_VERSION = '2.0';
+
 /**
  * Export all data to JSON format (for backup)
+ * Restored by services/backupRestore.ts
  */
 export function exportAllToJSON(data: {
   workouts: WorkoutSession[];
   templates: WorkoutSession[];
+  programs?: Program[];
   settings: UserSettings;
   dailyLogs: Record<string, DailyLog>;
+  storeVersion?: number;
 }): string {
+  // Cloud sync state is device-specific
+  const { ironCloud, ...settings } = data.settings;
+
   const exportData = {
     exportDate: new Date().toISOString(),
-    version: '1.0',
+    version: BACKUP_FORMAT_VERSION,
+    storeVersion: data.storeVersion,
     data: {
       workouts: data.workouts.filter(w => w.status === 'completed'),
       templates: data.templates,
+      programs: data.programs || [],
+      settings,
       personalRecords: data.settings.personalRecords,
       bodyMetrics: data.dailyLogs,
       userSettings: {
@@ -251,8 +296,12 @@ export function downloadFile(content: string, filename: string, mimeType: string
 /**
  * Download workouts as CSV
  */
-export function downloadWorkoutsCSV(workouts: WorkoutSession[]): void {
-  const csv = exportWorkoutsToCSV(workouts);
+export function downloadWorkoutsCSV(
+  workouts: WorkoutSession[],
+  units: WeightUnit = STORAGE_UNIT,
+  customExercises: Exercise[] = []
+): void {
+  const csv = exportWorkoutsToCSV(workouts, { units, customExercises });
   const date = new Date().toISOString().split('T')[0];
   downloadFile(csv, `voltlift-workouts-${date}.csv`, 'text/csv');
 }
@@ -260,8 +309,8 @@ export function downloadWorkoutsCSV(workouts: WorkoutSession[]): void {
 /**
  * Download PRs as CSV
  */
-export function downloadPRsCSV(personalRecords: UserSettings['personalRecords']): void {
-  const csv = exportPRsToCSV(personalRecords);
+export function downloadPRsCSV(personalRecords: UserSettings['personalRecords'], units: WeightUnit = STORAGE_UNIT): void {
+  const csv = exportPRsToCSV(personalRecords, units);
   const date = new Date().toISOString().split('T')[0];
   downloadFile(csv, `voltlift-prs-${date}.csv`, 'text/csv');
 }
@@ -269,8 +318,8 @@ export function downloadPRsCSV(personalRecords: UserSettings['personalRecords'])
 /**
  * Download body metrics as CSV
  */
-export function downloadBodyMetricsCSV(dailyLogs: Record<string, DailyLog>): void {
-  const csv = exportBodyMetricsToCSV(dailyLogs);
+export function downloadBodyMetricsCSV(dailyLogs: Record<string, DailyLog>, units: WeightUnit = STORAGE_UNIT): void {
+  const csv = exportBodyMetricsToCSV(dailyLogs, units);
   const date = new Date().toISOString().split('T')[0];
   downloadFile(csv, `voltlift-body-metrics-${date}.csv`, 'text/csv');
 }
@@ -281,8 +330,10 @@ export function downloadBodyMetricsCSV(dailyLogs: Record<string, DailyLog>): voi
 export function downloadFullBackup(data: {
   workouts: WorkoutSession[];
   templates: WorkoutSession[];
+  programs?: Program[];
   settings: UserSettings;
   dailyLogs: Record<string, DailyLog>;
+  storeVersion?: number;
 }): void {
   const json = exportAllToJSON(data);
   const date = new Date().toISOString().split('T')[0];
@@ -298,7 +349,8 @@ export function downloadFullBackup(data: {
  */
 export function generateSummaryStats(
   workouts: WorkoutSession[],
-  dateRange?: { start: Date; end: Date }
+  dateRange?: { start: Date; end: Date },
+  customExercises: Exercise[] = []
 ): {
   totalWorkouts: number;
   totalVolume: number;
@@ -329,11 +381,12 @@ export function generateSummaryStats(
 
     for (const log of workout.logs) {
       exerciseCount[log.exerciseId] = (exerciseCount[log.exerciseId] || 0) + 1;
+      const metric = getExerciseMetric(log.exerciseId, customExercises);
 
       for (const set of log.sets) {
         if (set.completed) {
           totalSets++;
-          totalVolume += set.weight * set.reps;
+          totalVolume += getSetVolume(set, metric);
         }
       }
     }
@@ -341,7 +394,7 @@ export function generateSummaryStats(
 
   const mostFrequent = Object.entries(exerciseCount).sort((a, b) => b[1] - a[1])[0];
   const mostFrequentExercise = mostFrequent
-    ? EXERCISE_LIBRARY.find(e => e.id === mostFrequent[0])?.name || mostFrequent[0]
+    ? [...EXERCISE_LIBRARY, ...customExercises].find(e => e.id === mostFrequent[0])?.name || mostFrequent[0]
     : null;
 
   return {
@@ -7,13 +7,14 @@
 
 import { Exercise, WorkoutSession, UserSettings } from '../types';
 import { EXERCISE_LIBRARY } from '../constants';
+import { getAvailableEquipment } from './gymProfiles';
 
 export interface SubstituteOptions {
   /** The exercise ID being replaced */
   exerciseId: string;
   /** Current workout to exclude exercises from */
   currentWorkout?: WorkoutSession | null;
-  /** User settings for equipment filtering */
+  /** User settings for equipment filtering (uses the workout's gym profile) */
   settings: UserSettings;
   /** All available exercises (library + custom) */
   allExercises: Exercise[];
@@ -60,6 +61,9 @@ export function findSubstitutes(options: SubstituteOptions): SubstituteResult {
   // Find current exercise in ALL exercises (library + custom)
   const currentEx = allExercises.find(e => e.id === exerciseId);
 
+  // Ensure available equipment is an array
+  const availableEquipment = getAvailableEquipment(settings, currentWorkout?.gymProfileId) || [];
+
   if (!currentEx) {
     console.warn(`[ExerciseRecommendation] Exercise not found: ${exerciseId}`);
     return {
@@ -71,7 +75,7 @@ export function findSubstitutes(options: SubstituteOptions): SubstituteResult {
         afterExcludeFilter: 0,
         afterEquipmentFilter: 0,
         exercisesInWorkout: [],
-        availableEquipment: settings.availableEquipment || [],
+        availableEquipment,
       }
     };
   }
@@ -79,9 +83,6 @@ export function findSubstitutes(options: SubstituteOptions): SubstituteResult {
   // Get exercise IDs already in the workout
   const exercisesInWorkout = currentWorkout?.logs.map(log => log.exerciseId) || [];
 
-  // Ensure available equipment is an array
-  const availableEquipment = settings.availableEquipment || [];
-
   // Step 1: Filter by PRIMARY muscle group
   let candidates = allExercises.filter(e =>
     e.muscleGroup.toLowerCase() === currentEx.muscleGroup.toLowerCase()
@@ -192,6 +193,7 @@ export function suggestExercisesForWorkout(options: {
   const { currentWorkout, settings, allExercises, targetMuscleGroup, limit = 5 } = options;
 
   const exercisesInWorkout = currentWorkout.logs.map(log => log.exerciseId);
+  const availableEquipment = getAvailableEquipment(settings, currentWorkout.gymProfileId);
   const musclesTrainedSet = new Set<string>();
 
   // Find what muscle groups are already in the workout
@@ -205,7 +207,7 @@ export function suggestExercisesForWorkout(options: {
   // If target muscle group specified, filter to that
   let candidates = allExercises.filter(e => {
     const notInWorkout = !exercisesInWorkout.includes(e.id);
-    const hasEquipment = settings.availableEquipment?.some(
+    const hasEquipment = availableEquipment?.some(
       eq => eq.toLowerCase() === e.equipment.toLowerCase()
     ) ?? true;
     const matchesMuscle = targetMuscleGroup
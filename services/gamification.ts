@@ -1,7 +1,7 @@
 /**
  * Gamification Service
  *
- * Handles XP calculation, level progression, streaks, and achievements.
+ * Handles XP calculation, level progression, streaks, achievements and weekly challenges.
  * Designed for engagement without being annoying.
  */
 
@@ -14,7 +14,15 @@ import {
   UnlockedAchievement,
   StreakData,
   WorkoutSession,
+  WeeklyChallenge,
+  ChallengeMetric,
+  DailyLog,
+  Exercise,
+  MuscleGroup,
 } from '../types';
+import { EXERCISE_LIBRARY } from '../constants';
+import { getWorkoutVolume } from './setMetrics';
+import { fromDisplayWeight, toDisplayWeight, WeightUnit } from '../utils/conversions';
 
 // ============================================================================
 // IRON RANK SYSTEM (Levels)
@@ -107,12 +115,25 @@ export function calculateWorkoutXP(workout: WorkoutSession, options?: {
 
   // Volume bonus (every 5000 lbs = 25 XP, caps at 100 XP)
   if (volumeTotal > 0) {
-    const volumeBonus = Math.min(100, Math.floor(volumeTotal / 5000) * 25);
+    const volumeBonus = Math.min(100, Math.floor(volumeTotal / fromDisplayWeight(5000, 'lbs')) * 25);
     if (volumeBonus > 0) {
       bonuses.push({ name: 'Volume Bonus', amount: volumeBonus });
     }
   }
 
+  // Conditioning bonus for timed sets (every 5 min = 10 XP, caps at 50 XP)
+  // Planks, rows and carries move little or no tonnage, so they'd miss the volume bonus
+  const timedSeconds = workout.logs.reduce((total, log) =>
+    total + log.sets
+      .filter(s => s.completed && s.type !== 'W')
+      .reduce((sum, set) => sum + (set.duration || 0), 0), 0);
+  if (timedSeconds > 0) {
+    const conditioningBonus = Math.min(50, Math.floor(timedSeconds / 300) * 10);
+    if (conditioningBonus > 0) {
+      bonuses.push({ name: 'Conditioning', amount: conditioningBonus });
+    }
+  }
+
   // PR bonus (50 XP per PR)
   if (hitPRs > 0) {
     bonuses.push({ name: `${hitPRs} PR${hitPRs > 1 ? 's' : ''} Hit`, amount: hitPRs * 50 });
@@ -262,7 +283,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🏋️',
     category: 'volume',
     xpReward: 500,
-    requirement: { type: 'total_volume', value: 100000 },
+    requirement: { type: 'total_volume', value: fromDisplayWeight(100000, 'lbs') },
     tier: 'bronze',
   },
   {
@@ -272,7 +293,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '💎',
     category: 'volume',
     xpReward: 2000,
-    requirement: { type: 'total_volume', value: 1000000 },
+    requirement: { type: 'total_volume', value: fromDisplayWeight(1000000, 'lbs') },
     tier: 'platinum',
   },
 
@@ -403,6 +424,343 @@ export function resetWeeklyFreezes(streak: StreakData): StreakData {
   };
 }
 
+// ============================================================================
+// WEEKLY CHALLENGES
+// ============================================================================
+
+export interface ChallengeDefinition {
+  id: string;
+  metric: ChallengeMetric;
+  name: string; // {muscle} is filled in
+  description: string; // {target}, {units} and {muscle} are filled in
+  xpReward: number;
+  defaultTarget: number; // For users without recent history
+  minTarget: number;
+  maxTarget?: number;
+  stretch: number; // Multiplier on the user's recent weekly average
+  step: number; // Targets round up to a multiple of this
+}
+
+export const CHALLENGE_CATALOG: ChallengeDefinition[] = [
+  {
+    id: 'volume_push',
+    metric: 'volume',
+    name: 'Tonnage Push',
+    description: 'Move {target} {units} of total volume this week',
+    xpReward: 300,
+    defaultTarget: 10000,
+    minTarget: 2000,
+    stretch: 1.1,
+    step: 500,
+  },
+  {
+    id: 'session_count',
+    metric: 'sessions',
+    name: 'Iron Consistency',
+    description: 'Complete {target} workouts this week',
+    xpReward: 250,
+    defaultTarget: 3,
+    minTarget: 2,
+    maxTarget: 6,
+    stretch: 1.25,
+    step: 1,
+  },
+  {
+    id: 'muscle_focus',
+    metric: 'muscle_sets',
+    name: '{muscle} Focus',
+    description: 'Complete {target} working sets for {muscle} this week',
+    xpReward: 300,
+    defaultTarget: 10,
+    minTarget: 6,
+    maxTarget: 25,
+    stretch: 1.2,
+    step: 1,
+  },
+  {
+    id: 'wellness_check',
+    metric: 'wellness_days',
+    name: 'Recovery Recon',
+    description: 'Log your wellness check-in on {target} days this week',
+    xpReward: 200,
+    defaultTarget: 5,
+    minTarget: 3,
+    maxTarget: 7,
+    stretch: 1.2,
+    step: 1,
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const BASELINE_WEEKS = 4;
+
+// Muscle groups eligible for a focus challenge (Cardio has no meaningful set count)
+const FOCUS_MUSCLE_GROUPS: MuscleGroup[] = ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core'];
+
+/**
+ * Monday 00:00 (local time) of the week containing `timestamp`
+ */
+export function getWeekStart(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+function getNextWeekStart(weekStart: number): number {
+  // setDate instead of + WEEK_MS so DST changes keep Monday midnight
+  const date = new Date(weekStart);
+  date.setDate(date.getDate() + 7);
+  return date.getTime();
+}
+
+const dateToTimestamp = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const workoutTime = (workout: WorkoutSession) => workout.endTime ?? workout.startTime;
+
+/**
+ * Whether a daily log contains a wellness check-in (not just bodyweight or photos)
+ */
+export function hasWellnessData(log: DailyLog): boolean {
+  return [
+    log.sleepHours,
+    log.sleepQuality,
+    log.stressLevel,
+    log.muscleSoreness,
+    log.perceivedRecovery,
+    log.perceivedEnergy,
+  ].some(value => value !== undefined);
+}
+
+/**
+ * Completed working sets for a muscle group in one workout
+ */
+function countMuscleGroupSets(
+  workout: WorkoutSession,
+  muscleGroup: MuscleGroup,
+  customExercises: Exercise[]
+): number {
+  const exercises = [...EXERCISE_LIBRARY, ...customExercises];
+  return workout.logs.reduce((total, log) => {
+    const exercise = exercises.find(e => e.id === log.exerciseId);
+    if (exercise?.muscleGroup !== muscleGroup) return total;
+    return total + log.sets.filter(s => s.completed && s.type !== 'W').length;
+  }, 0);
+}
+
+/**
+ * How much of a challenge metric a set of workouts and daily logs adds up to
+ */
+function measureMetric(
+  metric: ChallengeMetric,
+  workouts: WorkoutSession[],
+  logs: DailyLog[],
+  options: { muscleGroup?: MuscleGroup; customExercises: Exercise[] }
+): number {
+  switch (metric) {
+    case 'volume':
+      return workouts.reduce((sum, w) => sum + getWorkoutVolume(w.logs, options.customExercises), 0);
+    case 'sessions':
+      return workouts.length;
+    case 'muscle_sets':
+      return options.muscleGroup
+        ? workouts.reduce((sum, w) => sum + countMuscleGroupSets(w, options.muscleGroup!, options.customExercises), 0)
+        : 0;
+    case 'wellness_days':
+      return logs.filter(hasWellnessData).length;
+  }
+}
+
+/**
+ * The focus muscle group with the fewest working sets in the baseline window
+ */
+function pickFocusMuscleGroup(workouts: WorkoutSession[], customExercises: Exercise[]): MuscleGroup {
+  return FOCUS_MUSCLE_GROUPS
+    .map(group => ({
+      group,
+      sets: workouts.reduce((sum, w) => sum + countMuscleGroupSets(w, group, customExercises), 0),
+    }))
+    .reduce((lowest, current) => (current.sets < lowest.sets ? current : lowest)).group;
+}
+
+/**
+ * Target from the user's recent weekly average, stretched a little past it
+ */
+function personalizeTarget(definition: ChallengeDefinition, weeklyAverage: number): number {
+  if (weeklyAverage <= 0) return definition.defaultTarget;
+
+  const stretched = Math.ceil((weeklyAverage * definition.stretch) / definition.step) * definition.step;
+  return Math.min(definition.maxTarget ?? Infinity, Math.max(definition.minTarget, stretched));
+}
+
+/**
+ * Generate the challenge for the week containing `now`
+ *
+ * Rotates through the catalog week by week (never repeating last week's challenge),
+ * sets the target from the previous four weeks and counts activity already logged
+ * this week toward it.
+ */
+export function generateWeeklyChallenge(
+  history: WorkoutSession[],
+  dailyLogs: Record<string, DailyLog>,
+  now: number = Date.now(),
+  options: { units?: WeightUnit; customExercises?: Exercise[]; previousDefinitionId?: string } = {}
+): WeeklyChallenge {
+  const { units = 'lbs', customExercises = [], previousDefinitionId } = options;
+  const startsAt = getWeekStart(now);
+  const expiresAt = getNextWeekStart(startsAt);
+  const baselineStart = startsAt - BASELINE_WEEKS * WEEK_MS;
+
+  const completed = history.filter(w => w.status === 'completed');
+  const inRange = (from: number, to: number) => ({
+    workouts: completed.filter(w => workoutTime(w) >= from && workoutTime(w) < to),
+    logs: Object.values(dailyLogs).filter(l => dateToTimestamp(l.date) >= from && dateToTimestamp(l.date) < to),
+  });
+  const baseline = inRange(baselineStart, startsAt);
+  const thisWeek = inRange(startsAt, expiresAt);
+
+  // Rotate by week number, skipping last week's challenge
+  const weekNumber = Math.round(startsAt / WEEK_MS);
+  let definition = CHALLENGE_CATALOG[weekNumber % CHALLENGE_CATALOG.length];
+  if (definition.id === previousDefinitionId) {
+    definition = CHALLENGE_CATALOG[(weekNumber + 1) % CHALLENGE_CATALOG.length];
+  }
+
+  const muscleGroup = definition.metric === 'muscle_sets'
+    ? pickFocusMuscleGroup(baseline.workouts, customExercises)
+    : undefined;
+
+  // Average over the weeks the user has actually been training (new users aren't diluted)
+  const firstActivity = Math.min(
+    ...baseline.workouts.map(workoutTime),
+    ...baseline.logs.map(l => dateToTimestamp(l.date))
+  );
+  const weeksCovered = Number.isFinite(firstActivity)
+    ? Math.min(BASELINE_WEEKS, Math.max(1, Math.ceil((startsAt - firstActivity) / WEEK_MS)))
+    : BASELINE_WEEKS;
+  const weeklyAverage = measureMetric(definition.metric, baseline.workouts, baseline.logs, { muscleGroup, customExercises }) / weeksCovered;
+
+  // Volume targets round to the catalog's steps in the user's units, and are kept in kg like the volume itself
+  const isVolume = definition.metric === 'volume';
+  const displayTarget = personalizeTarget(definition, isVolume ? toDisplayWeight(weeklyAverage, units) : weeklyAverage);
+  const target = isVolume ? fromDisplayWeight(displayTarget, units) : displayTarget;
+
+  const fill = (template: string) => template
+    .replace('{target}', displayTarget.toLocaleString())
+    .replace('{units}', units)
+    .replace(/\{muscle\}/g, muscleGroup || '');
+
+  const loggedDates = definition.metric === 'wellness_days'
+    ? thisWeek.logs.filter(hasWellnessData).map(l => l.date)
+    : undefined;
+
+  return {
+    id: uuidv4(),
+    definitionId: definition.id,
+    metric: definition.metric,
+    name: fill(definition.name),
+    description: fill(definition.description),
+    progress: Math.min(target, measureMetric(definition.metric, thisWeek.workouts, thisWeek.logs, { muscleGroup, customExercises })),
+    target,
+    xpReward: definition.xpReward,
+    startsAt,
+    expiresAt,
+    muscleGroup,
+    loggedDates,
+  };
+}
+
+/**
+ * Mark the challenge complete and pay out its XP once progress reaches the target
+ */
+function completeChallengeIfReached(
+  state: GamificationState,
+  challenge: WeeklyChallenge,
+  now: number
+): GamificationState {
+  if (challenge.completedAt || challenge.progress < challenge.target) {
+    return { ...state, weeklyChallenge: challenge };
+  }
+
+  const completedChallenge = { ...challenge, completedAt: now };
+  return awardXP(
+    { ...state, weeklyChallenge: completedChallenge },
+    challenge.xpReward,
+    'challenge',
+    `Challenge complete: ${challenge.name}`
+  );
+}
+
+/**
+ * Replace a missing or expired challenge with this week's
+ * @returns the same state object when the current challenge is still running
+ */
+export function ensureWeeklyChallenge(
+  state: GamificationState,
+  data: {
+    history: WorkoutSession[];
+    dailyLogs: Record<string, DailyLog>;
+    units?: WeightUnit;
+    customExercises?: Exercise[];
+  },
+  now: number = Date.now()
+): GamificationState {
+  const current = state.weeklyChallenge;
+  if (current?.metric && now >= current.startsAt && now < current.expiresAt) {
+    return state;
+  }
+
+  const challenge = generateWeeklyChallenge(data.history, data.dailyLogs, now, {
+    units: data.units,
+    customExercises: data.customExercises,
+    previousDefinitionId: current?.definitionId,
+  });
+  return completeChallengeIfReached(state, challenge, now);
+}
+
+export type ChallengeEvent =
+  | { type: 'workout'; workout: WorkoutSession; volume: number; customExercises?: Exercise[] }
+  | { type: 'daily_log'; log: DailyLog };
+
+/**
+ * Apply a finished workout or daily log to the active challenge
+ */
+export function progressWeeklyChallenge(
+  state: GamificationState,
+  event: ChallengeEvent,
+  now: number = Date.now()
+): GamificationState {
+  const challenge = state.weeklyChallenge;
+  if (!challenge?.metric || challenge.completedAt) return state;
+
+  const eventTime = event.type === 'workout' ? workoutTime(event.workout) : dateToTimestamp(event.log.date);
+  if (eventTime < challenge.startsAt || eventTime >= challenge.expiresAt) return state;
+
+  let updated: WeeklyChallenge = challenge;
+
+  if (event.type === 'workout') {
+    const gained = challenge.metric === 'volume'
+      ? event.volume
+      : challenge.metric === 'sessions'
+        ? 1
+        : challenge.metric === 'muscle_sets' && challenge.muscleGroup
+          ? countMuscleGroupSets(event.workout, challenge.muscleGroup, event.customExercises || [])
+          : 0;
+    if (gained <= 0) return state;
+    updated = { ...challenge, progress: Math.min(challenge.target, challenge.progress + gained) };
+  } else {
+    const loggedDates = challenge.loggedDates || [];
+    if (challenge.metric !== 'wellness_days' || !hasWellnessData(event.log) || loggedDates.includes(event.log.date)) {
+      return state;
+    }
+    const dates = [...loggedDates, event.log.date];
+    updated = { ...challenge, loggedDates: dates, progress: Math.min(challenge.target, dates.length) };
+  }
+
+  return completeChallengeIfReached(state, updated, now);
+}
+
 // ============================================================================
 // STATE MANAGEMENT HELPERS
 // ============================================================================
@@ -472,7 +830,8 @@ export function processWorkoutCompletion(
   state: GamificationState,
   workout: WorkoutSession,
   prsHit: number,
-  workoutVolume: number
+  workoutVolume: number,
+  customExercises: Exercise[] = []
 ): {
   newState: GamificationState;
   xpEarned: WorkoutXPResult;
@@ -514,6 +873,9 @@ export function processWorkoutCompletion(
   // Award XP
   newState = awardXP(newState, xpResult.totalXP, 'workout_complete', `Completed ${workout.name}`, workout.id);
 
+  // Weekly challenge progress (awards its own XP on completion)
+  newState = progressWeeklyChallenge(newState, { type: 'workout', workout, volume: workoutVolume, customExercises });
+
   // Check for new achievements
   const newAchievements = checkAchievements(newState);
 
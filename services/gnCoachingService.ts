@@ -10,6 +10,7 @@
 
 import { TrainingMax, WorkoutSession, DailyLog } from '../types';
 import { getAMAPProgression, getAMAPDescription } from '../utils/percentageCalculator';
+import { toDisplayWeight } from '../utils/conversions';
 
 const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
@@ -390,9 +391,12 @@ export async function analyzePerformanceTrend(
   }
 
   try {
+    // Training maxes and sets are stored in kg; this coach speaks pounds
+    const lbs = (kg: number) => toDisplayWeight(kg, 'lbs');
+
     // Calculate TM changes
     const tmChanges = tmHistory.slice(1).map((tm, i) =>
-      tm.value - tmHistory[i].value
+      lbs(tm.value - tmHistory[i].value)
     );
     const avgChange = tmChanges.reduce((a, b) => a + b, 0) / tmChanges.length;
 
@@ -400,7 +404,7 @@ export async function analyzePerformanceTrend(
     const volumeBySession = recentSessions.map(session =>
       session.logs.reduce((vol, log) =>
         vol + log.sets.reduce((setVol, set) =>
-          setVol + (set.weight * set.reps), 0
+          setVol + (lbs(set.weight) * set.reps), 0
         ), 0
       )
     );
@@ -408,7 +412,7 @@ export async function analyzePerformanceTrend(
     const prompt = `You are analyzing ${exerciseName} performance trends.
 
 TRAINING MAX HISTORY (last ${tmHistory.length} cycles):
-${tmHistory.map((tm, i) => `Cycle ${i + 1}: ${tm.value} lbs`).join('\n')}
+${tmHistory.map((tm, i) => `Cycle ${i + 1}: ${lbs(tm.value)} lbs`).join('\n')}
 - Average TM increase: ${avgChange > 0 ? '+' : ''}${avgChange.toFixed(1)} lbs/cycle
 
 RECENT VOLUME TREND:
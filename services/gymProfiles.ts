@@ -0,0 +1,142 @@
+/**
+ * Gym Profiles
+ * Named training locations, each with its own equipment, bars and plates.
+ * A workout records the gym it was started at; plate math and exercise
+ * suggestions use that gym's kit. Users without profiles keep the single
+ * gym described by the legacy settings fields (barWeight, availablePlates,
+ * availableEquipment).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { GymProfile, UserSettings } from '../types';
+import {
+  calculatePlateLoadout,
+  Plate,
+  PlateLoadout,
+  STANDARD_PLATES_KG,
+  STANDARD_PLATES_LBS,
+} from './plateCalculator';
+import { roundToPlates } from '../utils/percentageCalculator';
+import { fromDisplayWeight, getPlateSet, toDisplayWeight, WeightUnit } from '../utils/conversions';
+
+/** Id of the profile derived from the legacy settings fields */
+export const LEGACY_GYM_PROFILE_ID = 'default';
+
+/** Plates of each size available per side, profiles only list sizes */
+const PLATES_PER_SIZE = 10;
+
+const DEFAULTS: Record<WeightUnit, Pick<GymProfile, 'bars' | 'plates' | 'dumbbellIncrement' | 'machineStackStep'>> = {
+  kg: { bars: [20, 15], plates: getPlateSet('kg'), dumbbellIncrement: 2.5, machineStackStep: 5 },
+  lbs: { bars: [45, 35], plates: getPlateSet('lbs'), dumbbellIncrement: 5, machineStackStep: 10 },
+};
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+export function createGymProfile(
+  name: string,
+  units: WeightUnit,
+  equipment: string[] = [],
+  id: string = uuidv4()
+): GymProfile {
+  return { id, name, units, equipment, ...DEFAULTS[units], plates: [...DEFAULTS[units].plates] };
+}
+
+/**
+ * The single gym described by the settings fields that predate profiles
+ * (bar weight is stored in kg, plates in the user's units)
+ */
+export function getLegacyGymProfile(settings: UserSettings): GymProfile {
+  const units = settings.units;
+  const profile = createGymProfile('My Gym', units, settings.availableEquipment || [], LEGACY_GYM_PROFILE_ID);
+  return {
+    ...profile,
+    bars: settings.barWeight ? [toDisplayWeight(settings.barWeight, units)] : profile.bars,
+    plates: getPlateSet(units, settings.availablePlates?.[units]),
+  };
+}
+
+export function getGymProfiles(settings: UserSettings): GymProfile[] {
+  return settings.gymProfiles?.length ? settings.gymProfiles : [getLegacyGymProfile(settings)];
+}
+
+/**
+ * Profile by id, falling back to the active gym, then the first one
+ */
+export function getGymProfile(settings: UserSettings, profileId?: string): GymProfile {
+  const profiles = getGymProfiles(settings);
+  return (
+    profiles.find(p => p.id === profileId) ||
+    profiles.find(p => p.id === settings.activeGymProfileId) ||
+    profiles[0]
+  );
+}
+
+/**
+ * Equipment at a gym; without profiles this is the legacy settings list
+ * (undefined when the user never set one)
+ */
+export function getAvailableEquipment(settings: UserSettings, profileId?: string): string[] | undefined {
+  return settings.gymProfiles?.length ? getGymProfile(settings, profileId).equipment : settings.availableEquipment;
+}
+
+export function hasEquipment(profile: GymProfile, equipment: string): boolean {
+  return profile.equipment.some(eq => eq.toLowerCase() === equipment.toLowerCase());
+}
+
+/**
+ * Check a profile before saving it; returns the problems found
+ */
+export function validateGymProfile(profile: GymProfile): string[] {
+  const errors: string[] = [];
+  const positive = (values: number[]) => values.every(v => Number.isFinite(v) && v > 0);
+
+  if (!profile.name.trim()) errors.push('Name the gym.');
+  if (profile.bars.length === 0 || !positive(profile.bars)) errors.push('Add at least one bar weight.');
+  if (profile.plates.length === 0 || !positive(profile.plates)) errors.push('Add at least one plate size.');
+  if (!positive(profile.microplates || [])) errors.push('Microplates must be positive.');
+  if (!positive([profile.dumbbellIncrement, profile.machineStackStep])) {
+    errors.push('Dumbbell and stack steps must be positive.');
+  }
+  return errors;
+}
+
+// ============================================================================
+// Plate Math
+// ============================================================================
+
+/**
+ * Plate sizes at the gym, microplates included, heaviest first
+ */
+export function getProfilePlateSizes(profile: GymProfile): number[] {
+  return [...new Set([...profile.plates, ...(profile.microplates || [])])].sort((a, b) => b - a);
+}
+
+/**
+ * The gym's plates for calculatePlateLoadout(), colored like the standard sets
+ */
+export function getProfilePlates(profile: GymProfile): Plate[] {
+  const standard = profile.units === 'kg' ? STANDARD_PLATES_KG : STANDARD_PLATES_LBS;
+  return getProfilePlateSizes(profile).map(weight => ({
+    weight,
+    color: standard.find(p => p.weight === weight)?.color || '#95a5a6',
+    count: PLATES_PER_SIZE,
+  }));
+}
+
+/**
+ * Plates per side for a load in kg, in the gym's units
+ * @param barWeight - bar to load, in the gym's units (default: the gym's first bar)
+ */
+export function getProfilePlateLoadout(kg: number, profile: GymProfile, barWeight: number = profile.bars[0]): PlateLoadout {
+  return calculatePlateLoadout(toDisplayWeight(kg, profile.units), barWeight, getProfilePlates(profile), profile.units);
+}
+
+/**
+ * Heaviest load at or below `kg` that the gym's bar and plates can make, in kg
+ */
+export function roundToProfilePlates(kg: number, profile: GymProfile, barWeight: number = profile.bars[0]): number {
+  const rounded = roundToPlates(toDisplayWeight(kg, profile.units), barWeight, getProfilePlateSizes(profile));
+  return fromDisplayWeight(rounded, profile.units);
+}
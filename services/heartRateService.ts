@@ -0,0 +1,324 @@
+/**
+ * Heart Rate Monitor Service
+ *
+ * Connects to Bluetooth LE chest straps / armbands that implement the standard
+ * Heart Rate Service (0x180D) and streams readings as BiometricPoints.
+ *
+ * - Web: Web Bluetooth (Chrome/Edge), via @capacitor-community/bluetooth-le
+ * - iOS/Android: native BLE, via the same plugin
+ *
+ * Handles automatic reconnect after signal loss and polls the Battery Service (0x180F).
+ * The transport is injectable so the parsing and connection logic can be tested
+ * with recorded characteristic payloads.
+ */
+
+import { BleClient } from '@capacitor-community/bluetooth-le';
+import { BiometricPoint } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const HEART_RATE_SERVICE = '0000180d-0000-1000-8000-00805f9b34fb';
+export const HEART_RATE_MEASUREMENT = '00002a37-0000-1000-8000-00805f9b34fb';
+export const BATTERY_SERVICE = '0000180f-0000-1000-8000-00805f9b34fb';
+export const BATTERY_LEVEL = '00002a19-0000-1000-8000-00805f9b34fb';
+
+// Heart Rate Measurement flags (Bluetooth GATT spec, characteristic 0x2A37)
+const FLAG_HR_UINT16 = 0x01;
+const FLAG_CONTACT_DETECTED = 0x02;
+const FLAG_CONTACT_SUPPORTED = 0x04;
+const FLAG_ENERGY_EXPENDED = 0x08;
+const FLAG_RR_INTERVALS = 0x10;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HeartRateMeasurement {
+  heartRate: number; // bpm
+  /** undefined when the sensor can't detect skin contact */
+  sensorContact?: boolean;
+  energyExpended?: number; // kJ
+  rrIntervals: number[]; // ms between beats
+}
+
+export type HeartRateStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'unavailable';
+
+export interface HeartRateState {
+  status: HeartRateStatus;
+  deviceName: string | null;
+  heartRate: number | null;
+  batteryLevel: number | null; // 0-100
+  error: string | null;
+}
+
+/**
+ * Minimal BLE operations used by the monitor
+ */
+export interface HeartRateTransport {
+  initialize(): Promise<void>;
+  requestDevice(): Promise<{ deviceId: string; name?: string }>;
+  connect(deviceId: string, onDisconnect: () => void): Promise<void>;
+  disconnect(deviceId: string): Promise<void>;
+  read(deviceId: string, service: string, characteristic: string): Promise<DataView>;
+  startNotifications(
+    deviceId: string,
+    service: string,
+    characteristic: string,
+    callback: (value: DataView) => void
+  ): Promise<void>;
+}
+
+export interface HeartRateMonitorOptions {
+  maxReconnectAttempts?: number;
+  reconnectDelayMs?: number;
+  batteryPollMs?: number;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a Heart Rate Measurement (0x2A37) notification payload
+ */
+export function parseHeartRateMeasurement(data: DataView): HeartRateMeasurement {
+  const flags = data.getUint8(0);
+  let offset = 1;
+
+  let heartRate: number;
+  if (flags & FLAG_HR_UINT16) {
+    heartRate = data.getUint16(offset, true);
+    offset += 2;
+  } else {
+    heartRate = data.getUint8(offset);
+    offset += 1;
+  }
+
+  const sensorContact = flags & FLAG_CONTACT_SUPPORTED
+    ? Boolean(flags & FLAG_CONTACT_DETECTED)
+    : undefined;
+
+  let energyExpended: number | undefined;
+  if (flags & FLAG_ENERGY_EXPENDED) {
+    energyExpended = data.getUint16(offset, true);
+    offset += 2;
+  }
+
+  // RR intervals are in 1/1024 s units
+  const rrIntervals: number[] = [];
+  if (flags & FLAG_RR_INTERVALS) {
+    while (offset + 1 < data.byteLength) {
+      rrIntervals.push(Math.round((data.getUint16(offset, true) / 1024) * 1000));
+      offset += 2;
+    }
+  }
+
+  return { heartRate, sensorContact, energyExpended, rrIntervals };
+}
+
+/**
+ * Parse a Battery Level (0x2A19) payload
+ */
+export function parseBatteryLevel(data: DataView): number {
+  return Math.min(100, data.getUint8(0));
+}
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+/**
+ * Capacitor BLE transport (Web Bluetooth in the browser, native BLE on devices)
+ */
+export const bleTransport: HeartRateTransport = {
+  initialize: () => BleClient.initialize({ androidNeverForLocation: true }),
+  requestDevice: async () => {
+    const device = await BleClient.requestDevice({
+      services: [HEART_RATE_SERVICE],
+      optionalServices: [BATTERY_SERVICE],
+    });
+    return { deviceId: device.deviceId, name: device.name };
+  },
+  connect: (deviceId, onDisconnect) => BleClient.connect(deviceId, () => onDisconnect()),
+  disconnect: (deviceId) => BleClient.disconnect(deviceId),
+  read: (deviceId, service, characteristic) => BleClient.read(deviceId, service, characteristic),
+  startNotifications: (deviceId, service, characteristic, callback) =>
+    BleClient.startNotifications(deviceId, service, characteristic, callback),
+};
+
+// ============================================================================
+// Monitor
+// ============================================================================
+
+export class HeartRateMonitor {
+  private transport: HeartRateTransport;
+  private options: Required<HeartRateMonitorOptions>;
+  private deviceId: string | null = null;
+  private userDisconnected = false;
+  private batteryTimer: ReturnType<typeof setInterval> | null = null;
+  private stateListeners = new Set<(state: HeartRateState) => void>();
+  private readingListeners = new Set<(point: BiometricPoint) => void>();
+
+  state: HeartRateState = {
+    status: 'disconnected',
+    deviceName: null,
+    heartRate: null,
+    batteryLevel: null,
+    error: null,
+  };
+
+  constructor(transport: HeartRateTransport = bleTransport, options: HeartRateMonitorOptions = {}) {
+    this.transport = transport;
+    this.options = {
+      maxReconnectAttempts: options.maxReconnectAttempts ?? 3,
+      reconnectDelayMs: options.reconnectDelayMs ?? 2000,
+      batteryPollMs: options.batteryPollMs ?? 60000,
+    };
+  }
+
+  /**
+   * Subscribe to connection/reading state changes
+   * @returns unsubscribe function
+   */
+  subscribe(listener: (state: HeartRateState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to heart rate readings (only readings with skin contact)
+   * @returns unsubscribe function
+   */
+  onReading(listener: (point: BiometricPoint) => void): () => void {
+    this.readingListeners.add(listener);
+    return () => this.readingListeners.delete(listener);
+  }
+
+  /**
+   * Prompt the user to pick a heart rate sensor and connect to it
+   */
+  async connect(): Promise<boolean> {
+    this.userDisconnected = false;
+    this.setState({ status: 'connecting', error: null });
+
+    try {
+      await this.transport.initialize();
+      const device = await this.transport.requestDevice();
+      this.deviceId = device.deviceId;
+      this.setState({ deviceName: device.name || 'Heart Rate Sensor' });
+      await this.openConnection(device.deviceId);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Bluetooth connection failed';
+      // Web Bluetooth unsupported (Safari/Firefox) or Bluetooth disabled
+      const unavailable = /not (available|supported)|disabled|unavailable/i.test(message);
+      this.setState({ status: unavailable ? 'unavailable' : 'disconnected', error: message });
+      return false;
+    }
+  }
+
+  /**
+   * Disconnect from the current sensor (no automatic reconnect)
+   */
+  async disconnect(): Promise<void> {
+    this.userDisconnected = true;
+    this.stopBatteryPolling();
+
+    if (this.deviceId) {
+      try {
+        await this.transport.disconnect(this.deviceId);
+      } catch (error) {
+        console.warn('Heart rate disconnect failed:', error);
+      }
+    }
+
+    this.deviceId = null;
+    this.setState({ status: 'disconnected', deviceName: null, heartRate: null, batteryLevel: null });
+  }
+
+  private async openConnection(deviceId: string): Promise<void> {
+    await this.transport.connect(deviceId, () => this.handleDisconnect());
+    await this.transport.startNotifications(
+      deviceId,
+      HEART_RATE_SERVICE,
+      HEART_RATE_MEASUREMENT,
+      (value) => this.handleMeasurement(value)
+    );
+    this.setState({ status: 'connected', error: null });
+
+    await this.readBattery();
+    this.startBatteryPolling();
+  }
+
+  private handleMeasurement(value: DataView): void {
+    let measurement: HeartRateMeasurement;
+    try {
+      measurement = parseHeartRateMeasurement(value);
+    } catch (error) {
+      console.warn('Malformed heart rate payload:', error);
+      return;
+    }
+
+    // Strap not on skin - readings are meaningless
+    if (measurement.sensorContact === false || measurement.heartRate === 0) return;
+
+    this.setState({ heartRate: measurement.heartRate });
+    const point: BiometricPoint = { timestamp: Date.now(), heartRate: measurement.heartRate };
+    this.readingListeners.forEach(listener => listener(point));
+  }
+
+  private async handleDisconnect(): Promise<void> {
+    this.stopBatteryPolling();
+    if (this.userDisconnected || !this.deviceId) return;
+
+    const deviceId = this.deviceId;
+    for (let attempt = 1; attempt <= this.options.maxReconnectAttempts; attempt++) {
+      this.setState({ status: 'reconnecting', heartRate: null });
+      await new Promise(resolve => setTimeout(resolve, this.options.reconnectDelayMs));
+      if (this.userDisconnected) return;
+
+      try {
+        await this.openConnection(deviceId);
+        return;
+      } catch (error) {
+        console.warn(`Heart rate reconnect attempt ${attempt} failed:`, error);
+      }
+    }
+
+    this.deviceId = null;
+    this.setState({ status: 'disconnected', heartRate: null, error: 'Lost connection to heart rate sensor' });
+  }
+
+  private async readBattery(): Promise<void> {
+    if (!this.deviceId) return;
+    try {
+      const value = await this.transport.read(this.deviceId, BATTERY_SERVICE, BATTERY_LEVEL);
+      this.setState({ batteryLevel: parseBatteryLevel(value) });
+    } catch {
+      // Battery Service is optional
+    }
+  }
+
+  private startBatteryPolling(): void {
+    this.stopBatteryPolling();
+    if (this.state.batteryLevel === null) return; // Sensor has no battery service
+    this.batteryTimer = setInterval(() => this.readBattery(), this.options.batteryPollMs);
+  }
+
+  private stopBatteryPolling(): void {
+    if (this.batteryTimer) {
+      clearInterval(this.batteryTimer);
+      this.batteryTimer = null;
+    }
+  }
+
+  private setState(updates: Partial<HeartRateState>): void {
+    this.state = { ...this.state, ...updates };
+    this.stateListeners.forEach(listener => listener(this.state));
+  }
+}
+
+/** Shared monitor so the connection survives navigating away from the logger */
+export const heartRateMonitor = new HeartRateMonitor();
@@ -8,6 +8,7 @@
 
 import { WorkoutSession, DailyLog, MuscleGroup } from '../types';
 import { extractExerciseTimeSeries, extractVolumeTimeSeries, calculateTrend } from './analytics';
+import { toDisplayWeight } from '../utils/conversions';
 
 /**
  * Risk level categories
@@ -282,17 +283,18 @@ function detectRapidProgression(
 
     // Calculate weekly weight progression rate
     const { slopePerWeek } = calculateTrend(timeSeries.dataPoints);
+    const lbsPerWeek = toDisplayWeight(slopePerWeek, 'lbs');
 
     // Rapid progression thresholds (lbs/week):
     // Novice can handle more, but >10lbs/week on compounds is risky
-    if (slopePerWeek > 10) {
-      const riskMetric = Math.min(20, (slopePerWeek - 10) * 2);
-      const severity: RiskLevel = slopePerWeek > 15 ? 'high' : 'moderate';
+    if (lbsPerWeek > 10) {
+      const riskMetric = Math.min(20, (lbsPerWeek - 10) * 2);
+      const severity: RiskLevel = lbsPerWeek > 15 ? 'high' : 'moderate';
 
       riskFactors.push({
         type: 'rapid_progression',
         severity,
-        description: `${timeSeries.exerciseName} progressing ${slopePerWeek.toFixed(1)}lbs/week - may compromise form`,
+        description: `${timeSeries.exerciseName} progressing ${lbsPerWeek.toFixed(1)}lbs/week - may compromise form`,
         recommendation: 'Slow progression to 5-10lbs/week. Focus on perfect form.',
         metric: riskMetric
       });
@@ -0,0 +1,191 @@
+/**
+ * Load Rounding
+ * Rounds computed loads (suggestions, percentage sets) to loads the lifter
+ * can actually set up, based on how the exercise is loaded and the kit at
+ * their gym: plate pairs on a bar, fixed dumbbell jumps, pin stack steps,
+ * or plates on a dip belt. All loads in and out are kg (storage unit).
+ */
+
+import { Exercise, GymProfile, LoadingType, UserSettings } from '../types';
+import { EXERCISE_LIBRARY } from '../constants';
+import { getGymProfile, getProfilePlateSizes } from './gymProfiles';
+import { roundToPlates, getPlateConfiguration } from '../utils/percentageCalculator';
+import { fromDisplayWeight, toDisplayWeight } from '../utils/conversions';
+
+export interface LoadRounding {
+  loadingType: LoadingType;
+  gym: GymProfile;
+}
+
+export type RoundingDirection = 'nearest' | 'down' | 'up';
+
+/**
+ * What to put on the exercise for a load, in the gym's units
+ */
+export interface LoadBreakdown {
+  loadingType: LoadingType;
+  units: 'kg' | 'lbs';
+  total: number; // Achievable load, as logged
+  barWeight?: number; // barbell
+  platesPerSide?: number[]; // barbell, plate_loaded
+  beltPlates?: number[]; // bodyweight_belt
+  dumbbell?: number; // paired_dumbbells, single_dumbbell
+  dumbbellCount?: 1 | 2;
+  pin?: number; // stack
+}
+
+// Gym units values are rounded to 2 decimals, compare with a little slack
+const EPSILON = 0.001;
+
+// Names that mark a dumbbell exercise as one dumbbell, or a machine as plate-loaded
+const SINGLE_DUMBBELL_PATTERN = /single|one[- ]arm|kroc|concentration|goblet|kettlebell|turkish|snatch|russian twist|sit-up|svend|tate/i;
+const PLATE_LOADED_PATTERN = /leg press|hack squat|pendulum|smith|t-bar|sled|prowler|seated calf/i;
+
+// ============================================================================
+// Loading Type
+// ============================================================================
+
+/**
+ * How an exercise is loaded: set explicitly, or inferred from its equipment
+ */
+export function getLoadingType(exercise: Pick<Exercise, 'name' | 'equipment' | 'loadingType'>): LoadingType {
+  if (exercise.loadingType) return exercise.loadingType;
+
+  switch (exercise.equipment.toLowerCase()) {
+    case 'barbell':
+      return 'barbell';
+    case 'dumbbell':
+      return SINGLE_DUMBBELL_PATTERN.test(exercise.name) ? 'single_dumbbell' : 'paired_dumbbells';
+    case 'kettlebell':
+      return 'single_dumbbell';
+    case 'machine':
+      return PLATE_LOADED_PATTERN.test(exercise.name) ? 'plate_loaded' : 'stack';
+    case 'cable':
+      return 'stack';
+    case 'bodyweight':
+      return 'bodyweight_belt';
+    default:
+      return 'barbell';
+  }
+}
+
+/**
+ * Rounding for an exercise at the gym a workout is at
+ * Returns undefined for exercises that are not in the library or custom list
+ */
+export function getLoadRounding(
+  exerciseId: string,
+  settings: UserSettings,
+  customExercises: Exercise[] = [],
+  gymProfileId?: string
+): LoadRounding | undefined {
+  const exercise = [...EXERCISE_LIBRARY, ...customExercises].find(e => e.id === exerciseId);
+  if (!exercise) return undefined;
+  return { loadingType: getLoadingType(exercise), gym: getGymProfile(settings, gymProfileId) };
+}
+
+// ============================================================================
+// Rounding
+// ============================================================================
+
+/**
+ * Smallest change in load for the loading type, in the gym's units
+ */
+function getStep({ loadingType, gym }: LoadRounding): number {
+  const smallestPlate = Math.min(...getProfilePlateSizes(gym));
+  switch (loadingType) {
+    case 'barbell':
+    case 'plate_loaded':
+      return smallestPlate * 2;
+    case 'bodyweight_belt':
+      return smallestPlate;
+    case 'paired_dumbbells':
+    case 'single_dumbbell':
+      return gym.dumbbellIncrement;
+    case 'stack':
+      return gym.machineStackStep;
+  }
+}
+
+/**
+ * Achievable loads at or below and at or above a value, in the gym's units
+ */
+function bracket(value: number, load: LoadRounding): [number, number] {
+  const { loadingType, gym } = load;
+  const step = getStep(load);
+
+  if (loadingType === 'barbell' || loadingType === 'plate_loaded') {
+    const base = loadingType === 'barbell' ? gym.bars[0] : 0;
+    const sizes = getProfilePlateSizes(gym);
+    if (value <= base) return [base, base];
+    const down = roundToPlates(value + EPSILON, base, sizes);
+    const up = down >= value - EPSILON ? down : roundToPlates(down + step + EPSILON, base, sizes);
+    return [down, up];
+  }
+
+  // Fixed jumps: dumbbells and stacks start at one step, belts at nothing
+  const min = loadingType === 'bodyweight_belt' ? 0 : step;
+  const max = loadingType !== 'stack' && loadingType !== 'bodyweight_belt' ? gym.dumbbellMax ?? Infinity : Infinity;
+  const clamp = (v: number) => Math.min(max, Math.max(min, v));
+  const down = Math.floor(value / step + EPSILON) * step;
+  return [clamp(down), clamp(down >= value - EPSILON ? down : down + step)];
+}
+
+/**
+ * Round a load (kg) to one that can be set up, in kg
+ * Nearest rounds ties up, like Math.round
+ */
+export function roundToAchievableLoad(
+  kg: number,
+  load: LoadRounding,
+  direction: RoundingDirection = 'nearest'
+): number {
+  if (kg <= 0 && load.loadingType === 'bodyweight_belt') return 0;
+
+  const value = toDisplayWeight(kg, load.gym.units);
+  const [down, up] = bracket(value, load);
+  const rounded = direction === 'down' ? down
+    : direction === 'up' ? up
+    : value - down < up - value ? down : up;
+
+  return fromDisplayWeight(rounded, load.gym.units);
+}
+
+/**
+ * Lightest achievable load heavier than `kg` (the same load when already at the top)
+ */
+export function nextAchievableLoad(kg: number, load: LoadRounding): number {
+  const value = toDisplayWeight(kg, load.gym.units);
+  const [, up] = bracket(value, load);
+  const next = up > value + EPSILON ? up : bracket(value + getStep(load), load)[1];
+  return fromDisplayWeight(next, load.gym.units);
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+/**
+ * Plates, dumbbells or pin position for a load (kg), rounded to what can be set up
+ */
+export function getLoadBreakdown(kg: number, load: LoadRounding): LoadBreakdown {
+  const { loadingType, gym } = load;
+  const total = toDisplayWeight(roundToAchievableLoad(kg, load), gym.units);
+  const sizes = getProfilePlateSizes(gym);
+  const breakdown: LoadBreakdown = { loadingType, units: gym.units, total };
+
+  switch (loadingType) {
+    case 'barbell':
+      return { ...breakdown, barWeight: gym.bars[0], platesPerSide: getPlateConfiguration(total, gym.bars[0], sizes) };
+    case 'plate_loaded':
+      return { ...breakdown, platesPerSide: getPlateConfiguration(total, 0, sizes) };
+    case 'bodyweight_belt':
+      // One stack of plates: the same greedy fill as one side of a bar
+      return { ...breakdown, beltPlates: getPlateConfiguration(total * 2, 0, sizes) };
+    case 'paired_dumbbells':
+    case 'single_dumbbell':
+      return { ...breakdown, dumbbell: total, dumbbellCount: loadingType === 'paired_dumbbells' ? 2 : 1 };
+    case 'stack':
+      return { ...breakdown, pin: total };
+  }
+}
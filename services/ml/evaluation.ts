@@ -0,0 +1,527 @@
+/**
+ * Offline Evaluation Harness for the ML Models
+ *
+ * Replays synthetic athletes (see syntheticAthletes.ts) day by day through
+ * the same feature extraction the app uses and scores each model against
+ * the known ground truth:
+ *
+ * - Fatigue forecasters (GRU predictor vs the analyzeFatigue heuristic):
+ *   MAE over the forecast horizon, calibration (reliability bins + expected
+ *   calibration error) and deload-timing accuracy
+ * - Volume policies (Thompson sampling bandit vs the volume-landmark
+ *   heuristic): mean reward, regret against the best action and how often
+ *   the best action was picked
+ *
+ * Heuristic baselines read the system clock, so pass `setNow` (e.g.
+ * `vi.setSystemTime` under fake timers) to replay each day at its own time.
+ * With a fixed seed the report is fully reproducible.
+ */
+
+import { BanditContext, BanditState, DailyLog, MuscleGroup, VolumeAction, WorkoutSession } from '../../types';
+import { analyzeFatigue } from '../fatigueAnalysis';
+import { getVolumeRecommendation as getLandmarkRecommendation } from '../volumeOptimization';
+import { extractBanditContext } from './featureExtraction';
+import { getVolumeRecommendation, initializeBanditState, updateBandit } from './volumeBandit';
+import type { PredictorConfig } from './fatiguePredictor';
+import {
+  createRng,
+  DELOAD_THRESHOLD,
+  expectedVolumeReward,
+  generateSyntheticCohort,
+  SYNTHETIC_MUSCLES,
+  SyntheticAthlete,
+  VolumeDirection,
+} from './syntheticAthletes';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ReplayInput {
+  asOf: number;                // Start of the day the model runs on (ms)
+  history: WorkoutSession[];   // Completed workouts up to and including that day
+  dailyLogs: DailyLog[];
+}
+
+export interface FatigueForecast {
+  fatigue: number[];           // 0-1 for each following day
+  deloadInDays: number | null; // Days until a deload is needed (1 = tomorrow), null = not within the forecast
+}
+
+export interface FatigueForecaster {
+  name: string;
+  fit?: (athlete: SyntheticAthlete, until: number) => Promise<void>; // Train on data before `until`
+  forecast: (input: ReplayInput) => FatigueForecast | null | Promise<FatigueForecast | null>;
+}
+
+export interface VolumeDecisionInput extends ReplayInput {
+  muscle: MuscleGroup;
+  context: BanditContext;
+}
+
+export interface VolumePolicy {
+  name: string;
+  reset?: (seed: number) => void; // Called before each athlete
+  choose: (input: VolumeDecisionInput) => VolumeDirection;
+  observe?: (input: VolumeDecisionInput, action: VolumeDirection, reward: number) => void;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  meanObserved: number;
+}
+
+export interface DeloadTimingReport {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  meanTimingErrorDays: number | null; // Over true positives
+}
+
+export interface FatigueModelReport {
+  model: string;
+  forecasts: number;
+  skipped: number;             // Days the model could not forecast (e.g. not enough data)
+  mae: number;
+  calibrationError: number;    // Expected calibration error
+  calibration: CalibrationBin[];
+  deload: DeloadTimingReport;
+}
+
+export interface VolumePolicyReport {
+  policy: string;
+  decisions: number;
+  meanReward: number;
+  cumulativeRegret: number;
+  meanRegret: number;
+  optimalRate: number;         // Share of decisions that picked the best action
+}
+
+export interface EvaluationReport {
+  seed: number;
+  athletes: number;
+  fatigue: FatigueModelReport[];
+  volume: VolumePolicyReport[];
+}
+
+export interface EvaluationOptions {
+  seed?: number;               // Default 1
+  athletes?: number;           // Default 4
+  weeks?: number;              // Default 24
+  evalStartWeek?: number;      // First evaluated week; earlier weeks are training data (default 12)
+  horizonDays?: number;        // Fatigue forecast horizon scored (default 7)
+  rewardNoise?: number;        // Noise on the reward policies observe (default 0.1)
+  forecasters?: FatigueForecaster[];
+  policies?: VolumePolicy[];
+  setNow?: (timestamp: number) => void;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HEURISTIC_FATIGUE: Record<ReturnType<typeof analyzeFatigue>['overallFatigueLevel'], number> = {
+  low: 0.25,
+  moderate: 0.5,
+  high: 0.75,
+  critical: 0.9,
+};
+
+const DIRECTION_ACTIONS: Record<VolumeDirection, VolumeAction> = {
+  decrease: VolumeAction.DECREASE_MODERATE,
+  maintain: VolumeAction.MAINTAIN,
+  increase: VolumeAction.INCREASE_MODERATE,
+};
+
+// =============================================================================
+// Models Under Test
+// =============================================================================
+
+/**
+ * Baseline: analyzeFatigue's overall level held flat across the horizon,
+ * with any deload recommendation meaning "deload now"
+ */
+export const heuristicFatigueForecaster: FatigueForecaster = {
+  name: 'heuristic (analyzeFatigue)',
+  forecast: ({ history }) => {
+    const analysis = analyzeFatigue(history);
+    const level = HEURISTIC_FATIGUE[analysis.overallFatigueLevel];
+    return {
+      fatigue: new Array(14).fill(level),
+      deloadInDays: analysis.deloadRecommendation ? 1 : null,
+    };
+  },
+};
+
+/**
+ * The GRU predictor, trained per athlete on the weeks before evaluation
+ * TensorFlow.js is loaded on first use. Its weight initialisation, shuffling
+ * and dropout draw from Math.random, so training runs on a seeded stream.
+ */
+export function createGruFatigueForecaster(config: Partial<PredictorConfig> = {}): FatigueForecaster {
+  const fullConfig: PredictorConfig = {
+    sequenceLength: 28,
+    predictionHorizon: 7,
+    gruUnits1: 16,
+    gruUnits2: 8,
+    learningRate: 0.01,
+    batchSize: 8,
+    epochs: 20,
+    ...config,
+  };
+  let predictor: typeof import('./fatiguePredictor') | null = null;
+  let model: import('@tensorflow/tfjs').LayersModel | null = null;
+
+  return {
+    name: 'gru (fatiguePredictor)',
+    fit: async (athlete, until) => {
+      predictor = predictor || await import('./fatiguePredictor');
+      model?.dispose();
+      model = null;
+
+      const { history, dailyLogs } = replayWindow(athlete, until - DAY_MS);
+      const data = predictor.prepareTrainingData(history, dailyLogs, fullConfig);
+      if (!data) return;
+
+      const { createModel, trainModel } = predictor;
+      model = await withSeededRandom(athlete.profile.seed, async () => {
+        const fresh = createModel(fullConfig);
+        await trainModel(fresh, data, fullConfig);
+        return fresh;
+      });
+    },
+    forecast: async ({ asOf, history, dailyLogs }) => {
+      if (!predictor || !model) return null;
+      const result = await predictor.predictFatigue(model, history, dailyLogs, fullConfig, asOf);
+      const fatigue = result.predictions.map(p => p.predictedFatigueLevel ?? 0);
+      const deloadDay = fatigue.findIndex(f => f >= DELOAD_THRESHOLD);
+      return { fatigue, deloadInDays: deloadDay === -1 ? null : deloadDay + 1 };
+    },
+  };
+}
+
+/**
+ * Thompson sampling bandit, learning from the rewards it observes
+ */
+export function createBanditVolumePolicy(): VolumePolicy {
+  let state: BanditState = initializeBanditState();
+  let random = createRng(1);
+
+  return {
+    name: 'bandit (volumeBandit)',
+    reset: (seed) => {
+      state = initializeBanditState();
+      random = createRng(seed * 7919);
+    },
+    choose: ({ context, muscle }) => {
+      const { action } = getVolumeRecommendation(context, state, muscle, random);
+      return toDirection(action);
+    },
+    observe: ({ asOf, context, muscle }, action, reward) => {
+      state = updateBandit(state, {
+        action: DIRECTION_ACTIONS[action],
+        context,
+        reward,
+        muscleGroup: muscle,
+        timestamp: asOf,
+      });
+    },
+  };
+}
+
+/**
+ * Baseline: volume landmarks (MEV/MAV/MRV) from volumeOptimization
+ */
+export const heuristicVolumePolicy: VolumePolicy = {
+  name: 'heuristic (volume landmarks)',
+  choose: ({ muscle, history }) => getLandmarkRecommendation(muscle, history).changeDirection,
+};
+
+/**
+ * Baseline: always the same move
+ */
+export function constantVolumePolicy(direction: VolumeDirection): VolumePolicy {
+  return { name: `always ${direction}`, choose: () => direction };
+}
+
+/**
+ * Run with Math.random replaced by a seeded stream
+ */
+async function withSeededRandom<T>(seed: number, run: () => Promise<T>): Promise<T> {
+  const original = Math.random;
+  Math.random = createRng(seed);
+  try {
+    return await run();
+  } finally {
+    Math.random = original;
+  }
+}
+
+function toDirection(action: VolumeAction): VolumeDirection {
+  if (action === VolumeAction.MAINTAIN) return 'maintain';
+  return action === VolumeAction.DECREASE_MODERATE || action === VolumeAction.DELOAD ? 'decrease' : 'increase';
+}
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+export function meanAbsoluteError(pairs: Array<[predicted: number, observed: number]>): number {
+  if (pairs.length === 0) return 0;
+  return pairs.reduce((sum, [p, o]) => sum + Math.abs(p - o), 0) / pairs.length;
+}
+
+/**
+ * Reliability bins over the predicted value and the expected calibration
+ * error (count-weighted gap between mean predicted and mean observed)
+ */
+export function calibrate(
+  pairs: Array<[predicted: number, observed: number]>,
+  binCount: number = 10
+): { bins: CalibrationBin[]; error: number } {
+  const bins: CalibrationBin[] = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    meanPredicted: 0,
+    meanObserved: 0,
+  }));
+
+  for (const [predicted, observed] of pairs) {
+    const bin = bins[Math.min(binCount - 1, Math.max(0, Math.floor(predicted * binCount)))];
+    bin.count++;
+    bin.meanPredicted += predicted;
+    bin.meanObserved += observed;
+  }
+
+  let error = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.meanPredicted /= bin.count;
+    bin.meanObserved /= bin.count;
+    error += (bin.count / pairs.length) * Math.abs(bin.meanPredicted - bin.meanObserved);
+  }
+
+  return { bins: bins.filter(b => b.count > 0), error };
+}
+
+/**
+ * Confusion counts and timing error for "deload needed within the horizon"
+ */
+export function scoreDeloadTiming(
+  outcomes: Array<{ predicted: number | null; actual: number | null }>
+): DeloadTimingReport {
+  let tp = 0, fp = 0, fn = 0, tn = 0;
+  let timingError = 0;
+
+  for (const { predicted, actual } of outcomes) {
+    if (predicted !== null && actual !== null) {
+      tp++;
+      timingError += Math.abs(predicted - actual);
+    } else if (predicted !== null) fp++;
+    else if (actual !== null) fn++;
+    else tn++;
+  }
+
+  const total = outcomes.length;
+  return {
+    truePositives: tp,
+    falsePositives: fp,
+    falseNegatives: fn,
+    trueNegatives: tn,
+    accuracy: total > 0 ? (tp + tn) / total : 0,
+    precision: tp + fp > 0 ? tp / (tp + fp) : 0,
+    recall: tp + fn > 0 ? tp / (tp + fn) : 0,
+    meanTimingErrorDays: tp > 0 ? timingError / tp : null,
+  };
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+/**
+ * What the app would have seen at the end of a day
+ */
+function replayWindow(athlete: SyntheticAthlete, asOf: number): ReplayInput {
+  const end = asOf + DAY_MS;
+  const lastDate = new Date(asOf).toISOString().split('T')[0];
+  return {
+    asOf,
+    history: athlete.history.filter(w => (w.endTime || 0) < end),
+    dailyLogs: athlete.dailyLogs.filter(l => l.date <= lastDate),
+  };
+}
+
+async function evaluateForecaster(
+  forecaster: FatigueForecaster,
+  cohort: SyntheticAthlete[],
+  options: Required<Pick<EvaluationOptions, 'evalStartWeek' | 'horizonDays'>> & Pick<EvaluationOptions, 'setNow'>
+): Promise<FatigueModelReport> {
+  const { evalStartWeek, horizonDays, setNow } = options;
+  const pairs: Array<[number, number]> = [];
+  const deloads: Array<{ predicted: number | null; actual: number | null }> = [];
+  let forecasts = 0;
+  let skipped = 0;
+
+  for (const athlete of cohort) {
+    const firstDay = evalStartWeek * 7;
+    await forecaster.fit?.(athlete, athlete.days[firstDay].timestamp);
+
+    // Evaluate at the end of each week's last day
+    for (let day = firstDay + 6; day + horizonDays < athlete.days.length; day += 7) {
+      const input = replayWindow(athlete, athlete.days[day].timestamp);
+      setNow?.(input.asOf + DAY_MS - 1);
+
+      const forecast = await forecaster.forecast(input);
+      if (!forecast) {
+        skipped++;
+        continue;
+      }
+      forecasts++;
+
+      const horizon = Math.min(horizonDays, forecast.fatigue.length);
+      for (let i = 0; i < horizon; i++) {
+        pairs.push([forecast.fatigue[i], athlete.days[day + 1 + i].fatigue]);
+      }
+
+      const actualDay = athlete.days.slice(day + 1, day + 1 + horizonDays).findIndex(d => d.needsDeload);
+      deloads.push({
+        predicted: forecast.deloadInDays !== null && forecast.deloadInDays <= horizonDays ? forecast.deloadInDays : null,
+        actual: actualDay === -1 ? null : actualDay + 1,
+      });
+    }
+  }
+
+  const { bins, error } = calibrate(pairs);
+  return {
+    model: forecaster.name,
+    forecasts,
+    skipped,
+    mae: meanAbsoluteError(pairs),
+    calibrationError: error,
+    calibration: bins,
+    deload: scoreDeloadTiming(deloads),
+  };
+}
+
+function evaluatePolicy(
+  policy: VolumePolicy,
+  cohort: SyntheticAthlete[],
+  options: Required<Pick<EvaluationOptions, 'evalStartWeek' | 'rewardNoise'>> & Pick<EvaluationOptions, 'setNow'>
+): VolumePolicyReport {
+  const { evalStartWeek, rewardNoise, setNow } = options;
+  let decisions = 0;
+  let totalReward = 0;
+  let regret = 0;
+  let optimal = 0;
+
+  for (const athlete of cohort) {
+    policy.reset?.(athlete.profile.seed);
+    const noise = createRng(athlete.profile.seed * 104729);
+
+    // Weekly decision, made at the end of the previous week
+    for (let week = evalStartWeek; week < athlete.weeks.length; week++) {
+      const lastDay = athlete.days[week * 7 - 1];
+      const window = replayWindow(athlete, lastDay.timestamp);
+      setNow?.(window.asOf + DAY_MS - 1);
+      const context = extractBanditContext(window.history, window.dailyLogs, window.asOf);
+
+      for (const muscle of SYNTHETIC_MUSCLES) {
+        const input: VolumeDecisionInput = { ...window, muscle, context };
+        const currentSets = athlete.weeks[week - 1].sets[muscle];
+        const rewardOf = (action: VolumeDirection) =>
+          expectedVolumeReward(athlete.profile, muscle, currentSets, lastDay.fatigue, action);
+
+        const action = policy.choose(input);
+        const expected = rewardOf(action);
+        const best = Math.max(rewardOf('decrease'), rewardOf('maintain'), rewardOf('increase'));
+
+        decisions++;
+        totalReward += expected;
+        regret += best - expected;
+        if (expected >= best - 1e-9) optimal++;
+
+        const u = Math.max(noise(), 1e-12);
+        const observed = expected + Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * noise()) * rewardNoise;
+        policy.observe?.(input, action, Math.max(0, Math.min(1, observed)));
+      }
+    }
+  }
+
+  return {
+    policy: policy.name,
+    decisions,
+    meanReward: decisions > 0 ? totalReward / decisions : 0,
+    cumulativeRegret: regret,
+    meanRegret: decisions > 0 ? regret / decisions : 0,
+    optimalRate: decisions > 0 ? optimal / decisions : 0,
+  };
+}
+
+/**
+ * Generate a seeded cohort and score every forecaster and policy on it
+ */
+export async function runEvaluation(options: EvaluationOptions = {}): Promise<EvaluationReport> {
+  const seed = options.seed ?? 1;
+  const evalStartWeek = options.evalStartWeek ?? 12;
+  const cohort = generateSyntheticCohort(options.athletes ?? 4, seed, { weeks: options.weeks ?? 24 });
+
+  const fatigue: FatigueModelReport[] = [];
+  for (const forecaster of options.forecasters ?? [heuristicFatigueForecaster]) {
+    fatigue.push(await evaluateForecaster(forecaster, cohort, {
+      evalStartWeek,
+      horizonDays: options.horizonDays ?? 7,
+      setNow: options.setNow,
+    }));
+  }
+
+  const policies = options.policies ?? [
+    createBanditVolumePolicy(),
+    heuristicVolumePolicy,
+    constantVolumePolicy('maintain'),
+  ];
+  const volume = policies.map(policy => evaluatePolicy(policy, cohort, {
+    evalStartWeek,
+    rewardNoise: options.rewardNoise ?? 0.1,
+    setNow: options.setNow,
+  }));
+
+  return { seed, athletes: cohort.length, fatigue, volume };
+}
+
+/**
+ * Plain-text summary for logs
+ */
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+  const lines = [`ML evaluation (seed ${report.seed}, ${report.athletes} athletes)`, '', 'Fatigue forecasters'];
+
+  for (const r of report.fatigue) {
+    lines.push(
+      `  ${r.model.padEnd(30)} MAE ${r.mae.toFixed(3)}  ECE ${r.calibrationError.toFixed(3)}  ` +
+      `deload acc ${pct(r.deload.accuracy)} P ${pct(r.deload.precision)} R ${pct(r.deload.recall)}  ` +
+      `timing ${r.deload.meanTimingErrorDays === null ? '-' : `${r.deload.meanTimingErrorDays.toFixed(1)}d`}  ` +
+      `(${r.forecasts} forecasts, ${r.skipped} skipped)`
+    );
+  }
+
+  lines.push('', 'Volume policies');
+  for (const r of report.volume) {
+    lines.push(
+      `  ${r.policy.padEnd(30)} reward ${r.meanReward.toFixed(3)}  regret ${r.cumulativeRegret.toFixed(2)} ` +
+      `(${r.meanRegret.toFixed(3)}/decision)  optimal ${pct(r.optimalRate)}  (${r.decisions} decisions)`
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -5,7 +5,7 @@
  * 7-14 days in advance based on training history patterns.
  *
  * Architecture:
- * - Input: 28-day sequence of daily features (12 features per day)
+ * - Input: 28-day sequence of daily features (13 features per day)
  * - GRU Layer 1: 64 units with dropout
  * - GRU Layer 2: 32 units
  * - Dense output: 14 values (fatigue prediction for next 14 days)
@@ -14,8 +14,8 @@
  */
 
 import * as tf from '@tensorflow/tfjs';
-import { FatiguePrediction, DailyMLFeatures, WorkoutSession, DailyLog } from '../../types';
-import { extractFeatureSequence, featuresToTensor } from './featureExtraction';
+import { FatiguePrediction, DailyMLFeatures, WorkoutSession, DailyLog, FatigueAttribution, FatigueFeatureKey, AttributionScore } from '../../types';
+import { extractFeatureSequence } from './featureExtraction';
 
 // =============================================================================
 // Types
@@ -28,6 +28,7 @@ export interface PredictorConfig {
   gruUnits2: number;           // Second GRU layer units (default: 32)
   learningRate: number;        // Training learning rate (default: 0.001)
   batchSize: number;           // Training batch size (default: 16)
+  epochs?: number;             // Maximum training epochs (default: 50)
 }
 
 export interface TrainingData {
@@ -40,6 +41,7 @@ export interface PredictionResult {
   confidence: number;
   modelVersion: string;
   generatedAt: number;
+  attribution?: FatigueAttribution; // Which days and features drove the forecast
 }
 
 // =============================================================================
@@ -55,11 +57,45 @@ const DEFAULT_CONFIG: PredictorConfig = {
   batchSize: 16
 };
 
-const FEATURE_COUNT = 12; // Number of features per day
+const FEATURE_COUNT = 13; // Number of features per day (see featuresToArray)
 const MIN_TRAINING_SAMPLES = 42; // Need at least 6 weeks of data
 const MODEL_STORAGE_KEY = 'ironpath-fatigue-model';
 const MODEL_VERSION = '1.0.0';
 
+// Model inputs in featuresToArray order
+const FEATURES: Array<{ key: FatigueFeatureKey; label: string }> = [
+  { key: 'volume', label: 'Volume' },
+  { key: 'avgRPE', label: 'Avg RPE' },
+  { key: 'maxRPE', label: 'Max RPE' },
+  { key: 'intensity', label: 'Intensity' },
+  { key: 'acwr', label: 'ACWR' },
+  { key: 'daysSinceRest', label: 'Days Since Rest' },
+  { key: 'sleepHours', label: 'Sleep Hours' },
+  { key: 'sleepQuality', label: 'Sleep Quality' },
+  { key: 'stress', label: 'Stress' },
+  { key: 'soreness', label: 'Soreness' },
+  { key: 'recovery', label: 'Recovery' },
+  { key: 'trainingDay', label: 'Training Day' },
+  { key: 'dayOfWeek', label: 'Day of Week' }
+];
+
+// Occlusion reference: a well-slept, moderately loaded training day
+const REFERENCE_DAY: Partial<DailyMLFeatures> = {
+  volumeTotal: 15,
+  avgRPE: 7,
+  maxRPE: 8,
+  avgIntensity: 70,
+  acwr: 1,
+  daysSinceRest: 1,
+  sleepHours: 8,
+  sleepQuality: 4,
+  stressLevel: 2,
+  sorenessLevel: 2,
+  perceivedRecovery: 4,
+  isRestDay: false,
+  dayOfWeek: 3
+};
+
 // Fatigue thresholds
 const FATIGUE_THRESHOLDS = {
   low: 0.3,
@@ -128,15 +164,18 @@ export function createModel(config: PredictorConfig = DEFAULT_CONFIG): tf.Layers
 
 /**
  * Predict fatigue for the next N days
+ *
+ * @param asOf - Day the prediction is made on (default today); lets past days be replayed
  */
 export async function predictFatigue(
   model: tf.LayersModel,
   history: WorkoutSession[],
   dailyLogs: DailyLog[],
-  config: PredictorConfig = DEFAULT_CONFIG
+  config: PredictorConfig = DEFAULT_CONFIG,
+  asOf: number = Date.now()
 ): Promise<PredictionResult> {
   // Extract feature sequence for the last 28 days
-  const today = new Date();
+  const today = new Date(asOf);
   today.setHours(0, 0, 0, 0);
   const endDate = today.getTime();
 
@@ -147,8 +186,8 @@ export async function predictFatigue(
     config.sequenceLength
   );
 
-  // Convert to tensor
-  const inputArray = featuresToTensor(sequence);
+  // Convert to tensor (same encoding the model is trained on)
+  const inputArray = sequence.map(featuresToArray);
   const inputTensor = tf.tensor2d(inputArray);
 
   // Reshape for batch: [1, sequenceLength, features]
@@ -188,10 +227,68 @@ export async function predictFatigue(
     confidence: calculateOverallConfidence(sequence.length, config.sequenceLength),
     modelVersion: MODEL_VERSION,
     generatedAt: Date.now(),
+    attribution: await explainFatigue(model, sequence),
     ...deloadPrediction
   };
 }
 
+// =============================================================================
+// Explainability
+// =============================================================================
+
+/**
+ * Attribute a forecast to its inputs by occlusion
+ *
+ * Scores the real sequence plus one copy per feature (that feature set to
+ * REFERENCE_DAY on every day) and one copy per day (the whole day replaced),
+ * all in a single batch. A positive impact means the real value pushed
+ * predicted fatigue above what a reference day would have.
+ */
+export async function explainFatigue(
+  model: tf.LayersModel,
+  sequence: DailyMLFeatures[]
+): Promise<FatigueAttribution> {
+  if (sequence.length === 0) {
+    return { method: 'occlusion', score: 0, features: [], days: [] };
+  }
+
+  const input = sequence.map(featuresToArray);
+  const reference = featuresToArray({ ...sequence[0], ...REFERENCE_DAY });
+
+  const variants: number[][][] = [input];
+  FEATURES.forEach((_, f) => {
+    variants.push(input.map(row => row.map((value, i) => (i === f ? reference[f] : value))));
+  });
+  input.forEach((_, d) => {
+    variants.push(input.map((row, i) => (i === d ? reference : row)));
+  });
+
+  // Score = mean predicted fatigue over the horizon
+  const batch = tf.tensor3d(variants);
+  const meanFatigue = tf.tidy(() => (model.predict(batch) as tf.Tensor).mean(1));
+  const scores = Array.from(await meanFatigue.data());
+  batch.dispose();
+  meanFatigue.dispose();
+
+  const [score] = scores;
+  const featureImpacts = normalizeImpacts(scores.slice(1, 1 + FEATURES.length).map(s => score - s));
+  const dayImpacts = normalizeImpacts(scores.slice(1 + FEATURES.length).map(s => score - s));
+
+  return {
+    method: 'occlusion',
+    score,
+    features: FEATURES
+      .map(({ key, label }, i) => ({ feature: key, label, ...featureImpacts[i] }))
+      .sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact)),
+    days: sequence.map((day, i) => ({ date: day.date, ...dayImpacts[i] }))
+  };
+}
+
+function normalizeImpacts(impacts: number[]): AttributionScore[] {
+  const total = impacts.reduce((sum, impact) => sum + Math.abs(impact), 0);
+  return impacts.map(impact => ({ impact, share: total > 0 ? impact / total : 0 }));
+}
+
 /**
  * Predict if user needs a deload based on fatigue trajectory
  */
@@ -347,23 +444,24 @@ export async function trainModel(
 
   // Train with early stopping
   const history = await model.fit(xs, ys, {
-    epochs: 50,
+    epochs: config.epochs ?? 50,
     batchSize: config.batchSize,
     validationSplit: 0.2,
     shuffle: true,
-    callbacks: {
-      onEpochEnd: (epoch, logs) => {
-        if (onProgress && logs) {
-          onProgress(epoch, logs);
+    callbacks: [
+      new tf.CustomCallback({
+        onEpochEnd: (epoch, logs) => {
+          if (onProgress && logs) {
+            onProgress(epoch, logs);
+          }
         }
-      },
-      // Early stopping
-      ...(tf.callbacks.earlyStopping({
+      }),
+      // Early stopping (tfjs does not support restoreBestWeights yet)
+      tf.callbacks.earlyStopping({
         monitor: 'val_loss',
-        patience: 5,
-        restoreBestWeights: true
-      }) as unknown as tf.CustomCallbackArgs)
-    }
+        patience: 5
+      })
+    ]
   });
 
   // Clean up
@@ -596,6 +694,7 @@ function calculateActualFatigue(
 ): number[] {
   // Guard against undefined/null history
   const safeHistory = history && Array.isArray(history) ? history : [];
+  const logsByDate = new Map((dailyLogs || []).map(log => [log.date, log]));
   const fatigueValues: number[] = [];
 
   for (let i = 0; i < days; i++) {
@@ -603,7 +702,7 @@ function calculateActualFatigue(
     const dateStr = date.toISOString().split('T')[0];
 
     // Check daily log for actual reported fatigue/recovery
-    const dailyLog = dailyLogs[dateStr];
+    const dailyLog = logsByDate.get(dateStr);
 
     if (dailyLog && dailyLog.perceivedRecovery !== undefined) {
       // Use inverse of perceived recovery (5 = low fatigue, 1 = high fatigue)
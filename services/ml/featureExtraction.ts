@@ -14,6 +14,7 @@ import type {
   BanditContext
 } from '../../types';
 import { EXERCISE_LIBRARY } from '../../constants';
+import { calculate1RM } from '../strengthEstimation';
 
 // =============================================================================
 // Constants
@@ -577,7 +578,7 @@ function countRecentPRs(workouts: WorkoutSession[], settings: UserSettings): num
     for (const log of workout.logs) {
       for (const set of log.sets) {
         if (set.completed && set.weight && set.reps) {
-          const estimated1RM = set.weight * (1 + set.reps / 30); // Epley formula simplified
+          const { estimated1RM } = calculate1RM(set.weight, set.reps);
 
           if (!exerciseBests[log.exerciseId] || estimated1RM > exerciseBests[log.exerciseId]) {
             exerciseBests[log.exerciseId] = estimated1RM;
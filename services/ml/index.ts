@@ -67,6 +67,16 @@ export {
   type BanditUpdate
 } from './volumeBandit';
 
+// Delayed rewards for the bandit (lightweight)
+export {
+  recordVolumeRecommendation,
+  measureVolumeOutcome,
+  settleVolumeRecommendations,
+  REWARD_WINDOW_DAYS,
+  type VolumeOutcome,
+  type SettleResult
+} from './volumeRewardLedger';
+
 // GRU Fatigue Predictor types only (actual functions via lazy loader)
 export type {
   PredictorConfig,
@@ -0,0 +1,311 @@
+/**
+ * Synthetic Athletes for Offline ML Evaluation
+ *
+ * Generates seeded, multi-month training histories with known fatigue
+ * dynamics so the fatigue predictor and volume bandit can be scored against
+ * ground truth instead of noisy self-reports.
+ *
+ * Dynamics (per athlete, parameters drawn from the seed):
+ * - Daily load = completed sets x RPE / 10
+ * - Fatigue reservoir G decays with time constant tauFatigue (slower after
+ *   poor sleep) and fills with load; fatigue = 1 - exp(-G / capacity)
+ * - Capacity is set so training at the athlete's optimal weekly volume
+ *   settles around 0.63; pushing past it overreaches (>= 0.7 = deload needed)
+ * - Weekly volume ramps by a fixed step per week and drops to half on the
+ *   athlete's deload weeks, which some athletes skip
+ * - RPE, sleep, soreness, recovery and energy are noisy readouts of fatigue
+ *
+ * Everything is pure and deterministic for a given seed and start date.
+ */
+
+import type { DailyLog, ExerciseLog, MuscleGroup, WorkoutSession } from '../../types';
+import { EXERCISE_LIBRARY } from '../../constants';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type VolumeDirection = 'decrease' | 'maintain' | 'increase';
+
+export interface AthleteProfile {
+  seed: number;
+  tauFatigue: number;          // Days for fatigue to decay by 1/e
+  capacity: number;            // Fatigue reservoir scale
+  baseSleep: number;           // Hours on a fully recovered night
+  noise: number;               // Readout noise (0-1 scale)
+  optimalSets: Record<MuscleGroup, number>; // Weekly sets per muscle that drive the best response
+  startSets: Record<MuscleGroup, number>;
+  weeklyStep: number;          // Sets added per muscle each week
+  deloadEvery: number;         // Planned deload every N weeks
+  skipsDeloads: boolean;       // Pushes through planned deloads
+  logCompliance: number;       // Share of days with a wellness log
+}
+
+export interface AthleteDayTruth {
+  date: string;                // YYYY-MM-DD
+  timestamp: number;           // Start of day (ms)
+  fatigue: number;             // 0-1 latent fatigue at the end of the day
+  load: number;
+  needsDeload: boolean;        // fatigue >= DELOAD_THRESHOLD
+}
+
+export interface AthleteWeekTruth {
+  week: number;
+  startTimestamp: number;
+  sets: Record<MuscleGroup, number>; // Weekly sets per muscle actually trained
+  isDeload: boolean;
+}
+
+export interface SyntheticAthlete {
+  profile: AthleteProfile;
+  history: WorkoutSession[];
+  dailyLogs: DailyLog[];
+  days: AthleteDayTruth[];
+  weeks: AthleteWeekTruth[];
+}
+
+export interface SyntheticAthleteOptions {
+  weeks?: number;              // Default 24
+  startDate?: string;          // Default '2024-01-01' (a Monday)
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DELOAD_THRESHOLD = 0.7;
+
+// The ML feature extractors key muscles by lowercase name
+const muscleList = (...names: string[]) => names as MuscleGroup[];
+
+export const SYNTHETIC_MUSCLES = muscleList('chest', 'back', 'legs', 'shoulders', 'arms', 'core');
+
+// Upper/lower split: Mon A, Tue B, Thu A, Fri B
+const SPLIT: Record<number, MuscleGroup[]> = {
+  0: muscleList('chest', 'shoulders', 'arms'),
+  1: muscleList('back', 'legs', 'core'),
+  3: muscleList('chest', 'shoulders', 'arms'),
+  4: muscleList('back', 'legs', 'core'),
+};
+
+const VOLUME_STEP: Record<VolumeDirection, number> = { decrease: -2, maintain: 0, increase: 2 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Seeded Random
+// =============================================================================
+
+/**
+ * Mulberry32: small, fast, seedable uniform [0, 1) generator
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random: () => number): number {
+  const u1 = Math.max(random(), 1e-12);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+const between = (random: () => number, min: number, max: number) => min + random() * (max - min);
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// =============================================================================
+// Ground Truth
+// =============================================================================
+
+/**
+ * Expected reward (0-1) of a weekly volume change for one muscle
+ * The best move heads toward the athlete's optimal volume, or well below it
+ * while overreached.
+ */
+export function expectedVolumeReward(
+  profile: AthleteProfile,
+  muscle: MuscleGroup,
+  currentSets: number,
+  fatigue: number,
+  action: VolumeDirection
+): number {
+  const optimal = profile.optimalSets[muscle];
+  const target = fatigue >= DELOAD_THRESHOLD ? optimal * 0.6 : optimal;
+  const next = Math.max(0, currentSets + VOLUME_STEP[action]);
+  return clamp(0.8 - 0.6 * Math.abs(next - target) / optimal, 0, 1);
+}
+
+/**
+ * Best volume change for a muscle under the known dynamics
+ */
+export function optimalVolumeDirection(
+  profile: AthleteProfile,
+  muscle: MuscleGroup,
+  currentSets: number,
+  fatigue: number
+): VolumeDirection {
+  const actions: VolumeDirection[] = ['maintain', 'decrease', 'increase'];
+  return actions.reduce((best, action) =>
+    expectedVolumeReward(profile, muscle, currentSets, fatigue, action) >
+    expectedVolumeReward(profile, muscle, currentSets, fatigue, best) ? action : best
+  );
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+function createProfile(seed: number, random: () => number): AthleteProfile {
+  const optimalSets = {} as Record<MuscleGroup, number>;
+  const startSets = {} as Record<MuscleGroup, number>;
+  for (const muscle of SYNTHETIC_MUSCLES) {
+    optimalSets[muscle] = Math.round(between(random, 10, 20));
+    startSets[muscle] = Math.round(optimalSets[muscle] * between(random, 0.5, 0.8));
+  }
+
+  const tauFatigue = between(random, 4, 8);
+  // Average daily load at optimal volume, with RPE around 8
+  const optimalDailyLoad = SYNTHETIC_MUSCLES.reduce((sum, m) => sum + optimalSets[m], 0) * 0.8 / 7;
+
+  return {
+    seed,
+    tauFatigue,
+    capacity: optimalDailyLoad * tauFatigue,
+    baseSleep: between(random, 6.5, 8),
+    noise: between(random, 0.05, 0.15),
+    optimalSets,
+    startSets,
+    weeklyStep: random() < 0.5 ? 1 : 2,
+    deloadEvery: Math.round(between(random, 4, 6)),
+    skipsDeloads: random() < 0.3,
+    logCompliance: between(random, 0.6, 0.95),
+  };
+}
+
+function pickExercise(muscle: MuscleGroup) {
+  const matches = EXERCISE_LIBRARY.filter(e => e.muscleGroup.toLowerCase() === muscle);
+  return matches.find(e => e.category === 'Compound') || matches[0];
+}
+
+/**
+ * Generate one athlete's history, wellness logs and daily/weekly ground truth
+ */
+export function generateSyntheticAthlete(seed: number, options: SyntheticAthleteOptions = {}): SyntheticAthlete {
+  const random = createRng(seed);
+  const profile = createProfile(seed, random);
+  const totalWeeks = options.weeks ?? 24;
+  const start = Date.parse(`${options.startDate ?? '2024-01-01'}T00:00:00Z`);
+
+  const history: WorkoutSession[] = [];
+  const dailyLogs: DailyLog[] = [];
+  const days: AthleteDayTruth[] = [];
+  const weeks: AthleteWeekTruth[] = [];
+
+  let reservoir = 0;
+  let fatigue = 0;
+  let lastSleep = profile.baseSleep;
+  let currentSets = { ...profile.startSets };
+
+  for (let week = 0; week < totalWeeks; week++) {
+    const isDeload = (week + 1) % profile.deloadEvery === 0 && !profile.skipsDeloads;
+    const sets = {} as Record<MuscleGroup, number>;
+    for (const muscle of SYNTHETIC_MUSCLES) {
+      sets[muscle] = isDeload ? Math.round(currentSets[muscle] / 2) : currentSets[muscle];
+    }
+    weeks.push({ week, startTimestamp: start + week * 7 * DAY_MS, sets, isDeload });
+
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const timestamp = start + (week * 7 + weekday) * DAY_MS;
+      const date = new Date(timestamp).toISOString().split('T')[0];
+      const muscles = SPLIT[weekday];
+
+      // Train with today's fatigue, then let the day's load land
+      let load = 0;
+      if (muscles) {
+        const logs: ExerciseLog[] = [];
+        for (const muscle of muscles) {
+          const exercise = pickExercise(muscle);
+          const setCount = Math.max(1, Math.round(sets[muscle] / 2));
+          const baseWeight = 40 + (profile.optimalSets[muscle] * 3);
+          logs.push({
+            id: `${seed}-${date}-${muscle}`,
+            exerciseId: exercise.id,
+            sets: Array.from({ length: setCount }, (_, i) => {
+              const rpe = clamp(Math.round((6.5 + 3 * fatigue + gaussian(random) * profile.noise * 3) * 2) / 2, 5, 10);
+              load += rpe / 10;
+              return {
+                id: `${seed}-${date}-${muscle}-${i}`,
+                weight: Math.round(baseWeight * (1 + week * 0.01) * (1 - 0.1 * fatigue) * 2) / 2,
+                reps: 8,
+                rpe,
+                type: 'N' as const,
+                completed: true,
+              };
+            }),
+          });
+        }
+
+        history.push({
+          id: `${seed}-${date}`,
+          name: `Synthetic ${muscles.includes('chest' as MuscleGroup) ? 'Upper' : 'Lower'}`,
+          startTime: timestamp + 17 * 60 * 60 * 1000,
+          endTime: timestamp + 18 * 60 * 60 * 1000,
+          status: 'completed',
+          logs,
+        });
+      }
+
+      // Poor sleep slows recovery
+      const decay = Math.exp(-1 / (profile.tauFatigue * (lastSleep < 6.5 ? 1.3 : 1)));
+      reservoir = reservoir * decay + load;
+      fatigue = 1 - Math.exp(-reservoir / profile.capacity);
+
+      days.push({ date, timestamp, fatigue, load, needsDeload: fatigue >= DELOAD_THRESHOLD });
+
+      // Next morning's wellness readouts
+      lastSleep = clamp(profile.baseSleep - 1.5 * fatigue + gaussian(random) * 0.5, 4, 10);
+      if (random() < profile.logCompliance) {
+        const score = (center: number, scale: number) =>
+          clamp(Math.round(center + scale * fatigue + gaussian(random) * profile.noise * 4), 1, 5);
+        dailyLogs.push({
+          date,
+          sleepHours: Math.round(lastSleep * 10) / 10,
+          sleepQuality: score(4.5, -3),
+          stressLevel: score(2, 1),
+          muscleSoreness: score(1, 4),
+          perceivedRecovery: score(5, -4),
+          perceivedEnergy: score(4.5, -3.5),
+        });
+      }
+    }
+
+    if (!isDeload) {
+      // Athletes who skip deloads plateau well past their optimal volume
+      for (const muscle of SYNTHETIC_MUSCLES) {
+        currentSets[muscle] = Math.min(currentSets[muscle] + profile.weeklyStep, Math.round(profile.optimalSets[muscle] * 1.6));
+      }
+    } else {
+      // Deloads reset the ramp back toward the starting volume
+      currentSets = { ...profile.startSets };
+    }
+  }
+
+  return { profile, history, dailyLogs, days, weeks };
+}
+
+/**
+ * A cohort of athletes from consecutive seeds
+ */
+export function generateSyntheticCohort(
+  count: number,
+  seed: number = 1,
+  options: SyntheticAthleteOptions = {}
+): SyntheticAthlete[] {
+  return Array.from({ length: count }, (_, i) => generateSyntheticAthlete(seed + i, options));
+}
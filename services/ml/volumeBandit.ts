@@ -35,6 +35,22 @@ function toVolumeAction(action: SimpleAction): VolumeAction {
   }
 }
 
+/**
+ * Map VolumeAction to the key its prior is stored under (aggressive
+ * increases and deloads share the moderate priors)
+ */
+function toSimpleAction(action: VolumeAction): SimpleAction {
+  switch (action) {
+    case VolumeAction.DECREASE_MODERATE:
+    case VolumeAction.DELOAD:
+      return 'decrease';
+    case VolumeAction.MAINTAIN:
+      return 'maintain';
+    default:
+      return 'increase';
+  }
+}
+
 /**
  * Derive fatigue level (0-1) from BanditContext
  */
@@ -152,20 +168,20 @@ const MIN_SAMPLES_FOR_CONFIDENCE = 10;
  * Sample from Beta(alpha, beta) distribution using the Inverse CDF method
  * Approximation using gamma functions for efficiency
  */
-function sampleBeta(alpha: number, beta: number): number {
+function sampleBeta(alpha: number, beta: number, random: () => number): number {
   // Use the gamma distribution relationship: Beta(a,b) = Gamma(a) / (Gamma(a) + Gamma(b))
-  const x = sampleGamma(alpha);
-  const y = sampleGamma(beta);
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
   return x / (x + y);
 }
 
 /**
  * Sample from Gamma(shape, 1) using Marsaglia and Tsang's method
  */
-function sampleGamma(shape: number): number {
+function sampleGamma(shape: number, random: () => number): number {
   if (shape < 1) {
     // For shape < 1, use: Gamma(shape) = Gamma(shape + 1) * U^(1/shape)
-    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
   }
 
   const d = shape - 1 / 3;
@@ -176,12 +192,12 @@ function sampleGamma(shape: number): number {
     let v: number;
 
     do {
-      x = randn();
+      x = randn(random);
       v = 1 + c * x;
     } while (v <= 0);
 
     v = v * v * v;
-    const u = Math.random();
+    const u = random();
 
     if (u < 1 - 0.0331 * (x * x) * (x * x)) {
       return d * v;
@@ -196,9 +212,9 @@ function sampleGamma(shape: number): number {
 /**
  * Standard normal random using Box-Muller transform
  */
-function randn(): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
+function randn(random: () => number): number {
+  const u1 = random();
+  const u2 = random();
   return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
 }
 
@@ -208,11 +224,14 @@ function randn(): number {
 
 /**
  * Get a volume recommendation using Thompson Sampling
+ *
+ * @param random - Uniform [0, 1) source; pass a seeded generator for reproducible replays
  */
 export function getVolumeRecommendation(
   context: BanditContext,
   state: BanditState,
-  muscleGroup: MuscleGroup
+  muscleGroup: MuscleGroup,
+  random: () => number = Math.random
 ): BanditRecommendation {
   const actions: SimpleAction[] = ['decrease', 'maintain', 'increase'];
   const contextualAdjustments: string[] = [];
@@ -262,7 +281,8 @@ export function getVolumeRecommendation(
     // Sample from adjusted posterior
     sampledValues[action] = sampleBeta(
       Math.max(1, adjustedAlpha),
-      Math.max(1, adjustedBeta)
+      Math.max(1, adjustedBeta),
+      random
     );
   }
 
@@ -333,7 +353,8 @@ export function updateBandit(
   };
 
   // Get current prior for this action
-  const prior = muscleState[action] || { ...DEFAULT_PRIOR };
+  const key = toSimpleAction(action);
+  const prior = muscleState[key] || { ...DEFAULT_PRIOR };
 
   // Update using weighted running average (allows for non-stationarity)
   // reward is 0-1, we treat > 0.5 as success, < 0.5 as failure
@@ -353,7 +374,7 @@ export function updateBandit(
   // Update state
   const newMuscleState = {
     ...muscleState,
-    [action]: newPrior
+    [key]: newPrior
   };
 
   // Add to history
@@ -439,7 +460,7 @@ export function getActionSuccessRate(
   const muscleState = state.muscleGroupStates[muscleGroup];
   if (!muscleState) return 0.5; // No data, assume 50%
 
-  const prior = muscleState[action] || DEFAULT_PRIOR;
+  const prior = muscleState[toSimpleAction(action)] || DEFAULT_PRIOR;
   return prior.alpha / (prior.alpha + prior.beta);
 }
 
@@ -455,7 +476,7 @@ export function getExplorationBonus(
   const muscleState = state.muscleGroupStates[muscleGroup];
   if (!muscleState) return 1.0; // High bonus for unexplored
 
-  const prior = muscleState[action] || DEFAULT_PRIOR;
+  const prior = muscleState[toSimpleAction(action)] || DEFAULT_PRIOR;
   const totalObs = prior.alpha + prior.beta - 2; // Subtract initial prior
 
   // UCB-style bonus: decreases with more observations
@@ -0,0 +1,226 @@
+/**
+ * Delayed-Reward Ledger for the Volume Bandit
+ *
+ * Volume changes only show their effect 1-2 weeks later, so each
+ * recommendation shown is recorded here with the context the bandit saw.
+ * Once its outcome window closes, the reward is measured from what happened
+ * next and fed back through updateBandit:
+ * - Performance: best e1RM per exercise for the muscle, before vs during the window
+ * - Post-workout feedback: difficulty, satisfaction and pain from daily logs
+ * - Wellness: muscle soreness from daily logs
+ *
+ * Pure functions - the store persists the ledger and the serialized bandit state.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  BanditContext,
+  BanditState,
+  DailyLog,
+  MuscleGroup,
+  PendingVolumeRecommendation,
+  VolumeRecommendation,
+  WorkoutSession,
+} from '../../types';
+import { EXERCISE_LIBRARY } from '../../constants';
+import { calculate1RM } from '../strengthEstimation';
+import { calculateReward, updateBandit } from './volumeBandit';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const REWARD_WINDOW_DAYS = 14;  // Outcomes "collected 1-2 weeks later"
+const BASELINE_DAYS = 28;              // Lookback for pre-recommendation e1RMs
+const PERFORMANCE_SCALE = 10;          // A 10% e1RM change saturates the signal
+const PAIN_REWARD_CAP = 0.25;          // Pain or discomfort always counts as a failure
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface VolumeOutcome {
+  reward: number;                // 0-1, passed to updateBandit
+  performanceChange: number;     // -1 to 1
+  sessions: number;              // Sessions training the muscle in the window
+  avgDifficulty?: number;        // 1-5, from post-workout feedback
+  avgSatisfaction?: number;      // 1-5, from post-workout feedback
+  avgSoreness?: number;          // 1-5, from wellness check-ins
+  hadPain: boolean;
+}
+
+export interface SettleResult {
+  ledger: PendingVolumeRecommendation[];
+  state: BanditState;
+  settled: number;               // Recommendations applied to the bandit
+  expired: number;               // Closed without training the muscle (no update)
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const toDate = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+function trainsMuscle(exerciseId: string, muscle: MuscleGroup): boolean {
+  const exercise = EXERCISE_LIBRARY.find(e => e.id === exerciseId);
+  return !!exercise && exercise.muscleGroup.toLowerCase() === muscle.toLowerCase();
+}
+
+/**
+ * Best e1RM (kg) per exercise for a muscle across completed working sets
+ */
+function bestE1RMByExercise(
+  history: WorkoutSession[],
+  muscle: MuscleGroup,
+  from: number,
+  to: number
+): Record<string, number> {
+  const best: Record<string, number> = {};
+  for (const workout of history) {
+    if (workout.status !== 'completed' || workout.startTime < from || workout.startTime > to) continue;
+    for (const log of workout.logs) {
+      if (!trainsMuscle(log.exerciseId, muscle)) continue;
+      for (const set of log.sets) {
+        if (!set.completed || set.type === 'W' || set.weight <= 0 || set.reps <= 0) continue;
+        const e1rm = calculate1RM(set.weight, set.reps).estimated1RM;
+        best[log.exerciseId] = Math.max(best[log.exerciseId] ?? 0, e1rm);
+      }
+    }
+  }
+  return best;
+}
+
+function averageOf(logs: DailyLog[], field: 'workoutDifficulty' | 'workoutSatisfaction' | 'muscleSoreness'): number | undefined {
+  const values = logs.map(l => l[field]).filter((v): v is number => v !== undefined);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+}
+
+// =============================================================================
+// Ledger
+// =============================================================================
+
+/**
+ * Record a recommendation the user was shown
+ * Only one recommendation per muscle is open at a time, so re-renders of the
+ * same advice don't stack up duplicate rewards.
+ */
+export function recordVolumeRecommendation(
+  ledger: PendingVolumeRecommendation[],
+  recommendation: Pick<VolumeRecommendation, 'action' | 'muscleGroup' | 'currentVolume' | 'recommendedVolume'>,
+  context: BanditContext,
+  history: WorkoutSession[],
+  now: number = Date.now()
+): PendingVolumeRecommendation[] {
+  if (ledger.some(entry => entry.muscleGroup === recommendation.muscleGroup)) return ledger;
+
+  return [
+    ...ledger,
+    {
+      id: uuidv4(),
+      muscleGroup: recommendation.muscleGroup,
+      action: recommendation.action,
+      context,
+      currentVolume: recommendation.currentVolume,
+      recommendedVolume: recommendation.recommendedVolume,
+      shownAt: now,
+      dueAt: now + REWARD_WINDOW_DAYS * DAY_MS,
+      baselineE1RM: bestE1RMByExercise(history, recommendation.muscleGroup, now - BASELINE_DAYS * DAY_MS, now),
+    },
+  ];
+}
+
+/**
+ * Measure the outcome of a recommendation over its window
+ * Returns null when the muscle wasn't trained, since there is nothing to learn.
+ */
+export function measureVolumeOutcome(
+  entry: PendingVolumeRecommendation,
+  history: WorkoutSession[],
+  dailyLogs: DailyLog[] | Record<string, DailyLog>
+): VolumeOutcome | null {
+  const sessions = history.filter(w =>
+    w.status === 'completed' &&
+    w.startTime >= entry.shownAt &&
+    w.startTime <= entry.dueAt &&
+    w.logs.some(log => trainsMuscle(log.exerciseId, entry.muscleGroup))
+  ).length;
+  if (sessions === 0) return null;
+
+  // Relative e1RM change on exercises trained both before and during the window
+  const after = bestE1RMByExercise(history, entry.muscleGroup, entry.shownAt, entry.dueAt);
+  const changes = Object.entries(after)
+    .filter(([exerciseId]) => entry.baselineE1RM[exerciseId] > 0)
+    .map(([exerciseId, e1rm]) => e1rm / entry.baselineE1RM[exerciseId] - 1);
+  const meanChange = changes.length > 0 ? changes.reduce((a, b) => a + b, 0) / changes.length : 0;
+  const performanceChange = Math.max(-1, Math.min(1, meanChange * PERFORMANCE_SCALE));
+
+  // Feedback and check-ins logged after the recommendation was shown
+  const shownDate = toDate(entry.shownAt);
+  const dueDate = toDate(entry.dueAt);
+  const logs = (Array.isArray(dailyLogs) ? dailyLogs : Object.values(dailyLogs))
+    .filter(log => log.date > shownDate && log.date <= dueDate);
+
+  const avgDifficulty = averageOf(logs, 'workoutDifficulty');
+  const avgSatisfaction = averageOf(logs, 'workoutSatisfaction');
+  const avgSoreness = averageOf(logs, 'muscleSoreness');
+  const hadPain = logs.some(log => log.hadPainOrDiscomfort);
+
+  const reward = calculateReward(
+    performanceChange,
+    Math.round(avgDifficulty ?? 3),
+    avgSoreness !== undefined ? Math.round(avgSoreness) : undefined,
+    avgSatisfaction
+  );
+
+  return {
+    reward: hadPain ? Math.min(reward, PAIN_REWARD_CAP) : reward,
+    performanceChange,
+    sessions,
+    avgDifficulty,
+    avgSatisfaction,
+    avgSoreness,
+    hadPain,
+  };
+}
+
+/**
+ * Apply the rewards of every recommendation whose window has closed
+ */
+export function settleVolumeRecommendations(
+  ledger: PendingVolumeRecommendation[],
+  state: BanditState,
+  history: WorkoutSession[],
+  dailyLogs: DailyLog[] | Record<string, DailyLog>,
+  now: number = Date.now()
+): SettleResult {
+  const open: PendingVolumeRecommendation[] = [];
+  let settled = 0;
+  let expired = 0;
+
+  for (const entry of ledger) {
+    if (now < entry.dueAt) {
+      open.push(entry);
+      continue;
+    }
+
+    const outcome = measureVolumeOutcome(entry, history, dailyLogs);
+    if (!outcome) {
+      expired++;
+      continue;
+    }
+
+    state = updateBandit(state, {
+      action: entry.action,
+      context: entry.context,
+      reward: outcome.reward,
+      muscleGroup: entry.muscleGroup,
+      timestamp: entry.dueAt,
+    });
+    settled++;
+  }
+
+  return { ledger: open, state, settled, expired };
+}
@@ -65,7 +65,7 @@ export interface MesocyclePlan {
 export function getPeriodizationStatus(
   history: WorkoutSession[],
   dailyLogs: DailyLog[],
-  experienceLevel: ExperienceLevel = 'intermediate',
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate',
   lastDeloadDate?: number
 ): PeriodizationStatus {
   const now = Date.now();
@@ -150,7 +150,7 @@ export function getPeriodizationStatus(
  */
 export function generateMesocyclePlan(
   currentStatus: PeriodizationStatus,
-  experienceLevel: ExperienceLevel = 'intermediate'
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate'
 ): MesocyclePlan {
   const now = Date.now();
   const phase = currentStatus.shouldTransitionPhase ? currentStatus.nextPhase : currentStatus.currentPhase;
@@ -221,7 +221,7 @@ export function generateMesocyclePlan(
  *
  * Research: Beginners can train longer without deloads, advanced lifters need more frequent recovery
  */
-function getDeloadFrequency(experienceLevel: ExperienceLevel): number {
+function getDeloadFrequency(experienceLevel: Lowercase<ExperienceLevel>): number {
   switch (experienceLevel) {
     case 'beginner':
       return 8; // Every 8 weeks
@@ -312,7 +312,7 @@ function getNextPhase(currentPhase: TrainingPhase): TrainingPhase {
 /**
  * Get recommended phase duration based on experience
  */
-function getPhaseDuration(phase: TrainingPhase, experienceLevel: ExperienceLevel): number {
+function getPhaseDuration(phase: TrainingPhase, experienceLevel: Lowercase<ExperienceLevel>): number {
   if (phase === 'deload') {
     return 1; // Always 1 week
   }
@@ -341,7 +341,7 @@ function generatePhaseRecommendation(
   phase: TrainingPhase,
   weeksIntoPhase: number,
   injuryRiskScore: number,
-  experienceLevel: ExperienceLevel
+  experienceLevel: Lowercase<ExperienceLevel>
 ): string {
   const phaseDuration = getPhaseDuration(phase, experienceLevel);
   const weeksRemaining = phaseDuration - weeksIntoPhase;
@@ -391,7 +391,7 @@ function generatePhaseRecommendation(
  */
 export function getVolumeTargets(
   phase: TrainingPhase,
-  experienceLevel: ExperienceLevel,
+  experienceLevel: Lowercase<ExperienceLevel>,
   muscleGroup: MuscleGroup
 ): { min: number; max: number } {
   // Base volume landmarks (Dr. Mike Israetel's research)
@@ -429,7 +429,7 @@ export function getVolumeTargets(
 export function shouldEnterDeload(
   history: WorkoutSession[],
   dailyLogs: DailyLog[],
-  experienceLevel: ExperienceLevel,
+  experienceLevel: Lowercase<ExperienceLevel>,
   lastDeloadDate?: number
 ): { shouldDeload: boolean; reasoning: string; urgency: 'low' | 'medium' | 'high' | 'critical' } {
   const now = Date.now();
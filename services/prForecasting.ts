@@ -5,8 +5,9 @@
  * Strength gains follow exponential decay (novice gains taper over time), not linear progression.
  */
 
-import { WorkoutSession, ExperienceLevel } from '../types';
+import { WorkoutSession, ExperienceLevel, E1RMFormula } from '../types';
 import { extractExerciseTimeSeries, calculateTrend, PerformancePoint } from './analytics';
+import { fromDisplayWeight, toDisplayWeight, WeightUnit } from '../utils/conversions';
 
 /**
  * PR forecast for a specific exercise
@@ -42,17 +43,21 @@ interface ExponentialModel {
  * @param history - All completed workouts
  * @param experienceLevel - User experience (affects growth rate expectations)
  * @param weeksToProject - How many weeks to forecast (default 8)
+ * @param units - Units for the reasoning text (weights stay in kg)
+ * @param formula - 1RM formula behind the forecast (default 'auto')
  * @returns PR forecast with projection curve
  */
 export function forecastPR(
   exerciseId: string,
   exerciseName: string,
   history: WorkoutSession[],
-  experienceLevel: ExperienceLevel = 'intermediate',
-  weeksToProject: number = 8
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate',
+  weeksToProject: number = 8,
+  units: WeightUnit = 'lbs',
+  formula: E1RMFormula = 'auto'
 ): PRForecast | null {
   // Extract time series data (last 12 weeks)
-  const timeSeries = extractExerciseTimeSeries(exerciseId, history, 12);
+  const timeSeries = extractExerciseTimeSeries(exerciseId, history, 12, formula);
 
   if (timeSeries.dataPoints.length < 4) {
     return null; // Need at least 4 data points for reliable forecasting
@@ -121,7 +126,8 @@ export function forecastPR(
     slopePerWeek,
     confidence,
     isAchievable,
-    experienceLevel
+    experienceLevel,
+    units
   );
 
   return {
@@ -148,7 +154,7 @@ export function forecastPR(
  */
 function fitExponentialModel(
   dataPoints: PerformancePoint[],
-  experienceLevel: ExperienceLevel
+  experienceLevel: Lowercase<ExperienceLevel>
 ): ExponentialModel {
   // Convert to days since first workout
   const firstDate = dataPoints[0].date;
@@ -220,7 +226,7 @@ function predictValue(model: ExponentialModel, days: number): number {
 function calculateConfidence(
   model: ExponentialModel,
   dataPoints: PerformancePoint[],
-  experienceLevel: ExperienceLevel
+  experienceLevel: Lowercase<ExperienceLevel>
 ): number {
   let confidence = 0;
 
@@ -265,7 +271,7 @@ function calculateDataConsistency(dataPoints: PerformancePoint[]): number {
 
   // Low standard deviation = high consistency
   // Normalize: 0-5lbs stdDev = perfect, >20lbs = poor
-  const consistency = Math.max(0, 1 - (stdDev / 20));
+  const consistency = Math.max(0, 1 - (stdDev / fromDisplayWeight(20, 'lbs')));
 
   return consistency;
 }
@@ -278,8 +284,12 @@ function generateForecastReasoning(
   slopePerWeek: number,
   confidence: number,
   isAchievable: boolean,
-  experienceLevel: ExperienceLevel
+  experienceLevel: Lowercase<ExperienceLevel>,
+  units: WeightUnit
 ): string {
+  const gain = toDisplayWeight(gainNeeded, units).toFixed(0);
+  const rate = toDisplayWeight(slopePerWeek, units).toFixed(1);
+
   if (gainNeeded <= 0) {
     return 'Maintain current training approach. Focus on consistency and progressive overload.';
   }
@@ -289,15 +299,15 @@ function generateForecastReasoning(
   }
 
   if (!isAchievable) {
-    return `Target requires ${gainNeeded.toFixed(0)}lbs gain, but current rate is ${slopePerWeek.toFixed(1)}lbs/week. Adjust expectations or increase training volume.`;
+    return `Target requires ${gain}${units} gain, but current rate is ${rate}${units}/week. Adjust expectations or increase training volume.`;
   }
 
   const timeframe = Math.ceil(gainNeeded / Math.max(0.1, slopePerWeek));
 
   if (confidence >= 0.7) {
-    return `Strong forecast: Current progress (${slopePerWeek.toFixed(1)}lbs/week) projects ${gainNeeded.toFixed(0)}lbs gain in ${timeframe} weeks with ${experienceLevel} programming.`;
+    return `Strong forecast: Current progress (${rate}${units}/week) projects ${gain}${units} gain in ${timeframe} weeks with ${experienceLevel} programming.`;
   } else if (confidence >= 0.5) {
-    return `Moderate confidence: Projected ${gainNeeded.toFixed(0)}lbs gain in ~${timeframe} weeks. Progress may vary based on recovery and consistency.`;
+    return `Moderate confidence: Projected ${gain}${units} gain in ~${timeframe} weeks. Progress may vary based on recovery and consistency.`;
   } else {
     return `Low confidence: Estimated ${timeframe} weeks to target. Results depend heavily on training consistency and recovery quality.`;
   }
@@ -309,7 +319,7 @@ function generateForecastReasoning(
 export function forecastMultipleExercises(
   exerciseIds: string[],
   history: WorkoutSession[],
-  experienceLevel: ExperienceLevel = 'intermediate'
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate'
 ): PRForecast[] {
   const forecasts: PRForecast[] = [];
 
@@ -344,7 +354,7 @@ export function getQuickForecast(
   exerciseId: string,
   exerciseName: string,
   history: WorkoutSession[],
-  experienceLevel: ExperienceLevel = 'intermediate'
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate'
 ): { predicted: number; confidence: string; weeks: number } | null {
   const forecast = forecastPR(exerciseId, exerciseName, history, experienceLevel, 4);
 
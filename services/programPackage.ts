@@ -0,0 +1,429 @@
+/**
+ * Program Package Service
+ * Self-contained, versioned program files for sharing with teammates: the program
+ * (sessions, week prescriptions, progression rules, methodology) plus every
+ * template and custom exercise it references. Exported as a JSON file or a
+ * compact link payload (also suitable for a QR code), and imported with new ids
+ * so packages never overwrite local data.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Exercise,
+  ExercisePrescription,
+  ExerciseProgressionRule,
+  Program,
+  ProgramSession,
+  ProgressionRule,
+  UnitLoad,
+  WorkoutSession,
+} from '../types';
+import { EXERCISE_LIBRARY } from '../constants';
+import { isProgram, isWorkoutSession } from './backupRestore';
+import { getProgramTemplateIds } from './programProgression';
+import { resetBlocks } from './workoutBlocks';
+import { PROGRAM_METHODOLOGIES } from '../utils/programMethodologies';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const PROGRAM_PACKAGE_FORMAT = 'voltlift-program';
+
+/**
+ * Package format version
+ * 1: program, templates, custom exercises, methodology
+ */
+export const PROGRAM_PACKAGE_VERSION = 1;
+
+export interface ProgramPackage {
+  format: typeof PROGRAM_PACKAGE_FORMAT;
+  version: number;
+  exportedAt: string;
+  program: Program;
+  templates: WorkoutSession[];
+  customExercises: Exercise[];
+}
+
+export interface LocalLibrary {
+  programs: Program[];
+  templates: WorkoutSession[];
+  customExercises: Exercise[];
+}
+
+export interface PackageImport {
+  program: Program;
+  /** Templates to add (templates identical to a local one are reused instead) */
+  templates: WorkoutSession[];
+  /** Custom exercises to add (matched by id or name otherwise) */
+  customExercises: Exercise[];
+  /** Package id -> local id, for templates and exercises that were remapped */
+  idMap: Record<string, string>;
+}
+
+/** Query parameter carrying a package in a share link */
+export const PACKAGE_LINK_PARAM = 'import';
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Exercise ids used by a program's templates, progression rules and prescriptions
+ */
+function getReferencedExerciseIds(program: Program, templates: WorkoutSession[]): Set<string> {
+  return new Set([
+    ...templates.flatMap(t => t.logs.map(log => log.exerciseId)),
+    ...(program.progressionRules || []).map(r => r.exerciseId),
+    ...program.sessions.flatMap(s => (s.exercises || []).map(p => p.exerciseId)),
+    ...Object.values(program.frequencyVariants || {}).flatMap(v =>
+      v.sessions.flatMap(s => (s.exercises || []).map(p => p.exerciseId))
+    ),
+  ]);
+}
+
+/**
+ * Bundle a program with everything it references
+ * Throws if one of the program's templates no longer exists
+ */
+export function createProgramPackage(program: Program, library: Omit<LocalLibrary, 'programs'>): ProgramPackage {
+  const templateIds = getProgramTemplateIds(program);
+  const templates = library.templates.filter(t => templateIds.has(t.id));
+
+  const missing = Array.from(templateIds).filter(id => !templates.some(t => t.id === id));
+  if (missing.length > 0) {
+    throw new Error(`Missing workout templates: ${missing.join(', ')}`);
+  }
+
+  const exerciseIds = getReferencedExerciseIds(program, templates);
+
+  return {
+    format: PROGRAM_PACKAGE_FORMAT,
+    version: PROGRAM_PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    program: {
+      ...program,
+      methodology: program.methodology || PROGRAM_METHODOLOGIES[program.id],
+    },
+    templates: templates.map(({ id, name, logs, blocks, startTime, status, updatedAt }) => ({
+      id,
+      name,
+      logs,
+      ...(blocks && { blocks: resetBlocks(blocks) }),
+      startTime,
+      status,
+      updatedAt,
+    })),
+    customExercises: library.customExercises.filter(e => exerciseIds.has(e.id)),
+  };
+}
+
+export function serializeProgramPackage(pkg: ProgramPackage): string {
+  return JSON.stringify(pkg, null, 2);
+}
+
+/**
+ * Compact base64url payload for share links and QR codes
+ */
+export function encodeProgramPackage(pkg: ProgramPackage): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(pkg));
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodePayload(payload: string): string {
+  const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Link that opens the program browser and offers to import the package
+ */
+export function getProgramPackageLink(pkg: ProgramPackage, origin: string): string {
+  return `${origin.replace(/\/$/, '')}/#/programs?${PACKAGE_LINK_PARAM}=${encodeProgramPackage(pkg)}`;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const MUSCLE_GROUPS = ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isFraction = (value: unknown): value is number => isPositive(value) && value <= 1;
+const isRPE = (value: unknown): value is number => isPositive(value) && value <= 10;
+const optional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+function isUnitLoad(value: unknown): value is UnitLoad {
+  return isObject(value) && isPositive(value.kg) && isPositive(value.lbs);
+}
+
+/**
+ * Rules drive weights after every session, so a malformed one (a wave with
+ * no weeks, a zero rounding step) would break the program after import
+ */
+function isProgressionRule(value: unknown): value is ProgressionRule {
+  if (!isObject(value)) return false;
+
+  switch (value.type) {
+    case 'linear':
+      return isCount(value.sets) &&
+        isCount(value.reps) &&
+        isUnitLoad(value.increment) &&
+        isCount(value.failuresBeforeReset) &&
+        isFraction(value.resetPercent) &&
+        optional(value.failureStages, stages =>
+          Array.isArray(stages) && stages.every(s => isObject(s) && isCount(s.sets) && isCount(s.reps))
+        );
+    case 'double':
+      return isCount(value.sets) &&
+        isCount(value.minReps) &&
+        isCount(value.maxReps) &&
+        value.minReps <= value.maxReps &&
+        isUnitLoad(value.increment);
+    case 'rpe':
+      return isCount(value.sets) &&
+        isCount(value.reps) &&
+        isRPE(value.targetRPE) &&
+        isFraction(value.loadPerRPE) &&
+        isUnitLoad(value.rounding);
+    case 'wave':
+      return Array.isArray(value.weeks) &&
+        value.weeks.length > 0 &&
+        value.weeks.every((week: unknown) =>
+          isObject(week) &&
+          Array.isArray(week.reps) &&
+          week.reps.length > 0 &&
+          week.reps.every(isCount) &&
+          Array.isArray(week.percentages) &&
+          week.percentages.length === week.reps.length &&
+          week.percentages.every(isPositive)
+        ) &&
+        isUnitLoad(value.trainingMaxIncrement) &&
+        isFraction(value.resetPercent) &&
+        isUnitLoad(value.rounding);
+    default:
+      return false;
+  }
+}
+
+function isExerciseProgressionRule(value: unknown): value is ExerciseProgressionRule {
+  return isObject(value) &&
+    isString(value.id) &&
+    isString(value.exerciseId) &&
+    optional(value.templateIds, isStringArray) &&
+    isProgressionRule(value.rule);
+}
+
+function isPrescription(value: unknown): value is ExercisePrescription {
+  return isObject(value) &&
+    isString(value.exerciseId) &&
+    isCount(value.sets) &&
+    isCount(value.reps) &&
+    optional(value.repsMax, repsMax => isCount(repsMax) && repsMax >= value.reps) &&
+    optional(value.rpe, isRPE) &&
+    optional(value.percentage, isPositive) &&
+    optional(value.rest, rest => typeof rest === 'number' && Number.isFinite(rest) && rest >= 0);
+}
+
+function isSession(value: unknown): value is ProgramSession {
+  return isObject(value) &&
+    isString(value.templateId) &&
+    typeof value.week === 'number' &&
+    typeof value.day === 'number' &&
+    optional(value.exercises, exercises => Array.isArray(exercises) && exercises.every(isPrescription));
+}
+
+/**
+ * Sessions of the default schedule and every frequency variant, with their
+ * prescriptions (isProgram only covers the fields every stored program has)
+ */
+function hasValidSessions(program: Program): boolean {
+  const variants = program.frequencyVariants;
+  if (variants !== undefined && !isObject(variants)) return false;
+
+  return program.sessions.every(isSession) &&
+    Object.values(variants || {}).every(v => isObject(v) && Array.isArray(v.sessions) && v.sessions.every(isSession));
+}
+
+function isCustomExercise(value: unknown): value is Exercise {
+  return isObject(value) &&
+    isString(value.id) &&
+    isString(value.name) &&
+    MUSCLE_GROUPS.includes(value.muscleGroup) &&
+    isString(value.equipment) &&
+    isString(value.category) &&
+    isStringArray(value.formGuide) &&
+    isStringArray(value.commonMistakes) &&
+    isStringArray(value.tips);
+}
+
+/**
+ * Parse and validate a package from a file, a share link or a bare link payload
+ * Throws with a user-facing message when anything is missing or malformed
+ */
+export function parseProgramPackage(input: string): ProgramPackage {
+  const text = input.trim();
+  let json: any;
+  try {
+    if (text.startsWith('{')) {
+      json = JSON.parse(text);
+    } else {
+      const match = text.match(new RegExp(`[?&]${PACKAGE_LINK_PARAM}=([\\w-]+)`));
+      json = JSON.parse(decodePayload(match ? match[1] : text));
+    }
+  } catch {
+    throw new Error('Not a valid program package (unreadable file or link).');
+  }
+
+  if (!isObject(json) || json.format !== PROGRAM_PACKAGE_FORMAT) {
+    throw new Error('Not a VoltLift program package.');
+  }
+  if (typeof json.version !== 'number' || json.version > PROGRAM_PACKAGE_VERSION) {
+    throw new Error('This program was shared from a newer version of VoltLift. Update the app and try again.');
+  }
+  if (!isProgram(json.program) || !hasValidSessions(json.program)) {
+    throw new Error('The package does not contain a valid program.');
+  }
+  if (!optional(json.program.progressionRules, rules => Array.isArray(rules) && rules.every(isExerciseProgressionRule))) {
+    throw new Error('The package contains invalid progression rules.');
+  }
+  if (!Array.isArray(json.templates) || !json.templates.every(isWorkoutSession)) {
+    throw new Error('The package contains invalid workout templates.');
+  }
+  if (!Array.isArray(json.customExercises) || !json.customExercises.every(isCustomExercise)) {
+    throw new Error('The package contains invalid custom exercises.');
+  }
+
+  const pkg = json as ProgramPackage;
+
+  const templateIds = new Set(pkg.templates.map(t => t.id));
+  const missingTemplates = Array.from(getProgramTemplateIds(pkg.program)).filter(id => !templateIds.has(id));
+  if (missingTemplates.length > 0) {
+    throw new Error(`The package is missing workout templates: ${missingTemplates.join(', ')}`);
+  }
+
+  const knownExercises = new Set([...EXERCISE_LIBRARY, ...pkg.customExercises].map(e => e.id));
+  const unknownExercises = Array.from(getReferencedExerciseIds(pkg.program, pkg.templates))
+    .filter(id => !knownExercises.has(id));
+  if (unknownExercises.length > 0) {
+    throw new Error(`The package references unknown exercises: ${unknownExercises.join(', ')}`);
+  }
+
+  return pkg;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+const sameExercises = (a: WorkoutSession, b: WorkoutSession) =>
+  a.logs.length === b.logs.length && a.logs.every((log, i) => log.exerciseId === b.logs[i].exerciseId);
+
+/**
+ * "Name", or "Name (2)", "Name (3)"... when a local program already uses it
+ */
+function uniqueName(name: string, taken: string[]): string {
+  const names = new Set(taken.map(n => n.toLowerCase()));
+  if (!names.has(name.toLowerCase())) return name;
+
+  let n = 2;
+  while (names.has(`${name} (${n})`.toLowerCase())) n++;
+  return `${name} (${n})`;
+}
+
+/**
+ * Prepare a validated package for adding to the local library
+ *
+ * The program always gets a new id. Templates are reused when a local template
+ * has the same id and exercises, custom exercises when one with the same id or
+ * name exists; everything else gets a new id and references are rewritten.
+ */
+export function importProgramPackage(
+  pkg: ProgramPackage,
+  local: LocalLibrary,
+  options: { now?: number; makeId?: () => string } = {}
+): PackageImport {
+  const { now = Date.now(), makeId = uuidv4 } = options;
+  const idMap: Record<string, string> = {};
+
+  // Custom exercises
+  const localExercises = [...local.customExercises, ...EXERCISE_LIBRARY];
+  const customExercises: Exercise[] = [];
+  pkg.customExercises.forEach(exercise => {
+    const match =
+      local.customExercises.find(e => e.id === exercise.id && e.name === exercise.name) ||
+      localExercises.find(e => e.name.toLowerCase() === exercise.name.toLowerCase());
+
+    if (match) {
+      idMap[exercise.id] = match.id;
+    } else {
+      const id = `custom-${makeId()}`;
+      idMap[exercise.id] = id;
+      customExercises.push({ ...exercise, id });
+    }
+  });
+  const exerciseId = (id: string) => idMap[id] || id;
+
+  // Templates
+  const templates: WorkoutSession[] = [];
+  pkg.templates.forEach(template => {
+    const logs = template.logs.map(log => ({ ...log, exerciseId: exerciseId(log.exerciseId) }));
+    const remapped: WorkoutSession = { ...template, logs, status: 'template' };
+    const existing = local.templates.find(t => t.id === template.id);
+
+    if (existing && sameExercises(existing, remapped)) return;
+
+    const id = makeId();
+    idMap[template.id] = id;
+    templates.push({ ...remapped, id, updatedAt: now });
+  });
+  const templateId = (id: string) => idMap[id] || id;
+
+  // Program
+  const { program } = pkg;
+  const remapSessions = (sessions: Program['sessions']) =>
+    sessions.map(s => ({
+      ...s,
+      templateId: templateId(s.templateId),
+      ...(s.exercises && { exercises: s.exercises.map(p => ({ ...p, exerciseId: exerciseId(p.exerciseId) })) }),
+    }));
+
+  return {
+    program: {
+      ...program,
+      id: makeId(),
+      name: uniqueName(program.name, local.programs.map(p => p.name)),
+      sessions: remapSessions(program.sessions),
+      ...(program.frequencyVariants && {
+        frequencyVariants: Object.fromEntries(
+          Object.entries(program.frequencyVariants).map(([frequency, variant]) => [
+            frequency,
+            { ...variant, sessions: remapSessions(variant.sessions) },
+          ])
+        ),
+      }),
+      ...(program.progressionRules && {
+        progressionRules: program.progressionRules.map(r => ({
+          ...r,
+          exerciseId: exerciseId(r.exerciseId),
+          ...(r.templateIds && { templateIds: r.templateIds.map(templateId) }),
+        })),
+      }),
+      updatedAt: now,
+    },
+    templates,
+    customExercises,
+    idMap,
+  };
+}
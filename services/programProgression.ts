@@ -0,0 +1,371 @@
+/**
+ * Program Progression Rules
+ *
+ * Evaluates the declarative progression rules attached to a program's exercises
+ * (linear with failure resets, double progression, RPE targets, 5/3/1 waves)
+ * after each session, and prescribes the sets for the next one. Sessions can
+ * also carry a fixed per-week prescription written in the Program Builder.
+ */
+
+import {
+  Program,
+  E1RMFormula,
+  ExerciseLog,
+  ExercisePrescription,
+  SetLog,
+  ExerciseProgressionRule,
+  ProgressionRule,
+  ProgressionState,
+  TrainingMax,
+  UnitLoad,
+  WorkoutSession,
+} from '../types';
+import { estimateSet1RM } from './strengthEstimation';
+import { LoadRounding, roundToAchievableLoad } from './loadRounding';
+import { fromDisplayWeight, roundToDisplayStep } from '../utils/conversions';
+
+type Units = 'kg' | 'lbs';
+
+export interface PrescribedSet {
+  reps: number;
+  weight: number;
+  rpe?: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Rule loads are written per unit; progression state is stored in kg
+ */
+const loadFor = (load: UnitLoad, units: Units) => fromDisplayWeight(load[units], units);
+
+export function roundToStep(value: number, step: number): number {
+  return step > 0 ? Math.round(value / step) * step : value;
+}
+
+/**
+ * Round a kg load to the user's plate step (e.g. 5 lbs) in their own units,
+ * or to a load the exercise can be set up with at the gym
+ */
+const roundLoad = (kg: number, step: UnitLoad, units: Units, load?: LoadRounding) =>
+  load ? roundToAchievableLoad(kg, load) : roundToDisplayStep(kg, units, step[units]);
+
+/**
+ * Completed working sets (warmups excluded)
+ */
+const workingSets = (sets: SetLog[]) => sets.filter(s => s.completed && s.type !== 'W');
+
+const topWeight = (sets: SetLog[]) => Math.max(0, ...sets.map(s => s.weight));
+
+/**
+ * Whether at least `sets` sets of `reps` were completed at `weight` or heavier
+ */
+function hitTarget(sets: SetLog[], target: { sets: number; reps: number }, weight: number): boolean {
+  return sets.filter(s => s.reps >= target.reps && s.weight >= weight - 0.01).length >= target.sets;
+}
+
+/**
+ * Every template a program can schedule, including frequency variants
+ */
+export function getProgramTemplateIds(program: Program): Set<string> {
+  const sessions = [
+    ...program.sessions,
+    ...Object.values(program.frequencyVariants || {}).flatMap(v => v.sessions),
+  ];
+  return new Set(sessions.map(s => s.templateId));
+}
+
+/**
+ * The rule for an exercise in a given template (template-specific rules win)
+ */
+export function findProgressionRule(
+  program: Program,
+  exerciseId: string,
+  templateId?: string
+): ExerciseProgressionRule | undefined {
+  const candidates = (program.progressionRules || []).filter(r => r.exerciseId === exerciseId);
+  return (
+    candidates.find(r => templateId && r.templateIds?.includes(templateId)) ||
+    candidates.find(r => !r.templateIds)
+  );
+}
+
+// ============================================================================
+// Prescription
+// ============================================================================
+
+/**
+ * Sets x reps for the current stage of a linear rule
+ */
+function linearTarget(rule: Extract<ProgressionRule, { type: 'linear' }>, state: ProgressionState) {
+  const stage = state.stage || 0;
+  return stage > 0 && rule.failureStages?.[stage - 1]
+    ? rule.failureStages[stage - 1]
+    : { sets: rule.sets, reps: rule.reps };
+}
+
+/**
+ * Sets to prescribe for the next session
+ * @param load - rounds percentage loads to what the exercise and gym allow
+ */
+export function prescribeSets(rule: ProgressionRule, state: ProgressionState, units: Units, load?: LoadRounding): PrescribedSet[] {
+  const repeat = (sets: number, reps: number, weight: number) =>
+    Array.from({ length: sets }, () => ({ reps, weight }));
+
+  switch (rule.type) {
+    case 'linear': {
+      const { sets, reps } = linearTarget(rule, state);
+      return repeat(sets, reps, state.weight);
+    }
+    case 'double':
+      return repeat(rule.sets, state.targetReps ?? rule.minReps, state.weight);
+    case 'rpe':
+      return repeat(rule.sets, rule.reps, state.weight);
+    case 'wave': {
+      const week = rule.weeks[(state.week || 0) % rule.weeks.length];
+      return week.reps.map((reps, i) => ({
+        reps,
+        weight: roundLoad((state.trainingMax || 0) * week.percentages[i], rule.rounding, units, load),
+      }));
+    }
+  }
+}
+
+/**
+ * Prescribed sets for an exercise of an active program, or null when the
+ * exercise has no rule or hasn't been trained under it yet
+ */
+export function prescribeExercise(
+  program: Program,
+  templateId: string,
+  exerciseId: string,
+  progression: Record<string, ProgressionState> | undefined,
+  units: Units,
+  load?: LoadRounding
+): PrescribedSet[] | null {
+  const rule = findProgressionRule(program, exerciseId, templateId);
+  const state = rule && progression?.[rule.id];
+  return rule && state ? prescribeSets(rule.rule, state, units, load) : null;
+}
+
+// ============================================================================
+// Week Prescriptions
+// ============================================================================
+
+const PERCENTAGE_ROUNDING: UnitLoad = { kg: 2.5, lbs: 5 };
+
+/**
+ * The week prescription for a template when it is the active program's
+ * current session
+ */
+export function getSessionPrescription(
+  program: Program,
+  currentSessionIndex: number,
+  templateId: string
+): ExercisePrescription[] | undefined {
+  const session = program.sessions[currentSessionIndex];
+  return session?.templateId === templateId ? session.exercises : undefined;
+}
+
+/**
+ * Expand one exercise's prescription into sets
+ *
+ * %TM loads need a training max; otherwise the fallback weight (usually
+ * last session's) is used.
+ */
+export function expandPrescription(
+  prescription: ExercisePrescription,
+  units: Units,
+  trainingMax?: number,
+  fallbackWeight: number = 0,
+  load?: LoadRounding
+): PrescribedSet[] {
+  const weight = prescription.percentage && trainingMax
+    ? roundLoad(trainingMax * (prescription.percentage / 100), PERCENTAGE_ROUNDING, units, load)
+    : fallbackWeight;
+
+  return Array.from({ length: prescription.sets }, () => ({
+    reps: prescription.reps,
+    weight,
+    ...(prescription.rpe !== undefined && { rpe: prescription.rpe }),
+  }));
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Starting state the first time an exercise is trained under a rule,
+ * taken from what the user actually lifted
+ */
+function initialState(
+  rule: ProgressionRule,
+  sets: SetLog[],
+  units: Units,
+  trainingMax: TrainingMax | undefined,
+  now: number,
+  formula: E1RMFormula
+): ProgressionState {
+  const weight = topWeight(sets);
+
+  switch (rule.type) {
+    case 'linear':
+      return { weight, stage: 0, failures: 0, updatedAt: now };
+    case 'double':
+      return { weight, targetReps: rule.minReps, updatedAt: now };
+    case 'rpe':
+      return { weight, updatedAt: now };
+    case 'wave': {
+      // 90% of the best estimated 1RM, unless the user already set a training max
+      const best1RM = Math.max(0, ...sets.map(s => estimateSet1RM(s, formula).estimated1RM));
+      return {
+        weight: 0,
+        trainingMax: trainingMax?.value ?? roundLoad(best1RM * 0.9, rule.rounding, units),
+        week: 0,
+        updatedAt: now,
+      };
+    }
+  }
+}
+
+/**
+ * Advance one exercise's progression from the sets just performed
+ * @param load - the rounding the sets were prescribed with, so a wave's AMRAP target matches
+ */
+export function advanceProgression(
+  rule: ProgressionRule,
+  state: ProgressionState,
+  sets: SetLog[],
+  units: Units,
+  now: number = Date.now(),
+  load?: LoadRounding
+): ProgressionState {
+  switch (rule.type) {
+    case 'linear': {
+      if (hitTarget(sets, linearTarget(rule, state), state.weight)) {
+        // Success: add weight, stay at the current stage (GZCLP keeps e.g. 6x2 until it fails too)
+        return { ...state, weight: state.weight + loadFor(rule.increment, units), failures: 0, updatedAt: now };
+      }
+
+      const failures = (state.failures || 0) + 1;
+      if (failures < rule.failuresBeforeReset) {
+        return { ...state, failures, updatedAt: now };
+      }
+
+      const stage = state.stage || 0;
+      if (rule.failureStages && stage < rule.failureStages.length) {
+        return { ...state, stage: stage + 1, failures: 0, updatedAt: now };
+      }
+
+      return {
+        ...state,
+        weight: roundLoad(state.weight * rule.resetPercent, rule.increment, units),
+        stage: 0,
+        failures: 0,
+        updatedAt: now,
+      };
+    }
+
+    case 'double': {
+      const targetReps = state.targetReps ?? rule.minReps;
+      if (!hitTarget(sets, { sets: rule.sets, reps: targetReps }, state.weight)) {
+        return { ...state, updatedAt: now };
+      }
+      if (targetReps >= rule.maxReps) {
+        return { ...state, weight: state.weight + loadFor(rule.increment, units), targetReps: rule.minReps, updatedAt: now };
+      }
+      return { ...state, targetReps: targetReps + 1, updatedAt: now };
+    }
+
+    case 'rpe': {
+      const rated = sets.filter(s => s.rpe !== undefined);
+      const lastRPE = rated[rated.length - 1]?.rpe;
+      if (lastRPE === undefined) {
+        // Nothing to regulate on - repeat the weight
+        return { ...state, updatedAt: now };
+      }
+
+      const working = topWeight(sets) || state.weight;
+      const adjusted = working * (1 + (rule.targetRPE - lastRPE) * rule.loadPerRPE);
+      return { ...state, weight: roundLoad(adjusted, rule.rounding, units), updatedAt: now };
+    }
+
+    case 'wave': {
+      const week = state.week || 0;
+      const prescribed = prescribeSets(rule, state, units, load);
+      const amrap = prescribed[prescribed.length - 1];
+      const missedAmrap = !hitTarget(sets, { sets: 1, reps: amrap.reps }, amrap.weight);
+
+      if (missedAmrap) {
+        return {
+          ...state,
+          trainingMax: roundLoad((state.trainingMax || 0) * rule.resetPercent, rule.rounding, units),
+          week: 0,
+          updatedAt: now,
+        };
+      }
+
+      if (week + 1 >= rule.weeks.length) {
+        return {
+          ...state,
+          trainingMax: (state.trainingMax || 0) + loadFor(rule.trainingMaxIncrement, units),
+          week: 0,
+          updatedAt: now,
+        };
+      }
+      return { ...state, week: week + 1, updatedAt: now };
+    }
+  }
+}
+
+/**
+ * Apply a completed workout to the active program's progression
+ *
+ * Only workouts started from one of the program's templates count. Exercises
+ * without a rule, or skipped in this session, keep their state.
+ * `getLoad` should return the rounding the session's sets were prescribed with.
+ * @returns the same object when nothing changed
+ */
+export function evaluateProgramProgression(
+  program: Program,
+  workout: WorkoutSession,
+  progression: Record<string, ProgressionState> = {},
+  options: {
+    units: Units;
+    trainingMaxes?: Record<string, TrainingMax>;
+    now?: number;
+    formula?: E1RMFormula;
+    getLoad?: (exerciseId: string) => LoadRounding | undefined;
+  }
+): Record<string, ProgressionState> {
+  const { units, trainingMaxes, now = Date.now(), formula = 'auto', getLoad } = options;
+  if (!program.progressionRules?.length) return progression;
+  if (!workout.sourceTemplateId || !getProgramTemplateIds(program).has(workout.sourceTemplateId)) {
+    return progression;
+  }
+
+  let updated = progression;
+  workout.logs.forEach((log: ExerciseLog) => {
+    const rule = findProgressionRule(program, log.exerciseId, workout.sourceTemplateId);
+    const sets = workingSets(log.sets);
+    if (!rule || sets.length === 0) return;
+
+    const state = updated[rule.id];
+    const load = getLoad?.(log.exerciseId);
+    if (!state) {
+      const initial = initialState(rule.rule, sets, units, trainingMaxes?.[log.exerciseId], now, formula);
+      // A wave's first session only calibrates the training max; nothing was prescribed yet
+      updated = {
+        ...updated,
+        [rule.id]: rule.rule.type === 'wave' ? initial : advanceProgression(rule.rule, initial, sets, units, now, load),
+      };
+      return;
+    }
+    updated = { ...updated, [rule.id]: advanceProgression(rule.rule, state, sets, units, now, load) };
+  });
+
+  return updated;
+}
@@ -1,5 +1,5 @@
-import { WorkoutSession, ExerciseLog } from '../types';
-import { calculate1RM } from './strengthScore';
+import { WorkoutSession, ExerciseLog, E1RMFormula } from '../types';
+import { estimateSet1RM } from './strengthEstimation';
 
 export interface ProgressionDataPoint {
   date: string; // YYYY-MM-DD
@@ -15,6 +15,7 @@ export interface ExerciseProgression {
   exerciseName: string;
   dataPoints: ProgressionDataPoint[];
   best1RM: number;
+  formula: E1RMFormula; // Formula behind every value
   totalWorkouts: number;
   avgImprovement: number; // % improvement over time period
 }
@@ -26,7 +27,8 @@ export function getExerciseProgression(
   exerciseId: string,
   exerciseName: string,
   history: WorkoutSession[],
-  daysBack: number = 90
+  daysBack: number = 90,
+  formula: E1RMFormula = 'auto'
 ): ExerciseProgression {
   const cutoffDate = Date.now() - (daysBack * 24 * 60 * 60 * 1000);
 
@@ -49,7 +51,7 @@ export function getExerciseProgression(
 
       exerciseLog.sets.forEach(set => {
         if (set.completed && set.weight > 0 && set.reps > 0) {
-          const { estimated1RM } = calculate1RM(set.weight, set.reps);
+          const { estimated1RM } = estimateSet1RM(set, formula);
 
           if (!bestSet || estimated1RM > bestSet.estimated1RM) {
             bestSet = {
@@ -96,6 +98,7 @@ export function getExerciseProgression(
     exerciseName,
     dataPoints,
     best1RM,
+    formula,
     totalWorkouts: dataPoints.length,
     avgImprovement
   };
@@ -107,10 +110,11 @@ export function getExerciseProgression(
 export function getMultipleExerciseProgressions(
   exercises: { id: string; name: string }[],
   history: WorkoutSession[],
-  daysBack: number = 90
+  daysBack: number = 90,
+  formula: E1RMFormula = 'auto'
 ): ExerciseProgression[] {
   return exercises
-    .map(ex => getExerciseProgression(ex.id, ex.name, history, daysBack))
+    .map(ex => getExerciseProgression(ex.id, ex.name, history, daysBack, formula))
     .filter(prog => prog.dataPoints.length > 0); // Only return exercises with data
 }
 
@@ -13,8 +13,10 @@
  * - Phase 2: Personalized learning from user behavior
  */
 
-import { SetLog, ExerciseLog, DailyLog, WorkoutSession, MuscleGroup, SuggestionFeedback } from '../types';
+import { SetLog, ExerciseLog, DailyLog, WorkoutSession, MuscleGroup, SuggestionFeedback, E1RMFormula } from '../types';
 import { EXERCISE_LIBRARY } from '../constants';
+import { LoadRounding, nextAchievableLoad, roundToAchievableLoad } from './loadRounding';
+import { estimateSuggestion1RM } from './strengthEstimation';
 
 export type Confidence = 'high' | 'medium' | 'low';
 
@@ -33,31 +35,6 @@ export interface ProgressiveSuggestion {
   mathExplanation?: string; // "75% of 120kg 1RM = 90kg"
 }
 
-/**
- * Estimate 1RM using validated formulas
- *
- * Based on research:
- * - Brzycki: Most accurate for 1-5 reps (more conservative)
- * - Epley: Accurate for 2-10 reps (more aggressive)
- *
- * Research sources:
- * - Brzycki formula has lowest error for low reps (<5)
- * - Epley and Brzycki converge at 10 reps
- */
-export function estimate1RM(weight: number, reps: number): number {
-  if (reps === 1) return weight;
-
-  // Brzycki formula (most accurate for <5 reps)
-  // Formula: weight * (36 / (37 - reps))
-  if (reps <= 5) {
-    return Math.round(weight * (36 / (37 - reps)));
-  }
-
-  // Epley formula (accurate for 2-10 reps)
-  // Formula: weight * (1 + reps/30)
-  return Math.round(weight * (1 + reps / 30));
-}
-
 /**
  * Phase 2 AI: Adjust suggestion bias based on user acceptance patterns
  *
@@ -220,6 +197,16 @@ export function calculateRecoveryScore(
   return Math.max(0, Math.min(10, score));
 }
 
+/**
+ * Round a suggested load (kg) to one that can be set up, or to whole kg
+ * without rounding info. An increase never rounds back to the last load.
+ */
+function toAchievable(kg: number, lastWeight: number, load?: LoadRounding): number {
+  if (!load) return Math.round(kg);
+  const rounded = roundToAchievableLoad(kg, load);
+  return kg > lastWeight && rounded <= lastWeight ? nextAchievableLoad(lastWeight, load) : rounded;
+}
+
 /**
  * Calculate progressive overload suggestion for next set
  *
@@ -236,7 +223,9 @@ export function getSuggestion(
   history: WorkoutSession[],
   currentSessionStart: number,
   experienceLevel: 'Beginner' | 'Intermediate' | 'Advanced' = 'Intermediate',
-  suggestionHistory?: SuggestionFeedback[]
+  suggestionHistory?: SuggestionFeedback[],
+  load?: LoadRounding, // Rounds suggested loads to what the exercise and gym allow
+  formula: E1RMFormula = 'auto'
 ): ProgressiveSuggestion | null {
   const exercise = EXERCISE_LIBRARY.find(e => e.id === exerciseId);
 
@@ -276,7 +265,7 @@ export function getSuggestion(
   const { weight, reps, rpe } = topSet;
 
   // Calculate estimated 1RM and current intensity
-  const estimated1RM = estimate1RM(weight, reps);
+  const estimated1RM = estimateSuggestion1RM(topSet, formula).estimated1RM;
   const currentIntensity = Math.round((weight / estimated1RM) * 100);
 
   // Phase 2: Personalized learning
@@ -285,7 +274,7 @@ export function getSuggestion(
 
   // HEURISTIC 1: Under-Recovered → Deload or Maintain
   if (recoveryScore < 5) {
-    const deloadWeight = Math.round(weight * 0.85);
+    const deloadWeight = toAchievable(weight * 0.85, weight, load);
     return {
       weight: deloadWeight,
       reps: [6, 8],
@@ -346,7 +335,7 @@ export function getSuggestion(
   if (rpe && rpe < 7 && recoveryScore >= 7) {
     // User left reps in the tank + well recovered → PUSH
     const baseWeight = Math.round(weight * (1 + progressionRate));
-    const newWeight = Math.round(baseWeight * userBias);
+    const newWeight = toAchievable(baseWeight * userBias, weight, load);
     return {
       weight: newWeight,
       reps: targetReps,
@@ -363,7 +352,7 @@ export function getSuggestion(
   if (rpe && rpe >= 8 && rpe <= 9 && recoveryScore >= 7) {
     // Perfect intensity + good recovery → Small progression
     const baseWeight = Math.round(weight * (1 + progressionRate));
-    const newWeight = Math.round(baseWeight * userBias);
+    const newWeight = toAchievable(baseWeight * userBias, weight, load);
     return {
       weight: newWeight,
       reps: targetReps,
@@ -385,7 +374,7 @@ export function getSuggestion(
       // Use personalized rate or cap at 5% if at high intensity
       let repProgRate = currentIntensity >= 85 ? Math.min(baseProgressionRate, 0.025) : Math.max(baseProgressionRate, 0.05);
       const baseWeight = Math.round(weight * (1 + repProgRate));
-      const newWeight = Math.round(baseWeight * userBias);
+      const newWeight = toAchievable(baseWeight * userBias, weight, load);
       return {
         weight: newWeight,
         reps: [6, 10],
@@ -402,7 +391,7 @@ export function getSuggestion(
     if (reps >= 8 && reps <= 11 && recoveryScore >= 6) {
       // In hypertrophy range → Use personalized progression
       const baseWeight = Math.round(weight * (1 + progressionRate));
-      const newWeight = Math.round(baseWeight * userBias);
+      const newWeight = toAchievable(baseWeight * userBias, weight, load);
       return {
         weight: newWeight,
         reps: [reps, reps + 1],
@@ -434,7 +423,7 @@ export function getSuggestion(
 
   // HEURISTIC 4: Default Conservative Progression with Personalization
   const baseWeight = Math.round(weight * (1 + progressionRate));
-  const defaultNewWeight = Math.round(baseWeight * userBias);
+  const defaultNewWeight = toAchievable(baseWeight * userBias, weight, load);
   return {
     weight: defaultNewWeight,
     reps: [reps, reps + 1] as [number, number],
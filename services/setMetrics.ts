@@ -0,0 +1,275 @@
+/**
+ * Set Metrics Service
+ * Time, distance and pace handling for exercises that aren't logged as weight × reps
+ * (planks, rowing, carries) - see Exercise.metric
+ */
+
+import {
+  Exercise,
+  ExerciseMetric,
+  SetLog,
+  ExercisePRHistory,
+  PersonalRecord,
+  PRType,
+} from '../types';
+import { EXERCISE_LIBRARY } from '../constants';
+import { STORAGE_UNIT, toDisplayWeight, WeightUnit } from '../utils/conversions';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Pace is stored as seconds per 500m (rowing split convention) */
+export const PACE_DISTANCE_METERS = 500;
+
+/** Pace PRs only compare sets whose distances are within 10% of each other */
+const COMPARABLE_PACE_DISTANCE_RATIO = 1.1;
+
+export const METRIC_FIELDS: Record<ExerciseMetric, { weight: boolean; reps: boolean; duration: boolean; distance: boolean }> = {
+  weight_reps: { weight: true, reps: true, duration: false, distance: false },
+  duration: { weight: false, reps: false, duration: true, distance: false },
+  distance_duration: { weight: false, reps: false, duration: true, distance: true },
+  weight_distance: { weight: true, reps: false, duration: false, distance: true },
+};
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Resolve which metric an exercise tracks (library first, then custom exercises)
+ */
+export function getExerciseMetric(exerciseId: string, customExercises: Exercise[] = []): ExerciseMetric {
+  const exercise = EXERCISE_LIBRARY.find(e => e.id === exerciseId) ||
+    customExercises.find(e => e.id === exerciseId);
+  return exercise?.metric || 'weight_reps';
+}
+
+export function isTimeOrDistanceMetric(metric: ExerciseMetric): boolean {
+  return metric !== 'weight_reps';
+}
+
+/**
+ * Whether a set has the values its metric needs to be marked complete
+ */
+export function isSetLoggable(set: SetLog, metric: ExerciseMetric): boolean {
+  switch (metric) {
+    case 'duration':
+      return (set.duration || 0) > 0;
+    case 'distance_duration':
+      return (set.distance || 0) > 0 && (set.duration || 0) > 0;
+    case 'weight_distance':
+      return set.weight > 0 && (set.distance || 0) > 0;
+    default:
+      return set.weight > 0 && set.reps > 0;
+  }
+}
+
+// ============================================================================
+// Calculations
+// ============================================================================
+
+/**
+ * Volume (load × reps) contributed by a set
+ * Time/distance sets move no tonnage, unless they were logged with reps before
+ * the exercise tracked a metric (no duration or distance recorded)
+ */
+export function getSetVolume(set: SetLog, metric: ExerciseMetric = 'weight_reps'): number {
+  if (metric === 'weight_reps' || (set.duration === undefined && set.distance === undefined)) {
+    return set.weight * set.reps;
+  }
+  return 0;
+}
+
+/**
+ * Total volume of completed working sets in a workout
+ */
+export function getWorkoutVolume(
+  logs: { exerciseId: string; sets: SetLog[] }[],
+  customExercises: Exercise[] = []
+): number {
+  return logs.reduce((total, log) => {
+    const metric = getExerciseMetric(log.exerciseId, customExercises);
+    return total + log.sets
+      .filter(s => s.completed && s.type !== 'W')
+      .reduce((sum, set) => sum + getSetVolume(set, metric), 0);
+  }, 0);
+}
+
+/**
+ * Seconds per 500m, or null when distance/duration are missing
+ */
+export function calculatePace(distanceMeters: number | undefined, durationSeconds: number | undefined): number | null {
+  if (!distanceMeters || !durationSeconds || distanceMeters <= 0 || durationSeconds <= 0) return null;
+  return Math.round((durationSeconds / distanceMeters) * PACE_DISTANCE_METERS * 10) / 10;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * 75 → "1:15", 3725 → "1:02:05"
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(mins)}:${pad(secs)}` : `${mins}:${pad(secs)}`;
+}
+
+/**
+ * 850 → "850 m", 2000 → "2.00 km"
+ */
+export function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+}
+
+export function formatPace(secondsPer500m: number): string {
+  return `${formatDuration(secondsPer500m)} /500m`;
+}
+
+/**
+ * Display a PR value with the unit for its type
+ * Weight and volume values are stored in kg and shown in the user's units
+ */
+export function formatPRValue(type: PRType | '1rm', value: number, units: WeightUnit = STORAGE_UNIT): string {
+  switch (type) {
+    case 'reps':
+      return `${value} REPS`;
+    case 'duration':
+      return formatDuration(value);
+    case 'distance':
+      return formatDistance(value);
+    case 'pace':
+      return formatPace(value);
+    default:
+      return `${toDisplayWeight(value, units)} ${units.toUpperCase()}`;
+  }
+}
+
+// ============================================================================
+// Personal Records
+// ============================================================================
+
+/**
+ * Fastest pace PR over a distance comparable to this one
+ * A 500m sprint is not a faster 2k, so pace records are kept per distance
+ */
+export function getBestPaceAtDistance(
+  prs: ExercisePRHistory | undefined,
+  distanceMeters: number
+): PersonalRecord | undefined {
+  return prs?.records
+    .filter(r => r.type === 'pace' && r.distance !== undefined &&
+      Math.max(r.distance, distanceMeters) <= Math.min(r.distance, distanceMeters) * COMPARABLE_PACE_DISTANCE_RATIO)
+    .reduce<PersonalRecord | undefined>((best, r) => (!best || r.value < best.value ? r : best), undefined);
+}
+
+/**
+ * Fold one exercise's completed working sets from a workout into its PR history
+ * Returns a new history plus the records that were beaten
+ */
+export function updateExercisePRs(
+  existing: ExercisePRHistory | undefined,
+  exerciseId: string,
+  sets: SetLog[],
+  metric: ExerciseMetric,
+  date: number
+): { prs: ExercisePRHistory; newRecords: PersonalRecord[] } {
+  const prs: ExercisePRHistory = existing
+    ? { ...existing, records: [...existing.records] }
+    : { exerciseId, records: [] };
+  const newRecords: PersonalRecord[] = [];
+
+  const validSets = sets.filter(s => s.completed && s.type !== 'W');
+  if (validSets.length === 0) return { prs, newRecords };
+
+  const record = (key: 'bestWeight' | 'bestVolume' | 'bestReps' | 'bestDuration' | 'bestDistance', pr: PersonalRecord) => {
+    prs[key] = pr;
+    prs.records.unshift(pr);
+    newRecords.push(pr);
+  };
+
+  const maxBy = (value: (set: SetLog) => number) =>
+    validSets.reduce((max, set) => (value(set) > value(max) ? set : max), validSets[0]);
+
+  const fields = METRIC_FIELDS[metric];
+  // Sets logged as weight × reps before the exercise tracked time/distance
+  const legacySets = isTimeOrDistanceMetric(metric) &&
+    validSets.every(s => s.duration === undefined && s.distance === undefined);
+
+  if (fields.weight || legacySets) {
+    const maxWeightSet = maxBy(s => s.weight);
+    if (maxWeightSet.weight > 0 && maxWeightSet.weight > (prs.bestWeight?.value || 0)) {
+      record('bestWeight', {
+        value: maxWeightSet.weight,
+        date,
+        type: 'weight',
+        ...(fields.distance ? { distance: maxWeightSet.distance } : { reps: maxWeightSet.reps }),
+      });
+    }
+  }
+
+  if (fields.reps || legacySets) {
+    const totalVolume = validSets.reduce((sum, set) => sum + set.weight * set.reps, 0);
+    if (totalVolume > 0 && totalVolume > (prs.bestVolume?.value || 0)) {
+      record('bestVolume', {
+        value: totalVolume,
+        date,
+        type: 'volume',
+        setDetails: validSets.map(s => ({ weight: s.weight, reps: s.reps })),
+      });
+    }
+
+    const maxRepsSet = maxBy(s => s.reps);
+    if (maxRepsSet.reps > 0 && maxRepsSet.reps > (prs.bestReps?.value || 0)) {
+      record('bestReps', { value: maxRepsSet.reps, date, type: 'reps', weight: maxRepsSet.weight });
+    }
+  }
+
+  if (fields.duration) {
+    const longestSet = maxBy(s => s.duration || 0);
+    const duration = longestSet.duration || 0;
+    if (duration > 0 && duration > (prs.bestDuration?.value || 0)) {
+      record('bestDuration', { value: duration, date, type: 'duration', distance: longestSet.distance });
+    }
+  }
+
+  if (fields.distance) {
+    const furthestSet = maxBy(s => s.distance || 0);
+    const distance = furthestSet.distance || 0;
+    if (distance > 0 && distance > (prs.bestDistance?.value || 0)) {
+      record('bestDistance', {
+        value: distance,
+        date,
+        type: 'distance',
+        duration: furthestSet.duration,
+        weight: fields.weight ? furthestSet.weight : undefined,
+      });
+    }
+  }
+
+  if (fields.duration && fields.distance) {
+    // Lower is better for pace; fastest first so one set per distance can set the record
+    const paced = validSets
+      .map(set => ({ set, pace: calculatePace(set.distance, set.duration) }))
+      .filter((p): p is { set: SetLog; pace: number } => p.pace !== null)
+      .sort((a, b) => a.pace - b.pace);
+
+    paced.forEach(({ set, pace }) => {
+      const best = getBestPaceAtDistance(prs, set.distance!);
+      if (best && pace >= best.value) return;
+
+      const pr: PersonalRecord = { value: pace, date, type: 'pace', distance: set.distance, duration: set.duration };
+      prs.records.unshift(pr);
+      newRecords.push(pr);
+      // bestPace stays the fastest at any distance, for display
+      if (!prs.bestPace || pace < prs.bestPace.value) prs.bestPace = pr;
+    });
+  }
+
+  return { prs, newRecords };
+}
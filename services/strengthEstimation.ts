@@ -0,0 +1,183 @@
+/**
+ * Strength Estimation Service
+ *
+ * The single source of estimated 1RMs, used by PR detection, forecasts,
+ * training max suggestions and progression charts.
+ *
+ * Formulas:
+ * - Epley: 1RM = Weight × (1 + Reps / 30)
+ * - Brzycki: 1RM = Weight × (36 / (37 - Reps))
+ * - Lombardi: 1RM = Weight × Reps^0.10
+ * - Wathan: 1RM = 100 × Weight / (48.8 + 53.8 × e^(-0.075 × Reps))
+ * - RPE: Weight / %1RM from the reps-in-reserve chart, for sets with RPE logged
+ *
+ * 'auto' is the long-standing default: Epley up to 12 reps, where it is most
+ * accurate, and the more conservative Brzycki above. Suggestions and the
+ * analytics time series have their own 'auto' (see estimateSuggestion1RM).
+ */
+
+import { E1RMFormula, SetLog } from '../types';
+
+export type RepFormula = Exclude<E1RMFormula, 'auto' | 'rpe'>;
+
+export interface OneRepMax {
+  estimated1RM: number;
+  fromWeight: number;
+  fromReps: number;
+  fromRPE?: number; // Set when the estimate came from the RPE chart
+  formula: RepFormula | 'rpe' | 'actual';
+}
+
+export const E1RM_FORMULAS: { id: E1RMFormula; label: string; description: string }[] = [
+  { id: 'auto', label: 'Auto', description: 'Epley up to 12 reps, Brzycki above' },
+  { id: 'epley', label: 'Epley', description: 'Weight × (1 + reps / 30)' },
+  { id: 'brzycki', label: 'Brzycki', description: 'Weight × 36 / (37 - reps)' },
+  { id: 'lombardi', label: 'Lombardi', description: 'Weight × reps^0.10' },
+  { id: 'wathan', label: 'Wathan', description: '100 × weight / (48.8 + 53.8 × e^(-0.075 × reps))' },
+  { id: 'rpe', label: 'RPE', description: 'Reps in reserve from logged RPE, Auto without it' },
+];
+
+const AUTO_BRZYCKI_ABOVE_REPS = 12;
+const SUGGESTION_BRZYCKI_MAX_REPS = 5;
+const BRZYCKI_MAX_REPS = 36; // 37 reps puts the denominator at zero
+
+/**
+ * %1RM by reps to failure (reps performed + reps in reserve), in half-rep steps
+ * from 1. A set of 5 @ RPE 8 (2 in reserve) reads the 7-reps-to-failure entry.
+ *
+ * Source: Tuchscherer, The Reactive Training Manual (RTS RPE chart)
+ */
+export const RPE_CHART_PERCENTAGES = [
+  100, 97.8, 95.5, 93.9, 92.2, 90.7, 89.2, 87.8, 86.3, 85.0,  // 1 - 5.5
+  83.7, 82.4, 81.1, 79.9, 78.6, 77.4, 76.2, 75.1, 73.9, 72.3, // 6 - 10.5
+  70.7, 69.4, 68.0, 66.7, 65.3, 64.0, 62.6, 61.3, 59.9, 58.6  // 11 - 15.5
+];
+
+// The chart covers 1-12 reps at RPE 6.5-10
+export const RPE_CHART_LIMITS = { minRPE: 6.5, maxRPE: 10, maxReps: 12 };
+
+/**
+ * Raw (unrounded) 1RM from a rep-based formula
+ */
+export function applyFormula(weight: number, reps: number, formula: RepFormula): number {
+  switch (formula) {
+    case 'epley':
+      return weight * (1 + reps / 30);
+    case 'brzycki':
+      return weight * (36 / (37 - reps));
+    case 'lombardi':
+      return weight * Math.pow(reps, 0.1);
+    case 'wathan':
+      return (100 * weight) / (48.8 + 53.8 * Math.exp(-0.075 * reps));
+  }
+}
+
+/**
+ * %1RM (0-1) for a set from the RPE chart, or null outside the chart
+ * RPE is rounded to the nearest half point
+ */
+export function getRPEPercentage(reps: number, rpe: number | undefined): number | null {
+  if (rpe === undefined || !Number.isInteger(reps) || reps < 1 || reps > RPE_CHART_LIMITS.maxReps) return null;
+
+  const rounded = Math.round(rpe * 2) / 2;
+  if (rounded < RPE_CHART_LIMITS.minRPE || rounded > RPE_CHART_LIMITS.maxRPE) return null;
+
+  const repsInReserve = 10 - rounded;
+  return RPE_CHART_PERCENTAGES[(reps + repsInReserve - 1) * 2] / 100;
+}
+
+/**
+ * Rep-based formula the estimate will actually use
+ */
+function resolveRepFormula(reps: number, formula: E1RMFormula): RepFormula {
+  if (formula === 'auto' || formula === 'rpe') {
+    return reps > AUTO_BRZYCKI_ABOVE_REPS ? 'brzycki' : 'epley';
+  }
+  if (formula === 'brzycki' && reps > BRZYCKI_MAX_REPS) return 'epley';
+  return formula;
+}
+
+/**
+ * Calculate estimated 1RM (rounded to the nearest whole unit)
+ *
+ * @param weight - Weight lifted (kg)
+ * @param reps - Reps performed
+ * @param formula - User's formula choice (default 'auto')
+ * @param rpe - RPE of the set, used by the 'rpe' formula
+ */
+export function calculate1RM(
+  weight: number,
+  reps: number,
+  formula: E1RMFormula = 'auto',
+  rpe?: number
+): OneRepMax {
+  if (formula === 'rpe') {
+    const percentage = getRPEPercentage(reps, rpe);
+    if (percentage !== null) {
+      return {
+        estimated1RM: Math.round(weight / percentage),
+        fromWeight: weight,
+        fromReps: reps,
+        fromRPE: rpe,
+        formula: 'rpe'
+      };
+    }
+  }
+
+  if (reps === 1) {
+    return {
+      estimated1RM: weight,
+      fromWeight: weight,
+      fromReps: 1,
+      formula: 'actual'
+    };
+  }
+
+  const repFormula = resolveRepFormula(reps, formula);
+  return {
+    estimated1RM: Math.round(applyFormula(weight, reps, repFormula)),
+    fromWeight: weight,
+    fromReps: reps,
+    formula: repFormula
+  };
+}
+
+/**
+ * Estimated 1RM of a logged set, reading its RPE when the formula uses it
+ */
+export function estimateSet1RM(
+  set: Pick<SetLog, 'weight' | 'reps' | 'rpe'>,
+  formula: E1RMFormula = 'auto'
+): OneRepMax {
+  return calculate1RM(set.weight, set.reps, formula, set.rpe);
+}
+
+/**
+ * Estimated 1RM behind load suggestions and the analytics time series
+ * Their 'auto' has always read 2-5 rep sets with Brzycki, the more conservative
+ * formula at low reps, and Epley above. Any other formula applies as chosen.
+ */
+export function estimateSuggestion1RM(
+  set: Pick<SetLog, 'weight' | 'reps' | 'rpe'>,
+  formula: E1RMFormula = 'auto'
+): OneRepMax {
+  if (formula !== 'auto' || set.reps === 1) return estimateSet1RM(set, formula);
+  return calculate1RM(set.weight, set.reps, set.reps <= SUGGESTION_BRZYCKI_MAX_REPS ? 'brzycki' : 'epley');
+}
+
+/**
+ * Get best estimated 1RM from a set of completed sets
+ * Uses the heaviest working set (excluding warmups)
+ */
+export function getBest1RM(sets: SetLog[], formula: E1RMFormula = 'auto'): OneRepMax | null {
+  const workingSets = sets.filter(s => s.completed && s.type !== 'W' && s.weight > 0);
+
+  if (workingSets.length === 0) return null;
+
+  // Find the set with highest estimated 1RM
+  const estimates = workingSets.map(set => estimateSet1RM(set, formula));
+
+  return estimates.reduce((best, current) =>
+    current.estimated1RM > best.estimated1RM ? current : best
+  );
+}
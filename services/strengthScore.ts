@@ -4,23 +4,23 @@
  * Research-backed formulas for tracking strength progression.
  *
  * Key Features:
- * - 1RM estimation (Epley formula - most accurate for 1-10 rep range)
+ * - 1RM estimation (see strengthEstimation for the formulas)
  * - Strength standards (Beginner/Intermediate/Advanced classification)
  * - Normalized strength score for cross-exercise comparison
  * - Percentages for programming (e.g., "work at 80% of 1RM")
  */
 
-import { SetLog, ExercisePRHistory, PersonalRecord } from '../types';
+import { SetLog, ExercisePRHistory, PersonalRecord, ExerciseMetric, E1RMFormula } from '../types';
 import { EXERCISE_LIBRARY } from '../constants';
+import { METRIC_FIELDS, calculatePace, formatDuration, formatDistance, formatPace, getBestPaceAtDistance } from './setMetrics';
+import { formatDisplayWeight, toDisplayWeight, WeightUnit } from '../utils/conversions';
+import { calculate1RM, estimateSet1RM } from './strengthEstimation';
 
-export type StrengthLevel = 'Untrained' | 'Novice' | 'Intermediate' | 'Advanced' | 'Elite';
+// 1RM estimation lives in strengthEstimation; re-exported for existing callers
+export { calculate1RM, getBest1RM } from './strengthEstimation';
+export type { OneRepMax } from './strengthEstimation';
 
-export interface OneRepMax {
-  estimated1RM: number;
-  fromWeight: number;
-  fromReps: number;
-  formula: 'epley' | 'brzycki' | 'actual';
-}
+export type StrengthLevel = 'Untrained' | 'Novice' | 'Intermediate' | 'Advanced' | 'Elite';
 
 export interface StrengthStandard {
   exerciseId: string;
@@ -31,66 +31,6 @@ export interface StrengthStandard {
   percentToNextLevel: number;
 }
 
-/**
- * Calculate estimated 1RM using Epley formula
- * Most accurate for 1-10 rep range
- *
- * Formula: 1RM = Weight × (1 + Reps / 30)
- *
- * Alternative formulas (for reference):
- * - Brzycki: 1RM = Weight × (36 / (37 - Reps))
- * - Lander: 1RM = (100 × Weight) / (101.3 - 2.67123 × Reps)
- */
-export function calculate1RM(weight: number, reps: number): OneRepMax {
-  if (reps === 1) {
-    return {
-      estimated1RM: weight,
-      fromWeight: weight,
-      fromReps: 1,
-      formula: 'actual'
-    };
-  }
-
-  if (reps > 12) {
-    // Epley becomes less accurate above 12 reps
-    // Use Brzycki formula instead
-    const brzycki1RM = weight * (36 / (37 - reps));
-    return {
-      estimated1RM: Math.round(brzycki1RM),
-      fromWeight: weight,
-      fromReps: reps,
-      formula: 'brzycki'
-    };
-  }
-
-  // Epley formula (gold standard for 1-10 reps)
-  const epley1RM = weight * (1 + reps / 30);
-
-  return {
-    estimated1RM: Math.round(epley1RM),
-    fromWeight: weight,
-    fromReps: reps,
-    formula: 'epley'
-  };
-}
-
-/**
- * Get best estimated 1RM from a set of completed sets
- * Uses the heaviest working set (excluding warmups)
- */
-export function getBest1RM(sets: SetLog[]): OneRepMax | null {
-  const workingSets = sets.filter(s => s.completed && s.type !== 'W' && s.weight > 0);
-
-  if (workingSets.length === 0) return null;
-
-  // Find the set with highest estimated 1RM
-  const estimates = workingSets.map(set => calculate1RM(set.weight, set.reps));
-
-  return estimates.reduce((best, current) =>
-    current.estimated1RM > best.estimated1RM ? current : best
-  );
-}
-
 /**
  * Calculate percentage of 1RM for programming
  * Example: "Work at 80% of your 1RM" = calculate1RMPercentage(oneRepMax, 0.80)
@@ -221,7 +161,8 @@ export function classifyStrengthLevel(
 export function calculateOverallStrengthScore(
   personalRecords: Record<string, ExercisePRHistory>,
   bodyweight: number,
-  gender: 'male' | 'female' = 'male'
+  gender: 'male' | 'female' = 'male',
+  formula: E1RMFormula = 'auto'
 ): number {
   const majorLifts = ['bench-press', 'barbell-squat', 'deadlift', 'overhead-press'];
 
@@ -232,7 +173,7 @@ export function calculateOverallStrengthScore(
     const prHistory = personalRecords[exerciseId];
     if (!prHistory?.bestWeight) return;
 
-    const oneRM = calculate1RM(prHistory.bestWeight.value, prHistory.bestWeight.reps || 1);
+    const oneRM = calculate1RM(prHistory.bestWeight.value, prHistory.bestWeight.reps || 1, formula);
     const classification = classifyStrengthLevel(exerciseId, oneRM.estimated1RM, bodyweight, gender);
 
     if (classification) {
@@ -334,9 +275,10 @@ export function checkIfPR(
  * - Rep PR: Most reps performed at any weight
  * - Volume PR: Highest single-set volume (weight × reps)
  * - 1RM PR: Estimated 1RM using Epley/Brzycki formulas
+ * Timed exercises (see Exercise.metric) get duration / distance / pace PRs instead
  */
 export interface PRDetection {
-  type: 'weight' | 'reps' | 'volume' | '1rm';
+  type: 'weight' | 'reps' | 'volume' | '1rm' | 'duration' | 'distance' | 'pace';
   value: number;
   previousBest: number;
   improvement: number; // Absolute improvement
@@ -346,14 +288,22 @@ export interface PRDetection {
 
 export function checkAllPRs(
   set: SetLog,
-  prHistory: ExercisePRHistory | undefined
+  prHistory: ExercisePRHistory | undefined,
+  metric: ExerciseMetric = 'weight_reps',
+  units: WeightUnit = 'lbs',
+  formula: E1RMFormula = 'auto'
 ): PRDetection[] {
+  if (metric !== 'weight_reps') {
+    return checkTimedPRs(set, prHistory, metric, units);
+  }
+
   const prs: PRDetection[] = [];
+  const load = (kg: number) => formatDisplayWeight(kg, units);
+  const volumeText = (kg: number) => toDisplayWeight(kg, units).toLocaleString();
 
   // First ever set = celebrate all metrics as PRs
   if (!prHistory) {
     const volume = set.weight * set.reps;
-    const oneRM = calculate1RM(set.weight, set.reps);
 
     return [
       {
@@ -362,7 +312,7 @@ export function checkAllPRs(
         previousBest: 0,
         improvement: set.weight,
         improvementPercent: 100,
-        message: `First ${set.weight} LBS logged! 💪`
+        message: `First ${load(set.weight)} logged! 💪`
       },
       {
         type: 'volume',
@@ -370,7 +320,7 @@ export function checkAllPRs(
         previousBest: 0,
         improvement: volume,
         improvementPercent: 100,
-        message: `${volume} total volume - strong start!`
+        message: `${volumeText(volume)} total volume - strong start!`
       }
     ];
   }
@@ -388,8 +338,8 @@ export function checkAllPRs(
       improvement,
       improvementPercent,
       message: bestWeight > 0
-        ? `+${improvement} LBS weight PR! 🏆`
-        : `${currentWeight} LBS - new weight PR!`
+        ? `+${load(improvement)} weight PR! 🏆`
+        : `${load(currentWeight)} - new weight PR!`
     });
   }
 
@@ -423,14 +373,15 @@ export function checkAllPRs(
       previousBest: bestVolume,
       improvement,
       improvementPercent,
-      message: `${currentVolume} total volume - crushing it! 💥`
+      message: `${volumeText(currentVolume)} total volume - crushing it! 💥`
     });
   }
 
   // 4. Estimated 1RM PR
-  const current1RM = calculate1RM(set.weight, set.reps);
+  // Stored bests carry no RPE, so they fall back to the rep-based formula
+  const current1RM = estimateSet1RM(set, formula);
   const best1RM = prHistory.bestWeight
-    ? calculate1RM(prHistory.bestWeight.value, prHistory.bestWeight.reps || 1).estimated1RM
+    ? calculate1RM(prHistory.bestWeight.value, prHistory.bestWeight.reps || 1, formula).estimated1RM
     : 0;
 
   if (current1RM.estimated1RM > best1RM && set.reps > 1) {
@@ -442,18 +393,86 @@ export function checkAllPRs(
       previousBest: best1RM,
       improvement,
       improvementPercent,
-      message: `Estimated 1RM: ${current1RM.estimated1RM} LBS! 🚀`
+      message: `Estimated 1RM: ${load(current1RM.estimated1RM)}! 🚀`
     });
   }
 
   return prs;
 }
 
+/**
+ * PR detection for duration, distance and carry sets
+ * Longest hold, furthest distance, fastest pace (lower is better) and heaviest carry
+ */
+function checkTimedPRs(
+  set: SetLog,
+  prHistory: ExercisePRHistory | undefined,
+  metric: ExerciseMetric,
+  units: WeightUnit
+): PRDetection[] {
+  const prs: PRDetection[] = [];
+  const fields = METRIC_FIELDS[metric];
+
+  const higherIsBetter = (type: PRDetection['type'], value: number, best: number, message: string) => {
+    if (value <= 0 || value <= best) return;
+    const improvement = value - best;
+    prs.push({
+      type,
+      value,
+      previousBest: best,
+      improvement,
+      improvementPercent: best > 0 ? (improvement / best) * 100 : 100,
+      message,
+    });
+  };
+
+  if (fields.duration && set.duration) {
+    const best = prHistory?.bestDuration?.value || 0;
+    higherIsBetter('duration', set.duration, best, best > 0
+      ? `+${formatDuration(set.duration - best)} longer than ever! ⏱️`
+      : `${formatDuration(set.duration)} - new duration PR!`);
+  }
+
+  if (fields.distance && set.distance) {
+    const best = prHistory?.bestDistance?.value || 0;
+    higherIsBetter('distance', set.distance, best, best > 0
+      ? `+${formatDistance(set.distance - best)} further than ever! 🛣️`
+      : `${formatDistance(set.distance)} - new distance PR!`);
+  }
+
+  if (fields.weight && set.weight > 0) {
+    const best = prHistory?.bestWeight?.value || 0;
+    higherIsBetter('weight', set.weight, best, best > 0
+      ? `+${formatDisplayWeight(set.weight - best, units)} heavier carry! 🏆`
+      : `${formatDisplayWeight(set.weight, units)} - new weight PR!`);
+  }
+
+  const pace = fields.duration && fields.distance ? calculatePace(set.distance, set.duration) : null;
+  if (pace !== null) {
+    const best = getBestPaceAtDistance(prHistory, set.distance!)?.value;
+    if (best === undefined || pace < best) {
+      const improvement = best === undefined ? 0 : Math.round((best - pace) * 10) / 10;
+      prs.push({
+        type: 'pace',
+        value: pace,
+        previousBest: best || 0,
+        improvement,
+        improvementPercent: best ? (improvement / best) * 100 : 100,
+        message: best === undefined
+          ? `${formatPace(pace)} - new pace PR!`
+          : `${formatDuration(improvement)} faster per 500m! ⚡`,
+      });
+    }
+  }
+
+  return prs;
+}
+
 /**
  * Generate AI-style personalized PR celebration message
  * Uses templates for offline-first, with optional Gemini enhancement
  */
-export function generatePRMessage(prs: PRDetection[], exerciseName: string): string {
+export function generatePRMessage(prs: PRDetection[], exerciseName: string, units: WeightUnit = 'lbs'): string {
   if (prs.length === 0) return '';
 
   // Multiple PRs = Extra celebration
@@ -464,11 +483,12 @@ export function generatePRMessage(prs: PRDetection[], exerciseName: string): str
 
   // Single PR
   const pr = prs[0];
+  const load = formatDisplayWeight(pr.value, units);
   const templates = {
     weight: [
-      `New weight PR on ${exerciseName}! ${pr.value} LBS conquered! 💪`,
-      `Beast mode activated! ${pr.value} LBS is your new max! 🏆`,
-      `Gravity = defeated! ${pr.value} LBS weight PR! 🚀`
+      `New weight PR on ${exerciseName}! ${load} conquered! 💪`,
+      `Beast mode activated! ${load} is your new max! 🏆`,
+      `Gravity = defeated! ${load} weight PR! 🚀`
     ],
     reps: [
       `Endurance gains unlocked! ${pr.value} reps on ${exerciseName}! 🔥`,
@@ -477,13 +497,25 @@ export function generatePRMessage(prs: PRDetection[], exerciseName: string): str
     ],
     volume: [
       `Volume PR! Total work output increased on ${exerciseName}! 📈`,
-      `Maximum effort! ${pr.value} total volume - crushing progressive overload! 💪`,
+      `Maximum effort! ${toDisplayWeight(pr.value, units).toLocaleString()} total volume - crushing progressive overload! 💪`,
       `Volume gains! ${exerciseName} is responding to your hard work! 🎯`
     ],
     '1rm': [
-      `Estimated 1RM reached ${pr.value} LBS! Strength is peaking! 🚀`,
-      `${pr.value} LBS estimated max! You're getting stronger every session! 💯`,
-      `Theoretical max: ${pr.value} LBS! Elite strength incoming! ⭐`
+      `Estimated 1RM reached ${load}! Strength is peaking! 🚀`,
+      `${load} estimated max! You're getting stronger every session! 💯`,
+      `Theoretical max: ${load}! Elite strength incoming! ⭐`
+    ],
+    duration: [
+      `Longest ever ${exerciseName}: ${formatDuration(pr.value)}! ⏱️`,
+      `${formatDuration(pr.value)} on ${exerciseName} - mental toughness unlocked! 🔥`
+    ],
+    distance: [
+      `Distance PR! ${formatDistance(pr.value)} on ${exerciseName}! 🛣️`,
+      `${formatDistance(pr.value)} covered - your engine is growing! 💥`
+    ],
+    pace: [
+      `Fastest ${exerciseName} yet: ${formatPace(pr.value)}! ⚡`,
+      `New pace PR! ${formatPace(pr.value)} - conditioning is peaking! 🚀`
     ]
   };
 
@@ -0,0 +1,332 @@
+/**
+ * Sync Merge Service
+ *
+ * Pure merge logic for two-way cloud sync. Given the local copy of a
+ * collection, the copy fetched from the backend and the local dirty set,
+ * decides per record whether to keep the local version, adopt the remote
+ * version, push the local version, or raise a conflict for the user.
+ *
+ * Rules (per record id):
+ * - Remote only → pulled into local state
+ * - Local only → kept (pushed later if dirty)
+ * - Same content → kept, nothing to do
+ * - Local clean → newer `updatedAt` wins (remote wins ties)
+ * - Local dirty, remote unchanged since last sync → local wins and is pushed
+ * - Local dirty, remote changed since last sync → conflict, neither side is overwritten
+ *
+ * Deletions travel as tombstones: a deleted id is dropped from both sides
+ * (unless edited again after the delete) and the tombstone itself is purged
+ * after TOMBSTONE_RETENTION_DAYS.
+ *
+ * Backend-agnostic: works on the plain records returned by BackendService.
+ */
+
+import type { SyncConflict, SyncEntityKind, SyncTombstone, SyncTombstoneKind, UserSettings } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Any record that syncs: workouts, templates, programs, daily logs and settings
+export type SyncRecord = SyncConflict['local'];
+
+export interface MergeOptions<T> {
+  kind: SyncEntityKind;
+  getId: (record: T) => string;
+  getName: (record: T) => string;
+  pending: Set<string>; // Ids modified locally since the last sync
+  lastSync: number; // Timestamp of the previous successful sync (0 = never)
+  unresolved?: Set<string>; // Ids with a conflict the user has not resolved yet
+  now?: number;
+}
+
+export interface MergeResult<T> {
+  merged: T[];
+  conflicts: SyncConflict[];
+  pulledIds: string[]; // Records adopted from the backend
+  pushIds: string[]; // Records the backend should receive
+}
+
+// Fields added by backends that are not part of the app schema
+const BACKEND_FIELDS = ['userId', 'user'];
+
+// Devices offline for longer than this may resurrect deleted records
+export const TOMBSTONE_RETENTION_DAYS = 30;
+const TOMBSTONE_RETENTION_MS = TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Normalize a stored timestamp (older builds persisted lastSync as an ISO string)
+ */
+export function normalizeTimestamp(value: unknown): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? 0 : parsed;
+  }
+  return 0;
+}
+
+/**
+ * Remove backend bookkeeping fields from a fetched record
+ */
+export function stripBackendFields<T extends object>(record: T): T {
+  const copy = { ...record } as Record<string, unknown>;
+  BACKEND_FIELDS.forEach(field => delete copy[field]);
+  return copy as T;
+}
+
+/**
+ * Deterministic JSON serialization (sorted keys, undefined dropped)
+ */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(v => (v === undefined ? 'null' : stableStringify(v))).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  const entries = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Compare two records ignoring timestamps and backend fields
+ */
+export function isSameContent(a: unknown, b: unknown): boolean {
+  const clean = (record: unknown) => {
+    const copy = stripBackendFields(record as Record<string, unknown>);
+    delete copy.updatedAt;
+    return copy;
+  };
+  return stableStringify(clean(a)) === stableStringify(clean(b));
+}
+
+function createConflict<T extends SyncRecord>(
+  kind: SyncEntityKind,
+  recordId: string,
+  name: string,
+  local: T,
+  remote: T,
+  now: number
+): SyncConflict {
+  return {
+    id: `${kind}:${recordId}`,
+    kind,
+    recordId,
+    name,
+    local,
+    remote,
+    localUpdatedAt: local.updatedAt,
+    remoteUpdatedAt: remote.updatedAt,
+    detectedAt: now,
+  };
+}
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+/**
+ * Merge a local collection with its remote counterpart
+ *
+ * Local ordering is preserved; pulled records are appended in remote order.
+ */
+export function mergeCollection<T extends SyncRecord>(
+  local: T[],
+  remote: T[],
+  options: MergeOptions<T>
+): MergeResult<T> {
+  const { kind, getId, getName, pending, lastSync } = options;
+  const unresolved = options.unresolved ?? new Set<string>();
+  const now = options.now ?? Date.now();
+
+  const remoteById = new Map<string, T>();
+  remote.forEach(record => remoteById.set(getId(record), stripBackendFields(record)));
+
+  const merged: T[] = [];
+  const conflicts: SyncConflict[] = [];
+  const pulledIds: string[] = [];
+  const pushIds: string[] = [];
+  const seen = new Set<string>();
+
+  for (const localRecord of local) {
+    const id = getId(localRecord);
+    seen.add(id);
+    const remoteRecord = remoteById.get(id);
+
+    if (!remoteRecord) {
+      merged.push(localRecord);
+      if (pending.has(id)) pushIds.push(id);
+      continue;
+    }
+
+    if (isSameContent(localRecord, remoteRecord)) {
+      merged.push(localRecord);
+      continue;
+    }
+
+    const localUpdated = localRecord.updatedAt ?? 0;
+    const remoteUpdated = remoteRecord.updatedAt ?? 0;
+
+    if (!pending.has(id)) {
+      if (localUpdated > remoteUpdated) {
+        // Local edit that was never marked dirty (e.g. pre-sync data) - push it
+        merged.push(localRecord);
+        pushIds.push(id);
+      } else {
+        merged.push(remoteRecord);
+        pulledIds.push(id);
+      }
+      continue;
+    }
+
+    if (remoteUpdated > lastSync || unresolved.has(id)) {
+      // Both sides changed since the last sync - let the user decide
+      merged.push(localRecord);
+      conflicts.push(createConflict(kind, id, getName(localRecord), localRecord, remoteRecord, now));
+    } else {
+      merged.push(localRecord);
+      pushIds.push(id);
+    }
+  }
+
+  remote.forEach(record => {
+    const id = getId(record);
+    if (seen.has(id)) return;
+    seen.add(id);
+    merged.push(remoteById.get(id)!);
+    pulledIds.push(id);
+  });
+
+  return { merged, conflicts, pulledIds, pushIds };
+}
+
+/**
+ * Merge user settings (single record)
+ *
+ * Device-specific fields (ironCloud) always stay local.
+ */
+export function mergeSettings(
+  local: UserSettings,
+  remote: UserSettings | null,
+  options: { needsSync: boolean; lastSync: number; unresolved?: boolean; now?: number }
+): { settings: UserSettings; conflict: SyncConflict | null; pulled: boolean; push: boolean } {
+  if (!remote) {
+    return { settings: local, conflict: null, pulled: false, push: options.needsSync };
+  }
+
+  const cleanRemote: UserSettings = { ...stripBackendFields(remote), ironCloud: local.ironCloud };
+
+  if (isSameContent(local, cleanRemote)) {
+    return { settings: local, conflict: null, pulled: false, push: false };
+  }
+
+  const localUpdated = local.updatedAt ?? 0;
+  const remoteUpdated = cleanRemote.updatedAt ?? 0;
+
+  if (!options.needsSync) {
+    if (localUpdated > remoteUpdated) {
+      return { settings: local, conflict: null, pulled: false, push: true };
+    }
+    return { settings: { ...local, ...cleanRemote }, conflict: null, pulled: true, push: false };
+  }
+
+  if (remoteUpdated > options.lastSync || options.unresolved) {
+    return {
+      settings: local,
+      conflict: createConflict('settings', 'settings', 'Settings', local, cleanRemote, options.now ?? Date.now()),
+      pulled: false,
+      push: false,
+    };
+  }
+
+  return { settings: local, conflict: null, pulled: false, push: true };
+}
+
+// ============================================================================
+// Tombstones
+// ============================================================================
+
+export function createTombstone(kind: SyncTombstoneKind, recordId: string, now: number = Date.now()): SyncTombstone {
+  return { id: `${kind}:${recordId}`, kind, recordId, deletedAt: now };
+}
+
+/**
+ * Add or refresh tombstones (a re-delete resets syncedAt so it is pushed again)
+ */
+export function upsertTombstones(existing: SyncTombstone[], added: SyncTombstone[]): SyncTombstone[] {
+  const byId = new Map(existing.map(t => [t.id, t]));
+  added.forEach(t => byId.set(t.id, t));
+  return Array.from(byId.values());
+}
+
+/**
+ * Combine local and remote tombstones and split off the expired ones
+ *
+ * Remote tombstones are already on the backend, so they arrive marked as synced.
+ */
+export function mergeTombstones(
+  local: SyncTombstone[],
+  remote: SyncTombstone[],
+  now: number = Date.now()
+): { active: SyncTombstone[]; expired: SyncTombstone[] } {
+  const byId = new Map<string, SyncTombstone>();
+
+  remote.forEach(t => byId.set(t.id, { ...stripBackendFields(t), syncedAt: t.syncedAt ?? t.deletedAt }));
+  local.forEach(t => {
+    const other = byId.get(t.id);
+    if (!other) {
+      byId.set(t.id, t);
+    } else if (t.deletedAt > other.deletedAt) {
+      // Newer local re-delete still has to reach the backend
+      byId.set(t.id, { ...t, syncedAt: undefined });
+    }
+  });
+
+  const active: SyncTombstone[] = [];
+  const expired: SyncTombstone[] = [];
+  byId.forEach(t => {
+    (now - t.deletedAt > TOMBSTONE_RETENTION_MS ? expired : active).push(t);
+  });
+
+  return { active, expired };
+}
+
+/**
+ * Drop records deleted on any device
+ *
+ * A record edited after its tombstone was written (updatedAt > deletedAt) is kept:
+ * the later edit wins over the earlier delete.
+ */
+export function applyTombstones<T extends SyncRecord>(
+  records: T[],
+  tombstones: SyncTombstone[],
+  kind: SyncTombstoneKind,
+  getId: (record: T) => string
+): { kept: T[]; removedIds: string[] } {
+  const deletedAt = new Map(
+    tombstones.filter(t => t.kind === kind).map(t => [t.recordId, t.deletedAt])
+  );
+
+  const kept: T[] = [];
+  const removedIds: string[] = [];
+  records.forEach(record => {
+    const id = getId(record);
+    const deleted = deletedAt.get(id);
+    if (deleted !== undefined && (record.updatedAt ?? 0) <= deleted) {
+      removedIds.push(id);
+    } else {
+      kept.push(record);
+    }
+  });
+
+  return { kept, removedIds };
+}
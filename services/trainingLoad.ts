@@ -0,0 +1,362 @@
+/**
+ * Training Load Analytics Service
+ *
+ * Daily training load and the models built on it:
+ * - Acute:Chronic Workload Ratio, as rolling means (7d / 28d) and as EWMAs
+ *   (Williams et al. 2017, lambda = 2 / (N + 1))
+ * - Foster monotony (weekly mean / SD of daily load) and strain (weekly load x monotony)
+ * - Banister fitness-fatigue impulse-response model with tunable constants,
+ *   plus CTL / ATL / TSB (training stress balance, "form")
+ * - Annotations for detected deload weeks and weight PRs
+ *
+ * Load is session RPE x minutes (Foster sRPE) by default, or tonnage in kg.
+ */
+
+import { WorkoutSession, ExercisePRHistory, Exercise } from '../types';
+import { EXERCISE_LIBRARY } from '../constants';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LoadMetric = 'srpe' | 'volume';
+
+export type AcwrZone = 'undertraining' | 'optimal' | 'caution' | 'danger';
+
+export type FormZone = 'fresh' | 'neutral' | 'productive' | 'overreaching';
+
+export interface BanisterParams {
+  fitnessTau: number;  // Days for fitness to decay by 1/e (default 42)
+  fatigueTau: number;  // Days for fatigue to decay by 1/e (default 7)
+  k1: number;          // Fitness gain
+  k2: number;          // Fatigue gain
+  p0: number;          // Baseline performance
+}
+
+export interface TrainingLoadDay {
+  date: string;                  // YYYY-MM-DD
+  load: number;
+
+  // ACWR
+  acuteRolling: number;          // Mean daily load, last 7 days
+  chronicRolling: number;        // Mean daily load, last 28 days
+  acwrRolling: number | null;    // null until there is chronic load
+  acuteEwma: number;
+  chronicEwma: number;
+  acwrEwma: number | null;
+  acwrZone: AcwrZone | null;     // From the EWMA ratio
+
+  // Foster
+  monotony: number | null;       // null when the week's load doesn't vary
+  strain: number | null;
+
+  // Banister
+  fitness: number;
+  fatigue: number;
+  performance: number;           // p0 + k1 * fitness - k2 * fatigue
+  ctl: number;                   // Chronic training load (fitness as a daily average)
+  atl: number;                   // Acute training load (fatigue as a daily average)
+  tsb: number;                   // Training stress balance: ctl - atl
+  formZone: FormZone | null;
+}
+
+export interface TrainingLoadAnnotation {
+  date: string;
+  type: 'deload' | 'pr';
+  label: string;
+}
+
+export interface TrainingLoadReport {
+  metric: LoadMetric;
+  params: BanisterParams;
+  days: TrainingLoadDay[];       // Oldest first, last `days` days
+  annotations: TrainingLoadAnnotation[];
+}
+
+export interface TrainingLoadOptions {
+  metric?: LoadMetric;           // Default 'srpe'
+  days?: number;                 // Days to report (default 90); earlier history still warms up the models
+  endDate?: number;              // Default today
+  banister?: Partial<BanisterParams>;
+  personalRecords?: Record<string, ExercisePRHistory>; // For PR annotations
+  customExercises?: Exercise[];  // For PR annotation names
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_BANISTER_PARAMS: BanisterParams = {
+  fitnessTau: 42,
+  fatigueTau: 7,
+  k1: 1,
+  k2: 2,
+  p0: 0
+};
+
+export const ACUTE_DAYS = 7;
+export const CHRONIC_DAYS = 28;
+
+// ACWR sweet spot 0.8-1.3, danger above 1.5 (Gabbett 2016)
+export const ACWR_ZONES = { undertraining: 0.8, optimal: 1.3, caution: 1.5 };
+
+// Foster: monotony above 2 with high strain precedes illness and overtraining
+export const HIGH_MONOTONY = 2;
+
+// TSB as a share of CTL
+export const FORM_ZONES = { fresh: 0.1, neutral: -0.1, productive: -0.3 };
+
+const DEFAULT_SESSION_RPE = 7;       // Sessions without any RPE logged
+const DEFAULT_SESSION_MINUTES = 60;  // Sessions without an end time
+const MAX_SESSION_MINUTES = 240;     // Caps timers left running after a session
+const DELOAD_DROP = 0.6;             // A week below 60% of the prior 3-week average
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Daily Load
+// =============================================================================
+
+const toDateKey = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+/**
+ * Load of one completed session
+ */
+export function getSessionLoad(workout: WorkoutSession, metric: LoadMetric = 'srpe'): number {
+  const workingSets = workout.logs.flatMap(log => log.sets.filter(s => s.completed && s.type !== 'W'));
+  if (workingSets.length === 0) return 0;
+
+  if (metric === 'volume') {
+    return workingSets.reduce((sum, s) => sum + s.weight * s.reps, 0);
+  }
+
+  const rated = workingSets.filter(s => s.rpe);
+  const sessionRPE = rated.length > 0
+    ? rated.reduce((sum, s) => sum + s.rpe!, 0) / rated.length
+    : DEFAULT_SESSION_RPE;
+  const minutes = workout.endTime && workout.endTime > workout.startTime
+    ? Math.min((workout.endTime - workout.startTime) / 60000, MAX_SESSION_MINUTES)
+    : DEFAULT_SESSION_MINUTES;
+
+  return sessionRPE * minutes;
+}
+
+/**
+ * Daily load from the first completed workout to endDate, zero-filled
+ */
+export function getDailyLoads(
+  history: WorkoutSession[],
+  metric: LoadMetric = 'srpe',
+  endDate: number = Date.now()
+): { date: string; load: number }[] {
+  const completed = history.filter(w => w.status === 'completed' && w.startTime <= endDate);
+  if (completed.length === 0) return [];
+
+  const byDate = new Map<string, number>();
+  for (const workout of completed) {
+    const key = toDateKey(workout.startTime);
+    byDate.set(key, (byDate.get(key) || 0) + getSessionLoad(workout, metric));
+  }
+
+  const first = Date.parse(`${toDateKey(Math.min(...completed.map(w => w.startTime)))}T00:00:00Z`);
+  const last = Date.parse(`${toDateKey(endDate)}T00:00:00Z`);
+  const days: { date: string; load: number }[] = [];
+  for (let t = first; t <= last; t += DAY_MS) {
+    const date = toDateKey(t);
+    days.push({ date, load: byDate.get(date) || 0 });
+  }
+  return days;
+}
+
+// =============================================================================
+// Models
+// =============================================================================
+
+/**
+ * Trailing mean over `window` days (shorter at the start of the series)
+ */
+export function rollingMean(values: number[], window: number): number[] {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= window) sum -= values[i - window];
+    return sum / Math.min(i + 1, window);
+  });
+}
+
+/**
+ * Exponentially weighted moving average with lambda = 2 / (N + 1)
+ */
+export function ewma(values: number[], days: number): number[] {
+  const lambda = 2 / (days + 1);
+  let current = 0;
+  return values.map(value => {
+    current = value * lambda + current * (1 - lambda);
+    return current;
+  });
+}
+
+/**
+ * Foster monotony: mean / SD of daily load (null when SD is 0)
+ */
+export function calculateMonotony(week: number[]): number | null {
+  if (week.length === 0) return null;
+  const mean = week.reduce((a, b) => a + b, 0) / week.length;
+  const sd = Math.sqrt(week.reduce((sum, v) => sum + (v - mean) ** 2, 0) / week.length);
+  return sd > 0 ? mean / sd : null;
+}
+
+/**
+ * Banister impulse-response: fitness and fatigue decay with their own time
+ * constants and both rise with each day's load
+ */
+export function banisterModel(
+  loads: number[],
+  params: BanisterParams = DEFAULT_BANISTER_PARAMS
+): { fitness: number; fatigue: number; performance: number }[] {
+  const fitnessDecay = Math.exp(-1 / params.fitnessTau);
+  const fatigueDecay = Math.exp(-1 / params.fatigueTau);
+  let fitness = 0;
+  let fatigue = 0;
+
+  return loads.map(load => {
+    fitness = fitness * fitnessDecay + load;
+    fatigue = fatigue * fatigueDecay + load;
+    return { fitness, fatigue, performance: params.p0 + params.k1 * fitness - params.k2 * fatigue };
+  });
+}
+
+export function getAcwrZone(acwr: number | null): AcwrZone | null {
+  if (acwr === null) return null;
+  if (acwr < ACWR_ZONES.undertraining) return 'undertraining';
+  if (acwr <= ACWR_ZONES.optimal) return 'optimal';
+  if (acwr <= ACWR_ZONES.caution) return 'caution';
+  return 'danger';
+}
+
+export function getFormZone(tsb: number, ctl: number): FormZone | null {
+  if (ctl <= 0) return null;
+  const form = tsb / ctl;
+  if (form > FORM_ZONES.fresh) return 'fresh';
+  if (form >= FORM_ZONES.neutral) return 'neutral';
+  if (form >= FORM_ZONES.productive) return 'productive';
+  return 'overreaching';
+}
+
+// =============================================================================
+// Annotations
+// =============================================================================
+
+/**
+ * Weeks (counted back from the last day) whose load fell well below the
+ * 3 weeks before, while still training
+ */
+export function detectDeloadWeeks(days: { date: string; load: number }[]): TrainingLoadAnnotation[] {
+  const weeks: { date: string; load: number }[] = [];
+  for (let end = days.length; end - 7 >= 0; end -= 7) {
+    const week = days.slice(end - 7, end);
+    weeks.unshift({ date: week[0].date, load: week.reduce((sum, d) => sum + d.load, 0) });
+  }
+
+  const annotations: TrainingLoadAnnotation[] = [];
+  for (let i = 3; i < weeks.length; i++) {
+    const prior = (weeks[i - 1].load + weeks[i - 2].load + weeks[i - 3].load) / 3;
+    if (prior > 0 && weeks[i].load > 0 && weeks[i].load < prior * DELOAD_DROP) {
+      annotations.push({ date: weeks[i].date, type: 'deload', label: 'Deload week' });
+    }
+  }
+  return annotations;
+}
+
+function getPRAnnotations(
+  personalRecords: Record<string, ExercisePRHistory>,
+  customExercises: Exercise[],
+  from: string,
+  to: string
+): TrainingLoadAnnotation[] {
+  const namesByDate = new Map<string, string[]>();
+  for (const prHistory of Object.values(personalRecords)) {
+    const name = [...EXERCISE_LIBRARY, ...customExercises].find(e => e.id === prHistory.exerciseId)?.name;
+    for (const record of prHistory.records || []) {
+      const date = toDateKey(record.date);
+      if (record.type !== 'weight' || !name || date < from || date > to) continue;
+      const names = namesByDate.get(date) || [];
+      if (!names.includes(name)) names.push(name);
+      namesByDate.set(date, names);
+    }
+  }
+
+  return [...namesByDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, names]) => ({ date, type: 'pr' as const, label: `PR: ${names.join(', ')}` }));
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+/**
+ * Full training-load series for charts
+ *
+ * @param history - Workout history (only completed sessions count)
+ * @param options - Load metric, window, Banister constants and PR data
+ */
+export function analyzeTrainingLoad(
+  history: WorkoutSession[],
+  options: TrainingLoadOptions = {}
+): TrainingLoadReport {
+  const metric = options.metric ?? 'srpe';
+  const params = { ...DEFAULT_BANISTER_PARAMS, ...options.banister };
+  const daily = getDailyLoads(history, metric, options.endDate ?? Date.now());
+  const loads = daily.map(d => d.load);
+
+  const acuteRolling = rollingMean(loads, ACUTE_DAYS);
+  const chronicRolling = rollingMean(loads, CHRONIC_DAYS);
+  const acuteEwma = ewma(loads, ACUTE_DAYS);
+  const chronicEwma = ewma(loads, CHRONIC_DAYS);
+  const banister = banisterModel(loads, params);
+  const ctlScale = 1 - Math.exp(-1 / params.fitnessTau);
+  const atlScale = 1 - Math.exp(-1 / params.fatigueTau);
+
+  const allDays: TrainingLoadDay[] = daily.map((d, i) => {
+    const week = loads.slice(Math.max(0, i - ACUTE_DAYS + 1), i + 1);
+    const monotony = calculateMonotony(week);
+    const acwrRolling = chronicRolling[i] > 0 ? acuteRolling[i] / chronicRolling[i] : null;
+    const acwrEwma = chronicEwma[i] > 0 ? acuteEwma[i] / chronicEwma[i] : null;
+    const ctl = banister[i].fitness * ctlScale;
+    const atl = banister[i].fatigue * atlScale;
+
+    return {
+      date: d.date,
+      load: d.load,
+      acuteRolling: acuteRolling[i],
+      chronicRolling: chronicRolling[i],
+      acwrRolling,
+      acuteEwma: acuteEwma[i],
+      chronicEwma: chronicEwma[i],
+      acwrEwma,
+      acwrZone: getAcwrZone(acwrEwma),
+      monotony,
+      strain: monotony !== null ? week.reduce((a, b) => a + b, 0) * monotony : null,
+      ...banister[i],
+      ctl,
+      atl,
+      tsb: ctl - atl,
+      formZone: getFormZone(ctl - atl, ctl)
+    };
+  });
+
+  const days = allDays.slice(-(options.days ?? 90));
+  if (days.length === 0) {
+    return { metric, params, days, annotations: [] };
+  }
+
+  const from = days[0].date;
+  const to = days[days.length - 1].date;
+  const annotations = [
+    ...detectDeloadWeeks(daily).filter(a => a.date >= from),
+    ...getPRAnnotations(options.personalRecords || {}, options.customExercises || [], from, to)
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return { metric, params, days, annotations };
+}
@@ -0,0 +1,135 @@
+/**
+ * Warm-up Generator
+ * Builds a warm-up ladder (empty bar, then ~40/60/80% of the first working
+ * set) from the exercise's category and the plates at the gym. Bar and
+ * plate-loaded exercises only ever add plates between steps, so the ladder
+ * needs no stripping; other loading types round down to the nearest
+ * dumbbell or pin. Loads in and out are kg (storage unit).
+ */
+
+import { ExerciseCategory, WarmupScheme } from '../types';
+import { calculatePlateLoadout, Plate } from './plateCalculator';
+import { getProfilePlates } from './gymProfiles';
+import { LoadRounding, roundToAchievableLoad } from './loadRounding';
+import { fromDisplayWeight, toDisplayWeight } from '../utils/conversions';
+
+export interface WarmupSet {
+  weight: number; // kg
+  reps: number;
+  platesPerSide?: number[]; // Bar and plate-loaded exercises, in the gym's units
+  platesAdded?: number[]; // Per side, on top of the previous step
+}
+
+const EMPTY_BAR_REPS = 10;
+
+// Gym units values are rounded to 2 decimals, compare with a little slack
+const EPSILON = 0.001;
+
+export const COMPOUND_WARMUP: WarmupScheme = {
+  emptyBar: true,
+  steps: [
+    { percent: 0.4, reps: 5 },
+    { percent: 0.6, reps: 3 },
+    { percent: 0.8, reps: 2 },
+  ],
+};
+
+export const ISOLATION_WARMUP: WarmupScheme = {
+  emptyBar: false,
+  steps: [
+    { percent: 0.5, reps: 8 },
+    { percent: 0.75, reps: 4 },
+  ],
+};
+
+const NO_WARMUP: WarmupScheme = { emptyBar: false, steps: [] };
+
+/**
+ * Default ladder for an exercise category
+ * Heavy compounds get the full ramp, accessories a short one, and
+ * bodyweight/cardio work none
+ */
+export function getDefaultWarmupScheme(category: ExerciseCategory): WarmupScheme {
+  switch (category) {
+    case 'Compound':
+      return COMPOUND_WARMUP;
+    case 'Isolation':
+    case 'Machine':
+      return ISOLATION_WARMUP;
+    default:
+      return NO_WARMUP;
+  }
+}
+
+/**
+ * Warm-up sets leading up to a working weight (kg)
+ * Steps that would not be lighter than the working set, or heavier than the
+ * step before, are dropped.
+ */
+export function generateWarmupSets(
+  workingWeight: number,
+  scheme: WarmupScheme,
+  load: LoadRounding
+): WarmupSet[] {
+  if (workingWeight <= 0) return [];
+
+  return load.loadingType === 'barbell' || load.loadingType === 'plate_loaded'
+    ? generatePlateLadder(workingWeight, scheme, load)
+    : scheme.steps
+        .map(step => ({
+          weight: roundToAchievableLoad(workingWeight * step.percent, load, 'down'),
+          reps: step.reps,
+        }))
+        .filter((set, i, sets) =>
+          set.weight > 0 &&
+          set.weight < workingWeight - EPSILON &&
+          (i === 0 || set.weight > sets[i - 1].weight + EPSILON)
+        );
+}
+
+/**
+ * Ladder for loads made of plate pairs: each step adds plates on top of the
+ * previous one (calculatePlateLoadout treats what is already loaded as part
+ * of the bar), so nothing has to come off between sets
+ */
+function generatePlateLadder(workingKg: number, scheme: WarmupScheme, load: LoadRounding): WarmupSet[] {
+  const { gym } = load;
+  const units = gym.units;
+  const bar = load.loadingType === 'barbell' ? gym.bars[0] : 0;
+  const working = toDisplayWeight(workingKg, units);
+  const available: Plate[] = getProfilePlates(gym).map(p => ({ ...p }));
+
+  const sets: WarmupSet[] = [];
+  let loadedPerSide: number[] = [];
+  let current = bar;
+
+  if (scheme.emptyBar && bar > 0 && bar < working - EPSILON) {
+    sets.push({ weight: fromDisplayWeight(bar, units), reps: scheme.emptyBarReps ?? EMPTY_BAR_REPS, platesPerSide: [] });
+  }
+
+  for (const step of scheme.steps) {
+    const target = working * step.percent;
+    if (target >= working - EPSILON) continue;
+
+    const loadout = calculatePlateLoadout(target, current, available, units);
+    const added = loadout.platesPerSide.map(p => p.weight);
+    if (added.length === 0 || loadout.totalWeight >= working - EPSILON) continue;
+
+    // Plates on the bar are no longer available for later steps
+    added.forEach(weight => {
+      const plate = available.find(p => p.weight === weight);
+      if (plate?.count) plate.count--;
+    });
+
+    loadedPerSide = [...loadedPerSide, ...added];
+    current = loadout.totalWeight;
+    sets.push({
+      weight: fromDisplayWeight(current, units),
+      reps: step.reps,
+      platesPerSide: loadedPerSide,
+      platesAdded: added,
+    });
+  }
+
+  return sets;
+}
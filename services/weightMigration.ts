@@ -0,0 +1,145 @@
+/**
+ * Weight Storage Migration
+ * Before store version 9 weights were saved in whatever unit the user had
+ * selected at the time. This converts persisted state written in pounds to
+ * the canonical kilogram storage (see utils/conversions.ts).
+ */
+
+import type {
+  DailyLog,
+  ExercisePRHistory,
+  PersonalRecord,
+  ProgressionState,
+  SetLog,
+  SuggestionFeedback,
+  TrainingMax,
+  WorkoutSession,
+} from '../types';
+import { fromDisplayWeight } from '../utils/conversions';
+
+const toKg = (lbs: number | undefined) => (lbs === undefined ? undefined : fromDisplayWeight(lbs, 'lbs'));
+
+/** Only defined fields, so converted records keep the same keys */
+function defined<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, v]) => v !== undefined)) as T;
+}
+
+// ============================================================================
+// Records
+// ============================================================================
+
+function convertSet(set: SetLog & { calculatedWeight?: number; trainingMaxUsed?: number }): SetLog {
+  return defined({
+    ...set,
+    weight: toKg(set.weight)!,
+    calculatedWeight: toKg(set.calculatedWeight),
+    trainingMaxUsed: toKg(set.trainingMaxUsed),
+    aiSuggestion: set.aiSuggestion && { ...set.aiSuggestion, weight: toKg(set.aiSuggestion.weight)! },
+  });
+}
+
+function convertWorkout(workout: WorkoutSession, now: number): WorkoutSession {
+  return {
+    ...workout,
+    logs: (workout.logs || []).map(log => ({ ...log, sets: (log.sets || []).map(convertSet) })),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Weight and volume PRs carry a load; rep PRs only the weight they were set at
+ */
+function convertRecord(record: PersonalRecord | undefined): PersonalRecord | undefined {
+  if (!record) return record;
+  const isLoad = record.type === 'weight' || record.type === 'volume';
+  return defined({
+    ...record,
+    value: isLoad ? toKg(record.value)! : record.value,
+    weight: toKg(record.weight),
+    setDetails: record.setDetails?.map(s => ({ ...s, weight: toKg(s.weight)! })),
+  });
+}
+
+function convertPRHistory(history: ExercisePRHistory): ExercisePRHistory {
+  return defined({
+    ...history,
+    records: (history.records || []).map(r => convertRecord(r)!),
+    bestWeight: convertRecord(history.bestWeight),
+    bestVolume: convertRecord(history.bestVolume),
+    bestReps: convertRecord(history.bestReps),
+  });
+}
+
+function convertTrainingMax(tm: TrainingMax): TrainingMax {
+  const calculatedFrom = (from?: { value: number }) => from && { ...from, value: toKg(from.value)! };
+  return defined({
+    ...tm,
+    value: toKg(tm.value)!,
+    calculatedFrom: calculatedFrom(tm.calculatedFrom) as TrainingMax['calculatedFrom'],
+    history: (tm.history || []).map(h => defined({
+      ...h,
+      value: toKg(h.value)!,
+      calculatedFrom: calculatedFrom(h.calculatedFrom) as typeof h.calculatedFrom,
+    })),
+  });
+}
+
+function convertProgression(state: ProgressionState): ProgressionState {
+  return defined({ ...state, weight: toKg(state.weight)!, trainingMax: toKg(state.trainingMax) });
+}
+
+const mapValues = <T>(record: Record<string, T> | undefined, convert: (value: T) => T) =>
+  record && Object.fromEntries(Object.entries(record).map(([key, value]) => [key, convert(value)]));
+
+// ============================================================================
+// Persisted State
+// ============================================================================
+
+/**
+ * Convert every stored weight of a persisted store state from pounds to kilograms
+ * (sets, PRs, training maxes, progression state, bodyweight, bar weight,
+ * increments, suggestion feedback and lifetime volume)
+ *
+ * Converted records are stamped with `now` so cloud sync pushes them instead of
+ * pulling back the pound values still stored remotely.
+ */
+export function migrateWeightsToKg(state: any, now: number = Date.now()): any {
+  const settings = state.settings;
+  const convertWorkoutNow = (workout: WorkoutSession) => convertWorkout(workout, now);
+
+  return defined({
+    ...state,
+    history: state.history?.map(convertWorkoutNow),
+    templates: state.templates?.map(convertWorkoutNow),
+    activeWorkout: state.activeWorkout && convertWorkoutNow(state.activeWorkout),
+    dailyLogs: mapValues<DailyLog>(state.dailyLogs, log =>
+      log.bodyweight === undefined ? log : { ...log, bodyweight: toKg(log.bodyweight)!, updatedAt: now }
+    ),
+    settings: settings && defined({
+      ...settings,
+      bodyweight: toKg(settings.bodyweight),
+      barWeight: toKg(settings.barWeight),
+      personalRecords: mapValues<ExercisePRHistory>(settings.personalRecords, convertPRHistory),
+      trainingMaxes: mapValues<TrainingMax>(settings.trainingMaxes, convertTrainingMax),
+      activeProgram: settings.activeProgram && defined({
+        ...settings.activeProgram,
+        progression: mapValues<ProgressionState>(settings.activeProgram.progression, convertProgression),
+      }),
+      autoProgression: settings.autoProgression && {
+        ...settings.autoProgression,
+        upperBodyIncrement: toKg(settings.autoProgression.upperBodyIncrement),
+        lowerBodyIncrement: toKg(settings.autoProgression.lowerBodyIncrement),
+      },
+      suggestionHistory: settings.suggestionHistory?.map((s: SuggestionFeedback) => ({
+        ...s,
+        suggestedWeight: toKg(s.suggestedWeight)!,
+        actualWeight: toKg(s.actualWeight)!,
+      })),
+      updatedAt: now,
+    }),
+    gamification: state.gamification && {
+      ...state.gamification,
+      totalVolume: toKg(state.gamification.totalVolume) ?? 0,
+    },
+  });
+}
@@ -0,0 +1,216 @@
+/**
+ * Workout Blocks
+ * Supersets, giant sets, circuits, EMOMs and AMRAPs. Exercises are grouped
+ * by a shared `ExerciseLog.supersetId`; the matching `WorkoutBlock` says how
+ * the group is run. The timer is derived from the block's saved progress
+ * and the clock, so it survives re-renders, drafts and app restarts.
+ */
+
+import { BlockProgress, ExerciseLog, WorkoutBlock, WorkoutBlockType, WorkoutSession } from '../types';
+
+export const BLOCK_TYPE_LABELS: Record<WorkoutBlockType, string> = {
+  superset: 'Superset',
+  giant_set: 'Giant Set',
+  circuit: 'Circuit',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+};
+
+const DEFAULTS: Record<WorkoutBlockType, Omit<WorkoutBlock, 'id' | 'type'>> = {
+  superset: { rounds: 3, restSeconds: 90 },
+  giant_set: { rounds: 3, restSeconds: 120 },
+  circuit: { rounds: 3, restSeconds: 60 },
+  emom: { rounds: 12, intervalSeconds: 60 },
+  amrap: { timeCapSeconds: 600 },
+};
+
+export interface BlockTimerState {
+  running: boolean;
+  finished: boolean;
+  round: number; // 1-based round in progress
+  totalRounds?: number; // Unbounded for AMRAPs
+  exerciseIndex: number;
+  elapsedSeconds: number;
+  secondsLeft?: number; // EMOM: in the current interval; AMRAP: until the cap
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/**
+ * A block of a type with that type's default settings
+ */
+export function createBlock(id: string, type: WorkoutBlockType): WorkoutBlock {
+  return { id, type, ...DEFAULTS[type] };
+}
+
+/**
+ * Logs in a block, in workout order
+ */
+export function getBlockLogs(workout: WorkoutSession, blockId: string): ExerciseLog[] {
+  return workout.logs.filter(log => log.supersetId === blockId);
+}
+
+/**
+ * Settings for a group of linked logs; groups saved before blocks existed
+ * are supersets (giant sets from three exercises up)
+ */
+export function getBlock(workout: WorkoutSession, blockId: string): WorkoutBlock {
+  const saved = workout.blocks?.find(b => b.id === blockId);
+  if (saved) return saved;
+  return createBlock(blockId, getBlockLogs(workout, blockId).length > 2 ? 'giant_set' : 'superset');
+}
+
+/**
+ * Add or replace a block's settings. Changing the type starts over from
+ * that type's defaults.
+ */
+export function upsertBlock(
+  blocks: WorkoutBlock[] | undefined,
+  current: WorkoutBlock,
+  updates: Partial<Omit<WorkoutBlock, 'id'>>
+): WorkoutBlock[] {
+  const next = updates.type && updates.type !== current.type
+    ? { ...createBlock(current.id, updates.type), ...updates, progress: undefined }
+    : { ...current, ...updates };
+  const others = (blocks || []).filter(b => b.id !== current.id);
+  return [...others, next];
+}
+
+/**
+ * Drop blocks whose exercises were unlinked or removed
+ */
+export function pruneBlocks(workout: WorkoutSession): WorkoutBlock[] | undefined {
+  if (!workout.blocks) return undefined;
+  const linked = new Set(workout.logs.map(l => l.supersetId).filter(Boolean));
+  return workout.blocks.filter(b => linked.has(b.id));
+}
+
+/**
+ * Blocks for a new session from a template: same settings, no progress
+ */
+export function resetBlocks(blocks: WorkoutBlock[] | undefined): WorkoutBlock[] | undefined {
+  return blocks?.map(({ progress, ...block }) => block);
+}
+
+// ============================================================================
+// Timer
+// ============================================================================
+
+export function startBlock(now: number): BlockProgress {
+  return { startedAt: now, round: 0, exerciseIndex: 0 };
+}
+
+/**
+ * Move to the next exercise, wrapping into the next round. Circuits and
+ * sets finish after their last round; timed blocks finish on the clock.
+ */
+export function advanceBlock(block: WorkoutBlock, exerciseCount: number, now: number): BlockProgress {
+  const progress = block.progress || startBlock(now);
+  if (progress.finishedAt || exerciseCount === 0) return progress;
+
+  const wraps = progress.exerciseIndex + 1 >= exerciseCount;
+  const round = wraps ? progress.round + 1 : progress.round;
+  const isCounted = block.type !== 'emom' && block.type !== 'amrap';
+
+  return {
+    ...progress,
+    round,
+    exerciseIndex: wraps ? 0 : progress.exerciseIndex + 1,
+    ...(isCounted && block.rounds && round >= block.rounds && { finishedAt: now }),
+  };
+}
+
+/**
+ * Where a block is at a moment in time
+ */
+export function getBlockTimerState(block: WorkoutBlock, exerciseCount: number, now: number): BlockTimerState {
+  const progress = block.progress;
+  if (!progress) {
+    return {
+      running: false,
+      finished: false,
+      round: 1,
+      totalRounds: getTotalRounds(block),
+      exerciseIndex: 0,
+      elapsedSeconds: 0,
+    };
+  }
+
+  const clock = progress.finishedAt ?? progress.pausedAt ?? now;
+  const elapsedSeconds = Math.max(0, Math.floor((clock - progress.startedAt) / 1000));
+  const base = {
+    running: !progress.finishedAt && !progress.pausedAt,
+    totalRounds: getTotalRounds(block),
+    elapsedSeconds,
+  };
+
+  if (block.type === 'emom') {
+    // One exercise per interval, rotating through the block
+    const interval = block.intervalSeconds || 60;
+    const intervals = block.rounds || 0;
+    const intervalIndex = Math.floor(elapsedSeconds / interval);
+    const finished = !!progress.finishedAt || intervalIndex >= intervals;
+    const count = Math.max(1, exerciseCount);
+    return {
+      ...base,
+      running: base.running && !finished,
+      finished,
+      round: Math.min(intervals, intervalIndex + 1),
+      exerciseIndex: intervalIndex % count,
+      secondsLeft: finished ? 0 : interval - (elapsedSeconds % interval),
+    };
+  }
+
+  if (block.type === 'amrap') {
+    const secondsLeft = Math.max(0, (block.timeCapSeconds || 0) - elapsedSeconds);
+    const finished = !!progress.finishedAt || secondsLeft === 0;
+    return {
+      ...base,
+      running: base.running && !finished,
+      finished,
+      round: progress.round + 1,
+      exerciseIndex: progress.exerciseIndex,
+      secondsLeft,
+    };
+  }
+
+  return {
+    ...base,
+    finished: !!progress.finishedAt,
+    round: Math.min(progress.round + 1, block.rounds || progress.round + 1),
+    exerciseIndex: progress.exerciseIndex,
+  };
+}
+
+function getTotalRounds(block: WorkoutBlock): number | undefined {
+  return block.type === 'amrap' ? undefined : block.rounds;
+}
+
+// ============================================================================
+// Drafts
+// ============================================================================
+
+/**
+ * Stop the clock on running blocks (saving a draft)
+ */
+export function pauseBlocks(blocks: WorkoutBlock[] | undefined, now: number): WorkoutBlock[] | undefined {
+  return blocks?.map(block =>
+    block.progress && !block.progress.finishedAt && !block.progress.pausedAt
+      ? { ...block, progress: { ...block.progress, pausedAt: now } }
+      : block
+  );
+}
+
+/**
+ * Restart the clock where it stopped (resuming a draft)
+ */
+export function resumeBlocks(blocks: WorkoutBlock[] | undefined, now: number): WorkoutBlock[] | undefined {
+  return blocks?.map(block => {
+    const progress = block.progress;
+    if (!progress?.pausedAt) return block;
+    const { pausedAt, ...rest } = progress;
+    return { ...block, progress: { ...rest, startedAt: progress.startedAt + (now - pausedAt) } };
+  });
+}
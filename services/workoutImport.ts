@@ -0,0 +1,550 @@
+/**
+ * Workout Import Service
+ * Parses workout history exported from Strong, Hevy and FitNotes (CSV)
+ * and converts it into VoltLift WorkoutSession records
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WorkoutSession,
+  ExerciseLog,
+  SetLog,
+  SetType,
+  Exercise,
+  MuscleGroup,
+  ExerciseCategory,
+  ExercisePRHistory,
+} from '../types';
+import { getExerciseMetric, updateExercisePRs } from './setMetrics';
+import { fromDisplayWeight, KG_PER_LB, STORAGE_UNIT, WeightUnit } from '../utils/conversions';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ImportSource = 'strong' | 'hevy' | 'fitnotes';
+
+export type { WeightUnit };
+
+export interface ExerciseMatch {
+  exerciseId: string | null;
+  score: number; // 0-1 name similarity
+}
+
+export interface ImportExerciseMapping {
+  sourceName: string;
+  exerciseId: string | null; // null = create a custom exercise
+  confidence: number;
+  setCount: number;
+}
+
+export interface ImportPreview {
+  source: ImportSource;
+  /** Source units from the file header, null when the format doesn't say (Strong) */
+  detectedUnits: WeightUnit | null;
+  /**
+   * Parsed workouts. Until buildImportedWorkouts() runs, each log's
+   * exerciseId holds the exercise name from the file.
+   */
+  workouts: WorkoutSession[];
+  mappings: ImportExerciseMapping[];
+  totalSets: number;
+  skippedRows: number;
+  dateRange: { start: number; end: number } | null;
+}
+
+export interface ImportOptions {
+  exercises: Exercise[];
+  targetUnits: WeightUnit;
+  /** Weight units used in the file, required when the format doesn't say */
+  sourceUnits?: WeightUnit;
+}
+
+interface ImportRow {
+  workoutKey: string;
+  workoutName: string;
+  startTime: number;
+  endTime?: number;
+  workoutNotes?: string;
+  exerciseName: string;
+  exerciseNotes?: string;
+  supersetKey?: string;
+  weight: number;
+  reps: number;
+  rpe?: number;
+  type: SetType;
+}
+
+/** Minimum similarity for an exercise name to be mapped automatically */
+export const EXERCISE_MATCH_THRESHOLD = 0.6;
+
+// ============================================================================
+// CSV Parsing
+// ============================================================================
+
+/**
+ * Parse CSV text into rows of fields
+ * Handles quoted fields, escaped quotes, CRLF and ';' delimited files
+ */
+export function parseCSV(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Detect which app produced an export from its header row
+ */
+export function detectImportSource(headers: string[]): ImportSource | null {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+
+  if (normalized.includes('exercise_title') && normalized.includes('start_time')) return 'hevy';
+  if (normalized.includes('exercise name') && normalized.includes('set order')) return 'strong';
+  if (normalized.includes('exercise') && normalized.includes('category') && normalized.some(h => h.startsWith('weight'))) {
+    return 'fitnotes';
+  }
+  return null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Parse the date formats used by the supported apps (local time)
+ * "2024-01-15 08:30:00", "2024-01-15", "15 Jan 2024, 08:30"
+ */
+export function parseImportDate(value: string): number | null {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) {
+    const [, y, m, d, h = '0', min = '0', s = '0'] = iso;
+    return new Date(+y, +m - 1, +d, +h, +min, +s).getTime();
+  }
+
+  const named = text.match(/^(\d{1,2}) ([A-Za-z]{3})[a-z]* (\d{4}),? (\d{1,2}):(\d{2})/);
+  if (named) {
+    const [, d, mon, y, h, min] = named;
+    const month = MONTHS.indexOf(mon.toLowerCase());
+    if (month >= 0) return new Date(+y, month, +d, +h, +min).getTime();
+  }
+
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parse Strong durations ("1h 5m", "45m", "50s") into milliseconds
+ */
+function parseDuration(value: string): number {
+  const hours = value.match(/(\d+)\s*h/);
+  const minutes = value.match(/(\d+)\s*m(?!s)/);
+  const seconds = value.match(/(\d+)\s*s/);
+  return ((hours ? +hours[1] * 3600 : 0) + (minutes ? +minutes[1] * 60 : 0) + (seconds ? +seconds[1] : 0)) * 1000;
+}
+
+function toNumber(value: string | undefined): number {
+  if (!value) return 0;
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Pounds convert to stored kg exactly, so they read back as they were logged
+ */
+function convertWeight(weight: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to || weight === 0) return weight;
+  if (to === STORAGE_UNIT) return fromDisplayWeight(weight, from);
+  return Math.round((weight / KG_PER_LB) * 10) / 10;
+}
+
+function mapSetType(value: string): SetType {
+  const type = value.trim().toLowerCase();
+  if (type === 'w' || type.startsWith('warm')) return 'W';
+  if (type === 'd' || type.startsWith('drop')) return 'D';
+  if (type === 'f' || type.startsWith('fail')) return 'F';
+  return 'N';
+}
+
+// ============================================================================
+// Row Readers
+// ============================================================================
+
+type Columns = (row: string[], name: string) => string;
+
+function columnReader(headers: string[]): Columns {
+  const index = new Map(headers.map((h, i) => [h.trim().toLowerCase(), i]));
+  return (row, name) => {
+    const i = index.get(name);
+    return i === undefined ? '' : (row[i] ?? '').trim();
+  };
+}
+
+function readStrongRow(row: string[], col: Columns): ImportRow | null {
+  const setOrder = col(row, 'set order');
+  // Strong also exports rest timer and note rows
+  if (!/^(\d+|[wdf])$/i.test(setOrder)) return null;
+
+  const date = col(row, 'date');
+  const startTime = parseImportDate(date);
+  if (startTime === null) return null;
+
+  const duration = parseDuration(col(row, 'duration'));
+  const workoutName = col(row, 'workout name') || 'Imported Workout';
+
+  return {
+    workoutKey: `${date}|${workoutName}`,
+    workoutName,
+    startTime,
+    endTime: duration > 0 ? startTime + duration : undefined,
+    workoutNotes: col(row, 'workout notes') || undefined,
+    exerciseName: col(row, 'exercise name'),
+    exerciseNotes: col(row, 'notes') || undefined,
+    weight: toNumber(col(row, 'weight')),
+    reps: toNumber(col(row, 'reps')),
+    rpe: toNumber(col(row, 'rpe')) || undefined,
+    type: /^\d+$/.test(setOrder) ? 'N' : mapSetType(setOrder),
+  };
+}
+
+function readHevyRow(row: string[], col: Columns): ImportRow | null {
+  const start = col(row, 'start_time');
+  const startTime = parseImportDate(start);
+  if (startTime === null) return null;
+
+  const workoutName = col(row, 'title') || 'Imported Workout';
+  const supersetId = col(row, 'superset_id');
+
+  return {
+    workoutKey: `${start}|${workoutName}`,
+    workoutName,
+    startTime,
+    endTime: parseImportDate(col(row, 'end_time')) ?? undefined,
+    workoutNotes: col(row, 'description') || undefined,
+    exerciseName: col(row, 'exercise_title'),
+    exerciseNotes: col(row, 'exercise_notes') || undefined,
+    supersetKey: supersetId ? `${start}|${supersetId}` : undefined,
+    weight: toNumber(col(row, 'weight_kg') || col(row, 'weight_lbs')),
+    reps: toNumber(col(row, 'reps')),
+    rpe: toNumber(col(row, 'rpe')) || undefined,
+    type: mapSetType(col(row, 'set_type')),
+  };
+}
+
+function readFitNotesRow(row: string[], col: Columns, weightColumn: string): ImportRow | null {
+  const date = col(row, 'date');
+  const startTime = parseImportDate(date);
+  if (startTime === null) return null;
+
+  return {
+    workoutKey: date,
+    workoutName: 'Imported Workout',
+    startTime,
+    exerciseName: col(row, 'exercise'),
+    exerciseNotes: col(row, 'comment') || undefined,
+    weight: toNumber(col(row, weightColumn)),
+    reps: toNumber(col(row, 'reps')),
+    type: 'N',
+  };
+}
+
+/**
+ * Units stated in the header ("weight_kg", "Weight (lbs)"), if any
+ */
+function detectUnits(headers: string[]): WeightUnit | null {
+  const joined = headers.join(' ').toLowerCase();
+  if (/weight_kg|weight \(kgs?\)/.test(joined)) return 'kg';
+  if (/weight_lbs?|weight \(lbs?\)/.test(joined)) return 'lbs';
+  return null;
+}
+
+// ============================================================================
+// Exercise Matching
+// ============================================================================
+
+const TOKEN_ALIASES: Record<string, string> = {
+  db: 'dumbbell',
+  dumbbells: 'dumbbell',
+  bb: 'barbell',
+  kb: 'kettlebell',
+  ohp: 'overhead press',
+  pullup: 'pull up',
+  pullups: 'pull up',
+  chinup: 'chin up',
+  chinups: 'chin up',
+  pushup: 'push up',
+  pushups: 'push up',
+  rdl: 'romanian deadlift',
+  triceps: 'tricep',
+  biceps: 'bicep',
+  flye: 'fly',
+  flyes: 'fly',
+  flys: 'fly',
+};
+
+/**
+ * Normalize an exercise name into comparable tokens
+ * "Bench Press (Barbell)" and "Barbell Bench Press" produce the same set
+ */
+export function tokenizeExerciseName(name: string): string[] {
+  const words = name
+    .toLowerCase()
+    .replace(/[()\[\],\-_/]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap(word => (TOKEN_ALIASES[word] || word).split(' '))
+    .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+  return Array.from(new Set(words));
+}
+
+/**
+ * Find the closest exercise by name (Dice coefficient over name tokens)
+ */
+export function matchExerciseName(name: string, exercises: Exercise[]): ExerciseMatch {
+  const tokens = tokenizeExerciseName(name);
+  if (tokens.length === 0) return { exerciseId: null, score: 0 };
+
+  let best: ExerciseMatch = { exerciseId: null, score: 0 };
+
+  for (const exercise of exercises) {
+    const candidate = tokenizeExerciseName(exercise.name);
+    const shared = candidate.filter(token => tokens.includes(token)).length;
+    const score = (2 * shared) / (tokens.length + candidate.length);
+
+    if (score > best.score) {
+      best = { exerciseId: exercise.id, score };
+    }
+  }
+
+  return best.score >= EXERCISE_MATCH_THRESHOLD ? best : { exerciseId: null, score: best.score };
+}
+
+/**
+ * Build a custom exercise for an unmapped name, guessing muscle group and equipment
+ */
+export function guessCustomExercise(name: string): Omit<Exercise, 'id'> {
+  const tokens = tokenizeExerciseName(name);
+  const has = (...words: string[]) => words.some(word => tokens.includes(word));
+
+  let muscleGroup: MuscleGroup = 'Chest';
+  if (has('run', 'running', 'bike', 'cycling', 'elliptical', 'rowing', 'treadmill', 'walk', 'walking')) muscleGroup = 'Cardio';
+  else if (has('squat', 'lunge', 'leg', 'calf', 'hip', 'glute', 'thrust', 'hamstring', 'quad')) muscleGroup = 'Legs';
+  else if (has('curl', 'tricep', 'bicep', 'skullcrusher', 'pushdown', 'extension')) muscleGroup = 'Arms';
+  else if (has('row', 'pull', 'pulldown', 'lat', 'deadlift', 'shrug', 'chin')) muscleGroup = 'Back';
+  else if (has('shoulder', 'overhead', 'military', 'lateral', 'raise', 'delt', 'arnold')) muscleGroup = 'Shoulders';
+  else if (has('crunch', 'plank', 'ab', 'abs', 'situp', 'core', 'oblique')) muscleGroup = 'Core';
+
+  let equipment = 'Bodyweight';
+  if (has('barbell', 'ez')) equipment = 'Barbell';
+  else if (has('dumbbell')) equipment = 'Dumbbell';
+  else if (has('cable')) equipment = 'Cable';
+  else if (has('machine', 'smith', 'lever')) equipment = 'Machine';
+  else if (has('kettlebell')) equipment = 'Kettlebell';
+
+  let category: ExerciseCategory = equipment === 'Machine' ? 'Machine' : 'Compound';
+  if (muscleGroup === 'Cardio') category = 'Cardio';
+  else if (equipment === 'Bodyweight') category = 'Bodyweight';
+
+  return {
+    name: name.trim(),
+    muscleGroup,
+    equipment,
+    category,
+    formGuide: [],
+    commonMistakes: [],
+    tips: [],
+  };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse a Strong, Hevy or FitNotes CSV export into a preview
+ * Throws if the file format is not recognized
+ */
+export function parseImportFile(text: string, options: ImportOptions): ImportPreview {
+  const [headers, ...dataRows] = parseCSV(text);
+  const source = headers ? detectImportSource(headers) : null;
+  if (!headers || !source) {
+    throw new Error('Unrecognized file. Export a CSV from Strong, Hevy or FitNotes and try again.');
+  }
+
+  const detectedUnits = detectUnits(headers);
+  const sourceUnits = detectedUnits ?? options.sourceUnits ?? options.targetUnits;
+  const col = columnReader(headers);
+  const fitNotesWeight = headers.map(h => h.trim().toLowerCase()).find(h => h.startsWith('weight')) || 'weight';
+
+  const rows: ImportRow[] = [];
+  let skippedRows = 0;
+
+  for (const row of dataRows) {
+    const parsed =
+      source === 'strong' ? readStrongRow(row, col) :
+      source === 'hevy' ? readHevyRow(row, col) :
+      readFitNotesRow(row, col, fitNotesWeight);
+
+    // Distance/time-only sets (cardio) have no reps to import
+    if (!parsed || !parsed.exerciseName || parsed.reps <= 0) {
+      skippedRows++;
+      continue;
+    }
+    rows.push(parsed);
+  }
+
+  // Group rows into workouts, then exercises, preserving file order
+  const workouts = new Map<string, WorkoutSession>();
+  const supersetIds = new Map<string, string>();
+  const setCounts = new Map<string, number>();
+
+  for (const row of rows) {
+    let workout = workouts.get(row.workoutKey);
+    if (!workout) {
+      workout = {
+        id: uuidv4(),
+        name: row.workoutName,
+        startTime: row.startTime,
+        endTime: row.endTime,
+        logs: [],
+        status: 'completed',
+        notes: row.workoutNotes,
+      };
+      workouts.set(row.workoutKey, workout);
+    }
+
+    let log: ExerciseLog | undefined = workout.logs.find(l => l.exerciseId === row.exerciseName);
+    if (!log) {
+      let supersetId: string | undefined;
+      if (row.supersetKey) {
+        supersetId = supersetIds.get(row.supersetKey) || uuidv4();
+        supersetIds.set(row.supersetKey, supersetId);
+      }
+      log = { id: uuidv4(), exerciseId: row.exerciseName, sets: [], notes: row.exerciseNotes, supersetId };
+      workout.logs.push(log);
+    } else if (!log.notes && row.exerciseNotes) {
+      // Strong attaches notes to individual set rows
+      log.notes = row.exerciseNotes;
+    }
+
+    const set: SetLog = {
+      id: uuidv4(),
+      reps: row.reps,
+      weight: convertWeight(row.weight, sourceUnits, options.targetUnits),
+      rpe: row.rpe,
+      type: row.type,
+      completed: true,
+    };
+    log.sets.push(set);
+    setCounts.set(row.exerciseName, (setCounts.get(row.exerciseName) || 0) + 1);
+  }
+
+  const mappings: ImportExerciseMapping[] = Array.from(setCounts.entries())
+    .map(([sourceName, setCount]) => {
+      const match = matchExerciseName(sourceName, options.exercises);
+      return { sourceName, exerciseId: match.exerciseId, confidence: match.score, setCount };
+    })
+    .sort((a, b) => b.setCount - a.setCount);
+
+  const sorted = Array.from(workouts.values()).sort((a, b) => b.startTime - a.startTime);
+
+  return {
+    source,
+    detectedUnits,
+    workouts: sorted,
+    mappings,
+    totalSets: rows.length,
+    skippedRows,
+    dateRange: sorted.length > 0
+      ? { start: sorted[sorted.length - 1].startTime, end: sorted[0].startTime }
+      : null,
+  };
+}
+
+/**
+ * Resolve preview workouts to real exercise ids
+ * @param exerciseIds - source exercise name -> exercise id (library or newly created custom)
+ */
+export function buildImportedWorkouts(
+  preview: ImportPreview,
+  exerciseIds: Record<string, string>
+): WorkoutSession[] {
+  return preview.workouts.map(workout => ({
+    ...workout,
+    logs: workout.logs
+      .filter(log => exerciseIds[log.exerciseId])
+      .map(log => ({ ...log, exerciseId: exerciseIds[log.exerciseId] })),
+  }));
+}
+
+// ============================================================================
+// Personal Records
+// ============================================================================
+
+/**
+ * Rebuild personal records by replaying completed workouts in date order
+ * Uses the same rules as finishWorkout() (see updateExercisePRs)
+ */
+export function recomputePersonalRecords(
+  history: WorkoutSession[],
+  customExercises: Exercise[] = []
+): Record<string, ExercisePRHistory> {
+  const records: Record<string, ExercisePRHistory> = {};
+  const completed = history
+    .filter(w => w.status === 'completed')
+    .sort((a, b) => a.startTime - b.startTime);
+
+  for (const workout of completed) {
+    const date = workout.endTime || workout.startTime;
+
+    for (const log of workout.logs) {
+      const metric = getExerciseMetric(log.exerciseId, customExercises);
+      const { prs } = updateExercisePRs(records[log.exerciseId], log.exerciseId, log.sets, metric, date);
+      if (prs.records.length > 0) records[log.exerciseId] = prs;
+    }
+  }
+
+  return records;
+}
@@ -12,6 +12,7 @@ import { WorkoutSession, Exercise, MuscleGroup, ExperienceLevel } from '../types
 import { EXERCISE_LIBRARY } from '../constants';
 import { extractExerciseTimeSeries, extractVolumeTimeSeries, calculateTrend } from './analytics';
 import { calculateVolumeLandmarks } from './volumeOptimization';
+import { toSettingsExperienceLevel } from '../utils/experienceLevel';
 
 /**
  * Equipment categories for substitution matching
@@ -185,7 +186,7 @@ export function findExerciseSubstitutions(
  */
 export function analyzeWeakPoints(
   history: WorkoutSession[],
-  experienceLevel: ExperienceLevel = 'intermediate'
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate'
 ): WeakPointAnalysis {
   const weakPoints: WeakPoint[] = [];
   const muscleGroups: MuscleGroup[] = ['chest', 'back', 'legs', 'shoulders', 'arms', 'core'];
@@ -207,7 +208,7 @@ export function analyzeWeakPoints(
     volumeAnalysis.set(muscleGroup, { sets: avgSets, volume: avgVolume });
 
     // Check if undertrained
-    const landmarks = calculateVolumeLandmarks(muscleGroup, history, experienceLevel);
+    const landmarks = calculateVolumeLandmarks(muscleGroup, history, toSettingsExperienceLevel(experienceLevel));
 
     if (avgSets < landmarks.mev * 0.8) {
       const severity: 'minor' | 'moderate' | 'severe' =
@@ -291,7 +292,7 @@ export function analyzeWeakPoints(
   const priorityAreas = muscleGroups
     .filter(mg => {
       const data = volumeAnalysis.get(mg);
-      const landmarks = calculateVolumeLandmarks(mg, history, experienceLevel);
+      const landmarks = calculateVolumeLandmarks(mg, history, toSettingsExperienceLevel(experienceLevel));
       return data && data.sets < landmarks.mev;
     })
     .sort((a, b) => {
@@ -411,7 +412,7 @@ export function suggestExerciseVariations(
 export function selectBalancedExercises(
   targetMuscleGroups: MuscleGroup[],
   sessionCount: number,
-  experienceLevel: ExperienceLevel = 'intermediate',
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate',
   availableEquipment: string[] = []
 ): Exercise[][] {
   const sessions: Exercise[][] = [];
@@ -427,8 +428,8 @@ export function selectBalancedExercises(
         const exercisesForMuscle = EXERCISE_LIBRARY.filter(e => {
           const equipmentMatch = availableEquipment.length === 0 ||
             availableEquipment.includes(inferEquipmentCategory(e));
-          const difficultyMatch = e.difficulty === experienceLevel ||
-            (experienceLevel === 'intermediate' && e.difficulty === 'beginner');
+          const difficultyMatch = e.difficulty === toSettingsExperienceLevel(experienceLevel) ||
+            (experienceLevel === 'intermediate' && e.difficulty === 'Beginner');
           return e.muscleGroup === muscleGroup && equipmentMatch && difficultyMatch;
         });
 
@@ -700,7 +701,7 @@ export function getQuickSubstitution(
  */
 export function getTopWeakPoint(
   history: WorkoutSession[],
-  experienceLevel: ExperienceLevel = 'intermediate'
+  experienceLevel: Lowercase<ExperienceLevel> = 'intermediate'
 ): string {
   const analysis = analyzeWeakPoints(history, experienceLevel);
   if (analysis.weakPoints.length === 0) {
@@ -1,7 +1,6 @@
 import { create } from 'zustand';
 import { backend } from '../services/backend';
 import { useStore } from './useStore';
-import { INITIAL_TEMPLATES, INITIAL_PROGRAMS } from '../constants';
 
 interface AuthState {
   isAuthenticated: boolean;
@@ -167,70 +166,13 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       return;
     }
 
-    const appStore = useStore.getState();
-
-    // Show syncing status immediately
-    useStore.setState({ syncStatus: 'syncing' });
     console.log('☁️ Starting cloud sync...');
 
     try {
-      // Fetch all data from backend with individual error handling
-      const results = await Promise.allSettled([
-        backend.workouts.getHistory(),
-        backend.workouts.getTemplates(),
-        backend.settings.get(),
-        backend.dailyLogs.getAll(),
-        backend.programs.getAll(),
-      ]);
-
-      // Log any individual failures
-      const labels = ['history', 'templates', 'settings', 'dailyLogs', 'programs'];
-      results.forEach((result, i) => {
-        if (result.status === 'rejected') {
-          console.error(`❌ Failed to fetch ${labels[i]}:`, result.reason);
-        }
-      });
-
-      // Extract successful results (use empty defaults for failures)
-      const cloudHistory = results[0].status === 'fulfilled' ? results[0].value : [];
-      const cloudTemplates = results[1].status === 'fulfilled' ? results[1].value : [];
-      const cloudSettings = results[2].status === 'fulfilled' ? results[2].value : null;
-      const cloudDailyLogs = results[3].status === 'fulfilled' ? results[3].value : {};
-      const cloudPrograms = results[4].status === 'fulfilled' ? results[4].value : [];
-
-      // Check if ALL requests failed
-      const allFailed = results.every(r => r.status === 'rejected');
-      if (allFailed) {
-        throw new Error('All cloud fetch requests failed');
-      }
-
-      // Check if some requests failed (partial sync)
-      const someFailed = results.some(r => r.status === 'rejected');
-      console.log(`☁️ Cloud fetch complete: ${someFailed ? 'partial success' : 'all succeeded'}`);
-
-      // Merge built-in templates/programs with cloud data
-      // Built-in templates (prd_push_a, etc.) must always be available for programs to work
-      const mergedTemplates = [
-        ...INITIAL_TEMPLATES,
-        ...cloudTemplates.filter(ct => !INITIAL_TEMPLATES.some(it => it.id === ct.id))
-      ];
-
-      const mergedPrograms = [
-        ...INITIAL_PROGRAMS,
-        ...cloudPrograms.filter(cp => !INITIAL_PROGRAMS.some(ip => ip.id === cp.id))
-      ];
-
-      useStore.setState({
-        history: cloudHistory.length > 0 ? cloudHistory : appStore.history,
-        templates: cloudTemplates.length > 0 ? mergedTemplates : appStore.templates,
-        settings: cloudSettings ? { ...appStore.settings, ...cloudSettings } : appStore.settings,
-        dailyLogs: Object.keys(cloudDailyLogs).length > 0 ? cloudDailyLogs : appStore.dailyLogs,
-        programs: cloudPrograms.length > 0 ? mergedPrograms : appStore.programs,
-        // Use 'partial' status if some requests failed, 'synced' if all succeeded
-        syncStatus: someFailed ? 'partial' : 'synced',
-      });
-
-      console.log(`✅ Cloud sync complete (${someFailed ? 'partial' : 'full'})`);
+      // Two-way merge of workouts, templates, programs, daily logs and settings
+      // (built-in templates/programs are kept because local-only records are never dropped)
+      await useStore.getState().syncData();
+      console.log(`✅ Cloud sync complete (${useStore.getState().syncStatus})`);
 
       // Sync images (non-critical, don't fail entire sync)
       try {
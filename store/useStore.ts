@@ -1,16 +1,32 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { UserSettings, WorkoutSession, ExerciseLog, SetLog, SetType, Goal, Program, DailyLog, BiometricPoint, PRType, PersonalRecord, Exercise, GamificationState, Achievement } from '../types';
+import { UserSettings, WorkoutSession, ExerciseLog, SetLog, SetType, Goal, Program, DailyLog, BiometricPoint, PRType, Exercise, GamificationState, Achievement, SyncConflict, SyncTombstone, GymProfile, WorkoutBlock, BanditContext, PendingVolumeRecommendation, VolumeRecommendation } from '../types';
 import { MOCK_HISTORY, INITIAL_TEMPLATES, EXERCISE_LIBRARY, INITIAL_PROGRAMS } from '../constants';
 import { v4 as uuidv4 } from 'uuid';
 import { backend } from '../services/backend';
 import { getSuggestion, checkVolumeWarning, shouldDeloadWeek, ProgressiveSuggestion } from '../services/progressiveOverload';
 import { calculate1RM, getBest1RM, classifyStrengthLevel, calculateOverallStrengthScore, OneRepMax } from '../services/strengthScore';
 import { detectDefaultUnits, getDefaultBarWeight } from '../utils/geolocation';
+import { recomputePersonalRecords } from '../services/workoutImport';
+import { restoreBackup as restoreBackupData, migrateBackup, ParsedBackup, RestoreMode, RestoreResult } from '../services/backupRestore';
+import { importProgramPackage as importPackageData, ProgramPackage } from '../services/programPackage';
+import { migrateWeightsToKg } from '../services/weightMigration';
+import { getGymProfiles } from '../services/gymProfiles';
+import { getLoadRounding } from '../services/loadRounding';
+import { generateWarmupSets, getDefaultWarmupScheme } from '../services/warmupGenerator';
+import { advanceBlock as advanceBlockProgress, getBlock, getBlockLogs, pauseBlocks, pruneBlocks, resetBlocks, resumeBlocks, startBlock as startBlockProgress, upsertBlock } from '../services/workoutBlocks';
+import { fromDisplayWeight, roundToDisplayStep, toDisplayWeight } from '../utils/conversions';
+import { deserializeBanditState, initializeBanditState, serializeBanditState } from '../services/ml/volumeBandit';
+import { recordVolumeRecommendation as recordPendingRecommendation, settleVolumeRecommendations as settlePendingRecommendations } from '../services/ml/volumeRewardLedger';
+import { getExerciseMetric, getWorkoutVolume, updateExercisePRs } from '../services/setMetrics';
+import { evaluateProgramProgression, expandPrescription, getSessionPrescription, prescribeExercise } from '../services/programProgression';
+import { mergeCollection, mergeSettings, normalizeTimestamp, createTombstone, upsertTombstones, mergeTombstones, applyTombstones, SyncRecord } from '../services/syncMerge';
 import {
   createInitialGamificationState,
   processWorkoutCompletion,
+  ensureWeeklyChallenge,
+  progressWeeklyChallenge,
   getRankForXP,
   getLevelProgress,
   IRON_RANKS,
@@ -31,6 +47,15 @@ interface UndoableAction {
   timestamp: number;
 }
 
+/**
+ * How a template's exercises are grouped into blocks
+ * blockIds runs parallel to the exercise ids (undefined = not in a block)
+ */
+export interface TemplateBlockLayout {
+  blockIds: (string | undefined)[];
+  blocks: WorkoutBlock[];
+}
+
 /**
  * VoltLift Global Application State
  *
@@ -145,6 +170,25 @@ interface AppState {
   pendingSyncDailyLogs: Set<string>;
   settingsNeedsSync: boolean;
 
+  /**
+   * Records changed both locally and in the cloud since the last sync
+   *
+   * Conflicted records are neither pushed nor overwritten until resolved
+   * @see resolveSyncConflict() action
+   * @see services/syncMerge.ts for merge rules
+   */
+  syncConflicts: SyncConflict[];
+
+  /**
+   * Deletion markers for workouts, templates, programs and daily logs
+   *
+   * Persisted (unlike the pendingSync* sets) because a delete cannot be
+   * rediscovered from local data. Tombstones without syncedAt are pushed on
+   * the next sync; all are purged after TOMBSTONE_RETENTION_DAYS.
+   * @see services/syncMerge.ts for tombstone rules
+   */
+  tombstones: SyncTombstone[];
+
   /**
    * Sync lock to prevent concurrent sync operations
    * Set to true during syncData() execution
@@ -185,9 +229,22 @@ interface AppState {
   lastWorkoutXP: WorkoutXPResult | null;
   lastAchievements: Achievement[];
   lastLevelUp: boolean;
+
+  /**
+   * Volume bandit learning state, stored via serializeBanditState()
+   * @see services/ml/volumeBandit.ts
+   */
+  volumeBanditState: string;
+
+  /**
+   * Volume recommendations shown and waiting for their delayed reward
+   * @see settleVolumeRecommendations() action
+   * @see services/ml/volumeRewardLedger.ts
+   */
+  pendingVolumeRecommendations: PendingVolumeRecommendation[];
   
   // Actions
-  startWorkout: (templateId?: string) => void;
+  startWorkout: (templateId?: string, gymProfileId?: string) => void; // Gym defaults to settings.activeGymProfileId
   finishWorkout: () => WorkoutSession | null;
   saveDraft: () => void;
   resumeWorkout: (draftId: string) => void;
@@ -195,6 +252,7 @@ interface AppState {
   addExerciseToActive: (exerciseId: string) => void;
   updateSet: (exerciseIndex: number, setIndex: number, updates: Partial<SetLog>) => void;
   addSet: (exerciseIndex: number) => void;
+  addWarmupSets: (exerciseIndex: number) => number; // Returns number of warm-up sets inserted
   duplicateSet: (exerciseIndex: number, setIndex: number) => void;
   removeSet: (exerciseIndex: number, setIndex: number) => void;
   restoreLastDeleted: () => void;
@@ -205,23 +263,31 @@ interface AppState {
   getAllExercises: () => Exercise[];
   getRestTimerForExercise: (exerciseId: string) => number;
   updateSettings: (settings: Partial<UserSettings>) => void;
+  saveGymProfile: (profile: GymProfile) => void; // Adds or replaces by id
+  deleteGymProfile: (profileId: string) => void;
   completeOnboarding: (name: string, goal: Goal, experience: 'Beginner' | 'Intermediate' | 'Advanced', equipment: string[]) => void;
   saveExerciseVisual: (exerciseId: string, url: string) => void;
   loadVisuals: () => Promise<void>;
   swapExercise: (logId: string, newExerciseId: string, persistent?: boolean) => void;
   saveTemplate: (name: string, exerciseIds: string[]) => void;
-  updateTemplate: (id: string, name: string, exerciseIds: string[]) => void;
+  updateTemplate: (id: string, name: string, exerciseIds: string[], layout?: TemplateBlockLayout) => void;
   duplicateTemplate: (id: string) => void;
   deleteTemplate: (id: string) => void;
+  deleteWorkout: (id: string) => void;
   saveWorkoutAsTemplate: (workoutId: string, templateName?: string) => string | null;
   suggestNextSet: (exerciseIndex: number, setIndex: number) => void; 
   updateExerciseLog: (logId: string, updates: Partial<ExerciseLog>) => void;
   removeExerciseLog: (logId: string) => void;
   toggleSuperset: (logId: string) => void;
+  updateBlock: (blockId: string, updates: Partial<Omit<WorkoutBlock, 'id'>>) => void; // Adds the block if the group has none yet
+  startBlock: (blockId: string) => void;
+  advanceBlock: (blockId: string) => void; // Next exercise, or next round after the last one
+  resetBlock: (blockId: string) => void;
   updateActiveWorkout: (updates: Partial<WorkoutSession>) => void;
   activateProgram: (programId: string, selectedFrequency?: number) => void;
   saveProgram: (program: Omit<Program, 'id'>) => string;
   deleteProgram: (programId: string) => void;
+  importProgramPackage: (pkg: ProgramPackage) => string; // Returns the new program id
 
   // Phase 4 Actions
   logDailyBio: (date: string, data: Partial<DailyLog>) => void;
@@ -232,6 +298,7 @@ interface AppState {
   getBodyweightTrend: (days?: number) => { date: string; weight: number }[];
   getLatestMeasurements: () => any | null;
   syncData: () => Promise<void>;
+  resolveSyncConflict: (conflictId: string, choice: 'local' | 'remote') => void;
   addBiometricPoint: (point: BiometricPoint) => void;
   setBodyMetricsGoal: (goal: Partial<import('../types').BodyMetricsGoals>) => void;
   getWeightGoalProgress: () => { progress: number; current: number; target: number; remaining: number; onTrack: boolean; predictedDate: Date | null } | null;
@@ -254,11 +321,153 @@ interface AppState {
   // Data Management
   ensureInitialization: () => void; // Ensures templates/programs exist after migration
   resetAllData: () => void;
+  importWorkouts: (workouts: WorkoutSession[]) => number; // Returns number of workouts added
+  restoreBackup: (backup: ParsedBackup, mode: RestoreMode) => RestoreResult;
 
   // Gamification Actions
   getGamificationState: () => GamificationState;
   getRankInfo: () => { rank: typeof IRON_RANKS[number]; progress: number; xpToNext: number };
   clearLastWorkoutRewards: () => void;
+  refreshWeeklyChallenge: () => void; // Starts this week's challenge if the last one expired
+
+  // ML Actions
+  recordVolumeRecommendation: (
+    recommendation: Pick<VolumeRecommendation, 'action' | 'muscleGroup' | 'currentVolume' | 'recommendedVolume'>,
+    context: BanditContext
+  ) => void;
+  settleVolumeRecommendations: () => number; // Applies rewards whose window closed; returns how many
+}
+
+/**
+ * Persisted store schema version
+ * Increment when schema changes and add a step to migrateStoreState()
+ */
+export const STORE_VERSION = 9;
+
+/**
+ * Upgrade persisted state written by an older store version
+ * Used by the persist middleware and when restoring a JSON backup
+ */
+export function migrateStoreState(persistedState: any, version: number): any {
+  const state = migrateProgramsAndTemplates(persistedState, version);
+
+  // Version 9: Weights are stored in kg whatever settings.units says
+  // (applied on top of the steps below, which return early)
+  if (version < 9 && state.settings?.units === 'lbs') {
+    console.log('[Migration v9] Converting stored weights from lbs to kg');
+    return migrateWeightsToKg(state);
+  }
+
+  return state;
+}
+
+/**
+ * Migration steps up to version 8 (one step per upgrade)
+ */
+function migrateProgramsAndTemplates(persistedState: any, version: number): any {
+  // Version 2: Programs now include filter metadata (goal, difficulty, splitType, frequency)
+  if (version < 2) {
+    // Check if programs are missing filter metadata
+    const needsMigration = persistedState.programs?.some((p: any) =>
+      !p.goal || !p.difficulty || !p.splitType || p.frequency === undefined
+    );
+
+    if (needsMigration) {
+      console.log('[Migration v2] Updating programs with filter metadata');
+      return {
+        ...persistedState,
+        programs: INITIAL_PROGRAMS, // Reset to current program definitions
+      };
+    }
+  }
+
+  // Version 3: Programs now support frequency variants (supportedFrequencies, frequencyVariants)
+  if (version < 3) {
+    console.log('[Migration v3] Updating programs with frequency variant support');
+    return {
+      ...persistedState,
+      programs: INITIAL_PROGRAMS, // Reset to get new program structure with frequency variants
+    };
+  }
+
+  // Version 4: Update program names (e.g., "Periodization Protocol" → "Dual-Phase Domination")
+  if (version < 4) {
+    console.log('[Migration v4] Updating program names to latest definitions');
+    return {
+      ...persistedState,
+      programs: INITIAL_PROGRAMS, // Refresh programs to pick up updated names
+    };
+  }
+
+  // Version 5: Add gamification state (XP, streaks, achievements)
+  if (version < 5) {
+    console.log('[Migration v5] Adding gamification state');
+    // Merge with existing partial state if present (handles interrupted migrations)
+    const initialState = createInitialGamificationState();
+    return {
+      ...persistedState,
+      gamification: persistedState.gamification
+        ? { ...initialState, ...persistedState.gamification }
+        : initialState,
+    };
+  }
+
+  // Version 6: Update templates to include PRD (Periodization) program templates
+  if (version < 6) {
+    console.log('[Migration v6] Updating templates with PRD program workouts');
+    return {
+      ...persistedState,
+      templates: INITIAL_TEMPLATES, // Refresh templates to pick up PRD Phase 1 & 2 templates
+    };
+  }
+
+  // Version 7: CRITICAL FIX - Ensure templates and programs exist for all users
+  // Before this fix, Zustand persist didn't write templates/programs on initial load
+  // This left users with 0 templates and 0 programs, breaking program functionality
+  if (version < 7) {
+    console.log('[Migration v7] Ensuring templates and programs exist');
+    return {
+      ...persistedState,
+      templates: persistedState.templates?.length > 0 ? persistedState.templates : INITIAL_TEMPLATES,
+      programs: persistedState.programs?.length > 0 ? persistedState.programs : INITIAL_PROGRAMS,
+    };
+  }
+
+  // Version 8: Built-in programs declare their progression rules
+  if (version < 8) {
+    console.log('[Migration v8] Adding progression rules to built-in programs');
+    return {
+      ...persistedState,
+      programs: (persistedState.programs || INITIAL_PROGRAMS).map((program: Program) => {
+        const builtIn = INITIAL_PROGRAMS.find(p => p.id === program.id);
+        return builtIn?.progressionRules && !program.progressionRules
+          ? { ...program, progressionRules: builtIn.progressionRules }
+          : program;
+      }),
+    };
+  }
+
+  return persistedState;
+}
+
+/**
+ * Update the AI coach's on-device index of the user's own history
+ * Loaded lazily to keep the RAG store off the startup path
+ */
+function updateCoachHistory(update: (userHistory: typeof import('../services/ai/userHistory')) => void): void {
+  import('../services/ai/userHistory')
+    .then(update)
+    .catch(error => console.warn('[RAG] Failed to index user history:', error));
+}
+
+function reindexCoachHistory(state: Pick<AppState, 'history' | 'settings' | 'dailyLogs' | 'customExercises'>): void {
+  updateCoachHistory(({ indexUserHistory }) => indexUserHistory({
+    history: state.history,
+    personalRecords: state.settings.personalRecords,
+    dailyLogs: state.dailyLogs,
+    customExercises: state.customExercises,
+    units: state.settings.units,
+  }));
 }
 
 export const useStore = create<AppState>()(
@@ -277,7 +486,7 @@ export const useStore = create<AppState>()(
           onboardingCompleted: false,
           personalRecords: {},
           defaultRestTimer: 90,
-          barWeight: getDefaultBarWeight(defaultUnits),
+          barWeight: fromDisplayWeight(getDefaultBarWeight(defaultUnits), defaultUnits),
         },
       history: MOCK_HISTORY,
       templates: INITIAL_TEMPLATES,
@@ -296,6 +505,8 @@ export const useStore = create<AppState>()(
       pendingSyncPrograms: new Set<string>(),
       pendingSyncDailyLogs: new Set<string>(),
       settingsNeedsSync: false,
+      syncConflicts: [],
+      tombstones: [],
       isSyncing: false,
 
       undoStack: null,
@@ -309,12 +520,25 @@ export const useStore = create<AppState>()(
       lastAchievements: [],
       lastLevelUp: false,
 
-      startWorkout: (templateId) => {
+      // ML
+      volumeBanditState: serializeBanditState(initializeBanditState()),
+      pendingVolumeRecommendations: [],
+
+      startWorkout: (templateId, gymProfileId) => {
         let newWorkout: WorkoutSession;
+        const gymId = gymProfileId || get().settings.activeGymProfileId;
 
         if (templateId) {
           const template = get().templates.find(t => t.id === templateId);
           if (template) {
+            const { settings, programs, customExercises } = get();
+            const activeProgram = programs.find(p => p.id === settings.activeProgram?.programId);
+            const weekPrescription = activeProgram && settings.activeProgram && getSessionPrescription(
+              activeProgram,
+              settings.activeProgram.currentSessionIndex,
+              templateId
+            );
+
             // Find the most recent completed workout from this template
             const previousWorkout = get().history
               .filter(w => w.sourceTemplateId === templateId && w.status === 'completed')
@@ -326,10 +550,64 @@ export const useStore = create<AppState>()(
               startTime: Date.now(),
               status: 'active',
               sourceTemplateId: templateId, // Track source
+              blocks: resetBlocks(template.blocks),
               logs: template.logs.map(log => {
                 // Try to find matching exercise from previous workout
                 const previousLog = previousWorkout?.logs.find(l => l.exerciseId === log.exerciseId);
 
+                // Percentage loads round to what this exercise can be set up with at the gym
+                const load = getLoadRounding(log.exerciseId, settings, customExercises, gymId);
+
+                // A week prescription from the Program Builder takes precedence
+                const prescription = weekPrescription?.find(p => p.exerciseId === log.exerciseId);
+                if (prescription) {
+                  const fallbackWeight = previousLog
+                    ? Math.max(0, ...previousLog.sets.map(s => s.weight))
+                    : log.sets[0]?.weight || 0;
+                  return {
+                    ...log,
+                    id: uuidv4(),
+                    restSeconds: prescription.rest,
+                    sets: expandPrescription(
+                      prescription,
+                      settings.units,
+                      settings.trainingMaxes?.[log.exerciseId]?.value,
+                      fallbackWeight,
+                      load
+                    ).map(set => ({
+                      id: uuidv4(),
+                      reps: set.reps,
+                      weight: set.weight,
+                      rpe: set.rpe,
+                      type: 'N' as SetType,
+                      completed: false
+                    }))
+                  };
+                }
+
+                // The active program's progression rules prescribe the sets
+                const prescribed = activeProgram && prescribeExercise(
+                  activeProgram,
+                  templateId,
+                  log.exerciseId,
+                  settings.activeProgram?.progression,
+                  settings.units,
+                  load
+                );
+                if (prescribed) {
+                  return {
+                    ...log,
+                    id: uuidv4(),
+                    sets: prescribed.map(set => ({
+                      id: uuidv4(),
+                      reps: set.reps,
+                      weight: set.weight,
+                      type: 'N' as SetType,
+                      completed: false
+                    }))
+                  };
+                }
+
                 if (previousLog && previousLog.sets.length > 0) {
                   // Pre-fill with previous workout data
                   return {
@@ -373,101 +651,37 @@ export const useStore = create<AppState>()(
           };
         }
 
+        if (gymId) newWorkout.gymProfileId = gymId;
+
         set({ activeWorkout: newWorkout, restTimerStart: null, activeBiometrics: [] });
       },
 
       finishWorkout: () => {
-        const { activeWorkout, history, settings, programs, activeBiometrics } = get();
+        const { activeWorkout, history, settings, programs, activeBiometrics, customExercises } = get();
         if (!activeWorkout) return null;
 
         const completedWorkout: WorkoutSession = {
           ...activeWorkout,
           endTime: Date.now(),
           status: 'completed',
-          biometrics: activeBiometrics // Save heart rate data
+          biometrics: activeBiometrics, // Save heart rate data
+          updatedAt: Date.now()
         };
 
-        // Calculate New Personal Records (Weight, Volume, Reps)
+        // Calculate New Personal Records (weight/volume/reps, or duration/distance/pace for timed exercises)
         const newPRs = { ...settings.personalRecords };
         let prUpdated = false;
         const newPRsDetected: { exerciseId: string; type: PRType; value: number }[] = [];
+        const now = Date.now();
 
         completedWorkout.logs.forEach(log => {
-          const validSets = log.sets.filter(s => s.completed && s.type !== 'W');
-          if (validSets.length === 0) return;
-
-          // Get or initialize exercise PR history
-          const exercisePRs = newPRs[log.exerciseId] || {
-            exerciseId: log.exerciseId,
-            records: [],
-            bestWeight: undefined,
-            bestVolume: undefined,
-            bestReps: undefined
-          };
-
-          const now = Date.now();
-
-          // 1. WEIGHT PR: Max single set weight
-          const maxWeightSet = validSets.reduce((max, set) =>
-            set.weight > max.weight ? set : max, validSets[0]
-          );
-          const maxWeight = maxWeightSet.weight;
-          const currentBestWeight = exercisePRs.bestWeight?.value || 0;
-
-          if (maxWeight > currentBestWeight && maxWeight > 0) {
-            const weightPR: PersonalRecord = {
-              value: maxWeight,
-              date: now,
-              type: 'weight',
-              reps: maxWeightSet.reps
-            };
-            exercisePRs.bestWeight = weightPR;
-            exercisePRs.records.unshift(weightPR);
-            prUpdated = true;
-            newPRsDetected.push({ exerciseId: log.exerciseId, type: 'weight', value: maxWeight });
-          }
-
-          // 2. VOLUME PR: Total weight × reps across all sets
-          const totalVolume = validSets.reduce((sum, set) => sum + (set.weight * set.reps), 0);
-          const currentBestVolume = exercisePRs.bestVolume?.value || 0;
-
-          if (totalVolume > currentBestVolume && totalVolume > 0) {
-            const volumePR: PersonalRecord = {
-              value: totalVolume,
-              date: now,
-              type: 'volume',
-              setDetails: validSets.map(s => ({ weight: s.weight, reps: s.reps }))
-            };
-            exercisePRs.bestVolume = volumePR;
-            exercisePRs.records.unshift(volumePR);
-            prUpdated = true;
-            newPRsDetected.push({ exerciseId: log.exerciseId, type: 'volume', value: totalVolume });
-          }
-
-          // 3. REP PR: Most reps at any weight
-          const maxRepsSet = validSets.reduce((max, set) =>
-            set.reps > max.reps ? set : max, validSets[0]
-          );
-          const maxReps = maxRepsSet.reps;
-          const currentBestReps = exercisePRs.bestReps?.value || 0;
-
-          if (maxReps > currentBestReps && maxReps > 0) {
-            const repPR: PersonalRecord = {
-              value: maxReps,
-              date: now,
-              type: 'reps',
-              weight: maxRepsSet.weight
-            };
-            exercisePRs.bestReps = repPR;
-            exercisePRs.records.unshift(repPR);
-            prUpdated = true;
-            newPRsDetected.push({ exerciseId: log.exerciseId, type: 'reps', value: maxReps });
-          }
+          const metric = getExerciseMetric(log.exerciseId, customExercises);
+          const { prs, newRecords } = updateExercisePRs(newPRs[log.exerciseId], log.exerciseId, log.sets, metric, now);
+          if (newRecords.length === 0) return;
 
-          // Update the exercise PRs in the main record
-          if (prUpdated) {
-            newPRs[log.exerciseId] = exercisePRs;
-          }
+          newPRs[log.exerciseId] = prs;
+          prUpdated = true;
+          newRecords.forEach(pr => newPRsDetected.push({ exerciseId: log.exerciseId, type: pr.type, value: pr.value }));
         });
 
         let newSettings = { ...settings };
@@ -499,29 +713,52 @@ export const useStore = create<AppState>()(
             }
         }
 
+        // Progression rules prescribe the next session from this one
+        if (settings.activeProgram && newSettings.activeProgram) {
+            const prog = programs.find(p => p.id === settings.activeProgram?.programId);
+            const progression = prog && evaluateProgramProgression(
+                prog,
+                completedWorkout,
+                settings.activeProgram.progression,
+                {
+                    units: settings.units,
+                    trainingMaxes: settings.trainingMaxes,
+                    now,
+                    formula: settings.e1rmFormula,
+                    // Same rounding startWorkout prescribed the sets with
+                    getLoad: exerciseId => getLoadRounding(exerciseId, settings, customExercises, completedWorkout.gymProfileId),
+                }
+            );
+            if (progression && progression !== settings.activeProgram.progression) {
+                newSettings.activeProgram = { ...newSettings.activeProgram, progression };
+            }
+        }
+
         // Mark workout as dirty for sync
         const newPendingWorkouts = new Set(get().pendingSyncWorkouts);
         newPendingWorkouts.add(completedWorkout.id);
 
         // =========== GAMIFICATION PROCESSING ===========
         // Calculate total workout volume for gamification
-        const workoutVolume = completedWorkout.logs.reduce((total, log) => {
-          return total + log.sets
-            .filter(s => s.completed && s.type !== 'W')
-            .reduce((sum, set) => sum + (set.weight * set.reps), 0);
-        }, 0);
+        const workoutVolume = getWorkoutVolume(completedWorkout.logs, customExercises);
 
-        // Count PRs hit (only weight PRs count as "true" PRs for gamification)
-        const prsHit = newPRsDetected.filter(pr => pr.type === 'weight').length;
+        // Count PRs hit (weight PRs, or the headline PR of timed exercises, count as "true" PRs for gamification)
+        const prsHit = newPRsDetected.filter(pr => pr.type === 'weight' || pr.type === 'duration' || pr.type === 'pace').length;
 
         // Process workout through gamification system with error handling
         let gamificationResult;
         try {
           gamificationResult = processWorkoutCompletion(
-            get().gamification,
+            ensureWeeklyChallenge(get().gamification, {
+              history,
+              dailyLogs: get().dailyLogs,
+              units: newSettings.units,
+              customExercises,
+            }),
             completedWorkout,
             prsHit,
-            workoutVolume
+            workoutVolume,
+            customExercises
           );
         } catch (error) {
           console.error('Gamification calculation failed:', error);
@@ -541,6 +778,11 @@ export const useStore = create<AppState>()(
         }
         // =========== END GAMIFICATION ===========
 
+        const settingsChanged = prUpdated || settings.activeProgram !== newSettings.activeProgram;
+        if (settingsChanged) {
+          newSettings.updatedAt = Date.now();
+        }
+
         set({
           settings: newSettings,
           history: [completedWorkout, ...history],
@@ -548,7 +790,7 @@ export const useStore = create<AppState>()(
           restTimerStart: null,
           activeBiometrics: [],
           pendingSyncWorkouts: newPendingWorkouts,
-          settingsNeedsSync: prUpdated || settings.activeProgram !== newSettings.activeProgram,
+          settingsNeedsSync: settingsChanged,
           // Gamification updates
           gamification: gamificationResult.newState,
           lastWorkoutXP: gamificationResult.xpEarned,
@@ -556,6 +798,15 @@ export const useStore = create<AppState>()(
           lastLevelUp: gamificationResult.leveledUp,
         });
 
+        updateCoachHistory(({ indexWorkoutSession }) => indexWorkoutSession(completedWorkout, {
+          personalRecords: newSettings.personalRecords,
+          customExercises,
+          units: newSettings.units,
+        }));
+
+        // Close out volume recommendations whose outcome window has passed
+        get().settleVolumeRecommendations();
+
         // Auto Sync on finish
         get().syncData();
 
@@ -571,7 +822,9 @@ export const useStore = create<AppState>()(
           ...activeWorkout,
           endTime: Date.now(),
           status: 'draft',
-          biometrics: activeBiometrics
+          biometrics: activeBiometrics,
+          // Block timers stop while the workout is parked
+          blocks: pauseBlocks(activeWorkout.blocks, Date.now())
         };
 
         set({
@@ -595,7 +848,8 @@ export const useStore = create<AppState>()(
           activeWorkout: {
             ...draft,
             status: 'active',
-            endTime: undefined
+            endTime: undefined,
+            blocks: resumeBlocks(draft.blocks, Date.now())
           },
           history: newHistory,
           activeBiometrics: draft.biometrics || []
@@ -677,6 +931,34 @@ export const useStore = create<AppState>()(
         set({ activeWorkout: { ...activeWorkout, logs: newLogs } });
       },
 
+      addWarmupSets: (exerciseIndex) => {
+        const { activeWorkout, settings, customExercises } = get();
+        const log = activeWorkout?.logs[exerciseIndex];
+        if (!activeWorkout || !log) return 0;
+
+        // Ramp up to the first working set that has a weight
+        const workingSet = log.sets.find(s => s.type !== 'W' && s.weight > 0);
+        const exercise = get().getAllExercises().find(e => e.id === log.exerciseId);
+        const load = getLoadRounding(log.exerciseId, settings, customExercises, activeWorkout.gymProfileId);
+        if (!workingSet || !exercise || !load) return 0;
+
+        const scheme = settings.warmupSchemes?.[log.exerciseId] || getDefaultWarmupScheme(exercise.category);
+        const warmups = generateWarmupSets(workingSet.weight, scheme, load);
+
+        // Regenerating replaces warm-ups that haven't been done yet
+        const newLogs = [...activeWorkout.logs];
+        newLogs[exerciseIndex] = {
+          ...log,
+          sets: [
+            ...warmups.map(w => ({ id: uuidv4(), reps: w.reps, weight: w.weight, completed: false, type: 'W' as SetType })),
+            ...log.sets.filter(s => s.type !== 'W' || s.completed)
+          ]
+        };
+
+        set({ activeWorkout: { ...activeWorkout, logs: newLogs } });
+        return warmups.length;
+      },
+
       removeSet: (exerciseIndex, setIndex) => {
          const { activeWorkout } = get();
          if (!activeWorkout) return;
@@ -723,13 +1005,38 @@ export const useStore = create<AppState>()(
 
       updateSettings: (newSettings) => {
         set((state) => ({
-          settings: { ...state.settings, ...newSettings },
+          settings: { ...state.settings, ...newSettings, updatedAt: Date.now() },
           settingsNeedsSync: true
         }));
         // Trigger sync if authenticated
         get().syncData();
       },
 
+      saveGymProfile: (profile) => {
+        // The first saved profile keeps the legacy gym alongside it
+        const profiles = getGymProfiles(get().settings);
+        const saved = { ...profile, updatedAt: Date.now() };
+        const exists = profiles.some(p => p.id === profile.id);
+
+        get().updateSettings({
+          gymProfiles: exists
+            ? profiles.map(p => (p.id === profile.id ? saved : p))
+            : [...profiles, saved]
+        });
+      },
+
+      deleteGymProfile: (profileId) => {
+        const { settings } = get();
+        const profiles = getGymProfiles(settings);
+        // There is always at least one gym
+        if (profiles.length <= 1) return;
+
+        get().updateSettings({
+          gymProfiles: profiles.filter(p => p.id !== profileId),
+          activeGymProfileId: settings.activeGymProfileId === profileId ? undefined : settings.activeGymProfileId
+        });
+      },
+
       toggleFavoriteExercise: (exerciseId) => {
         set((state) => {
           const currentFavorites = state.settings.favoriteExercises || [];
@@ -811,7 +1118,8 @@ export const useStore = create<AppState>()(
             goal,
             experienceLevel: experience,
             availableEquipment: equipment,
-            onboardingCompleted: true
+            onboardingCompleted: true,
+            updatedAt: Date.now()
           },
           // CRITICAL FIX: Explicitly set templates and programs to trigger Zustand persist
           // Zustand persist only writes to localStorage on set() calls, not initial state
@@ -902,7 +1210,8 @@ export const useStore = create<AppState>()(
                         log.exerciseId === oldExerciseId
                           ? { ...log, exerciseId: newExerciseId }
                           : log
-                      )
+                      ),
+                      updatedAt: Date.now()
                     }
                   : t
               ),
@@ -915,7 +1224,7 @@ export const useStore = create<AppState>()(
       },
       
       suggestNextSet: (exerciseIndex, setIndex) => {
-        const { activeWorkout, history, dailyLogs } = get();
+        const { activeWorkout, history, dailyLogs, settings, customExercises } = get();
         if (!activeWorkout) return;
 
         const exerciseLog = activeWorkout.logs[exerciseIndex];
@@ -928,13 +1237,18 @@ export const useStore = create<AppState>()(
         const today = new Date().toISOString().split('T')[0];
         const todayLog = dailyLogs[today];
 
-        // Get AI suggestion using offline heuristics
+        // Get AI suggestion using offline heuristics, rounded to a load the gym can set up
+        const load = getLoadRounding(exerciseLog.exerciseId, settings, customExercises, activeWorkout.gymProfileId);
         const suggestion = getSuggestion(
           exerciseLog.exerciseId,
           previousLog,
           todayLog,
           history,
-          activeWorkout.startTime
+          activeWorkout.startTime,
+          undefined,
+          undefined,
+          load,
+          settings.e1rmFormula
         );
 
         // Pre-fill the next set with suggested values
@@ -944,7 +1258,7 @@ export const useStore = create<AppState>()(
         if (setIndex < newSets.length) {
           newSets[setIndex] = {
             ...newSets[setIndex],
-            weight: suggestion.weight,
+            weight: load ? suggestion.weight : roundToDisplayStep(suggestion.weight, settings.units, 1), // Achievable, or whole kg/lbs
             reps: suggestion.reps[1], // Use upper bound of range
           };
 
@@ -963,7 +1277,8 @@ export const useStore = create<AppState>()(
                 id: uuidv4(),
                 exerciseId: exId,
                 sets: [{ id: uuidv4(), reps: 10, weight: 0, completed: false, type: 'N' }]
-            }))
+            })),
+            updatedAt: Date.now()
         };
 
         const newPendingTemplates = new Set(get().pendingSyncTemplates);
@@ -977,7 +1292,7 @@ export const useStore = create<AppState>()(
         get().syncData();
       },
 
-      updateTemplate: (id, name, exerciseIds) => {
+      updateTemplate: (id, name, exerciseIds, layout) => {
         const newPendingTemplates = new Set(get().pendingSyncTemplates);
         newPendingTemplates.add(id);
 
@@ -990,12 +1305,15 @@ export const useStore = create<AppState>()(
                   logs: exerciseIds.map((exId, idx) => {
                     // Try to preserve existing log if same exercise
                     const existingLog = t.logs.find(l => l.exerciseId === exId);
-                    return existingLog || {
+                    const log: ExerciseLog = existingLog || {
                       id: uuidv4(),
                       exerciseId: exId,
                       sets: [{ id: uuidv4(), reps: 10, weight: 0, completed: false, type: 'N' }]
                     };
-                  })
+                    return layout ? { ...log, supersetId: layout.blockIds[idx] } : log;
+                  }),
+                  ...(layout && { blocks: layout.blocks }),
+                  updatedAt: Date.now()
                 }
               : t
           ),
@@ -1017,7 +1335,8 @@ export const useStore = create<AppState>()(
             ...log,
             id: uuidv4(),
             sets: log.sets.map(set => ({ ...set, id: uuidv4(), completed: false }))
-          }))
+          })),
+          updatedAt: Date.now()
         };
 
         const newPendingTemplates = new Set(get().pendingSyncTemplates);
@@ -1032,7 +1351,37 @@ export const useStore = create<AppState>()(
       },
 
       deleteTemplate: (id) => {
-        set(state => ({ templates: state.templates.filter(t => t.id !== id) }));
+        const newPendingTemplates = new Set(get().pendingSyncTemplates);
+        newPendingTemplates.delete(id);
+
+        set(state => ({
+          templates: state.templates.filter(t => t.id !== id),
+          pendingSyncTemplates: newPendingTemplates,
+          tombstones: upsertTombstones(state.tombstones, [createTombstone('template', id)]),
+          syncConflicts: state.syncConflicts.filter(c => c.id !== `template:${id}`)
+        }));
+
+        get().syncData();
+      },
+
+      deleteWorkout: (id) => {
+        const workout = get().history.find(w => w.id === id);
+        if (!workout) return;
+
+        const newPendingWorkouts = new Set(get().pendingSyncWorkouts);
+        newPendingWorkouts.delete(id);
+
+        set(state => ({
+          history: state.history.filter(w => w.id !== id),
+          pendingSyncWorkouts: newPendingWorkouts,
+          // Only completed workouts are synced, so only they need a tombstone
+          tombstones: workout.status === 'completed'
+            ? upsertTombstones(state.tombstones, [createTombstone('workout', id)])
+            : state.tombstones,
+          syncConflicts: state.syncConflicts.filter(c => c.id !== `workout:${id}`)
+        }));
+
+        get().syncData();
       },
 
       saveWorkoutAsTemplate: (workoutId, templateName) => {
@@ -1056,7 +1405,9 @@ export const useStore = create<AppState>()(
               completed: false,
               // Preserve weights and reps from the workout
             }))
-          }))
+          })),
+          blocks: resetBlocks(workout.blocks),
+          updatedAt: Date.now()
         };
 
         const newPendingTemplates = new Set(get().pendingSyncTemplates);
@@ -1144,7 +1495,31 @@ export const useStore = create<AppState>()(
               next.supersetId = newId;
           }
 
-          set({ activeWorkout: { ...activeWorkout, logs } });
+          const updated = { ...activeWorkout, logs };
+          set({ activeWorkout: { ...updated, blocks: pruneBlocks(updated) } });
+      },
+
+      updateBlock: (blockId, updates) => {
+          const { activeWorkout } = get();
+          if (!activeWorkout) return;
+          const blocks = upsertBlock(activeWorkout.blocks, getBlock(activeWorkout, blockId), updates);
+          set({ activeWorkout: { ...activeWorkout, blocks } });
+      },
+
+      startBlock: (blockId) => {
+          get().updateBlock(blockId, { progress: startBlockProgress(Date.now()) });
+      },
+
+      advanceBlock: (blockId) => {
+          const { activeWorkout } = get();
+          if (!activeWorkout) return;
+          const block = getBlock(activeWorkout, blockId);
+          const exerciseCount = getBlockLogs(activeWorkout, blockId).length;
+          get().updateBlock(blockId, { progress: advanceBlockProgress(block, exerciseCount, Date.now()) });
+      },
+
+      resetBlock: (blockId) => {
+          get().updateBlock(blockId, { progress: undefined });
       },
 
       updateActiveWorkout: (updates) => {
@@ -1171,7 +1546,8 @@ export const useStore = create<AppState>()(
           const newId = uuidv4();
           const newProgram: Program = {
               ...program,
-              id: newId
+              id: newId,
+              updatedAt: Date.now()
           };
 
           const newPendingPrograms = new Set(get().pendingSyncPrograms);
@@ -1187,13 +1563,43 @@ export const useStore = create<AppState>()(
       },
 
       deleteProgram: (programId) => {
+          const newPendingPrograms = new Set(get().pendingSyncPrograms);
+          newPendingPrograms.delete(programId);
+          const wasActive = get().settings.activeProgram?.programId === programId;
+
           set(state => ({
               programs: state.programs.filter(p => p.id !== programId),
               // Also clear activeProgram if deleting the active one
-              settings: state.settings.activeProgram?.programId === programId
-                  ? { ...state.settings, activeProgram: undefined }
-                  : state.settings
+              settings: wasActive
+                  ? { ...state.settings, activeProgram: undefined, updatedAt: Date.now() }
+                  : state.settings,
+              settingsNeedsSync: state.settingsNeedsSync || wasActive,
+              pendingSyncPrograms: newPendingPrograms,
+              tombstones: upsertTombstones(state.tombstones, [createTombstone('program', programId)]),
+              syncConflicts: state.syncConflicts.filter(c => c.id !== `program:${programId}`)
           }));
+
+          get().syncData();
+      },
+
+      importProgramPackage: (pkg) => {
+          const state = get();
+          const { program, templates, customExercises } = importPackageData(pkg, {
+              programs: state.programs,
+              templates: state.templates,
+              customExercises: state.customExercises,
+          });
+
+          set({
+              programs: [...state.programs, program],
+              templates: [...state.templates, ...templates],
+              customExercises: [...state.customExercises, ...customExercises],
+              pendingSyncPrograms: new Set([...state.pendingSyncPrograms, program.id]),
+              pendingSyncTemplates: new Set([...state.pendingSyncTemplates, ...templates.map(t => t.id)]),
+          });
+
+          get().syncData();
+          return program.id;
       },
 
       getExerciseHistory: (exerciseId) => {
@@ -1227,10 +1633,20 @@ export const useStore = create<AppState>()(
           set(state => ({
               dailyLogs: {
                   ...state.dailyLogs,
-                  [date]: { ...(state.dailyLogs[date] || { date }), ...data }
+                  [date]: { ...(state.dailyLogs[date] || { date }), ...data, updatedAt: Date.now() }
               },
               pendingSyncDailyLogs: newPendingDailyLogs
           }));
+
+          const { dailyLogs, settings, history, customExercises, gamification } = get();
+          set({
+              gamification: progressWeeklyChallenge(
+                  ensureWeeklyChallenge(gamification, { history, dailyLogs, units: settings.units, customExercises }),
+                  { type: 'daily_log', log: dailyLogs[date] }
+              )
+          });
+
+          updateCoachHistory(({ indexDailyLog }) => indexDailyLog(dailyLogs[date], settings.units));
           get().syncData();
       },
 
@@ -1251,11 +1667,12 @@ export const useStore = create<AppState>()(
           set(state => ({
               dailyLogs: {
                   ...state.dailyLogs,
-                  [date]: { ...(state.dailyLogs[date] || { date }), bodyweight: weight }
+                  [date]: { ...(state.dailyLogs[date] || { date }), bodyweight: weight, updatedAt: Date.now() }
               },
               settings: {
                   ...state.settings,
-                  bodyweight: weight
+                  bodyweight: weight,
+                  updatedAt: Date.now()
               },
               pendingSyncDailyLogs: newPendingDailyLogs,
               settingsNeedsSync: true
@@ -1275,7 +1692,8 @@ export const useStore = create<AppState>()(
                       measurements: {
                           ...(state.dailyLogs[date]?.measurements || {}),
                           ...measurements
-                      }
+                      },
+                      updatedAt: Date.now()
                   }
               },
               pendingSyncDailyLogs: newPendingDailyLogs
@@ -1309,7 +1727,8 @@ export const useStore = create<AppState>()(
                   bodyMetricsGoals: {
                       ...state.settings.bodyMetricsGoals,
                       ...goal
-                  }
+                  },
+                  updatedAt: Date.now()
               },
               settingsNeedsSync: true
           }));
@@ -1321,8 +1740,9 @@ export const useStore = create<AppState>()(
           const goal = settings.bodyMetricsGoals?.targetWeight;
           if (!goal) return null;
 
-          // Get current weight (most recent entry)
-          const trend = get().getBodyweightTrend(90);
+          // Get current weight (most recent entry), in the goal's units
+          const trend = get().getBodyweightTrend(90)
+              .map(point => ({ ...point, weight: toDisplayWeight(point.weight, goal.units) }));
           if (trend.length === 0) return null;
 
           const current = trend[trend.length - 1].weight;
@@ -1434,46 +1854,209 @@ export const useStore = create<AppState>()(
 
           console.log('✅ User authenticated, proceeding with sync...');
 
-          const {
-              settings,
-              history,
-              templates,
-              dailyLogs,
-              programs,
-              pendingSyncWorkouts,
-              pendingSyncTemplates,
-              pendingSyncPrograms,
-              pendingSyncDailyLogs,
-              settingsNeedsSync
-          } = get();
-
           try {
-              // Check if nothing to sync
-              const nothingToSync = !settingsNeedsSync &&
-                  pendingSyncWorkouts.size === 0 &&
-                  pendingSyncTemplates.size === 0 &&
-                  pendingSyncPrograms.size === 0 &&
-                  pendingSyncDailyLogs.size === 0;
-
-              if (nothingToSync) {
-                  // Everything already synced - update lastSync and show success
-                  await new Promise(resolve => setTimeout(resolve, 500)); // Brief delay for visual feedback
-                  set(state => ({
-                      settings: {
-                          ...state.settings,
-                          ironCloud: {
-                              ...state.settings.ironCloud,
-                              enabled: state.settings.ironCloud?.enabled || false,
-                              lastSync: new Date().toISOString()
-                          }
-                      },
-                      isSyncing: false,
-                      syncStatus: 'synced'
-                  }));
-                  return;
-              }
               const errors: string[] = [];
 
+              // ---------- PULL: fetch remote state and merge it into the store ----------
+              const remoteResults = await Promise.allSettled([
+                  backend.workouts.getAll(),
+                  backend.dailyLogs.getAll(),
+                  backend.programs.getAll(),
+                  backend.settings.get(),
+                  backend.tombstones.getAll(),
+              ]);
+
+              const pullLabels = ['workouts', 'daily logs', 'programs', 'settings', 'tombstones'];
+              remoteResults.forEach((result, i) => {
+                  if (result.status === 'rejected') {
+                      console.error(`Pull ${pullLabels[i]} failed:`, result.reason);
+                      errors.push(`Pull ${pullLabels[i]}: ${result.reason instanceof Error ? result.reason.message : 'Unknown error'}`);
+                  }
+              });
+
+              if (remoteResults.every(r => r.status === 'rejected')) {
+                  throw new Error('All cloud fetch requests failed');
+              }
+
+              // Read local state only after the fetch so edits made meanwhile are merged, not lost
+              const state = get();
+              const lastSync = normalizeTimestamp(state.settings.ironCloud?.lastSync);
+
+              const unresolvedIds = (kind: SyncConflict['kind']) =>
+                  new Set(state.syncConflicts.filter(c => c.kind === kind).map(c => c.recordId));
+
+              const conflicts: SyncConflict[] = [];
+              let history = state.history;
+              let templates = state.templates;
+              let programs = state.programs;
+              let dailyLogs = state.dailyLogs;
+              let settings = state.settings;
+
+              // Push queues default to the dirty sets when a pull failed
+              let workoutsToPush = new Set(state.pendingSyncWorkouts);
+              let templatesToPush = new Set(state.pendingSyncTemplates);
+              let programsToPush = new Set(state.pendingSyncPrograms);
+              let dailyLogsToPush = new Set(state.pendingSyncDailyLogs);
+              let pushSettings = state.settingsNeedsSync;
+              let pulledCount = 0;
+
+              const [remoteWorkouts, remoteDailyLogs, remotePrograms, remoteSettings, remoteTombstones] = remoteResults;
+
+              // Deletes from every device, minus those past the retention window
+              const { active: tombstones, expired: expiredTombstones } = mergeTombstones(
+                  state.tombstones,
+                  remoteTombstones.status === 'fulfilled' ? remoteTombstones.value : []
+              );
+
+              // Tombstoned records still present in the cloud, and kinds whose cloud state is known
+              const remoteDeletedIds = new Set<string>();
+              const remoteLoadedKinds = new Set<SyncTombstone['kind']>();
+
+              const dropDeleted = <T extends SyncRecord>(
+                  local: T[],
+                  remote: T[],
+                  kind: SyncTombstone['kind'],
+                  getId: (record: T) => string
+              ) => {
+                  const remoteResult = applyTombstones(remote, tombstones, kind, getId);
+                  remoteResult.removedIds.forEach(id => remoteDeletedIds.add(`${kind}:${id}`));
+                  remoteLoadedKinds.add(kind);
+                  return {
+                      local: applyTombstones(local, tombstones, kind, getId).kept,
+                      remote: remoteResult.kept,
+                  };
+              };
+
+              if (remoteWorkouts.status === 'fulfilled') {
+                  const completed = dropDeleted(
+                      history,
+                      remoteWorkouts.value.filter(w => w.status === 'completed'),
+                      'workout',
+                      w => w.id
+                  );
+                  const templateLists = dropDeleted(
+                      templates,
+                      remoteWorkouts.value.filter(w => w.status === 'template'),
+                      'template',
+                      t => t.id
+                  );
+
+                  const historyResult = mergeCollection(
+                      completed.local,
+                      completed.remote,
+                      {
+                          kind: 'workout',
+                          getId: w => w.id,
+                          getName: w => w.name,
+                          pending: state.pendingSyncWorkouts,
+                          lastSync,
+                          unresolved: unresolvedIds('workout'),
+                      }
+                  );
+                  const templateResult = mergeCollection(
+                      templateLists.local,
+                      templateLists.remote,
+                      {
+                          kind: 'template',
+                          getId: t => t.id,
+                          getName: t => t.name,
+                          pending: state.pendingSyncTemplates,
+                          lastSync,
+                          unresolved: unresolvedIds('template'),
+                      }
+                  );
+
+                  history = historyResult.merged.sort((a, b) => b.startTime - a.startTime);
+                  templates = templateResult.merged;
+                  workoutsToPush = new Set(historyResult.pushIds);
+                  templatesToPush = new Set(templateResult.pushIds);
+                  conflicts.push(...historyResult.conflicts, ...templateResult.conflicts);
+                  pulledCount += historyResult.pulledIds.length + templateResult.pulledIds.length;
+              }
+
+              if (remotePrograms.status === 'fulfilled') {
+                  const programLists = dropDeleted(programs, remotePrograms.value, 'program', p => p.id);
+                  const programResult = mergeCollection(programLists.local, programLists.remote, {
+                      kind: 'program',
+                      getId: p => p.id,
+                      getName: p => p.name,
+                      pending: state.pendingSyncPrograms,
+                      lastSync,
+                      unresolved: unresolvedIds('program'),
+                  });
+
+                  programs = programResult.merged;
+                  programsToPush = new Set(programResult.pushIds);
+                  conflicts.push(...programResult.conflicts);
+                  pulledCount += programResult.pulledIds.length;
+              }
+
+              if (remoteDailyLogs.status === 'fulfilled') {
+                  const toList = (logs: Record<string, DailyLog>) =>
+                      Object.entries(logs).map(([date, log]) => ({ ...log, date }));
+
+                  const dailyLogLists = dropDeleted(
+                      toList(dailyLogs),
+                      toList(remoteDailyLogs.value),
+                      'dailyLog',
+                      log => log.date
+                  );
+                  const dailyLogResult = mergeCollection(dailyLogLists.local, dailyLogLists.remote, {
+                      kind: 'dailyLog',
+                      getId: log => log.date,
+                      getName: log => log.date,
+                      pending: state.pendingSyncDailyLogs,
+                      lastSync,
+                      unresolved: unresolvedIds('dailyLog'),
+                  });
+
+                  dailyLogs = Object.fromEntries(dailyLogResult.merged.map(log => [log.date, log]));
+                  dailyLogsToPush = new Set(dailyLogResult.pushIds);
+                  conflicts.push(...dailyLogResult.conflicts);
+                  pulledCount += dailyLogResult.pulledIds.length;
+              }
+
+              if (remoteSettings.status === 'fulfilled') {
+                  const settingsResult = mergeSettings(settings, remoteSettings.value, {
+                      needsSync: state.settingsNeedsSync,
+                      lastSync,
+                      unresolved: state.syncConflicts.some(c => c.kind === 'settings'),
+                  });
+
+                  settings = settingsResult.settings;
+                  pushSettings = settingsResult.push;
+                  if (settingsResult.conflict) conflicts.push(settingsResult.conflict);
+                  if (settingsResult.pulled) pulledCount++;
+              }
+
+              // Conflicted records stay dirty but are never pushed until resolved
+              const conflictedIds = (kind: SyncConflict['kind']) =>
+                  conflicts.filter(c => c.kind === kind).map(c => c.recordId);
+
+              set({
+                  history,
+                  templates,
+                  programs,
+                  dailyLogs,
+                  settings,
+                  syncConflicts: conflicts,
+                  tombstones,
+                  pendingSyncWorkouts: new Set([...workoutsToPush, ...conflictedIds('workout')]),
+                  pendingSyncTemplates: new Set([...templatesToPush, ...conflictedIds('template')]),
+                  pendingSyncPrograms: new Set([...programsToPush, ...conflictedIds('program')]),
+                  pendingSyncDailyLogs: new Set([...dailyLogsToPush, ...conflictedIds('dailyLog')]),
+                  settingsNeedsSync: pushSettings || conflicts.some(c => c.kind === 'settings'),
+              });
+
+              if (pulledCount > 0) {
+                  console.log(`⬇️ Pulled ${pulledCount} record(s) from cloud`);
+              }
+              if (conflicts.length > 0) {
+                  console.warn(`⚠️ ${conflicts.length} sync conflict(s) need resolution`);
+              }
+
+              // ---------- PUSH: upload local changes that survived the merge ----------
+
               // Track successfully synced items
               const syncedWorkouts = new Set<string>();
               const syncedTemplates = new Set<string>();
@@ -1482,7 +2065,7 @@ export const useStore = create<AppState>()(
               let settingsSynced = false;
 
               // Sync settings if needed
-              if (settingsNeedsSync) {
+              if (pushSettings) {
                   try {
                       await backend.settings.save(settings);
                       settingsSynced = true;
@@ -1493,9 +2076,9 @@ export const useStore = create<AppState>()(
               }
 
               // Sync dirty workouts (completed only)
-              if (pendingSyncWorkouts.size > 0) {
+              if (workoutsToPush.size > 0) {
                   const workoutsToSync = history.filter(w =>
-                      pendingSyncWorkouts.has(w.id) && w.status === 'completed'
+                      workoutsToPush.has(w.id) && w.status === 'completed'
                   );
 
                   for (const workout of workoutsToSync) {
@@ -1510,8 +2093,8 @@ export const useStore = create<AppState>()(
               }
 
               // Sync dirty templates
-              if (pendingSyncTemplates.size > 0) {
-                  const templatesToSync = templates.filter(t => pendingSyncTemplates.has(t.id));
+              if (templatesToPush.size > 0) {
+                  const templatesToSync = templates.filter(t => templatesToPush.has(t.id));
 
                   for (const template of templatesToSync) {
                       try {
@@ -1525,8 +2108,8 @@ export const useStore = create<AppState>()(
               }
 
               // Sync dirty programs
-              if (pendingSyncPrograms.size > 0) {
-                  const programsToSync = programs.filter(p => pendingSyncPrograms.has(p.id));
+              if (programsToPush.size > 0) {
+                  const programsToSync = programs.filter(p => programsToPush.has(p.id));
 
                   for (const program of programsToSync) {
                       try {
@@ -1540,10 +2123,8 @@ export const useStore = create<AppState>()(
               }
 
               // Sync dirty daily logs
-              if (pendingSyncDailyLogs.size > 0) {
-                  const datesToSync = Array.from(pendingSyncDailyLogs);
-
-                  for (const date of datesToSync) {
+              if (dailyLogsToPush.size > 0) {
+                  for (const date of Array.from(dailyLogsToPush)) {
                       const log = dailyLogs[date];
                       if (log) {
                           try {
@@ -1557,17 +2138,54 @@ export const useStore = create<AppState>()(
                   }
               }
 
+              // Push deletes (deferred while the affected collection could not be pulled)
+              const syncedTombstones = new Map<string, number>();
+              const tombstonesToPush = tombstones.filter(t => !t.syncedAt && remoteLoadedKinds.has(t.kind));
+
+              for (const tombstone of tombstonesToPush) {
+                  try {
+                      await backend.tombstones.save(tombstone);
+                      if (remoteDeletedIds.has(tombstone.id)) {
+                          if (tombstone.kind === 'program') {
+                              await backend.programs.delete(tombstone.recordId);
+                          } else if (tombstone.kind === 'dailyLog') {
+                              await backend.dailyLogs.delete(tombstone.recordId);
+                          } else {
+                              await backend.workouts.delete(tombstone.recordId);
+                          }
+                      }
+                      syncedTombstones.set(tombstone.id, tombstone.deletedAt);
+                  } catch (err) {
+                      console.error(`Delete ${tombstone.id} sync failed:`, err);
+                      errors.push(`Delete ${tombstone.kind} ${tombstone.recordId}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+                  }
+              }
+
+              // Purge tombstones past the retention window (non-critical, retried next sync)
+              if (remoteTombstones.status === 'fulfilled') {
+                  const remoteTombstoneIds = new Set(remoteTombstones.value.map(t => t.id));
+                  for (const tombstone of expiredTombstones.filter(t => remoteTombstoneIds.has(t.id))) {
+                      try {
+                          await backend.tombstones.delete(tombstone.id);
+                      } catch (err) {
+                          console.warn(`Tombstone ${tombstone.id} purge failed:`, err);
+                      }
+                  }
+              }
+
               // Only clear successfully synced items from dirty tracking
-              const newPendingWorkouts = new Set(pendingSyncWorkouts);
+              // (read fresh state - the user may have edited records while we were pushing)
+              const current = get();
+              const newPendingWorkouts = new Set(current.pendingSyncWorkouts);
               syncedWorkouts.forEach(id => newPendingWorkouts.delete(id));
 
-              const newPendingTemplates = new Set(pendingSyncTemplates);
+              const newPendingTemplates = new Set(current.pendingSyncTemplates);
               syncedTemplates.forEach(id => newPendingTemplates.delete(id));
 
-              const newPendingPrograms = new Set(pendingSyncPrograms);
+              const newPendingPrograms = new Set(current.pendingSyncPrograms);
               syncedPrograms.forEach(id => newPendingPrograms.delete(id));
 
-              const newPendingDailyLogs = new Set(pendingSyncDailyLogs);
+              const newPendingDailyLogs = new Set(current.pendingSyncDailyLogs);
               syncedDailyLogs.forEach(date => newPendingDailyLogs.delete(date));
 
               set(state => ({
@@ -1575,15 +2193,18 @@ export const useStore = create<AppState>()(
                   pendingSyncTemplates: newPendingTemplates,
                   pendingSyncPrograms: newPendingPrograms,
                   pendingSyncDailyLogs: newPendingDailyLogs,
-                  settingsNeedsSync: settingsNeedsSync && !settingsSynced,
-                  syncStatus: errors.length > 0 ? 'partial' : 'synced',
+                  settingsNeedsSync: state.settingsNeedsSync && !settingsSynced,
+                  tombstones: state.tombstones.map(t =>
+                      syncedTombstones.get(t.id) === t.deletedAt ? { ...t, syncedAt: Date.now() } : t
+                  ),
+                  syncStatus: errors.length > 0 || conflicts.length > 0 ? 'partial' : 'synced',
                   isSyncing: false,
                   settings: {
                       ...state.settings,
                       ironCloud: {
                           ...state.settings.ironCloud,
                           enabled: state.settings.ironCloud?.enabled || false,
-                          lastSync: new Date().toISOString()
+                          lastSync: Date.now()
                       }
                   }
               }));
@@ -1612,6 +2233,99 @@ export const useStore = create<AppState>()(
           }
       },
 
+      resolveSyncConflict: (conflictId, choice) => {
+          const conflict = get().syncConflicts.find(c => c.id === conflictId);
+          if (!conflict) return;
+
+          const remaining = get().syncConflicts.filter(c => c.id !== conflictId);
+          const { recordId } = conflict;
+
+          if (choice === 'local') {
+              // Re-stamp the local copy so it is pushed over the cloud version on next sync
+              const now = Date.now();
+              set(state => {
+                  switch (conflict.kind) {
+                      case 'workout':
+                          return {
+                              syncConflicts: remaining,
+                              history: state.history.map(w => w.id === recordId ? { ...w, updatedAt: now } : w),
+                              pendingSyncWorkouts: new Set(state.pendingSyncWorkouts).add(recordId),
+                          };
+                      case 'template':
+                          return {
+                              syncConflicts: remaining,
+                              templates: state.templates.map(t => t.id === recordId ? { ...t, updatedAt: now } : t),
+                              pendingSyncTemplates: new Set(state.pendingSyncTemplates).add(recordId),
+                          };
+                      case 'program':
+                          return {
+                              syncConflicts: remaining,
+                              programs: state.programs.map(p => p.id === recordId ? { ...p, updatedAt: now } : p),
+                              pendingSyncPrograms: new Set(state.pendingSyncPrograms).add(recordId),
+                          };
+                      case 'dailyLog':
+                          return {
+                              syncConflicts: remaining,
+                              dailyLogs: state.dailyLogs[recordId]
+                                  ? { ...state.dailyLogs, [recordId]: { ...state.dailyLogs[recordId], updatedAt: now } }
+                                  : state.dailyLogs,
+                              pendingSyncDailyLogs: new Set(state.pendingSyncDailyLogs).add(recordId),
+                          };
+                      case 'settings':
+                          return {
+                              syncConflicts: remaining,
+                              settings: { ...state.settings, updatedAt: now },
+                              settingsNeedsSync: true,
+                          };
+                  }
+              });
+          } else {
+              // Adopt the cloud copy and drop the local change
+              set(state => {
+                  const withoutId = (pending: Set<string>) => {
+                      const next = new Set(pending);
+                      next.delete(recordId);
+                      return next;
+                  };
+
+                  switch (conflict.kind) {
+                      case 'workout':
+                          return {
+                              syncConflicts: remaining,
+                              history: state.history.map(w => w.id === recordId ? conflict.remote as WorkoutSession : w),
+                              pendingSyncWorkouts: withoutId(state.pendingSyncWorkouts),
+                          };
+                      case 'template':
+                          return {
+                              syncConflicts: remaining,
+                              templates: state.templates.map(t => t.id === recordId ? conflict.remote as WorkoutSession : t),
+                              pendingSyncTemplates: withoutId(state.pendingSyncTemplates),
+                          };
+                      case 'program':
+                          return {
+                              syncConflicts: remaining,
+                              programs: state.programs.map(p => p.id === recordId ? conflict.remote as Program : p),
+                              pendingSyncPrograms: withoutId(state.pendingSyncPrograms),
+                          };
+                      case 'dailyLog':
+                          return {
+                              syncConflicts: remaining,
+                              dailyLogs: { ...state.dailyLogs, [recordId]: conflict.remote as DailyLog },
+                              pendingSyncDailyLogs: withoutId(state.pendingSyncDailyLogs),
+                          };
+                      case 'settings':
+                          return {
+                              syncConflicts: remaining,
+                              settings: { ...(conflict.remote as UserSettings), ironCloud: state.settings.ironCloud },
+                              settingsNeedsSync: false,
+                          };
+                  }
+              });
+          }
+
+          get().syncData();
+      },
+
       getFatigueStatus: () => {
           const { history, dailyLogs } = get();
           const today = new Date().toISOString().split('T')[0];
@@ -1653,7 +2367,7 @@ export const useStore = create<AppState>()(
 
       // AI Coach Helpers Implementation
       getProgressiveSuggestion: (exerciseId) => {
-          const { history, dailyLogs, activeWorkout, settings } = get();
+          const { history, dailyLogs, activeWorkout, settings, customExercises } = get();
 
           // Get previous workout for this exercise
           const previousLog = get().getExerciseHistory(exerciseId);
@@ -1664,7 +2378,9 @@ export const useStore = create<AppState>()(
 
           const currentTime = activeWorkout?.startTime || Date.now();
 
-          return getSuggestion(exerciseId, previousLog, todayLog, history, currentTime, settings.experienceLevel);
+          const load = getLoadRounding(exerciseId, settings, customExercises, activeWorkout?.gymProfileId);
+
+          return getSuggestion(exerciseId, previousLog, todayLog, history, currentTime, settings.experienceLevel, undefined, load, settings.e1rmFormula);
       },
 
       getEstimated1RM: (exerciseId) => {
@@ -1675,20 +2391,21 @@ export const useStore = create<AppState>()(
 
           return calculate1RM(
               prHistory.bestWeight.value,
-              prHistory.bestWeight.reps || 1
+              prHistory.bestWeight.reps || 1,
+              settings.e1rmFormula
           );
       },
 
       getOverallStrengthScore: () => {
           const { settings } = get();
-          // Default bodyweight to 200lbs if not tracked yet
-          // TODO: Add bodyweight tracking to UserSettings
-          const bodyweight = 200;
+          // Default bodyweight to 200lbs (in kg, like every stored weight) if not tracked yet
+          const bodyweight = settings.bodyweight || fromDisplayWeight(200, 'lbs');
 
           return calculateOverallStrengthScore(
               settings.personalRecords,
               bodyweight,
-              'male' // TODO: Add gender to UserSettings
+              'male', // TODO: Add gender to UserSettings
+              settings.e1rmFormula
           );
       },
 
@@ -1727,6 +2444,40 @@ export const useStore = create<AppState>()(
           });
       },
 
+      refreshWeeklyChallenge: () => {
+          const { gamification, history, dailyLogs, settings, customExercises } = get();
+          const updated = ensureWeeklyChallenge(gamification, { history, dailyLogs, units: settings.units, customExercises });
+          if (updated !== gamification) {
+              set({ gamification: updated });
+          }
+      },
+
+      // ML Actions
+      recordVolumeRecommendation: (recommendation, context) => {
+          const { pendingVolumeRecommendations, history } = get();
+          const ledger = recordPendingRecommendation(pendingVolumeRecommendations, recommendation, context, history);
+          if (ledger !== pendingVolumeRecommendations) {
+              set({ pendingVolumeRecommendations: ledger });
+          }
+      },
+
+      settleVolumeRecommendations: () => {
+          const { pendingVolumeRecommendations, volumeBanditState, history, dailyLogs } = get();
+          const result = settlePendingRecommendations(
+              pendingVolumeRecommendations,
+              deserializeBanditState(volumeBanditState),
+              history,
+              dailyLogs
+          );
+          if (result.ledger.length === pendingVolumeRecommendations.length) return 0;
+
+          set({
+              pendingVolumeRecommendations: result.ledger,
+              ...(result.settled > 0 && { volumeBanditState: serializeBanditState(result.state) }),
+          });
+          return result.settled;
+      },
+
       // Data Management
       ensureInitialization: () => {
           const state = get();
@@ -1747,7 +2498,20 @@ export const useStore = create<AppState>()(
       },
 
       resetAllData: () => {
-          const { settings } = get();
+          const { settings, history, templates, programs, dailyLogs, tombstones } = get();
+
+          // Tombstone synced records so other devices drop them too
+          // (built-in templates/programs are restored below, so they are kept)
+          const builtInTemplateIds = new Set(INITIAL_TEMPLATES.map(t => t.id));
+          const builtInProgramIds = new Set(INITIAL_PROGRAMS.map(p => p.id));
+          const now = Date.now();
+          const deleted: SyncTombstone[] = [
+              ...history.filter(w => w.status === 'completed').map(w => createTombstone('workout', w.id, now)),
+              ...templates.filter(t => !builtInTemplateIds.has(t.id)).map(t => createTombstone('template', t.id, now)),
+              ...programs.filter(p => !builtInProgramIds.has(p.id)).map(p => createTombstone('program', p.id, now)),
+              ...Object.keys(dailyLogs).map(date => createTombstone('dailyLog', date, now)),
+          ];
+
           set({
               // Reset all data
               history: [],
@@ -1765,19 +2529,118 @@ export const useStore = create<AppState>()(
               lastWorkoutXP: null,
               lastAchievements: [],
               lastLevelUp: false,
+              // Forget what the volume bandit learned
+              volumeBanditState: serializeBanditState(initializeBanditState()),
+              pendingVolumeRecommendations: [],
               // Keep basic user settings but reset records and programs
               settings: {
                   ...settings,
                   personalRecords: {},
                   activeProgram: undefined,
-              }
+                  updatedAt: now,
+              },
+              // Queue deletions instead of the discarded local edits
+              pendingSyncWorkouts: new Set<string>(),
+              pendingSyncTemplates: new Set<string>(),
+              pendingSyncPrograms: new Set<string>(),
+              pendingSyncDailyLogs: new Set<string>(),
+              settingsNeedsSync: true,
+              syncConflicts: [],
+              tombstones: upsertTombstones(tombstones, deleted),
           });
+
+          get().syncData();
+        },
+
+      importWorkouts: (workouts) => {
+          const { history, pendingSyncWorkouts } = get();
+
+          // Skip workouts already in history (re-importing the same file)
+          const existing = new Set(history.map(w => `${w.startTime}|${w.name}`));
+          const now = Date.now();
+          const added = workouts
+              .filter(w => w.logs.length > 0 && !existing.has(`${w.startTime}|${w.name}`))
+              .map(w => ({ ...w, status: 'completed' as const, updatedAt: now }));
+
+          if (added.length === 0) return 0;
+
+          const newHistory = [...history, ...added].sort((a, b) => b.startTime - a.startTime);
+          const newPendingWorkouts = new Set(pendingSyncWorkouts);
+          added.forEach(w => newPendingWorkouts.add(w.id));
+
+          set(state => ({
+              history: newHistory,
+              pendingSyncWorkouts: newPendingWorkouts,
+              settings: {
+                  ...state.settings,
+                  personalRecords: recomputePersonalRecords(newHistory, state.customExercises),
+                  updatedAt: now
+              },
+              settingsNeedsSync: true
+          }));
+
+          reindexCoachHistory(get());
+          get().syncData();
+          return added.length;
+        },
+
+      restoreBackup: (backup, mode) => {
+          const state = get();
+
+          // Bring the backup up to the current schema the same way persisted state is
+          const result = restoreBackupData(
+              {
+                  history: state.history,
+                  templates: state.templates,
+                  programs: state.programs,
+                  dailyLogs: state.dailyLogs,
+                  settings: state.settings,
+                  customExercises: state.customExercises,
+              },
+              migrateBackup(backup, migrateStoreState),
+              mode
+          );
+
+          const { data, changed, removed } = result;
+          const completedIds = new Set(data.history.filter(w => w.status === 'completed').map(w => w.id));
+          const removedCompleted = removed.workouts.filter(id =>
+              state.history.some(w => w.id === id && w.status === 'completed')
+          );
+          const now = Date.now();
+          const pending = (current: Set<string>, ids: string[]) =>
+              new Set([...(mode === 'replace' ? [] : current), ...ids]);
+
+          set({
+              history: data.history,
+              templates: data.templates,
+              programs: data.programs,
+              dailyLogs: data.dailyLogs,
+              settings: data.settings,
+              activeWorkout: mode === 'replace' ? null : state.activeWorkout,
+              pendingSyncWorkouts: pending(state.pendingSyncWorkouts, changed.workouts.filter(id => completedIds.has(id))),
+              pendingSyncTemplates: pending(state.pendingSyncTemplates, changed.templates),
+              pendingSyncPrograms: pending(state.pendingSyncPrograms, changed.programs),
+              pendingSyncDailyLogs: pending(state.pendingSyncDailyLogs, changed.dailyLogs),
+              settingsNeedsSync: true,
+              syncConflicts: mode === 'replace' ? [] : state.syncConflicts,
+              // Records dropped by "replace" are deleted on other devices too
+              tombstones: upsertTombstones(state.tombstones, [
+                  ...removedCompleted.map(id => createTombstone('workout', id, now)),
+                  ...removed.templates.map(id => createTombstone('template', id, now)),
+                  ...removed.programs.map(id => createTombstone('program', id, now)),
+                  ...removed.dailyLogs.map(date => createTombstone('dailyLog', date, now)),
+              ]),
+          });
+
+          reindexCoachHistory(get());
+          get().syncData();
+          return result;
         }
       };
     },
     {
       name: 'voltlift-storage',
-      version: 7, // Increment when schema changes
+      version: STORE_VERSION,
       partialize: (state) => {
           const {
               customExerciseVisuals,
@@ -1797,76 +2660,9 @@ export const useStore = create<AppState>()(
 
           return rest;
       },
-      migrate: (persistedState: any, version: number) => {
-        // Version 2: Programs now include filter metadata (goal, difficulty, splitType, frequency)
-        if (version < 2) {
-          // Check if programs are missing filter metadata
-          const needsMigration = persistedState.programs?.some((p: any) =>
-            !p.goal || !p.difficulty || !p.splitType || p.frequency === undefined
-          );
-
-          if (needsMigration) {
-            console.log('[Migration v2] Updating programs with filter metadata');
-            return {
-              ...persistedState,
-              programs: INITIAL_PROGRAMS, // Reset to current program definitions
-            };
-          }
-        }
-
-        // Version 3: Programs now support frequency variants (supportedFrequencies, frequencyVariants)
-        if (version < 3) {
-          console.log('[Migration v3] Updating programs with frequency variant support');
-          return {
-            ...persistedState,
-            programs: INITIAL_PROGRAMS, // Reset to get new program structure with frequency variants
-          };
-        }
-
-        // Version 4: Update program names (e.g., "Periodization Protocol" → "Dual-Phase Domination")
-        if (version < 4) {
-          console.log('[Migration v4] Updating program names to latest definitions');
-          return {
-            ...persistedState,
-            programs: INITIAL_PROGRAMS, // Refresh programs to pick up updated names
-          };
-        }
-
-        // Version 5: Add gamification state (XP, streaks, achievements)
-        if (version < 5) {
-          console.log('[Migration v5] Adding gamification state');
-          // Merge with existing partial state if present (handles interrupted migrations)
-          const initialState = createInitialGamificationState();
-          return {
-            ...persistedState,
-            gamification: persistedState.gamification
-              ? { ...initialState, ...persistedState.gamification }
-              : initialState,
-          };
-        }
-
-        // Version 6: Update templates to include PRD (Periodization) program templates
-        if (version < 6) {
-          console.log('[Migration v6] Updating templates with PRD program workouts');
-          return {
-            ...persistedState,
-            templates: INITIAL_TEMPLATES, // Refresh templates to pick up PRD Phase 1 & 2 templates
-          };
-        }
-
-        // Version 7: CRITICAL FIX - Ensure templates and programs exist for all users
-        // Before this fix, Zustand persist didn't write templates/programs on initial load
-        // This left users with 0 templates and 0 programs, breaking program functionality
-        if (version < 7) {
-          console.log('[Migration v7] Ensuring templates and programs exist');
-          return {
-            ...persistedState,
-            templates: persistedState.templates?.length > 0 ? persistedState.templates : INITIAL_TEMPLATES,
-            programs: persistedState.programs?.length > 0 ? persistedState.programs : INITIAL_PROGRAMS,
-          };
-        }
-
-        return persistedState;
+      migrate: migrateStoreState,
+      onRehydrateStorage: () => (state) => {
+          if (state) reindexCoachHistory(state);
       }
     }
   )
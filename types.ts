@@ -3,6 +3,25 @@ export type MuscleGroup = 'Chest' | 'Back' | 'Legs' | 'Shoulders' | 'Arms' | 'Co
 export type ExerciseCategory = 'Compound' | 'Isolation' | 'Cardio' | 'Machine' | 'Bodyweight' | 'Plyometric';
 export type ExperienceLevel = 'Beginner' | 'Intermediate' | 'Advanced';
 
+/**
+ * What a set of this exercise records
+ * - weight_reps: load × reps (default)
+ * - duration: time only (planks, wall sits)
+ * - distance_duration: distance + time, pace derived (rowing, running)
+ * - weight_distance: load carried over a distance (farmer's walks, sled push)
+ */
+export type ExerciseMetric = 'weight_reps' | 'duration' | 'distance_duration' | 'weight_distance';
+
+/**
+ * How load is put on the exercise, which decides the loads that can be set up
+ * - barbell: bar + plate pairs
+ * - paired_dumbbells / single_dumbbell: fixed dumbbells, weight is per dumbbell
+ * - stack: selectorized pin stack (most machines and cables)
+ * - plate_loaded: plate pairs on a machine, weight is the plates only
+ * - bodyweight_belt: plates added on a dip belt, weight is the added load
+ */
+export type LoadingType = 'barbell' | 'paired_dumbbells' | 'single_dumbbell' | 'stack' | 'plate_loaded' | 'bodyweight_belt';
+
 export interface Exercise {
   id: string;
   name: string;
@@ -18,6 +37,8 @@ export interface Exercise {
   gifUrl?: string; // Placeholder URL
   videoUrl?: string; // YouTube video URL for exercise demonstration
   customVideoUrl?: string; // User-added custom video URL (overrides default videoUrl)
+  metric?: ExerciseMetric; // Defaults to 'weight_reps'
+  loadingType?: LoadingType; // Defaults from equipment and name (see services/loadRounding)
 }
 
 export type SetType = 'N' | 'W' | 'D' | 'F'; // Normal, Warmup, Drop, Failure
@@ -37,11 +58,16 @@ export interface SuggestionFeedback {
 export interface SetLog {
   id: string;
   reps: number;
-  weight: number; // in lbs or kg
+  weight: number; // in kg (converted to the user's units for display)
   rpe?: number; // Rate of Perceived Exertion (1-10)
   type: SetType;
   completed: boolean;
 
+  // Time / distance sets (see Exercise.metric)
+  duration?: number; // seconds
+  distance?: number; // meters
+  calories?: number;
+
   // Phase 2 AI: Track AI suggestions and user acceptance
   aiSuggestion?: {
     weight: number;
@@ -58,6 +84,7 @@ export interface ExerciseLog {
   sets: SetLog[];
   notes?: string;
   supersetId?: string; // ID linking multiple logs together
+  restSeconds?: number; // Prescribed rest, overrides the exercise default
 }
 
 export interface BiometricPoint {
@@ -75,11 +102,50 @@ export interface WorkoutSession {
   sourceTemplateId?: string; // Tracks which template spawned this session
   biometrics?: BiometricPoint[]; // Phase 4: Heart Rate Data
   notes?: string; // General workout-level notes with tag support (#injury, #form, etc.)
+  gymProfileId?: string; // Gym the session was trained at (see UserSettings.gymProfiles)
+  blocks?: WorkoutBlock[]; // Settings for linked exercise groups (see WorkoutBlock)
+  updatedAt?: number; // Last local modification (ms), used to merge cloud sync
+}
+
+/**
+ * How a group of linked exercises is run
+ * - superset / giant_set: 2 / 3+ exercises back to back, rest after each round
+ * - circuit: all exercises for a number of rounds
+ * - emom: one exercise every interval, rotating, for a number of intervals
+ * - amrap: as many rounds as possible before the time cap
+ */
+export type WorkoutBlockType = 'superset' | 'giant_set' | 'circuit' | 'emom' | 'amrap';
+
+/**
+ * A group of exercises run together. Members are the logs whose
+ * `supersetId` equals the block id; groups without a block entry are
+ * plain supersets.
+ */
+export interface WorkoutBlock {
+  id: string; // Shared ExerciseLog.supersetId
+  type: WorkoutBlockType;
+  rounds?: number; // superset/giant set/circuit rounds; EMOM intervals
+  intervalSeconds?: number; // EMOM interval (default 60)
+  timeCapSeconds?: number; // AMRAP time cap
+  restSeconds?: number; // Rest after each round
+  progress?: BlockProgress;
+}
+
+/**
+ * Where the block timer is; saved with drafts so a resumed workout
+ * continues the block
+ */
+export interface BlockProgress {
+  startedAt: number; // Shifted forward on resume so paused time doesn't count
+  pausedAt?: number;
+  round: number; // Completed rounds
+  exerciseIndex: number; // Position within the block
+  finishedAt?: number;
 }
 
 export interface UserStats {
   totalWorkouts: number;
-  totalVolume: number; // Cumulative weight moved
+  totalVolume: number; // Cumulative weight moved (kg)
   streak: number;
 }
 
@@ -88,15 +154,20 @@ export interface Goal {
   targetPerWeek: number;
 }
 
-export type PRType = 'weight' | 'volume' | 'reps';
+export type PRType = 'weight' | 'volume' | 'reps' | 'duration' | 'distance' | 'pace';
+
+// 1RM estimation: 'auto' is Epley, switching to Brzycki above 12 reps; 'rpe' reads the set's RPE when logged
+export type E1RMFormula = 'auto' | 'epley' | 'brzycki' | 'lombardi' | 'wathan' | 'rpe';
 
 export interface PersonalRecord {
-  value: number; // The PR value (weight in lbs/kg, volume in lbs/kg, or rep count)
+  value: number; // The PR value (weight in kg, volume in kg, rep count, seconds, meters, or pace in seconds per 500m)
   date: number;
   type: PRType;
   reps?: number; // For weight PRs, track the reps achieved at that weight
   weight?: number; // For rep PRs, track the weight used for those reps
   setDetails?: { weight: number; reps: number }[]; // For volume PRs, track all sets
+  duration?: number; // For distance/pace PRs, the time taken (seconds)
+  distance?: number; // For duration/pace PRs, the distance covered (meters)
 }
 
 export interface ExercisePRHistory {
@@ -105,18 +176,174 @@ export interface ExercisePRHistory {
   bestWeight?: PersonalRecord; // Best weight PR
   bestVolume?: PersonalRecord; // Best volume PR (total weight × reps)
   bestReps?: PersonalRecord; // Best reps PR (most reps at any weight)
+  bestDuration?: PersonalRecord; // Longest single set (e.g. plank hold)
+  bestDistance?: PersonalRecord; // Longest single set distance
+  bestPace?: PersonalRecord; // Fastest pace at any distance (lowest seconds per 500m); PRs compare per distance
+}
+
+/**
+ * Sets for one exercise in one week of a program (e.g. 5x3 @ 85% TM)
+ */
+export interface ExercisePrescription {
+  exerciseId: string;
+  sets: number;
+  reps: number;
+  repsMax?: number;    // Upper end of a rep range (8-12)
+  rpe?: number;        // Target RPE
+  percentage?: number; // % of Training Max, as in PercentageSet
+  rest?: number;       // Rest time in seconds
 }
 
 export interface ProgramSession {
   templateId: string;
   week: number;
   day: number;
+  exercises?: ExercisePrescription[]; // Overrides the template's sets for this week
+}
+
+// ============================================================================
+// GYM PROFILES
+// ============================================================================
+
+/**
+ * Equipment at one training location. Loads are in the unit the
+ * equipment is marked in (`units`), not the user's display units.
+ */
+export interface GymProfile {
+  id: string;
+  name: string;
+  units: 'kg' | 'lbs';
+  equipment: string[]; // Same values as Exercise.equipment
+  bars: number[]; // Bar weights, the first is the default
+  plates: number[]; // Plate sizes (enough pairs of each are assumed)
+  microplates?: number[]; // Fractional plates, e.g. [0.5, 0.25]
+  dumbbellIncrement: number; // Step between dumbbell pairs
+  dumbbellMax?: number; // Heaviest dumbbell
+  machineStackStep: number; // Step between pins on selectorized stacks
+  updatedAt?: number;
+}
+
+// ============================================================================
+// WARM-UPS
+// ============================================================================
+
+export interface WarmupStep {
+  percent: number; // Fraction of the first working set's weight (0.4 = 40%)
+  reps: number;
+}
+
+/**
+ * Warm-up ladder before the first working set
+ */
+export interface WarmupScheme {
+  emptyBar: boolean; // Start with the empty bar (barbell exercises only)
+  emptyBarReps?: number; // Default 10
+  steps: WarmupStep[]; // Lightest first
+}
+
+// ============================================================================
+// PROGRESSION RULES
+// ============================================================================
+
+/**
+ * A load that depends on the user's units (e.g. { kg: 2.5, lbs: 5 })
+ */
+export interface UnitLoad {
+  kg: number;
+  lbs: number;
+}
+
+/**
+ * Add weight after every successful session, reset after repeated failures
+ * (StrongLifts, GZCLP T1/T2)
+ */
+export interface LinearProgressionRule {
+  type: 'linear';
+  sets: number;
+  reps: number;
+  increment: UnitLoad;
+  failuresBeforeReset: number; // Consecutive failed sessions at the same weight
+  resetPercent: number; // e.g. 0.9 = restart at 90% of the failed weight
+  failureStages?: { sets: number; reps: number }[]; // Tried in order before resetting (GZCLP: 6x2, 10x1)
+}
+
+/**
+ * Add reps at a fixed weight until every set hits the top of the range,
+ * then add weight and start again at the bottom
+ */
+export interface DoubleProgressionRule {
+  type: 'double';
+  sets: number;
+  minReps: number;
+  maxReps: number;
+  increment: UnitLoad;
+}
+
+/**
+ * Move the load toward a target RPE based on the RPE logged for the last set
+ */
+export interface RPEProgressionRule {
+  type: 'rpe';
+  sets: number;
+  reps: number;
+  targetRPE: number;
+  loadPerRPE: number; // Fraction of the load per RPE point off target (e.g. 0.04)
+  rounding: UnitLoad;
+}
+
+/**
+ * Percentages of a training max cycled week by week (5/3/1)
+ * The last set of each week is AMRAP; missing its reps lowers the training max
+ */
+export interface WaveProgressionRule {
+  type: 'wave';
+  weeks: { reps: number[]; percentages: number[] }[]; // One entry per session in the wave
+  trainingMaxIncrement: UnitLoad; // Added after each completed wave
+  resetPercent: number; // Training max multiplier after a missed AMRAP set
+  rounding: UnitLoad;
+}
+
+export type ProgressionRule =
+  | LinearProgressionRule
+  | DoubleProgressionRule
+  | RPEProgressionRule
+  | WaveProgressionRule;
+
+export interface ExerciseProgressionRule {
+  id: string; // Key for the exercise's progression state
+  exerciseId: string;
+  templateIds?: string[]; // Only in these templates (e.g. GZCLP T1 vs T2 of the same lift)
+  rule: ProgressionRule;
+}
+
+/**
+ * Where an exercise is in its progression, stored per rule id on the active program
+ */
+export interface ProgressionState {
+  weight: number; // Working weight in kg (linear, double, rpe)
+  stage?: number; // Index into failureStages, 0 = base sets x reps (linear)
+  failures?: number; // Consecutive failed sessions (linear)
+  targetReps?: number; // Reps per set to hit next session (double)
+  trainingMax?: number; // In kg (wave)
+  week?: number; // Position in the wave, 0-based (wave)
+  updatedAt: number;
 }
 
 export type ProgramGoal = 'Hypertrophy' | 'Strength' | 'Powerlifting' | 'Power-Building' | 'General Fitness';
 export type ProgramSplitType = 'PPL' | 'Upper/Lower' | 'Full Body' | 'Body Part Split';
 export type ProgramDifficulty = 'Beginner' | 'Intermediate' | 'Advanced';
 
+/**
+ * Training philosophy shown on the program detail page
+ * Built-in programs use PROGRAM_METHODOLOGIES (utils/programMethodologies.ts)
+ */
+export interface ProgramMethodology {
+  approach: string;
+  goals: string[];
+  guidelines: string[];
+  principles: { name: string; description: string }[];
+}
+
 export interface Program {
   id: string;
   name: string;
@@ -136,6 +363,9 @@ export interface Program {
       description?: string; // Optional description for this variant
     };
   };
+  progressionRules?: ExerciseProgressionRule[]; // Evaluated after each session (see services/programProgression.ts)
+  methodology?: ProgramMethodology; // Custom and imported programs
+  updatedAt?: number; // Last local modification (ms), used to merge cloud sync
 }
 
 export interface BodyMeasurements {
@@ -159,7 +389,7 @@ export interface DailyLog {
     proteinGrams?: number;
     waterLitres?: number;
     stressLevel?: number; // 1-5 scale (life stress)
-    bodyweight?: number; // Bodyweight in lbs or kg
+    bodyweight?: number; // Bodyweight in kg
     measurements?: BodyMeasurements; // Body measurements in inches/cm
     progressPhoto?: string; // Base64 encoded image or URL
 
@@ -176,6 +406,19 @@ export interface DailyLog {
     // HealthKit-imported biometrics (Phase 2)
     hrv?: number; // Heart Rate Variability in ms (gold standard for recovery tracking)
     restingHR?: number; // Resting Heart Rate in bpm (fitness/recovery indicator)
+
+    updatedAt?: number; // Last local modification (ms), used to merge cloud sync
+}
+
+/**
+ * OpenAI-compatible model server on the user's device or network
+ * e.g. Ollama: http://localhost:11434/v1, llama.cpp server: http://localhost:8080/v1
+ */
+export interface LocalLLMSettings {
+  enabled: boolean;
+  baseUrl: string;
+  model: string;
+  apiKey?: string; // Only if the server requires one
 }
 
 export interface NotificationSettings {
@@ -197,18 +440,21 @@ export interface UserSettings {
   onboardingCompleted: boolean;
   personalRecords: Record<string, ExercisePRHistory>; // exerciseId -> PR History with best weight/volume/reps
   defaultRestTimer: number; // in seconds
-  barWeight: number; // Weight of the bar (e.g., 45lbs)
+  barWeight: number; // Weight of the bar in kg (e.g., 20.41 for a 45lb bar)
   availablePlates?: {
     kg: number[];
     lbs: number[];
   }; // Customizable plates available in user's gym
-  bodyweight?: number; // User's bodyweight in lbs (for strength score calculations)
+  gymProfiles?: GymProfile[]; // Named locations; without any, the fields above act as the only gym
+  activeGymProfileId?: string; // Gym new workouts start at
+  bodyweight?: number; // User's bodyweight in kg (for strength score calculations)
   gender?: 'male' | 'female'; // For strength standard classifications
   activeProgram?: {
       programId: string;
       currentSessionIndex: number;
       startDate: number;
       selectedFrequency?: number; // User's chosen training frequency (e.g., 3, 4, 5, 6 days/week)
+      progression?: Record<string, ProgressionState>; // Rule id -> progression state
   };
   ironCloud?: {
       enabled: boolean;
@@ -241,10 +487,16 @@ export interface UserSettings {
   // Auto-Progression Settings (Phase 3)
   autoProgression?: {
     enabled: boolean;
-    upperBodyIncrement: number; // lbs or kg
-    lowerBodyIncrement: number; // lbs or kg
+    upperBodyIncrement: number; // kg
+    lowerBodyIncrement: number; // kg
   };
 
+  // Formula behind every estimated 1RM (PRs, forecasts, training maxes, charts)
+  e1rmFormula?: E1RMFormula; // Defaults to 'auto'
+
+  // Warm-up ladders per exercise, overriding the category default
+  warmupSchemes?: Record<string, WarmupScheme>; // exerciseId -> scheme
+
   // Enhanced Rest Timer Options (Phase 3)
   restTimerOptions?: {
     sound: boolean;
@@ -270,10 +522,107 @@ export interface UserSettings {
     enabled: boolean; // Master toggle for Gemini LLM features
     enhanceSuggestions?: boolean; // Use LLM to explain progressive overload suggestions
     generateSummaries?: boolean; // Use LLM to generate post-workout summaries
+    sharePersonalHistory?: boolean; // Allow notes, PRs and daily logs in cloud LLM prompts (off by default)
   };
 
+  // Local LLM (offline coaching via llama.cpp server / Ollama)
+  localLLM?: LocalLLMSettings;
+
   // Gamification System
   gamification?: GamificationState;
+
+  updatedAt?: number; // Last local modification (ms), used to merge cloud sync
+}
+
+// ============================================================================
+// CLOUD SYNC
+// ============================================================================
+
+export type SyncEntityKind = 'workout' | 'template' | 'program' | 'dailyLog' | 'settings';
+
+/**
+ * A record that was changed both locally and in the cloud since the last sync.
+ * Neither side is overwritten until the user picks a winner.
+ */
+export interface SyncConflict {
+  id: string; // `${kind}:${recordId}`
+  kind: SyncEntityKind;
+  recordId: string; // Workout/program id, daily log date, or 'settings'
+  name: string; // Human-readable label for the conflict list
+  local: WorkoutSession | Program | DailyLog | UserSettings;
+  remote: WorkoutSession | Program | DailyLog | UserSettings;
+  localUpdatedAt?: number;
+  remoteUpdatedAt?: number;
+  detectedAt: number;
+}
+
+export type SyncTombstoneKind = Exclude<SyncEntityKind, 'settings'>;
+
+/**
+ * Marker for a deleted record so other devices drop it instead of re-uploading it.
+ * Purged locally and remotely once older than the retention window.
+ */
+export interface SyncTombstone {
+  id: string; // `${kind}:${recordId}`
+  kind: SyncTombstoneKind;
+  recordId: string; // Workout/program id or daily log date
+  deletedAt: number;
+  syncedAt?: number; // Set once the delete has reached the backend
+}
+
+// ============================================================================
+// COACHING
+// ============================================================================
+
+/**
+ * Code a coach hands out; an athlete entering it creates the link
+ */
+export interface CoachInvite {
+  code: string;
+  coachId: string;
+  coachName: string;
+  createdAt: number;
+}
+
+/**
+ * Coach-athlete relationship. While it exists the coach can read the athlete's
+ * completed workouts and daily logs, assign programs and comment on sets.
+ */
+export interface CoachLink {
+  id: string; // `${coachId}_${athleteId}`
+  coachId: string;
+  coachName: string;
+  athleteId: string;
+  athleteName: string;
+  createdAt: number;
+}
+
+export type ProgramAssignmentStatus = 'pending' | 'accepted' | 'declined';
+
+export interface ProgramAssignment {
+  id: string;
+  coachId: string;
+  coachName: string;
+  athleteId: string;
+  programName: string;
+  payload: string; // Serialized program package (services/programPackage.ts)
+  status: ProgramAssignmentStatus;
+  assignedAt: number;
+}
+
+/**
+ * Comment on one set (or a whole exercise) of a completed workout
+ */
+export interface SetComment {
+  id: string;
+  athleteId: string;
+  workoutId: string;
+  logId: string;
+  setId?: string; // Omitted for comments on the whole exercise
+  authorId: string;
+  authorName: string;
+  text: string;
+  createdAt: number;
 }
 
 // ============================================================================
@@ -330,6 +679,27 @@ export interface StreakData {
   freezesUsedThisWeek: number;
 }
 
+export type ChallengeMetric = 'volume' | 'sessions' | 'muscle_sets' | 'wellness_days';
+
+/**
+ * This week's challenge, generated from the catalog in services/gamification.ts
+ */
+export interface WeeklyChallenge {
+  id: string;
+  definitionId: string; // Catalog entry it was generated from
+  metric: ChallengeMetric;
+  name: string;
+  description: string;
+  progress: number;
+  target: number; // Personalized from recent weeks
+  xpReward: number;
+  startsAt: number; // Monday 00:00 local time
+  expiresAt: number; // Following Monday 00:00
+  muscleGroup?: MuscleGroup; // For 'muscle_sets'
+  loggedDates?: string[]; // Days already counted for 'wellness_days'
+  completedAt?: number;
+}
+
 export interface GamificationState {
   // XP & Levels
   totalXP: number;
@@ -344,19 +714,11 @@ export interface GamificationState {
   unlockedAchievements: UnlockedAchievement[];
 
   // Weekly Challenges
-  weeklyChallenge?: {
-    id: string;
-    name: string;
-    description: string;
-    progress: number;
-    target: number;
-    xpReward: number;
-    expiresAt: number;
-  };
+  weeklyChallenge?: WeeklyChallenge;
 
   // Stats
   totalWorkouts: number;
-  totalVolume: number; // Lifetime volume in lbs
+  totalVolume: number; // Lifetime volume in kg
   totalPRs: number;
 }
 
@@ -404,7 +766,7 @@ export interface TrainingMaxHistory {
 
 export interface TrainingMax {
   exerciseId: string;
-  value: number;           // Current Training Max value
+  value: number;           // Current Training Max value (kg)
   lastUpdated: number;
   calculatedFrom?: {
     type: '1RM' | '3RM' | '5RM' | 'manual';
@@ -417,7 +779,7 @@ export interface TrainingMax {
 export interface AMAPProgressionRule {
   minReps: number;         // Minimum reps to qualify for this tier
   maxReps?: number;        // Maximum reps (undefined = no max)
-  weightIncrease: number;  // Weight to add to TM (in lbs/kg)
+  weightIncrease: number;  // Weight to add to TM (in lbs, as GN programs are written)
   description?: string;    // "Excellent", "Great", "Good", etc.
 }
 
@@ -517,6 +879,43 @@ export interface FatiguePrediction {
   };
 }
 
+/**
+ * Fatigue model inputs, one per value in the daily feature vector
+ */
+export type FatigueFeatureKey =
+  | 'volume' | 'avgRPE' | 'maxRPE' | 'intensity' | 'acwr' | 'daysSinceRest'
+  | 'sleepHours' | 'sleepQuality' | 'stress' | 'soreness' | 'recovery'
+  | 'trainingDay' | 'dayOfWeek';
+
+/**
+ * How much one input moved the explained fatigue score
+ */
+export interface AttributionScore {
+  impact: number;              // Change in predicted fatigue (0-1 scale) vs a reference day; positive = raised fatigue
+  share: number;               // impact / sum of |impact| in its group (-1 to 1)
+}
+
+export interface FeatureAttribution extends AttributionScore {
+  feature: FatigueFeatureKey;
+  label: string;
+}
+
+export interface DayAttribution extends AttributionScore {
+  date: string;                // YYYY-MM-DD of the input day
+}
+
+/**
+ * Why the fatigue model predicted what it did
+ * Occlusion: each feature (across all days) and each day (all features) is
+ * swapped for a reference day and the change in the score is measured.
+ */
+export interface FatigueAttribution {
+  method: 'occlusion';
+  score: number;               // Mean predicted fatigue over the horizon (what is explained)
+  features: FeatureAttribution[]; // Largest |impact| first
+  days: DayAttribution[];      // Oldest first
+}
+
 /**
  * Output from the volume bandit
  */
@@ -592,6 +991,22 @@ export interface MLTrainingRecord {
   hadInjury: boolean;
 }
 
+/**
+ * Volume recommendation shown to the user, awaiting its delayed reward
+ * Settled into the bandit once the outcome window closes
+ */
+export interface PendingVolumeRecommendation {
+  id: string;
+  muscleGroup: MuscleGroup;
+  action: VolumeAction;
+  context: BanditContext;       // What the bandit saw when it recommended
+  currentVolume: number;        // Sets/week when shown
+  recommendedVolume: number;
+  shownAt: number;
+  dueAt: number;                // Outcome window closes
+  baselineE1RM: Record<string, number>; // Best e1RM per exercise before it was shown (kg)
+}
+
 /**
  * Bandit model state (Thompson Sampling with per-muscle-group Beta distributions)
  */
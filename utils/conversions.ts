@@ -39,6 +39,52 @@ export const formatWeight = (weight: number, unit: 'lbs' | 'kg'): string => {
   return `${weight} ${unit.toUpperCase()}`;
 };
 
+// ============================================================================
+// Stored vs. displayed weights
+// ============================================================================
+
+export type WeightUnit = 'lbs' | 'kg';
+
+/**
+ * Every stored weight (sets, PRs, training maxes, progression state,
+ * bodyweight, bar weight, volume) is in kilograms, whatever the user's units.
+ * Convert with toDisplayWeight() when showing a weight and fromDisplayWeight()
+ * when reading one the user typed.
+ */
+export const STORAGE_UNIT: WeightUnit = 'kg';
+
+export const KG_PER_LB = 0.45359237; // Exact, so pounds round-trip through storage
+
+/**
+ * Stored weight (kg) in the user's units, rounded to 2 decimals
+ */
+export const toDisplayWeight = (kg: number, units: WeightUnit): number => {
+  const value = units === 'kg' ? kg : kg / KG_PER_LB;
+  return Math.round(value * 100) / 100;
+};
+
+/**
+ * Weight entered in the user's units, as stored (kg)
+ */
+export const fromDisplayWeight = (value: number, units: WeightUnit): number => {
+  return units === 'kg' ? value : value * KG_PER_LB;
+};
+
+/**
+ * Round a stored weight to a step of the user's units (e.g. to 5 lbs), as stored
+ */
+export const roundToDisplayStep = (kg: number, units: WeightUnit, step: number): number => {
+  if (step <= 0) return kg;
+  return fromDisplayWeight(Math.round(toDisplayWeight(kg, units) / step) * step, units);
+};
+
+/**
+ * Format a stored weight in the user's units, e.g. "225 LBS"
+ */
+export const formatDisplayWeight = (kg: number, units: WeightUnit): string => {
+  return formatWeight(toDisplayWeight(kg, units), units);
+};
+
 /**
  * Get standard plate sets for each unit system
  * @param unit - Unit system ('lbs' or 'kg')
@@ -0,0 +1,29 @@
+// Experience level utilities
+
+import { ExperienceLevel } from '../types';
+
+const ANALYSIS_EXPERIENCE_LEVELS: Record<ExperienceLevel, Lowercase<ExperienceLevel>> = {
+  Beginner: 'beginner',
+  Intermediate: 'intermediate',
+  Advanced: 'advanced',
+};
+
+const SETTINGS_EXPERIENCE_LEVELS: Record<Lowercase<ExperienceLevel>, ExperienceLevel> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+/**
+ * Settings level as the analysis services take it
+ * Periodization, PR forecasts, weak points and recovery key their tables by the
+ * lowercase level; settings and the exercise library use the capitalised one
+ */
+export const toAnalysisExperienceLevel = (level: ExperienceLevel): Lowercase<ExperienceLevel> =>
+  ANALYSIS_EXPERIENCE_LEVELS[level];
+
+/**
+ * Analysis level back to the settings level (e.g. for volume landmarks)
+ */
+export const toSettingsExperienceLevel = (level: Lowercase<ExperienceLevel>): ExperienceLevel =>
+  SETTINGS_EXPERIENCE_LEVELS[level];
@@ -1,51 +1,12 @@
 /**
  * Percentage-Based Programming Calculator Utilities
  *
- * Handles Training Max calculations, 1RM estimation, percentage-based weight calculations,
+ * Handles Training Max calculations, percentage-based weight calculations,
  * AMAP progression logic, and plate math for Greg Nuckols programs.
  */
 
 import { AMAPProgressionTable } from '../types';
 
-// ============================================
-// 1RM Estimation Formulas
-// ============================================
-
-/**
- * Estimate 1 Rep Max using various formulas
- * @param weight Weight lifted
- * @param reps Reps performed
- * @param formula Formula to use
- * @returns Estimated 1RM
- */
-export function estimate1RM(
-  weight: number,
-  reps: number,
-  formula: 'Epley' | 'Brzycki' | 'Wendler' = 'Epley'
-): number {
-  if (reps === 1) return weight;
-  if (reps < 1 || reps > 12) {
-    console.warn('1RM estimation is most accurate for 1-12 reps');
-  }
-
-  switch (formula) {
-    case 'Epley':
-      // Epley: 1RM = weight × (1 + reps/30)
-      return weight * (1 + reps / 30);
-
-    case 'Brzycki':
-      // Brzycki: 1RM = weight × (36 / (37 - reps))
-      return weight * (36 / (37 - reps));
-
-    case 'Wendler':
-      // Wendler (simplified): 1RM = weight × reps × 0.0333 + weight
-      return weight * reps * 0.0333 + weight;
-
-    default:
-      return estimate1RM(weight, reps, 'Epley');
-  }
-}
-
 // ============================================
 // Training Max Calculations
 // ============================================
@@ -64,15 +25,17 @@ export function calculateTrainingMax(oneRM: number, multiplier: number = 0.90):
  * Calculate working weight from Training Max and percentage
  * @param trainingMax Training Max value
  * @param percentage Percentage of TM (70, 75, 80, etc.)
- * @param roundTo Round to nearest value (default 2.5 lbs)
+ * @param roundTo Round to nearest value (default 2.5 lbs), or a function returning
+ *   the nearest load that can be set up (e.g. roundToAchievableLoad for the exercise)
  * @returns Calculated working weight
  */
 export function calculateWorkingWeight(
   trainingMax: number,
   percentage: number,
-  roundTo: number = 2.5
+  roundTo: number | ((weight: number) => number) = 2.5
 ): number {
   const raw = trainingMax * (percentage / 100);
+  if (typeof roundTo === 'function') return roundTo(raw);
   return Math.round(raw / roundTo) * roundTo;
 }
 
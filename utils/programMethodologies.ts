@@ -5,12 +5,9 @@
  * based on research from leading strength training sources (2025)
  */
 
-export interface ProgramMethodology {
-  approach: string;
-  goals: string[];
-  guidelines: string[];
-  principles: { name: string; description: string }[];
-}
+import type { ProgramMethodology } from '../types';
+
+export type { ProgramMethodology };
 
 export const PROGRAM_METHODOLOGIES: Record<string, ProgramMethodology> = {
   // Reddit PPL (Push/Pull/Legs)
@@ -160,10 +157,10 @@ export const PROGRAM_METHODOLOGIES: Record<string, ProgramMethodology> = {
 
 /**
  * Get program-specific methodology
- * Falls back to generic content if program not found
+ * Falls back to the program's own (custom/imported) methodology, then generic content
  */
-export function getProgramMethodology(programId: string): ProgramMethodology {
-  return PROGRAM_METHODOLOGIES[programId] || {
+export function getProgramMethodology(programId: string, custom?: ProgramMethodology): ProgramMethodology {
+  return PROGRAM_METHODOLOGIES[programId] || custom || {
     approach: 'This program emphasizes progressive overload through structured volume and intensity manipulation. Each week builds upon the previous, systematically increasing demand to drive adaptation and growth.',
     goals: [
       'Build strength across major compound movements',